@@ -15,6 +15,8 @@ import {
 	deleteRun as _deleteRun,
 	createTask,
 	getExercisesForLanguage,
+	loadSuite,
+	EVALS_SUITES_PATH,
 } from "@roo-code/evals"
 
 import { CreateRun } from "@/lib/schemas"
@@ -22,14 +24,28 @@ import { redisClient } from "@/lib/server/redis"
 
 const EVALS_REPO_PATH = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../../../../evals")
 
-export async function createRun({ suite, exercises = [], timeout, iterations = 1, ...values }: CreateRun) {
+export async function createRun({ suite, exercises = [], suiteId, timeout, iterations = 1, ...values }: CreateRun) {
+	// Load the suite first so that an invalid suite doesn't leave an empty run behind.
+	const customSuite = suite === "custom" && suiteId ? await loadSuite(EVALS_SUITES_PATH, suiteId) : undefined
+
 	const run = await _createRun({
 		...values,
 		timeout,
 		socketPath: "", // TODO: Get rid of this.
 	})
 
-	if (suite === "partial") {
+	if (customSuite) {
+		const tasksToCreate = customSuite.instances.flatMap(({ id: instanceId }) =>
+			Array.from({ length: iterations }, (_, i) => ({ instanceId, iteration: i + 1 })),
+		)
+
+		await pMap(
+			tasksToCreate,
+			({ instanceId, iteration }) =>
+				createTask({ runId: run.id, suiteId: customSuite.id, instanceId, iteration }),
+			{ concurrency: 10 },
+		)
+	} else if (suite === "partial") {
 		for (const path of exercises) {
 			const [language, exercise] = path.split("/")
 
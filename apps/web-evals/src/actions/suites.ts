@@ -0,0 +1,14 @@
+"use server"
+
+import { EVALS_SUITES_PATH, getSuites as _getSuites } from "@roo-code/evals"
+
+export const getSuites = async () => {
+	const suites = await _getSuites(EVALS_SUITES_PATH)
+
+	return suites.map(({ id, name, description, instances }) => ({
+		id,
+		name: name ?? id,
+		description,
+		instanceCount: instances.length,
+	}))
+}
@@ -3,7 +3,7 @@ import type { NextRequest } from "next/server"
 import * as fs from "node:fs/promises"
 import * as path from "node:path"
 
-import { findTask, findRun } from "@roo-code/evals"
+import { findTask, findRun, getTaskNameParts } from "@roo-code/evals"
 
 export const dynamic = "force-dynamic"
 
@@ -37,12 +37,8 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 			return NextResponse.json({ error: "Task does not belong to this run" }, { status: 404 })
 		}
 
-		// Sanitize language and exercise to prevent path traversal
-		const safeLanguage = sanitizePathComponent(task.language)
-		const safeExercise = sanitizePathComponent(task.exercise)
-
-		// Construct the log file path
-		const logFileName = `${safeLanguage}-${safeExercise}.log`
+		// Sanitize the name parts to prevent path traversal, and construct the log file path
+		const logFileName = `${getTaskNameParts(task).map(sanitizePathComponent).join("-")}.log`
 		const logFilePath = path.join(LOG_BASE_PATH, String(runId), logFileName)
 
 		// Verify the resolved path is within the expected directory (defense in depth)
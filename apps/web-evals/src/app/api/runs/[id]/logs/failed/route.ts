@@ -4,7 +4,7 @@ import * as fs from "node:fs"
 import * as path from "node:path"
 import archiver from "archiver"
 
-import { findRun, getTasks } from "@roo-code/evals"
+import { findRun, getTasks, getTaskNameParts } from "@roo-code/evals"
 
 export const dynamic = "force-dynamic"
 
@@ -66,10 +66,8 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 		let filesAdded = 0
 
 		for (const task of failedTasks) {
-			// Sanitize language and exercise to prevent path traversal
-			const safeLanguage = sanitizePathComponent(task.language)
-			const safeExercise = sanitizePathComponent(task.exercise)
-			const logFileName = `${safeLanguage}-${safeExercise}.log`
+			// Sanitize the name parts to prevent path traversal
+			const logFileName = `${getTaskNameParts(task).map(sanitizePathComponent).join("-")}.log`
 			const logFilePath = path.join(logDir, logFileName)
 
 			// Verify the resolved path is within the expected directory (defense in depth)
@@ -7,7 +7,13 @@ import { LoaderCircle, FileText, Copy, Check, StopCircle } from "lucide-react"
 import type { Run, TaskMetrics as _TaskMetrics, Task } from "@roo-code/evals"
 import type { ToolName } from "@roo-code/types"
 
-import { formatCurrency, formatDuration, formatTokens, formatToolUsageSuccessRate } from "@/lib/formatters"
+import {
+	formatCurrency,
+	formatDuration,
+	formatTaskName,
+	formatTokens,
+	formatToolUsageSuccessRate,
+} from "@/lib/formatters"
 import { useRunStatus } from "@/hooks/use-run-status"
 import { killRun } from "@/actions/runs"
 import {
@@ -625,7 +631,7 @@ export function Run({ run }: { run: Run }) {
 												<TaskStatus task={task} running={hasStarted} />
 												<div className="flex items-center gap-2">
 													<span>
-														{task.language}/{task.exercise}
+														{formatTaskName(task)}
 														{task.iteration > 1 && (
 															<span className="text-muted-foreground ml-1">
 																(#{task.iteration})
@@ -710,7 +716,7 @@ export function Run({ run }: { run: Run }) {
 						<div className="flex items-center justify-between pr-8">
 							<DialogTitle className="flex items-center gap-2">
 								<FileText className="size-4" />
-								{selectedTask?.language}/{selectedTask?.exercise}
+								{selectedTask && formatTaskName(selectedTask)}
 								{selectedTask?.iteration && selectedTask.iteration > 1 && (
 									<span className="text-muted-foreground">(#{selectedTask.iteration})</span>
 								)}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useCallback } from "react"
+import { useRouter } from "next/navigation"
+
+import type { ComparisonSide, ExerciseComparison, Run, RunComparison } from "@roo-code/evals"
+
+import { formatCurrency, formatDateTime, formatDuration, formatTokens } from "@/lib/formatters"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui"
+
+type CompareProps = {
+	runs: Run[]
+	baseRunId?: number
+	headRunId?: number
+	comparison?: RunComparison & { baseRun: Run; headRun: Run }
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+const formatDelta = (value: number, format: (value: number) => string) =>
+	value === 0 ? "" : `${value > 0 ? "+" : "-"}${format(Math.abs(value))}`
+
+const formatSide = (side?: ComparisonSide) => (side ? `${side.passed}/${side.total}` : "-")
+
+const statusClassNames: Record<ExerciseComparison["status"], string> = {
+	regression: "text-red-500",
+	improvement: "text-green-500",
+	unchanged: "text-muted-foreground",
+	added: "text-muted-foreground",
+	removed: "text-muted-foreground",
+}
+
+function Status({ status, confidence, significant }: Omit<ExerciseComparison, "name">) {
+	return (
+		<div className={`flex flex-col ${statusClassNames[status]}`}>
+			<span className={significant ? "font-medium" : ""}>
+				{status}
+				{significant && " (significant)"}
+			</span>
+			{confidence !== undefined && status !== "unchanged" && (
+				<span className="text-xs text-muted-foreground">confidence {formatPercent(confidence)}</span>
+			)}
+		</div>
+	)
+}
+
+function Delta({ base, head, format }: { base?: number; head?: number; format: (value: number) => string }) {
+	if (base === undefined || head === undefined) {
+		return <span className="text-muted-foreground">-</span>
+	}
+
+	return (
+		<div className="flex flex-col">
+			<span>{format(head)}</span>
+			<span className="text-xs text-muted-foreground">{formatDelta(head - base, format)}</span>
+		</div>
+	)
+}
+
+function ComparisonRow({ name, ...comparison }: ExerciseComparison) {
+	const { base, head, significant } = comparison
+
+	return (
+		<TableRow className={significant ? "bg-red-950/30 border-l-2 border-l-red-500" : ""}>
+			<TableCell>{name}</TableCell>
+			<TableCell>
+				{formatSide(base)} → {formatSide(head)}
+			</TableCell>
+			<TableCell>
+				<Status {...comparison} />
+			</TableCell>
+			<TableCell>
+				<Delta base={base?.tokens} head={head?.tokens} format={formatTokens} />
+			</TableCell>
+			<TableCell>
+				<Delta base={base?.cost} head={head?.cost} format={formatCurrency} />
+			</TableCell>
+			<TableCell>
+				<Delta base={base?.duration} head={head?.duration} format={formatDuration} />
+			</TableCell>
+			<TableCell>
+				<Delta base={base?.toolErrorsPerTask} head={head?.toolErrorsPerTask} format={(v) => v.toFixed(2)} />
+			</TableCell>
+		</TableRow>
+	)
+}
+
+export function Compare({ runs, baseRunId, headRunId, comparison }: CompareProps) {
+	const router = useRouter()
+
+	const onSelect = useCallback(
+		(side: "base" | "head", runId: string) => {
+			const params = new URLSearchParams()
+			const base = side === "base" ? runId : baseRunId
+			const head = side === "head" ? runId : headRunId
+
+			if (base !== undefined) {
+				params.set("base", `${base}`)
+			}
+
+			if (head !== undefined) {
+				params.set("head", `${head}`)
+			}
+
+			router.push(`/runs/compare?${params}`)
+		},
+		[router, baseRunId, headRunId],
+	)
+
+	return (
+		<div className="flex flex-col gap-6">
+			<div className="flex items-center gap-4">
+				{(["base", "head"] as const).map((side) => (
+					<div key={side} className="flex items-center gap-2">
+						<span className="text-sm text-muted-foreground">{side === "base" ? "Base" : "Head"}</span>
+						<Select
+							value={`${(side === "base" ? baseRunId : headRunId) ?? ""}`}
+							onValueChange={(value) => onSelect(side, value)}>
+							<SelectTrigger className="w-80">
+								<SelectValue placeholder="Select a run" />
+							</SelectTrigger>
+							<SelectContent>
+								{runs.map((run) => (
+									<SelectItem key={run.id} value={`${run.id}`}>
+										#{run.id} {run.model} ({formatDateTime(run.createdAt)})
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				))}
+			</div>
+			{comparison && (
+				<>
+					<Table className="border">
+						<TableHeader>
+							<TableRow>
+								<TableHead>Exercise</TableHead>
+								<TableHead>Passed</TableHead>
+								<TableHead>Status</TableHead>
+								<TableHead>Tokens</TableHead>
+								<TableHead>Cost</TableHead>
+								<TableHead>Duration</TableHead>
+								<TableHead>Tool Errors / Task</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							<ComparisonRow name="Overall" {...comparison.overall} />
+							{comparison.exercises
+								.filter(({ status }) => status !== "unchanged")
+								.map((exercise) => (
+									<ComparisonRow key={exercise.name} {...exercise} />
+								))}
+						</TableBody>
+					</Table>
+					{comparison.toolErrors.length > 0 && (
+						<Table className="border">
+							<TableHeader>
+								<TableRow>
+									<TableHead>Tool</TableHead>
+									<TableHead>Tool Errors / Task</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{comparison.toolErrors.map(({ toolName, base, head }) => (
+									<TableRow key={toolName}>
+										<TableCell>{toolName}</TableCell>
+										<TableCell className={head > base ? "text-red-500" : ""}>
+											<Delta base={base} head={head} format={(v) => v.toFixed(2)} />
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					)}
+				</>
+			)}
+		</div>
+	)
+}
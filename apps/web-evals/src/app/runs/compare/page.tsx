@@ -0,0 +1,21 @@
+import { getRunComparison, getRuns } from "@roo-code/evals"
+
+import { Compare } from "./compare"
+
+export const dynamic = "force-dynamic"
+
+export default async function Page({ searchParams }: { searchParams: Promise<{ base?: string; head?: string }> }) {
+	const { base, head } = await searchParams
+	const baseRunId = base ? Number(base) : undefined
+	const headRunId = head ? Number(head) : undefined
+	const runs = await getRuns()
+
+	const comparison =
+		baseRunId !== undefined && headRunId !== undefined ? await getRunComparison(baseRunId, headRunId) : undefined
+
+	return (
+		<div className="w-full px-6 py-12">
+			<Compare runs={runs} baseRunId={baseRunId} headRunId={headRunId} comparison={comparison} />
+		</div>
+	)
+}
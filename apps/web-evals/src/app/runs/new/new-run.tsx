@@ -21,6 +21,7 @@ import {
 
 import { createRun } from "@/actions/runs"
 import { getExercises } from "@/actions/exercises"
+import { getSuites } from "@/actions/suites"
 
 import {
 	type CreateRun,
@@ -108,6 +109,7 @@ export function NewRun() {
 	const onFilter = provider === "openrouter" ? openRouter.onFilter : rooCodeCloud.onFilter
 
 	const exercises = useQuery({ queryKey: ["getExercises"], queryFn: () => getExercises() })
+	const suites = useQuery({ queryKey: ["getSuites"], queryFn: () => getSuites() })
 
 	// State for selected exercises (needed for language toggle buttons)
 	const [selectedExercises, setSelectedExercises] = useState<string[]>([])
@@ -119,6 +121,7 @@ export function NewRun() {
 			description: "",
 			suite: "full",
 			exercises: [],
+			suiteId: undefined,
 			settings: undefined,
 			concurrency: CONCURRENCY_DEFAULT,
 			timeout: TIMEOUT_DEFAULT,
@@ -134,7 +137,7 @@ export function NewRun() {
 		formState: { isSubmitting },
 	} = form
 
-	const [model, suite, settings] = watch(["model", "suite", "settings", "concurrency"])
+	const [model, suite, settings, suiteId] = watch(["model", "suite", "settings", "suiteId", "concurrency"])
 
 	// Load settings from localStorage on mount
 	useEffect(() => {
@@ -678,19 +681,42 @@ export function NewRun() {
 									<Tabs
 										value={suite}
 										onValueChange={(value) => {
-											setValue("suite", value as "full" | "partial")
+											setValue("suite", value as CreateRun["suite"])
 											localStorage.setItem("evals-suite", value)
-											if (value === "full") {
+											if (value !== "partial") {
 												setSelectedExercises([])
 												setValue("exercises", [])
 												localStorage.removeItem("evals-exercises")
 											}
+											if (value !== "custom") {
+												setValue("suiteId", undefined)
+											}
 										}}>
 										<TabsList>
 											<TabsTrigger value="full">All</TabsTrigger>
 											<TabsTrigger value="partial">Some</TabsTrigger>
+											<TabsTrigger value="custom" disabled={!suites.data?.length}>
+												Suite
+											</TabsTrigger>
 										</TabsList>
 									</Tabs>
+									{suite === "custom" && (
+										<Select
+											value={suiteId ?? ""}
+											onValueChange={(value) => setValue("suiteId", value)}>
+											<SelectTrigger className="w-64">
+												<SelectValue placeholder="Select a suite" />
+											</SelectTrigger>
+											<SelectContent>
+												{suites.data?.map(({ id, name, instanceCount }) => (
+													<SelectItem key={id} value={id}>
+														{name} ({instanceCount} {instanceCount === 1 ? "task" : "tasks"}
+														)
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									)}
 									{suite === "partial" && languages.length > 0 && (
 										<div className="flex items-center gap-1 flex-wrap">
 											{languages.map((lang) => (
@@ -2,7 +2,7 @@ import { useCallback, useState, useRef } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { toast } from "sonner"
-import { Ellipsis, ClipboardList, Copy, Check, LoaderCircle, Trash, Settings, FileDown } from "lucide-react"
+import { Ellipsis, ClipboardList, Copy, Check, LoaderCircle, Trash, Settings, FileDown, GitCompare } from "lucide-react"
 
 import type { Run as EvalsRun, TaskMetrics as EvalsTaskMetrics } from "@roo-code/evals"
 import type { ToolName } from "@roo-code/types"
@@ -181,6 +181,14 @@ export function Run({ run, taskMetrics, toolColumns }: RunProps) {
 									</div>
 								</Link>
 							</DropdownMenuItem>
+							<DropdownMenuItem asChild>
+								<Link href={`/runs/compare?head=${run.id}`}>
+									<div className="flex items-center gap-1">
+										<GitCompare />
+										<div>Compare</div>
+									</div>
+								</Link>
+							</DropdownMenuItem>
 							{run.settings && (
 								<DropdownMenuItem onClick={() => setShowSettings(true)}>
 									<div className="flex items-center gap-1">
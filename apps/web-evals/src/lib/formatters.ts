@@ -1,3 +1,5 @@
+import type { Task } from "@roo-code/evals"
+
 const formatter = new Intl.NumberFormat("en-US", {
 	style: "currency",
 	currency: "USD",
@@ -56,3 +58,7 @@ export const formatDateTime = (date: Date) => {
 		hour12: true,
 	}).format(date)
 }
+
+// Mirrors `getTaskName` from `@roo-code/evals`, which can't be bundled for the client.
+export const formatTaskName = (task: Pick<Task, "language" | "exercise" | "suiteId" | "instanceId">) =>
+	task.suiteId ? `${task.suiteId}/${task.instanceId}` : `${task.language}/${task.exercise}`
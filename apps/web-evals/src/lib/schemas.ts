@@ -22,17 +22,23 @@ export const createRunSchema = z
 	.object({
 		model: z.string().min(1, { message: "Model is required." }),
 		description: z.string().optional(),
-		suite: z.enum(["full", "partial"]),
+		suite: z.enum(["full", "partial", "custom"]),
 		exercises: z.array(z.string()).optional(),
+		// The id of the suite to run when `suite` is "custom".
+		suiteId: z.string().optional(),
 		settings: rooCodeSettingsSchema.optional(),
 		concurrency: z.number().int().min(CONCURRENCY_MIN).max(CONCURRENCY_MAX),
 		timeout: z.number().int().min(TIMEOUT_MIN).max(TIMEOUT_MAX),
 		iterations: z.number().int().min(ITERATIONS_MIN).max(ITERATIONS_MAX),
 		jobToken: z.string().optional(),
 	})
-	.refine((data) => data.suite === "full" || (data.exercises || []).length > 0, {
+	.refine((data) => data.suite !== "partial" || (data.exercises || []).length > 0, {
 		message: "Exercises are required when running a partial suite.",
 		path: ["exercises"],
 	})
+	.refine((data) => data.suite !== "custom" || !!data.suiteId, {
+		message: "A suite is required when running a custom suite.",
+		path: ["suiteId"],
+	})
 
 export type CreateRun = z.infer<typeof createRunSchema>
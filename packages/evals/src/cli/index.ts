@@ -5,6 +5,7 @@ import { run, command, option, flag, number, boolean } from "cmd-ts"
 import { EVALS_REPO_PATH } from "../exercises/index.js"
 
 import { runCi } from "./runCi.js"
+import { runCompare } from "./runCompare.js"
 import { runEvals } from "./runEvals.js"
 import { processTask } from "./runTask.js"
 
@@ -18,12 +19,24 @@ const main = async () => {
 				ci: flag({ type: boolean, long: "ci", defaultValue: () => false }),
 				runId: option({ type: number, long: "runId", short: "r", defaultValue: () => -1 }),
 				taskId: option({ type: number, long: "taskId", short: "t", defaultValue: () => -1 }),
+				compare: option({ type: number, long: "compare", defaultValue: () => -1 }),
+				to: option({ type: number, long: "to", defaultValue: () => -1 }),
+				minConfidence: option({ type: number, long: "minConfidence", defaultValue: () => 0.95 }),
+				json: flag({ type: boolean, long: "json", defaultValue: () => false }),
 			},
 			handler: async (args) => {
-				const { runId, taskId, ci } = args
+				const { runId, taskId, ci, compare, to, minConfidence, json } = args
 
 				try {
-					if (ci) {
+					if (compare !== -1) {
+						if (to === -1) {
+							throw new Error("--to must be provided with --compare.")
+						}
+
+						if (!(await runCompare({ baseRunId: compare, headRunId: to, minConfidence, json }))) {
+							process.exit(1)
+						}
+					} else if (ci) {
 						await runCi({ concurrency: 3, exercisesPerLanguage: 5 })
 					} else if (runId !== -1) {
 						await runEvals(runId)
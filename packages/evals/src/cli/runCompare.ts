@@ -0,0 +1,87 @@
+import {
+	type ComparisonSide,
+	type ExerciseComparison,
+	type RunComparison,
+	hasSignificantRegressions,
+} from "../comparison/index.js"
+import { type Run, getRunComparison } from "../db/index.js"
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+const signed = (value: number, format: (value: number) => string) =>
+	`${value >= 0 ? "+" : "-"}${format(Math.abs(value))}`
+
+const formatSide = (side?: ComparisonSide) => (side ? `${side.passed}/${side.total}` : "-")
+
+const formatDelta = ({ base, head }: Pick<ExerciseComparison, "base" | "head">) =>
+	base && head
+		? [
+				`pass ${signed(head.passRate - base.passRate, percent)}`,
+				`cost ${signed(head.cost - base.cost, (v) => `$${v.toFixed(4)}`)}`,
+				`tokens ${signed(head.tokens - base.tokens, (v) => Math.round(v).toLocaleString())}`,
+				`duration ${signed(head.duration - base.duration, (v) => `${(v / 1_000).toFixed(1)}s`)}`,
+				`tool errors/task ${signed(head.toolErrorsPerTask - base.toolErrorsPerTask, (v) => v.toFixed(2))}`,
+			].join(", ")
+		: ""
+
+const formatConfidence = ({ confidence, significant }: Pick<ExerciseComparison, "confidence" | "significant">) =>
+	`${confidence === undefined ? "" : ` (confidence ${percent(confidence)})`}${significant ? " [significant]" : ""}`
+
+export const formatRunComparison = ({
+	baseRun,
+	headRun,
+	...comparison
+}: RunComparison & { baseRun: Run; headRun: Run }) => {
+	const lines = [
+		`Base: run ${baseRun.id} (${baseRun.model})`,
+		`Head: run ${headRun.id} (${headRun.model})`,
+		"",
+		`Overall: ${formatSide(comparison.overall.base)} -> ${formatSide(comparison.overall.head)}, ${comparison.overall.status}${formatConfidence(comparison.overall)}`,
+		`  ${formatDelta(comparison.overall)}`,
+	]
+
+	const changed = comparison.exercises.filter(({ status }) => status !== "unchanged")
+
+	if (changed.length > 0) {
+		lines.push("", "Changed exercises:")
+
+		for (const exercise of changed) {
+			lines.push(
+				`  ${exercise.status.padEnd(11)} ${exercise.name}: ${formatSide(exercise.base)} -> ${formatSide(exercise.head)}${formatConfidence(exercise)}`,
+			)
+		}
+	}
+
+	const toolErrors = comparison.toolErrors.filter(({ base, head }) => base !== head)
+
+	if (toolErrors.length > 0) {
+		lines.push("", "Tool errors per task:")
+
+		for (const { toolName, base, head } of toolErrors) {
+			lines.push(`  ${toolName}: ${base.toFixed(2)} -> ${head.toFixed(2)}`)
+		}
+	}
+
+	return lines.join("\n")
+}
+
+/**
+ * Prints the comparison of two runs.
+ *
+ * @returns false if the head run has significant regressions
+ */
+export const runCompare = async ({
+	baseRunId,
+	headRunId,
+	minConfidence,
+	json,
+}: {
+	baseRunId: number
+	headRunId: number
+	minConfidence?: number
+	json?: boolean
+}) => {
+	const comparison = await getRunComparison(baseRunId, headRunId, { minConfidence })
+	console.log(json ? JSON.stringify(comparison, null, 2) : formatRunComparison(comparison))
+	return !hasSignificantRegressions(comparison)
+}
@@ -27,10 +27,12 @@ import {
 	createToolError,
 } from "../db/index.js"
 import { EVALS_REPO_PATH } from "../exercises/index.js"
+import { EVALS_SUITES_PATH, getSuiteInstance, getTaskName, getTaskNameParts, loadSuite } from "../suites/index.js"
 
 import { Logger, getTag, isDockerContainer } from "./utils.js"
 import { redisClient, getPubSubKey, registerRunner, deregisterRunner } from "./redis.js"
-import { runUnitTest } from "./runUnitTest.js"
+import { runSuiteTest, runUnitTest } from "./runUnitTest.js"
+import { createSuiteWorkspace, getSuiteWorkspacePath, removeSuiteWorkspace } from "./suiteWorkspace.js"
 
 class SubprocessTimeoutError extends Error {
 	constructor(timeout: number) {
@@ -47,16 +49,12 @@ class SubprocessTimeoutError extends Error {
 async function copyConversationHistory({
 	rooTaskId,
 	logDir,
-	language,
-	exercise,
-	iteration,
+	task,
 	logger,
 }: {
 	rooTaskId: string
 	logDir: string
-	language: string
-	exercise: string
-	iteration: number
+	task: Task
 	logger: Logger
 }): Promise<void> {
 	// VS Code extension global storage path within the container
@@ -67,10 +65,12 @@ async function copyConversationHistory({
 
 	for (const filename of filesToCopy) {
 		const sourcePath = path.join(taskStoragePath, filename)
-		// Use sanitized exercise name (replace slashes with dashes) for the destination filename
+		// Use sanitized task name (replace slashes with dashes) for the destination filename
 		// Include iteration number to handle multiple attempts at the same exercise
-		const sanitizedExercise = exercise.replace(/\//g, "-")
-		const destFilename = `${language}-${sanitizedExercise}.${iteration}_${filename}`
+		const sanitizedName = getTaskNameParts(task)
+			.map((part) => part.replace(/\//g, "-"))
+			.join("-")
+		const destFilename = `${sanitizedName}.${task.iteration}_${filename}`
 		const destPath = path.join(logDir, destFilename)
 
 		try {
@@ -101,9 +101,12 @@ export const processTask = async ({
 	logger?: Logger
 }) => {
 	const task = await findTask(taskId)
-	const { language, exercise } = task
+	const taskName = getTaskName(task)
 	const run = await findRun(task.runId)
-	await registerRunner({ runId: run.id, taskId, timeoutSeconds: (run.timeout || 5) * 60 })
+	const suite = task.suiteId ? await loadSuite(EVALS_SUITES_PATH, task.suiteId) : undefined
+	const instance = suite && task.instanceId ? getSuiteInstance(suite, task.instanceId) : undefined
+	const timeout = instance?.taskTimeout ?? suite?.taskTimeout ?? (run.timeout || 5)
+	await registerRunner({ runId: run.id, taskId, timeoutSeconds: timeout * 60 })
 
 	const containerized = isDockerContainer()
 
@@ -111,7 +114,7 @@ export const processTask = async ({
 		logger ||
 		new Logger({
 			logDir: containerized ? `/var/log/evals/runs/${run.id}` : `/tmp/evals/runs/${run.id}`,
-			filename: `${language}-${exercise}.log`,
+			filename: `${getTaskNameParts(task).join("-")}.log`,
 			tag: getTag("runTask", { run, task }),
 		})
 
@@ -121,13 +124,42 @@ export const processTask = async ({
 			await redis.publish(getPubSubKey(run.id), JSON.stringify(e))
 		}
 
-		logger.info(`running task ${task.id} (${language}/${exercise})...`)
-		await runTask({ run, task, jobToken, publish, logger })
+		let passed: boolean
+
+		if (suite && instance) {
+			const workspacePath = getSuiteWorkspacePath({ run, task })
+
+			logger.info(`preparing workspace for task ${task.id} (${taskName})...`)
+			await createSuiteWorkspace({ suite, instance, workspacePath, logger })
+
+			try {
+				logger.info(`running task ${task.id} (${taskName})...`)
+
+				await runTask({
+					run,
+					task,
+					jobToken,
+					publish,
+					logger,
+					workspacePath,
+					prompt: instance.prompt,
+					timeout,
+				})
+
+				logger.info(`testing task ${task.id} (${taskName})...`)
+				passed = await runSuiteTest({ suite, instance, workspacePath, logger })
+			} finally {
+				await removeSuiteWorkspace({ suite, workspacePath, logger })
+			}
+		} else {
+			logger.info(`running task ${task.id} (${taskName})...`)
+			await runTask({ run, task, jobToken, publish, logger, ...getExerciseWorkspace(task) })
 
-		logger.info(`testing task ${task.id} (${language}/${exercise})...`)
-		const passed = await runUnitTest({ task, logger })
+			logger.info(`testing task ${task.id} (${taskName})...`)
+			passed = await runUnitTest({ task, logger })
+		}
 
-		logger.info(`task ${task.id} (${language}/${exercise}) -> ${passed}`)
+		logger.info(`task ${task.id} (${taskName}) -> ${passed}`)
 		await updateTask(task.id, { passed })
 
 		await publish({
@@ -208,20 +240,51 @@ export const processTaskInContainer = async ({
 	// TODO: Mark task as failed.
 }
 
+const getExerciseWorkspace = (task: Task) => {
+	if (!task.language || !task.exercise) {
+		throw new Error(`Task ${task.id} is not an exercise.`)
+	}
+
+	return {
+		workspacePath: path.resolve(EVALS_REPO_PATH, task.language, task.exercise),
+		prompt: fs.readFileSync(path.resolve(EVALS_REPO_PATH, `prompts/${task.language}.md`), "utf-8"),
+	}
+}
+
 type RunTaskOptions = {
 	run: Run
 	task: Task
 	jobToken: string | null
 	publish: (taskEvent: TaskEvent) => Promise<void>
 	logger: Logger
+	workspacePath: string
+	prompt: string
+	// Overrides the timeout of the run, in minutes.
+	timeout?: number
 }
 
-export const runTask = async ({ run, task, publish, logger, jobToken }: RunTaskOptions) => {
-	const { language, exercise } = task
-	const prompt = fs.readFileSync(path.resolve(EVALS_REPO_PATH, `prompts/${language}.md`), "utf-8")
-	const workspacePath = path.resolve(EVALS_REPO_PATH, language, exercise)
+export const runTask = async ({
+	run,
+	task,
+	publish,
+	logger,
+	jobToken,
+	workspacePath,
+	prompt,
+	timeout,
+}: RunTaskOptions) => {
 	const ipcSocketPath = path.resolve(os.tmpdir(), `evals-${run.id}-${task.id}.sock`)
-	const env = { ROO_CODE_IPC_SOCKET_PATH: ipcSocketPath }
+	const env: Record<string, string> = { ROO_CODE_IPC_SOCKET_PATH: ipcSocketPath }
+
+	// Keep the recorded API responses of each exercise or suite instance
+	// together so they can be replayed offline, e.g. with
+	// `ROO_CODE_CASSETTE_MODE=replay`.
+	const taskNameParts = getTaskNameParts(task)
+
+	if (process.env.ROO_CODE_CASSETTE_DIR && taskNameParts.every(Boolean)) {
+		env.ROO_CODE_CASSETTE_DIR = path.resolve(process.env.ROO_CODE_CASSETTE_DIR, ...taskNameParts)
+	}
+
 	const controller = new AbortController()
 	const cancelSignal = controller.signal
 	const containerized = isDockerContainer()
@@ -416,7 +479,7 @@ export const runTask = async ({ run, task, publish, logger, jobToken }: RunTaskO
 	})
 
 	try {
-		const timeoutMs = (run.timeout || 5) * 60 * 1_000 // Convert minutes to milliseconds
+		const timeoutMs = (timeout || run.timeout || 5) * 60 * 1_000 // Convert minutes to milliseconds
 		await pWaitFor(() => !!taskFinishedAt || !!taskAbortedAt || isClientDisconnected, {
 			interval: 1_000,
 			timeout: timeoutMs,
@@ -494,9 +557,7 @@ export const runTask = async ({ run, task, publish, logger, jobToken }: RunTaskO
 		await copyConversationHistory({
 			rooTaskId,
 			logDir,
-			language,
-			exercise,
-			iteration: task.iteration,
+			task,
 			logger,
 		})
 	}
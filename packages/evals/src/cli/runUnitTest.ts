@@ -5,6 +5,7 @@ import psTree from "ps-tree"
 
 import type { Task } from "../db/index.js"
 import { type ExerciseLanguage, EVALS_REPO_PATH } from "../exercises/index.js"
+import type { Suite, SuiteInstance } from "../suites/index.js"
 
 import { Logger } from "./utils.js"
 
@@ -24,10 +25,42 @@ type RunUnitTestOptions = {
 }
 
 export const runUnitTest = async ({ task, logger }: RunUnitTestOptions) => {
+	if (!task.language || !task.exercise) {
+		throw new Error(`Task ${task.id} is not an exercise.`)
+	}
+
 	const cmd = testCommands[task.language]
 	const cwd = path.resolve(EVALS_REPO_PATH, task.language, task.exercise)
 	const commands = cmd.commands.map((cs) => parseCommandString(cs))
 
+	return runTestCommands({ cwd, commands, timeout: cmd.timeout ?? UNIT_TEST_TIMEOUT, logger })
+}
+
+type RunSuiteTestOptions = {
+	suite: Suite
+	instance: SuiteInstance
+	workspacePath: string
+	logger: Logger
+}
+
+/**
+ * Runs the hidden test command of a suite instance in its workspace.
+ */
+export const runSuiteTest = async ({ suite, instance, workspacePath, logger }: RunSuiteTestOptions) => {
+	const testTimeout = instance.testTimeout ?? suite.testTimeout
+	const timeout = testTimeout ? testTimeout * 1_000 : UNIT_TEST_TIMEOUT
+
+	return runTestCommands({ cwd: workspacePath, commands: [[instance.testCommand]], timeout, logger })
+}
+
+type RunTestCommandsOptions = {
+	cwd: string
+	commands: string[][]
+	timeout: number
+	logger: Logger
+}
+
+const runTestCommands = async ({ cwd, commands, timeout: timeoutMs, logger }: RunTestCommandsOptions) => {
 	let passed = true
 
 	for (const command of commands) {
@@ -70,7 +103,7 @@ export const runUnitTest = async ({ task, logger }: RunUnitTestOptions) => {
 				} catch (error) {
 					logger.error(`failed to kill main process ${subprocess.pid}:`, error)
 				}
-			}, UNIT_TEST_TIMEOUT)
+			}, timeoutMs)
 
 			const result = await subprocess
 
@@ -0,0 +1,92 @@
+import * as fs from "fs/promises"
+import * as os from "node:os"
+import * as path from "path"
+
+import { execa } from "execa"
+
+import type { Run, Task } from "../db/index.js"
+import type { Suite, SuiteInstance } from "../suites/index.js"
+
+import { Logger } from "./utils.js"
+
+const SNAPSHOT_EXTENSIONS = [".tar", ".tar.gz", ".tgz"]
+
+const SETUP_TIMEOUT = 10 * 60 * 1_000
+
+const isSnapshot = (repoPath: string) => SNAPSHOT_EXTENSIONS.some((extension) => repoPath.endsWith(extension))
+
+export const getSuiteWorkspacePath = ({ run, task }: { run: Run; task: Task }) =>
+	path.join(os.tmpdir(), "evals", "workspaces", `${run.id}`, `${task.id}`)
+
+/**
+ * Creates a fresh workspace for a suite instance: a detached git worktree of
+ * the repository, or the extracted snapshot, followed by the setup scripts of
+ * the suite and the instance. Any workspace left by a previous attempt is
+ * replaced.
+ */
+export const createSuiteWorkspace = async ({
+	suite,
+	instance,
+	workspacePath,
+	logger,
+}: {
+	suite: Suite
+	instance: SuiteInstance
+	workspacePath: string
+	logger: Logger
+}) => {
+	await removeSuiteWorkspace({ suite, workspacePath, logger })
+	await fs.mkdir(path.dirname(workspacePath), { recursive: true })
+
+	if (isSnapshot(suite.repoPath)) {
+		logger.info(`extracting ${suite.repoPath} -> ${workspacePath}`)
+		await fs.mkdir(workspacePath)
+		await execa`tar -xf ${suite.repoPath} -C ${workspacePath}`
+	} else {
+		const ref = instance.ref ?? "HEAD"
+		logger.info(`creating worktree of ${suite.repoPath}@${ref} -> ${workspacePath}`)
+		await execa({ cwd: suite.repoPath })`git worktree add --detach ${workspacePath} ${ref}`
+	}
+
+	for (const script of [suite.setup, instance.setup]) {
+		if (!script) {
+			continue
+		}
+
+		logger.info(`running setup "${script}"`)
+
+		const result = await execa({
+			cwd: workspacePath,
+			shell: "/bin/bash",
+			reject: false,
+			timeout: SETUP_TIMEOUT,
+		})`${script}`
+
+		if (result.failed) {
+			logger.error(`setup failed:`, result.stderr)
+			throw new Error(`Setup of ${suite.id}/${instance.id} failed: "${script}" exited with ${result.exitCode}.`)
+		}
+	}
+}
+
+export const removeSuiteWorkspace = async ({
+	suite,
+	workspacePath,
+	logger,
+}: {
+	suite: Suite
+	workspacePath: string
+	logger: Logger
+}) => {
+	if (!isSnapshot(suite.repoPath)) {
+		// Also prunes the worktree if its directory was deleted.
+		await execa({ cwd: suite.repoPath, reject: false })`git worktree remove --force ${workspacePath}`
+		await execa({ cwd: suite.repoPath, reject: false })`git worktree prune`
+	}
+
+	try {
+		await fs.rm(workspacePath, { recursive: true, force: true })
+	} catch (error) {
+		logger.error(`failed to remove workspace ${workspacePath}:`, error)
+	}
+}
@@ -4,10 +4,11 @@ import * as path from "path"
 import { execa } from "execa"
 
 import type { Run, Task } from "../db/index.js"
+import { getTaskName } from "../suites/index.js"
 
 export const getTag = (caller: string, { run, task }: { run: Run; task?: Task }) =>
 	task
-		? `${caller} | pid:${process.pid} | run:${run.id} | task:${task.id} | ${task.language}/${task.exercise}`
+		? `${caller} | pid:${process.pid} | run:${run.id} | task:${task.id} | ${getTaskName(task)}`
 		: `${caller} | pid:${process.pid} | run:${run.id}`
 
 export const isDockerContainer = () => {
@@ -0,0 +1,101 @@
+// npx vitest run src/comparison/__tests__/index.spec.ts
+
+import {
+	type ComparisonInput,
+	type ComparisonTask,
+	compareRuns,
+	fisherExactTest,
+	hasSignificantRegressions,
+} from "../index.js"
+
+let nextTaskId = 1
+
+const createTasks = (exercise: string, results: boolean[], cost = 1): ComparisonTask[] =>
+	results.map((passed) => ({
+		id: nextTaskId++,
+		language: "go",
+		exercise,
+		suiteId: null,
+		instanceId: null,
+		passed,
+		taskMetrics: { cost, tokensIn: 100, tokensOut: 50, duration: 1_000 },
+	}))
+
+describe("fisherExactTest", () => {
+	it("computes the one-sided p-value", () => {
+		expect(fisherExactTest({ basePassed: 10, baseTotal: 10, headPassed: 5, headTotal: 10 })).toBeCloseTo(
+			3003 / 184756,
+		)
+	})
+
+	it("returns 1 when the head run does at least as well", () => {
+		expect(fisherExactTest({ basePassed: 5, baseTotal: 10, headPassed: 10, headTotal: 10 })).toBeCloseTo(1)
+	})
+})
+
+describe("compareRuns", () => {
+	it("diffs exercises and flags significant regressions", () => {
+		const base: ComparisonInput = {
+			tasks: [
+				...createTasks("flaky", [true, true, true, true, true, true, true, true, true, true]),
+				...createTasks("stable", [true, true, true]),
+				...createTasks("removed", [true]),
+			],
+			toolErrors: [],
+		}
+
+		const head: ComparisonInput = {
+			tasks: [
+				...createTasks("flaky", [true, true, true, true, true, false, false, false, false, false], 2),
+				...createTasks("stable", [true, true, false]),
+				...createTasks("added", [false]),
+			],
+			toolErrors: [],
+		}
+
+		const comparison = compareRuns(base, head)
+		const exercises = Object.fromEntries(comparison.exercises.map((exercise) => [exercise.name, exercise]))
+
+		expect(exercises["go/flaky"]).toMatchObject({ status: "regression", significant: true })
+		expect(exercises["go/flaky"]?.head?.cost).toBe(2)
+		expect(exercises["go/stable"]).toMatchObject({ status: "regression", significant: false })
+		expect(exercises["go/stable"]?.confidence).toBeLessThan(0.95)
+		expect(exercises["go/removed"]).toMatchObject({ status: "removed", significant: false })
+		expect(exercises["go/added"]).toMatchObject({ status: "added", significant: false })
+		expect(hasSignificantRegressions(comparison)).toBe(true)
+	})
+
+	it("counts a regression with a single result on each side as significant", () => {
+		const comparison = compareRuns(
+			{ tasks: createTasks("say", [true]), toolErrors: [] },
+			{ tasks: createTasks("say", [false]), toolErrors: [] },
+		)
+
+		expect(comparison.exercises[0]).toMatchObject({ status: "regression", significant: true })
+		expect(comparison.exercises[0]?.confidence).toBeUndefined()
+	})
+
+	it("compares tool errors per task", () => {
+		const baseTasks = createTasks("say", [true, true])
+		const headTasks = createTasks("say", [true, true])
+
+		const comparison = compareRuns(
+			{ tasks: baseTasks, toolErrors: [{ taskId: baseTasks[0]!.id, toolName: "apply_diff", count: 1 }] },
+			{
+				tasks: headTasks,
+				toolErrors: [
+					{ taskId: headTasks[0]!.id, toolName: "apply_diff", count: 3 },
+					{ taskId: headTasks[1]!.id, toolName: "read_file", count: 1 },
+				],
+			},
+		)
+
+		expect(comparison.toolErrors).toEqual([
+			{ toolName: "apply_diff", base: 0.5, head: 1.5 },
+			{ toolName: "read_file", base: 0, head: 0.5 },
+		])
+
+		expect(comparison.exercises[0]).toMatchObject({ status: "unchanged", significant: false })
+		expect(comparison.exercises[0]?.head?.toolErrorsPerTask).toBe(2)
+	})
+})
@@ -0,0 +1,244 @@
+import type { ToolName } from "@roo-code/types"
+
+import type { Task, TaskMetrics } from "../db/index.js"
+import { getTaskName } from "../suites/index.js"
+
+/**
+ * The share of runs in which the head run is expected to do worse than the
+ * base run before a regression counts as significant.
+ */
+export const DEFAULT_MIN_CONFIDENCE = 0.95
+
+export type ComparisonTask = Pick<Task, "id" | "language" | "exercise" | "suiteId" | "instanceId" | "passed"> & {
+	taskMetrics: Pick<TaskMetrics, "cost" | "tokensIn" | "tokensOut" | "duration"> | null
+}
+
+export type ComparisonToolError = {
+	taskId: number
+	toolName: ToolName
+	count: number
+}
+
+export type ComparisonInput = {
+	tasks: ComparisonTask[]
+	toolErrors: ComparisonToolError[]
+}
+
+/**
+ * The results of one side of a comparison, averaged over its tasks.
+ */
+export type ComparisonSide = {
+	passed: number
+	// Tasks with a result.
+	total: number
+	passRate: number
+	cost: number
+	tokens: number
+	duration: number
+	toolErrorsPerTask: number
+}
+
+export type ComparisonStatus = "regression" | "improvement" | "unchanged" | "added" | "removed"
+
+export type ExerciseComparison = {
+	name: string
+	base?: ComparisonSide
+	head?: ComparisonSide
+	status: ComparisonStatus
+	// Confidence that the head run passes less often than the base run; only
+	// estimated when there is more than one result on either side.
+	confidence?: number
+	significant: boolean
+}
+
+export type ToolErrorComparison = {
+	toolName: ToolName
+	base: number
+	head: number
+}
+
+export type RunComparison = {
+	overall: Omit<ExerciseComparison, "name">
+	exercises: ExerciseComparison[]
+	// Tool errors per task.
+	toolErrors: ToolErrorComparison[]
+	minConfidence: number
+}
+
+const logFactorials: number[] = [0]
+
+const logFactorial = (n: number) => {
+	for (let i = logFactorials.length; i <= n; i++) {
+		logFactorials[i] = logFactorials[i - 1]! + Math.log(i)
+	}
+
+	return logFactorials[n]!
+}
+
+const hypergeometric = (k: number, population: number, successes: number, draws: number) =>
+	Math.exp(
+		logFactorial(successes) -
+			logFactorial(k) -
+			logFactorial(successes - k) +
+			logFactorial(population - successes) -
+			logFactorial(draws - k) -
+			logFactorial(population - successes - draws + k) -
+			(logFactorial(population) - logFactorial(draws) - logFactorial(population - draws)),
+	)
+
+/**
+ * One-sided Fisher's exact test: the probability of the head run passing at
+ * most `headPassed` times if both runs had the same pass rate. A small value
+ * means the head run is very likely worse.
+ */
+export const fisherExactTest = ({
+	basePassed,
+	baseTotal,
+	headPassed,
+	headTotal,
+}: {
+	basePassed: number
+	baseTotal: number
+	headPassed: number
+	headTotal: number
+}) => {
+	const population = baseTotal + headTotal
+	const successes = basePassed + headPassed
+	const min = Math.max(0, headTotal - (population - successes))
+
+	let p = 0
+
+	for (let k = min; k <= headPassed; k++) {
+		p += hypergeometric(k, population, successes, headTotal)
+	}
+
+	return Math.min(1, p)
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0)
+
+const summarize = (tasks: ComparisonTask[], toolErrors: ComparisonToolError[]): ComparisonSide => {
+	const finished = tasks.filter((task) => task.passed !== null)
+	const passed = finished.filter((task) => task.passed).length
+	const metrics = tasks.flatMap((task) => (task.taskMetrics ? [task.taskMetrics] : []))
+	const taskIds = new Set(tasks.map((task) => task.id))
+	const errors = toolErrors.filter((error) => taskIds.has(error.taskId)).reduce((sum, { count }) => sum + count, 0)
+
+	return {
+		passed,
+		total: finished.length,
+		passRate: finished.length > 0 ? passed / finished.length : 0,
+		cost: average(metrics.map((m) => m.cost)),
+		tokens: average(metrics.map((m) => m.tokensIn + m.tokensOut)),
+		duration: average(metrics.map((m) => m.duration)),
+		toolErrorsPerTask: tasks.length > 0 ? errors / tasks.length : 0,
+	}
+}
+
+const compareSides = (
+	base: ComparisonSide | undefined,
+	head: ComparisonSide | undefined,
+	minConfidence: number,
+): Omit<ExerciseComparison, "name"> => {
+	if (!base || base.total === 0) {
+		return { base, head, status: "added", significant: false }
+	}
+
+	if (!head || head.total === 0) {
+		return { base, head, status: "removed", significant: false }
+	}
+
+	const status: ComparisonStatus =
+		head.passRate < base.passRate ? "regression" : head.passRate > base.passRate ? "improvement" : "unchanged"
+
+	if (base.total === 1 && head.total === 1) {
+		// A single result can't tell a regression from flakiness, so every
+		// change counts.
+		return { base, head, status, significant: status === "regression" }
+	}
+
+	const confidence =
+		1 -
+		fisherExactTest({
+			basePassed: base.passed,
+			baseTotal: base.total,
+			headPassed: head.passed,
+			headTotal: head.total,
+		})
+
+	return { base, head, status, confidence, significant: status === "regression" && confidence >= minConfidence }
+}
+
+const groupByName = (tasks: ComparisonTask[]) => {
+	const groups = new Map<string, ComparisonTask[]>()
+
+	for (const task of tasks) {
+		const name = getTaskName(task)
+		groups.set(name, [...(groups.get(name) ?? []), task])
+	}
+
+	return groups
+}
+
+const getToolErrorsPerTask = ({ tasks, toolErrors }: ComparisonInput) => {
+	const errors = new Map<ToolName, number>()
+
+	for (const { toolName, count } of toolErrors) {
+		errors.set(toolName, (errors.get(toolName) ?? 0) + count)
+	}
+
+	return new Map([...errors].map(([toolName, count]) => [toolName, tasks.length > 0 ? count / tasks.length : 0]))
+}
+
+/**
+ * Compares the results of two runs exercise by exercise, where the iterations
+ * of an exercise are its samples.
+ */
+export const compareRuns = (
+	base: ComparisonInput,
+	head: ComparisonInput,
+	{ minConfidence = DEFAULT_MIN_CONFIDENCE }: { minConfidence?: number } = {},
+): RunComparison => {
+	const baseGroups = groupByName(base.tasks)
+	const headGroups = groupByName(head.tasks)
+	const names = [...new Set([...baseGroups.keys(), ...headGroups.keys()])].sort()
+
+	const exercises = names.map((name) => {
+		const baseTasks = baseGroups.get(name)
+		const headTasks = headGroups.get(name)
+
+		return {
+			name,
+			...compareSides(
+				baseTasks && summarize(baseTasks, base.toolErrors),
+				headTasks && summarize(headTasks, head.toolErrors),
+				minConfidence,
+			),
+		}
+	})
+
+	const baseToolErrors = getToolErrorsPerTask(base)
+	const headToolErrors = getToolErrorsPerTask(head)
+
+	const toolErrors = [...new Set([...baseToolErrors.keys(), ...headToolErrors.keys()])]
+		.map((toolName) => ({
+			toolName,
+			base: baseToolErrors.get(toolName) ?? 0,
+			head: headToolErrors.get(toolName) ?? 0,
+		}))
+		.sort((a, b) => b.head - b.base - (a.head - a.base))
+
+	return {
+		overall: compareSides(
+			summarize(base.tasks, base.toolErrors),
+			summarize(head.tasks, head.toolErrors),
+			minConfidence,
+		),
+		exercises,
+		toolErrors,
+		minConfidence,
+	}
+}
+
+export const hasSignificantRegressions = (comparison: RunComparison) =>
+	comparison.overall.significant || comparison.exercises.some((exercise) => exercise.significant)
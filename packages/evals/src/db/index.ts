@@ -5,5 +5,6 @@ export * from "./queries/tasks.js"
 export * from "./queries/taskMetrics.js"
 export * from "./queries/toolErrors.js"
 export * from "./queries/copyRun.js"
+export * from "./queries/compareRuns.js"
 
 export * from "./db.js"
@@ -0,0 +1,5 @@
+ALTER TABLE "tasks" ALTER COLUMN "language" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ALTER COLUMN "exercise" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "suite_id" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "instance_id" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "tasks_suite_instance_iteration_idx" ON "tasks" USING btree ("run_id","suite_id","instance_id","iteration");
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { count, eq } from "drizzle-orm"
+
+import { type ComparisonInput, compareRuns } from "../../comparison/index.js"
+
+import { schema } from "../schema.js"
+import { client as db } from "../db.js"
+import { findRun } from "./runs.js"
+import { getTasks } from "./tasks.js"
+
+const getComparisonInput = async (runId: number): Promise<ComparisonInput> => {
+	const tasks = await getTasks(runId)
+
+	const toolErrors = await db
+		.select({ taskId: schema.toolErrors.taskId, toolName: schema.toolErrors.toolName, count: count() })
+		.from(schema.toolErrors)
+		.innerJoin(schema.tasks, eq(schema.toolErrors.taskId, schema.tasks.id))
+		.where(eq(schema.tasks.runId, runId))
+		.groupBy(schema.toolErrors.taskId, schema.toolErrors.toolName)
+
+	return {
+		tasks,
+		toolErrors: toolErrors.flatMap(({ taskId, ...error }) => (taskId === null ? [] : [{ taskId, ...error }])),
+	}
+}
+
+export const getRunComparison = async (
+	baseRunId: number,
+	headRunId: number,
+	options?: Parameters<typeof compareRuns>[2],
+) => {
+	const [baseRun, headRun] = await Promise.all([findRun(baseRunId), findRun(headRunId)])
+	const [base, head] = await Promise.all([getComparisonInput(baseRunId), getComparisonInput(headRunId)])
+
+	return { baseRun, headRun, ...compareRuns(base, head, options) }
+}
@@ -121,6 +121,8 @@ export const copyRun = async ({
 			taskMetricsId: newTaskMetricsId,
 			language: sourceTask.language,
 			exercise: sourceTask.exercise,
+			suiteId: sourceTask.suiteId,
+			instanceId: sourceTask.instanceId,
 			passed: sourceTask.passed,
 			startedAt: sourceTask.startedAt,
 			finishedAt: sourceTask.finishedAt,
@@ -1,4 +1,4 @@
-import { and, asc, eq, sql } from "drizzle-orm"
+import { and, asc, eq, isNotNull, sql } from "drizzle-orm"
 
 import type { ExerciseLanguage } from "../../exercises/index.js"
 
@@ -72,11 +72,16 @@ export const getLanguageScores = async () => {
 			score: sql<number>`cast(sum(case when ${tasks.passed} = true then 1 else 0 end) as float) / count(*)`,
 		})
 		.from(tasks)
+		.where(isNotNull(tasks.language))
 		.groupBy(tasks.runId, tasks.language)
 
 	const results: Record<number, Record<ExerciseLanguage, number>> = {}
 
 	for (const { runId, language, score } of records) {
+		if (!language) {
+			continue
+		}
+
 		if (!results[runId]) {
 			results[runId] = { go: 0, java: 0, javascript: 0, python: 0, rust: 0 }
 		}
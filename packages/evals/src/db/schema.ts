@@ -53,8 +53,12 @@ export const tasks = pgTable(
 			.references(() => runs.id)
 			.notNull(),
 		taskMetricsId: integer("task_metrics_id").references(() => taskMetrics.id),
-		language: text().notNull().$type<ExerciseLanguage>(),
-		exercise: text().notNull(),
+		// Set for exercises.
+		language: text().$type<ExerciseLanguage>(),
+		exercise: text(),
+		// Set for suite instances.
+		suiteId: text("suite_id"),
+		instanceId: text("instance_id"),
 		iteration: integer().default(1).notNull(),
 		passed: boolean(),
 		startedAt: timestamp("started_at"),
@@ -68,6 +72,12 @@ export const tasks = pgTable(
 			table.exercise,
 			table.iteration,
 		),
+		uniqueIndex("tasks_suite_instance_iteration_idx").on(
+			table.runId,
+			table.suiteId,
+			table.instanceId,
+			table.iteration,
+		),
 	],
 )
 
@@ -1,2 +1,4 @@
 export * from "./db/index.js"
 export * from "./exercises/index.js"
+export * from "./suites/index.js"
+export * from "./comparison/index.js"
@@ -0,0 +1,73 @@
+// npx vitest run src/suites/__tests__/index.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { getSuites, getTaskName, InvalidSuiteError, loadSuite, SuiteNotFoundError } from "../index.js"
+
+describe("suites", () => {
+	let basePath: string
+
+	const writeSuite = async (id: string, definition: unknown) => {
+		await fs.mkdir(path.join(basePath, id), { recursive: true })
+		await fs.writeFile(path.join(basePath, id, "suite.json"), JSON.stringify(definition))
+	}
+
+	beforeEach(async () => {
+		basePath = await fs.mkdtemp(path.join(os.tmpdir(), "evals-suites-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(basePath, { recursive: true, force: true })
+	})
+
+	it("loads a suite and resolves its repository", async () => {
+		await writeSuite("api", {
+			name: "API",
+			repo: "repo.tar.gz",
+			setup: "pnpm install",
+			instances: [{ id: "fix-pagination", prompt: "Fix the pagination.", testCommand: "pnpm test" }],
+		})
+
+		const suite = await loadSuite(basePath, "api")
+
+		expect(suite.id).toBe("api")
+		expect(suite.repoPath).toBe(path.join(basePath, "api", "repo.tar.gz"))
+		expect(suite.instances[0]?.testCommand).toBe("pnpm test")
+	})
+
+	it("rejects invalid suites", async () => {
+		await writeSuite("no-instances", { repo: "repo", instances: [] })
+
+		await writeSuite("duplicates", {
+			repo: "repo",
+			instances: [
+				{ id: "a", prompt: "One.", testCommand: "true" },
+				{ id: "a", prompt: "Two.", testCommand: "true" },
+			],
+		})
+
+		await expect(loadSuite(basePath, "no-instances")).rejects.toThrow(InvalidSuiteError)
+		await expect(loadSuite(basePath, "duplicates")).rejects.toThrow(/more than one instance/)
+		await expect(loadSuite(basePath, "missing")).rejects.toThrow(SuiteNotFoundError)
+	})
+
+	it("lists only the valid suites", async () => {
+		await writeSuite("valid", { repo: "repo", instances: [{ id: "a", prompt: "One.", testCommand: "true" }] })
+		await writeSuite("invalid", { instances: [] })
+		const consoleError = vi.spyOn(console, "error").mockImplementation(() => {})
+
+		const suites = await getSuites(basePath)
+
+		expect(suites.map(({ id }) => id)).toEqual(["valid"])
+		consoleError.mockRestore()
+	})
+
+	it("names tasks after their exercise or suite instance", () => {
+		expect(getTaskName({ language: "go", exercise: "say", suiteId: null, instanceId: null })).toBe("go/say")
+		expect(getTaskName({ language: null, exercise: null, suiteId: "api", instanceId: "fix-pagination" })).toBe(
+			"api/fix-pagination",
+		)
+	})
+})
@@ -0,0 +1,149 @@
+import * as path from "path"
+import * as fs from "fs/promises"
+
+import { z } from "zod"
+
+import type { Task } from "../db/index.js"
+import { EVALS_REPO_PATH, listDirectories } from "../exercises/index.js"
+
+/**
+ * Suites are evals that run against snapshots of real repositories instead of
+ * the per-language exercises. Each suite is a directory with a `suite.json`
+ * that points at the repository and lists its instances:
+ *
+ * ```
+ * <suites>/<suite-id>/
+ * ├── suite.json
+ * └── repo.tar.gz        # or a git repository, see `repo`
+ * ```
+ */
+export const EVALS_SUITES_PATH = process.env.EVALS_SUITES_PATH || path.join(EVALS_REPO_PATH, "suites")
+
+const idSchema = z.string().regex(/^[\w.-]+$/, { message: "Ids may only contain letters, digits, _, . and -." })
+
+/**
+ * SuiteInstance
+ */
+
+export const suiteInstanceSchema = z.object({
+	id: idSchema,
+	// The task given to Roo Code.
+	prompt: z.string().min(1),
+	// Commit to check out when the repository is a git repository.
+	ref: z.string().optional(),
+	// Runs in the workspace after the suite's `setup`.
+	setup: z.string().optional(),
+	// Decides whether the instance passed; it is not shown to Roo Code.
+	testCommand: z.string().min(1),
+	// Overrides the timeout of the run, in minutes.
+	taskTimeout: z.number().int().positive().optional(),
+	// In seconds.
+	testTimeout: z.number().int().positive().optional(),
+})
+
+export type SuiteInstance = z.infer<typeof suiteInstanceSchema>
+
+/**
+ * SuiteDefinition
+ */
+
+export const suiteDefinitionSchema = z.object({
+	name: z.string().optional(),
+	description: z.string().optional(),
+	// A git repository or a `.tar`, `.tar.gz` or `.tgz` snapshot, relative to
+	// the suite directory.
+	repo: z.string().min(1),
+	// Runs in the workspace of every instance before Roo Code starts, e.g. to
+	// install dependencies.
+	setup: z.string().optional(),
+	taskTimeout: z.number().int().positive().optional(),
+	testTimeout: z.number().int().positive().optional(),
+	instances: z.array(suiteInstanceSchema).min(1),
+})
+
+export type SuiteDefinition = z.infer<typeof suiteDefinitionSchema>
+
+export type Suite = SuiteDefinition & {
+	id: string
+	// Absolute path of the repository or snapshot.
+	repoPath: string
+}
+
+export class SuiteNotFoundError extends Error {}
+
+export class InvalidSuiteError extends Error {}
+
+export const loadSuite = async (basePath: string, id: string): Promise<Suite> => {
+	const suitePath = path.resolve(basePath, id)
+	let contents: string
+
+	try {
+		contents = await fs.readFile(path.join(suitePath, "suite.json"), "utf-8")
+	} catch (_error) {
+		throw new SuiteNotFoundError(`Suite "${id}" not found in ${basePath}.`)
+	}
+
+	let json: unknown
+
+	try {
+		json = JSON.parse(contents)
+	} catch (error) {
+		throw new InvalidSuiteError(`Suite "${id}" is not valid JSON: ${error}`)
+	}
+
+	const result = suiteDefinitionSchema.safeParse(json)
+
+	if (!result.success) {
+		throw new InvalidSuiteError(`Suite "${id}" is invalid: ${result.error.message}`)
+	}
+
+	const instanceIds = result.data.instances.map((instance) => instance.id)
+	const duplicate = instanceIds.find((instanceId, index) => instanceIds.indexOf(instanceId) !== index)
+
+	if (duplicate) {
+		throw new InvalidSuiteError(`Suite "${id}" has more than one instance with the id "${duplicate}".`)
+	}
+
+	return { ...result.data, id, repoPath: path.resolve(suitePath, result.data.repo) }
+}
+
+/**
+ * Loads the valid suites in a directory; invalid ones are logged and skipped.
+ */
+export const getSuites = async (basePath: string) => {
+	const suites: Suite[] = []
+
+	for (const id of await listDirectories(basePath, ".")) {
+		try {
+			suites.push(await loadSuite(basePath, id))
+		} catch (error) {
+			if (!(error instanceof SuiteNotFoundError)) {
+				console.error(error)
+			}
+		}
+	}
+
+	return suites
+}
+
+export const getSuiteInstance = (suite: Suite, instanceId: string) => {
+	const instance = suite.instances.find(({ id }) => id === instanceId)
+
+	if (!instance) {
+		throw new SuiteNotFoundError(`Suite "${suite.id}" has no instance "${instanceId}".`)
+	}
+
+	return instance
+}
+
+/**
+ * Identifies a task in logs and file names: `[language, exercise]` for
+ * exercises and `[suiteId, instanceId]` for suite instances.
+ */
+export const getTaskNameParts = (
+	task: Pick<Task, "language" | "exercise" | "suiteId" | "instanceId">,
+): [string, string] =>
+	task.suiteId ? [task.suiteId, task.instanceId ?? ""] : [task.language ?? "", task.exercise ?? ""]
+
+export const getTaskName = (task: Pick<Task, "language" | "exercise" | "suiteId" | "instanceId">) =>
+	getTaskNameParts(task).join("/")
@@ -5,6 +5,8 @@ import ipc from "node-ipc"
 
 import {
 	type TaskCommand,
+	type TaskCommandResponse,
+	type TaskCommandResults,
 	type IpcClientEvents,
 	type IpcMessage,
 	IpcOrigin,
@@ -13,10 +15,19 @@ import {
 	ipcMessageSchema,
 } from "@roo-code/types"
 
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000
+
+type PendingRequest = {
+	resolve: (result: unknown) => void
+	reject: (error: Error) => void
+	timeout: NodeJS.Timeout
+}
+
 export class IpcClient extends EventEmitter<IpcClientEvents> {
 	private readonly _socketPath: string
 	private readonly _id: string
 	private readonly _log: (...args: unknown[]) => void
+	private readonly _pendingRequests = new Map<string, PendingRequest>()
 	private _isConnected = false
 	private _clientId?: string
 
@@ -53,6 +64,13 @@ export class IpcClient extends EventEmitter<IpcClientEvents> {
 
 		this.log("[client#onDisconnect]")
 		this._isConnected = false
+
+		for (const [requestId, pending] of this._pendingRequests.entries()) {
+			clearTimeout(pending.timeout)
+			pending.reject(new Error(`Disconnected before a response to request ${requestId} was received`))
+		}
+
+		this._pendingRequests.clear()
 		this.emit(IpcMessageType.Disconnect)
 	}
 
@@ -79,6 +97,10 @@ export class IpcClient extends EventEmitter<IpcClientEvents> {
 					this._clientId = payload.data.clientId
 					this.emit(IpcMessageType.Ack, payload.data)
 					break
+				case IpcMessageType.TaskCommandResponse:
+					this.onCommandResponse(payload.data)
+					this.emit(IpcMessageType.TaskCommandResponse, payload.data)
+					break
 				case IpcMessageType.TaskEvent:
 					this.emit(IpcMessageType.TaskEvent, payload.data)
 					break
@@ -86,6 +108,23 @@ export class IpcClient extends EventEmitter<IpcClientEvents> {
 		}
 	}
 
+	private onCommandResponse(response: TaskCommandResponse) {
+		const pending = this._pendingRequests.get(response.requestId)
+
+		if (!pending) {
+			return
+		}
+
+		clearTimeout(pending.timeout)
+		this._pendingRequests.delete(response.requestId)
+
+		if (response.success) {
+			pending.resolve(response.result)
+		} else {
+			pending.reject(new Error(response.error ?? `${response.commandName} failed`))
+		}
+	}
+
 	private log(...args: unknown[]) {
 		this._log(...args)
 	}
@@ -101,6 +140,39 @@ export class IpcClient extends EventEmitter<IpcClientEvents> {
 		this.sendMessage(message)
 	}
 
+	/**
+	 * Sends a command and resolves with its result once the server responds,
+	 * or rejects if the command fails, the request times out or the client
+	 * disconnects first.
+	 */
+	public sendCommandAndWait<C extends TaskCommand>(
+		command: C,
+		timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+	): Promise<TaskCommandResults[C["commandName"]]> {
+		const requestId = crypto.randomUUID()
+
+		return new Promise((resolve, reject) => {
+			const timeout = setTimeout(() => {
+				this._pendingRequests.delete(requestId)
+				reject(new Error(`${command.commandName} request timed out after ${timeoutMs}ms`))
+			}, timeoutMs)
+
+			this._pendingRequests.set(requestId, {
+				resolve: (result) => resolve(result as TaskCommandResults[C["commandName"]]),
+				reject,
+				timeout,
+			})
+
+			this.sendMessage({
+				type: IpcMessageType.TaskCommand,
+				origin: IpcOrigin.Client,
+				clientId: this._clientId!,
+				requestId,
+				data: command,
+			})
+		})
+	}
+
 	public sendTaskMessage(text?: string, images?: string[]) {
 		this.sendCommand({
 			commandName: TaskCommandName.SendMessage,
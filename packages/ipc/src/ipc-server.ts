@@ -10,6 +10,7 @@ import {
 	IpcOrigin,
 	IpcMessageType,
 	type IpcMessage,
+	type TaskCommandResponse,
 	ipcMessageSchema,
 } from "@roo-code/types"
 
@@ -95,7 +96,7 @@ export class IpcServer extends EventEmitter<IpcServerEvents> implements RooCodeI
 		if (payload.origin === IpcOrigin.Client) {
 			switch (payload.type) {
 				case IpcMessageType.TaskCommand:
-					this.emit(IpcMessageType.TaskCommand, payload.clientId, payload.data)
+					this.emit(IpcMessageType.TaskCommand, payload.clientId, payload.data, payload.requestId)
 					break
 				default:
 					this.log(`[server#onMessage] unhandled payload: ${JSON.stringify(payload)}`)
@@ -127,6 +128,10 @@ export class IpcServer extends EventEmitter<IpcServerEvents> implements RooCodeI
 		}
 	}
 
+	public sendResponse(clientId: string, response: TaskCommandResponse) {
+		this.send(clientId, { type: IpcMessageType.TaskCommandResponse, origin: IpcOrigin.Server, data: response })
+	}
+
 	public get socketPath() {
 		return this._socketPath
 	}
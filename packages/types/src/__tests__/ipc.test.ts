@@ -1,4 +1,4 @@
-import { TaskCommandName, taskCommandSchema } from "../ipc.js"
+import { IpcMessageType, IpcOrigin, TaskCommandName, ipcMessageSchema, taskCommandSchema } from "../ipc.js"
 
 describe("IPC Types", () => {
 	describe("TaskCommandName", () => {
@@ -71,4 +71,71 @@ describe("IPC Types", () => {
 			expect(result.success).toBe(false)
 		})
 	})
+	describe("ask commands", () => {
+		it("should require the ask timestamp", () => {
+			const command = { commandName: TaskCommandName.ApproveAsk, data: { taskId: "task-123" } }
+			expect(taskCommandSchema.safeParse(command).success).toBe(false)
+		})
+
+		it("should validate RejectAsk with feedback", () => {
+			const result = taskCommandSchema.safeParse({
+				commandName: TaskCommandName.RejectAsk,
+				data: { taskId: "task-123", askTs: 1700000000000, text: "Use a different approach" },
+			})
+
+			expect(result.success).toBe(true)
+		})
+	})
+
+	describe("query commands", () => {
+		it("should validate GetSettings without data", () => {
+			expect(taskCommandSchema.safeParse({ commandName: TaskCommandName.GetSettings }).success).toBe(true)
+		})
+
+		it("should validate ListHistory with and without options", () => {
+			expect(taskCommandSchema.safeParse({ commandName: TaskCommandName.ListHistory }).success).toBe(true)
+			expect(
+				taskCommandSchema.safeParse({
+					commandName: TaskCommandName.ListHistory,
+					data: { workspace: "/workspace", limit: 10 },
+				}).success,
+			).toBe(true)
+			expect(
+				taskCommandSchema.safeParse({ commandName: TaskCommandName.ListHistory, data: { limit: 0 } }).success,
+			).toBe(false)
+		})
+	})
+
+	describe("ipcMessageSchema", () => {
+		it("should carry a request id on task commands", () => {
+			const result = ipcMessageSchema.safeParse({
+				type: IpcMessageType.TaskCommand,
+				origin: IpcOrigin.Client,
+				clientId: "client-1",
+				requestId: "request-1",
+				data: { commandName: TaskCommandName.DeleteTask, data: "task-123" },
+			})
+
+			expect(result.success).toBe(true)
+
+			if (result.success && result.data.type === IpcMessageType.TaskCommand) {
+				expect(result.data.requestId).toBe("request-1")
+			}
+		})
+
+		it("should validate command responses", () => {
+			const result = ipcMessageSchema.safeParse({
+				type: IpcMessageType.TaskCommandResponse,
+				origin: IpcOrigin.Server,
+				data: {
+					requestId: "request-1",
+					commandName: TaskCommandName.GetTaskMessages,
+					success: false,
+					error: "Task not found",
+				},
+			})
+
+			expect(result.success).toBe(true)
+		})
+	})
 })
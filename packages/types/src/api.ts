@@ -4,7 +4,9 @@ import type { Socket } from "net"
 import type { RooCodeEvents } from "./events.js"
 import type { RooCodeSettings } from "./global-settings.js"
 import type { ProviderSettingsEntry, ProviderSettings } from "./provider-settings.js"
-import type { IpcMessage, IpcServerEvents } from "./ipc.js"
+import type { HistoryItem } from "./history.js"
+import type { AskResponseData, IpcMessage, IpcServerEvents, TaskCommandResponse } from "./ipc.js"
+import type { ClineMessage } from "./message.js"
 
 export type RooCodeAPIEvents = RooCodeEvents
 
@@ -65,6 +67,54 @@ export interface RooCodeAPI extends EventEmitter<RooCodeAPIEvents> {
 	 * Simulates pressing the secondary button in the chat interface.
 	 */
 	pressSecondaryButton(): Promise<void>
+	/**
+	 * Approves a pending ask, optionally with feedback.
+	 * @param data The task ID, the `ts` of the pending ask and optional feedback.
+	 * @throws Error if the task is not running or the ask is no longer pending.
+	 */
+	approveAsk(data: AskResponseData): Promise<void>
+	/**
+	 * Rejects a pending ask, optionally with feedback.
+	 * @param data The task ID, the `ts` of the pending ask and optional feedback.
+	 * @throws Error if the task is not running or the ask is no longer pending.
+	 */
+	rejectAsk(data: AskResponseData): Promise<void>
+	/**
+	 * Switches the mode of the current task (or the default mode if no task is running).
+	 * @param mode The slug of the mode to switch to.
+	 * @throws Error if the mode does not exist.
+	 */
+	switchMode(mode: string): Promise<void>
+	/**
+	 * Returns the chat messages of a task, whether it is running or in the task history.
+	 * @param taskId The ID of the task.
+	 * @throws Error if the task is not found.
+	 */
+	getTaskMessages(taskId: string): Promise<ClineMessage[]>
+	/**
+	 * Returns the task history, most recent first.
+	 * @param options Optional workspace filter and maximum number of items.
+	 */
+	listHistory(options?: { workspace?: string; limit?: number }): HistoryItem[]
+	/**
+	 * Deletes a task, its messages and its checkpoints.
+	 * @param taskId The ID of the task to delete.
+	 * @throws Error if the task is not found in the task history.
+	 */
+	deleteTask(taskId: string): Promise<void>
+	/**
+	 * Writes a portable archive of a task in the task history, which can be imported on another machine.
+	 * @param options The task, the file to write and whether to include its checkpoints.
+	 * @throws Error if the task is not found in the task history.
+	 */
+	exportTask(options: { taskId: string; filePath: string; includeCheckpoints?: boolean }): Promise<void>
+	/**
+	 * Adds the task in an archive to the task history so it can be resumed.
+	 * @param options The archive file and the workspace to remap the task's paths to, which defaults to the current one.
+	 * @returns The ID of the imported task.
+	 * @throws Error if the archive is invalid.
+	 */
+	importTask(options: { filePath: string; workspace?: string }): Promise<string>
 	/**
 	 * Returns true if the API is ready to use.
 	 */
@@ -139,6 +189,7 @@ export interface RooCodeIpcServer extends EventEmitter<IpcServerEvents> {
 	listen(): void
 	broadcast(message: IpcMessage): void
 	send(client: string | Socket, message: IpcMessage): void
+	sendResponse(clientId: string, response: TaskCommandResponse): void
 	get socketPath(): string
 	get isListening(): boolean
 }
@@ -0,0 +1,75 @@
+import { z } from "zod"
+
+import { clineAskSchema } from "./message.js"
+
+/**
+ * ApprovalPolicyDecision
+ */
+export const approvalPolicyDecisions = ["allow", "deny", "ask"] as const
+
+export const approvalPolicyDecisionSchema = z.enum(approvalPolicyDecisions)
+
+export type ApprovalPolicyDecision = z.infer<typeof approvalPolicyDecisionSchema>
+
+/**
+ * ApprovalPolicyMatch
+ *
+ * All specified conditions must hold for a rule to match. For `paths` and
+ * `commands`, "allow" rules require every targeted path / sub-command to
+ * match, while "deny" and "ask" rules match as soon as any one does.
+ */
+export const approvalPolicyMatchSchema = z.object({
+	// Ask types, e.g. "tool", "command", "use_mcp_server", "browser_action_launch".
+	asks: z.array(clineAskSchema).optional(),
+	// Tool names as reported in tool asks, e.g. "readFile", "appliedDiff", "newFileCreated".
+	tools: z.array(z.string()).optional(),
+	// Mode slugs, e.g. "code", "architect".
+	modes: z.array(z.string()).optional(),
+	// Gitignore-style globs relative to the workspace root.
+	paths: z.array(z.string()).optional(),
+	// Command prefixes matched against each sub-command (`*` matches any command).
+	commands: z.array(z.string()).optional(),
+	// MCP server and tool (or resource URI) names (`*` matches any).
+	mcpServers: z.array(z.string()).optional(),
+	mcpTools: z.array(z.string()).optional(),
+	outsideWorkspace: z.boolean().optional(),
+	protected: z.boolean().optional(),
+})
+
+export type ApprovalPolicyMatch = z.infer<typeof approvalPolicyMatchSchema>
+
+/**
+ * ApprovalPolicyRule
+ */
+export const approvalPolicyRuleSchema = z.object({
+	id: z.string().optional(),
+	description: z.string().optional(),
+	decision: approvalPolicyDecisionSchema,
+	match: approvalPolicyMatchSchema.optional(),
+})
+
+export type ApprovalPolicyRule = z.infer<typeof approvalPolicyRuleSchema>
+
+/**
+ * ApprovalPolicy
+ *
+ * Rules are evaluated in order and the first matching rule decides. With
+ * `dryRun` enabled the policy only explains what it would have decided.
+ */
+export const approvalPolicySchema = z.object({
+	dryRun: z.boolean().optional(),
+	rules: z.array(approvalPolicyRuleSchema).default([]),
+})
+
+export type ApprovalPolicy = z.infer<typeof approvalPolicySchema>
+
+/**
+ * ApprovalPolicySource
+ *
+ * Where a set of rules was loaded from. Managed (MDM) rules are evaluated
+ * first, followed by project rules and then global rules. Project rules can
+ * only deny or ask.
+ */
+export const approvalPolicySources = ["managed", "project", "global"] as const
+
+export type ApprovalPolicySource = (typeof approvalPolicySources)[number]
@@ -0,0 +1,90 @@
+import { z } from "zod"
+
+/**
+ * TaskBudgetLimits
+ *
+ * Ceilings on what a task may consume. Unset fields are unlimited.
+ */
+export const taskBudgetLimitsSchema = z.object({
+	maxCost: z.number().min(0).optional(),
+	maxInputTokens: z.number().int().min(0).optional(),
+	maxOutputTokens: z.number().int().min(0).optional(),
+	maxDurationMs: z.number().int().min(0).optional(),
+})
+
+export type TaskBudgetLimits = z.infer<typeof taskBudgetLimitsSchema>
+
+/**
+ * TaskBudget
+ *
+ * `task` limits apply to a single task, `tree` limits to a task together with
+ * all of the subtasks it spawns (recursively).
+ */
+export const taskBudgetSchema = z.object({
+	task: taskBudgetLimitsSchema.optional(),
+	tree: taskBudgetLimitsSchema.optional(),
+})
+
+export type TaskBudget = z.infer<typeof taskBudgetSchema>
+
+/**
+ * TaskBudgetUsage
+ */
+export const taskBudgetUsageSchema = z.object({
+	cost: z.number(),
+	inputTokens: z.number(),
+	outputTokens: z.number(),
+	durationMs: z.number(),
+})
+
+export type TaskBudgetUsage = z.infer<typeof taskBudgetUsageSchema>
+
+export const taskBudgetDimensions = ["cost", "inputTokens", "outputTokens", "durationMs"] as const
+
+export type TaskBudgetDimension = (typeof taskBudgetDimensions)[number]
+
+/**
+ * TaskBudgetStatus
+ *
+ * A snapshot of budget consumption for a task, including every enclosing
+ * subtask tree that has a budget of its own.
+ */
+export const taskBudgetStatusSchema = z.object({
+	task: z.object({
+		limits: taskBudgetLimitsSchema,
+		usage: taskBudgetUsageSchema,
+	}),
+	trees: z.array(
+		z.object({
+			rootTaskId: z.string(),
+			limits: taskBudgetLimitsSchema,
+			usage: taskBudgetUsageSchema,
+		}),
+	),
+	exceeded: z
+		.object({
+			scope: z.enum(["task", "tree"]),
+			rootTaskId: z.string().optional(),
+			dimension: z.enum(taskBudgetDimensions),
+			limit: z.number(),
+			used: z.number(),
+		})
+		.optional(),
+})
+
+export type TaskBudgetStatus = z.infer<typeof taskBudgetStatusSchema>
+
+/**
+ * PersistedTaskBudget
+ *
+ * Stored on the task's history item so that subtasks (and resumed tasks) can
+ * enforce the limits of the tasks above them.
+ */
+export const persistedTaskBudgetSchema = z.object({
+	limits: taskBudgetSchema,
+	startedAt: z.number(),
+	// How long the task has been running, excluding the time it was closed.
+	elapsedMs: z.number().optional(),
+})
+
+export type PersistedTaskBudget = z.infer<typeof persistedTaskBudgetSchema>
@@ -2,6 +2,8 @@ import { z } from "zod"
 
 import { clineMessageSchema, tokenUsageSchema } from "./message.js"
 import { toolNamesSchema, toolUsageSchema } from "./tool.js"
+import { taskBudgetStatusSchema } from "./budget.js"
+import { lifecycleHookEventSchema } from "./hooks.js"
 
 /**
  * RooCodeEventName
@@ -39,6 +41,9 @@ export enum RooCodeEventName {
 	// Task Analytics
 	TaskTokenUsageUpdated = "taskTokenUsageUpdated",
 	TaskToolFailed = "taskToolFailed",
+	TaskBudgetUpdated = "taskBudgetUpdated",
+	TaskBudgetExceeded = "taskBudgetExceeded",
+	TaskHookBlocked = "taskHookBlocked",
 
 	// Configuration Changes
 	ModeChanged = "modeChanged",
@@ -103,6 +108,9 @@ export const rooCodeEventsSchema = z.object({
 
 	[RooCodeEventName.TaskToolFailed]: z.tuple([z.string(), toolNamesSchema, z.string()]),
 	[RooCodeEventName.TaskTokenUsageUpdated]: z.tuple([z.string(), tokenUsageSchema]),
+	[RooCodeEventName.TaskBudgetUpdated]: z.tuple([z.string(), taskBudgetStatusSchema]),
+	[RooCodeEventName.TaskBudgetExceeded]: z.tuple([z.string(), taskBudgetStatusSchema]),
+	[RooCodeEventName.TaskHookBlocked]: z.tuple([z.string(), lifecycleHookEventSchema, z.string()]),
 
 	[RooCodeEventName.ModeChanged]: z.tuple([z.string()]),
 	[RooCodeEventName.ProviderProfileChanged]: z.tuple([z.object({ name: z.string(), provider: z.string() })]),
@@ -229,6 +237,21 @@ export const taskEventSchema = z.discriminatedUnion("eventName", [
 		payload: rooCodeEventsSchema.shape[RooCodeEventName.TaskTokenUsageUpdated],
 		taskId: z.number().optional(),
 	}),
+	z.object({
+		eventName: z.literal(RooCodeEventName.TaskBudgetUpdated),
+		payload: rooCodeEventsSchema.shape[RooCodeEventName.TaskBudgetUpdated],
+		taskId: z.number().optional(),
+	}),
+	z.object({
+		eventName: z.literal(RooCodeEventName.TaskBudgetExceeded),
+		payload: rooCodeEventsSchema.shape[RooCodeEventName.TaskBudgetExceeded],
+		taskId: z.number().optional(),
+	}),
+	z.object({
+		eventName: z.literal(RooCodeEventName.TaskHookBlocked),
+		payload: rooCodeEventsSchema.shape[RooCodeEventName.TaskHookBlocked],
+		taskId: z.number().optional(),
+	}),
 
 	// Evals
 	z.object({
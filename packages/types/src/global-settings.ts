@@ -10,6 +10,7 @@ import {
 import { historyItemSchema } from "./history.js"
 import { codebaseIndexModelsSchema, codebaseIndexConfigSchema } from "./codebase-index.js"
 import { experimentsSchema } from "./experiment.js"
+import { taskBudgetSchema } from "./budget.js"
 import { telemetrySettingsSchema } from "./telemetry.js"
 import { modeConfigSchema } from "./mode.js"
 import { customModePromptsSchema, customSupportPromptsSchema } from "./mode.js"
@@ -44,6 +45,35 @@ export const MAX_CHECKPOINT_TIMEOUT_SECONDS = 60
  */
 export const DEFAULT_CHECKPOINT_TIMEOUT_SECONDS = 15
 
+/**
+ * CheckpointRetention
+ *
+ * Limits applied to the shadow git repos that back checkpoints. Unset limits
+ * are not enforced.
+ */
+
+export const checkpointRetentionSchema = z.object({
+	maxAgeDays: z.number().int().positive().optional(),
+	maxTotalSizeMb: z.number().int().positive().optional(),
+	maxCheckpointsPerTask: z.number().int().positive().optional(),
+})
+
+export type CheckpointRetention = z.infer<typeof checkpointRetentionSchema>
+
+/**
+ * CondensingMode
+ *
+ * `summary` replaces the condensed messages with one free-form summary.
+ * `structured` condenses only the oldest messages into a typed summary that is
+ * merged into the previous one.
+ */
+
+export const condensingModes = ["summary", "structured"] as const
+
+export const condensingModeSchema = z.enum(condensingModes)
+
+export type CondensingMode = z.infer<typeof condensingModeSchema>
+
 /**
  * GlobalSettings
  */
@@ -65,6 +95,7 @@ export const globalSettingsSchema = z.object({
 
 	condensingApiConfigId: z.string().optional(),
 	customCondensingPrompt: z.string().optional(),
+	condensingMode: condensingModeSchema.optional(),
 
 	autoApprovalEnabled: z.boolean().optional(),
 	alwaysAllowReadOnly: z.boolean().optional(),
@@ -90,6 +121,9 @@ export const globalSettingsSchema = z.object({
 	preventCompletionWithOpenTodos: z.boolean().optional(),
 	allowedMaxRequests: z.number().nullish(),
 	allowedMaxCost: z.number().nullish(),
+	taskBudget: taskBudgetSchema.optional(),
+	modeTaskBudgets: z.record(z.string(), taskBudgetSchema).optional(),
+	profileTaskBudgets: z.record(z.string(), taskBudgetSchema).optional(),
 	autoCondenseContext: z.boolean().optional(),
 	autoCondenseContextPercent: z.number().optional(),
 	maxConcurrentFileReads: z.number().optional(),
@@ -136,6 +170,7 @@ export const globalSettingsSchema = z.object({
 		.min(MIN_CHECKPOINT_TIMEOUT_SECONDS)
 		.max(MAX_CHECKPOINT_TIMEOUT_SECONDS)
 		.optional(),
+	checkpointRetention: checkpointRetentionSchema.optional(),
 
 	ttsEnabled: z.boolean().optional(),
 	ttsSpeed: z.number().optional(),
@@ -1,5 +1,7 @@
 import { z } from "zod"
 
+import { persistedTaskBudgetSchema } from "./budget.js"
+
 /**
  * HistoryItem
  */
@@ -25,6 +27,53 @@ export const historyItemSchema = z.object({
 	awaitingChildId: z.string().optional(), // Child currently awaited (set when delegated)
 	completedByChildId: z.string().optional(), // Child that completed and resumed this parent
 	completionResultSummary: z.string().optional(), // Summary from completed child
+	budget: persistedTaskBudgetSchema.optional(), // Budget resolved for this task and when it started counting
+	forkedFrom: z
+		.object({
+			taskId: z.string(), // Task this task was forked from
+			ts: z.number(), // Timestamp of the checkpoint message the fork starts from
+			commitHash: z.string(), // Checkpoint commit the fork's shadow repo starts from
+		})
+		.optional(),
 })
 
 export type HistoryItem = z.infer<typeof historyItemSchema>
+
+/**
+ * TaskSearchFilters
+ *
+ * Filters applied to the task history before its conversations are searched.
+ * Dates are timestamps in milliseconds; `file` matches any part of the path of
+ * a file the task read, edited or mentioned.
+ */
+
+export const taskSearchFiltersSchema = z.object({
+	workspace: z.string().optional(),
+	mode: z.string().optional(),
+	from: z.number().optional(),
+	to: z.number().optional(),
+	minCost: z.number().optional(),
+	maxCost: z.number().optional(),
+	status: historyItemSchema.shape.status,
+	file: z.string().optional(),
+})
+
+export type TaskSearchFilters = z.infer<typeof taskSearchFiltersSchema>
+
+/**
+ * TaskSearchResult
+ */
+
+export type TaskSearchMatch = {
+	// Timestamp of the matching message.
+	ts: number
+	snippet: string
+	// Start and end offsets of the matched terms in the snippet.
+	highlights: Array<[number, number]>
+}
+
+export type TaskSearchResult = {
+	taskId: string
+	score: number
+	matches: TaskSearchMatch[]
+}
@@ -0,0 +1,89 @@
+import { z } from "zod"
+
+export const DEFAULT_HOOK_TIMEOUT_SECONDS = 60
+
+/**
+ * PostEditHook
+ *
+ * A command run after the agent edits files matching `files` (gitignore-style
+ * patterns relative to the workspace). `{file}` and `{files}` in the command
+ * are replaced with the quoted paths of the edited files. Batch hooks run once
+ * per assistant turn over every matching file edited in it, instead of after
+ * each edit.
+ */
+export const postEditHookSchema = z.object({
+	files: z.union([z.string(), z.array(z.string())]),
+	command: z.string().min(1),
+	batch: z.boolean().optional(),
+	timeout: z.number().int().positive().optional(),
+})
+
+export type PostEditHook = z.infer<typeof postEditHookSchema>
+
+/**
+ * LifecycleHookEvent
+ */
+
+export const lifecycleHookEvents = [
+	"taskStarted",
+	"preToolUse",
+	"postToolUse",
+	"preCompletion",
+	"taskCompleted",
+] as const
+
+export const lifecycleHookEventSchema = z.enum(lifecycleHookEvents)
+
+export type LifecycleHookEvent = z.infer<typeof lifecycleHookEventSchema>
+
+/**
+ * LifecycleHook
+ *
+ * A command, or a tool of a connected MCP server, run on a task lifecycle
+ * event. It receives the event as JSON, on stdin for commands and as the
+ * arguments for MCP tools. `tools` restricts `preToolUse` and `postToolUse`
+ * hooks to some tools. MCP tools use the timeout of their server rather than
+ * `timeout`.
+ */
+export const lifecycleHookSchema = z
+	.object({
+		command: z.string().min(1).optional(),
+		mcp: z.object({ server: z.string().min(1), tool: z.string().min(1) }).optional(),
+		tools: z.array(z.string()).optional(),
+		timeout: z.number().int().positive().optional(),
+	})
+	.refine((hook) => !hook.command !== !hook.mcp, { message: "Expected either a command or an mcp tool" })
+
+export type LifecycleHook = z.infer<typeof lifecycleHookSchema>
+
+/**
+ * LifecycleHookResponse
+ *
+ * What a hook can print (or return, for MCP tools) as JSON. `preToolUse` and
+ * `preCompletion` hooks can block with a reason given back to the model, and
+ * `preToolUse` hooks can replace some of the tool parameters. Commands can
+ * also block by exiting with code 2, with their output as the reason.
+ */
+export const lifecycleHookResponseSchema = z.object({
+	decision: z.enum(["allow", "block"]).optional(),
+	reason: z.string().optional(),
+	params: z.record(z.string(), z.unknown()).optional(),
+})
+
+export type LifecycleHookResponse = z.infer<typeof lifecycleHookResponseSchema>
+
+/**
+ * HooksConfig
+ *
+ * The contents of `.roo/hooks.json`, in the project and globally.
+ */
+export const hooksConfigSchema = z.object({
+	postEdit: z.array(postEditHookSchema).default([]),
+	taskStarted: z.array(lifecycleHookSchema).default([]),
+	preToolUse: z.array(lifecycleHookSchema).default([]),
+	postToolUse: z.array(lifecycleHookSchema).default([]),
+	preCompletion: z.array(lifecycleHookSchema).default([]),
+	taskCompleted: z.array(lifecycleHookSchema).default([]),
+})
+
+export type HooksConfig = z.infer<typeof hooksConfigSchema>
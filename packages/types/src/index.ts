@@ -1,4 +1,6 @@
 export * from "./api.js"
+export * from "./approval-policy.js"
+export * from "./budget.js"
 export * from "./cloud.js"
 export * from "./codebase-index.js"
 export * from "./cookie-consent.js"
@@ -7,6 +9,7 @@ export * from "./experiment.js"
 export * from "./followup.js"
 export * from "./global-settings.js"
 export * from "./history.js"
+export * from "./hooks.js"
 export * from "./image-generation.js"
 export * from "./ipc.js"
 export * from "./marketplace.js"
@@ -15,8 +18,10 @@ export * from "./message.js"
 export * from "./mode.js"
 export * from "./model.js"
 export * from "./provider-settings.js"
+export * from "./sandbox.js"
 export * from "./single-file-read-models.js"
 export * from "./task.js"
+export * from "./task-archive.js"
 export * from "./todo.js"
 export * from "./telemetry.js"
 export * from "./terminal.js"
@@ -1,7 +1,9 @@
 import { z } from "zod"
 
 import { type TaskEvent, taskEventSchema } from "./events.js"
-import { rooCodeSettingsSchema } from "./global-settings.js"
+import { type RooCodeSettings, rooCodeSettingsSchema } from "./global-settings.js"
+import type { HistoryItem } from "./history.js"
+import type { ClineMessage } from "./message.js"
 
 /**
  * IpcMessageType
@@ -12,6 +14,7 @@ export enum IpcMessageType {
 	Disconnect = "Disconnect",
 	Ack = "Ack",
 	TaskCommand = "TaskCommand",
+	TaskCommandResponse = "TaskCommandResponse",
 	TaskEvent = "TaskEvent",
 }
 
@@ -46,8 +49,33 @@ export enum TaskCommandName {
 	CloseTask = "CloseTask",
 	ResumeTask = "ResumeTask",
 	SendMessage = "SendMessage",
+	ApproveAsk = "ApproveAsk",
+	RejectAsk = "RejectAsk",
+	SwitchMode = "SwitchMode",
+	GetTaskMessages = "GetTaskMessages",
+	ListHistory = "ListHistory",
+	DeleteTask = "DeleteTask",
+	GetSettings = "GetSettings",
+	ExportTask = "ExportTask",
+	ImportTask = "ImportTask",
 }
 
+/**
+ * AskResponseData
+ *
+ * Identifies a pending ask by the `ts` of its `ClineMessage`, so a response
+ * cannot be applied to a different ask than the one the client saw.
+ */
+
+export const askResponseDataSchema = z.object({
+	taskId: z.string(),
+	askTs: z.number(),
+	text: z.string().optional(),
+	images: z.array(z.string()).optional(),
+})
+
+export type AskResponseData = z.infer<typeof askResponseDataSchema>
+
 /**
  * TaskCommand
  */
@@ -81,10 +109,97 @@ export const taskCommandSchema = z.discriminatedUnion("commandName", [
 			images: z.array(z.string()).optional(),
 		}),
 	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.ApproveAsk),
+		data: askResponseDataSchema,
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.RejectAsk),
+		data: askResponseDataSchema,
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.SwitchMode),
+		data: z.object({
+			mode: z.string(),
+		}),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.GetTaskMessages),
+		data: z.string(),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.ListHistory),
+		data: z
+			.object({
+				workspace: z.string().optional(),
+				limit: z.number().int().positive().optional(),
+			})
+			.optional(),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.DeleteTask),
+		data: z.string(),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.GetSettings),
+		data: z.undefined().optional(),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.ExportTask),
+		data: z.object({
+			taskId: z.string(),
+			filePath: z.string(),
+			includeCheckpoints: z.boolean().optional(),
+		}),
+	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.ImportTask),
+		data: z.object({
+			filePath: z.string(),
+			workspace: z.string().optional(),
+		}),
+	}),
 ])
 
 export type TaskCommand = z.infer<typeof taskCommandSchema>
 
+/**
+ * TaskCommandResults
+ *
+ * The result sent back for each command when the client asks for a response.
+ */
+
+export type TaskCommandResults = {
+	[TaskCommandName.StartNewTask]: string
+	[TaskCommandName.CancelTask]: void
+	[TaskCommandName.CloseTask]: void
+	[TaskCommandName.ResumeTask]: void
+	[TaskCommandName.SendMessage]: void
+	[TaskCommandName.ApproveAsk]: void
+	[TaskCommandName.RejectAsk]: void
+	[TaskCommandName.SwitchMode]: void
+	[TaskCommandName.GetTaskMessages]: ClineMessage[]
+	[TaskCommandName.ListHistory]: HistoryItem[]
+	[TaskCommandName.DeleteTask]: void
+	[TaskCommandName.GetSettings]: RooCodeSettings
+	[TaskCommandName.ExportTask]: void
+	[TaskCommandName.ImportTask]: string
+}
+
+/**
+ * TaskCommandResponse
+ */
+
+export const taskCommandResponseSchema = z.object({
+	requestId: z.string(),
+	commandName: z.nativeEnum(TaskCommandName),
+	success: z.boolean(),
+	result: z.unknown().optional(),
+	error: z.string().optional(),
+})
+
+export type TaskCommandResponse = z.infer<typeof taskCommandResponseSchema>
+
 /**
  * IpcMessage
  */
@@ -99,8 +214,15 @@ export const ipcMessageSchema = z.discriminatedUnion("type", [
 		type: z.literal(IpcMessageType.TaskCommand),
 		origin: z.literal(IpcOrigin.Client),
 		clientId: z.string(),
+		// Set when the client expects a `TaskCommandResponse`.
+		requestId: z.string().optional(),
 		data: taskCommandSchema,
 	}),
+	z.object({
+		type: z.literal(IpcMessageType.TaskCommandResponse),
+		origin: z.literal(IpcOrigin.Server),
+		data: taskCommandResponseSchema,
+	}),
 	z.object({
 		type: z.literal(IpcMessageType.TaskEvent),
 		origin: z.literal(IpcOrigin.Server),
@@ -120,6 +242,7 @@ export type IpcClientEvents = {
 	[IpcMessageType.Disconnect]: []
 	[IpcMessageType.Ack]: [data: Ack]
 	[IpcMessageType.TaskCommand]: [data: TaskCommand]
+	[IpcMessageType.TaskCommandResponse]: [data: TaskCommandResponse]
 	[IpcMessageType.TaskEvent]: [data: TaskEvent]
 }
 
@@ -130,6 +253,6 @@ export type IpcClientEvents = {
 export type IpcServerEvents = {
 	[IpcMessageType.Connect]: [clientId: string]
 	[IpcMessageType.Disconnect]: [clientId: string]
-	[IpcMessageType.TaskCommand]: [clientId: string, data: TaskCommand]
+	[IpcMessageType.TaskCommand]: [clientId: string, data: TaskCommand, requestId: string | undefined]
 	[IpcMessageType.TaskEvent]: [relayClientId: string | undefined, data: TaskEvent]
 }
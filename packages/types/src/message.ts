@@ -1,5 +1,7 @@
 import { z } from "zod"
 
+import { todoItemSchema } from "./todo.js"
+
 /**
  * ClineAsk
  */
@@ -195,6 +197,35 @@ export const toolProgressStatusSchema = z.object({
 
 export type ToolProgressStatus = z.infer<typeof toolProgressStatusSchema>
 
+/**
+ * StructuredSummary
+ *
+ * The typed summary produced by structured condensing. Files and todos come
+ * from the task's own state; the rest is extracted by the model.
+ */
+
+export const structuredSummaryFileSchema = z.object({
+	path: z.string(),
+	// The last recorded operation on the file.
+	lastAction: z.enum(["read", "edited", "user_edited", "mentioned"]),
+	// Whether Roo edited the file at any point.
+	edited: z.boolean(),
+	notes: z.string().optional(),
+})
+
+export type StructuredSummaryFile = z.infer<typeof structuredSummaryFileSchema>
+
+export const structuredSummarySchema = z.object({
+	goals: z.array(z.string()),
+	decisions: z.array(z.string()),
+	currentWork: z.string(),
+	files: z.array(structuredSummaryFileSchema),
+	todos: z.array(todoItemSchema),
+	errors: z.array(z.string()),
+})
+
+export type StructuredSummary = z.infer<typeof structuredSummarySchema>
+
 /**
  * ContextCondense
  */
@@ -205,6 +236,7 @@ export const contextCondenseSchema = z.object({
 	newContextTokens: z.number(),
 	summary: z.string(),
 	condenseId: z.string().optional(),
+	structured: structuredSummarySchema.optional(),
 })
 
 export type ContextCondense = z.infer<typeof contextCondenseSchema>
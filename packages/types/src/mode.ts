@@ -61,8 +61,19 @@ const groupEntryArraySchema = z.array(groupEntrySchema).refine(
 	{ message: "Duplicate groups are not allowed" },
 )
 
+const modeSlugSchema = z.string().regex(/^[a-zA-Z0-9-]+$/, "Slug must contain only letters numbers and dashes")
+
+/**
+ * The base mode(s) a custom mode inherits from. Bases are merged in order and
+ * may be built-in or custom modes; a mode that extends its own slug inherits
+ * from the built-in mode it overrides.
+ */
+export const modeExtendsSchema = z.union([modeSlugSchema, z.array(modeSlugSchema).min(1)])
+
+export type ModeExtends = z.infer<typeof modeExtendsSchema>
+
 export const modeConfigSchema = z.object({
-	slug: z.string().regex(/^[a-zA-Z0-9-]+$/, "Slug must contain only letters numbers and dashes"),
+	slug: modeSlugSchema,
 	name: z.string().min(1, "Name is required"),
 	roleDefinition: z.string().min(1, "Role definition is required"),
 	whenToUse: z.string().optional(),
@@ -70,16 +81,45 @@ export const modeConfigSchema = z.object({
 	customInstructions: z.string().optional(),
 	groups: groupEntryArraySchema,
 	source: z.enum(["global", "project"]).optional(),
+	extends: modeExtendsSchema.optional(),
+	// Name of the sandbox profile the commands of this mode run in.
+	sandboxProfile: z.string().optional(),
 })
 
 export type ModeConfig = z.infer<typeof modeConfigSchema>
 
+/**
+ * CustomModeDefinition
+ *
+ * A custom mode as written in `.roomodes` or the global custom modes file.
+ * Modes that extend another mode may omit `roleDefinition` and `groups`.
+ */
+
+export const customModeDefinitionSchema = modeConfigSchema
+	.extend({
+		roleDefinition: z.string().min(1, "Role definition is required").optional(),
+		groups: groupEntryArraySchema.optional(),
+	})
+	.superRefine((mode, ctx) => {
+		if (mode.extends) {
+			return
+		}
+
+		for (const field of ["roleDefinition", "groups"] as const) {
+			if (mode[field] === undefined) {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: "Required" })
+			}
+		}
+	})
+
+export type CustomModeDefinition = z.infer<typeof customModeDefinitionSchema>
+
 /**
  * CustomModesSettings
  */
 
 export const customModesSettingsSchema = z.object({
-	customModes: z.array(modeConfigSchema).refine(
+	customModes: z.array(customModeDefinitionSchema).refine(
 		(modes) => {
 			const slugs = new Set()
 
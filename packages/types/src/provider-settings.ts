@@ -33,6 +33,8 @@ import {
 
 export const DEFAULT_CONSECUTIVE_MISTAKE_LIMIT = 3
 
+export const DEFAULT_FAILOVER_COOLDOWN_SECONDS = 60
+
 /**
  * DynamicProvider
  *
@@ -163,6 +165,21 @@ export const providerSettingsEntrySchema = z.object({
 
 export type ProviderSettingsEntry = z.infer<typeof providerSettingsEntrySchema>
 
+/**
+ * FailoverErrorClass
+ *
+ * The kinds of provider errors that make a profile fail over to the next
+ * profile of its failover chain.
+ */
+
+export const failoverErrorClasses = ["rate_limit", "server_error", "timeout", "network"] as const
+
+export const failoverErrorClassSchema = z.enum(failoverErrorClasses)
+
+export type FailoverErrorClass = z.infer<typeof failoverErrorClassSchema>
+
+export const DEFAULT_FAILOVER_ERROR_CLASSES: FailoverErrorClass[] = ["rate_limit", "server_error"]
+
 /**
  * ProviderSettings
  */
@@ -187,6 +204,11 @@ const baseProviderSettingsSchema = z.object({
 
 	// Tool protocol override for this profile.
 	toolProtocol: z.enum(["xml", "native"]).optional(),
+
+	// Profiles to fail over to, in order, when a request fails.
+	failoverProfileIds: z.array(z.string()).optional(),
+	failoverErrorClasses: z.array(failoverErrorClassSchema).optional(),
+	failoverCooldownSeconds: z.number().min(0).optional(),
 })
 
 // Several of the providers share common model config properties.
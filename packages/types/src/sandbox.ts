@@ -0,0 +1,63 @@
+import { z } from "zod"
+
+/**
+ * SandboxBackend
+ *
+ * `auto` uses bubblewrap if it is installed, and otherwise the first available
+ * container runtime.
+ */
+export const sandboxBackends = ["auto", "bubblewrap", "docker", "podman"] as const
+
+export const sandboxBackendSchema = z.enum(sandboxBackends)
+
+export type SandboxBackend = z.infer<typeof sandboxBackendSchema>
+
+/**
+ * SandboxLimits
+ */
+export const sandboxLimitsSchema = z.object({
+	// CPU time of each process, in seconds.
+	cpuSeconds: z.number().int().positive().optional(),
+	memoryMb: z.number().int().positive().optional(),
+	// Wall-clock time of the whole command, in seconds.
+	timeoutSeconds: z.number().int().positive().optional(),
+})
+
+export type SandboxLimits = z.infer<typeof sandboxLimitsSchema>
+
+/**
+ * SandboxProfile
+ *
+ * Restricts the commands run with the execa terminal provider. The workspace
+ * (the root directory of the task, which commands must run inside of) is
+ * always writable; everything else is hidden unless it is listed. Relative
+ * paths are resolved against the workspace.
+ */
+export const sandboxProfileSchema = z.object({
+	backend: sandboxBackendSchema.optional(),
+	// Image for the container runtimes, e.g. "node:22".
+	image: z.string().optional(),
+	readOnlyPaths: z.array(z.string()).optional(),
+	writablePaths: z.array(z.string()).optional(),
+	// Network access is disabled unless this is true.
+	network: z.boolean().optional(),
+	// Names of the environment variables passed to the command; a trailing `*`
+	// matches a prefix. `PATH`, `HOME`, `LANG` and `TERM` are always passed.
+	envAllowlist: z.array(z.string()).optional(),
+	limits: sandboxLimitsSchema.optional(),
+})
+
+export type SandboxProfile = z.infer<typeof sandboxProfileSchema>
+
+export const sandboxProfilesSchema = z.record(z.string(), sandboxProfileSchema)
+
+export type SandboxProfiles = z.infer<typeof sandboxProfilesSchema>
+
+/**
+ * SandboxLimit
+ *
+ * The limit that made a sandboxed process stop.
+ */
+export const sandboxLimits = ["cpu", "memory", "time"] as const
+
+export type SandboxLimit = (typeof sandboxLimits)[number]
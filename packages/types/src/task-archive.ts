@@ -0,0 +1,36 @@
+import { z } from "zod"
+
+import { historyItemSchema } from "./history.js"
+import { clineMessageSchema } from "./message.js"
+import { todoItemSchema } from "./todo.js"
+
+/**
+ * TaskArchive
+ *
+ * A portable copy of a task that can be imported into the history of another
+ * installation and resumed there. Archives are versioned so that newer
+ * versions of the format can be rejected by older versions of the extension,
+ * and older versions migrated when the format changes.
+ */
+
+export const TASK_ARCHIVE_VERSION = 1
+
+export const taskArchiveHeaderSchema = z.object({
+	version: z.number().int().positive(),
+})
+
+export const taskArchiveSchema = taskArchiveHeaderSchema.extend({
+	exportedAt: z.number(),
+	// The workspace the task ran in, which paths are remapped from on import.
+	workspace: z.string().optional(),
+	historyItem: historyItemSchema,
+	uiMessages: z.array(clineMessageSchema.passthrough()),
+	apiMessages: z.array(z.object({ role: z.enum(["user", "assistant"]) }).passthrough()),
+	todos: z.array(todoItemSchema).optional(),
+	// The contents of the task's `task_metadata.json`, e.g. the files in context.
+	taskMetadata: z.record(z.string(), z.unknown()).optional(),
+	// A base64-encoded git bundle of the task's shadow repo.
+	checkpoints: z.string().optional(),
+})
+
+export type TaskArchive = z.infer<typeof taskArchiveSchema>
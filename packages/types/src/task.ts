@@ -3,6 +3,8 @@ import { z } from "zod"
 import { RooCodeEventName } from "./events.js"
 import type { RooCodeSettings } from "./global-settings.js"
 import type { ClineMessage, QueuedMessage, TokenUsage } from "./message.js"
+import type { TaskBudgetStatus } from "./budget.js"
+import type { LifecycleHookEvent } from "./hooks.js"
 import type { ToolUsage, ToolName } from "./tool.js"
 import type { StaticAppProperties, GitProperties, TelemetryProperties } from "./telemetry.js"
 import type { TodoItem } from "./todo.js"
@@ -79,6 +81,9 @@ export type TaskProviderEvents = {
 	[RooCodeEventName.TaskUserMessage]: [taskId: string]
 
 	[RooCodeEventName.TaskTokenUsageUpdated]: [taskId: string, tokenUsage: TokenUsage]
+	[RooCodeEventName.TaskBudgetUpdated]: [taskId: string, status: TaskBudgetStatus]
+	[RooCodeEventName.TaskBudgetExceeded]: [taskId: string, status: TaskBudgetStatus]
+	[RooCodeEventName.TaskHookBlocked]: [taskId: string, event: LifecycleHookEvent, reason: string]
 
 	[RooCodeEventName.ModeChanged]: [mode: string]
 	[RooCodeEventName.ProviderProfileChanged]: [config: { name: string; provider?: string }]
@@ -160,4 +165,7 @@ export type TaskEvents = {
 	// Task Analytics
 	[RooCodeEventName.TaskToolFailed]: [taskId: string, tool: ToolName, error: string]
 	[RooCodeEventName.TaskTokenUsageUpdated]: [taskId: string, tokenUsage: TokenUsage]
+	[RooCodeEventName.TaskBudgetUpdated]: [taskId: string, status: TaskBudgetStatus]
+	[RooCodeEventName.TaskBudgetExceeded]: [taskId: string, status: TaskBudgetStatus]
+	[RooCodeEventName.TaskHookBlocked]: [taskId: string, event: LifecycleHookEvent, reason: string]
 }
@@ -1,5 +1,7 @@
 import { z } from "zod"
 
+import { sandboxLimits } from "./sandbox.js"
+
 /**
  * CommandExecutionStatus
  */
@@ -32,3 +34,25 @@ export const commandExecutionStatusSchema = z.discriminatedUnion("status", [
 ])
 
 export type CommandExecutionStatus = z.infer<typeof commandExecutionStatusSchema>
+
+/**
+ * BackgroundJob
+ */
+
+export const backgroundJobStatuses = ["running", "completed", "failed", "killed"] as const
+
+export const backgroundJobSchema = z.object({
+	id: z.number(),
+	command: z.string(),
+	cwd: z.string(),
+	pid: z.number().optional(),
+	status: z.enum(backgroundJobStatuses),
+	exitCode: z.number().optional(),
+	signalName: z.string().optional(),
+	// Set when the job was stopped by a limit of its sandbox.
+	limitExceeded: z.enum(sandboxLimits).optional(),
+	startedAt: z.number(),
+	endedAt: z.number().optional(),
+})
+
+export type BackgroundJob = z.infer<typeof backgroundJobSchema>
@@ -23,11 +23,32 @@ export interface Size {
 }
 
 export interface BrowserActionParams {
-	action: "launch" | "click" | "hover" | "type" | "scroll_down" | "scroll_up" | "resize" | "close"
+	action:
+		| "launch"
+		| "click"
+		| "hover"
+		| "type"
+		| "press"
+		| "scroll_down"
+		| "scroll_up"
+		| "resize"
+		| "snapshot"
+		| "click_element"
+		| "fill"
+		| "select_option"
+		| "wait_for"
+		| "evaluate"
+		| "navigate_back"
+		| "get_network_log"
+		| "close"
 	url?: string
 	coordinate?: Coordinate
 	size?: Size
 	text?: string
+	ref?: number
+	selector?: string
+	expression?: string
+	status?: string
 }
 
 export interface GenerateImageParams {
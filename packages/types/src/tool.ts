@@ -36,6 +36,9 @@ export const toolNames = [
 	"update_todo_list",
 	"run_slash_command",
 	"generate_image",
+	"terminal_session",
+	"lookup_symbol",
+	"rename_symbol",
 ] as const
 
 export const toolNamesSchema = z.enum(toolNames)
@@ -2,7 +2,10 @@ import * as vscode from "vscode"
 
 import { CloudService } from "@roo-code/cloud"
 
+import { t } from "../i18n"
+
 import { ClineProvider } from "../core/webview/ClineProvider"
+import { MCP_OAUTH_CALLBACK_PATH } from "../services/mcp/McpOAuthClientProvider"
 
 export const handleUri = async (uri: vscode.Uri) => {
 	const path = uri.path
@@ -50,6 +53,21 @@ export const handleUri = async (uri: vscode.Uri) => {
 			)
 			break
 		}
+		case MCP_OAUTH_CALLBACK_PATH: {
+			const code = query.get("code")
+			const state = query.get("state")
+			if (code && state) {
+				try {
+					await visibleProvider.getMcpHub()?.handleOAuthCallback(code, state)
+				} catch (error) {
+					visibleProvider.log(
+						`[handleUri] MCP OAuth callback failed: ${error instanceof Error ? error.message : String(error)}`,
+					)
+					vscode.window.showErrorMessage(t("mcp:errors.oauth_failed"))
+				}
+			}
+			break
+		}
 		default:
 			break
 	}
@@ -0,0 +1,177 @@
+// npx vitest run api/__tests__/cassette.spec.ts
+
+import * as os from "os"
+import * as path from "path"
+import * as fs from "fs/promises"
+
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ApiHandler, SingleCompletionHandler } from "../index"
+import type { ApiStreamChunk } from "../transform/stream"
+import { CassetteHandler, CassetteMissError, getCassetteOptionsFromEnv, type CassetteMode } from "../cassette"
+
+const response: ApiStreamChunk[] = [
+	{ type: "reasoning", text: "Thinking" },
+	{ type: "text", text: "Hello" },
+	{ type: "usage", inputTokens: 10, outputTokens: 5 },
+]
+
+const createHandler = (chunks: ApiStreamChunk[] = response, error?: Error): ApiHandler & SingleCompletionHandler => ({
+	createMessage: vi.fn(async function* () {
+		yield* chunks
+
+		if (error) {
+			throw error
+		}
+	}),
+	completePrompt: vi.fn().mockResolvedValue("Enhanced"),
+	getModel: () => ({ id: "test-model", info: { maxTokens: 1, contextWindow: 1, supportsPromptCache: false } }),
+	countTokens: vi.fn().mockResolvedValue(1),
+})
+
+const collect = async (handler: ApiHandler, messages: Anthropic.Messages.MessageParam[] = []) => {
+	const chunks: ApiStreamChunk[] = []
+
+	for await (const chunk of handler.createMessage("system", messages)) {
+		chunks.push(chunk)
+	}
+
+	return chunks
+}
+
+describe("CassetteHandler", () => {
+	let dir: string
+
+	const createCassetteHandler = (handler: ApiHandler, mode: CassetteMode, workspacePath?: string) =>
+		new CassetteHandler(handler, { mode, dir, workspacePath })
+
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), "cassette-test-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(dir, { recursive: true, force: true })
+	})
+
+	it("records responses and replays them without calling the API", async () => {
+		const recorder = createHandler()
+		expect(await collect(createCassetteHandler(recorder, "auto"))).toEqual(response)
+		expect(await fs.readdir(dir)).toHaveLength(1)
+
+		const player = createHandler([])
+		expect(await collect(createCassetteHandler(player, "replay"))).toEqual(response)
+		expect(player.createMessage).not.toHaveBeenCalled()
+
+		// The record mode always calls the API.
+		await collect(createCassetteHandler(recorder, "record"))
+		expect(recorder.createMessage).toHaveBeenCalledTimes(2)
+	})
+
+	it("throws on a miss in the replay mode", async () => {
+		const handler = createHandler()
+
+		await expect(collect(createCassetteHandler(handler, "replay"))).rejects.toBeInstanceOf(CassetteMissError)
+		expect(handler.createMessage).not.toHaveBeenCalled()
+	})
+
+	it("ignores the environment details and the workspace path in the keys", async () => {
+		const messages = (workspacePath: string, time: string): Anthropic.Messages.MessageParam[] => [
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: `<task>Fix ${workspacePath}/src/index.ts</task>` },
+					{ type: "text", text: `<environment_details>\nCurrent time: ${time}\n</environment_details>` },
+				],
+			},
+		]
+
+		await collect(createCassetteHandler(createHandler(), "auto", "/home/a/repo"), messages("/home/a/repo", "1"))
+
+		const player = createCassetteHandler(createHandler([]), "replay", "/tmp/b/repo")
+		expect(await collect(player, messages("/tmp/b/repo", "2"))).toEqual(response)
+		await expect(collect(player, messages("/tmp/b/other", "2"))).rejects.toBeInstanceOf(CassetteMissError)
+	})
+
+	it("doesn't record incomplete responses", async () => {
+		const handler = createCassetteHandler(createHandler(response.slice(0, 1), new Error("Connection lost")), "auto")
+
+		await expect(collect(handler)).rejects.toThrow("Connection lost")
+		expect(await fs.readdir(dir)).toHaveLength(0)
+	})
+
+	it("records and replays prompt completions", async () => {
+		expect(await createCassetteHandler(createHandler(), "auto").completePrompt!("Enhance this")).toBe("Enhanced")
+
+		const player = createHandler()
+		expect(await createCassetteHandler(player, "replay").completePrompt!("Enhance this")).toBe("Enhanced")
+		expect(player.completePrompt).not.toHaveBeenCalled()
+	})
+
+	it("only supports prompt completions if the wrapped handler does", () => {
+		const { completePrompt: _, ...handler } = createHandler()
+
+		expect("completePrompt" in createCassetteHandler(handler, "auto")).toBe(false)
+		expect("completePrompt" in createCassetteHandler(createHandler(), "auto")).toBe(true)
+	})
+
+	it("records and replays the details of responses", async () => {
+		const recorder = Object.assign(createHandler(), {
+			getThoughtSignature: () => "signature",
+			getEncryptedContent: () => ({ encrypted_content: "encrypted", id: "rs_1" }),
+		})
+		const recording = createCassetteHandler(recorder, "auto")
+
+		await collect(recording)
+		expect(recording.getThoughtSignature()).toBe("signature")
+
+		const player = createCassetteHandler(createHandler([]), "replay")
+		await collect(player)
+		expect(player.getThoughtSignature()).toBe("signature")
+		expect(player.getEncryptedContent()).toEqual({ encrypted_content: "encrypted", id: "rs_1" })
+		expect(player.getResponseId()).toBeUndefined()
+	})
+
+	it("reports the profile that served live responses", async () => {
+		const servedBy = { profileName: "backup", modelId: "test-model", isFailover: true }
+		const handler = Object.assign(createHandler(), { getServedBy: vi.fn().mockReturnValue(servedBy) })
+		const cassette = createCassetteHandler(handler, "auto")
+
+		await collect(cassette)
+		expect(cassette.getServedBy()).toEqual(servedBy)
+
+		// Replayed responses weren't served by any profile.
+		await collect(cassette)
+		expect(cassette.getServedBy()).toBeUndefined()
+		expect(createCassetteHandler(createHandler(), "auto").getServedBy()).toBeUndefined()
+	})
+
+	it("rejects cassettes recorded by a newer version", async () => {
+		await collect(createCassetteHandler(createHandler(), "auto"))
+
+		const [file] = await fs.readdir(dir)
+		const cassette = JSON.parse(await fs.readFile(path.join(dir, file), "utf8"))
+		await fs.writeFile(path.join(dir, file), JSON.stringify({ ...cassette, version: 99 }))
+
+		await expect(collect(createCassetteHandler(createHandler(), "auto"))).rejects.toThrow("newer version")
+	})
+})
+
+describe("getCassetteOptionsFromEnv", () => {
+	it("reads the cassette directory and mode", () => {
+		expect(getCassetteOptionsFromEnv("/workspace", {})).toBeUndefined()
+
+		expect(getCassetteOptionsFromEnv("/workspace", { ROO_CODE_CASSETTE_DIR: "/cassettes" })).toEqual({
+			dir: path.resolve("/cassettes"),
+			mode: "auto",
+			workspacePath: "/workspace",
+		})
+
+		expect(
+			getCassetteOptionsFromEnv("", { ROO_CODE_CASSETTE_DIR: "/cassettes", ROO_CODE_CASSETTE_MODE: "replay" }),
+		).toMatchObject({ mode: "replay", workspacePath: undefined })
+
+		expect(() =>
+			getCassetteOptionsFromEnv("", { ROO_CODE_CASSETTE_DIR: "/cassettes", ROO_CODE_CASSETTE_MODE: "play" }),
+		).toThrow('Invalid ROO_CODE_CASSETTE_MODE "play"')
+	})
+})
@@ -0,0 +1,167 @@
+// npx vitest run api/__tests__/failover.spec.ts
+
+import type { ProviderSettings } from "@roo-code/types"
+
+import type { ApiHandler } from "../index"
+import type { ApiStreamChunk } from "../transform/stream"
+import { FailoverHandler, classifyProviderError } from "../failover"
+
+const createHandler = (modelId: string, error?: unknown): ApiHandler => ({
+	createMessage: vi.fn(async function* () {
+		if (error) {
+			throw error
+		}
+
+		yield { type: "text", text: `Hello from ${modelId}` } satisfies ApiStreamChunk
+	}),
+	getModel: () => ({ id: modelId, info: { maxTokens: 1, contextWindow: 1, supportsPromptCache: false } }),
+	countTokens: vi.fn().mockResolvedValue(modelId.length),
+})
+
+const collect = async (handler: ApiHandler) => {
+	const chunks: ApiStreamChunk[] = []
+
+	for await (const chunk of handler.createMessage("system", [])) {
+		chunks.push(chunk)
+	}
+
+	return chunks
+}
+
+const rateLimited = Object.assign(new Error("Too many requests"), { status: 429 })
+
+describe("classifyProviderError", () => {
+	it("classifies errors by status, code and message", () => {
+		expect(classifyProviderError(rateLimited)).toBe("rate_limit")
+		expect(classifyProviderError({ $metadata: { httpStatusCode: 503 } })).toBe("server_error")
+		expect(classifyProviderError(Object.assign(new Error("boom"), { code: "ETIMEDOUT" }))).toBe("timeout")
+		expect(classifyProviderError(Object.assign(new Error("boom"), { code: "ECONNRESET" }))).toBe("network")
+		expect(classifyProviderError(new Error("OpenAI completion error: 529 Overloaded"))).toBe("server_error")
+		expect(classifyProviderError(Object.assign(new Error("Invalid API key"), { status: 401 }))).toBeUndefined()
+	})
+})
+
+describe("FailoverHandler", () => {
+	let handlers: Record<string, ApiHandler>
+
+	const createFailoverHandler = (configuration: Partial<ProviderSettings> = {}) =>
+		new FailoverHandler({
+			configuration: {
+				apiProvider: "anthropic",
+				failoverProfileIds: ["bedrock-id", "openrouter-id"],
+				...configuration,
+			},
+			handler: handlers.anthropic,
+			profileName: "anthropic",
+			resolveProfile: async (id) =>
+				({
+					"bedrock-id": { name: "bedrock", apiProvider: "bedrock" as const },
+					"openrouter-id": { name: "openrouter", apiProvider: "openrouter" as const },
+				})[id],
+			buildHandler: ({ apiProvider }) => handlers[apiProvider!],
+		})
+
+	beforeEach(() => {
+		FailoverHandler.resetCooldowns()
+		vi.useRealTimers()
+
+		handlers = {
+			anthropic: createHandler("claude-direct", rateLimited),
+			bedrock: createHandler("claude-bedrock"),
+			openrouter: createHandler("claude-openrouter"),
+		}
+	})
+
+	it("fails over to the next profile and reports which one served the request", async () => {
+		const handler = createFailoverHandler()
+
+		expect(await collect(handler)).toEqual([{ type: "text", text: "Hello from claude-bedrock" }])
+		expect(handler.getServedBy()).toEqual({ profileName: "bedrock", modelId: "claude-bedrock", isFailover: true })
+		expect(handler.getModel().id).toBe("claude-bedrock")
+		expect(await handler.countTokens([])).toBe("claude-bedrock".length)
+	})
+
+	it("returns the response details of the handler that served the last request", async () => {
+		handlers.bedrock = Object.assign(createHandler("claude-bedrock"), {
+			getThoughtSignature: () => "signature",
+			getEncryptedContent: () => ({ encrypted_content: "encrypted", id: "rs_1" }),
+		})
+		const handler = createFailoverHandler()
+
+		await collect(handler)
+		expect(handler.getThoughtSignature()).toBe("signature")
+		expect(handler.getEncryptedContent()).toEqual({ encrypted_content: "encrypted", id: "rs_1" })
+		expect(handler.getResponseId()).toBeUndefined()
+	})
+
+	it("skips profiles that are cooling down until the cool-down ends", async () => {
+		vi.useFakeTimers()
+
+		await collect(createFailoverHandler({ failoverCooldownSeconds: 30 }))
+		expect(handlers.anthropic.createMessage).toHaveBeenCalledTimes(1)
+
+		// The cool-down applies to every handler, e.g. other tasks.
+		const handler = createFailoverHandler({ failoverCooldownSeconds: 30 })
+		await collect(handler)
+		expect(handlers.anthropic.createMessage).toHaveBeenCalledTimes(1)
+		expect(handler.getServedBy()?.profileName).toBe("bedrock")
+
+		vi.advanceTimersByTime(30_000)
+		handlers.anthropic = createHandler("claude-direct")
+
+		const recovered = createFailoverHandler({ failoverCooldownSeconds: 30 })
+		await collect(recovered)
+		expect(recovered.getServedBy()).toEqual({
+			profileName: "anthropic",
+			modelId: "claude-direct",
+			isFailover: false,
+		})
+	})
+
+	it("only fails over on the configured error classes", async () => {
+		handlers.anthropic = createHandler("claude-direct", { status: 500, message: "Internal server error" })
+
+		await expect(collect(createFailoverHandler({ failoverErrorClasses: ["rate_limit"] }))).rejects.toMatchObject({
+			status: 500,
+		})
+		expect(handlers.bedrock.createMessage).not.toHaveBeenCalled()
+	})
+
+	it("throws the last error once every profile has failed", async () => {
+		handlers.bedrock = createHandler("claude-bedrock", rateLimited)
+		handlers.openrouter = createHandler("claude-openrouter", { status: 502, message: "Bad gateway" })
+
+		await expect(collect(createFailoverHandler())).rejects.toMatchObject({ status: 502 })
+
+		// With every profile cooling down, the chain is tried in order again.
+		handlers.anthropic = createHandler("claude-direct")
+		const handler = createFailoverHandler()
+		await collect(handler)
+		expect(handler.getServedBy()?.profileName).toBe("anthropic")
+	})
+
+	it("skips failover profiles that no longer exist", async () => {
+		const handler = createFailoverHandler({ failoverProfileIds: ["deleted-id", "openrouter-id"] })
+
+		await collect(handler)
+		expect(handler.getServedBy()?.profileName).toBe("openrouter")
+	})
+
+	it("doesn't fail over once the response has started streaming", async () => {
+		handlers.anthropic.createMessage = vi.fn(async function* () {
+			yield { type: "text", text: "Partial" } satisfies ApiStreamChunk
+			throw rateLimited
+		})
+
+		const chunks: ApiStreamChunk[] = []
+
+		await expect(async () => {
+			for await (const chunk of createFailoverHandler().createMessage("system", [])) {
+				chunks.push(chunk)
+			}
+		}).rejects.toThrow("Too many requests")
+
+		expect(chunks).toEqual([{ type: "text", text: "Partial" }])
+		expect(handlers.bedrock.createMessage).not.toHaveBeenCalled()
+	})
+})
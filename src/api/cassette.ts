@@ -0,0 +1,280 @@
+import * as path from "path"
+import * as fs from "fs/promises"
+import crypto from "crypto"
+
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type {
+	ApiHandler,
+	ApiHandlerCreateMessageMetadata,
+	ApiHandlerResponseDetails,
+	SingleCompletionHandler,
+} from "./index"
+import type { ApiStream, ApiStreamChunk } from "./transform/stream"
+import { isServedByReporter, type ServedBy, type ServedByReporter } from "./failover"
+import { safeWriteJson } from "../utils/safeWriteJson"
+
+export const CASSETTE_VERSION = 1
+
+/**
+ * - `record`: always calls the API and (re)records the response.
+ * - `replay`: only replays recorded responses and fails on a miss.
+ * - `auto`: replays recorded responses and records the missing ones.
+ */
+export type CassetteMode = "record" | "replay" | "auto"
+
+export const cassetteModes: CassetteMode[] = ["record", "replay", "auto"]
+
+export interface CassetteOptions {
+	mode: CassetteMode
+	dir: string
+	// Replaced with a placeholder in the keys so cassettes replay in other
+	// checkouts of the workspace.
+	workspacePath?: string
+}
+
+// The details the wrapped handler reported for a recorded response.
+interface ResponseDetails {
+	responseId?: string
+	encryptedContent?: { encrypted_content: string; id?: string }
+	thoughtSignature?: string
+	summary?: any[]
+	reasoningDetails?: any[]
+}
+
+interface Cassette {
+	version: number
+	modelId: string
+	recordedAt: number
+	chunks: ApiStreamChunk[]
+	responseDetails?: ResponseDetails
+}
+
+export class CassetteMissError extends Error {
+	constructor(public readonly key: string) {
+		super(`No recorded response for request ${key}; record it with the "record" or "auto" cassette mode`)
+	}
+}
+
+const getResponseDetails = (handler: ApiHandler & ApiHandlerResponseDetails): ResponseDetails => ({
+	responseId: handler.getResponseId?.(),
+	encryptedContent: handler.getEncryptedContent?.(),
+	thoughtSignature: handler.getThoughtSignature?.(),
+	summary: handler.getSummary?.(),
+	reasoningDetails: handler.getReasoningDetails?.(),
+})
+
+const isEnvironmentDetails = (block: unknown) => {
+	const text = (block as { type?: string; text?: unknown }).type === "text" && (block as { text: unknown }).text
+
+	return (
+		typeof text === "string" &&
+		text.trim().startsWith("<environment_details>") &&
+		text.trim().endsWith("</environment_details>")
+	)
+}
+
+/**
+ * Records the streamed responses of an `ApiHandler` to a directory of
+ * cassettes, one file per request, and replays them deterministically.
+ *
+ * Requests are keyed by a hash of the system prompt, the messages and the
+ * tools. Environment details are left out of the key since they contain the
+ * current time, as are message properties other than the role and content.
+ * The provider specific details of each response, e.g. thought signatures,
+ * are recorded along with it.
+ */
+export class CassetteHandler implements ApiHandler, ApiHandlerResponseDetails, ServedByReporter {
+	// Only defined if the wrapped handler supports it, like the handler itself.
+	declare readonly completePrompt?: SingleCompletionHandler["completePrompt"]
+
+	// Whether the last response was replayed rather than served by the handler.
+	private replayed = false
+	private responseDetails?: ResponseDetails
+
+	constructor(
+		private readonly handler: ApiHandler,
+		private readonly options: CassetteOptions,
+	) {
+		if ("completePrompt" in handler) {
+			this.completePrompt = (prompt) =>
+				this.completeRecordedPrompt(handler as ApiHandler & SingleCompletionHandler, prompt)
+		}
+	}
+
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		const key = this.getKey({
+			systemPrompt,
+			messages: messages.map((message) =>
+				"role" in message
+					? {
+							role: message.role,
+							content: Array.isArray(message.content)
+								? message.content.filter((block) => !isEnvironmentDetails(block))
+								: message.content,
+						}
+					: message,
+			),
+			tools: metadata?.tools ?? null,
+			toolProtocol: metadata?.toolProtocol ?? null,
+		})
+
+		yield* this.play(
+			key,
+			() => this.handler.createMessage(systemPrompt, messages, metadata),
+			() => getResponseDetails(this.handler),
+		)
+	}
+
+	private async completeRecordedPrompt(handler: SingleCompletionHandler, prompt: string): Promise<string> {
+		let text = ""
+
+		const stream = async function* (): ApiStream {
+			yield { type: "text", text: await handler.completePrompt(prompt) }
+		}
+
+		for await (const chunk of this.play(this.getKey({ prompt }), stream)) {
+			text += chunk.type === "text" ? chunk.text : ""
+		}
+
+		return text
+	}
+
+	/**
+	 * Returns the profile that served the last request, if the wrapped handler
+	 * reports it and the response wasn't replayed.
+	 */
+	getServedBy(): ServedBy | undefined {
+		return !this.replayed && isServedByReporter(this.handler) ? this.handler.getServedBy() : undefined
+	}
+
+	getResponseId() {
+		return this.responseDetails?.responseId
+	}
+
+	getEncryptedContent() {
+		return this.responseDetails?.encryptedContent
+	}
+
+	getThoughtSignature() {
+		return this.responseDetails?.thoughtSignature
+	}
+
+	getSummary() {
+		return this.responseDetails?.summary
+	}
+
+	getReasoningDetails() {
+		return this.responseDetails?.reasoningDetails
+	}
+
+	getModel() {
+		return this.handler.getModel()
+	}
+
+	countTokens(content: Array<Anthropic.Messages.ContentBlockParam>): Promise<number> {
+		return this.handler.countTokens(content)
+	}
+
+	private getKey(request: object): string {
+		let material = JSON.stringify(request)
+		const { workspacePath } = this.options
+
+		if (workspacePath) {
+			material = material.split(JSON.stringify(workspacePath).slice(1, -1)).join("<workspace>")
+		}
+
+		return crypto.createHash("sha256").update(material).digest("hex").slice(0, 32)
+	}
+
+	private async *play(
+		key: string,
+		request: () => ApiStream,
+		getRequestResponseDetails?: () => ResponseDetails,
+	): ApiStream {
+		const filePath = path.join(this.options.dir, `${key}.json`)
+		this.replayed = false
+		this.responseDetails = undefined
+
+		if (this.options.mode !== "record") {
+			const cassette = await readCassette(filePath)
+
+			if (cassette) {
+				this.replayed = true
+				this.responseDetails = cassette.responseDetails
+				yield* cassette.chunks
+				return
+			}
+
+			if (this.options.mode === "replay") {
+				throw new CassetteMissError(key)
+			}
+		}
+
+		const chunks: ApiStreamChunk[] = []
+
+		for await (const chunk of request()) {
+			chunks.push(chunk)
+			yield chunk
+		}
+
+		this.responseDetails = getRequestResponseDetails?.()
+
+		// Only complete responses are recorded.
+		await fs.mkdir(this.options.dir, { recursive: true })
+		await safeWriteJson(filePath, {
+			version: CASSETTE_VERSION,
+			modelId: this.handler.getModel().id,
+			recordedAt: Date.now(),
+			chunks,
+			responseDetails: this.responseDetails,
+		} satisfies Cassette)
+	}
+}
+
+async function readCassette(filePath: string): Promise<Cassette | undefined> {
+	let cassette: Cassette
+
+	try {
+		cassette = JSON.parse(await fs.readFile(filePath, "utf8"))
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return undefined
+		}
+
+		throw new Error(`Invalid cassette ${filePath}: ${error instanceof Error ? error.message : error}`)
+	}
+
+	if (cassette.version > CASSETTE_VERSION) {
+		throw new Error(`Cassette ${filePath} was recorded by a newer version (${cassette.version})`)
+	}
+
+	return cassette
+}
+
+/**
+ * Returns the cassette options set by the `ROO_CODE_CASSETTE_DIR` and
+ * `ROO_CODE_CASSETTE_MODE` (default `auto`) environment variables, if any.
+ */
+export function getCassetteOptionsFromEnv(
+	workspacePath?: string,
+	env: NodeJS.ProcessEnv = process.env,
+): CassetteOptions | undefined {
+	const dir = env.ROO_CODE_CASSETTE_DIR
+
+	if (!dir) {
+		return undefined
+	}
+
+	const mode = (env.ROO_CODE_CASSETTE_MODE || "auto") as CassetteMode
+
+	if (!cassetteModes.includes(mode)) {
+		throw new Error(`Invalid ROO_CODE_CASSETTE_MODE "${mode}", expected one of ${cassetteModes.join(", ")}`)
+	}
+
+	return { dir: path.resolve(dir), mode, workspacePath: workspacePath || undefined }
+}
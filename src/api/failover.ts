@@ -0,0 +1,278 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import {
+	type FailoverErrorClass,
+	type ProviderSettings,
+	DEFAULT_FAILOVER_COOLDOWN_SECONDS,
+	DEFAULT_FAILOVER_ERROR_CLASSES,
+} from "@roo-code/types"
+
+import type { ApiHandler, ApiHandlerCreateMessageMetadata, ApiHandlerResponseDetails } from "./index"
+import type { ApiStream, ApiStreamChunk } from "./transform/stream"
+
+/**
+ * Loads a profile of a failover chain by its id, or returns undefined if it
+ * no longer exists.
+ */
+export type FailoverProfileResolver = (id: string) => Promise<(ProviderSettings & { name: string }) | undefined>
+
+export interface ServedBy {
+	profileName: string
+	modelId: string
+	// Whether the request was served by a profile other than the primary one.
+	isFailover: boolean
+}
+
+/**
+ * Implemented by handlers that know which profile served their last request,
+ * including wrappers of a `FailoverHandler`.
+ */
+export interface ServedByReporter {
+	getServedBy(): ServedBy | undefined
+}
+
+export const isServedByReporter = <T extends object>(handler: T): handler is T & ServedByReporter =>
+	"getServedBy" in handler && typeof handler.getServedBy === "function"
+
+interface FailoverTarget {
+	name: string
+	handler: ApiHandler
+}
+
+export interface FailoverHandlerOptions {
+	configuration: ProviderSettings
+	handler: ApiHandler
+	profileName?: string
+	resolveProfile: FailoverProfileResolver
+	buildHandler: (configuration: ProviderSettings) => ApiHandler
+}
+
+const TIMEOUT_CODES = ["ETIMEDOUT", "ESOCKETTIMEDOUT", "UND_ERR_CONNECT_TIMEOUT", "UND_ERR_HEADERS_TIMEOUT"]
+const NETWORK_CODES = ["ECONNRESET", "ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "EPIPE", "EHOSTUNREACH"]
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null
+
+// Reads a property of an error or of one of its nested objects, e.g. `response`.
+const getField = (value: unknown, key: string): unknown => (isRecord(value) ? value[key] : undefined)
+
+/**
+ * Classifies a provider error for failover purposes, or returns undefined if
+ * retrying the request with another profile wouldn't help.
+ */
+export function classifyProviderError(error: unknown): FailoverErrorClass | undefined {
+	if (!isRecord(error)) {
+		return undefined
+	}
+
+	const status = Number(
+		error.status ??
+			error.statusCode ??
+			getField(error.response, "status") ??
+			getField(error.$metadata, "httpStatusCode") ??
+			getField(error.error, "status"),
+	)
+	const code = String(error.code ?? getField(error.cause, "code") ?? "")
+	const message = String(error.message ?? getField(error.error, "message") ?? "")
+
+	if (status === 429) {
+		return "rate_limit"
+	}
+
+	if (status >= 500 && status < 600) {
+		return "server_error"
+	}
+
+	if (status === 408 || TIMEOUT_CODES.includes(code) || error.name === "APIConnectionTimeoutError") {
+		return "timeout"
+	}
+
+	if (NETWORK_CODES.includes(code) || error.name === "APIConnectionError") {
+		return "network"
+	}
+
+	// Several providers rethrow errors with only the original message.
+	if (/\b429\b|rate.?limit|too many requests/i.test(message)) {
+		return "rate_limit"
+	}
+
+	if (/\b50[0-4]\b|overloaded|internal server error|service unavailable|bad gateway/i.test(message)) {
+		return "server_error"
+	}
+
+	if (/\btimed?[ -]?out\b/i.test(message)) {
+		return "timeout"
+	}
+
+	if (/fetch failed|socket hang up|network error/i.test(message)) {
+		return "network"
+	}
+
+	return undefined
+}
+
+/**
+ * Serves requests with the first available profile of a failover chain: the
+ * primary profile followed by its `failoverProfileIds`. A profile that fails
+ * with one of the configured error classes before streaming anything cools
+ * down, and the request moves on to the next profile. Profiles that are
+ * cooling down are only tried once every other profile has failed.
+ */
+export class FailoverHandler implements ApiHandler, ApiHandlerResponseDetails, ServedByReporter {
+	// Shared across handlers so every task avoids a profile that is cooling down.
+	private static cooldowns = new Map<string, number>()
+
+	private readonly primary: FailoverTarget
+	private readonly failoverProfileIds: string[]
+	private readonly errorClasses: FailoverErrorClass[]
+	private readonly cooldownMs: number
+	private readonly resolveProfile: FailoverProfileResolver
+	private readonly buildHandler: (configuration: ProviderSettings) => ApiHandler
+
+	private targets?: Promise<FailoverTarget[]>
+	private current: FailoverTarget
+	private servedBy?: ServedBy
+
+	constructor({ configuration, handler, profileName, resolveProfile, buildHandler }: FailoverHandlerOptions) {
+		this.primary = { name: profileName ?? configuration.apiProvider ?? "default", handler }
+		this.current = this.primary
+		this.failoverProfileIds = configuration.failoverProfileIds ?? []
+		this.errorClasses = configuration.failoverErrorClasses ?? DEFAULT_FAILOVER_ERROR_CLASSES
+		this.cooldownMs = (configuration.failoverCooldownSeconds ?? DEFAULT_FAILOVER_COOLDOWN_SECONDS) * 1000
+		this.resolveProfile = resolveProfile
+		this.buildHandler = buildHandler
+	}
+
+	public static resetCooldowns() {
+		FailoverHandler.cooldowns.clear()
+	}
+
+	private static isCoolingDown(name: string) {
+		return (FailoverHandler.cooldowns.get(name) ?? 0) > Date.now()
+	}
+
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		const targets = await this.getTargets()
+
+		const ordered = [
+			...targets.filter(({ name }) => !FailoverHandler.isCoolingDown(name)),
+			...targets.filter(({ name }) => FailoverHandler.isCoolingDown(name)),
+		]
+
+		for (const [index, target] of ordered.entries()) {
+			const stream = target.handler.createMessage(systemPrompt, messages, metadata)
+			let first: IteratorResult<ApiStreamChunk>
+
+			// Only the first chunk can fail over; once content has been
+			// streamed, errors are handled by the task.
+			try {
+				first = await stream.next()
+			} catch (error) {
+				const errorClass = classifyProviderError(error)
+
+				if (!errorClass || !this.errorClasses.includes(errorClass)) {
+					throw error
+				}
+
+				FailoverHandler.cooldowns.set(target.name, Date.now() + this.cooldownMs)
+
+				if (index === ordered.length - 1) {
+					throw error
+				}
+
+				console.warn(
+					`[FailoverHandler] ${target.name} failed with ${errorClass}, failing over to ${ordered[index + 1].name}`,
+				)
+
+				continue
+			}
+
+			FailoverHandler.cooldowns.delete(target.name)
+			this.current = target
+			this.servedBy = {
+				profileName: target.name,
+				modelId: target.handler.getModel().id,
+				isFailover: target !== this.primary,
+			}
+
+			if (!first.done) {
+				yield first.value
+				yield* stream
+			}
+
+			return
+		}
+	}
+
+	/**
+	 * Returns the profile that served the last request, if any.
+	 */
+	getServedBy(): ServedBy | undefined {
+		return this.servedBy
+	}
+
+	getModel() {
+		return this.current.handler.getModel()
+	}
+
+	// The details of the last response come from the handler that served it.
+
+	getResponseId() {
+		return this.getCurrentResponseDetails().getResponseId?.()
+	}
+
+	getEncryptedContent() {
+		return this.getCurrentResponseDetails().getEncryptedContent?.()
+	}
+
+	getThoughtSignature() {
+		return this.getCurrentResponseDetails().getThoughtSignature?.()
+	}
+
+	getSummary() {
+		return this.getCurrentResponseDetails().getSummary?.()
+	}
+
+	getReasoningDetails() {
+		return this.getCurrentResponseDetails().getReasoningDetails?.()
+	}
+
+	private getCurrentResponseDetails(): ApiHandlerResponseDetails {
+		return this.current.handler as ApiHandler & ApiHandlerResponseDetails
+	}
+
+	countTokens(content: Array<Anthropic.Messages.ContentBlockParam>): Promise<number> {
+		return this.current.handler.countTokens(content)
+	}
+
+	private getTargets(): Promise<FailoverTarget[]> {
+		this.targets ??= (async () => {
+			const targets = [this.primary]
+
+			for (const id of this.failoverProfileIds) {
+				const profile = await this.resolveProfile(id).catch(() => undefined)
+
+				if (!profile) {
+					console.warn(`[FailoverHandler] skipping missing failover profile ${id}`)
+					continue
+				}
+
+				const { name, ...configuration } = profile
+
+				if (targets.some((target) => target.name === name)) {
+					continue
+				}
+
+				// The chain of a failover profile itself is ignored.
+				targets.push({ name, handler: this.buildHandler(configuration) })
+			}
+
+			return targets
+		})()
+
+		return this.targets
+	}
+}
@@ -45,6 +45,9 @@ import {
 	BasetenHandler,
 } from "./providers"
 import { NativeOllamaHandler } from "./providers/native-ollama"
+import { FailoverHandler, type FailoverProfileResolver } from "./failover"
+import { CassetteHandler, getCassetteOptionsFromEnv } from "./cassette"
+import { getWorkspacePath } from "../utils/path"
 
 export interface SingleCompletionHandler {
 	completePrompt(prompt: string): Promise<string>
@@ -118,7 +121,54 @@ export interface ApiHandler {
 	countTokens(content: Array<Anthropic.Messages.ContentBlockParam>): Promise<number>
 }
 
-export function buildApiHandler(configuration: ProviderSettings): ApiHandler {
+/**
+ * Provider specific details of the last response, which are persisted with the
+ * assistant message and sent back on subsequent requests. Handlers that
+ * wrap another handler forward these to it.
+ */
+export interface ApiHandlerResponseDetails {
+	getResponseId?(): string | undefined
+	getEncryptedContent?(): { encrypted_content: string; id?: string } | undefined
+	getThoughtSignature?(): string | undefined
+	getSummary?(): any[] | undefined
+	getReasoningDetails?(): any[] | undefined
+}
+
+export interface BuildApiHandlerOptions {
+	/**
+	 * The name of the profile the configuration belongs to.
+	 */
+	profileName?: string
+	/**
+	 * Loads the profiles of the configuration's failover chain; without it the
+	 * chain is ignored.
+	 */
+	resolveProfile?: FailoverProfileResolver
+}
+
+export function buildApiHandler(
+	configuration: ProviderSettings,
+	{ profileName, resolveProfile }: BuildApiHandlerOptions = {},
+): ApiHandler {
+	let handler = buildProviderHandler(configuration)
+
+	if (configuration.failoverProfileIds?.length && resolveProfile) {
+		handler = new FailoverHandler({
+			configuration,
+			handler,
+			profileName,
+			resolveProfile,
+			buildHandler: buildProviderHandler,
+		})
+	}
+
+	// Set for offline end-to-end tests and eval runs.
+	const cassette = getCassetteOptionsFromEnv(getWorkspacePath())
+
+	return cassette ? new CassetteHandler(handler, cassette) : handler
+}
+
+function buildProviderHandler(configuration: ProviderSettings): ApiHandler {
 	const { apiProvider, ...options } = configuration
 
 	switch (apiProvider) {
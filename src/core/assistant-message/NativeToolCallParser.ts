@@ -367,6 +367,21 @@ export class NativeToolCallParser {
 					nativeArgs = {
 						command: partialArgs.command,
 						cwd: partialArgs.cwd,
+						background: partialArgs.background,
+					}
+				}
+				break
+
+			case "terminal_session":
+				if (partialArgs.action !== undefined) {
+					nativeArgs = {
+						action: partialArgs.action,
+						session: partialArgs.session,
+						command: partialArgs.command,
+						cwd: partialArgs.cwd,
+						input: partialArgs.input,
+						key: partialArgs.key,
+						cursor: partialArgs.cursor,
 					}
 				}
 				break
@@ -406,6 +421,10 @@ export class NativeToolCallParser {
 						coordinate: partialArgs.coordinate,
 						size: partialArgs.size,
 						text: partialArgs.text,
+						ref: partialArgs.ref,
+						selector: partialArgs.selector,
+						expression: partialArgs.expression,
+						status: partialArgs.status,
 					}
 				}
 				break
@@ -445,6 +464,28 @@ export class NativeToolCallParser {
 				}
 				break
 
+			case "lookup_symbol":
+				if (partialArgs.action !== undefined || partialArgs.path !== undefined) {
+					nativeArgs = {
+						action: partialArgs.action,
+						path: partialArgs.path,
+						line: partialArgs.line,
+						symbol: partialArgs.symbol,
+					}
+				}
+				break
+
+			case "rename_symbol":
+				if (partialArgs.path !== undefined) {
+					nativeArgs = {
+						path: partialArgs.path,
+						line: partialArgs.line,
+						symbol: partialArgs.symbol,
+						new_name: partialArgs.new_name,
+					}
+				}
+				break
+
 			case "run_slash_command":
 				if (partialArgs.command !== undefined) {
 					nativeArgs = {
@@ -592,6 +633,21 @@ export class NativeToolCallParser {
 						nativeArgs = {
 							command: args.command,
 							cwd: args.cwd,
+							background: args.background ?? undefined,
+						} as NativeArgsFor<TName>
+					}
+					break
+
+				case "terminal_session":
+					if (args.action !== undefined) {
+						nativeArgs = {
+							action: args.action,
+							session: args.session ?? undefined,
+							command: args.command ?? undefined,
+							cwd: args.cwd ?? undefined,
+							input: args.input ?? undefined,
+							key: args.key ?? undefined,
+							cursor: args.cursor ?? undefined,
 						} as NativeArgsFor<TName>
 					}
 					break
@@ -631,6 +687,10 @@ export class NativeToolCallParser {
 							coordinate: args.coordinate,
 							size: args.size,
 							text: args.text,
+							ref: args.ref,
+							selector: args.selector,
+							expression: args.expression,
+							status: args.status,
 						} as NativeArgsFor<TName>
 					}
 					break
@@ -670,6 +730,38 @@ export class NativeToolCallParser {
 					}
 					break
 
+				case "lookup_symbol":
+					if (
+						args.action !== undefined &&
+						args.path !== undefined &&
+						args.line !== undefined &&
+						args.symbol !== undefined
+					) {
+						nativeArgs = {
+							action: args.action,
+							path: args.path,
+							line: args.line,
+							symbol: args.symbol,
+						} as NativeArgsFor<TName>
+					}
+					break
+
+				case "rename_symbol":
+					if (
+						args.path !== undefined &&
+						args.line !== undefined &&
+						args.symbol !== undefined &&
+						args.new_name !== undefined
+					) {
+						nativeArgs = {
+							path: args.path,
+							line: args.line,
+							symbol: args.symbol,
+							new_name: args.new_name,
+						} as NativeArgsFor<TName>
+					}
+					break
+
 				case "run_slash_command":
 					if (args.command !== undefined) {
 						nativeArgs = {
@@ -6,7 +6,13 @@ import type { ToolName, ClineAsk, ToolProgressStatus } from "@roo-code/types"
 import { TelemetryService } from "@roo-code/telemetry"
 
 import { defaultModeSlug, getModeBySlug } from "../../shared/modes"
-import type { ToolParamName, ToolResponse, ToolUse, McpToolUse } from "../../shared/tools"
+import {
+	type ToolParamName,
+	type ToolResponse,
+	type ToolUse,
+	type McpToolUse,
+	toolParamNames,
+} from "../../shared/tools"
 import { Package } from "../../shared/package"
 
 import { fetchInstructionsTool } from "../tools/FetchInstructionsTool"
@@ -22,6 +28,9 @@ import { listCodeDefinitionNamesTool } from "../tools/ListCodeDefinitionNamesToo
 import { searchFilesTool } from "../tools/SearchFilesTool"
 import { browserActionTool } from "../tools/BrowserActionTool"
 import { executeCommandTool } from "../tools/ExecuteCommandTool"
+import { terminalSessionTool } from "../tools/TerminalSessionTool"
+import { lookupSymbolTool } from "../tools/LookupSymbolTool"
+import { renameSymbolTool } from "../tools/RenameSymbolTool"
 import { useMcpToolTool } from "../tools/UseMcpToolTool"
 import { accessMcpResourceTool } from "../tools/accessMcpResourceTool"
 import { askFollowupQuestionTool } from "../tools/AskFollowupQuestionTool"
@@ -338,6 +347,8 @@ export async function presentAssistantMessage(cline: Task) {
 				switch (block.name) {
 					case "execute_command":
 						return `[${block.name} for '${block.params.command}']`
+					case "terminal_session":
+						return `[${block.name} ${block.params.action ?? ""} '${block.params.session ?? ""}']`
 					case "read_file":
 						// Check if this model should use the simplified description
 						const modelId = cline.api.getModel().id
@@ -386,6 +397,10 @@ export async function presentAssistantMessage(cline: Task) {
 						return `[${block.name} for '${block.params.path}']`
 					case "list_code_definition_names":
 						return `[${block.name} for '${block.params.path}']`
+					case "lookup_symbol":
+						return `[${block.name} ${block.params.action ?? ""} for '${block.params.symbol ?? ""}']`
+					case "rename_symbol":
+						return `[${block.name} '${block.params.symbol ?? ""}' to '${block.params.new_name ?? ""}']`
 					case "browser_action":
 						return `[${block.name} for '${block.params.action}']`
 					case "use_mcp_tool":
@@ -472,6 +487,9 @@ export async function presentAssistantMessage(cline: Task) {
 			// Track if we've already pushed a tool result for this tool call (native protocol only)
 			let hasToolResult = false
 
+			// Tool results, for the postToolUse hooks.
+			const toolResults: string[] = []
+
 			// Determine protocol by checking if this tool call has an ID.
 			// Native protocol tool calls ALWAYS have an ID (set when parsed from tool_call chunks).
 			// XML protocol tool calls NEVER have an ID (parsed from XML text).
@@ -483,6 +501,12 @@ export async function presentAssistantMessage(cline: Task) {
 			const isMultipleNativeToolCallsEnabled = false
 
 			const pushToolResult = (content: ToolResponse) => {
+				toolResults.push(
+					typeof content === "string"
+						? content
+						: content.map((item) => (item.type === "text" ? item.text : "")).join("\n"),
+				)
+
 				if (toolProtocol === TOOL_PROTOCOL.NATIVE) {
 					// For native protocol, only allow ONE tool_result per tool call
 					if (hasToolResult) {
@@ -743,6 +767,43 @@ export async function presentAssistantMessage(cline: Task) {
 				}
 			}
 
+			// preToolUse hooks can block the tool use or replace its parameters.
+			if (!block.partial) {
+				const { blockReason, params } = await cline.runLifecycleHooks(
+					"preToolUse",
+					{ tool: block.name, params: block.nativeArgs ?? block.params },
+					block.name,
+				)
+
+				if (blockReason !== undefined) {
+					await cline.say("error", `A hook blocked ${block.name}: ${blockReason}`)
+					pushToolResult(
+						formatResponse.toolError(`This tool use was blocked by a hook: ${blockReason}`, toolProtocol),
+					)
+					break
+				}
+
+				if (params) {
+					const invalidReason = getInvalidHookParamsReason(block, params)
+
+					if (invalidReason !== undefined) {
+						await cline.say(
+							"error",
+							`A hook returned invalid parameters for ${block.name}: ${invalidReason}`,
+						)
+						pushToolResult(
+							formatResponse.toolError(
+								`This tool use was blocked because a hook returned invalid parameters: ${invalidReason}`,
+								toolProtocol,
+							),
+						)
+						break
+					}
+
+					applyHookParams(block, params)
+				}
+			}
+
 			switch (block.name) {
 				case "write_to_file":
 					await checkpointSaveAndMark(cline)
@@ -885,6 +946,25 @@ export async function presentAssistantMessage(cline: Task) {
 						toolProtocol,
 					})
 					break
+				case "lookup_symbol":
+					await lookupSymbolTool.handle(cline, block as ToolUse<"lookup_symbol">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+						toolProtocol,
+					})
+					break
+				case "rename_symbol":
+					await checkpointSaveAndMark(cline)
+					await renameSymbolTool.handle(cline, block as ToolUse<"rename_symbol">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+						toolProtocol,
+					})
+					break
 				case "search_files":
 					await searchFilesTool.handle(cline, block as ToolUse<"search_files">, {
 						askApproval,
@@ -913,6 +993,15 @@ export async function presentAssistantMessage(cline: Task) {
 						toolProtocol,
 					})
 					break
+				case "terminal_session":
+					await terminalSessionTool.handle(cline, block as ToolUse<"terminal_session">, {
+						askApproval,
+						handleError,
+						pushToolResult,
+						removeClosingTag,
+						toolProtocol,
+					})
+					break
 				case "use_mcp_tool":
 					await useMcpToolTool.handle(cline, block as ToolUse<"use_mcp_tool">, {
 						askApproval,
@@ -997,6 +1086,14 @@ export async function presentAssistantMessage(cline: Task) {
 					break
 			}
 
+			if (!block.partial) {
+				await cline.runLifecycleHooks(
+					"postToolUse",
+					{ tool: block.name, params: block.nativeArgs ?? block.params, result: toolResults.join("\n") },
+					block.name,
+				)
+			}
+
 			break
 	}
 
@@ -1055,6 +1152,55 @@ export async function presentAssistantMessage(cline: Task) {
 	}
 }
 
+const isToolParamName = (name: string): name is ToolParamName => (toolParamNames as readonly string[]).includes(name)
+
+const getValueKind = (value: unknown) => (value === null ? "null" : Array.isArray(value) ? "array" : typeof value)
+
+/**
+ * Checks the parameters that preToolUse hooks replaced: each must be a
+ * parameter of the tool with a scalar value, or, for native tool calls, a
+ * value of the same kind as the one it replaces.
+ *
+ * @returns Why the parameters are invalid, or undefined if they are valid
+ */
+function getInvalidHookParamsReason(block: ToolUse, params: Record<string, unknown>): string | undefined {
+	const nativeArgs = block.nativeArgs as Record<string, unknown> | undefined
+
+	for (const [name, value] of Object.entries(params)) {
+		if (!isToolParamName(name) && !(nativeArgs && name in nativeArgs)) {
+			return `"${name}" is not a tool parameter`
+		}
+
+		const current = nativeArgs?.[name]
+		const kind = getValueKind(value)
+
+		if (current !== undefined && current !== null) {
+			if (kind !== getValueKind(current)) {
+				return `"${name}" must be of type ${getValueKind(current)}, not ${kind}`
+			}
+		} else if (!["string", "number", "boolean"].includes(kind)) {
+			return `"${name}" must be a string, number or boolean, not ${kind}`
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Applies the parameters replaced by preToolUse hooks, once validated with
+ * `getInvalidHookParamsReason`, to both the XML (string) and native
+ * parameters of a tool use.
+ */
+function applyHookParams(block: ToolUse, params: Record<string, unknown>) {
+	for (const [name, value] of Object.entries(params)) {
+		block.params[name as ToolParamName] = typeof value === "string" ? value : JSON.stringify(value)
+	}
+
+	if (block.nativeArgs) {
+		block.nativeArgs = { ...block.nativeArgs, ...params } as ToolUse["nativeArgs"]
+	}
+}
+
 /**
  * save checkpoint and mark done in the current streaming task.
  * @param task The Task instance to checkpoint save and mark.
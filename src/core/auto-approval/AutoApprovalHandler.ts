@@ -1,4 +1,4 @@
-import { GlobalState, ClineMessage, ClineAsk } from "@roo-code/types"
+import { GlobalState, ClineMessage, ClineAsk, TaskBudgetStatus } from "@roo-code/types"
 
 import { getApiMetrics } from "../../shared/getApiMetrics"
 import { ClineAskResponse } from "../../shared/WebviewMessage"
@@ -6,7 +6,7 @@ import { ClineAskResponse } from "../../shared/WebviewMessage"
 export interface AutoApprovalResult {
 	shouldProceed: boolean
 	requiresApproval: boolean
-	approvalType?: "requests" | "cost"
+	approvalType?: "requests" | "cost" | "budget"
 	approvalCount?: number | string
 }
 
@@ -134,6 +134,39 @@ export class AutoApprovalHandler {
 		return { shouldProceed: true, requiresApproval: false }
 	}
 
+	/**
+	 * Check if the task budget is exhausted. Unlike the auto-approval limits this is a
+	 * hard stop: the task stays halted on the ask until the budget has been raised, and
+	 * approving it without doing so just asks again.
+	 */
+	async checkBudgetLimits(
+		getBudgetStatus: () => Promise<TaskBudgetStatus | undefined>,
+		askForApproval: (
+			type: ClineAsk,
+			data: string,
+		) => Promise<{ response: ClineAskResponse; text?: string; images?: string[] }>,
+		onBudgetExceeded?: (status: TaskBudgetStatus) => void,
+	): Promise<AutoApprovalResult> {
+		let status = await getBudgetStatus()
+
+		while (status?.exceeded) {
+			onBudgetExceeded?.(status)
+
+			const { response } = await askForApproval(
+				"auto_approval_max_req_reached",
+				JSON.stringify({ type: "budget", ...status.exceeded }),
+			)
+
+			if (response !== "yesButtonClicked") {
+				return { shouldProceed: false, requiresApproval: true, approvalType: "budget" }
+			}
+
+			status = await getBudgetStatus()
+		}
+
+		return { shouldProceed: true, requiresApproval: false }
+	}
+
 	/**
 	 * Reset the tracking (typically called when starting a new task)
 	 */
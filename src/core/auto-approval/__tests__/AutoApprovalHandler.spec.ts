@@ -1,4 +1,4 @@
-import { GlobalState, ClineMessage } from "@roo-code/types"
+import { GlobalState, ClineMessage, TaskBudgetStatus } from "@roo-code/types"
 
 import { AutoApprovalHandler } from "../AutoApprovalHandler"
 
@@ -297,6 +297,53 @@ describe("AutoApprovalHandler", () => {
 		})
 	})
 
+	describe("checkBudgetLimits", () => {
+		const status = (exceeded?: TaskBudgetStatus["exceeded"]): TaskBudgetStatus => ({
+			task: {
+				limits: { maxCost: 1 },
+				usage: { cost: exceeded ? 1.5 : 0.5, inputTokens: 0, outputTokens: 0, durationMs: 0 },
+			},
+			trees: [],
+			exceeded,
+		})
+		const exceeded = { scope: "task" as const, dimension: "cost" as const, limit: 1, used: 1.5 }
+
+		it("should proceed when the budget is not exhausted", async () => {
+			const result = await handler.checkBudgetLimits(async () => status(), mockAskForApproval)
+
+			expect(result).toEqual({ shouldProceed: true, requiresApproval: false })
+			expect(mockAskForApproval).not.toHaveBeenCalled()
+		})
+
+		it("should keep asking until the budget has been raised", async () => {
+			const getBudgetStatus = vi
+				.fn()
+				.mockResolvedValueOnce(status(exceeded))
+				.mockResolvedValueOnce(status(exceeded))
+				.mockResolvedValueOnce(status())
+			const onBudgetExceeded = vi.fn()
+			mockAskForApproval.mockResolvedValue({ response: "yesButtonClicked" })
+
+			const result = await handler.checkBudgetLimits(getBudgetStatus, mockAskForApproval, onBudgetExceeded)
+
+			expect(result.shouldProceed).toBe(true)
+			expect(mockAskForApproval).toHaveBeenCalledTimes(2)
+			expect(mockAskForApproval).toHaveBeenCalledWith(
+				"auto_approval_max_req_reached",
+				JSON.stringify({ type: "budget", ...exceeded }),
+			)
+			expect(onBudgetExceeded).toHaveBeenCalledTimes(2)
+		})
+
+		it("should halt when the user does not continue", async () => {
+			mockAskForApproval.mockResolvedValue({ response: "noButtonClicked" })
+
+			const result = await handler.checkBudgetLimits(async () => status(exceeded), mockAskForApproval)
+
+			expect(result).toEqual({ shouldProceed: false, requiresApproval: true, approvalType: "budget" })
+		})
+	})
+
 	describe("resetRequestCount", () => {
 		it("should reset tracking", async () => {
 			mockState.allowedMaxRequests = 5
@@ -0,0 +1,100 @@
+// npx vitest core/auto-approval/__tests__/budget.spec.ts
+
+import type { HistoryItem } from "@roo-code/types"
+
+import { computeTaskBudgetStatus, hasTaskBudget, resolveTaskBudget } from "../budget"
+
+const historyItem = (id: string, overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+	id,
+	number: 1,
+	ts: 0,
+	task: id,
+	tokensIn: 0,
+	tokensOut: 0,
+	totalCost: 0,
+	...overrides,
+})
+
+describe("resolveTaskBudget", () => {
+	it("should pick the most restrictive value for every limit", () => {
+		const budget = resolveTaskBudget(
+			{ task: { maxCost: 5, maxInputTokens: 1000 } },
+			{ task: { maxCost: 2 }, tree: { maxDurationMs: 60_000 } },
+			undefined,
+		)
+
+		expect(budget).toEqual({ task: { maxCost: 2, maxInputTokens: 1000 }, tree: { maxDurationMs: 60_000 } })
+	})
+
+	it("should report when no limits are configured", () => {
+		expect(hasTaskBudget(resolveTaskBudget(undefined, { task: {} }))).toBe(false)
+		expect(hasTaskBudget(resolveTaskBudget({ tree: { maxCost: 0 } }))).toBe(true)
+	})
+})
+
+describe("computeTaskBudgetStatus", () => {
+	const usage = { cost: 0.5, inputTokens: 100, outputTokens: 50, durationMs: 10 }
+
+	it("should return undefined when no budget applies", () => {
+		expect(computeTaskBudgetStatus({ taskId: "a", budget: {}, usage, taskHistory: [] })).toBeUndefined()
+	})
+
+	it("should flag the task scope when a task limit is reached", () => {
+		const status = computeTaskBudgetStatus({
+			taskId: "a",
+			budget: { task: { maxOutputTokens: 50 } },
+			usage,
+			taskHistory: [],
+		})
+
+		expect(status?.task.usage).toEqual(usage)
+		expect(status?.exceeded).toEqual({ scope: "task", dimension: "outputTokens", limit: 50, used: 50 })
+	})
+
+	it("should enforce tree budgets of ancestors using the task history", () => {
+		const taskHistory = [
+			historyItem("root", {
+				totalCost: 1,
+				budget: { limits: { tree: { maxCost: 2 } }, startedAt: 0, elapsedMs: 20 },
+			}),
+			historyItem("sibling", {
+				parentTaskId: "root",
+				totalCost: 0.75,
+				budget: { limits: {}, startedAt: 0, elapsedMs: 5 },
+			}),
+			historyItem("child", { parentTaskId: "root", totalCost: 0.1 }),
+			historyItem("unrelated", { totalCost: 10 }),
+		]
+
+		const status = computeTaskBudgetStatus({
+			taskId: "child",
+			parentTaskId: "root",
+			budget: {},
+			usage: { cost: 0.3, inputTokens: 0, outputTokens: 0, durationMs: 10 },
+			taskHistory,
+		})
+
+		// The child's live usage replaces its stale history entry, and the tree's
+		// duration is the time its tasks were running.
+		expect(status?.trees).toEqual([
+			{
+				rootTaskId: "root",
+				limits: { maxCost: 2 },
+				usage: { cost: 2.05, inputTokens: 0, outputTokens: 0, durationMs: 35 },
+			},
+		])
+		expect(status?.exceeded).toMatchObject({ scope: "tree", rootTaskId: "root", dimension: "cost" })
+	})
+
+	it("should include the task's own tree budget", () => {
+		const status = computeTaskBudgetStatus({
+			taskId: "root",
+			budget: { tree: { maxInputTokens: 1000 } },
+			usage,
+			taskHistory: [historyItem("child", { parentTaskId: "root", tokensIn: 400 })],
+		})
+
+		expect(status?.trees[0].usage.inputTokens).toBe(500)
+		expect(status?.exceeded).toBeUndefined()
+	})
+})
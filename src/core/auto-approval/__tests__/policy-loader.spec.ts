@@ -0,0 +1,111 @@
+// npx vitest core/auto-approval/__tests__/policy-loader.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+import * as vscode from "vscode"
+
+import { MdmService } from "../../../services/mdm/MdmService"
+import { loadApprovalPolicies } from "../policy-loader"
+
+let globalRooDirectory: string
+
+vitest.mock("../../../services/roo-config", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../../../services/roo-config")>()),
+	getGlobalRooDirectory: () => globalRooDirectory,
+}))
+
+vitest.mock("vscode", () => ({ workspace: { isTrusted: true } }))
+
+vitest.mock("../../../services/mdm/MdmService", () => ({
+	MdmService: {
+		hasInstance: vitest.fn().mockReturnValue(false),
+		getInstance: vitest.fn(),
+	},
+}))
+
+describe("loadApprovalPolicies", () => {
+	let tmpDir: string
+	let cwd: string
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "roo-approval-policy-"))
+		cwd = path.join(tmpDir, "project")
+		globalRooDirectory = path.join(tmpDir, "home", ".roo")
+		await fs.mkdir(path.join(cwd, ".roo"), { recursive: true })
+		await fs.mkdir(globalRooDirectory, { recursive: true })
+		vitest.mocked(MdmService.hasInstance).mockReturnValue(false)
+		;(vscode.workspace as { isTrusted: boolean }).isTrusted = true
+	})
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true })
+	})
+
+	it("should load project rules before global rules", async () => {
+		await fs.writeFile(
+			path.join(cwd, ".roo", "approval-policy.yaml"),
+			"dryRun: true\nrules:\n  - id: project-rule\n    decision: deny\n    match:\n      commands: [rm]\n",
+		)
+		await fs.writeFile(
+			path.join(globalRooDirectory, "approval-policy.yaml"),
+			"rules:\n  - id: global-rule\n    decision: allow\n",
+		)
+
+		const policies = await loadApprovalPolicies(cwd)
+
+		expect(policies.map((p) => [p.source, p.dryRun, p.rules[0].id])).toEqual([
+			["project", true, "project-rule"],
+			["global", false, "global-rule"],
+		])
+	})
+
+	it("should return no policies when no files exist", async () => {
+		expect(await loadApprovalPolicies(cwd)).toEqual([])
+	})
+
+	it("should skip invalid policy files", async () => {
+		const consoleSpy = vitest.spyOn(console, "error").mockImplementation(() => {})
+		await fs.writeFile(path.join(cwd, ".roo", "approval-policy.yaml"), "rules:\n  - decision: maybe\n")
+
+		expect(await loadApprovalPolicies(cwd)).toEqual([])
+		expect(consoleSpy).toHaveBeenCalled()
+		consoleSpy.mockRestore()
+	})
+
+	it("should put managed rules first and honor exclusive managed policies", async () => {
+		await fs.writeFile(path.join(cwd, ".roo", "approval-policy.yaml"), "rules:\n  - decision: allow\n")
+		vitest.mocked(MdmService.hasInstance).mockReturnValue(true)
+		const getApprovalPolicy = vitest.fn().mockReturnValue({ rules: [{ id: "managed", decision: "deny" }] })
+		vitest.mocked(MdmService.getInstance).mockReturnValue({ getApprovalPolicy } as any)
+
+		expect((await loadApprovalPolicies(cwd)).map((p) => p.source)).toEqual(["managed", "project"])
+
+		getApprovalPolicy.mockReturnValue({ exclusive: true, rules: [{ id: "managed", decision: "deny" }] })
+		expect((await loadApprovalPolicies(cwd)).map((p) => p.source)).toEqual(["managed"])
+	})
+	it("should only load project policies in trusted workspaces", async () => {
+		await fs.writeFile(path.join(cwd, ".roo", "approval-policy.yaml"), "rules:\n  - decision: ask\n")
+		await fs.writeFile(path.join(globalRooDirectory, "approval-policy.yaml"), "rules:\n  - decision: deny\n")
+		;(vscode.workspace as { isTrusted: boolean }).isTrusted = false
+
+		expect((await loadApprovalPolicies(cwd)).map((p) => p.source)).toEqual(["global"])
+	})
+
+	it("should reload policy files only when they change", async () => {
+		const filePath = path.join(globalRooDirectory, "approval-policy.yaml")
+		const mtime = new Date("2025-01-01T00:00:00Z")
+		await fs.writeFile(filePath, "rules:\n  - id: first\n    decision: deny\n")
+		await fs.utimes(filePath, mtime, mtime)
+
+		expect((await loadApprovalPolicies(cwd))[0].rules[0].id).toBe("first")
+
+		// Same size and modification time: the cached policy is reused.
+		await fs.writeFile(filePath, "rules:\n  - id: other\n    decision: deny\n")
+		await fs.utimes(filePath, mtime, mtime)
+		expect((await loadApprovalPolicies(cwd))[0].rules[0].id).toBe("first")
+
+		await fs.writeFile(filePath, "rules:\n  - id: second-rule\n    decision: deny\n")
+		expect((await loadApprovalPolicies(cwd))[0].rules[0].id).toBe("second-rule")
+	})
+})
@@ -0,0 +1,256 @@
+// npx vitest core/auto-approval/__tests__/policy.spec.ts
+
+import type { ApprovalPolicyRule } from "@roo-code/types"
+
+import { checkAutoApproval } from "../index"
+import {
+	type LoadedApprovalPolicy,
+	buildApprovalPolicyRequest,
+	evaluateApprovalPolicy,
+	explainApprovalPolicyEvaluation,
+} from "../policy"
+
+const policy = (
+	rules: ApprovalPolicyRule[],
+	source: LoadedApprovalPolicy["source"] = "global",
+	dryRun = false,
+): LoadedApprovalPolicy => ({ source, dryRun, rules, filePath: `/${source}/approval-policy.yaml` })
+
+const toolAsk = (tool: Record<string, unknown>) => JSON.stringify(tool)
+
+describe("buildApprovalPolicyRequest", () => {
+	it("should extract paths from single and batched tool asks", () => {
+		const request = buildApprovalPolicyRequest({
+			ask: "tool",
+			text: toolAsk({
+				tool: "readFile",
+				batchFiles: [
+					{ path: "src/a.ts", key: "a", lineSnippet: "" },
+					{ path: "/etc/hosts", key: "b", lineSnippet: "", isOutsideWorkspace: true },
+				],
+			}),
+			mode: "code",
+		})
+
+		expect(request).toMatchObject({
+			tool: "readFile",
+			mode: "code",
+			paths: ["src/a.ts", "/etc/hosts"],
+			isOutsideWorkspace: true,
+		})
+	})
+
+	it("should split commands into sub-commands", () => {
+		const request = buildApprovalPolicyRequest({ ask: "command", text: "npm test && git status" })
+		expect(request?.commands).toEqual(["npm test", "git status"])
+	})
+
+	it("should extract MCP server and tool names", () => {
+		const request = buildApprovalPolicyRequest({
+			ask: "use_mcp_server",
+			text: JSON.stringify({ type: "use_mcp_tool", serverName: "github", toolName: "create_issue" }),
+		})
+		expect(request).toMatchObject({ mcpServer: "github", mcpTool: "create_issue" })
+	})
+
+	it("should ignore asks that are not governed by policy", () => {
+		expect(buildApprovalPolicyRequest({ ask: "followup", text: "{}" })).toBeUndefined()
+		expect(buildApprovalPolicyRequest({ ask: "tool", text: "not json" })).toBeUndefined()
+	})
+})
+
+describe("evaluateApprovalPolicy", () => {
+	const commandRequest = (text: string) => buildApprovalPolicyRequest({ ask: "command", text })!
+
+	it("should let the first matching rule win across sources", () => {
+		const evaluation = evaluateApprovalPolicy(
+			[
+				policy([{ id: "no-push", decision: "deny", match: { commands: ["git push"] } }], "managed"),
+				policy([{ id: "git", decision: "allow", match: { commands: ["git"] } }]),
+			],
+			commandRequest("git push origin main"),
+		)
+
+		expect(evaluation).toMatchObject({ decision: "deny", source: "managed", ruleLabel: 'managed rule "no-push"' })
+	})
+
+	it("should require every sub-command to match allow rules", () => {
+		const rules = [policy([{ decision: "allow", match: { commands: ["npm test"] } }])]
+
+		expect(evaluateApprovalPolicy(rules, commandRequest("npm test")).decision).toBe("allow")
+		expect(evaluateApprovalPolicy(rules, commandRequest("npm test && rm -rf dist")).decision).toBeUndefined()
+	})
+
+	it("should trigger deny rules on any sub-command", () => {
+		const rules = [policy([{ decision: "deny", match: { commands: ["rm"] } }])]
+		expect(evaluateApprovalPolicy(rules, commandRequest("npm test && rm -rf dist")).decision).toBe("deny")
+	})
+
+	it("should never allow commands with dangerous substitutions", () => {
+		const rules = [policy([{ decision: "allow", match: { commands: ["echo"] } }])]
+		expect(evaluateApprovalPolicy(rules, commandRequest('echo "${var@P}"')).decision).toBeUndefined()
+	})
+
+	it("should match tools, modes and path globs", () => {
+		const rules = [
+			policy([
+				{
+					decision: "allow",
+					match: { tools: ["appliedDiff"], modes: ["code"], paths: ["src/**/*.ts"] },
+				},
+			]),
+		]
+		const request = (filePath: string, mode = "code") =>
+			buildApprovalPolicyRequest({ ask: "tool", text: toolAsk({ tool: "appliedDiff", path: filePath }), mode })!
+
+		expect(evaluateApprovalPolicy(rules, request("src/app.ts")).decision).toBe("allow")
+		expect(evaluateApprovalPolicy(rules, request("./src/app.ts")).decision).toBe("allow")
+		expect(evaluateApprovalPolicy(rules, request("src/config/secrets.env")).decision).toBeUndefined()
+		expect(evaluateApprovalPolicy(rules, request("docs/readme.md")).decision).toBeUndefined()
+		expect(evaluateApprovalPolicy(rules, request("src/app.ts", "architect")).decision).toBeUndefined()
+	})
+
+	it("should not match path globs against files outside the workspace", () => {
+		const rules = [policy([{ decision: "allow", match: { paths: ["**"] } }])]
+		const request = buildApprovalPolicyRequest({
+			ask: "tool",
+			text: toolAsk({ tool: "readFile", path: "../other/file.ts", isOutsideWorkspace: true }),
+		})!
+
+		expect(evaluateApprovalPolicy(rules, request).decision).toBeUndefined()
+	})
+
+	it("should match MCP servers and outside-workspace status", () => {
+		const mcpRequest = buildApprovalPolicyRequest({
+			ask: "use_mcp_server",
+			text: JSON.stringify({ type: "use_mcp_tool", serverName: "github", toolName: "create_issue" }),
+		})!
+		const outsideRequest = buildApprovalPolicyRequest({
+			ask: "tool",
+			text: toolAsk({ tool: "readFile", path: "/etc/hosts", isOutsideWorkspace: true }),
+		})!
+
+		const rules = [
+			policy([
+				{ decision: "ask", match: { mcpServers: ["github"], mcpTools: ["create_*", "create_issue"] } },
+				{ decision: "deny", match: { outsideWorkspace: true } },
+			]),
+		]
+
+		expect(evaluateApprovalPolicy(rules, mcpRequest).decision).toBe("ask")
+		expect(evaluateApprovalPolicy(rules, outsideRequest).decision).toBe("deny")
+	})
+
+	it("should explain which rule decided and why earlier rules were skipped", () => {
+		const request = commandRequest("git status")
+		const evaluation = evaluateApprovalPolicy(
+			[
+				policy([
+					{ id: "tests", decision: "allow", match: { commands: ["npm test"] } },
+					{ id: "git", decision: "allow", description: "Read-only git", match: { commands: ["git status"] } },
+				]),
+			],
+			request,
+		)
+
+		const explanation = explainApprovalPolicyEvaluation(evaluation, request)
+
+		expect(explanation).toContain('global rule "git" in /global/approval-policy.yaml decided allow (Read-only git)')
+		expect(explanation).toContain('global rule "tests": skipped (commands [git status] do not match [npm test])')
+	})
+
+	it("should skip allow rules of project policies", () => {
+		const request = commandRequest("git status")
+		const evaluation = evaluateApprovalPolicy(
+			[policy([{ decision: "allow", match: { commands: ["git"] } }], "project")],
+			request,
+		)
+
+		expect(evaluation.decision).toBeUndefined()
+		expect(evaluation.trace).toEqual(["project rule #1: skipped (project policies can only deny or ask)"])
+	})
+
+	it("should only allow protected files and targets outside the workspace when rules opt in", () => {
+		const request = (tool: Record<string, unknown>) =>
+			buildApprovalPolicyRequest({ ask: "tool", text: toolAsk(tool) })!
+		const protectedRequest = request({ tool: "editedExistingFile", path: ".roorules", isProtected: true })
+		const outsideRequest = request({ tool: "readFile", path: "/etc/hosts", isOutsideWorkspace: true })
+
+		const anyTool = [policy([{ decision: "allow", match: { tools: ["*"] } }])]
+		expect(evaluateApprovalPolicy(anyTool, protectedRequest).decision).toBeUndefined()
+		expect(evaluateApprovalPolicy(anyTool, outsideRequest).decision).toBeUndefined()
+
+		const optedIn = [
+			policy([
+				{ decision: "allow", match: { protected: true } },
+				{ decision: "allow", match: { outsideWorkspace: true } },
+			]),
+		]
+		expect(evaluateApprovalPolicy(optedIn, protectedRequest).decision).toBe("allow")
+		expect(evaluateApprovalPolicy(optedIn, outsideRequest).decision).toBe("allow")
+	})
+})
+
+describe("checkAutoApproval with policies", () => {
+	const state = { autoApprovalEnabled: true, alwaysAllowExecute: true, allowedCommands: ["npm"], mode: "code" }
+
+	it("should enforce deny and ask rules even without auto-approval", async () => {
+		const policies = [policy([{ decision: "deny", match: { commands: ["npm publish"] } }])]
+
+		const result = await checkAutoApproval({
+			state: { ...state, autoApprovalEnabled: false },
+			ask: "command",
+			text: "npm publish",
+			policies,
+		})
+
+		expect(result.decision).toBe("deny")
+		expect(result.policy?.evaluation.decision).toBe("deny")
+	})
+
+	it("should only approve allow rules while auto-approval is enabled", async () => {
+		const policies = [policy([{ decision: "allow", match: { commands: ["make"] } }])]
+
+		expect((await checkAutoApproval({ state, ask: "command", text: "make", policies })).decision).toBe("approve")
+		expect(
+			(
+				await checkAutoApproval({
+					state: { ...state, autoApprovalEnabled: false },
+					ask: "command",
+					text: "make",
+					policies,
+				})
+			).decision,
+		).toBe("ask")
+	})
+
+	it("should deny commands matching the denied commands even when a rule allows them", async () => {
+		const policies = [policy([{ decision: "allow", match: { commands: ["git"] } }])]
+		const result = await checkAutoApproval({
+			state: { ...state, deniedCommands: ["git push"] },
+			ask: "command",
+			text: "git push --force",
+			policies,
+		})
+
+		expect(result.decision).toBe("deny")
+	})
+
+	it("should fall back to the auto-approval settings when no rule matches", async () => {
+		const policies = [policy([{ decision: "deny", match: { commands: ["rm"] } }])]
+		const result = await checkAutoApproval({ state, ask: "command", text: "npm test", policies })
+
+		expect(result.decision).toBe("approve")
+		expect(result.policy?.explanation).toContain("no rule matched")
+	})
+
+	it("should not enforce dry-run rules", async () => {
+		const policies = [policy([{ decision: "deny", match: { commands: ["npm"] } }], "project", true)]
+		const result = await checkAutoApproval({ state, ask: "command", text: "npm test", policies })
+
+		expect(result.decision).toBe("approve")
+		expect(result.policy?.explanation).toContain(
+			"dry run: project rule #1 in /project/approval-policy.yaml would deny",
+		)
+	})
+})
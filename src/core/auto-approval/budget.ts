@@ -0,0 +1,198 @@
+import type {
+	HistoryItem,
+	TaskBudget,
+	TaskBudgetDimension,
+	TaskBudgetLimits,
+	TaskBudgetStatus,
+	TaskBudgetUsage,
+} from "@roo-code/types"
+
+// Use epsilon for floating-point comparison of costs to avoid precision issues.
+const COST_EPSILON = 0.0001
+
+const LIMIT_KEYS: Record<TaskBudgetDimension, keyof TaskBudgetLimits> = {
+	cost: "maxCost",
+	inputTokens: "maxInputTokens",
+	outputTokens: "maxOutputTokens",
+	durationMs: "maxDurationMs",
+}
+
+function hasLimits(limits: TaskBudgetLimits | undefined): limits is TaskBudgetLimits {
+	return !!limits && Object.values(limits).some((value) => typeof value === "number")
+}
+
+function mergeLimits(limits: Array<TaskBudgetLimits | undefined>): TaskBudgetLimits | undefined {
+	const merged: TaskBudgetLimits = {}
+
+	for (const entry of limits) {
+		for (const key of Object.values(LIMIT_KEYS)) {
+			const value = entry?.[key]
+
+			if (typeof value === "number") {
+				merged[key] = Math.min(merged[key] ?? Infinity, value)
+			}
+		}
+	}
+
+	return hasLimits(merged) ? merged : undefined
+}
+
+/**
+ * Combines budgets configured at different levels (global, mode, provider
+ * profile). The most restrictive value wins for every limit.
+ */
+export function resolveTaskBudget(...budgets: Array<TaskBudget | undefined>): TaskBudget {
+	const task = mergeLimits(budgets.map((budget) => budget?.task))
+	const tree = mergeLimits(budgets.map((budget) => budget?.tree))
+
+	return { ...(task && { task }), ...(tree && { tree }) }
+}
+
+export function hasTaskBudget(budget: TaskBudget | undefined): boolean {
+	return hasLimits(budget?.task) || hasLimits(budget?.tree)
+}
+
+function usageFromHistoryItem(item: HistoryItem): TaskBudgetUsage {
+	return {
+		cost: item.totalCost,
+		inputTokens: item.tokensIn,
+		outputTokens: item.tokensOut,
+		durationMs: item.budget?.elapsedMs ?? 0,
+	}
+}
+
+function findExceededDimension(
+	limits: TaskBudgetLimits,
+	usage: TaskBudgetUsage,
+): { dimension: TaskBudgetDimension; limit: number; used: number } | undefined {
+	for (const [dimension, key] of Object.entries(LIMIT_KEYS) as Array<[TaskBudgetDimension, keyof TaskBudgetLimits]>) {
+		const limit = limits[key]
+		const used = usage[dimension]
+
+		if (typeof limit !== "number") {
+			continue
+		}
+
+		if (dimension === "cost" ? used > limit - COST_EPSILON : used >= limit) {
+			return { dimension, limit, used }
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Computes budget consumption for a task and for every enclosing subtask tree
+ * with a budget of its own: the task's own tree plus the tree of each ancestor
+ * whose persisted budget has `tree` limits. Tree usage is summed from the task
+ * history, with the current task's live usage taking the place of its
+ * (possibly stale) history entry. Durations only count the time tasks were
+ * running, so the duration of a tree is the sum of its tasks' durations.
+ *
+ * Returns undefined when no budget applies to the task.
+ */
+export function computeTaskBudgetStatus({
+	taskId,
+	parentTaskId,
+	budget,
+	usage,
+	taskHistory,
+}: {
+	taskId: string
+	parentTaskId?: string
+	budget: TaskBudget
+	usage: TaskBudgetUsage
+	taskHistory: HistoryItem[]
+}): TaskBudgetStatus | undefined {
+	const itemsById = new Map(taskHistory.map((item) => [item.id, item]))
+	const childrenById = new Map<string, string[]>()
+
+	for (const item of taskHistory) {
+		if (item.parentTaskId) {
+			childrenById.set(item.parentTaskId, [...(childrenById.get(item.parentTaskId) ?? []), item.id])
+		}
+	}
+
+	const getTreeUsage = (rootTaskId: string): TaskBudgetUsage => {
+		const total: TaskBudgetUsage = { cost: 0, inputTokens: 0, outputTokens: 0, durationMs: 0 }
+		const visited = new Set<string>()
+		const pending = [rootTaskId]
+
+		while (pending.length > 0) {
+			const id = pending.pop()!
+
+			if (visited.has(id)) {
+				continue
+			}
+
+			visited.add(id)
+			pending.push(...(childrenById.get(id) ?? []))
+
+			const item = itemsById.get(id)
+			const itemUsage = id === taskId ? usage : item ? usageFromHistoryItem(item) : undefined
+
+			if (itemUsage) {
+				total.cost += itemUsage.cost
+				total.inputTokens += itemUsage.inputTokens
+				total.outputTokens += itemUsage.outputTokens
+				total.durationMs += itemUsage.durationMs
+			}
+		}
+
+		return total
+	}
+
+	const trees: TaskBudgetStatus["trees"] = []
+
+	if (hasLimits(budget.tree)) {
+		trees.push({ rootTaskId: taskId, limits: budget.tree, usage: getTreeUsage(taskId) })
+	}
+
+	// Budgets propagate down from every ancestor that defined a tree budget.
+	const visitedAncestors = new Set<string>([taskId])
+	let ancestorId = parentTaskId
+
+	while (ancestorId && !visitedAncestors.has(ancestorId)) {
+		visitedAncestors.add(ancestorId)
+		const ancestor = itemsById.get(ancestorId)
+
+		if (!ancestor) {
+			break
+		}
+
+		if (ancestor.budget && hasLimits(ancestor.budget.limits.tree)) {
+			trees.push({
+				rootTaskId: ancestor.id,
+				limits: ancestor.budget.limits.tree,
+				usage: getTreeUsage(ancestor.id),
+			})
+		}
+
+		ancestorId = ancestor.parentTaskId
+	}
+
+	if (!hasLimits(budget.task) && trees.length === 0) {
+		return undefined
+	}
+
+	const status: TaskBudgetStatus = {
+		task: { limits: budget.task ?? {}, usage },
+		trees,
+	}
+
+	const taskExceeded = findExceededDimension(status.task.limits, status.task.usage)
+
+	if (taskExceeded) {
+		return { ...status, exceeded: { scope: "task", ...taskExceeded } }
+	}
+
+	for (const tree of trees) {
+		const treeExceeded = findExceededDimension(tree.limits, tree.usage)
+
+		if (treeExceeded) {
+			return { ...status, exceeded: { scope: "tree", rootTaskId: tree.rootTaskId, ...treeExceeded } }
+		}
+	}
+
+	return status
+}
@@ -6,6 +6,13 @@ import { ClineAskResponse } from "../../shared/WebviewMessage"
 import { isWriteToolAction, isReadOnlyToolAction } from "./tools"
 import { isMcpToolAlwaysAllowed } from "./mcp"
 import { getCommandDecision } from "./commands"
+import {
+	type ApprovalPolicyEvaluation,
+	type LoadedApprovalPolicy,
+	buildApprovalPolicyRequest,
+	evaluateApprovalPolicy,
+	explainApprovalPolicyEvaluation,
+} from "./policy"
 
 // We have 10 different actions that can be auto-approved.
 export type AutoApprovalState =
@@ -31,7 +38,7 @@ export type AutoApprovalStateOptions =
 	| "allowedCommands" // For `alwaysAllowExecute`.
 	| "deniedCommands"
 
-export type CheckAutoApprovalResult =
+type AutoApprovalDecision =
 	| { decision: "approve" }
 	| { decision: "deny" }
 	| { decision: "ask" }
@@ -41,21 +48,81 @@ export type CheckAutoApprovalResult =
 			fn: () => { askResponse: ClineAskResponse; text?: string; images?: string[] }
 	  }
 
+export type CheckAutoApprovalResult = AutoApprovalDecision & {
+	// Present when an approval policy was evaluated for the ask.
+	policy?: { evaluation: ApprovalPolicyEvaluation; explanation: string }
+}
+
 export async function checkAutoApproval({
 	state,
 	ask,
 	text,
 	isProtected,
+	policies,
 }: {
-	state?: Pick<ExtensionState, AutoApprovalState | AutoApprovalStateOptions>
+	state?: Pick<ExtensionState, AutoApprovalState | AutoApprovalStateOptions | "mode">
 	ask: ClineAsk
 	text?: string
 	isProtected?: boolean
+	policies?: LoadedApprovalPolicy[]
 }): Promise<CheckAutoApprovalResult> {
 	if (isNonBlockingAsk(ask)) {
 		return { decision: "approve" }
 	}
 
+	const request = policies?.length
+		? buildApprovalPolicyRequest({ ask, text, mode: state?.mode, isProtected })
+		: undefined
+
+	if (!request) {
+		return checkAutoApprovalSettings({ state, ask, text, isProtected })
+	}
+
+	const evaluation = evaluateApprovalPolicy(policies!, request)
+	const policy = { evaluation, explanation: explainApprovalPolicyEvaluation(evaluation, request) }
+
+	if (evaluation.decision && !evaluation.dryRun) {
+		switch (evaluation.decision) {
+			case "deny":
+				return { decision: "deny", policy }
+			case "allow":
+				// Policies can only approve automatically while auto-approval is
+				// turned on, and never approve denied commands.
+				if (!state?.autoApprovalEnabled) {
+					return { decision: "ask", policy }
+				}
+
+				if (
+					ask === "command" &&
+					text &&
+					getCommandDecision(text, state.allowedCommands ?? [], state.deniedCommands ?? []) === "auto_deny"
+				) {
+					return { decision: "deny", policy }
+				}
+
+				return { decision: "approve", policy }
+			default:
+				return { decision: "ask", policy }
+		}
+	}
+
+	return { ...(await checkAutoApprovalSettings({ state, ask, text, isProtected })), policy }
+}
+
+/**
+ * Decides an ask from the individual auto-approval settings.
+ */
+async function checkAutoApprovalSettings({
+	state,
+	ask,
+	text,
+	isProtected,
+}: {
+	state?: Pick<ExtensionState, AutoApprovalState | AutoApprovalStateOptions>
+	ask: ClineAsk
+	text?: string
+	isProtected?: boolean
+}): Promise<AutoApprovalDecision> {
 	if (!state || !state.autoApprovalEnabled) {
 		return { decision: "ask" }
 	}
@@ -187,3 +254,4 @@ export async function checkAutoApproval({
 }
 
 export { AutoApprovalHandler } from "./AutoApprovalHandler"
+export { loadApprovalPolicies } from "./policy-loader"
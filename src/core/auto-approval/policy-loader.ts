@@ -0,0 +1,72 @@
+import * as path from "path"
+import * as vscode from "vscode"
+import * as yaml from "yaml"
+
+import { type ApprovalPolicySource, approvalPolicySchema } from "@roo-code/types"
+
+import { getGlobalRooDirectory, getProjectRooDirectoryForCwd } from "../../services/roo-config"
+import { MdmService } from "../../services/mdm/MdmService"
+import { createCachedFileReader } from "../../utils/cachedFileReader"
+
+import type { LoadedApprovalPolicy } from "./policy"
+
+export const APPROVAL_POLICY_FILE_NAME = "approval-policy.yaml"
+
+const readPolicyFile = createCachedFileReader((content, filePath) => {
+	if (!content.trim()) {
+		return undefined
+	}
+
+	const result = approvalPolicySchema.safeParse(yaml.parse(content))
+
+	if (!result.success) {
+		console.error(`[ApprovalPolicy] Ignoring invalid policy ${filePath}: ${result.error.message}`)
+		return undefined
+	}
+
+	return result.data
+})
+
+async function loadPolicyFile(
+	filePath: string,
+	source: ApprovalPolicySource,
+): Promise<LoadedApprovalPolicy | undefined> {
+	try {
+		const policy = await readPolicyFile(filePath)
+		return policy && { source, filePath, dryRun: policy.dryRun ?? false, rules: policy.rules }
+	} catch (error) {
+		console.error(
+			`[ApprovalPolicy] Failed to load policy ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+		)
+		return undefined
+	}
+}
+
+/**
+ * Loads the auto-approval policies that apply to a workspace, in evaluation
+ * order: managed (MDM), project (`.roo/approval-policy.yaml`), then global
+ * (`~/.roo/approval-policy.yaml`). A managed policy marked `exclusive` stops
+ * project and global policies from being loaded. Project policies come from
+ * the repository, so they are only loaded in trusted workspaces, and can only
+ * deny or ask (see `evaluateApprovalPolicy`).
+ */
+export async function loadApprovalPolicies(cwd: string): Promise<LoadedApprovalPolicy[]> {
+	const policies: LoadedApprovalPolicy[] = []
+	const managedPolicy = MdmService.hasInstance() ? MdmService.getInstance().getApprovalPolicy() : undefined
+
+	if (managedPolicy) {
+		policies.push({ source: "managed", dryRun: managedPolicy.dryRun ?? false, rules: managedPolicy.rules })
+
+		if (managedPolicy.exclusive) {
+			return policies
+		}
+	}
+
+	const projectPolicy = vscode.workspace.isTrusted
+		? await loadPolicyFile(path.join(getProjectRooDirectoryForCwd(cwd), APPROVAL_POLICY_FILE_NAME), "project")
+		: undefined
+
+	const globalPolicy = await loadPolicyFile(path.join(getGlobalRooDirectory(), APPROVAL_POLICY_FILE_NAME), "global")
+
+	return [...policies, ...[projectPolicy, globalPolicy].filter((policy) => policy !== undefined)]
+}
@@ -0,0 +1,312 @@
+import * as path from "path"
+import ignore from "ignore"
+
+import type {
+	ApprovalPolicyDecision,
+	ApprovalPolicyRule,
+	ApprovalPolicySource,
+	ClineAsk,
+	McpServerUse,
+} from "@roo-code/types"
+
+import type { ClineSayTool } from "../../shared/ExtensionMessage"
+import { parseCommand } from "../../shared/parse-command"
+
+import { containsDangerousSubstitution, findLongestPrefixMatch } from "./commands"
+
+/**
+ * A set of rules loaded from a single policy file (or from MDM).
+ */
+export interface LoadedApprovalPolicy {
+	source: ApprovalPolicySource
+	filePath?: string
+	dryRun: boolean
+	rules: ApprovalPolicyRule[]
+}
+
+/**
+ * The facts about an ask that policy rules can match on.
+ */
+export interface ApprovalPolicyRequest {
+	ask: ClineAsk
+	tool?: string
+	mode?: string
+	paths: string[]
+	commands: string[]
+	mcpServer?: string
+	mcpTool?: string
+	isOutsideWorkspace: boolean
+	isProtected: boolean
+	hasDangerousSubstitution: boolean
+}
+
+export interface ApprovalPolicyEvaluation {
+	// Undefined when no rule matched.
+	decision?: ApprovalPolicyDecision
+	rule?: ApprovalPolicyRule
+	ruleLabel?: string
+	source?: ApprovalPolicySource
+	filePath?: string
+	dryRun: boolean
+	// One line per rule that was considered, in evaluation order.
+	trace: string[]
+}
+
+// Asks that represent an action the agent wants to take; everything else
+// (follow-up questions, retries, resumptions) is not governed by policy.
+const POLICY_ASKS: ReadonlySet<ClineAsk> = new Set(["tool", "command", "use_mcp_server", "browser_action_launch"])
+
+/**
+ * Extracts the matchable facts from an ask. Returns undefined if the ask is
+ * not governed by policy or its payload cannot be parsed.
+ */
+export function buildApprovalPolicyRequest({
+	ask,
+	text,
+	mode,
+	isProtected,
+}: {
+	ask: ClineAsk
+	text?: string
+	mode?: string
+	isProtected?: boolean
+}): ApprovalPolicyRequest | undefined {
+	if (!POLICY_ASKS.has(ask)) {
+		return undefined
+	}
+
+	const request: ApprovalPolicyRequest = {
+		ask,
+		mode,
+		paths: [],
+		commands: [],
+		isOutsideWorkspace: false,
+		isProtected: !!isProtected,
+		hasDangerousSubstitution: false,
+	}
+
+	try {
+		if (ask === "command") {
+			if (!text) {
+				return undefined
+			}
+
+			request.commands = parseCommand(text)
+				.map((command) => command.trim())
+				.filter(Boolean)
+			request.hasDangerousSubstitution = containsDangerousSubstitution(text)
+		} else if (ask === "use_mcp_server") {
+			const mcpServerUse = JSON.parse(text || "{}") as McpServerUse
+			request.mcpServer = mcpServerUse.serverName
+			request.mcpTool = mcpServerUse.toolName ?? mcpServerUse.uri
+		} else if (ask === "tool") {
+			const tool = JSON.parse(text || "{}") as ClineSayTool
+
+			if (!tool.tool) {
+				return undefined
+			}
+
+			request.tool = tool.tool
+			request.paths = [
+				tool.path,
+				...(tool.batchFiles ?? []).map((file) => file.path),
+				...(tool.batchDiffs ?? []).map((diff) => diff.path),
+			].filter((p): p is string => !!p)
+			request.isOutsideWorkspace =
+				!!tool.isOutsideWorkspace || !!tool.batchFiles?.some((file) => file.isOutsideWorkspace)
+			request.isProtected = request.isProtected || !!tool.isProtected
+		}
+	} catch (error) {
+		return undefined
+	}
+
+	return request
+}
+
+function matchesName(value: string | undefined, patterns: string[]): boolean {
+	return value !== undefined && patterns.some((pattern) => pattern === "*" || pattern === value)
+}
+
+function matchesPath(filePath: string, patterns: string[]): boolean {
+	const relativePath = filePath.toPosix().replace(/^\.\//, "")
+
+	// Globs are workspace-relative, so paths outside the workspace never match them.
+	if (!relativePath || path.isAbsolute(filePath) || relativePath.startsWith("../")) {
+		return false
+	}
+
+	try {
+		return ignore().add(patterns).ignores(relativePath)
+	} catch (error) {
+		return false
+	}
+}
+
+/**
+ * "allow" rules must cover every target, whereas "deny" and "ask" rules are
+ * triggered by any single target.
+ */
+function matchesTargets(targets: string[], decision: ApprovalPolicyDecision, matches: (target: string) => boolean) {
+	if (targets.length === 0) {
+		return false
+	}
+
+	return decision === "allow" ? targets.every(matches) : targets.some(matches)
+}
+
+/**
+ * Returns undefined if the rule matches, otherwise the reason it did not.
+ */
+function getMismatchReason(rule: ApprovalPolicyRule, request: ApprovalPolicyRequest): string | undefined {
+	const match = rule.match ?? {}
+
+	if (match.asks && !match.asks.includes(request.ask)) {
+		return `ask "${request.ask}" is not one of [${match.asks.join(", ")}]`
+	}
+
+	if (match.tools && !matchesName(request.tool, match.tools)) {
+		return `tool "${request.tool ?? "none"}" is not one of [${match.tools.join(", ")}]`
+	}
+
+	if (match.modes && !matchesName(request.mode, match.modes)) {
+		return `mode "${request.mode ?? "none"}" is not one of [${match.modes.join(", ")}]`
+	}
+
+	if (match.paths && !matchesTargets(request.paths, rule.decision, (p) => matchesPath(p, match.paths!))) {
+		return request.paths.length === 0
+			? "no file paths to match"
+			: `paths [${request.paths.join(", ")}] do not match [${match.paths.join(", ")}]`
+	}
+
+	if (match.commands) {
+		if (
+			!matchesTargets(
+				request.commands,
+				rule.decision,
+				(command) => findLongestPrefixMatch(command, match.commands!) !== null,
+			)
+		) {
+			return request.commands.length === 0
+				? "no command to match"
+				: `commands [${request.commands.join(", ")}] do not match [${match.commands.join(", ")}]`
+		}
+
+		if (rule.decision === "allow" && request.hasDangerousSubstitution) {
+			return "command contains a dangerous parameter substitution"
+		}
+	}
+
+	if (match.mcpServers && !matchesName(request.mcpServer, match.mcpServers)) {
+		return `MCP server "${request.mcpServer ?? "none"}" is not one of [${match.mcpServers.join(", ")}]`
+	}
+
+	if (match.mcpTools && !matchesName(request.mcpTool, match.mcpTools)) {
+		return `MCP tool "${request.mcpTool ?? "none"}" is not one of [${match.mcpTools.join(", ")}]`
+	}
+
+	if (match.outsideWorkspace !== undefined && match.outsideWorkspace !== request.isOutsideWorkspace) {
+		return request.isOutsideWorkspace ? "target is outside the workspace" : "target is inside the workspace"
+	}
+
+	if (match.protected !== undefined && match.protected !== request.isProtected) {
+		return request.isProtected ? "target is a protected file" : "target is not a protected file"
+	}
+
+	// Like the auto-approval settings, "allow" rules only approve protected
+	// files and targets outside the workspace when they opt in explicitly.
+	if (rule.decision === "allow" && request.isProtected && match.protected !== true) {
+		return "protected files are only allowed by rules matching protected: true"
+	}
+
+	if (rule.decision === "allow" && request.isOutsideWorkspace && match.outsideWorkspace !== true) {
+		return "targets outside the workspace are only allowed by rules matching outsideWorkspace: true"
+	}
+
+	return undefined
+}
+
+function getRuleLabel(policy: LoadedApprovalPolicy, rule: ApprovalPolicyRule, index: number): string {
+	return `${policy.source} rule ${rule.id ? `"${rule.id}"` : `#${index + 1}`}`
+}
+
+/**
+ * Evaluates policies in order (managed, project, global); the first matching
+ * rule wins. Project policies come from the repository, so their "allow"
+ * rules are skipped: they can only tighten approval. Every rule considered is
+ * recorded in the trace so the decision can be explained.
+ */
+export function evaluateApprovalPolicy(
+	policies: LoadedApprovalPolicy[],
+	request: ApprovalPolicyRequest,
+): ApprovalPolicyEvaluation {
+	const trace: string[] = []
+
+	for (const policy of policies) {
+		for (const [index, rule] of policy.rules.entries()) {
+			const ruleLabel = getRuleLabel(policy, rule, index)
+			const mismatchReason =
+				policy.source === "project" && rule.decision === "allow"
+					? "project policies can only deny or ask"
+					: getMismatchReason(rule, request)
+
+			if (mismatchReason) {
+				trace.push(`${ruleLabel}: skipped (${mismatchReason})`)
+				continue
+			}
+
+			trace.push(`${ruleLabel}: matched -> ${rule.decision}`)
+
+			return {
+				decision: rule.decision,
+				rule,
+				ruleLabel,
+				source: policy.source,
+				filePath: policy.filePath,
+				dryRun: policy.dryRun,
+				trace,
+			}
+		}
+	}
+
+	return { dryRun: false, trace }
+}
+
+function describeRequest(request: ApprovalPolicyRequest): string {
+	const parts = [`ask=${request.ask}`]
+
+	if (request.tool) parts.push(`tool=${request.tool}`)
+	if (request.mode) parts.push(`mode=${request.mode}`)
+	if (request.paths.length) parts.push(`paths=[${request.paths.join(", ")}]`)
+	if (request.commands.length) parts.push(`commands=[${request.commands.join(", ")}]`)
+	if (request.mcpServer) parts.push(`mcpServer=${request.mcpServer}`)
+	if (request.mcpTool) parts.push(`mcpTool=${request.mcpTool}`)
+	if (request.isOutsideWorkspace) parts.push("outsideWorkspace")
+	if (request.isProtected) parts.push("protected")
+
+	return parts.join(" ")
+}
+
+/**
+ * Renders a human readable explanation of which rule decided an ask.
+ */
+export function explainApprovalPolicyEvaluation(
+	evaluation: ApprovalPolicyEvaluation,
+	request: ApprovalPolicyRequest,
+): string {
+	let summary: string
+
+	if (!evaluation.decision) {
+		summary = "no rule matched, falling back to auto-approval settings"
+	} else {
+		const location = evaluation.filePath ? ` in ${evaluation.filePath}` : ""
+		const description = evaluation.rule?.description ? ` (${evaluation.rule.description})` : ""
+		summary = evaluation.dryRun
+			? `dry run: ${evaluation.ruleLabel}${location} would ${evaluation.decision}${description}`
+			: `${evaluation.ruleLabel}${location} decided ${evaluation.decision}${description}`
+	}
+
+	return [
+		`[ApprovalPolicy] ${describeRequest(request)}: ${summary}`,
+		...evaluation.trace.map((line) => `  ${line}`),
+	].join("\n")
+}
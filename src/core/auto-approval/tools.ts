@@ -1,7 +1,7 @@
 import type { ClineSayTool } from "../../shared/ExtensionMessage"
 
 export function isWriteToolAction(tool: ClineSayTool): boolean {
-	return ["editedExistingFile", "appliedDiff", "newFileCreated", "generateImage"].includes(tool.tool)
+	return ["editedExistingFile", "appliedDiff", "newFileCreated", "generateImage", "renameSymbol"].includes(tool.tool)
 }
 
 export function isReadOnlyToolAction(tool: ClineSayTool): boolean {
@@ -13,6 +13,7 @@ export function isReadOnlyToolAction(tool: ClineSayTool): boolean {
 		"listCodeDefinitionNames",
 		"searchFiles",
 		"codebaseSearch",
+		"lookupSymbol",
 		"runSlashCommand",
 	].includes(tool.tool)
 }
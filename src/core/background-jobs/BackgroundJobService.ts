@@ -0,0 +1,168 @@
+import { EventEmitter } from "events"
+
+import type { BackgroundJob } from "@roo-code/types"
+
+import type {
+	ExitCodeDetails,
+	RooTerminalProcessResultPromise,
+	RooTerminalRunOptions,
+} from "../../integrations/terminal/types"
+import { ExecaTerminal } from "../../integrations/terminal/ExecaTerminal"
+
+// Only the end of the output is kept; it is what the completion notification shows.
+const MAX_BUFFERED_OUTPUT = 100_000
+
+export interface FinishedBackgroundJob extends BackgroundJob {
+	// The last lines of the output.
+	outputTail: string
+}
+
+export interface BackgroundJobEvents {
+	stateChanged: [jobs: BackgroundJob[]]
+}
+
+interface JobRun {
+	process: RooTerminalProcessResultPromise
+	output: string
+}
+
+/**
+ * Runs the commands of a task that the model started in the background. Jobs
+ * run as child processes rather than in a VSCode terminal so that they don't
+ * hold on to a terminal and always report their exit code. The jobs of a task
+ * are killed when the task is disposed.
+ */
+export class BackgroundJobService extends EventEmitter<BackgroundJobEvents> {
+	private _jobs: BackgroundJob[] = []
+	private runs = new Map<number, JobRun>()
+	private unreportedJobIds: number[] = []
+	private nextJobId = 1
+
+	public start(command: string, cwd: string, options: RooTerminalRunOptions = {}): BackgroundJob {
+		const job: BackgroundJob = { id: this.nextJobId++, command, cwd, status: "running", startedAt: Date.now() }
+		const terminal = new ExecaTerminal(job.id, cwd)
+		let exitDetails: ExitCodeDetails | undefined
+
+		const process = terminal.runCommand(
+			command,
+			{
+				onLine: (lines) => this.appendOutput(job.id, lines),
+				onCompleted: (output) => this.setOutput(job.id, output ?? ""),
+				onShellExecutionStarted: (pid) => {
+					job.pid = pid
+					this.emit("stateChanged", this._jobs)
+				},
+				onShellExecutionComplete: (details) => {
+					exitDetails = details
+				},
+			},
+			options,
+		)
+
+		this._jobs.push(job)
+		this.runs.set(job.id, { process, output: "" })
+		this.emit("stateChanged", this._jobs)
+
+		process.then(
+			() => this.finish(job, exitDetails),
+			() => this.finish(job, exitDetails),
+		)
+
+		return job
+	}
+
+	/**
+	 * Kills a running job and the processes it started.
+	 *
+	 * @returns false if there is no running job with the id
+	 */
+	public kill(id: number): boolean {
+		const job = this.findJob(id)
+
+		if (job?.status !== "running") {
+			return false
+		}
+
+		job.status = "killed"
+		this.runs.get(id)?.process.abort()
+		this.emit("stateChanged", this._jobs)
+		return true
+	}
+
+	public get jobs(): BackgroundJob[] {
+		return this._jobs
+	}
+
+	public getRunningJobs(): BackgroundJob[] {
+		return this._jobs.filter((job) => job.status === "running")
+	}
+
+	/**
+	 * Returns the jobs that finished since the previous call, so that each
+	 * completion is reported to the model once.
+	 *
+	 * @param tailLines The number of output lines to include
+	 */
+	public takeFinishedJobs(tailLines = 50): FinishedBackgroundJob[] {
+		const finished = this.unreportedJobIds
+			.map((id) => this.findJob(id))
+			.filter((job): job is BackgroundJob => job !== undefined)
+			.map((job) => ({ ...job, outputTail: this.getOutputTail(job.id, tailLines) }))
+
+		this.unreportedJobIds = []
+		return finished
+	}
+
+	public getOutputTail(id: number, lines: number): string {
+		const output = this.runs.get(id)?.output ?? ""
+		return output.trimEnd().split("\n").slice(-lines).join("\n")
+	}
+
+	public dispose(): void {
+		for (const job of this.getRunningJobs()) {
+			job.status = "killed"
+			this.runs.get(job.id)?.process.abort()
+		}
+
+		this._jobs = []
+		this.runs.clear()
+		this.unreportedJobIds = []
+		this.removeAllListeners()
+	}
+
+	private findJob(id: number) {
+		return this._jobs.find((job) => job.id === id)
+	}
+
+	private appendOutput(id: number, lines: string) {
+		this.setOutput(id, (this.runs.get(id)?.output ?? "") + lines)
+	}
+
+	private setOutput(id: number, output: string) {
+		const run = this.runs.get(id)
+
+		if (run) {
+			run.output = output.slice(-MAX_BUFFERED_OUTPUT)
+		}
+	}
+
+	private finish(job: BackgroundJob, exitDetails: ExitCodeDetails | undefined) {
+		if (!this.findJob(job.id)) {
+			// The service was disposed.
+			return
+		}
+
+		job.endedAt = Date.now()
+
+		// The exit details of a killed job don't tell anything about the command.
+		if (job.status === "running") {
+			job.exitCode = exitDetails?.exitCode
+			job.signalName = exitDetails?.signalName
+			job.limitExceeded = exitDetails?.limitExceeded
+			job.status = job.exitCode === 0 ? "completed" : "failed"
+		}
+
+		this.unreportedJobIds.push(job.id)
+		this.emit("stateChanged", this._jobs)
+	}
+}
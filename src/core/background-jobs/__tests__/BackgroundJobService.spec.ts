@@ -0,0 +1,63 @@
+// npx vitest run core/background-jobs/__tests__/BackgroundJobService.spec.ts
+
+import pWaitFor from "p-wait-for"
+
+import { BackgroundJobService } from "../BackgroundJobService"
+
+describe("BackgroundJobService", () => {
+	// TODO: Run the equivalent tests for Windows.
+	const itOnPosix = process.platform === "win32" ? it.skip : it
+
+	let service: BackgroundJobService
+
+	beforeEach(() => {
+		service = new BackgroundJobService()
+	})
+
+	afterEach(() => {
+		service.dispose()
+	})
+
+	itOnPosix("reports each finished job once with the tail of its output", async () => {
+		const onStateChanged = vi.fn()
+		service.on("stateChanged", onStateChanged)
+
+		const job = service.start("for i in 1 2 3; do echo line $i; done; exit 3", "/tmp")
+
+		expect(job).toMatchObject({ id: 1, status: "running", cwd: "/tmp" })
+		expect(service.getRunningJobs()).toEqual([job])
+
+		await pWaitFor(() => job.status !== "running", { timeout: 10_000 })
+
+		expect(job.status).toBe("failed")
+		expect(job.exitCode).toBe(3)
+		expect(job.endedAt).toBeGreaterThanOrEqual(job.startedAt)
+		expect(onStateChanged).toHaveBeenCalled()
+
+		const [finished] = service.takeFinishedJobs(2)
+		expect(finished).toMatchObject({ id: 1, status: "failed", outputTail: "line 2\nline 3" })
+		expect(service.takeFinishedJobs()).toEqual([])
+		expect(service.jobs).toEqual([job])
+	})
+
+	itOnPosix("kills running jobs", async () => {
+		const job = service.start("sleep 30", "/tmp")
+
+		expect(service.kill(job.id)).toBe(true)
+		expect(service.kill(job.id)).toBe(false)
+
+		await pWaitFor(() => service.takeFinishedJobs().length > 0, { timeout: 10_000 })
+
+		expect(job.status).toBe("killed")
+		expect(job.exitCode).toBeUndefined()
+	})
+
+	itOnPosix("marks successful jobs as completed", async () => {
+		const job = service.start("echo done", "/tmp")
+
+		await pWaitFor(() => job.status !== "running", { timeout: 10_000 })
+
+		expect(job).toMatchObject({ status: "completed", exitCode: 0 })
+		expect(service.getOutputTail(job.id, 10)).toBe("done")
+	})
+})
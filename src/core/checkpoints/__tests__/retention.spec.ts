@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+
+import type { HistoryItem } from "@roo-code/types"
+
+import { applyCheckpointRetention, getCheckpointUsage, purgeCheckpoints } from "../retention"
+import { readTaskMessages, saveTaskMessages } from "../../task-persistence"
+import { ShadowCheckpointService } from "../../../services/checkpoints/ShadowCheckpointService"
+
+vi.mock("../../task-persistence", () => ({
+	readTaskMessages: vi.fn(),
+	saveTaskMessages: vi.fn(),
+}))
+vi.mock("../../../services/checkpoints/ShadowCheckpointService", () => ({
+	ShadowCheckpointService: {
+		listTaskRepos: vi.fn(),
+		getTaskRepoStats: vi.fn(),
+		pinCheckpoints: vi.fn(),
+		trimTaskRepo: vi.fn(),
+		gcTaskRepo: vi.fn(),
+		deleteTaskRepo: vi.fn(),
+	},
+}))
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MB = 1024 * 1024
+const now = 100 * DAY_MS
+
+const historyItem = (id: string, ts: number) => ({ id, ts, task: `Task ${id}` }) as HistoryItem
+
+describe("checkpoint retention", () => {
+	let repos: Record<string, { sizeBytes: number; checkpointCount: number; lastCommitAt: number }>
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+
+		repos = {
+			recent: { sizeBytes: 3 * MB, checkpointCount: 5, lastCommitAt: now - DAY_MS },
+			old: { sizeBytes: 2 * MB, checkpointCount: 1, lastCommitAt: now - 40 * DAY_MS },
+			orphan: { sizeBytes: 1 * MB, checkpointCount: 1, lastCommitAt: now - DAY_MS },
+		}
+
+		vi.mocked(readTaskMessages).mockResolvedValue([])
+		vi.mocked(ShadowCheckpointService.listTaskRepos).mockImplementation(async () => Object.keys(repos))
+		vi.mocked(ShadowCheckpointService.getTaskRepoStats).mockImplementation(async ({ taskId }) => ({
+			taskId,
+			...repos[taskId],
+		}))
+	})
+
+	const options = (overrides = {}) => ({
+		globalStorageDir: "/storage",
+		taskHistory: [historyItem("recent", now - 2 * DAY_MS), historyItem("old", now - 50 * DAY_MS)],
+		log: () => {},
+		now,
+		...overrides,
+	})
+
+	it("reports usage most recently used first", async () => {
+		const usage = await getCheckpointUsage(options({ activeTaskIds: ["recent"] }))
+
+		expect(usage.map((entry) => entry.taskId)).toEqual(["recent", "orphan", "old"])
+		expect(usage[0]).toEqual({
+			taskId: "recent",
+			task: "Task recent",
+			sizeBytes: 3 * MB,
+			checkpointCount: 5,
+			lastUsedAt: now - DAY_MS,
+			isActive: true,
+		})
+		expect(usage[1].task).toBeUndefined()
+	})
+
+	it("deletes orphaned and expired repos and garbage collects the rest", async () => {
+		const result = await applyCheckpointRetention({ ...options(), retention: { maxAgeDays: 30 } })
+
+		expect(result.deletedTaskIds).toEqual(["orphan", "old"])
+		expect(result.reclaimedBytes).toBe(3 * MB)
+		expect(ShadowCheckpointService.gcTaskRepo).toHaveBeenCalledTimes(1)
+		expect(ShadowCheckpointService.gcTaskRepo).toHaveBeenCalledWith({
+			taskId: "recent",
+			globalStorageDir: "/storage",
+		})
+	})
+
+	it("trims repos with too many checkpoints and remaps their messages", async () => {
+		vi.mocked(ShadowCheckpointService.trimTaskRepo).mockResolvedValue(
+			new Map([
+				["c4", "n4"],
+				["c5", "n5"],
+			]),
+		)
+		vi.mocked(readTaskMessages).mockResolvedValue([
+			{ ts: 1, type: "say", say: "text", text: "c5" },
+			{ ts: 2, type: "say", say: "checkpoint_saved", text: "c1", checkpoint: { from: "c0", to: "c1" } },
+			{ ts: 3, type: "say", say: "checkpoint_saved", text: "c5", checkpoint: { from: "c4", to: "c5" } },
+		])
+
+		const result = await applyCheckpointRetention({ ...options(), retention: { maxCheckpointsPerTask: 1 } })
+
+		expect(result.trimmedTaskIds).toEqual(["recent"])
+		expect(ShadowCheckpointService.pinCheckpoints).toHaveBeenCalledWith({
+			taskId: "recent",
+			globalStorageDir: "/storage",
+			commitHashes: ["c1", "c0", "c1", "c5", "c4", "c5"],
+		})
+		expect(ShadowCheckpointService.trimTaskRepo).toHaveBeenCalledTimes(1)
+		expect(ShadowCheckpointService.trimTaskRepo).toHaveBeenCalledWith({
+			taskId: "recent",
+			globalStorageDir: "/storage",
+			maxCheckpoints: 1,
+		})
+		expect(saveTaskMessages).toHaveBeenCalledWith({
+			messages: [
+				{ ts: 1, type: "say", say: "text", text: "c5" },
+				{ ts: 2, type: "say", say: "checkpoint_saved", text: "c1", checkpoint: { from: "c0", to: "c1" } },
+				{ ts: 3, type: "say", say: "checkpoint_saved", text: "n5", checkpoint: { from: "n4", to: "n5" } },
+			],
+			taskId: "recent",
+			globalStoragePath: "/storage",
+		})
+	})
+
+	it("deletes the least recently used repos until the total size fits", async () => {
+		const result = await applyCheckpointRetention({ ...options(), retention: { maxTotalSizeMb: 3 } })
+
+		expect(result.deletedTaskIds).toEqual(["orphan", "old"])
+		expect(ShadowCheckpointService.deleteTaskRepo).not.toHaveBeenCalledWith(
+			expect.objectContaining({ taskId: "recent" }),
+		)
+	})
+
+	it("never touches the repos of active tasks", async () => {
+		const result = await applyCheckpointRetention({
+			...options({ activeTaskIds: ["orphan", "old"] }),
+			retention: { maxAgeDays: 30, maxTotalSizeMb: 1 },
+		})
+
+		expect(result.deletedTaskIds).toEqual(["recent"])
+	})
+
+	it("purges the given repos, skipping active tasks", async () => {
+		expect(
+			await purgeCheckpoints({ ...options({ activeTaskIds: ["recent"] }), taskIds: ["recent", "old"] }),
+		).toEqual(["old"])
+		expect(await purgeCheckpoints(options({ activeTaskIds: ["recent"] }))).toEqual(["old", "orphan"])
+		expect(ShadowCheckpointService.deleteTaskRepo).not.toHaveBeenCalledWith(
+			expect.objectContaining({ taskId: "recent" }),
+		)
+	})
+})
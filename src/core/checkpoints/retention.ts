@@ -0,0 +1,218 @@
+import type { CheckpointRetention, ClineMessage, HistoryItem } from "@roo-code/types"
+
+import type { CheckpointUsageEntry } from "../../shared/ExtensionMessage"
+import { ShadowCheckpointService } from "../../services/checkpoints/ShadowCheckpointService"
+import { readTaskMessages, saveTaskMessages } from "../task-persistence"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface CheckpointRetentionResult {
+	deletedTaskIds: string[]
+	trimmedTaskIds: string[]
+	reclaimedBytes: number
+}
+
+type RetentionOptions = {
+	globalStorageDir: string
+	taskHistory: HistoryItem[]
+	// Tasks that are currently open; their shadow repos are never touched.
+	activeTaskIds?: string[]
+	log?: (message: string) => void
+	now?: number
+}
+
+/**
+ * Reports the disk usage of every shadow repo in global storage, most
+ * recently used first.
+ */
+export async function getCheckpointUsage({
+	globalStorageDir,
+	taskHistory,
+	activeTaskIds = [],
+	log = console.log,
+}: RetentionOptions): Promise<CheckpointUsageEntry[]> {
+	const historyById = new Map(taskHistory.map((item) => [item.id, item]))
+	const taskIds = await ShadowCheckpointService.listTaskRepos(globalStorageDir)
+	const usage: CheckpointUsageEntry[] = []
+
+	for (const taskId of taskIds) {
+		try {
+			const stats = await ShadowCheckpointService.getTaskRepoStats({ taskId, globalStorageDir })
+			const historyItem = historyById.get(taskId)
+
+			usage.push({
+				taskId,
+				task: historyItem?.task,
+				sizeBytes: stats.sizeBytes,
+				checkpointCount: stats.checkpointCount,
+				lastUsedAt: Math.max(historyItem?.ts ?? 0, stats.lastCommitAt),
+				isActive: activeTaskIds.includes(taskId),
+			})
+		} catch (error) {
+			log(
+				`[getCheckpointUsage] failed to read shadow repo for task ${taskId}: ${error instanceof Error ? error.message : String(error)}`,
+			)
+		}
+	}
+
+	return usage.sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+}
+
+function getCheckpointHashes(messages: ClineMessage[]): string[] {
+	return messages.flatMap((message) => {
+		if (message.say !== "checkpoint_saved" || !message.text) {
+			return []
+		}
+
+		const checkpoint = message.checkpoint as { from?: string; to?: string } | undefined
+		return [message.text, checkpoint?.from, checkpoint?.to].filter((hash): hash is string => !!hash)
+	})
+}
+
+function remapCheckpointMessages(messages: ClineMessage[], hashes: Map<string, string>): ClineMessage[] {
+	return messages.map((message) => {
+		if (message.say !== "checkpoint_saved" || !message.text) {
+			return message
+		}
+
+		const checkpoint = message.checkpoint as { from?: string; to?: string } | undefined
+
+		return {
+			...message,
+			text: hashes.get(message.text) ?? message.text,
+			...(checkpoint && {
+				checkpoint: {
+					...checkpoint,
+					...(checkpoint.from && { from: hashes.get(checkpoint.from) ?? checkpoint.from }),
+					...(checkpoint.to && { to: hashes.get(checkpoint.to) ?? checkpoint.to }),
+				},
+			}),
+		}
+	})
+}
+
+/**
+ * Enforces checkpoint retention limits on the shadow repos in global storage:
+ *
+ * 1. Repos of tasks that are no longer in the task history are deleted.
+ * 2. Repos not used for `maxAgeDays` are deleted.
+ * 3. The checkpoints the task's messages link to are pinned, so restoring an
+ *    earlier checkpoint doesn't leave the later ones to garbage collection.
+ * 4. Repos with more than `maxCheckpointsPerTask` checkpoints are trimmed and
+ *    the task's checkpoint messages are updated to the rewritten hashes.
+ * 5. Every remaining repo is garbage collected.
+ * 6. While the total size exceeds `maxTotalSizeMb`, the least recently used
+ *    repos are deleted.
+ *
+ * Repos of active tasks are skipped by every step.
+ */
+export async function applyCheckpointRetention({
+	retention = {},
+	...options
+}: RetentionOptions & { retention?: CheckpointRetention }): Promise<CheckpointRetentionResult> {
+	const { globalStorageDir, taskHistory, log = console.log, now = Date.now() } = options
+	const historyIds = new Set(taskHistory.map((item) => item.id))
+	const result: CheckpointRetentionResult = { deletedTaskIds: [], trimmedTaskIds: [], reclaimedBytes: 0 }
+
+	const usage = (await getCheckpointUsage(options)).filter((entry) => !entry.isActive)
+	const sizeBefore = usage.reduce((total, entry) => total + entry.sizeBytes, 0)
+
+	const deleteRepo = async (entry: CheckpointUsageEntry, reason: string) => {
+		await ShadowCheckpointService.deleteTaskRepo({ taskId: entry.taskId, globalStorageDir })
+		result.deletedTaskIds.push(entry.taskId)
+		log(`[applyCheckpointRetention] deleted shadow repo for task ${entry.taskId} (${reason})`)
+	}
+
+	const remaining: CheckpointUsageEntry[] = []
+
+	for (const entry of usage) {
+		try {
+			if (!historyIds.has(entry.taskId)) {
+				await deleteRepo(entry, "task not in history")
+				continue
+			}
+
+			if (retention.maxAgeDays && now - entry.lastUsedAt > retention.maxAgeDays * DAY_MS) {
+				await deleteRepo(entry, `unused for more than ${retention.maxAgeDays} days`)
+				continue
+			}
+
+			const messages = await readTaskMessages({ taskId: entry.taskId, globalStoragePath: globalStorageDir })
+
+			await ShadowCheckpointService.pinCheckpoints({
+				taskId: entry.taskId,
+				globalStorageDir,
+				commitHashes: getCheckpointHashes(messages),
+			})
+
+			// Count again, including the checkpoints that were just pinned.
+			const { checkpointCount } = await ShadowCheckpointService.getTaskRepoStats({
+				taskId: entry.taskId,
+				globalStorageDir,
+			})
+
+			if (retention.maxCheckpointsPerTask && checkpointCount > retention.maxCheckpointsPerTask) {
+				const hashes = await ShadowCheckpointService.trimTaskRepo({
+					taskId: entry.taskId,
+					globalStorageDir,
+					maxCheckpoints: retention.maxCheckpointsPerTask,
+				})
+
+				if (hashes) {
+					await saveTaskMessages({
+						messages: remapCheckpointMessages(messages, hashes),
+						taskId: entry.taskId,
+						globalStoragePath: globalStorageDir,
+					})
+
+					result.trimmedTaskIds.push(entry.taskId)
+				}
+			}
+
+			await ShadowCheckpointService.gcTaskRepo({ taskId: entry.taskId, globalStorageDir })
+
+			const stats = await ShadowCheckpointService.getTaskRepoStats({ taskId: entry.taskId, globalStorageDir })
+			remaining.push({ ...entry, sizeBytes: stats.sizeBytes, checkpointCount: stats.checkpointCount })
+		} catch (error) {
+			log(
+				`[applyCheckpointRetention] failed to apply retention to task ${entry.taskId}: ${error instanceof Error ? error.message : String(error)}`,
+			)
+		}
+	}
+
+	if (retention.maxTotalSizeMb) {
+		const maxTotalBytes = retention.maxTotalSizeMb * 1024 * 1024
+		let totalBytes = remaining.reduce((total, entry) => total + entry.sizeBytes, 0)
+
+		// `remaining` is sorted most recently used first.
+		while (totalBytes > maxTotalBytes && remaining.length > 0) {
+			const entry = remaining.pop()!
+			await deleteRepo(entry, `total size exceeds ${retention.maxTotalSizeMb} MB`)
+			totalBytes -= entry.sizeBytes
+		}
+	}
+
+	const sizeAfter = remaining.reduce((total, entry) => total + entry.sizeBytes, 0)
+	result.reclaimedBytes = Math.max(sizeBefore - sizeAfter, 0)
+
+	return result
+}
+
+/**
+ * Deletes the shadow repos of the given tasks (or of every inactive task if no
+ * ids are given).
+ */
+export async function purgeCheckpoints({
+	taskIds,
+	...options
+}: RetentionOptions & { taskIds?: string[] }): Promise<string[]> {
+	const { globalStorageDir, activeTaskIds = [] } = options
+	const candidates = taskIds ?? (await ShadowCheckpointService.listTaskRepos(globalStorageDir))
+	const purged = candidates.filter((taskId) => !activeTaskIds.includes(taskId))
+
+	for (const taskId of purged) {
+		await ShadowCheckpointService.deleteTaskRepo({ taskId, globalStorageDir })
+	}
+
+	return purged
+}
@@ -0,0 +1,263 @@
+// npx vitest core/condense/__tests__/structuredSummary.spec.ts
+
+import type { StructuredSummary } from "@roo-code/types"
+
+import { ApiHandler } from "../../../api"
+import { ApiMessage } from "../../task-persistence/apiMessages"
+import type { FileMetadataEntry } from "../../context-tracking/FileContextTrackerTypes"
+import {
+	summarizeConversation,
+	getEffectiveApiHistory,
+	getIncrementalKeepCount,
+	getSummaryFiles,
+	mergeStructuredSummary,
+	parseStructuredSummaryResponse,
+	renderStructuredSummary,
+	N_MESSAGES_TO_KEEP,
+	STRUCTURED_SUMMARY_PROMPT,
+} from "../index"
+
+vi.mock("../../../api/transform/image-cleaning", () => ({
+	maybeRemoveImageBlocks: vi.fn((messages: ApiMessage[], _apiHandler: ApiHandler) => [...messages]),
+}))
+
+vi.mock("@roo-code/telemetry", () => ({
+	TelemetryService: {
+		instance: {
+			captureContextCondensed: vi.fn(),
+		},
+	},
+}))
+
+const fileEntry = (
+	path: string,
+	record_source: FileMetadataEntry["record_source"],
+	roo_edit_date: number | null = null,
+): FileMetadataEntry => ({
+	path,
+	record_state: "active",
+	record_source,
+	roo_read_date: 1,
+	roo_edit_date,
+})
+
+const emptyResponse = { goals: [], decisions: [], currentWork: "", fileNotes: {}, todos: [], errors: [] }
+
+describe("parseStructuredSummaryResponse", () => {
+	it("parses a fenced JSON response and fills in missing fields", () => {
+		const response = parseStructuredSummaryResponse('```json\n{ "goals": ["Fix the parser"] }\n```')
+
+		expect(response).toEqual({ ...emptyResponse, goals: ["Fix the parser"] })
+	})
+
+	it("returns undefined for free-form or invalid responses", () => {
+		expect(parseStructuredSummaryResponse("1. Previous Conversation: ...")).toBeUndefined()
+		expect(parseStructuredSummaryResponse('{ "goals": "not an array" }')).toBeUndefined()
+		expect(parseStructuredSummaryResponse("{ not json }")).toBeUndefined()
+	})
+})
+
+describe("getSummaryFiles", () => {
+	it("returns the last action per file and whether Roo ever edited it", () => {
+		const files = getSummaryFiles([
+			fileEntry("src/a.ts", "read_tool"),
+			fileEntry("src/b.ts", "roo_edited", 2),
+			fileEntry("src/a.ts", "roo_edited", 3),
+			fileEntry("src/a.ts", "user_edited", 3),
+		])
+
+		expect(files).toEqual([
+			{ path: "src/a.ts", lastAction: "user_edited", edited: true },
+			{ path: "src/b.ts", lastAction: "edited", edited: true },
+		])
+	})
+})
+
+describe("mergeStructuredSummary", () => {
+	const previous: StructuredSummary = {
+		goals: ["Fix the parser"],
+		decisions: ["Keep the public API"],
+		currentWork: "Reading the parser",
+		files: [
+			{ path: "src/parser.ts", lastAction: "read", edited: false, notes: "The parser" },
+			{ path: "dist/out.js", lastAction: "mentioned", edited: false, notes: "Build output" },
+		],
+		todos: [],
+		errors: ["Test fails"],
+	}
+
+	it("accumulates goals, decisions and file notes and replaces the current state", () => {
+		const merged = mergeStructuredSummary(
+			previous,
+			{
+				...emptyResponse,
+				goals: ["Fix the parser", "Add tests"],
+				decisions: ["Use a recursive descent parser"],
+				currentWork: "Writing tests",
+				fileNotes: { "src/parser.ts": "Rewritten", "src/parser.spec.ts": "New tests" },
+				todos: [{ content: "Run the tests", status: "pending" }],
+			},
+			{ files: [fileEntry("src/parser.ts", "roo_edited", 2)], todos: [] },
+		)
+
+		expect(merged.goals).toEqual(["Fix the parser", "Add tests"])
+		expect(merged.decisions).toEqual(["Keep the public API", "Use a recursive descent parser"])
+		expect(merged.currentWork).toBe("Writing tests")
+		expect(merged.errors).toEqual([])
+		expect(merged.todos).toEqual([expect.objectContaining({ content: "Run the tests", status: "pending" })])
+
+		expect(merged.files).toEqual([
+			{ path: "src/parser.ts", lastAction: "edited", edited: true, notes: "Rewritten" },
+			{ path: "dist/out.js", lastAction: "mentioned", edited: false, notes: "Build output" },
+			{ path: "src/parser.spec.ts", lastAction: "mentioned", edited: false, notes: "New tests" },
+		])
+	})
+
+	it("prefers the task's todo list over the extracted todos", () => {
+		const todos = [{ id: "1", content: "Ship it", status: "in_progress" as const }]
+
+		const merged = mergeStructuredSummary(
+			undefined,
+			{ ...emptyResponse, todos: [{ content: "Something else", status: "pending" }] },
+			{ files: [], todos },
+		)
+
+		expect(merged.todos).toEqual(todos)
+	})
+})
+
+describe("renderStructuredSummary", () => {
+	it("renders the non-empty sections", () => {
+		const text = renderStructuredSummary({
+			goals: ["Fix the parser"],
+			decisions: [],
+			currentWork: "Writing tests",
+			files: [{ path: "src/parser.ts", lastAction: "user_edited", edited: true, notes: "Rewritten" }],
+			todos: [{ id: "1", content: "Run the tests", status: "pending" }],
+			errors: [],
+		})
+
+		expect(text).toBe(
+			[
+				"## Goals\n- Fix the parser",
+				"## Current Work\nWriting tests",
+				"## Files\n- src/parser.ts (last edited by the user, previously edited): Rewritten",
+				"## Todos\n- [ ] Run the tests",
+			].join("\n\n"),
+		)
+	})
+})
+
+describe("summarizeConversation in structured mode", () => {
+	const createApiHandler = (text: string) =>
+		({
+			createMessage: vi.fn().mockReturnValue(
+				(async function* () {
+					yield { type: "text" as const, text }
+					yield { type: "usage" as const, totalCost: 0.05, outputTokens: 150 }
+				})(),
+			),
+			countTokens: vi.fn().mockResolvedValue(100),
+			getModel: vi.fn().mockReturnValue({ id: "test-model", info: { contextWindow: 8000 } }),
+		}) as unknown as ApiHandler
+
+	const createMessages = (count: number, start = 1): ApiMessage[] =>
+		Array.from({ length: count }, (_, i) => ({
+			role: (start + i) % 2 === 1 ? ("user" as const) : ("assistant" as const),
+			content: `Message ${start + i}`,
+			ts: start + i,
+		}))
+
+	it("keeps the newest half of the messages since the last summary", () => {
+		expect(getIncrementalKeepCount(createMessages(4))).toBe(N_MESSAGES_TO_KEEP)
+		expect(getIncrementalKeepCount(createMessages(20))).toBe(10)
+
+		const messages = [...createMessages(20), { role: "assistant" as const, content: "Summary", isSummary: true }]
+		expect(getIncrementalKeepCount([...messages, ...createMessages(12, 22)])).toBe(6)
+	})
+
+	it("condenses the oldest slice into a structured summary merged with the previous one", async () => {
+		const previous: StructuredSummary = {
+			goals: ["Fix the parser"],
+			decisions: [],
+			currentWork: "Reading the parser",
+			files: [],
+			todos: [],
+			errors: [],
+		}
+
+		const messages: ApiMessage[] = [
+			{ role: "user", content: "Fix the parser", ts: 1 },
+			{ role: "assistant", content: "Old work", ts: 2, condenseParent: "previous" },
+			{
+				role: "assistant",
+				content: renderStructuredSummary(previous),
+				ts: 3,
+				isSummary: true,
+				condenseId: "previous",
+				structuredSummary: previous,
+			},
+			...createMessages(10, 4),
+		]
+
+		const apiHandler = createApiHandler(JSON.stringify({ ...emptyResponse, currentWork: "Writing tests" }))
+
+		const result = await summarizeConversation(
+			messages,
+			apiHandler,
+			"System prompt",
+			"task-id",
+			10_000,
+			false,
+			"Custom prompt",
+			undefined,
+			false,
+			{ files: [fileEntry("src/parser.ts", "roo_edited", 2)], todos: [] },
+		)
+
+		expect(result.error).toBeUndefined()
+		// The custom prompt is used, with the structured sections added so the response can be parsed.
+		const prompt = vi.mocked(apiHandler.createMessage).mock.calls[0][0]
+		expect(prompt).toMatch(/^Custom prompt\n\n/)
+		expect(prompt).toContain("Respond with a single JSON object and nothing else")
+		expect(prompt).not.toBe(STRUCTURED_SUMMARY_PROMPT)
+
+		expect(result.structuredSummary).toEqual({
+			...previous,
+			currentWork: "Writing tests",
+			files: [{ path: "src/parser.ts", lastAction: "edited", edited: true, notes: undefined }],
+		})
+
+		// Summary tokens are estimated, since the summary isn't the raw output.
+		expect(result.newContextTokens).toBe(100)
+
+		const effectiveHistory = getEffectiveApiHistory(result.messages)
+		const summaryMessage = effectiveHistory[1]
+
+		expect(summaryMessage).toMatchObject({ isSummary: true, structuredSummary: result.structuredSummary })
+		expect(summaryMessage.content).toBe(result.summary)
+		expect(effectiveHistory.slice(2)).toEqual(messages.slice(-5))
+	})
+
+	it("falls back to a free-form summary when the response isn't structured", async () => {
+		const apiHandler = createApiHandler("Just some text")
+
+		const result = await summarizeConversation(
+			createMessages(10),
+			apiHandler,
+			"System prompt",
+			"task-id",
+			10_000,
+			false,
+			undefined,
+			undefined,
+			false,
+			{ files: [], todos: [] },
+		)
+
+		expect(result.error).toBeUndefined()
+		expect(vi.mocked(apiHandler.createMessage).mock.calls[0][0]).toBe(STRUCTURED_SUMMARY_PROMPT)
+		expect(result.summary).toBe("Just some text")
+		expect(result.structuredSummary).toBeUndefined()
+	})
+})
@@ -1,6 +1,7 @@
 import Anthropic from "@anthropic-ai/sdk"
 import crypto from "crypto"
 
+import type { StructuredSummary } from "@roo-code/types"
 import { TelemetryService } from "@roo-code/telemetry"
 
 import { t } from "../../i18n"
@@ -8,6 +9,16 @@ import { ApiHandler } from "../../api"
 import { ApiMessage } from "../task-persistence/apiMessages"
 import { maybeRemoveImageBlocks } from "../../api/transform/image-cleaning"
 
+import {
+	type StructuredCondenseContext,
+	getStructuredSummaryPrompt,
+	mergeStructuredSummary,
+	parseStructuredSummaryResponse,
+	renderStructuredSummary,
+} from "./structuredSummary"
+
+export * from "./structuredSummary"
+
 /**
  * Checks if a message contains tool_result blocks.
  * For native tools protocol, user messages with tool_result blocks require
@@ -72,6 +83,20 @@ export const N_MESSAGES_TO_KEEP = 3
 export const MIN_CONDENSE_THRESHOLD = 5 // Minimum percentage of context window to trigger condensing
 export const MAX_CONDENSE_THRESHOLD = 100 // Maximum percentage of context window to trigger condensing
 
+/**
+ * Returns how many messages to keep when condensing incrementally: only the
+ * oldest half of the messages since the last summary is condensed, so that the
+ * most recent work stays verbatim.
+ *
+ * @param messages - The full conversation messages
+ * @returns The number of messages to keep from the end
+ */
+export function getIncrementalKeepCount(messages: ApiMessage[]): number {
+	const lastSummaryIndexReverse = [...messages].reverse().findIndex((message) => message.isSummary)
+	const messagesSinceSummary = lastSummaryIndexReverse === -1 ? messages.length : lastSummaryIndexReverse
+	return Math.max(N_MESSAGES_TO_KEEP, Math.floor(messagesSinceSummary / 2))
+}
+
 const SUMMARY_PROMPT = `\
 Your task is to create a detailed summary of the conversation so far, paying close attention to the user's explicit requests and your previous actions.
 This summary should be thorough in capturing technical details, code patterns, and architectural decisions that would be essential for continuing with the conversation and supporting any continuing tasks.
@@ -119,6 +144,7 @@ export type SummarizeResponse = {
 	newContextTokens?: number // The number of tokens in the context for the next API request
 	error?: string // Populated iff the operation fails: error message shown to the user on failure (see Task.ts)
 	condenseId?: string // The unique ID of the created Summary message, for linking to condense_context clineMessage
+	structuredSummary?: StructuredSummary // The typed summary, when condensing in structured mode
 }
 
 /**
@@ -143,6 +169,7 @@ export type SummarizeResponse = {
  * @param {string} customCondensingPrompt - Optional custom prompt to use for condensing
  * @param {ApiHandler} condensingApiHandler - Optional specific API handler to use for condensing
  * @param {boolean} useNativeTools - Whether native tools protocol is being used (requires tool_use/tool_result pairing)
+ * @param {StructuredCondenseContext} structuredContext - Optional task state; when provided, only the oldest messages are condensed into a structured summary
  * @returns {SummarizeResponse} - The result of the summarization operation (see above)
  */
 export async function summarizeConversation(
@@ -155,6 +182,7 @@ export async function summarizeConversation(
 	customCondensingPrompt?: string,
 	condensingApiHandler?: ApiHandler,
 	useNativeTools?: boolean,
+	structuredContext?: StructuredCondenseContext,
 ): Promise<SummarizeResponse> {
 	TelemetryService.instance.captureContextCondensed(
 		taskId,
@@ -168,13 +196,16 @@ export async function summarizeConversation(
 	// Always preserve the first message (which may contain slash command content)
 	const firstMessage = messages[0]
 
+	// Structured condensing is incremental and keeps more of the recent messages
+	const keepCount = structuredContext ? getIncrementalKeepCount(messages) : N_MESSAGES_TO_KEEP
+
 	// Get keepMessages and any tool_use blocks that need to be preserved for tool_result pairing
 	// Only preserve tool_use blocks when using native tools protocol (XML protocol doesn't need them)
 	const { keepMessages, toolUseBlocksToPreserve } = useNativeTools
-		? getKeepMessagesWithToolBlocks(messages, N_MESSAGES_TO_KEEP)
-		: { keepMessages: messages.slice(-N_MESSAGES_TO_KEEP), toolUseBlocksToPreserve: [] }
+		? getKeepMessagesWithToolBlocks(messages, keepCount)
+		: { keepMessages: messages.slice(-keepCount), toolUseBlocksToPreserve: [] }
 
-	const keepStartIndex = Math.max(messages.length - N_MESSAGES_TO_KEEP, 0)
+	const keepStartIndex = Math.max(messages.length - keepCount, 0)
 	const includeFirstKeptMessageInSummary = toolUseBlocksToPreserve.length > 0
 	const summarySliceEnd = includeFirstKeptMessageInSummary ? keepStartIndex + 1 : keepStartIndex
 	const messagesBeforeKeep = summarySliceEnd > 0 ? messages.slice(0, summarySliceEnd) : []
@@ -200,7 +231,9 @@ export async function summarizeConversation(
 
 	const finalRequestMessage: Anthropic.MessageParam = {
 		role: "user",
-		content: "Summarize the conversation so far, as described in the prompt instructions.",
+		content: structuredContext
+			? "Extract the structured summary of the conversation so far, as described in the prompt instructions."
+			: "Summarize the conversation so far, as described in the prompt instructions.",
 	}
 
 	const requestMessages = maybeRemoveImageBlocks([...messagesToSummarize, finalRequestMessage], apiHandler).map(
@@ -209,7 +242,12 @@ export async function summarizeConversation(
 
 	// Note: this doesn't need to be a stream, consider using something like apiHandler.completePrompt
 	// Use custom prompt if provided and non-empty, otherwise use the default SUMMARY_PROMPT
-	const promptToUse = customCondensingPrompt?.trim() ? customCondensingPrompt.trim() : SUMMARY_PROMPT
+	// In structured mode the custom prompt gets the structured sections, since the response has to be parsed
+	const promptToUse = structuredContext
+		? getStructuredSummaryPrompt(customCondensingPrompt)
+		: customCondensingPrompt?.trim()
+			? customCondensingPrompt.trim()
+			: SUMMARY_PROMPT
 
 	// Use condensing API handler if provided, otherwise use main API handler
 	let handlerToUse = condensingApiHandler || apiHandler
@@ -256,6 +294,20 @@ export async function summarizeConversation(
 		return { ...response, cost, error }
 	}
 
+	// Merge the structured response into the previous summary, which it replaces.
+	// If the response can't be parsed, the text is kept as a free-form summary.
+	let structuredSummary: StructuredSummary | undefined
+
+	if (structuredContext) {
+		const structuredResponse = parseStructuredSummaryResponse(summary)
+
+		if (structuredResponse) {
+			const previousSummary = messagesToSummarize.find((message) => message.isSummary)?.structuredSummary
+			structuredSummary = mergeStructuredSummary(previousSummary, structuredResponse, structuredContext)
+			summary = renderStructuredSummary(structuredSummary)
+		}
+	}
+
 	// Build the summary message content
 	// If there are tool_use blocks to preserve (for tool_result pairing), append them to the summary
 	let summaryContent: string | Anthropic.Messages.ContentBlockParam[]
@@ -281,6 +333,7 @@ export async function summarizeConversation(
 		ts: firstKeptTs - 1, // Unique timestamp before first kept message to avoid collision
 		isSummary: true,
 		condenseId, // Unique ID for this summary, used to track which messages it replaces
+		...(structuredSummary && { structuredSummary }),
 	}
 
 	// NON-DESTRUCTIVE CONDENSE:
@@ -316,9 +369,11 @@ export async function summarizeConversation(
 
 	// Count the tokens in the context for the next API request
 	// We only estimate the tokens in summaryMesage if outputTokens is 0, otherwise we use outputTokens
+	// A structured summary is rendered from more than the output, so it's always estimated
 	const systemPromptMessage: ApiMessage = { role: "user", content: systemPrompt }
+	const summaryTokens = structuredSummary ? 0 : outputTokens
 
-	const contextMessages = outputTokens
+	const contextMessages = summaryTokens
 		? [systemPromptMessage, ...keepMessages]
 		: [systemPromptMessage, summaryMessage, ...keepMessages]
 
@@ -326,12 +381,12 @@ export async function summarizeConversation(
 		typeof message.content === "string" ? [{ text: message.content, type: "text" as const }] : message.content,
 	)
 
-	const newContextTokens = outputTokens + (await apiHandler.countTokens(contextBlocks))
+	const newContextTokens = summaryTokens + (await apiHandler.countTokens(contextBlocks))
 	if (newContextTokens >= prevContextTokens) {
 		const error = t("common:errors.condense_context_grew")
 		return { ...response, cost, error }
 	}
-	return { messages: newMessages, summary, cost, newContextTokens, condenseId }
+	return { messages: newMessages, summary, cost, newContextTokens, condenseId, structuredSummary }
 }
 
 /* Returns the list of all messages since the last summary message, including the summary. Returns all messages if there is no summary. */
@@ -0,0 +1,207 @@
+import crypto from "crypto"
+import { z } from "zod"
+
+import { type StructuredSummary, type StructuredSummaryFile, type TodoItem, todoStatusSchema } from "@roo-code/types"
+
+import type { FileMetadataEntry } from "../context-tracking/FileContextTrackerTypes"
+
+/**
+ * The task state that structured condensing records as-is instead of asking
+ * the model to recall it.
+ */
+export type StructuredCondenseContext = {
+	files: FileMetadataEntry[]
+	todos: TodoItem[]
+}
+
+// The sections of the structured summary, which are added to custom condensing prompts.
+const STRUCTURED_SUMMARY_SECTIONS = `\
+If the conversation contains a previous summary, treat it as already recorded: only report what the messages after it add or change, and report errors from the previous summary again only if they are still unresolved.
+
+Respond with a single JSON object and nothing else, using the following fields:
+- "goals": The user's explicit requests and the goals of the task, as an array of strings.
+- "decisions": Technical decisions, conventions and constraints established in the summarized messages, as an array of strings.
+- "currentWork": A detailed description of what was being worked on in the most recent summarized messages, including direct quotes where they help continue exactly where the work left off.
+- "fileNotes": An object mapping the paths of files that were examined, created or modified to a short note on why each matters and what was changed.
+- "todos": The tasks of the work as an array of objects with a "content" string and a "status" of "pending", "in_progress" or "completed".
+- "errors": Errors, failing tests and other problems that are still unresolved, as an array of strings.
+`
+
+export const STRUCTURED_SUMMARY_PROMPT = `\
+Your task is to extract the state of the conversation so far into a structured summary, so that the work can continue once the summarized messages are removed.
+${STRUCTURED_SUMMARY_SECTIONS}`
+
+/**
+ * Returns the prompt for structured condensing. A custom condensing prompt
+ * replaces the default instructions, with the structured sections added so
+ * that the response can still be parsed.
+ */
+export function getStructuredSummaryPrompt(customCondensingPrompt?: string): string {
+	const customPrompt = customCondensingPrompt?.trim()
+	return customPrompt ? `${customPrompt}\n\n${STRUCTURED_SUMMARY_SECTIONS}` : STRUCTURED_SUMMARY_PROMPT
+}
+
+const structuredSummaryResponseSchema = z.object({
+	goals: z.array(z.string()).default([]),
+	decisions: z.array(z.string()).default([]),
+	currentWork: z.string().default(""),
+	fileNotes: z.record(z.string(), z.string()).default({}),
+	todos: z.array(z.object({ content: z.string(), status: todoStatusSchema })).default([]),
+	errors: z.array(z.string()).default([]),
+})
+
+export type StructuredSummaryResponse = z.infer<typeof structuredSummaryResponseSchema>
+
+/**
+ * Parses the model's response to `STRUCTURED_SUMMARY_PROMPT`, tolerating a
+ * surrounding code fence.
+ *
+ * @returns The response, or undefined if it isn't a valid JSON object
+ */
+export function parseStructuredSummaryResponse(text: string): StructuredSummaryResponse | undefined {
+	const start = text.indexOf("{")
+	const end = text.lastIndexOf("}")
+
+	if (start === -1 || end < start) {
+		return undefined
+	}
+
+	try {
+		const result = structuredSummaryResponseSchema.safeParse(JSON.parse(text.slice(start, end + 1)))
+		return result.success ? result.data : undefined
+	} catch {
+		return undefined
+	}
+}
+
+const lastActions: Record<FileMetadataEntry["record_source"], StructuredSummaryFile["lastAction"]> = {
+	read_tool: "read",
+	roo_edited: "edited",
+	user_edited: "user_edited",
+	file_mentioned: "mentioned",
+}
+
+/**
+ * Returns the last-known state of every file tracked for the task, in the
+ * order the files were first seen.
+ */
+export function getSummaryFiles(entries: FileMetadataEntry[]): StructuredSummaryFile[] {
+	const files = new Map<string, StructuredSummaryFile>()
+
+	for (const entry of entries) {
+		const file = files.get(entry.path)
+
+		files.set(entry.path, {
+			path: entry.path,
+			lastAction: lastActions[entry.record_source],
+			edited: !!file?.edited || entry.roo_edit_date !== null,
+		})
+	}
+
+	return [...files.values()]
+}
+
+const unique = (values: string[]) => [...new Set(values.map((value) => value.trim()).filter(Boolean))]
+
+/**
+ * Merges the extracted state of the newly condensed messages into the previous
+ * structured summary. Goals, decisions and file notes accumulate, while the
+ * current work, errors and (untracked) todos reflect the newest messages.
+ */
+export function mergeStructuredSummary(
+	previous: StructuredSummary | undefined,
+	response: StructuredSummaryResponse,
+	context: StructuredCondenseContext,
+): StructuredSummary {
+	const notes = new Map((previous?.files ?? []).flatMap(({ path, notes }) => (notes ? [[path, notes]] : [])))
+
+	for (const [path, note] of Object.entries(response.fileNotes)) {
+		notes.set(path, note)
+	}
+
+	const files = new Map(getSummaryFiles(context.files).map((file) => [file.path, file]))
+
+	// Keep files the model noted that were never tracked, e.g. ones created by
+	// a command.
+	for (const file of previous?.files ?? []) {
+		if (!files.has(file.path)) {
+			files.set(file.path, file)
+		}
+	}
+
+	for (const path of notes.keys()) {
+		if (!files.has(path)) {
+			files.set(path, { path, lastAction: "mentioned", edited: false })
+		}
+	}
+
+	// Ids are derived the same way as for todo lists written in markdown.
+	const todos =
+		context.todos.length > 0
+			? context.todos
+			: response.todos.length > 0
+				? response.todos.map(({ content, status }) => ({
+						id: crypto
+							.createHash("md5")
+							.update(content + status)
+							.digest("hex"),
+						content,
+						status,
+					}))
+				: (previous?.todos ?? [])
+
+	return {
+		goals: unique([...(previous?.goals ?? []), ...response.goals]),
+		decisions: unique([...(previous?.decisions ?? []), ...response.decisions]),
+		currentWork: response.currentWork.trim() || previous?.currentWork || "",
+		files: [...files.values()].map((file) => ({ ...file, notes: notes.get(file.path) })),
+		todos,
+		errors: unique(response.errors),
+	}
+}
+
+const actionLabels: Record<StructuredSummaryFile["lastAction"], string> = {
+	read: "read",
+	edited: "edited",
+	user_edited: "edited by the user",
+	mentioned: "mentioned",
+}
+
+const todoMarkers: Record<TodoItem["status"], string> = { pending: "[ ]", in_progress: "[-]", completed: "[x]" }
+
+/**
+ * Renders a structured summary as the text of the summary message.
+ */
+export function renderStructuredSummary(summary: StructuredSummary): string {
+	const sections: string[] = []
+
+	const addList = (title: string, items: string[]) => {
+		if (items.length > 0) {
+			sections.push(`## ${title}\n${items.map((item) => `- ${item}`).join("\n")}`)
+		}
+	}
+
+	addList("Goals", summary.goals)
+	addList("Decisions", summary.decisions)
+
+	if (summary.currentWork) {
+		sections.push(`## Current Work\n${summary.currentWork}`)
+	}
+
+	addList(
+		"Files",
+		summary.files.map(
+			({ path, lastAction, edited, notes }) =>
+				`${path} (last ${actionLabels[lastAction]}${edited && lastAction !== "edited" ? ", previously edited" : ""})${notes ? `: ${notes}` : ""}`,
+		),
+	)
+
+	addList(
+		"Todos",
+		summary.todos.map(({ content, status }) => `${todoMarkers[status]} ${content}`),
+	)
+
+	addList("Unresolved Errors", summary.errors)
+
+	return sections.join("\n\n")
+}
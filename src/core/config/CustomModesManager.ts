@@ -6,13 +6,25 @@ import * as os from "os"
 import * as yaml from "yaml"
 import stripBom from "strip-bom"
 
-import { type ModeConfig, type PromptComponent, customModesSettingsSchema, modeConfigSchema } from "@roo-code/types"
+import {
+	type CustomModeDefinition,
+	type ModeConfig,
+	type PromptComponent,
+	customModesSettingsSchema,
+	modeConfigSchema,
+} from "@roo-code/types"
 
 import { fileExistsAtPath } from "../../utils/fs"
 import { getWorkspacePath } from "../../utils/path"
 import { getGlobalRooDirectory } from "../../services/roo-config"
 import { logger } from "../../utils/logging"
 import { GlobalFileNames } from "../../shared/globalFileNames"
+import {
+	getInheritedModeConfig,
+	getModeBases,
+	getModeOverrides,
+	resolveModeInheritance,
+} from "../../shared/modeInheritance"
 import { ensureSettingsDirectoryExists } from "../../utils/globalContext"
 import { t } from "../../i18n"
 
@@ -52,6 +64,7 @@ export class CustomModesManager {
 	private writeQueue: Array<() => Promise<void>> = []
 	private cachedModes: ModeConfig[] | null = null
 	private cachedAt: number = 0
+	private lastInheritanceErrors?: string
 
 	constructor(
 		private readonly context: vscode.ExtensionContext,
@@ -180,7 +193,7 @@ export class CustomModesManager {
 		}
 	}
 
-	private async loadModesFromFile(filePath: string): Promise<ModeConfig[]> {
+	private async loadModesFromFile(filePath: string): Promise<CustomModeDefinition[]> {
 		try {
 			const content = await fs.readFile(filePath, "utf-8")
 			const settings = this.parseYamlSafely(content, filePath)
@@ -223,9 +236,12 @@ export class CustomModesManager {
 		}
 	}
 
-	private async mergeCustomModes(projectModes: ModeConfig[], globalModes: ModeConfig[]): Promise<ModeConfig[]> {
+	private async mergeCustomModes(
+		projectModes: CustomModeDefinition[],
+		globalModes: CustomModeDefinition[],
+	): Promise<ModeConfig[]> {
 		const slugs = new Set<string>()
-		const merged: ModeConfig[] = []
+		const merged: CustomModeDefinition[] = []
 
 		// Add project mode (takes precedence)
 		for (const mode of projectModes) {
@@ -243,7 +259,25 @@ export class CustomModesManager {
 			}
 		}
 
-		return merged
+		return this.resolveInheritance(merged)
+	}
+
+	/**
+	 * Resolves `extends` in the merged custom modes. Modes that cannot be
+	 * resolved are dropped and reported to the user once per distinct set of
+	 * errors, so that file watchers and cache refreshes don't repeat them.
+	 */
+	private resolveInheritance(definitions: CustomModeDefinition[]): ModeConfig[] {
+		const { modes, errors } = resolveModeInheritance(definitions)
+		const errorSummary = errors.map(({ slug, message }) => `• ${slug}: ${message}`).join("\n")
+
+		if (errorSummary && errorSummary !== this.lastInheritanceErrors) {
+			logger.error("Failed to resolve custom mode inheritance", { errors })
+			vscode.window.showErrorMessage(t("common:customModes.errors.inheritanceError", { errors: errorSummary }))
+		}
+
+		this.lastInheritanceErrors = errorSummary
+		return modes
 	}
 
 	public async getCustomModesFilePath(): Promise<string> {
@@ -341,7 +375,8 @@ export class CustomModesManager {
 					// When .roomodes is deleted, refresh with only settings modes
 					try {
 						const settingsModes = await this.loadModesFromFile(settingsPath)
-						await this.context.globalState.update("customModes", settingsModes)
+						const mergedModes = await this.mergeCustomModes([], settingsModes)
+						await this.context.globalState.update("customModes", mergedModes)
 						this.clearCache()
 						await this.onUpdate()
 					} catch (error) {
@@ -370,8 +405,8 @@ export class CustomModesManager {
 		const roomodesModes = roomodesPath ? await this.loadModesFromFile(roomodesPath) : []
 
 		// Create maps to store modes by source.
-		const projectModes = new Map<string, ModeConfig>()
-		const globalModes = new Map<string, ModeConfig>()
+		const projectModes = new Map<string, CustomModeDefinition>()
+		const globalModes = new Map<string, CustomModeDefinition>()
 
 		// Add project modes (they take precedence).
 		for (const mode of roomodesModes) {
@@ -385,13 +420,14 @@ export class CustomModesManager {
 			}
 		}
 
-		// Combine modes in the correct order: project modes first, then global modes.
-		const mergedModes = [
+		// Combine modes in the correct order: project modes first, then global
+		// modes, and resolve inheritance across both.
+		const mergedModes = this.resolveInheritance([
 			...roomodesModes.map((mode) => ({ ...mode, source: "project" as const })),
 			...settingsModes
 				.filter((mode) => !projectModes.has(mode.slug))
 				.map((mode) => ({ ...mode, source: "global" as const })),
-		]
+		])
 
 		await this.context.globalState.update("customModes", mergedModes)
 
@@ -438,10 +474,13 @@ export class CustomModesManager {
 				targetPath = await this.getCustomModesFilePath()
 			}
 
+			// Modes that extend other modes only store what they override.
+			const definition = getModeBases(config).length > 0 ? await this.getModeDefinition(slug, config) : config
+
 			await this.queueWrite(async () => {
 				// Ensure source is set correctly based on target file.
 				const modeWithSource = {
-					...config,
+					...definition,
 					source: isProjectMode ? ("project" as const) : ("global" as const),
 				}
 
@@ -462,7 +501,36 @@ export class CustomModesManager {
 		}
 	}
 
-	private async updateModesInFile(filePath: string, operation: (modes: ModeConfig[]) => ModeConfig[]): Promise<void> {
+	/**
+	 * Reduces a mode that extends other modes to the fields it overrides,
+	 * rejecting it if its bases are unknown or would form a cycle.
+	 */
+	private async getModeDefinition(slug: string, config: ModeConfig): Promise<CustomModeDefinition> {
+		const settingsModes = await this.loadModesFromFile(await this.getCustomModesFilePath())
+		const roomodesPath = await this.getWorkspaceRoomodes()
+		const roomodesModes = roomodesPath ? await this.loadModesFromFile(roomodesPath) : []
+
+		// .roomodes takes precedence over the global settings.
+		const otherModes = [
+			...roomodesModes,
+			...settingsModes.filter((mode) => !roomodesModes.some((projectMode) => projectMode.slug === mode.slug)),
+		].filter((mode) => mode.slug !== slug)
+
+		const { modes, errors } = resolveModeInheritance([...otherModes, config])
+		const inheritanceError = errors.find((error) => error.slug === slug)
+
+		if (inheritanceError) {
+			throw new Error(inheritanceError.message)
+		}
+
+		const inherited = getInheritedModeConfig(config, modes)
+		return inherited ? getModeOverrides(config, inherited) : config
+	}
+
+	private async updateModesInFile(
+		filePath: string,
+		operation: (modes: CustomModeDefinition[]) => CustomModeDefinition[],
+	): Promise<void> {
 		let content = "{}"
 
 		try {
@@ -558,7 +626,7 @@ export class CustomModesManager {
 	 * @param slug - The mode slug
 	 * @param mode - The mode configuration to determine the scope
 	 */
-	private async deleteRulesFolder(slug: string, mode: ModeConfig, fromMarketplace = false): Promise<void> {
+	private async deleteRulesFolder(slug: string, mode: CustomModeDefinition, fromMarketplace = false): Promise<void> {
 		try {
 			// Determine the scope based on source (project or global)
 			const scope = mode.source || "global"
@@ -809,6 +877,10 @@ export class CustomModesManager {
 				source: "project" as const,
 			}
 
+			// Exports are self-contained: the mode is exported with its resolved
+			// configuration, since its bases may not exist where it is imported.
+			delete exportMode.extends
+
 			// Merge custom prompts if provided
 			if (customPrompts) {
 				if (customPrompts.roleDefinition) exportMode.roleDefinition = customPrompts.roleDefinition
@@ -636,6 +636,117 @@ describe("CustomModesManager", () => {
 		})
 	})
 
+	describe("mode inheritance", () => {
+		let settingsContent: { customModes: any[] }
+
+		beforeEach(() => {
+			settingsContent = { customModes: [] }
+			;(fileExistsAtPath as Mock).mockImplementation(async (path: string) => path === mockSettingsPath)
+			;(fs.readFile as Mock).mockImplementation(async (path: string) => {
+				if (path === mockSettingsPath) {
+					return yaml.stringify(settingsContent)
+				}
+				throw new Error("File not found")
+			})
+			;(fs.writeFile as Mock).mockImplementation(async (path: string, content: string) => {
+				if (path === mockSettingsPath) {
+					settingsContent = yaml.parse(content)
+				}
+			})
+		})
+
+		it("resolves modes that extend built-in and custom modes", async () => {
+			settingsContent.customModes = [
+				{
+					slug: "reviewer",
+					name: "Reviewer",
+					extends: "ask",
+					customInstructions: "Review carefully.",
+					groups: ["read", ["edit", { fileRegex: "\\.md$", description: "Markdown" }]],
+				},
+				{ slug: "docs-reviewer", name: "Docs Reviewer", extends: "reviewer", customInstructions: "Docs only." },
+			]
+
+			const modes = await manager.getCustomModes()
+			const docsReviewer = modes.find((mode) => mode.slug === "docs-reviewer")
+
+			expect(docsReviewer).toMatchObject({
+				roleDefinition: expect.stringContaining("knowledgeable technical assistant"),
+				groups: ["read", ["edit", { fileRegex: "\\.md$", description: "Markdown" }]],
+				customInstructions: expect.stringMatching(/Review carefully\.\n\nDocs only\.$/),
+				extends: "reviewer",
+				source: "global",
+			})
+		})
+
+		it("drops modes with circular inheritance and reports them once", async () => {
+			settingsContent.customModes = [
+				{ slug: "a", name: "A", extends: "b" },
+				{ slug: "b", name: "B", extends: "a" },
+				{ slug: "c", name: "C", roleDefinition: "Role C", groups: ["read"] },
+			]
+
+			expect((await manager.getCustomModes()).map((mode) => mode.slug)).toEqual(["c"])
+
+			// Reloading the same files doesn't repeat the error.
+			;(manager as any).clearCache()
+			await manager.getCustomModes()
+
+			expect(vscode.window.showErrorMessage).toHaveBeenCalledTimes(1)
+			expect(vscode.window.showErrorMessage).toHaveBeenCalledWith("customModes.errors.inheritanceError")
+		})
+
+		it("stores only the fields that a mode overrides", async () => {
+			settingsContent.customModes = [
+				{
+					slug: "base",
+					name: "Base",
+					roleDefinition: "Base role",
+					groups: ["read"],
+					customInstructions: "Base.",
+				},
+			]
+
+			const [base] = await manager.getCustomModes()
+
+			await manager.updateCustomMode("child", {
+				slug: "child",
+				name: "Child",
+				extends: "base",
+				roleDefinition: base.roleDefinition,
+				groups: ["read", "edit"],
+				customInstructions: "Base.\n\nChild.",
+				source: "global",
+			})
+
+			expect(settingsContent.customModes.find((mode) => mode.slug === "child")).toEqual({
+				slug: "child",
+				name: "Child",
+				extends: "base",
+				groups: ["read", "edit"],
+				customInstructions: "Child.",
+				source: "global",
+			})
+		})
+
+		it("rejects updates that would create an inheritance cycle", async () => {
+			settingsContent.customModes = [{ slug: "base", name: "Base", extends: "child" }]
+
+			await expect(
+				manager.updateCustomMode("child", {
+					slug: "child",
+					name: "Child",
+					extends: "base",
+					roleDefinition: "Role",
+					groups: ["read"],
+					source: "global",
+				}),
+			).rejects.toThrow("Circular mode inheritance: base -> child -> base")
+
+			expect(fs.writeFile).not.toHaveBeenCalledWith(mockSettingsPath, expect.any(String), "utf-8")
+		})
+	})
+
 	describe("File Operations", () => {
 		it("creates settings directory if it doesn't exist", async () => {
 			const settingsPath = path.join(mockStoragePath, "settings", GlobalFileNames.customModes)
@@ -610,6 +610,7 @@ describe("Context Management", () => {
 				undefined, // customCondensingPrompt
 				undefined, // condensingApiHandler
 				undefined, // useNativeTools
+				undefined, // structuredContext
 			)
 
 			// Verify the result contains the summary information
@@ -786,6 +787,7 @@ describe("Context Management", () => {
 				undefined, // customCondensingPrompt
 				undefined, // condensingApiHandler
 				undefined, // useNativeTools
+				undefined, // structuredContext
 			)
 
 			// Verify the result contains the summary information
@@ -4,7 +4,13 @@ import crypto from "crypto"
 import { TelemetryService } from "@roo-code/telemetry"
 
 import { ApiHandler } from "../../api"
-import { MAX_CONDENSE_THRESHOLD, MIN_CONDENSE_THRESHOLD, summarizeConversation, SummarizeResponse } from "../condense"
+import {
+	MAX_CONDENSE_THRESHOLD,
+	MIN_CONDENSE_THRESHOLD,
+	summarizeConversation,
+	SummarizeResponse,
+	type StructuredCondenseContext,
+} from "../condense"
 import { ApiMessage } from "../task-persistence/apiMessages"
 import { ANTHROPIC_DEFAULT_MAX_TOKENS } from "@roo-code/types"
 
@@ -123,6 +129,7 @@ export type ContextManagementOptions = {
 	profileThresholds: Record<string, number>
 	currentProfileId: string
 	useNativeTools?: boolean
+	structuredContext?: StructuredCondenseContext
 }
 
 export type ContextManagementResult = SummarizeResponse & {
@@ -152,6 +159,7 @@ export async function manageContext({
 	profileThresholds,
 	currentProfileId,
 	useNativeTools,
+	structuredContext,
 }: ContextManagementOptions): Promise<ContextManagementResult> {
 	let error: string | undefined
 	let cost = 0
@@ -206,6 +214,7 @@ export async function manageContext({
 				customCondensingPrompt,
 				condensingApiHandler,
 				useNativeTools,
+				structuredContext,
 			)
 			if (result.error) {
 				error = result.error
@@ -13,6 +13,7 @@ import { TerminalRegistry } from "../../../integrations/terminal/TerminalRegistr
 import { Terminal } from "../../../integrations/terminal/Terminal"
 import { arePathsEqual } from "../../../utils/path"
 import { FileContextTracker } from "../../context-tracking/FileContextTracker"
+import { BackgroundJobService } from "../../background-jobs/BackgroundJobService"
 import { ApiHandler } from "../../../api/index"
 import { ClineProvider } from "../../webview/ClineProvider"
 import { RooIgnoreController } from "../../ignore/RooIgnoreController"
@@ -94,6 +95,10 @@ describe("getEnvironmentDetails", () => {
 			fileContextTracker: {
 				getAndClearRecentlyModifiedFiles: vi.fn().mockReturnValue([]),
 			} as unknown as FileContextTracker,
+			backgroundJobService: {
+				getRunningJobs: vi.fn().mockReturnValue([]),
+				takeFinishedJobs: vi.fn().mockReturnValue([]),
+			} as unknown as BackgroundJobService,
 			rooIgnoreController: {
 				filterPaths: vi.fn((paths: string[]) => paths.join("\n")),
 				cwd: mockCwd,
@@ -278,6 +283,33 @@ describe("getEnvironmentDetails", () => {
 		expect(mockInactiveTerminal.cleanCompletedProcessQueue).toHaveBeenCalled()
 	})
 
+	it("should report running and finished background jobs", async () => {
+		const now = Date.now()
+		;(mockCline.backgroundJobService!.getRunningJobs as Mock).mockReturnValue([
+			{ id: 1, command: "npm run dev", cwd: mockCwd, status: "running", startedAt: now - 65_000 },
+		])
+		;(mockCline.backgroundJobService!.takeFinishedJobs as Mock).mockReturnValue([
+			{
+				id: 2,
+				command: "npm test",
+				cwd: mockCwd,
+				status: "failed",
+				exitCode: 1,
+				startedAt: now - 45_000,
+				endedAt: now,
+				outputTail: "1 test failed",
+			},
+		])
+		;(Terminal.compressTerminalOutput as Mock).mockImplementation((output: string) => output)
+
+		const result = await getEnvironmentDetails(mockCline as Task)
+
+		expect(result).toContain("# Background Jobs")
+		expect(result).toContain("## Job 1 (Running for 1m 5s)\n### Command: `npm run dev`")
+		expect(result).toContain("## Job 2 (Finished: Exit code: 1, after 45s)")
+		expect(result).toContain("### Output (last lines)\n1 test failed")
+	})
+
 	it("should include working directory for terminals", async () => {
 		const mockActiveTerminal = {
 			id: "terminal-1",
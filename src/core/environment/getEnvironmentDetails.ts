@@ -170,6 +170,45 @@ export async function getEnvironmentDetails(cline: Task, includeFileDetails: boo
 		}
 	}
 
+	// Report the background jobs, and the output of the ones that finished
+	// since the previous request.
+	const runningJobs = cline.backgroundJobService.getRunningJobs()
+	const finishedJobs = cline.backgroundJobService.takeFinishedJobs()
+
+	if (runningJobs.length > 0 || finishedJobs.length > 0) {
+		terminalDetails += "\n\n# Background Jobs"
+
+		for (const job of runningJobs) {
+			terminalDetails += `\n## Job ${job.id} (Running for ${formatDuration(Date.now() - job.startedAt)})`
+			terminalDetails += `\n### Command: \`${job.command}\``
+		}
+
+		for (const job of finishedJobs) {
+			const duration = formatDuration((job.endedAt ?? Date.now()) - job.startedAt)
+			const outcome =
+				job.status === "killed"
+					? "Killed"
+					: job.limitExceeded
+						? `Stopped after exceeding the sandbox ${job.limitExceeded} limit`
+						: job.signalName
+							? `Terminated by signal ${job.signalName}`
+							: `Exit code: ${job.exitCode ?? "<undefined>"}`
+
+			terminalDetails += `\n## Job ${job.id} (Finished: ${outcome}, after ${duration})`
+			terminalDetails += `\n### Command: \`${job.command}\``
+			terminalDetails += `\n### Working Directory: \`${job.cwd}\``
+
+			if (job.outputTail) {
+				const output = Terminal.compressTerminalOutput(
+					job.outputTail,
+					terminalOutputLineLimit,
+					terminalOutputCharacterLimit,
+				)
+				terminalDetails += `\n### Output (last lines)\n${output}`
+			}
+		}
+	}
+
 	// console.log(`[Task#getEnvironmentDetails] terminalDetails: ${terminalDetails}`)
 
 	// Add recently modified files section.
@@ -321,3 +360,10 @@ export async function getEnvironmentDetails(cline: Task, includeFileDetails: boo
 	const reminderSection = todoListEnabled ? formatReminderSection(cline.todoList) : ""
 	return `<environment_details>\n${details.trim()}\n${reminderSection}\n</environment_details>`
 }
+
+function formatDuration(ms: number): string {
+	const seconds = Math.round(ms / 1000)
+	const minutes = Math.floor(seconds / 60)
+
+	return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`
+}
@@ -0,0 +1,155 @@
+import { execa } from "execa"
+
+import {
+	type LifecycleHook,
+	type LifecycleHookEvent,
+	type LifecycleHookResponse,
+	DEFAULT_HOOK_TIMEOUT_SECONDS,
+	lifecycleHookResponseSchema,
+} from "@roo-code/types"
+
+import type { McpHub } from "../../services/mcp/McpHub"
+import { loadHooks } from "./hooks-loader"
+
+// Exit code with which commands block without printing a JSON response.
+const BLOCKING_EXIT_CODE = 2
+
+// Events whose hooks can block what triggered them.
+const blockingEvents: LifecycleHookEvent[] = ["preToolUse", "preCompletion"]
+
+export interface LifecycleHookOutcome {
+	// Set when a hook blocked the tool use or completion.
+	blockReason?: string
+	// Set when `preToolUse` hooks replaced some of the tool parameters.
+	params?: Record<string, unknown>
+}
+
+const describeHook = (hook: LifecycleHook) => hook.command ?? `${hook.mcp?.server}/${hook.mcp?.tool}`
+
+function parseResponse(output: string): LifecycleHookResponse {
+	const trimmed = output.trim()
+
+	if (!trimmed.startsWith("{")) {
+		return {}
+	}
+
+	try {
+		const result = lifecycleHookResponseSchema.safeParse(JSON.parse(trimmed))
+		return result.success ? result.data : {}
+	} catch {
+		// Plain output that happens to start with a brace.
+		return {}
+	}
+}
+
+/**
+ * Runs the lifecycle hooks of `.roo/hooks.json` for a task. Hooks run in
+ * order and receive the event as JSON; failing hooks are logged and never
+ * block, so a broken script can't wedge the agent loop.
+ */
+export class LifecycleHookRunner {
+	constructor(
+		private readonly cwd: string,
+		private readonly getMcpHub: () => McpHub | undefined,
+	) {}
+
+	/**
+	 * Runs the hooks of an event. For tool events, only the hooks matching
+	 * `toolName` run, and `preToolUse` hooks see the parameters as replaced by
+	 * the hooks before them. Stops at the first hook that blocks.
+	 */
+	async run(
+		event: LifecycleHookEvent,
+		payload: Record<string, unknown>,
+		toolName?: string,
+	): Promise<LifecycleHookOutcome> {
+		const hooks = (await loadHooks(this.cwd))[event].filter(
+			(hook) => !hook.tools || (toolName !== undefined && hook.tools.includes(toolName)),
+		)
+
+		let params: Record<string, unknown> | undefined
+
+		for (const hook of hooks) {
+			const input = { ...payload, ...(params && { params }), event, cwd: this.cwd }
+			const response = await this.runHook(hook, event, input)
+
+			if (!response) {
+				continue
+			}
+
+			if (response.decision === "block" && blockingEvents.includes(event)) {
+				return { blockReason: response.reason?.trim() || `Blocked by hook: ${describeHook(hook)}`, params }
+			}
+
+			if (response.params && event === "preToolUse") {
+				params = { ...(params ?? (payload.params as Record<string, unknown> | undefined)), ...response.params }
+			}
+		}
+
+		return { params }
+	}
+
+	private async runHook(
+		hook: LifecycleHook,
+		event: LifecycleHookEvent,
+		input: Record<string, unknown>,
+	): Promise<LifecycleHookResponse | undefined> {
+		try {
+			return hook.mcp ? await this.callMcpTool(hook.mcp, input) : await this.runCommand(hook, input)
+		} catch (error) {
+			console.error(
+				`[Hooks] ${event} hook ${describeHook(hook)} failed: ${error instanceof Error ? error.message : String(error)}`,
+			)
+			return undefined
+		}
+	}
+
+	private async runCommand(hook: LifecycleHook, input: Record<string, unknown>): Promise<LifecycleHookResponse> {
+		const timeout = hook.timeout ?? DEFAULT_HOOK_TIMEOUT_SECONDS
+
+		const result = await execa({
+			shell: true,
+			cwd: this.cwd,
+			input: JSON.stringify(input),
+			reject: false,
+			timeout: timeout * 1000,
+		})`${hook.command!}`
+
+		if (result.timedOut) {
+			throw new Error(`timed out after ${timeout}s`)
+		}
+
+		if (result.exitCode === BLOCKING_EXIT_CODE) {
+			return { decision: "block", reason: String(result.stderr).trim() || String(result.stdout).trim() }
+		}
+
+		if (result.exitCode !== 0) {
+			throw new Error(`exit code ${result.exitCode ?? "unknown"}: ${String(result.stderr).trim()}`)
+		}
+
+		return parseResponse(String(result.stdout))
+	}
+
+	private async callMcpTool(
+		mcp: NonNullable<LifecycleHook["mcp"]>,
+		input: Record<string, unknown>,
+	): Promise<LifecycleHookResponse> {
+		const mcpHub = this.getMcpHub()
+
+		if (!mcpHub) {
+			throw new Error("MCP is not available")
+		}
+
+		const result = await mcpHub.callTool(mcp.server, mcp.tool, input)
+		const text = result.content
+			.map((item) => (item.type === "text" ? item.text : ""))
+			.join("\n")
+			.trim()
+
+		if (result.isError) {
+			throw new Error(text || "the tool returned an error")
+		}
+
+		return parseResponse(text)
+	}
+}
@@ -0,0 +1,127 @@
+import fs from "fs/promises"
+import * as path from "path"
+import ignore from "ignore"
+import { execa } from "execa"
+import { quote } from "shell-quote"
+
+import { type PostEditHook, DEFAULT_HOOK_TIMEOUT_SECONDS } from "@roo-code/types"
+
+import { formatResponse } from "../prompts/responses"
+import { truncateOutput } from "../../integrations/misc/extract-text"
+import { loadHooks } from "./hooks-loader"
+
+const MAX_HOOK_OUTPUT_LINES = 100
+
+function matchFiles(hook: PostEditHook, relPaths: string[]): string[] {
+	const matcher = ignore().add(hook.files)
+
+	return relPaths.filter((relPath) => {
+		const normalized = relPath.replace(/\\/g, "/").replace(/^\.\//, "")
+
+		// Globs are workspace-relative, so files outside the workspace never match them.
+		return !!normalized && !path.isAbsolute(relPath) && !normalized.startsWith("../") && matcher.ignores(normalized)
+	})
+}
+
+async function readContents(cwd: string, relPaths: string[]): Promise<(string | undefined)[]> {
+	return Promise.all(
+		relPaths.map((relPath) => fs.readFile(path.resolve(cwd, relPath), "utf8").catch(() => undefined)),
+	)
+}
+
+/**
+ * Runs the post-edit hooks of `.roo/hooks.json` on the files a task edits:
+ * regular hooks right after each edit, and batch hooks once per assistant
+ * turn. Their output, and the diff of any file they changed (e.g. formatters
+ * run with `--write`), is reported back to the model.
+ */
+export class PostEditHookRunner {
+	// Files edited since the batch hooks last ran.
+	private readonly pendingFiles = new Set<string>()
+
+	constructor(private readonly cwd: string) {}
+
+	/**
+	 * Runs the hooks matching files that were just edited, and queues the files
+	 * for the batch hooks. Returns the report of the hooks that ran, if any.
+	 */
+	async runAfterEdit(relPaths: string[]): Promise<string | undefined> {
+		relPaths.forEach((relPath) => this.pendingFiles.add(relPath))
+
+		const { postEdit } = await loadHooks(this.cwd)
+		return this.run(
+			postEdit.filter((hook) => !hook.batch),
+			relPaths,
+		)
+	}
+
+	/**
+	 * Runs the batch hooks over the files edited since the previous call.
+	 * Returns the report of the hooks that ran, if any.
+	 */
+	async runBatch(): Promise<string | undefined> {
+		if (this.pendingFiles.size === 0) {
+			return undefined
+		}
+
+		const relPaths = [...this.pendingFiles]
+		this.pendingFiles.clear()
+
+		const { postEdit } = await loadHooks(this.cwd)
+		return this.run(
+			postEdit.filter((hook) => hook.batch),
+			relPaths,
+		)
+	}
+
+	private async run(hooks: PostEditHook[], relPaths: string[]): Promise<string | undefined> {
+		const reports: string[] = []
+
+		for (const hook of hooks) {
+			const files = matchFiles(hook, relPaths)
+
+			if (files.length === 0) {
+				continue
+			}
+
+			// Commands taking a single `{file}` run once per file.
+			const invocations = hook.command.includes("{file}") ? files.map((file) => [file]) : [files]
+
+			for (const invocationFiles of invocations) {
+				reports.push(await this.runHook(hook, invocationFiles))
+			}
+		}
+
+		return reports.length > 0 ? reports.join("\n\n") : undefined
+	}
+
+	private async runHook(hook: PostEditHook, files: string[]): Promise<string> {
+		const timeout = hook.timeout ?? DEFAULT_HOOK_TIMEOUT_SECONDS
+		const command = hook.command.replaceAll("{files}", quote(files)).replaceAll("{file}", quote(files.slice(0, 1)))
+		const before = await readContents(this.cwd, files)
+
+		const result = await execa({
+			shell: true,
+			cwd: this.cwd,
+			all: true,
+			reject: false,
+			timeout: timeout * 1000,
+		})`${command}`
+
+		const status = result.timedOut ? `timed out after ${timeout}s` : `exit code ${result.exitCode ?? "unknown"}`
+		const output = truncateOutput(String(result.all ?? "").trim(), MAX_HOOK_OUTPUT_LINES)
+		const sections = [`$ ${command} (${status})`, ...(output ? [output] : [])]
+
+		const after = await readContents(this.cwd, files)
+
+		files.forEach((file, index) => {
+			if (before[index] !== undefined && after[index] !== undefined && before[index] !== after[index]) {
+				sections.push(
+					`The hook changed ${file}:\n${formatResponse.createPrettyPatch(file, before[index], after[index])}`,
+				)
+			}
+		})
+
+		return sections.join("\n")
+	}
+}
@@ -0,0 +1,117 @@
+// npx vitest run core/hooks/__tests__/LifecycleHooks.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import type { McpHub } from "../../../services/mcp/McpHub"
+import { LifecycleHookRunner } from "../LifecycleHooks"
+
+let globalRooDirectory: string
+
+vitest.mock("../../../services/roo-config", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../../../services/roo-config")>()),
+	getGlobalRooDirectory: () => globalRooDirectory,
+}))
+
+vitest.mock("vscode", () => ({ workspace: { isTrusted: true } }))
+
+describe("LifecycleHookRunner", () => {
+	let tmpDir: string
+	let cwd: string
+	let mcpHub: { callTool: ReturnType<typeof vitest.fn> }
+	let runner: LifecycleHookRunner
+
+	const writeHooks = (hooks: Record<string, unknown[]>) =>
+		fs.writeFile(path.join(cwd, ".roo", "hooks.json"), JSON.stringify(hooks))
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "roo-lifecycle-hooks-"))
+		cwd = path.join(tmpDir, "project")
+		globalRooDirectory = path.join(tmpDir, "home", ".roo")
+		await fs.mkdir(path.join(cwd, ".roo"), { recursive: true })
+		await fs.mkdir(globalRooDirectory, { recursive: true })
+
+		mcpHub = { callTool: vitest.fn() }
+		runner = new LifecycleHookRunner(cwd, () => mcpHub as unknown as McpHub)
+	})
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true })
+	})
+
+	it("passes the event as JSON on stdin and blocks with the reason of a block decision", async () => {
+		await writeHooks({
+			preToolUse: [
+				{ command: 'cat > event.json && echo \'{"decision":"block","reason":"Use pnpm"}\'' },
+				{ command: "touch never-run" },
+			],
+		})
+
+		const outcome = await runner.run(
+			"preToolUse",
+			{ taskId: "task-1", tool: "execute_command", params: { command: "npm i" } },
+			"execute_command",
+		)
+
+		expect(outcome).toEqual({ blockReason: "Use pnpm", params: undefined })
+		expect(JSON.parse(await fs.readFile(path.join(cwd, "event.json"), "utf8"))).toEqual({
+			taskId: "task-1",
+			tool: "execute_command",
+			params: { command: "npm i" },
+			event: "preToolUse",
+			cwd,
+		})
+		await expect(fs.access(path.join(cwd, "never-run"))).rejects.toThrow()
+	})
+
+	it("blocks on exit code 2 and ignores hooks that fail otherwise", async () => {
+		const consoleSpy = vitest.spyOn(console, "error").mockImplementation(() => {})
+		await writeHooks({
+			preCompletion: [{ command: "echo broken >&2 && exit 1" }, { command: "echo '2 tests fail' >&2 && exit 2" }],
+		})
+
+		expect(await runner.run("preCompletion", { result: "Done" })).toEqual({ blockReason: "2 tests fail" })
+		expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining("exit code 1: broken"))
+		consoleSpy.mockRestore()
+	})
+
+	it("lets preToolUse hooks matching the tool replace its parameters", async () => {
+		await writeHooks({
+			preToolUse: [
+				{ tools: ["read_file"], command: 'echo \'{"params":{"path":"ignored"}}\'' },
+				{ tools: ["execute_command"], command: 'echo \'{"params":{"command":"pnpm i"}}\'' },
+				{ command: 'grep \'pnpm i\' >/dev/null && echo \'{"params":{"cwd":"app"}}\'' },
+			],
+		})
+
+		const { params } = await runner.run(
+			"preToolUse",
+			{ tool: "execute_command", params: { command: "npm i", cwd: "." } },
+			"execute_command",
+		)
+
+		expect(params).toEqual({ command: "pnpm i", cwd: "app" })
+	})
+
+	it("runs the hooks of a hooks file that changed since it was last loaded", async () => {
+		await writeHooks({ preCompletion: [{ command: "exit 0" }] })
+		expect(await runner.run("preCompletion", { result: "Done" })).toEqual({})
+
+		await writeHooks({ preCompletion: [{ command: "echo 'Tests fail' >&2 && exit 2" }] })
+		expect(await runner.run("preCompletion", { result: "Done" })).toEqual({ blockReason: "Tests fail" })
+	})
+
+	it("calls MCP tools, and only lets preToolUse and preCompletion hooks block", async () => {
+		await writeHooks({ postToolUse: [{ mcp: { server: "policy", tool: "audit" } }] })
+		mcpHub.callTool.mockResolvedValue({ content: [{ type: "text", text: '{"decision":"block"}' }] })
+
+		expect(await runner.run("postToolUse", { tool: "write_to_file", result: "Saved" }, "write_to_file")).toEqual({})
+		expect(mcpHub.callTool).toHaveBeenCalledWith("policy", "audit", {
+			tool: "write_to_file",
+			result: "Saved",
+			event: "postToolUse",
+			cwd,
+		})
+	})
+})
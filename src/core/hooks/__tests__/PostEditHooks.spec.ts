@@ -0,0 +1,99 @@
+// npx vitest run core/hooks/__tests__/PostEditHooks.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+import * as vscode from "vscode"
+
+import { PostEditHookRunner } from "../PostEditHooks"
+
+let globalRooDirectory: string
+
+vitest.mock("../../../services/roo-config", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../../../services/roo-config")>()),
+	getGlobalRooDirectory: () => globalRooDirectory,
+}))
+
+vitest.mock("vscode", () => ({ workspace: { isTrusted: true } }))
+
+describe("PostEditHookRunner", () => {
+	let tmpDir: string
+	let cwd: string
+
+	const writeHooks = (directory: string, postEdit: unknown[]) =>
+		fs.writeFile(path.join(directory, "hooks.json"), JSON.stringify({ postEdit }))
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "roo-hooks-"))
+		cwd = path.join(tmpDir, "project")
+		globalRooDirectory = path.join(tmpDir, "home", ".roo")
+		await fs.mkdir(path.join(cwd, ".roo"), { recursive: true })
+		await fs.mkdir(path.join(cwd, "src"), { recursive: true })
+		await fs.mkdir(globalRooDirectory, { recursive: true })
+		await fs.writeFile(path.join(cwd, "src", "a.ts"), "const a = 1\n")
+		await fs.writeFile(path.join(cwd, "src", "b.ts"), "const b = 2\n")
+		await fs.writeFile(path.join(cwd, "README.md"), "# Readme\n")
+		;(vscode.workspace as { isTrusted: boolean }).isTrusted = true
+	})
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true })
+	})
+
+	it("runs the hooks matching an edited file and reports the changes they make", async () => {
+		await writeHooks(path.join(cwd, ".roo"), [
+			{ files: "*.ts", command: "printf '// formatted\\n' >> {file} && echo Formatted {file}" },
+			{ files: "*.md", command: "echo markdown" },
+		])
+
+		const report = await new PostEditHookRunner(cwd).runAfterEdit(["src/a.ts"])
+
+		expect(report).toContain("$ printf '// formatted\\n' >> src/a.ts && echo Formatted src/a.ts (exit code 0)")
+		expect(report).toContain("Formatted src/a.ts")
+		expect(report).toContain("The hook changed src/a.ts:")
+		expect(report).toContain("+// formatted")
+		expect(report).not.toContain("markdown")
+	})
+
+	it("reports failing hooks and skips files outside the workspace", async () => {
+		await writeHooks(path.join(cwd, ".roo"), [{ files: ["*.ts"], command: "echo 'Type error' && exit 2" }])
+		const runner = new PostEditHookRunner(cwd)
+
+		expect(await runner.runAfterEdit(["src/b.ts"])).toBe("$ echo 'Type error' && exit 2 (exit code 2)\nType error")
+		expect(await runner.runAfterEdit(["../other/c.ts", "README.md"])).toBeUndefined()
+	})
+
+	it("runs batch hooks once over the files edited since they last ran", async () => {
+		await writeHooks(path.join(cwd, ".roo"), [{ files: "*.ts", command: "echo Checked {files}", batch: true }])
+		const runner = new PostEditHookRunner(cwd)
+
+		expect(await runner.runAfterEdit(["src/a.ts"])).toBeUndefined()
+		await runner.runAfterEdit(["src/b.ts"])
+		await runner.runAfterEdit(["README.md"])
+
+		expect(await runner.runBatch()).toBe(
+			"$ echo Checked src/a.ts src/b.ts (exit code 0)\nChecked src/a.ts src/b.ts",
+		)
+		expect(await runner.runBatch()).toBeUndefined()
+	})
+
+	it("runs global hooks before project hooks, which only run in trusted workspaces", async () => {
+		await writeHooks(globalRooDirectory, [{ files: "*.ts", command: "echo global" }])
+		await writeHooks(path.join(cwd, ".roo"), [{ files: "*.ts", command: "echo project" }])
+
+		expect(await new PostEditHookRunner(cwd).runAfterEdit(["src/a.ts"])).toBe(
+			"$ echo global (exit code 0)\nglobal\n\n$ echo project (exit code 0)\nproject",
+		)
+		;(vscode.workspace as { isTrusted: boolean }).isTrusted = false
+		expect(await new PostEditHookRunner(cwd).runAfterEdit(["src/a.ts"])).toBe("$ echo global (exit code 0)\nglobal")
+	})
+
+	it("ignores invalid hook files", async () => {
+		const consoleSpy = vitest.spyOn(console, "error").mockImplementation(() => {})
+		await writeHooks(path.join(cwd, ".roo"), [{ files: "*.ts" }])
+
+		expect(await new PostEditHookRunner(cwd).runAfterEdit(["src/a.ts"])).toBeUndefined()
+		expect(consoleSpy).toHaveBeenCalled()
+		consoleSpy.mockRestore()
+	})
+})
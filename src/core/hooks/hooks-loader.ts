@@ -0,0 +1,61 @@
+import * as path from "path"
+import * as vscode from "vscode"
+
+import { type HooksConfig, type LifecycleHookEvent, hooksConfigSchema } from "@roo-code/types"
+
+import { getGlobalRooDirectory, getProjectRooDirectoryForCwd } from "../../services/roo-config"
+import { createCachedFileReader } from "../../utils/cachedFileReader"
+
+export const HOOKS_FILE_NAME = "hooks.json"
+
+// Hooks are loaded for every tool use, so the files are only parsed again when they change.
+const readHooksFile = createCachedFileReader((content, filePath) => {
+	if (!content.trim()) {
+		return undefined
+	}
+
+	const result = hooksConfigSchema.safeParse(JSON.parse(content))
+
+	if (!result.success) {
+		console.error(`[Hooks] Ignoring invalid hooks ${filePath}: ${result.error.message}`)
+		return undefined
+	}
+
+	return result.data
+})
+
+async function loadHooksFile(filePath: string): Promise<HooksConfig | undefined> {
+	try {
+		return await readHooksFile(filePath)
+	} catch (error) {
+		console.error(
+			`[Hooks] Failed to load hooks ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+		)
+		return undefined
+	}
+}
+
+/**
+ * Loads the hooks that apply to a workspace: the global hooks
+ * (`~/.roo/hooks.json`) followed by the project hooks (`.roo/hooks.json`).
+ * Project hooks run arbitrary commands from the repository, so they are only
+ * loaded in trusted workspaces.
+ */
+export async function loadHooks(cwd: string): Promise<HooksConfig> {
+	const configs = [await loadHooksFile(path.join(getGlobalRooDirectory(), HOOKS_FILE_NAME))]
+
+	if (vscode.workspace.isTrusted) {
+		configs.push(await loadHooksFile(path.join(getProjectRooDirectoryForCwd(cwd), HOOKS_FILE_NAME)))
+	}
+
+	const merge = (event: LifecycleHookEvent) => configs.flatMap((config) => config?.[event] ?? [])
+
+	return {
+		postEdit: configs.flatMap((config) => config?.postEdit ?? []),
+		taskStarted: merge("taskStarted"),
+		preToolUse: merge("preToolUse"),
+		postToolUse: merge("postToolUse"),
+		preCompletion: merge("preCompletion"),
+		taskCompleted: merge("taskCompleted"),
+	}
+}
@@ -157,3 +157,71 @@ describe("parseMentions - URL error handling", () => {
 		expect(result).toContain("Error fetching content: timeout")
 	})
 })
+
+describe("parseMentions - MCP", () => {
+	const mockUrlContentFetcher = {} as UrlContentFetcher
+
+	const createMcpHub = () =>
+		({
+			getServers: vi.fn().mockReturnValue([
+				{
+					name: "github",
+					config: "{}",
+					status: "connected",
+					prompts: [{ name: "review", description: "Review a pull request" }],
+				},
+			]),
+			readResource: vi.fn().mockResolvedValue({
+				contents: [{ uri: "repo://roo/issues", mimeType: "text/plain", text: "Issue list" }],
+			}),
+			getPrompt: vi.fn().mockResolvedValue({
+				messages: [{ role: "user", content: { type: "text", text: "Please review the PR" } }],
+			}),
+		}) as any
+
+	it("should include the content of mentioned MCP resources", async () => {
+		const mcpHub = createMcpHub()
+
+		const result = await parseMentions(
+			"Summarize @mcp://github/repo://roo/issues",
+			"/test",
+			mockUrlContentFetcher,
+			undefined,
+			undefined,
+			false,
+			true,
+			50,
+			undefined,
+			mcpHub,
+		)
+
+		expect(mcpHub.readResource).toHaveBeenCalledWith("github", "repo://roo/issues")
+		expect(result).toContain(
+			"MCP resource 'repo://roo/issues' from server 'github' (see below for resource content)",
+		)
+		expect(result).toContain('<mcp_resource server="github" uri="repo://roo/issues">\nIssue list\n</mcp_resource>')
+	})
+
+	it("should expand MCP prompts used as slash commands", async () => {
+		const mcpHub = createMcpHub()
+
+		const result = await parseMentions(
+			"/mcp.github.review",
+			"/test",
+			mockUrlContentFetcher,
+			undefined,
+			undefined,
+			false,
+			true,
+			50,
+			undefined,
+			mcpHub,
+		)
+
+		expect(mcpHub.getPrompt).toHaveBeenCalledWith("github", "review", {}, undefined)
+		expect(result).toContain("Command 'mcp.github.review' (see below for command content)")
+		expect(result).toContain(
+			'<command name="mcp.github.review">\nDescription: Review a pull request\n\nPlease review the PR\n</command>',
+		)
+	})
+})
@@ -4,7 +4,12 @@ import * as path from "path"
 import * as vscode from "vscode"
 import { isBinaryFile } from "isbinaryfile"
 
-import { mentionRegexGlobal, commandRegexGlobal, unescapeSpaces } from "../../shared/context-mentions"
+import {
+	mentionRegexGlobal,
+	commandRegexGlobal,
+	unescapeSpaces,
+	parseMcpResourceMention,
+} from "../../shared/context-mentions"
 
 import { getCommitInfo, getWorkingState } from "../../utils/git"
 
@@ -18,6 +23,8 @@ import { FileContextTracker } from "../context-tracking/FileContextTracker"
 
 import { RooIgnoreController } from "../ignore/RooIgnoreController"
 import { getCommand, type Command } from "../../services/command/commands"
+import { getMcpPromptCommand, renderMcpPrompt, type McpPromptCommand } from "../../services/command/mcp-prompts"
+import type { McpHub } from "../../services/mcp/McpHub"
 
 import { t } from "../../i18n"
 
@@ -81,9 +88,10 @@ export async function parseMentions(
 	includeDiagnosticMessages: boolean = true,
 	maxDiagnosticMessages: number = 50,
 	maxReadFileLine?: number,
+	mcpHub?: McpHub,
 ): Promise<string> {
 	const mentions: Set<string> = new Set()
-	const validCommands: Map<string, Command> = new Map()
+	const validCommands: Map<string, Command | McpPromptCommand> = new Map()
 
 	// First pass: check which command mentions exist and cache the results
 	const commandMatches = Array.from(text.matchAll(commandRegexGlobal))
@@ -92,7 +100,7 @@ export async function parseMentions(
 	const commandExistenceChecks = await Promise.all(
 		Array.from(uniqueCommandNames).map(async (commandName) => {
 			try {
-				const command = await getCommand(cwd, commandName)
+				const command = (await getCommand(cwd, commandName)) ?? getMcpPromptCommand(mcpHub, commandName)
 				return { commandName, command }
 			} catch (error) {
 				// If there's an error checking command existence, treat it as non-existent
@@ -134,6 +142,9 @@ export async function parseMentions(
 			return `Git commit '${mention}' (see below for commit info)`
 		} else if (mention === "terminal") {
 			return `Terminal Output (see below for output)`
+		} else if (parseMcpResourceMention(mention)) {
+			const { serverName, uri } = parseMcpResourceMention(mention)!
+			return `MCP resource '${uri}' from server '${serverName}' (see below for resource content)`
 		}
 		return match
 	})
@@ -232,6 +243,14 @@ export async function parseMentions(
 			} catch (error) {
 				parsedText += `\n\n<terminal_output>\nError fetching terminal output: ${error.message}\n</terminal_output>`
 			}
+		} else if (parseMcpResourceMention(mention)) {
+			const { serverName, uri } = parseMcpResourceMention(mention)!
+			try {
+				const content = await getMcpResourceContent(serverName, uri, mcpHub)
+				parsedText += `\n\n<mcp_resource server="${serverName}" uri="${uri}">\n${content}\n</mcp_resource>`
+			} catch (error) {
+				parsedText += `\n\n<mcp_resource server="${serverName}" uri="${uri}">\nError fetching resource: ${error.message}\n</mcp_resource>`
+			}
 		}
 	}
 
@@ -242,7 +261,12 @@ export async function parseMentions(
 			if (command.description) {
 				commandOutput += `Description: ${command.description}\n\n`
 			}
-			commandOutput += command.content
+			commandOutput +=
+				"content" in command
+					? command.content
+					: renderMcpPrompt(
+							await mcpHub!.getPrompt(command.serverName, command.promptName, {}, command.serverSource),
+						)
 			parsedText += `\n\n<command name="${commandName}">\n${commandOutput}\n</command>`
 		} catch (error) {
 			parsedText += `\n\n<command name="${commandName}">\nError loading command '${commandName}': ${error.message}\n</command>`
@@ -260,6 +284,18 @@ export async function parseMentions(
 	return parsedText
 }
 
+async function getMcpResourceContent(serverName: string, uri: string, mcpHub?: McpHub): Promise<string> {
+	if (!mcpHub) {
+		throw new Error("MCP servers are not available")
+	}
+
+	const response = await mcpHub.readResource(serverName, uri)
+
+	return response.contents
+		.map((content) => content.text ?? `[Binary resource: ${content.mimeType ?? "unknown type"}]`)
+		.join("\n\n")
+}
+
 async function getFileOrFolderContent(
 	mentionPath: string,
 	cwd: string,
@@ -5,7 +5,7 @@ export function getBrowserActionDescription(args: ToolArgs): string | undefined
 		return undefined
 	}
 	return `## browser_action
-Description: Request to interact with a Puppeteer-controlled browser. Every action, except \`close\`, will be responded to with a screenshot of the browser's current state, along with any new console logs. You may only perform one browser action per message, and wait for the user's response including a screenshot and logs to determine the next action.
+Description: Request to interact with a Puppeteer-controlled browser. Every action, except \`close\`, \`snapshot\`, \`evaluate\` and \`get_network_log\`, will be responded to with a screenshot of the browser's current state, along with any new console logs. You may only perform one browser action per message, and wait for the user's response including a screenshot and logs to determine the next action.
 
 **Browser Session Lifecycle:**
 - Browser sessions **start** with \`launch\` and **end** with \`close\`
@@ -35,9 +35,26 @@ Parameters:
         - Use with the \`size\` parameter to specify the new size.
     * scroll_down: Scroll down the page by one page height.
     * scroll_up: Scroll up the page by one page height.
+    * snapshot: Get the page's accessibility tree as text, without a screenshot. Every element is listed with a numbered reference, e.g. \`[3] button "Sign in"\` or \`[7] textbox "Email" required\`.
+        - Prefer this over screenshots and coordinates for reading the page and for forms; element actions are more reliable than clicking coordinates.
+        - References are only valid until the next snapshot. Take a new snapshot after the page changes.
+    * click_element: Click an element from the last snapshot.
+        - Use with the \`ref\` parameter to specify the element reference.
+    * fill: Replace the value of a text field from the last snapshot.
+        - Use with the \`ref\` parameter to specify the element and the \`text\` parameter to provide the value.
+    * select_option: Select an option of a select element from the last snapshot.
+        - Use with the \`ref\` parameter to specify the element and the \`text\` parameter to provide the option's value or label.
+    * wait_for: Wait up to 10 seconds for an element matching a CSS selector to become visible, or for text to appear on the page.
+        - Use with either the \`selector\` parameter or the \`text\` parameter.
+    * evaluate: Evaluate a read-only JavaScript expression in the page and get its value as JSON, without a screenshot. The expression must not modify the page.
+        - Use with the \`expression\` parameter, e.g. \`document.title\` or \`[...document.querySelectorAll("h2")].map((h) => h.textContent)\`.
+    * navigate_back: Go back to the previous page in the browser history.
+    * get_network_log: Get the network requests of the session, without a screenshot. Lists the method, status, URL and timing of the last 50 matching requests, with excerpts of XHR/fetch request and response bodies.
+        - Optionally use with the \`url\` parameter to filter by URL (a substring, or a glob such as \`*/api/*\`) and the \`status\` parameter to filter by status.
+        - Failed requests and 4xx/5xx responses are also reported after every action.
     * close: Close the Puppeteer-controlled browser instance. This **must always be the final browser action**.
         - Example: \`<action>close</action>\`
-- url: (optional) Use this for providing the URL for the \`launch\` action.
+- url: (optional) Use this for providing the URL for the \`launch\` action, or a URL pattern for the \`get_network_log\` action.
     * Example: <url>https://example.com</url>
 - coordinate: (optional) The X and Y coordinates for the \`click\` and \`hover\` actions.
     * **CRITICAL**: Screenshot dimensions are NOT the same as the browser viewport dimensions
@@ -50,13 +67,22 @@ Parameters:
     * Example B: If the browser viewport is 1280x800 but the screenshot is 1000x625 and you want to click (500,300) on the screenshot, use: <coordinate>500,300@1000x625</coordinate>
 - size: (optional) The width and height for the \`resize\` action.
     * Example: <size>1280,720</size>
-- text: (optional) Use this for providing the text for the \`type\` action.
+- text: (optional) Use this for providing the text for the \`type\`, \`press\`, \`fill\`, \`select_option\` and \`wait_for\` actions.
     * Example: <text>Hello, world!</text>
+- ref: (optional) The element reference from the last snapshot for the \`click_element\`, \`fill\` and \`select_option\` actions.
+    * Example: <ref>3</ref>
+- selector: (optional) The CSS selector for the \`wait_for\` action.
+    * Example: <selector>#results .item</selector>
+- expression: (optional) The JavaScript expression for the \`evaluate\` action.
+    * Example: <expression>document.title</expression>
+- status: (optional) The status filter for the \`get_network_log\` action: a status code (e.g. 404), a status class (e.g. 4xx), \`failed\` for requests without a response or \`error\` for both.
+    * Example: <status>4xx</status>
 Usage:
 <browser_action>
-<action>Action to perform (e.g., launch, click, type, press, scroll_down, scroll_up, close)</action>
+<action>Action to perform (e.g., launch, snapshot, click_element, fill, click, type, press, scroll_down, scroll_up, close)</action>
 <url>URL to launch the browser at (optional)</url>
 <coordinate>x,y@widthxheight coordinates (optional)</coordinate>
+<ref>Element reference from the last snapshot (optional)</ref>
 <text>Text to type (optional)</text>
 </browser_action>
 
@@ -66,6 +92,13 @@ Example: Requesting to launch a browser at https://example.com
 <url>https://example.com</url>
 </browser_action>
 
+Example: Requesting to fill the text field with reference 7 from the last snapshot
+<browser_action>
+<action>fill</action>
+<ref>7</ref>
+<text>jane@example.com</text>
+</browser_action>
+
 Example: Requesting to click on the element at coordinates 450,300 on a 1024x768 image
 <browser_action>
 <action>click</action>
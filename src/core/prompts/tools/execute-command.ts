@@ -6,10 +6,12 @@ Description: Request to execute a CLI command on the system. Use this when you n
 Parameters:
 - command: (required) The CLI command to execute. This should be valid for the current operating system. Ensure the command is properly formatted and does not contain any harmful instructions.
 - cwd: (optional) The working directory to execute the command in (default: ${args.cwd})
+- background: (optional) Set to true to run a long-running command, such as a test suite, a build or a dev server, as a background job. The tool returns immediately so you can keep working, and the exit code and the last lines of the output are reported in the environment details when the job finishes.
 Usage:
 <execute_command>
 <command>Your command here</command>
 <cwd>Working directory path (optional)</cwd>
+<background>true or false (optional)</background>
 </execute_command>
 
 Example: Requesting to execute npm run dev
@@ -17,6 +19,12 @@ Example: Requesting to execute npm run dev
 <command>npm run dev</command>
 </execute_command>
 
+Example: Requesting to run the test suite in the background
+<execute_command>
+<command>npm test</command>
+<background>true</background>
+</execute_command>
+
 Example: Requesting to execute ls in a specific directory if directed
 <execute_command>
 <command>ls -la</command>
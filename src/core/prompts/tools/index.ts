@@ -25,6 +25,9 @@ import { getCodebaseSearchDescription } from "./codebase-search"
 import { getUpdateTodoListDescription } from "./update-todo-list"
 import { getRunSlashCommandDescription } from "./run-slash-command"
 import { getGenerateImageDescription } from "./generate-image"
+import { getTerminalSessionDescription } from "./terminal-session"
+import { getLookupSymbolDescription } from "./lookup-symbol"
+import { getRenameSymbolDescription } from "./rename-symbol"
 import { CodeIndexManager } from "../../../services/code-index/manager"
 
 // Map of tool names to their description functions
@@ -56,6 +59,9 @@ const toolDescriptionMap: Record<string, (args: ToolArgs) => string | undefined>
 	update_todo_list: (args) => getUpdateTodoListDescription(args),
 	run_slash_command: () => getRunSlashCommandDescription(),
 	generate_image: (args) => getGenerateImageDescription(args),
+	terminal_session: (args) => getTerminalSessionDescription(args),
+	lookup_symbol: (args) => getLookupSymbolDescription(args),
+	rename_symbol: (args) => getRenameSymbolDescription(args),
 }
 
 export function getToolDescriptionsForMode(
@@ -176,6 +182,9 @@ export {
 	getCodebaseSearchDescription,
 	getRunSlashCommandDescription,
 	getGenerateImageDescription,
+	getTerminalSessionDescription,
+	getLookupSymbolDescription,
+	getRenameSymbolDescription,
 }
 
 // Export native tool definitions (JSON schema format for OpenAI-compatible APIs)
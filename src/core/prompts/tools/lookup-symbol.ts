@@ -0,0 +1,29 @@
+import { ToolArgs } from "./types"
+
+export function getLookupSymbolDescription(args: ToolArgs): string {
+	return `## lookup_symbol
+Description: Request to look up a symbol (variable, function, class, type, etc.) with the language services of VS Code, which understand the code like a compiler does. Use it to jump to a definition, to find every usage of a symbol before changing it, or to get its type and documentation. Results are precise across files, unlike text searches.
+Parameters:
+- action: (required) One of:
+  * definition: The location(s) where the symbol is defined.
+  * references: Every location referencing the symbol, including its declaration.
+  * hover: The type information and documentation of the symbol.
+- path: (required) The path of a file containing the symbol (relative to the current working directory ${args.cwd})
+- line: (required) The 1-based line number where the symbol appears in the file
+- symbol: (required) The name of the symbol exactly as written on that line
+Usage:
+<lookup_symbol>
+<action>references</action>
+<path>File path here</path>
+<line>Line number here</line>
+<symbol>Symbol name here</symbol>
+</lookup_symbol>
+
+Example: Finding the usages of a function defined on line 12
+<lookup_symbol>
+<action>references</action>
+<path>src/utils/format.ts</path>
+<line>12</line>
+<symbol>formatDate</symbol>
+</lookup_symbol>`
+}
@@ -1,21 +1,40 @@
 import type OpenAI from "openai"
 
-const BROWSER_ACTION_DESCRIPTION = `Request to interact with a Puppeteer-controlled browser. Every action, except close, will be responded to with a screenshot of the browser's current state, along with any new console logs. You may only perform one browser action per message, and wait for the user's response including a screenshot and logs to determine the next action.
+const BROWSER_ACTION_DESCRIPTION = `Request to interact with a Puppeteer-controlled browser. Every action, except close, snapshot, evaluate and get_network_log, will be responded to with a screenshot of the browser's current state, along with any new console logs. You may only perform one browser action per message, and wait for the user's response including a screenshot and logs to determine the next action.
 
 Browser Session Lifecycle:
 - Browser sessions start with launch and end with close
 - The session remains active across multiple messages and tool uses
-- You can use other tools while the browser session is active - it will stay open in the background`
+- You can use other tools while the browser session is active - it will stay open in the background
+
+Element actions:
+- snapshot returns the page's accessibility tree as text, with a numbered reference for every element (e.g. '[3] button "Sign in"'). Prefer it over screenshots and coordinates for reading pages and filling forms.
+- click_element, fill and select_option target an element of the last snapshot by its reference. References are only valid until the next snapshot.
+- wait_for waits up to 10 seconds for a CSS selector to become visible or for text to appear.
+- evaluate returns the JSON value of a read-only JavaScript expression; it must not modify the page.
+- navigate_back goes back in the browser history.
+
+Network:
+- get_network_log lists the session's network requests (method, status, URL, timing and XHR/fetch body excerpts), optionally filtered by url and status.
+- Failed requests and 4xx/5xx responses are also reported after every action.`
 
 const ACTION_PARAMETER_DESCRIPTION = `Browser action to perform`
 
-const URL_PARAMETER_DESCRIPTION = `URL to open when performing the launch action; must include protocol`
+const URL_PARAMETER_DESCRIPTION = `URL to open when performing the launch action; must include protocol. For get_network_log, a URL substring or glob (e.g. '*/api/*') to filter requests by`
 
 const COORDINATE_PARAMETER_DESCRIPTION = `Screen coordinate for hover or click actions in format 'x,y@WIDTHxHEIGHT' where x,y is the target position on the screenshot image and WIDTHxHEIGHT is the exact pixel dimensions of the screenshot image (not the browser viewport). Example: '450,203@900x600' means click at (450,203) on a 900x600 screenshot. The coordinates will be automatically scaled to match the actual viewport dimensions.`
 
 const SIZE_PARAMETER_DESCRIPTION = `Viewport dimensions for the resize action in format 'WIDTHxHEIGHT' or 'WIDTH,HEIGHT'. Example: '1280x800' or '1280,800'`
 
-const TEXT_PARAMETER_DESCRIPTION = `Text to type when performing the type action, or key name to press when performing the press action (e.g., 'Enter', 'Tab', 'Escape')`
+const TEXT_PARAMETER_DESCRIPTION = `Text to type when performing the type action, key name to press when performing the press action (e.g., 'Enter', 'Tab', 'Escape'), value for the fill action, option value or label for the select_option action, or text to wait for with the wait_for action`
+
+const REF_PARAMETER_DESCRIPTION = `Element reference from the last snapshot for the click_element, fill and select_option actions. Example: 3`
+
+const SELECTOR_PARAMETER_DESCRIPTION = `CSS selector to wait for with the wait_for action`
+
+const EXPRESSION_PARAMETER_DESCRIPTION = `Read-only JavaScript expression to evaluate in the page with the evaluate action. Example: 'document.title'`
+
+const STATUS_PARAMETER_DESCRIPTION = `Status filter for the get_network_log action: a status code (e.g. '404'), a status class (e.g. '4xx'), 'failed' for requests without a response, or 'error' for both`
 
 export default {
 	type: "function",
@@ -29,7 +48,25 @@ export default {
 				action: {
 					type: "string",
 					description: ACTION_PARAMETER_DESCRIPTION,
-					enum: ["launch", "click", "hover", "type", "press", "scroll_down", "scroll_up", "resize", "close"],
+					enum: [
+						"launch",
+						"click",
+						"hover",
+						"type",
+						"press",
+						"scroll_down",
+						"scroll_up",
+						"resize",
+						"snapshot",
+						"click_element",
+						"fill",
+						"select_option",
+						"wait_for",
+						"evaluate",
+						"navigate_back",
+						"get_network_log",
+						"close",
+					],
 				},
 				url: {
 					type: ["string", "null"],
@@ -47,6 +84,22 @@ export default {
 					type: ["string", "null"],
 					description: TEXT_PARAMETER_DESCRIPTION,
 				},
+				ref: {
+					type: ["integer", "null"],
+					description: REF_PARAMETER_DESCRIPTION,
+				},
+				selector: {
+					type: ["string", "null"],
+					description: SELECTOR_PARAMETER_DESCRIPTION,
+				},
+				expression: {
+					type: ["string", "null"],
+					description: EXPRESSION_PARAMETER_DESCRIPTION,
+				},
+				status: {
+					type: ["string", "null"],
+					description: STATUS_PARAMETER_DESCRIPTION,
+				},
 			},
 			required: ["action"],
 			additionalProperties: false,
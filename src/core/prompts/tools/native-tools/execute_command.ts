@@ -5,20 +5,26 @@ const EXECUTE_COMMAND_DESCRIPTION = `Request to execute a CLI command on the sys
 Parameters:
 - command: (required) The CLI command to execute. This should be valid for the current operating system. Ensure the command is properly formatted and does not contain any harmful instructions.
 - cwd: (optional) The working directory to execute the command in
+- background: (optional) Set to true to run a long-running command, such as a test suite, a build or a dev server, as a background job. The tool returns immediately so you can keep working, and the exit code and the last lines of the output are reported in the environment details when the job finishes.
 
 Example: Executing npm run dev
-{ "command": "npm run dev", "cwd": null }
+{ "command": "npm run dev", "cwd": null, "background": null }
+
+Example: Running the test suite in the background
+{ "command": "npm test", "cwd": null, "background": true }
 
 Example: Executing ls in a specific directory if directed
-{ "command": "ls -la", "cwd": "/home/user/projects" }
+{ "command": "ls -la", "cwd": "/home/user/projects", "background": null }
 
 Example: Using relative paths
-{ "command": "touch ./testdata/example.file", "cwd": null }`
+{ "command": "touch ./testdata/example.file", "cwd": null, "background": null }`
 
 const COMMAND_PARAMETER_DESCRIPTION = `Shell command to execute`
 
 const CWD_PARAMETER_DESCRIPTION = `Optional working directory for the command, relative or absolute`
 
+const BACKGROUND_PARAMETER_DESCRIPTION = `Set to true to run the command as a background job and continue working`
+
 export default {
 	type: "function",
 	function: {
@@ -36,8 +42,12 @@ export default {
 					type: ["string", "null"],
 					description: CWD_PARAMETER_DESCRIPTION,
 				},
+				background: {
+					type: ["boolean", "null"],
+					description: BACKGROUND_PARAMETER_DESCRIPTION,
+				},
 			},
-			required: ["command", "cwd"],
+			required: ["command", "cwd", "background"],
 			additionalProperties: false,
 		},
 	},
@@ -11,12 +11,15 @@ import fetchInstructions from "./fetch_instructions"
 import generateImage from "./generate_image"
 import listCodeDefinitionNames from "./list_code_definition_names"
 import listFiles from "./list_files"
+import lookupSymbol from "./lookup_symbol"
 import newTask from "./new_task"
 import { createReadFileTool } from "./read_file"
+import renameSymbol from "./rename_symbol"
 import runSlashCommand from "./run_slash_command"
 import searchAndReplace from "./search_and_replace"
 import searchFiles from "./search_files"
 import switchMode from "./switch_mode"
+import terminalSession from "./terminal_session"
 import updateTodoList from "./update_todo_list"
 import writeToFile from "./write_to_file"
 
@@ -43,12 +46,15 @@ export function getNativeTools(partialReadsEnabled: boolean = true): OpenAI.Chat
 		generateImage,
 		listCodeDefinitionNames,
 		listFiles,
+		lookupSymbol,
 		newTask,
 		createReadFileTool(partialReadsEnabled),
+		renameSymbol,
 		runSlashCommand,
 		searchAndReplace,
 		searchFiles,
 		switchMode,
+		terminalSession,
 		updateTodoList,
 		writeToFile,
 	] satisfies OpenAI.Chat.ChatCompletionTool[]
@@ -0,0 +1,44 @@
+import type OpenAI from "openai"
+
+const LOOKUP_SYMBOL_DESCRIPTION = `Request to look up a symbol (variable, function, class, type, etc.) with the language services of VS Code, which understand the code like a compiler does. Use it to jump to a definition, to find every usage of a symbol before changing it, or to get its type and documentation. Results are precise across files, unlike text searches.
+
+Actions:
+- definition: The location(s) where the symbol is defined.
+- references: Every location referencing the symbol, including its declaration.
+- hover: The type information and documentation of the symbol.
+
+Example: Finding the usages of a function defined on line 12
+{ "action": "references", "path": "src/utils/format.ts", "line": 12, "symbol": "formatDate" }`
+
+export default {
+	type: "function",
+	function: {
+		name: "lookup_symbol",
+		description: LOOKUP_SYMBOL_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				action: {
+					type: "string",
+					description: "What to look up",
+					enum: ["definition", "references", "hover"],
+				},
+				path: {
+					type: "string",
+					description: "Path of a file containing the symbol, relative to the workspace",
+				},
+				line: {
+					type: "integer",
+					description: "1-based line number where the symbol appears in the file",
+				},
+				symbol: {
+					type: "string",
+					description: "Name of the symbol exactly as written on that line",
+				},
+			},
+			required: ["action", "path", "line", "symbol"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
@@ -0,0 +1,38 @@
+import type OpenAI from "openai"
+
+const RENAME_SYMBOL_DESCRIPTION = `Request to rename a symbol (variable, function, class, type, etc.) and update every reference to it across the workspace, using the language services of VS Code. Prefer this over editing the files yourself for renames, as it only changes real references and not unrelated text. The user reviews the changes to every file before they are applied.
+
+Example: Renaming a class declared on line 8
+{ "path": "src/models/user.ts", "line": 8, "symbol": "UserRecord", "new_name": "UserProfile" }`
+
+export default {
+	type: "function",
+	function: {
+		name: "rename_symbol",
+		description: RENAME_SYMBOL_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: "Path of a file containing the symbol, relative to the workspace",
+				},
+				line: {
+					type: "integer",
+					description: "1-based line number where the symbol appears in the file",
+				},
+				symbol: {
+					type: "string",
+					description: "Current name of the symbol exactly as written on that line",
+				},
+				new_name: {
+					type: "string",
+					description: "New name of the symbol",
+				},
+			},
+			required: ["path", "line", "symbol", "new_name"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
@@ -0,0 +1,67 @@
+import type OpenAI from "openai"
+
+import { terminalSessionKeys } from "../../../../integrations/terminal/types"
+
+const TERMINAL_SESSION_DESCRIPTION = `Run a long-lived interactive program, such as a REPL, a debugger or a dev server, in a named session and interact with it. Use this instead of execute_command when the program waits for input or keeps running. Every line of input is a command for the program and needs approval like a command run with execute_command.
+
+Actions:
+- start: Start a new session running the command. The initial output is returned.
+- send: Send input to the session (each line is followed by Enter), and/or press a control key. The output printed in response is returned.
+- read: Read the output printed since the cursor, or since the previous read if no cursor is given.
+- list: List the sessions of this task and their status.
+- kill: Kill the session.
+
+Example: Starting a Python REPL
+{ "action": "start", "session": "python", "command": "python3 -i", "cwd": null, "input": null, "key": null, "cursor": null }
+
+Example: Evaluating an expression in the REPL
+{ "action": "send", "session": "python", "command": null, "cwd": null, "input": "print(2 ** 10)", "key": null, "cursor": null }
+
+Example: Interrupting a running program
+{ "action": "send", "session": "dev-server", "command": null, "cwd": null, "input": null, "key": "ctrl+c", "cursor": null }`
+
+export default {
+	type: "function",
+	function: {
+		name: "terminal_session",
+		description: TERMINAL_SESSION_DESCRIPTION,
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				action: {
+					type: "string",
+					description: "Action to perform",
+					enum: ["start", "send", "read", "list", "kill"],
+				},
+				session: {
+					type: ["string", "null"],
+					description: "Name of the session; required for every action except list",
+				},
+				command: {
+					type: ["string", "null"],
+					description: "Command that starts the program (start only)",
+				},
+				cwd: {
+					type: ["string", "null"],
+					description: "Optional working directory for the program, relative or absolute (start only)",
+				},
+				input: {
+					type: ["string", "null"],
+					description: "Text to send; each line is followed by Enter (send only)",
+				},
+				key: {
+					type: ["string", "null"],
+					description: "Control key to press after the input (send only)",
+					enum: [...terminalSessionKeys, null],
+				},
+				cursor: {
+					type: ["number", "null"],
+					description: "Cursor returned by a previous action to read the output since (read only)",
+				},
+			},
+			required: ["action", "session", "command", "cwd", "input", "key", "cursor"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
@@ -0,0 +1,26 @@
+import { ToolArgs } from "./types"
+
+export function getRenameSymbolDescription(args: ToolArgs): string {
+	return `## rename_symbol
+Description: Request to rename a symbol (variable, function, class, type, etc.) and update every reference to it across the workspace, using the language services of VS Code. Prefer this over editing the files yourself for renames, as it only changes real references and not unrelated text. The user reviews the changes to every file before they are applied.
+Parameters:
+- path: (required) The path of a file containing the symbol (relative to the current working directory ${args.cwd})
+- line: (required) The 1-based line number where the symbol appears in the file
+- symbol: (required) The current name of the symbol exactly as written on that line
+- new_name: (required) The new name of the symbol
+Usage:
+<rename_symbol>
+<path>File path here</path>
+<line>Line number here</line>
+<symbol>Current name here</symbol>
+<new_name>New name here</new_name>
+</rename_symbol>
+
+Example: Renaming a class declared on line 8
+<rename_symbol>
+<path>src/models/user.ts</path>
+<line>8</line>
+<symbol>UserRecord</symbol>
+<new_name>UserProfile</new_name>
+</rename_symbol>`
+}
@@ -0,0 +1,47 @@
+import { ToolArgs } from "./types"
+
+export function getTerminalSessionDescription(args: ToolArgs): string | undefined {
+	return `## terminal_session
+Description: Request to run a long-lived interactive program, such as a REPL, a debugger or a dev server, in a named session and interact with it. Use this instead of execute_command when the program waits for input or keeps running. Every line of input is a command for the program and needs approval like a command run with execute_command. The output of a session is kept, so you can read what it printed since a cursor at any time.
+Parameters:
+- action: (required) One of:
+    * start: Start a new session running \`command\`. The initial output is returned.
+    * send: Send \`input\` to the session (each line is followed by Enter), and/or press a control \`key\`. The output printed in response is returned.
+    * read: Read the output printed since \`cursor\`, or since the previous read if no cursor is given.
+    * list: List the sessions of this task and their status.
+    * kill: Kill the session.
+- session: (required except for list) The name of the session, e.g. "python" or "dev-server". Names are unique within a task.
+- command: (required for start) The command that starts the program.
+- cwd: (optional, for start) The working directory to start the program in (default: ${args.cwd})
+- input: (optional, for send) The text to send. Multiple lines are sent one by one.
+- key: (optional, for send) A control key to press after the input: ctrl+c, ctrl+d, ctrl+z, ctrl+\\, escape, tab, enter, up, down, left or right.
+- cursor: (optional, for read) The cursor returned by a previous action.
+Usage:
+<terminal_session>
+<action>start, send, read, list or kill</action>
+<session>Session name</session>
+<command>Command (for start)</command>
+<input>Input (for send)</input>
+</terminal_session>
+
+Example: Starting a Python REPL
+<terminal_session>
+<action>start</action>
+<session>python</session>
+<command>python3 -i</command>
+</terminal_session>
+
+Example: Evaluating an expression in the REPL
+<terminal_session>
+<action>send</action>
+<session>python</session>
+<input>print(2 ** 10)</input>
+</terminal_session>
+
+Example: Interrupting a running program
+<terminal_session>
+<action>send</action>
+<session>dev-server</session>
+<key>ctrl+c</key>
+</terminal_session>`
+}
@@ -0,0 +1,49 @@
+// npx vitest run core/sandbox/__tests__/sandboxProfile.spec.ts
+
+import type { ModeConfig } from "@roo-code/types"
+
+import { resolveSandboxProfile, SandboxProfileError } from "../sandboxProfile"
+
+vi.mock("vscode", () => ({
+	workspace: { getConfiguration: vi.fn() },
+}))
+
+describe("resolveSandboxProfile", () => {
+	const strict = { network: false, limits: { timeoutSeconds: 60 } }
+	const profiles = { strict }
+	const customModes: ModeConfig[] = [
+		{
+			slug: "tester",
+			name: "Tester",
+			roleDefinition: "You run tests.",
+			groups: ["command"],
+			sandboxProfile: "strict",
+		},
+	]
+
+	it("uses the profile selected by the mode", () => {
+		expect(resolveSandboxProfile({ mode: "tester", customModes, profiles })).toBe(strict)
+	})
+
+	it("runs commands unsandboxed when the mode selects no profile", () => {
+		expect(resolveSandboxProfile({ mode: "code", customModes, profiles })).toBeUndefined()
+	})
+
+	it("throws when the mode selects an undefined profile", () => {
+		expect(() => resolveSandboxProfile({ mode: "tester", customModes, profiles: {} })).toThrow(SandboxProfileError)
+	})
+
+	it("enforces the managed policy for the modes it covers", () => {
+		const managed = { backend: "docker" as const, image: "node:22" }
+
+		expect(resolveSandboxProfile({ mode: "code", profiles, managedPolicy: { profile: managed } })).toBe(managed)
+		expect(
+			resolveSandboxProfile({
+				mode: "tester",
+				customModes,
+				profiles,
+				managedPolicy: { profile: managed, modes: ["code"] },
+			}),
+		).toBe(strict)
+	})
+})
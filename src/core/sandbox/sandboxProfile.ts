@@ -0,0 +1,87 @@
+import * as vscode from "vscode"
+
+import { type ModeConfig, type SandboxProfile, type SandboxProfiles, sandboxProfilesSchema } from "@roo-code/types"
+
+import { MdmService, type MdmSandboxPolicy } from "../../services/mdm/MdmService"
+import { validateSandboxProfile } from "../../integrations/terminal/sandbox"
+import { getModeBySlug } from "../../shared/modes"
+import { Package } from "../../shared/package"
+import type { Task } from "../task/Task"
+
+export class SandboxProfileError extends Error {}
+
+/**
+ * Picks the sandbox profile for the commands of a mode. A managed (MDM) policy
+ * that covers the mode takes precedence over the profile the mode selects with
+ * `sandboxProfile`.
+ *
+ * @throws SandboxProfileError if the mode selects a profile that is not defined
+ */
+export function resolveSandboxProfile({
+	mode,
+	customModes,
+	profiles,
+	managedPolicy,
+}: {
+	mode: string
+	customModes?: ModeConfig[]
+	profiles: SandboxProfiles
+	managedPolicy?: MdmSandboxPolicy
+}): SandboxProfile | undefined {
+	if (managedPolicy && (!managedPolicy.modes || managedPolicy.modes.includes(mode))) {
+		return managedPolicy.profile
+	}
+
+	const name = getModeBySlug(mode, customModes)?.sandboxProfile
+
+	if (!name) {
+		return undefined
+	}
+
+	const profile = profiles[name]
+
+	if (!profile) {
+		throw new SandboxProfileError(
+			`The mode "${mode}" runs commands in the sandbox profile "${name}", which is not defined in the ${Package.name}.sandboxProfiles setting.`,
+		)
+	}
+
+	return profile
+}
+
+function getConfiguredSandboxProfiles(): SandboxProfiles {
+	const result = sandboxProfilesSchema.safeParse(
+		vscode.workspace.getConfiguration(Package.name).get("sandboxProfiles", {}),
+	)
+
+	if (!result.success) {
+		throw new SandboxProfileError(`The ${Package.name}.sandboxProfiles setting is invalid: ${result.error.message}`)
+	}
+
+	return result.data
+}
+
+/**
+ * Returns the sandbox profile that the commands of a task must run in, after
+ * checking that it can be used on this machine. Commands never run
+ * unsandboxed when a profile applies.
+ *
+ * @throws SandboxProfileError or SandboxUnavailableError if the commands
+ * cannot run
+ */
+export async function getSandboxProfileForTask(task: Task): Promise<SandboxProfile | undefined> {
+	const state = await task.providerRef.deref()?.getState()
+
+	const profile = resolveSandboxProfile({
+		mode: await task.getTaskMode(),
+		customModes: state?.customModes,
+		profiles: getConfiguredSandboxProfiles(),
+		managedPolicy: MdmService.hasInstance() ? MdmService.getInstance().getSandboxPolicy() : undefined,
+	})
+
+	if (profile) {
+		validateSandboxProfile(profile)
+	}
+
+	return profile
+}
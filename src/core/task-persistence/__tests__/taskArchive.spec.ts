@@ -0,0 +1,162 @@
+// npx vitest core/task-persistence/__tests__/taskArchive.spec.ts
+
+import * as os from "os"
+import * as path from "path"
+import * as fs from "fs/promises"
+
+import type { ClineMessage, HistoryItem } from "@roo-code/types"
+
+import { ShadowCheckpointService } from "../../../services/checkpoints/ShadowCheckpointService"
+
+import { readApiMessages, saveApiMessages } from "../apiMessages"
+import { readTaskMessages, saveTaskMessages } from "../taskMessages"
+import { createTaskArchive, parseTaskArchive, remapWorkspacePath, restoreTaskArchive } from "../taskArchive"
+
+vi.mock("../../../services/checkpoints/ShadowCheckpointService", () => ({
+	ShadowCheckpointService: {
+		bundleTaskRepo: vi.fn(),
+		restoreTaskRepo: vi.fn(),
+	},
+}))
+
+let globalStoragePath: string
+
+const historyItem: HistoryItem = {
+	id: "task-1",
+	rootTaskId: "root-task",
+	parentTaskId: "root-task",
+	number: 2,
+	ts: 1_000,
+	task: "Fix /home/alice/project/src/app.ts",
+	tokensIn: 10,
+	tokensOut: 20,
+	totalCost: 0.1,
+	workspace: "/home/alice/project",
+	status: "delegated",
+}
+
+const uiMessages: ClineMessage[] = [
+	{ ts: 1, type: "say", say: "text", text: "Fix /home/alice/project/src/app.ts, not /home/alice/project-old" },
+	{ ts: 2, type: "say", say: "checkpoint_saved", text: "abc123" },
+	{
+		ts: 3,
+		type: "ask",
+		ask: "tool",
+		text: JSON.stringify({ tool: "updateTodoList", todos: [{ id: "1", content: "Fix it", status: "pending" }] }),
+	},
+]
+
+beforeEach(async () => {
+	vi.clearAllMocks()
+	globalStoragePath = await fs.mkdtemp(path.join(os.tmpdir(), "roo-archive-"))
+
+	await saveTaskMessages({ taskId: "task-1", globalStoragePath, messages: uiMessages })
+	await saveApiMessages({
+		taskId: "task-1",
+		globalStoragePath,
+		messages: [{ role: "user", ts: 1, content: "Fix /home/alice/project/src/app.ts" }],
+	})
+})
+
+afterEach(async () => {
+	await fs.rm(globalStoragePath, { recursive: true, force: true })
+})
+
+describe("taskArchive", () => {
+	it("moves a task to another workspace", async () => {
+		vi.mocked(ShadowCheckpointService.bundleTaskRepo).mockResolvedValue(Buffer.from("bundle"))
+
+		const archive = await createTaskArchive({ historyItem, globalStoragePath, includeCheckpoints: true })
+
+		expect(ShadowCheckpointService.bundleTaskRepo).toHaveBeenCalledWith({
+			taskId: "task-1",
+			globalStorageDir: globalStoragePath,
+			commitHashes: ["abc123"],
+		})
+		expect(archive.todos).toEqual([{ id: "1", content: "Fix it", status: "pending" }])
+
+		// The archive survives serialization.
+		const parsed = parseTaskArchive(JSON.stringify(archive))
+
+		const restored = await restoreTaskArchive({
+			archive: parsed,
+			taskId: "task-2",
+			globalStoragePath,
+			workspace: "/Users/bob/work",
+		})
+
+		expect(restored).toEqual({
+			id: "task-2",
+			number: 2,
+			ts: 1_000,
+			task: "Fix /Users/bob/work/src/app.ts",
+			tokensIn: 10,
+			tokensOut: 20,
+			totalCost: 0.1,
+			workspace: "/Users/bob/work",
+			status: "active",
+		})
+
+		const messages = await readTaskMessages({ taskId: "task-2", globalStoragePath })
+		expect(messages[0].text).toBe("Fix /Users/bob/work/src/app.ts, not /home/alice/project-old")
+		expect(messages).toHaveLength(uiMessages.length)
+
+		expect(await readApiMessages({ taskId: "task-2", globalStoragePath })).toEqual([
+			{ role: "user", ts: 1, content: "Fix /Users/bob/work/src/app.ts" },
+		])
+
+		expect(ShadowCheckpointService.restoreTaskRepo).toHaveBeenCalledWith({
+			taskId: "task-2",
+			globalStorageDir: globalStoragePath,
+			workspaceDir: "/Users/bob/work",
+			bundle: Buffer.from("bundle"),
+		})
+	})
+
+	it("leaves the checkpoints out unless asked to include them", async () => {
+		const archive = await createTaskArchive({ historyItem, globalStoragePath })
+
+		expect(archive.checkpoints).toBeUndefined()
+		expect(ShadowCheckpointService.bundleTaskRepo).not.toHaveBeenCalled()
+	})
+
+	it("removes the restored task if its checkpoints can't be restored", async () => {
+		vi.mocked(ShadowCheckpointService.restoreTaskRepo).mockRejectedValue(new Error("bad bundle"))
+
+		const archive = await createTaskArchive({ historyItem, globalStoragePath })
+
+		await expect(
+			restoreTaskArchive({
+				archive: { ...archive, checkpoints: "YnVuZGxl" },
+				taskId: "task-2",
+				globalStoragePath,
+				workspace: "/Users/bob/work",
+			}),
+		).rejects.toThrow("bad bundle")
+
+		await expect(fs.access(path.join(globalStoragePath, "tasks", "task-2"))).rejects.toThrow()
+	})
+})
+
+describe("parseTaskArchive", () => {
+	it("rejects files that aren't task archives", () => {
+		expect(() => parseTaskArchive("not json")).toThrow("The file is not a task archive")
+		expect(() => parseTaskArchive(JSON.stringify({ tasks: [] }))).toThrow("The file is not a task archive")
+		expect(() => parseTaskArchive(JSON.stringify({ version: 1 }))).toThrow("Invalid task archive")
+	})
+
+	it("rejects archives created by a newer version", () => {
+		expect(() => parseTaskArchive(JSON.stringify({ version: 99 }))).toThrow(
+			"The task archive uses format version 99, but only versions up to 1 are supported",
+		)
+	})
+})
+
+describe("remapWorkspacePath", () => {
+	it("replaces the workspace path in nested values", () => {
+		expect(remapWorkspacePath({ paths: ["/a/b", "/a/b/c", "/a/bc", "/a/b.old"], n: 1 }, "/a/b", "/x")).toEqual({
+			paths: ["/x", "/x/c", "/a/bc", "/a/b.old"],
+			n: 1,
+		})
+	})
+})
@@ -10,6 +10,9 @@ const hoisted = vi.hoisted(() => ({
 vi.mock("../../../utils/safeWriteJson", () => ({
 	safeWriteJson: hoisted.safeWriteJsonMock,
 }))
+vi.mock("../taskSearchIndex", () => ({
+	scheduleTaskSearchIndexUpdate: vi.fn(),
+}))
 
 // Import after mocks
 import { saveTaskMessages } from "../taskMessages"
@@ -0,0 +1,213 @@
+// npx vitest core/task-persistence/__tests__/taskSearchIndex.spec.ts
+
+import * as os from "os"
+import * as path from "path"
+import * as fs from "fs/promises"
+
+import type { ClineMessage, HistoryItem } from "@roo-code/types"
+
+import { saveApiMessages } from "../apiMessages"
+import { saveTaskMessages } from "../taskMessages"
+import { getSnippet, searchTaskHistory, tokenize } from "../taskSearchIndex"
+
+let globalStoragePath: string
+
+const historyItem = (id: string, overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+	id,
+	number: 1,
+	ts: 1_000,
+	task: `Task ${id}`,
+	tokensIn: 0,
+	tokensOut: 0,
+	totalCost: 0,
+	workspace: "/workspace",
+	...overrides,
+})
+
+const say = (ts: number, text: string, overrides: Partial<ClineMessage> = {}): ClineMessage => ({
+	ts,
+	type: "say",
+	say: "text",
+	text,
+	...overrides,
+})
+
+const writeTaskFile = async (taskId: string, fileName: string, data: unknown) => {
+	const taskDir = path.join(globalStoragePath, "tasks", taskId)
+	await fs.mkdir(taskDir, { recursive: true })
+	await fs.writeFile(path.join(taskDir, fileName), JSON.stringify(data))
+}
+
+beforeEach(async () => {
+	// Scheduled index updates only run when a test advances the timers.
+	vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] })
+	globalStoragePath = await fs.mkdtemp(path.join(os.tmpdir(), "roo-search-"))
+})
+
+afterEach(async () => {
+	vi.useRealTimers()
+	await fs.rm(globalStoragePath, { recursive: true, force: true })
+})
+
+describe("tokenize", () => {
+	it("lowercases words and drops single characters", () => {
+		expect(tokenize("Fix the Redis-timeout in a café_2")).toEqual([
+			"fix",
+			"the",
+			"redis",
+			"timeout",
+			"in",
+			"café_2",
+		])
+	})
+})
+
+describe("getSnippet", () => {
+	it("centers the snippet on the first match and highlights every term", () => {
+		const text = `${"a ".repeat(100)}the Redis\ntimeout, redis again${" b".repeat(100)}`
+		const { snippet, highlights } = getSnippet(text, ["redis", "timeout"])
+
+		expect(snippet.startsWith("…")).toBe(true)
+		expect(snippet.endsWith("…")).toBe(true)
+		expect(snippet).toContain("the Redis timeout, redis again")
+		expect(highlights.map(([start, end]) => snippet.slice(start, end))).toEqual(["Redis", "timeout", "redis"])
+	})
+})
+
+describe("searchTaskHistory", () => {
+	it("finds tasks by the content of their conversations", async () => {
+		await saveTaskMessages({
+			taskId: "task-1",
+			globalStoragePath,
+			messages: [
+				say(1, "Please look into the Redis timeout"),
+				say(2, "", { say: "api_req_started", text: '{"request":"redis"}' }),
+				say(3, JSON.stringify({ tool: "readFile", path: "src/cache.ts" }), { type: "ask", ask: "tool" }),
+			],
+		})
+
+		await saveApiMessages({
+			taskId: "task-1",
+			globalStoragePath,
+			messages: [
+				{
+					role: "user",
+					ts: 4,
+					content: [
+						{ type: "tool_result", tool_use_id: "1", content: "export const cacheTimeout = 5_000" },
+						{ type: "text", text: "<environment_details>unrelated</environment_details>" },
+					],
+				},
+			],
+		})
+
+		await saveTaskMessages({ taskId: "task-2", globalStoragePath, messages: [say(1, "Unrelated work")] })
+
+		const taskHistory = [historyItem("task-1"), historyItem("task-2")]
+
+		const results = await searchTaskHistory({ query: "redis timeout", taskHistory, globalStoragePath })
+		expect(results).toHaveLength(1)
+		expect(results[0]).toMatchObject({ taskId: "task-1", matches: [{ ts: 1 }] })
+		expect(results[0].matches[0].snippet).toBe("Please look into the Redis timeout")
+
+		// The last term matches as a prefix, ranked below exact matches.
+		expect(await searchTaskHistory({ query: "cache", taskHistory, globalStoragePath })).toMatchObject([
+			{ taskId: "task-1", matches: [{ ts: 3, snippet: "readFile src/cache.ts" }, { ts: 4 }] },
+		])
+
+		expect(await searchTaskHistory({ query: "cacheti", taskHistory, globalStoragePath })).toMatchObject([
+			{ taskId: "task-1", matches: [{ ts: 4 }] },
+		])
+
+		// Request metadata and environment details aren't indexed.
+		expect(await searchTaskHistory({ query: "request", taskHistory, globalStoragePath })).toEqual([])
+		expect(await searchTaskHistory({ query: "unrelated", taskHistory, globalStoragePath })).toMatchObject([
+			{ taskId: "task-2" },
+		])
+	})
+
+	it("updates the index shortly after messages were saved", async () => {
+		const indexPath = path.join(globalStoragePath, "tasks", "task-1", "search_index.json")
+		const readIndex = async () => JSON.parse(await fs.readFile(indexPath, "utf8"))
+
+		await saveTaskMessages({ taskId: "task-1", globalStoragePath, messages: [say(1, "First message")] })
+		await saveApiMessages({
+			taskId: "task-1",
+			globalStoragePath,
+			messages: [{ role: "assistant", ts: 2, content: "Reply" }],
+		})
+		await saveTaskMessages({
+			taskId: "task-1",
+			globalStoragePath,
+			messages: [say(1, "First message"), say(3, "Second message")],
+		})
+		await expect(fs.access(indexPath)).rejects.toThrow()
+
+		await vi.advanceTimersByTimeAsync(2_000)
+		await vi.waitFor(() => fs.access(indexPath))
+
+		const index = await readIndex()
+		expect(index.ui.map(({ ts }: { ts: number }) => ts)).toEqual([1, 3])
+		expect(index.api.map(({ ts }: { ts: number }) => ts)).toEqual([2])
+	})
+
+	it("updates the index when it is searched after messages were saved", async () => {
+		const taskHistory = [historyItem("task-1")]
+		const messages = [say(1, "First message")]
+		const indexPath = path.join(globalStoragePath, "tasks", "task-1", "search_index.json")
+
+		await saveTaskMessages({ taskId: "task-1", globalStoragePath, messages })
+		await expect(fs.access(indexPath)).rejects.toThrow()
+
+		expect(await searchTaskHistory({ query: "second", taskHistory, globalStoragePath })).toEqual([])
+		await expect(fs.access(indexPath)).resolves.toBeUndefined()
+
+		await saveTaskMessages({ taskId: "task-1", globalStoragePath, messages: [...messages, say(2, "Second one")] })
+		expect(await searchTaskHistory({ query: "second", taskHistory, globalStoragePath })).toMatchObject([
+			{ taskId: "task-1", matches: [{ ts: 2 }] },
+		])
+	})
+
+	it("indexes tasks saved before the index existed", async () => {
+		await writeTaskFile("task-1", "ui_messages.json", [say(1, "Legacy conversation")])
+
+		expect(
+			await searchTaskHistory({ query: "legacy", taskHistory: [historyItem("task-1")], globalStoragePath }),
+		).toMatchObject([{ taskId: "task-1", matches: [{ ts: 1 }] }])
+	})
+
+	it("applies the filters", async () => {
+		const taskHistory = [
+			historyItem("task-1", { mode: "code", totalCost: 0.5, ts: 1_000, status: "completed" }),
+			historyItem("task-2", { mode: "ask", totalCost: 2, ts: 2_000, workspace: "/other" }),
+		]
+
+		for (const { id } of taskHistory) {
+			await saveTaskMessages({ taskId: id, globalStoragePath, messages: [say(1, "Shared words")] })
+		}
+
+		await writeTaskFile("task-2", "task_metadata.json", { files_in_context: [{ path: "src/Server.ts" }] })
+
+		const search = async (filters: Parameters<typeof searchTaskHistory>[0]["filters"], query = "shared") =>
+			(await searchTaskHistory({ query, filters, taskHistory, globalStoragePath })).map(({ taskId }) => taskId)
+
+		expect(await search({})).toEqual(["task-1", "task-2"])
+		expect(await search({ workspace: "/workspace" })).toEqual(["task-1"])
+		expect(await search({ mode: "ask" })).toEqual(["task-2"])
+		expect(await search({ minCost: 1 })).toEqual(["task-2"])
+		expect(await search({ maxCost: 1 })).toEqual(["task-1"])
+		expect(await search({ from: 1_500, to: 2_500 })).toEqual(["task-2"])
+		expect(await search({ status: "completed" })).toEqual(["task-1"])
+		expect(await search({ file: "server.ts" })).toEqual(["task-2"])
+
+		// Without a query, every task matching the filters is returned.
+		expect(await search({ mode: "code" }, "")).toEqual(["task-1"])
+	})
+
+	it("only limits the results when asked to", async () => {
+		const taskHistory = Array.from({ length: 150 }, (_, i) => historyItem(`task-${i}`))
+
+		expect(await searchTaskHistory({ query: "", taskHistory, globalStoragePath })).toHaveLength(150)
+		expect(await searchTaskHistory({ query: "", taskHistory, globalStoragePath, limit: 10 })).toHaveLength(10)
+	})
+})
@@ -4,11 +4,15 @@ import * as fs from "fs/promises"
 
 import { Anthropic } from "@anthropic-ai/sdk"
 
+import type { StructuredSummary } from "@roo-code/types"
+
 import { fileExistsAtPath } from "../../utils/fs"
 
 import { GlobalFileNames } from "../../shared/globalFileNames"
 import { getTaskDirectoryPath } from "../../utils/storage"
 
+import { scheduleTaskSearchIndexUpdate } from "./taskSearchIndex"
+
 export type ApiMessage = Anthropic.MessageParam & {
 	ts?: number
 	isSummary?: boolean
@@ -22,6 +26,8 @@ export type ApiMessage = Anthropic.MessageParam & {
 	reasoning_details?: any[]
 	// For non-destructive condense: unique identifier for summary messages
 	condenseId?: string
+	// For structured condense: the typed summary that the summary message's text was rendered from
+	structuredSummary?: StructuredSummary
 	// For non-destructive condense: points to the condenseId of the summary that replaces this message
 	// Messages with condenseParent are filtered out when sending to API if the summary exists
 	condenseParent?: string
@@ -103,4 +109,5 @@ export async function saveApiMessages({
 	const taskDir = await getTaskDirectoryPath(globalStoragePath, taskId)
 	const filePath = path.join(taskDir, GlobalFileNames.apiConversationHistory)
 	await safeWriteJson(filePath, messages)
+	scheduleTaskSearchIndexUpdate({ taskId, globalStoragePath, apiMessages: messages })
 }
@@ -1,3 +1,5 @@
 export { type ApiMessage, readApiMessages, saveApiMessages } from "./apiMessages"
 export { readTaskMessages, saveTaskMessages } from "./taskMessages"
 export { taskMetadata } from "./taskMetadata"
+export { searchTaskHistory, updateTaskSearchIndex } from "./taskSearchIndex"
+export { createTaskArchive, parseTaskArchive, restoreTaskArchive } from "./taskArchive"
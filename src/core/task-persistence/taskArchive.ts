@@ -0,0 +1,197 @@
+import * as path from "path"
+import * as fs from "fs/promises"
+
+import {
+	type ClineMessage,
+	type HistoryItem,
+	type TaskArchive,
+	TASK_ARCHIVE_VERSION,
+	taskArchiveHeaderSchema,
+	taskArchiveSchema,
+} from "@roo-code/types"
+
+import { safeWriteJson } from "../../utils/safeWriteJson"
+import { fileExistsAtPath } from "../../utils/fs"
+import { getTaskDirectoryPath } from "../../utils/storage"
+import { GlobalFileNames } from "../../shared/globalFileNames"
+import { getLatestTodo } from "../../shared/todo"
+import { ShadowCheckpointService } from "../../services/checkpoints/ShadowCheckpointService"
+
+import { type ApiMessage, readApiMessages, saveApiMessages } from "./apiMessages"
+import { readTaskMessages, saveTaskMessages } from "./taskMessages"
+
+export type CreateTaskArchiveOptions = {
+	historyItem: HistoryItem
+	globalStoragePath: string
+	includeCheckpoints?: boolean
+}
+
+export async function createTaskArchive({
+	historyItem,
+	globalStoragePath,
+	includeCheckpoints = false,
+}: CreateTaskArchiveOptions): Promise<TaskArchive> {
+	const taskId = historyItem.id
+	const taskDir = await getTaskDirectoryPath(globalStoragePath, taskId)
+	const metadataPath = path.join(taskDir, GlobalFileNames.taskMetadata)
+
+	const [uiMessages, apiMessages] = await Promise.all([
+		readTaskMessages({ taskId, globalStoragePath }),
+		readApiMessages({ taskId, globalStoragePath }),
+	])
+
+	const taskMetadata = (await fileExistsAtPath(metadataPath))
+		? JSON.parse(await fs.readFile(metadataPath, "utf8"))
+		: undefined
+
+	let checkpoints: string | undefined
+
+	if (includeCheckpoints) {
+		const bundle = await ShadowCheckpointService.bundleTaskRepo({
+			taskId,
+			globalStorageDir: globalStoragePath,
+			commitHashes: uiMessages.flatMap((m) => (m.say === "checkpoint_saved" && m.text ? [m.text] : [])),
+		})
+
+		checkpoints = bundle?.toString("base64")
+	}
+
+	return {
+		version: TASK_ARCHIVE_VERSION,
+		exportedAt: Date.now(),
+		workspace: historyItem.workspace,
+		historyItem,
+		uiMessages,
+		// Interfaces lack the index signature of the passthrough schema.
+		apiMessages: apiMessages as unknown as TaskArchive["apiMessages"],
+		todos: getLatestTodo(uiMessages),
+		taskMetadata,
+		checkpoints,
+	}
+}
+
+/**
+ * Parses and validates the contents of an archive file.
+ *
+ * @throws If the archive is invalid or was created by a newer version
+ */
+export function parseTaskArchive(content: string): TaskArchive {
+	let json: unknown
+
+	try {
+		json = JSON.parse(content)
+	} catch {
+		throw new Error("The file is not a task archive")
+	}
+
+	const header = taskArchiveHeaderSchema.safeParse(json)
+
+	if (!header.success) {
+		throw new Error("The file is not a task archive")
+	}
+
+	if (header.data.version > TASK_ARCHIVE_VERSION) {
+		throw new Error(
+			`The task archive uses format version ${header.data.version}, but only versions up to ${TASK_ARCHIVE_VERSION} are supported; please update the extension`,
+		)
+	}
+
+	// Archives of older versions would be migrated here.
+	const result = taskArchiveSchema.safeParse(json)
+
+	if (!result.success) {
+		throw new Error(`Invalid task archive: ${result.error.issues.map((issue) => issue.message).join(", ")}`)
+	}
+
+	return result.data
+}
+
+/**
+ * Replaces the workspace path `from` with `to` in every string of `value`,
+ * leaving paths that merely start with the same characters alone.
+ */
+export function remapWorkspacePath<T>(value: T, from: string, to: string): T {
+	const pattern = new RegExp(`${from.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\w.-])`, "g")
+
+	const remap = (value: unknown): unknown => {
+		if (typeof value === "string") {
+			return value.replace(pattern, () => to)
+		}
+
+		if (Array.isArray(value)) {
+			return value.map(remap)
+		}
+
+		if (value && typeof value === "object") {
+			return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, remap(entry)]))
+		}
+
+		return value
+	}
+
+	return remap(value) as T
+}
+
+export type RestoreTaskArchiveOptions = {
+	archive: TaskArchive
+	taskId: string
+	globalStoragePath: string
+	// The workspace to resume the task in; paths of the archived workspace are remapped to it.
+	workspace: string
+}
+
+/**
+ * Stores an archived task under `taskId` so it can be resumed.
+ *
+ * @returns The history item of the restored task
+ */
+export async function restoreTaskArchive({
+	archive,
+	taskId,
+	globalStoragePath,
+	workspace,
+}: RestoreTaskArchiveOptions): Promise<HistoryItem> {
+	const from = archive.workspace ?? archive.historyItem.workspace
+	const remap = <T>(value: T): T => (from && from !== workspace ? remapWorkspacePath(value, from, workspace) : value)
+	const taskDir = await getTaskDirectoryPath(globalStoragePath, taskId)
+
+	try {
+		await saveTaskMessages({ messages: remap(archive.uiMessages) as ClineMessage[], taskId, globalStoragePath })
+		await saveApiMessages({ messages: remap(archive.apiMessages) as unknown as ApiMessage[], taskId, globalStoragePath })
+
+		if (archive.taskMetadata) {
+			await safeWriteJson(path.join(taskDir, GlobalFileNames.taskMetadata), archive.taskMetadata)
+		}
+
+		if (archive.checkpoints) {
+			await ShadowCheckpointService.restoreTaskRepo({
+				taskId,
+				globalStorageDir: globalStoragePath,
+				workspaceDir: workspace,
+				bundle: Buffer.from(archive.checkpoints, "base64"),
+			})
+		}
+	} catch (error) {
+		await fs.rm(taskDir, { recursive: true, force: true })
+		throw error
+	}
+
+	// Related tasks aren't part of the archive, so the task is imported on its own.
+	const {
+		rootTaskId: _rootTaskId,
+		parentTaskId: _parentTaskId,
+		childIds: _childIds,
+		delegatedToId: _delegatedToId,
+		awaitingChildId: _awaitingChildId,
+		completedByChildId: _completedByChildId,
+		forkedFrom: _forkedFrom,
+		...historyItem
+	} = remap(archive.historyItem)
+
+	return {
+		...historyItem,
+		id: taskId,
+		workspace,
+		status: historyItem.status === "delegated" ? "active" : historyItem.status,
+	}
+}
@@ -0,0 +1,512 @@
+import * as path from "path"
+import * as fs from "fs/promises"
+
+import type { ClineMessage, HistoryItem, TaskSearchFilters, TaskSearchMatch, TaskSearchResult } from "@roo-code/types"
+
+import { safeWriteJson } from "../../utils/safeWriteJson"
+import { fileExistsAtPath } from "../../utils/fs"
+import { GlobalFileNames } from "../../shared/globalFileNames"
+import { getTaskDirectoryPath } from "../../utils/storage"
+
+import { type ApiMessage, readApiMessages } from "./apiMessages"
+import { readTaskMessages } from "./taskMessages"
+
+const SEARCH_INDEX_VERSION = 1
+
+// Long messages (file contents, command output) are only indexed up to this
+// length to keep the index small.
+const MAX_DOCUMENT_LENGTH = 20_000
+
+const MAX_MATCHES_PER_TASK = 3
+const SNIPPET_CONTEXT_LENGTH = 60
+const MAX_CACHED_INDEXES = 200
+
+// Saves are batched, since a running task saves its messages several times a second.
+const INDEX_UPDATE_DELAY_MS = 2_000
+
+// UI messages that only carry request metadata.
+const UNINDEXED_SAYS = new Set(["api_req_started", "api_req_finished", "api_req_retried", "api_req_deleted"])
+
+type SearchSource = "ui" | "api"
+
+/**
+ * A message of a task with its unique, lowercased terms.
+ */
+type SearchDocument = {
+	ts: number
+	text: string
+	terms: string[]
+}
+
+// The modification time and size of the message files an index was built
+// from, by which stale indexes are detected.
+type SourceVersion = { mtimeMs: number; size: number } | null
+
+type SourceVersions = {
+	ui: SourceVersion
+	api: SourceVersion
+}
+
+type SearchIndexFile = {
+	version: number
+	sources: SourceVersions
+	ui: SearchDocument[]
+	api: SearchDocument[]
+}
+
+type LoadedSearchIndex = {
+	sources: SourceVersions
+	documents: SearchDocument[]
+	postings: Map<string, number[]>
+}
+
+const cache = new Map<string, LoadedSearchIndex>()
+
+// Updates of the same index are serialized, since concurrent searches may
+// find it stale at the same time.
+const pendingUpdates = new Map<string, Promise<SearchIndexFile | undefined>>()
+
+// The messages saved since the last scheduled update of each task's index.
+const scheduledUpdates = new Map<string, { options: UpdateTaskSearchIndexOptions; timer: NodeJS.Timeout }>()
+
+export function tokenize(text: string): string[] {
+	return text.toLowerCase().match(/[\p{L}\p{N}_]{2,}/gu) ?? []
+}
+
+/**
+ * Returns the string values of a JSON message (e.g. a tool request), so that
+ * keys and syntax aren't indexed.
+ */
+function getJsonText(text: string): string | undefined {
+	if (!text.startsWith("{")) {
+		return undefined
+	}
+
+	try {
+		const values: string[] = []
+
+		const visit = (value: unknown) => {
+			if (typeof value === "string") {
+				values.push(value)
+			} else if (value && typeof value === "object") {
+				Object.values(value).forEach(visit)
+			}
+		}
+
+		visit(JSON.parse(text))
+		return values.join("\n")
+	} catch {
+		return undefined
+	}
+}
+
+function getUiMessageText(message: ClineMessage): string | undefined {
+	if ((message.say && UNINDEXED_SAYS.has(message.say)) || !message.text) {
+		return undefined
+	}
+
+	return getJsonText(message.text) ?? message.text
+}
+
+function getApiMessageText(message: ApiMessage): string | undefined {
+	if (message.isSummary || message.isTruncationMarker) {
+		return undefined
+	}
+
+	const blocks =
+		typeof message.content === "string"
+			? [message.content]
+			: message.content.flatMap((block) => {
+					if (block.type === "text") {
+						return [block.text]
+					}
+
+					if (block.type === "tool_result") {
+						return typeof block.content === "string"
+							? [block.content]
+							: (block.content ?? []).flatMap((part) => (part.type === "text" ? [part.text] : []))
+					}
+
+					return []
+				})
+
+	// Environment details are repeated in every request and would match everything.
+	const text = blocks
+		.join("\n")
+		.replace(/<environment_details>[\s\S]*?<\/environment_details>/g, "")
+		.trim()
+
+	return text || undefined
+}
+
+/**
+ * Builds the documents of messages, reusing the terms of unchanged documents.
+ */
+function buildDocuments<T extends { ts?: number }>(
+	messages: T[],
+	getText: (message: T) => string | undefined,
+	previous: SearchDocument[] = [],
+): SearchDocument[] {
+	const previousByTs = new Map(previous.map((document) => [document.ts, document]))
+
+	return messages.flatMap((message) => {
+		const text = message.ts ? getText(message)?.slice(0, MAX_DOCUMENT_LENGTH) : undefined
+
+		if (!text || !message.ts) {
+			return []
+		}
+
+		const existing = previousByTs.get(message.ts)
+
+		if (existing?.text === text) {
+			return [existing]
+		}
+
+		return [{ ts: message.ts, text, terms: [...new Set(tokenize(text))] }]
+	})
+}
+
+async function getSourceVersion(filePath: string): Promise<SourceVersion> {
+	const stat = await fs.stat(filePath).catch(() => undefined)
+	return stat ? { mtimeMs: stat.mtimeMs, size: stat.size } : null
+}
+
+async function getSourceVersions(taskDir: string): Promise<SourceVersions> {
+	const [ui, api] = await Promise.all([
+		getSourceVersion(path.join(taskDir, GlobalFileNames.uiMessages)),
+		getSourceVersion(path.join(taskDir, GlobalFileNames.apiConversationHistory)),
+	])
+
+	return { ui, api }
+}
+
+const isSameVersion = (a: SourceVersion, b: SourceVersion) => a?.mtimeMs === b?.mtimeMs && a?.size === b?.size
+
+const isUpToDate = (indexed: SourceVersions | undefined, current: SourceVersions) =>
+	!!indexed && isSameVersion(indexed.ui, current.ui) && isSameVersion(indexed.api, current.api)
+
+async function readSearchIndexFile(filePath: string): Promise<SearchIndexFile | undefined> {
+	try {
+		if (await fileExistsAtPath(filePath)) {
+			const index: SearchIndexFile = JSON.parse(await fs.readFile(filePath, "utf8"))
+			return index.version === SEARCH_INDEX_VERSION ? index : undefined
+		}
+	} catch (error) {
+		console.error(`[taskSearchIndex] failed to read ${filePath}:`, error)
+	}
+
+	return undefined
+}
+
+export type UpdateTaskSearchIndexOptions = {
+	taskId: string
+	globalStoragePath: string
+	// The messages that were just saved; the other messages are read if their
+	// part of the index is stale.
+	uiMessages?: ClineMessage[]
+	apiMessages?: ApiMessage[]
+}
+
+/**
+ * Updates the index of a task shortly after its messages were saved, off the
+ * hot path of the running task. Saves in quick succession are indexed once,
+ * with the latest messages.
+ */
+export function scheduleTaskSearchIndexUpdate(options: UpdateTaskSearchIndexOptions) {
+	const scheduled = scheduledUpdates.get(options.taskId)
+
+	if (scheduled) {
+		clearTimeout(scheduled.timer)
+	}
+
+	const merged = { ...scheduled?.options, ...options }
+
+	const timer = setTimeout(() => {
+		scheduledUpdates.delete(options.taskId)
+		void updateTaskSearchIndex(merged)
+	}, INDEX_UPDATE_DELAY_MS)
+
+	// Indexes that were not updated before exiting are brought up to date when they are searched.
+	timer.unref?.()
+	scheduledUpdates.set(options.taskId, { options: merged, timer })
+}
+
+/**
+ * Brings the index of a task up to date with its messages; only the messages
+ * that changed since the last update are tokenized again. Besides the updates
+ * scheduled when messages are saved, indexes are updated when they are
+ * searched, in case they are missing or stale. Errors are logged rather than
+ * thrown so that a broken index only hides the task from the results.
+ */
+export async function updateTaskSearchIndex({
+	taskId,
+	globalStoragePath,
+	uiMessages,
+	apiMessages,
+}: UpdateTaskSearchIndexOptions): Promise<SearchIndexFile | undefined> {
+	const previousUpdate = pendingUpdates.get(taskId) ?? Promise.resolve(undefined)
+
+	const update = previousUpdate.then(async () => {
+		try {
+			const taskDir = await getTaskDirectoryPath(globalStoragePath, taskId)
+			const filePath = path.join(taskDir, GlobalFileNames.taskSearchIndex)
+			const sources = await getSourceVersions(taskDir)
+			const previous = await readSearchIndexFile(filePath)
+
+			// Saved messages are indexed regardless, since the files may have
+			// been saved again between their save and this update.
+			if (previous && !uiMessages && !apiMessages && isUpToDate(previous.sources, sources)) {
+				return previous
+			}
+
+			const isUiIndexed = !uiMessages && !!previous && isSameVersion(previous.sources.ui, sources.ui)
+			const isApiIndexed = !apiMessages && !!previous && isSameVersion(previous.sources.api, sources.api)
+
+			const index: SearchIndexFile = {
+				version: SEARCH_INDEX_VERSION,
+				sources,
+				ui: isUiIndexed
+					? previous.ui
+					: buildDocuments(
+							uiMessages ?? (await readTaskMessages({ taskId, globalStoragePath })),
+							getUiMessageText,
+							previous?.ui,
+						),
+				api: isApiIndexed
+					? previous.api
+					: buildDocuments(
+							apiMessages ?? (await readApiMessages({ taskId, globalStoragePath })),
+							getApiMessageText,
+							previous?.api,
+						),
+			}
+
+			await safeWriteJson(filePath, index)
+			return index
+		} catch (error) {
+			console.error(`[taskSearchIndex] failed to index task ${taskId}:`, error)
+			return undefined
+		}
+	})
+
+	pendingUpdates.set(taskId, update)
+	const index = await update
+
+	if (pendingUpdates.get(taskId) === update) {
+		pendingUpdates.delete(taskId)
+	}
+
+	return index
+}
+
+/**
+ * Loads the index of a task, updating it first if its messages changed since
+ * it was built or the task predates the index.
+ */
+async function loadSearchIndex(globalStoragePath: string, taskId: string): Promise<LoadedSearchIndex | undefined> {
+	const taskDir = await getTaskDirectoryPath(globalStoragePath, taskId)
+	const cached = cache.get(taskId)
+
+	if (cached && isUpToDate(cached.sources, await getSourceVersions(taskDir))) {
+		return cached
+	}
+
+	const index = await updateTaskSearchIndex({ taskId, globalStoragePath })
+
+	if (!index) {
+		return undefined
+	}
+
+	// API messages are sorted after UI messages with the same timestamp so
+	// that UI messages are preferred as jump targets.
+	const documents = [...index.ui, ...index.api]
+	const postings = new Map<string, number[]>()
+
+	documents.forEach(({ terms }, i) => {
+		for (const term of terms) {
+			const documents = postings.get(term)
+
+			if (documents) {
+				documents.push(i)
+			} else {
+				postings.set(term, [i])
+			}
+		}
+	})
+
+	const loaded = { sources: index.sources, documents, postings }
+
+	cache.delete(taskId)
+	cache.set(taskId, loaded)
+
+	if (cache.size > MAX_CACHED_INDEXES) {
+		cache.delete(cache.keys().next().value!)
+	}
+
+	return loaded
+}
+
+/**
+ * Returns the documents matching every query term, where the last term also
+ * matches as a prefix since it may still be being typed.
+ */
+function findDocuments({ postings }: LoadedSearchIndex, queryTerms: string[]): Map<number, number> {
+	const scores = new Map<number, number>()
+
+	queryTerms.forEach((queryTerm, i) => {
+		const matches = new Map<number, number>()
+		const isLast = i === queryTerms.length - 1
+
+		for (const [term, documents] of postings) {
+			if (term === queryTerm || (isLast && term.startsWith(queryTerm))) {
+				// Exact matches rank above prefix matches.
+				const score = term === queryTerm ? 2 : 1
+
+				for (const document of documents) {
+					matches.set(document, Math.max(matches.get(document) ?? 0, score))
+				}
+			}
+		}
+
+		for (const [document, score] of i === 0 ? matches : scores) {
+			if (i === 0) {
+				scores.set(document, score)
+			} else if (matches.has(document)) {
+				scores.set(document, score + matches.get(document)!)
+			} else {
+				scores.delete(document)
+			}
+		}
+	})
+
+	return scores
+}
+
+export function getSnippet(text: string, queryTerms: string[]): Omit<TaskSearchMatch, "ts"> {
+	const lowerText = text.toLowerCase()
+	const positions = queryTerms.map((term) => lowerText.indexOf(term)).filter((position) => position !== -1)
+	const first = positions.length > 0 ? Math.min(...positions) : 0
+	const start = Math.max(0, first - SNIPPET_CONTEXT_LENGTH)
+	const end = Math.min(text.length, first + SNIPPET_CONTEXT_LENGTH * 2)
+	const prefix = start > 0 ? "…" : ""
+	const snippet = `${prefix}${text.slice(start, end).replace(/\s+/g, " ")}${end < text.length ? "…" : ""}`
+
+	const highlights: Array<[number, number]> = []
+	const lowerSnippet = snippet.toLowerCase()
+
+	for (const term of queryTerms) {
+		for (let i = lowerSnippet.indexOf(term); i !== -1; i = lowerSnippet.indexOf(term, i + term.length)) {
+			highlights.push([i, i + term.length])
+		}
+	}
+
+	return { snippet, highlights: highlights.sort((a, b) => a[0] - b[0]) }
+}
+
+async function getTouchedFiles(globalStoragePath: string, taskId: string): Promise<string[]> {
+	const taskDir = await getTaskDirectoryPath(globalStoragePath, taskId)
+	const filePath = path.join(taskDir, GlobalFileNames.taskMetadata)
+
+	try {
+		if (await fileExistsAtPath(filePath)) {
+			const metadata = JSON.parse(await fs.readFile(filePath, "utf8"))
+			return (metadata.files_in_context ?? []).map((entry: { path: string }) => entry.path)
+		}
+	} catch (error) {
+		console.error(`[taskSearchIndex] failed to read the files of task ${taskId}:`, error)
+	}
+
+	return []
+}
+
+function matchesFilters(item: HistoryItem, filters: TaskSearchFilters) {
+	return (
+		(filters.workspace === undefined || item.workspace === filters.workspace) &&
+		(filters.mode === undefined || item.mode === filters.mode) &&
+		(filters.from === undefined || item.ts >= filters.from) &&
+		(filters.to === undefined || item.ts <= filters.to) &&
+		(filters.minCost === undefined || item.totalCost >= filters.minCost) &&
+		(filters.maxCost === undefined || item.totalCost <= filters.maxCost) &&
+		(filters.status === undefined || item.status === filters.status)
+	)
+}
+
+export type SearchTaskHistoryOptions = {
+	query: string
+	filters?: TaskSearchFilters
+	taskHistory: HistoryItem[]
+	globalStoragePath: string
+	// Caps the number of results; every matching task is returned by default.
+	limit?: number
+}
+
+/**
+ * Searches the conversations of the tasks in the history that match the
+ * filters. Without a query, every matching task is returned without matches.
+ *
+ * @returns The matching tasks, most relevant first
+ */
+export async function searchTaskHistory({
+	query,
+	filters = {},
+	taskHistory,
+	globalStoragePath,
+	limit,
+}: SearchTaskHistoryOptions): Promise<TaskSearchResult[]> {
+	const queryTerms = [...new Set(tokenize(query))]
+	const file = filters.file?.trim().toLowerCase()
+	const results: TaskSearchResult[] = []
+
+	for (const item of taskHistory) {
+		if (!matchesFilters(item, filters)) {
+			continue
+		}
+
+		if (file) {
+			const files = await getTouchedFiles(globalStoragePath, item.id)
+
+			if (!files.some((filePath) => filePath.toLowerCase().includes(file))) {
+				continue
+			}
+		}
+
+		if (queryTerms.length === 0) {
+			results.push({ taskId: item.id, score: 0, matches: [] })
+			continue
+		}
+
+		const index = await loadSearchIndex(globalStoragePath, item.id)
+
+		if (!index) {
+			continue
+		}
+
+		const scores = findDocuments(index, queryTerms)
+
+		if (scores.size === 0) {
+			continue
+		}
+
+		const ranked = [...scores].sort(([a, aScore], [b, bScore]) => bScore - aScore || a - b)
+		const seen = new Set<number>()
+		const matches: TaskSearchMatch[] = []
+
+		for (const [document] of ranked) {
+			const { ts, text } = index.documents[document]!
+
+			if (matches.length === MAX_MATCHES_PER_TASK) {
+				break
+			}
+
+			if (!seen.has(ts)) {
+				seen.add(ts)
+				matches.push({ ts, ...getSnippet(text, queryTerms) })
+			}
+		}
+
+		const score = ranked.reduce((sum, [, documentScore]) => sum + documentScore, 0)
+		results.push({ taskId: item.id, score, matches })
+	}
+
+	return results.sort((a, b) => b.score - a.score).slice(0, limit)
+}
@@ -18,9 +18,13 @@ import {
 	type TaskEvents,
 	type ProviderSettings,
 	type TokenUsage,
+	type TaskBudget,
+	type TaskBudgetStatus,
+	type LifecycleHookEvent,
 	type ToolUsage,
 	type ToolName,
 	type ContextCondense,
+	type CondensingMode,
 	type ContextTruncation,
 	type ClineMessage,
 	type ClineSay,
@@ -51,8 +55,9 @@ import { CloudService, BridgeOrchestrator } from "@roo-code/cloud"
 import { resolveToolProtocol } from "../../utils/resolveToolProtocol"
 
 // api
-import { ApiHandler, ApiHandlerCreateMessageMetadata, buildApiHandler } from "../../api"
+import { ApiHandler, ApiHandlerCreateMessageMetadata, ApiHandlerResponseDetails, buildApiHandler } from "../../api"
 import { ApiStream, GroundingSource } from "../../api/transform/stream"
+import { isServedByReporter } from "../../api/failover"
 import { maybeRemoveImageBlocks } from "../../api/transform/image-cleaning"
 
 // shared
@@ -77,6 +82,8 @@ import { RepoPerTaskCheckpointService } from "../../services/checkpoints"
 
 // integrations
 import { DiffViewProvider } from "../../integrations/editor/DiffViewProvider"
+import { PostEditHookRunner } from "../hooks/PostEditHooks"
+import { LifecycleHookRunner, type LifecycleHookOutcome } from "../hooks/LifecycleHooks"
 import { findToolName } from "../../integrations/misc/export-markdown"
 import { RooTerminalProcess } from "../../integrations/terminal/types"
 import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
@@ -122,9 +129,16 @@ import {
 	checkpointDiff,
 } from "../checkpoints"
 import { processUserContentMentions } from "../mentions/processUserContentMentions"
-import { getMessagesSinceLastSummary, summarizeConversation, getEffectiveApiHistory } from "../condense"
+import {
+	getMessagesSinceLastSummary,
+	summarizeConversation,
+	getEffectiveApiHistory,
+	type StructuredCondenseContext,
+} from "../condense"
 import { MessageQueueService } from "../message-queue/MessageQueueService"
-import { AutoApprovalHandler, checkAutoApproval } from "../auto-approval"
+import { BackgroundJobService } from "../background-jobs/BackgroundJobService"
+import { AutoApprovalHandler, checkAutoApproval, loadApprovalPolicies } from "../auto-approval"
+import { computeTaskBudgetStatus, hasTaskBudget, resolveTaskBudget } from "../auto-approval/budget"
 
 const MAX_EXPONENTIAL_BACKOFF_SECONDS = 600 // 10 minutes
 const DEFAULT_USAGE_COLLECTION_TIMEOUT_MS = 5000 // 5 seconds
@@ -263,6 +277,10 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 	diffEnabled: boolean = false
 	fuzzyMatchThreshold: number
 	didEditFile: boolean = false
+	postEditHookRunner: PostEditHookRunner
+
+	// Hooks
+	lifecycleHookRunner: LifecycleHookRunner
 
 	// LLM Messages & Chat Messages
 	apiConversationHistory: ApiMessage[] = []
@@ -293,6 +311,9 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 	public readonly messageQueueService: MessageQueueService
 	private messageQueueStateChangedHandler: (() => void) | undefined
 
+	// Background Jobs
+	public readonly backgroundJobService: BackgroundJobService
+
 	// Streaming
 	isWaitingForFirstChunk = false
 	isStreaming = false
@@ -321,6 +342,17 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 	private tokenUsageSnapshot?: TokenUsage
 	private tokenUsageSnapshotAt?: number
 
+	// Task Budget
+	// Budgets are re-resolved from settings before every request so that raising
+	// a limit lets a halted task continue; the resolved budget is persisted on the
+	// history item so subtasks can enforce their ancestors' tree budgets.
+	private taskBudget?: TaskBudget
+	private readonly taskBudgetStartedAt: number
+	// Only the time the task is running counts towards its duration limit: the
+	// running time before it was resumed is restored, and counting resumes now.
+	private readonly taskBudgetElapsedMs: number
+	private readonly taskBudgetResumedAt = Date.now()
+
 	// Cloud Sync Tracking
 	private cloudSyncedMessageTimestamps: Set<number> = new Set()
 
@@ -396,8 +428,10 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		})
 
 		this.apiConfiguration = apiConfiguration
-		this.api = buildApiHandler(apiConfiguration)
+		this.api = this.createApiHandler(apiConfiguration, provider)
 		this.autoApprovalHandler = new AutoApprovalHandler()
+		this.taskBudgetStartedAt = historyItem?.budget?.startedAt ?? Date.now()
+		this.taskBudgetElapsedMs = historyItem?.budget?.elapsedMs ?? 0
 
 		this.urlContentFetcher = new UrlContentFetcher(provider.context)
 		this.browserSession = new BrowserSession(provider.context, (isActive: boolean) => {
@@ -428,6 +462,17 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		this.providerRef = new WeakRef(provider)
 		this.globalStoragePath = provider.context.globalStorageUri.fsPath
 		this.diffViewProvider = new DiffViewProvider(this.cwd, this)
+		this.postEditHookRunner = new PostEditHookRunner(this.cwd)
+		this.lifecycleHookRunner = new LifecycleHookRunner(this.cwd, () => this.providerRef.deref()?.getMcpHub())
+
+		// Observation-only hooks follow the task's own events, so they fire
+		// wherever those are emitted.
+		this.on(RooCodeEventName.TaskStarted, () => void this.runLifecycleHooks("taskStarted"))
+		this.on(
+			RooCodeEventName.TaskCompleted,
+			(_, tokenUsage, toolUsage) => void this.runLifecycleHooks("taskCompleted", { tokenUsage, toolUsage }),
+		)
+
 		this.enableCheckpoints = enableCheckpoints
 		this.checkpointTimeout = checkpointTimeout
 		this.enableBridge = enableBridge
@@ -466,6 +511,9 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 
 		this.messageQueueService.on("stateChanged", this.messageQueueStateChangedHandler)
 
+		this.backgroundJobService = new BackgroundJobService()
+		this.backgroundJobService.on("stateChanged", () => this.providerRef.deref()?.postStateToWebview())
+
 		// Listen for provider profile changes to update parser state
 		this.setupProviderProfileChangeListener(provider)
 
@@ -686,13 +734,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 	private async addToApiConversationHistory(message: Anthropic.MessageParam, reasoning?: string) {
 		// Capture the encrypted_content / thought signatures from the provider (e.g., OpenAI Responses API, Google GenAI) if present.
 		// We only persist data reported by the current response body.
-		const handler = this.api as ApiHandler & {
-			getResponseId?: () => string | undefined
-			getEncryptedContent?: () => { encrypted_content: string; id?: string } | undefined
-			getThoughtSignature?: () => string | undefined
-			getSummary?: () => any[] | undefined
-			getReasoningDetails?: () => any[] | undefined
-		}
+		const handler = this.api as ApiHandler & ApiHandlerResponseDetails
 
 		if (message.role === "assistant") {
 			const responseId = handler.getResponseId?.()
@@ -914,13 +956,35 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 				initialStatus: this.initialStatus,
 			})
 
-			if (hasTokenUsageChanged(tokenUsage, this.tokenUsageSnapshot)) {
+			const tokenUsageChanged = hasTokenUsageChanged(tokenUsage, this.tokenUsageSnapshot)
+
+			if (tokenUsageChanged) {
 				this.emit(RooCodeEventName.TaskTokenUsageUpdated, this.taskId, tokenUsage)
 				this.tokenUsageSnapshot = undefined
 				this.tokenUsageSnapshotAt = undefined
 			}
 
-			await this.providerRef.deref()?.updateTaskHistory(historyItem)
+			await this.providerRef.deref()?.updateTaskHistory(
+				// Subtasks persist their running time for the tree budgets of their ancestors.
+				this.taskBudget || this.parentTaskId
+					? {
+							...historyItem,
+							budget: {
+								limits: this.taskBudget ?? {},
+								startedAt: this.taskBudgetStartedAt,
+								elapsedMs: this.getTaskBudgetElapsedMs(),
+							},
+						}
+					: historyItem,
+			)
+
+			if (tokenUsageChanged) {
+				const budgetStatus = await this.getBudgetStatus()
+
+				if (budgetStatus) {
+					this.emit(RooCodeEventName.TaskBudgetUpdated, this.taskId, budgetStatus)
+				}
+			}
 		} catch (error) {
 			console.error("Failed to save Roo messages:", error)
 		}
@@ -1045,7 +1109,12 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		// Automatically approve if the ask according to the user's settings.
 		const provider = this.providerRef.deref()
 		const state = provider ? await provider.getState() : undefined
-		const approval = await checkAutoApproval({ state, ask: type, text, isProtected })
+		const policies = await loadApprovalPolicies(this.cwd)
+		const approval = await checkAutoApproval({ state, ask: type, text, isProtected, policies })
+
+		if (approval.policy) {
+			provider?.log(approval.policy.explanation)
+		}
 
 		if (approval.decision === "approve") {
 			this.approveAsk()
@@ -1204,6 +1273,24 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		this.handleWebviewAskResponse("noButtonClicked", text, images)
 	}
 
+	/**
+	 * Builds the API handler for a configuration, wrapping it in a failover
+	 * chain if the profile defines one.
+	 */
+	private createApiHandler(
+		apiConfiguration: ProviderSettings,
+		provider: ClineProvider | undefined = this.providerRef?.deref(),
+	): ApiHandler {
+		if (!apiConfiguration.failoverProfileIds?.length || !provider) {
+			return buildApiHandler(apiConfiguration)
+		}
+
+		return buildApiHandler(apiConfiguration, {
+			profileName: provider.getValue("currentApiConfigName"),
+			resolveProfile: async (id) => this.providerRef.deref()?.providerSettingsManager.getProfile({ id }),
+		})
+	}
+
 	/**
 	 * Updates the API configuration and reinitializes the parser based on the new tool protocol.
 	 * This should be called when switching between models/profiles with different tool protocols
@@ -1214,7 +1301,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 	public updateApiConfiguration(newApiConfiguration: ProviderSettings): void {
 		// Update the configuration and rebuild the API handler
 		this.apiConfiguration = newApiConfiguration
-		this.api = buildApiHandler(newApiConfiguration)
+		this.api = this.createApiHandler(newApiConfiguration)
 
 		// Determine what the tool protocol should be
 		const modelInfo = this.api.getModel().info
@@ -1329,6 +1416,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			newContextTokens = 0,
 			error,
 			condenseId,
+			structuredSummary,
 		} = await summarizeConversation(
 			this.apiConversationHistory,
 			this.api, // Main API handler (fallback)
@@ -1339,6 +1427,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			customCondensingPrompt, // User's custom prompt
 			condensingApiHandler, // Specific handler for condensing
 			useNativeTools, // Pass native tools flag for proper message handling
+			await this.getStructuredCondenseContext(state), // Task state for structured condensing
 		)
 		if (error) {
 			this.say(
@@ -1360,6 +1449,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			newContextTokens,
 			prevContextTokens,
 			condenseId: condenseId!,
+			structured: structuredSummary,
 		}
 		await this.say(
 			"condense_context",
@@ -1897,6 +1987,13 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			console.error("Error disposing message queue:", error)
 		}
 
+		// Kill the background jobs, which can't be reported to the task anymore.
+		try {
+			this.backgroundJobService.dispose()
+		} catch (error) {
+			console.error("Error disposing background jobs:", error)
+		}
+
 		// Remove all event listeners to prevent memory leaks.
 		try {
 			this.removeAllListeners()
@@ -1918,6 +2015,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		try {
 			// Release any terminals associated with this task.
 			TerminalRegistry.releaseTerminalsForTask(this.taskId)
+			TerminalRegistry.killSessionsForTask(this.taskId)
 		} catch (error) {
 			console.error("Error releasing terminals:", error)
 		}
@@ -2181,6 +2279,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 				includeDiagnosticMessages,
 				maxDiagnosticMessages,
 				maxReadFileLine,
+				mcpHub: this.providerRef.deref()?.getMcpHub(),
 			})
 
 			const environmentDetails = await getEnvironmentDetails(this, currentIncludeFileDetails)
@@ -3086,6 +3185,15 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 
 					await pWaitFor(() => this.userMessageContentReady)
 
+					const batchHooksReport = await this.postEditHookRunner.runBatch()
+
+					if (batchHooksReport) {
+						this.userMessageContent.push({
+							type: "text",
+							text: `<post_edit_hooks>\n${batchHooksReport}\n</post_edit_hooks>`,
+						})
+					}
+
 					// If the model did not tool use, then we need to tell it to
 					// either use a tool or attempt_completion.
 					const didToolUse = this.assistantMessageContent.some(
@@ -3333,6 +3441,21 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		)
 	}
 
+	/**
+	 * Returns the task state recorded by structured condensing, or undefined
+	 * when condensing produces free-form summaries.
+	 */
+	private async getStructuredCondenseContext(
+		state: { condensingMode?: CondensingMode } | undefined,
+	): Promise<StructuredCondenseContext | undefined> {
+		if (state?.condensingMode !== "structured") {
+			return undefined
+		}
+
+		const { files_in_context } = await this.fileContextTracker.getTaskMetadata(this.taskId)
+		return { files: files_in_context, todos: this.todoList ?? [] }
+	}
+
 	private async handleContextWindowExceededError(): Promise<void> {
 		const state = await this.providerRef.deref()?.getState()
 		const { profileThresholds = {} } = state ?? {}
@@ -3376,6 +3499,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			profileThresholds,
 			currentProfileId,
 			useNativeTools,
+			structuredContext: await this.getStructuredCondenseContext(state),
 		})
 
 		if (truncateResult.messages !== this.apiConversationHistory) {
@@ -3383,8 +3507,14 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		}
 
 		if (truncateResult.summary) {
-			const { summary, cost, prevContextTokens, newContextTokens = 0 } = truncateResult
-			const contextCondense: ContextCondense = { summary, cost, newContextTokens, prevContextTokens }
+			const { summary, cost, prevContextTokens, newContextTokens = 0, structuredSummary } = truncateResult
+			const contextCondense: ContextCondense = {
+				summary,
+				cost,
+				newContextTokens,
+				prevContextTokens,
+				structured: structuredSummary,
+			}
 			await this.say(
 				"condense_context",
 				undefined /* text */,
@@ -3516,6 +3646,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 				profileThresholds,
 				currentProfileId,
 				useNativeTools,
+				structuredContext: await this.getStructuredCondenseContext(state),
 			})
 			if (truncateResult.messages !== this.apiConversationHistory) {
 				await this.overwriteApiConversationHistory(truncateResult.messages)
@@ -3523,13 +3654,21 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			if (truncateResult.error) {
 				await this.say("condense_context_error", truncateResult.error)
 			} else if (truncateResult.summary) {
-				const { summary, cost, prevContextTokens, newContextTokens = 0, condenseId } = truncateResult
+				const {
+					summary,
+					cost,
+					prevContextTokens,
+					newContextTokens = 0,
+					condenseId,
+					structuredSummary,
+				} = truncateResult
 				const contextCondense: ContextCondense = {
 					summary,
 					cost,
 					newContextTokens,
 					prevContextTokens,
 					condenseId,
+					structured: structuredSummary,
 				}
 				await this.say(
 					"condense_context",
@@ -3582,6 +3721,17 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			throw new Error("Auto-approval limit reached and user did not approve continuation")
 		}
 
+		// Check task budgets
+		const budgetResult = await this.autoApprovalHandler.checkBudgetLimits(
+			() => this.getBudgetStatus(),
+			async (type, data) => this.ask(type, data),
+			(status) => this.emit(RooCodeEventName.TaskBudgetExceeded, this.taskId, status),
+		)
+
+		if (!budgetResult.shouldProceed) {
+			throw new Error("Task budget exhausted and the budget was not raised")
+		}
+
 		// Determine if we should include native tools based on:
 		// 1. Tool protocol is set to NATIVE
 		// 2. Model supports native tools
@@ -3661,6 +3811,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			})
 
 			const firstChunk = await Promise.race([firstChunkPromise, abortPromise])
+			this.recordServedBy()
 			yield firstChunk.value
 			this.isWaitingForFirstChunk = false
 		} catch (error) {
@@ -3741,6 +3892,26 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		yield* iterator
 	}
 
+	// Shows which profile of the failover chain served the request on its
+	// `api_req_started` row.
+	private recordServedBy() {
+		if (!isServedByReporter(this.api)) {
+			return
+		}
+
+		const servedBy = this.api.getServedBy()
+		const lastApiReqIndex = findLastIndex(this.clineMessages, (m) => m.say === "api_req_started")
+
+		if (!servedBy || lastApiReqIndex < 0) {
+			return
+		}
+
+		const message = this.clineMessages[lastApiReqIndex]
+		const info: ClineApiReqInfo = JSON.parse(message.text || "{}")
+		message.text = JSON.stringify({ ...info, servedBy } satisfies ClineApiReqInfo)
+		this.updateClineMessage(message)
+	}
+
 	// Shared exponential backoff for retries (first-chunk and mid-stream)
 	private async backoffAndAnnounce(retryAttempt: number, error: any, header?: string): Promise<void> {
 		try {
@@ -3975,6 +4146,46 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		return combineApiRequests(combineCommandSequences(messages))
 	}
 
+	/**
+	 * Resolves the task's budget from the global, mode and provider profile
+	 * settings and computes how much of it (and of any enclosing subtask tree
+	 * budgets) has been consumed.
+	 */
+	private async getBudgetStatus(): Promise<TaskBudgetStatus | undefined> {
+		const state = await this.providerRef.deref()?.getState()
+
+		if (!state) {
+			return undefined
+		}
+
+		const budget = resolveTaskBudget(
+			state.taskBudget,
+			state.modeTaskBudgets?.[this._taskMode || defaultModeSlug],
+			state.currentApiConfigName ? state.profileTaskBudgets?.[state.currentApiConfigName] : undefined,
+		)
+
+		this.taskBudget = hasTaskBudget(budget) ? budget : undefined
+
+		const { totalCost, totalTokensIn, totalTokensOut } = this.getTokenUsage()
+
+		return computeTaskBudgetStatus({
+			taskId: this.taskId,
+			parentTaskId: this.parentTaskId,
+			budget,
+			usage: {
+				cost: totalCost,
+				inputTokens: totalTokensIn,
+				outputTokens: totalTokensOut,
+				durationMs: this.getTaskBudgetElapsedMs(),
+			},
+			taskHistory: state.taskHistory ?? [],
+		})
+	}
+
+	private getTaskBudgetElapsedMs(): number {
+		return this.taskBudgetElapsedMs + Date.now() - this.taskBudgetResumedAt
+	}
+
 	public getTokenUsage(): TokenUsage {
 		return getApiMetrics(this.combineMessages(this.clineMessages.slice(1)))
 	}
@@ -3999,6 +4210,30 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		}
 	}
 
+	// Hooks
+
+	/**
+	 * Runs the lifecycle hooks of an event with the task details, and reports
+	 * the hooks that block to API consumers.
+	 */
+	public async runLifecycleHooks(
+		event: LifecycleHookEvent,
+		payload: Record<string, unknown> = {},
+		toolName?: ToolName,
+	): Promise<LifecycleHookOutcome> {
+		const outcome = await this.lifecycleHookRunner.run(
+			event,
+			{ taskId: this.taskId, mode: await this.getTaskMode(), ...payload },
+			toolName,
+		)
+
+		if (outcome.blockReason !== undefined) {
+			this.emit(RooCodeEventName.TaskHookBlocked, this.taskId, event, outcome.blockReason)
+		}
+
+		return outcome
+	}
+
 	// Getters
 
 	public get taskStatus(): TaskStatus {
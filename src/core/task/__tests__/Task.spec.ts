@@ -401,6 +401,36 @@ describe("Cline", () => {
 				new Task({ provider: mockProvider, apiConfiguration: mockApiConfig })
 			}).toThrow("Either historyItem or task/images must be provided")
 		})
+
+		it("should only count the time the task was running against its duration budget after resuming", async () => {
+			mockProvider.getState = vi.fn().mockResolvedValue({ taskBudget: { task: { maxDurationMs: 60_000 } } })
+
+			const cline = new Task({
+				provider: mockProvider,
+				apiConfiguration: mockApiConfig,
+				historyItem: {
+					id: "resumed-task",
+					number: 1,
+					ts: Date.now(),
+					task: "resumed task",
+					tokensIn: 0,
+					tokensOut: 0,
+					totalCost: 0,
+					budget: {
+						limits: { task: { maxDurationMs: 60_000 } },
+						startedAt: Date.now() - 24 * 60 * 60 * 1000,
+						elapsedMs: 30_000,
+					},
+				},
+				startTask: false,
+			})
+
+			const status = await (cline as any).getBudgetStatus()
+
+			expect(status.task.usage.durationMs).toBeGreaterThanOrEqual(30_000)
+			expect(status.task.usage.durationMs).toBeLessThan(60_000)
+			expect(status.exceeded).toBeUndefined()
+		})
 	})
 
 	describe("getEnvironmentDetails", () => {
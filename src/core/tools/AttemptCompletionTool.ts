@@ -84,6 +84,19 @@ export class AttemptCompletionTool extends BaseTool<"attempt_completion"> {
 
 			task.consecutiveMistakeCount = 0
 
+			// preCompletion hooks can reject the completion, e.g. while checks fail.
+			const { blockReason } = await task.runLifecycleHooks("preCompletion", { result })
+
+			if (blockReason !== undefined) {
+				await task.say("error", `A hook rejected the completion: ${blockReason}`)
+				pushToolResult(
+					formatResponse.toolError(
+						`The completion was rejected by a hook. Address its feedback, and then attempt completion again.\n<feedback>\n${blockReason}\n</feedback>`,
+					),
+				)
+				return
+			}
+
 			await task.say("completion_result", result, undefined, false)
 			TelemetryService.instance.captureTaskCompleted(task.taskId)
 			task.emit(RooCodeEventName.TaskCompleted, task.taskId, task.getTokenUsage(), task.toolUsage)
@@ -4,11 +4,13 @@ import {
 	BrowserAction,
 	BrowserActionResult,
 	browserActions,
+	browserElementActions,
 	ClineSayBrowserAction,
 } from "../../shared/ExtensionMessage"
 import { formatResponse } from "../prompts/responses"
 import { Anthropic } from "@anthropic-ai/sdk"
 import { scaleCoordinate } from "../../shared/browserUtils"
+import { isValidStatusFilter } from "../../services/browser/BrowserActivityRecorder"
 
 export async function browserActionTool(
 	cline: Task,
@@ -23,6 +25,10 @@ export async function browserActionTool(
 	const coordinate: string | undefined = block.params.coordinate
 	const text: string | undefined = block.params.text
 	const size: string | undefined = block.params.size
+	const ref: string | undefined = block.params.ref
+	const selector: string | undefined = block.params.selector
+	const expression: string | undefined = block.params.expression
+	const status: string | undefined = block.params.status
 
 	if (!action || !browserActions.includes(action)) {
 		// checking for action to ensure it is complete and valid
@@ -50,6 +56,11 @@ export async function browserActionTool(
 						coordinate: removeClosingTag("coordinate", coordinate),
 						text: removeClosingTag("text", text),
 						size: removeClosingTag("size", size),
+						ref: removeClosingTag("ref", ref),
+						selector: removeClosingTag("selector", selector),
+						expression: removeClosingTag("expression", expression),
+						url: removeClosingTag("url", url),
+						status: removeClosingTag("status", status),
 					} satisfies ClineSayBrowserAction),
 					undefined,
 					block.partial,
@@ -155,6 +166,60 @@ export async function browserActionTool(
 					}
 				}
 
+				// Element actions target an element of the last snapshot by its numbered reference.
+				const elementRef = ref !== undefined ? Number(ref.trim().replace(/^\[(.*)\]$/, "$1")) : NaN
+
+				if ((browserElementActions as readonly BrowserAction[]).includes(action)) {
+					if (!Number.isInteger(elementRef) || elementRef < 1) {
+						cline.consecutiveMistakeCount++
+						cline.recordToolError("browser_action")
+						cline.didToolFailInCurrentTurn = true
+
+						if (!ref) {
+							pushToolResult(await cline.sayAndCreateMissingParamError("browser_action", "ref"))
+						} else {
+							const errorMessage = `Invalid element reference "${ref}". Use the number of an element from the last snapshot.`
+							await cline.say("error", errorMessage)
+							pushToolResult(formatResponse.toolError(errorMessage))
+						}
+						return
+					}
+				}
+
+				if ((action === "fill" || action === "select_option") && text === undefined) {
+					cline.consecutiveMistakeCount++
+					cline.recordToolError("browser_action")
+					cline.didToolFailInCurrentTurn = true
+					pushToolResult(await cline.sayAndCreateMissingParamError("browser_action", "text"))
+					return
+				}
+
+				if (action === "wait_for" && !selector && !text) {
+					cline.consecutiveMistakeCount++
+					cline.recordToolError("browser_action")
+					cline.didToolFailInCurrentTurn = true
+					pushToolResult(await cline.sayAndCreateMissingParamError("browser_action", "selector"))
+					return
+				}
+
+				if (action === "evaluate" && !expression) {
+					cline.consecutiveMistakeCount++
+					cline.recordToolError("browser_action")
+					cline.didToolFailInCurrentTurn = true
+					pushToolResult(await cline.sayAndCreateMissingParamError("browser_action", "expression"))
+					return
+				}
+
+				if (action === "get_network_log" && status && !isValidStatusFilter(status)) {
+					cline.consecutiveMistakeCount++
+					cline.recordToolError("browser_action")
+					cline.didToolFailInCurrentTurn = true
+					const errorMessage = `Invalid status filter "${status}". Use a status code (e.g. 404), a status class (e.g. 4xx), "failed" or "error".`
+					await cline.say("error", errorMessage)
+					pushToolResult(formatResponse.toolError(errorMessage))
+					return
+				}
+
 				cline.consecutiveMistakeCount = 0
 
 				// Prepare say payload; include executedCoordinate for pointer actions
@@ -163,10 +228,17 @@ export async function browserActionTool(
 					coordinate,
 					text,
 					size,
+					ref,
+					selector,
+					expression,
+					...(action === "get_network_log" && { url, status }),
 				}
 				if ((action === "click" || action === "hover") && processedCoordinate) {
 					sayPayload.executedCoordinate = processedCoordinate
 				}
+				if (Number.isInteger(elementRef)) {
+					sayPayload.element = cline.browserSession.describeElement(elementRef)
+				}
 				await cline.say("browser_action", JSON.stringify(sayPayload), undefined, false)
 
 				switch (action) {
@@ -191,6 +263,30 @@ export async function browserActionTool(
 					case "resize":
 						browserActionResult = await cline.browserSession.resize(size!)
 						break
+					case "snapshot":
+						browserActionResult = await cline.browserSession.snapshot()
+						break
+					case "click_element":
+						browserActionResult = await cline.browserSession.clickElement(elementRef)
+						break
+					case "fill":
+						browserActionResult = await cline.browserSession.fill(elementRef, text!)
+						break
+					case "select_option":
+						browserActionResult = await cline.browserSession.selectOption(elementRef, text!)
+						break
+					case "wait_for":
+						browserActionResult = await cline.browserSession.waitFor({ selector, text })
+						break
+					case "evaluate":
+						browserActionResult = await cline.browserSession.evaluate(expression!)
+						break
+					case "navigate_back":
+						browserActionResult = await cline.browserSession.navigateBack()
+						break
+					case "get_network_log":
+						browserActionResult = await cline.browserSession.getNetworkLog({ url, status })
+						break
 					case "close":
 						browserActionResult = await cline.browserSession.closeBrowser()
 						break
@@ -205,13 +301,46 @@ export async function browserActionTool(
 				case "press":
 				case "scroll_down":
 				case "scroll_up":
-				case "resize": {
+				case "resize":
+				case "snapshot":
+				case "click_element":
+				case "fill":
+				case "select_option":
+				case "wait_for":
+				case "evaluate":
+				case "navigate_back":
+				case "get_network_log": {
 					await cline.say("browser_action_result", JSON.stringify(browserActionResult))
 
 					const images = browserActionResult?.screenshot ? [browserActionResult.screenshot] : []
 
 					let messageText = `The browser action has been executed.`
 
+					if (browserActionResult?.content !== undefined) {
+						const label =
+							action === "snapshot"
+								? "Page snapshot"
+								: action === "get_network_log"
+									? "Network log"
+									: "Result"
+						messageText += `\n\n${label}:\n${browserActionResult.content}`
+					}
+
+					if (browserActionResult?.networkErrors) {
+						messageText += `\n\nFailed network requests:\n${browserActionResult.networkErrors}`
+					}
+
+					if (browserActionResult?.currentUrl) {
+						messageText += `\n\nCurrent URL: ${browserActionResult.currentUrl}`
+					}
+
+					// Actions that only read the page don't return a screenshot.
+					if (images.length === 0) {
+						messageText += `\n\nConsole logs:\n${browserActionResult?.logs || "(No new logs)"}\n`
+						pushToolResult(messageText)
+						break
+					}
+
 					messageText += `\n\n**CRITICAL**: When providing click/hover coordinates:`
 					messageText += `\n1. Screenshot dimensions != Browser viewport dimensions`
 					messageText += `\n2. Measure x,y on the screenshot image you see below`
@@ -5,7 +5,7 @@ import { Task } from "../task/Task"
 import { CodeIndexManager } from "../../services/code-index/manager"
 import { getWorkspacePath } from "../../utils/path"
 import { formatResponse } from "../prompts/responses"
-import { VectorStoreSearchResult } from "../../services/code-index/interfaces"
+import { CodeIndexSearchResult, SearchResultSource } from "../../services/code-index/interfaces"
 import { BaseTool, ToolCallbacks } from "./BaseTool"
 import type { ToolUse } from "../../shared/tools"
 
@@ -83,7 +83,7 @@ export class CodebaseSearchTool extends BaseTool<"codebase_search"> {
 				throw new Error("Code Indexing is not configured (Missing OpenAI Key or Qdrant URL).")
 			}
 
-			const searchResults: VectorStoreSearchResult[] = await manager.searchIndex(query, directoryPrefix)
+			const searchResults: CodeIndexSearchResult[] = await manager.searchIndex(query, directoryPrefix)
 
 			if (!searchResults || searchResults.length === 0) {
 				pushToolResult(`No relevant code snippets found for the query: "${query}"`)
@@ -101,6 +101,7 @@ export class CodebaseSearchTool extends BaseTool<"codebase_search"> {
 					startLine: number
 					endLine: number
 					codeChunk: string
+					source: SearchResultSource
 				}>
 			}
 
@@ -116,6 +117,7 @@ export class CodebaseSearchTool extends BaseTool<"codebase_search"> {
 					startLine: result.payload.startLine,
 					endLine: result.payload.endLine,
 					codeChunk: result.payload.codeChunk.trim(),
+					source: result.source,
 				})
 			})
 
@@ -129,6 +131,7 @@ ${jsonResult.results
 	.map(
 		(result) => `File path: ${result.filePath}
 Score: ${result.score}
+Match: ${result.source}
 Lines: ${result.startLine}-${result.endLine}
 Code Chunk: ${result.codeChunk}
 `,
@@ -4,7 +4,7 @@ import * as vscode from "vscode"
 
 import delay from "delay"
 
-import { CommandExecutionStatus, DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT } from "@roo-code/types"
+import { CommandExecutionStatus, DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT, type SandboxProfile } from "@roo-code/types"
 import { TelemetryService } from "@roo-code/telemetry"
 
 import { Task } from "../task/Task"
@@ -15,8 +15,10 @@ import { unescapeHtmlEntities } from "../../utils/text-normalization"
 import { ExitCodeDetails, RooTerminalCallbacks, RooTerminalProcess } from "../../integrations/terminal/types"
 import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
 import { Terminal } from "../../integrations/terminal/Terminal"
+import { assertInsideSandboxWorkspace, SandboxUnavailableError } from "../../integrations/terminal/sandbox"
 import { Package } from "../../shared/package"
 import { t } from "../../i18n"
+import { getSandboxProfileForTask, SandboxProfileError } from "../sandbox/sandboxProfile"
 import { BaseTool, ToolCallbacks } from "./BaseTool"
 
 class ShellIntegrationError extends Error {}
@@ -24,6 +26,7 @@ class ShellIntegrationError extends Error {}
 interface ExecuteCommandParams {
 	command: string
 	cwd?: string
+	background?: boolean
 }
 
 export class ExecuteCommandTool extends BaseTool<"execute_command"> {
@@ -33,11 +36,12 @@ export class ExecuteCommandTool extends BaseTool<"execute_command"> {
 		return {
 			command: params.command || "",
 			cwd: params.cwd,
+			background: params.background === "true",
 		}
 	}
 
 	async execute(params: ExecuteCommandParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
-		const { command, cwd: customCwd } = params
+		const { command, cwd: customCwd, background } = params
 		const { handleError, pushToolResult, askApproval, removeClosingTag, toolProtocol } = callbacks
 
 		try {
@@ -65,6 +69,30 @@ export class ExecuteCommandTool extends BaseTool<"execute_command"> {
 				return
 			}
 
+			let sandbox: SandboxProfile | undefined
+
+			try {
+				sandbox = await getSandboxProfileForTask(task)
+
+				if (sandbox) {
+					assertInsideSandboxWorkspace({ cwd: path.resolve(task.cwd, customCwd ?? ""), workspace: task.cwd })
+				}
+			} catch (error) {
+				if (error instanceof SandboxProfileError || error instanceof SandboxUnavailableError) {
+					task.recordToolError("execute_command")
+					await task.say("error", error.message)
+					pushToolResult(formatResponse.toolError(error.message, toolProtocol))
+					return
+				}
+
+				throw error
+			}
+
+			if (background) {
+				pushToolResult(await startBackgroundJob(task, unescapedCommand, customCwd, sandbox))
+				return
+			}
+
 			const executionId = task.lastMessageTs?.toString() ?? Date.now().toString()
 			const provider = await task.providerRef.deref()
 			const providerState = await provider?.getState()
@@ -101,6 +129,7 @@ export class ExecuteCommandTool extends BaseTool<"execute_command"> {
 				terminalOutputLineLimit,
 				terminalOutputCharacterLimit,
 				commandExecutionTimeout,
+				sandbox,
 			}
 
 			try {
@@ -147,6 +176,34 @@ export class ExecuteCommandTool extends BaseTool<"execute_command"> {
 	}
 }
 
+/**
+ * Starts the command as a background job of the task, so that the model can
+ * keep working while it runs. The model is notified in the environment details
+ * when the job finishes.
+ */
+async function startBackgroundJob(
+	task: Task,
+	command: string,
+	customCwd?: string,
+	sandbox?: SandboxProfile,
+): Promise<ToolResponse> {
+	const workingDir = !customCwd
+		? task.cwd
+		: path.isAbsolute(customCwd)
+			? customCwd
+			: path.resolve(task.cwd, customCwd)
+
+	try {
+		await fs.access(workingDir)
+	} catch (error) {
+		return `Working directory '${workingDir}' does not exist.`
+	}
+
+	const job = task.backgroundJobService.start(command, workingDir, { sandbox, workspace: task.cwd })
+
+	return `Command started as background job ${job.id} in '${workingDir.toPosix()}'. Continue with other work; when the job finishes, its exit code and the last lines of its output will be reported in the environment details.`
+}
+
 export type ExecuteCommandOptions = {
 	executionId: string
 	command: string
@@ -155,6 +212,8 @@ export type ExecuteCommandOptions = {
 	terminalOutputLineLimit?: number
 	terminalOutputCharacterLimit?: number
 	commandExecutionTimeout?: number
+	// Runs the command in this sandbox, with the execa provider.
+	sandbox?: SandboxProfile
 }
 
 export async function executeCommandInTerminal(
@@ -167,6 +226,7 @@ export async function executeCommandInTerminal(
 		terminalOutputLineLimit = 500,
 		terminalOutputCharacterLimit = DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT,
 		commandExecutionTimeout = 0,
+		sandbox,
 	}: ExecuteCommandOptions,
 ): Promise<[boolean, ToolResponse]> {
 	// Convert milliseconds back to seconds for display purposes.
@@ -195,7 +255,7 @@ export async function executeCommandInTerminal(
 	let shellIntegrationError: string | undefined
 	let hasAskedForCommandOutput = false
 
-	const terminalProvider = terminalShellIntegrationDisabled ? "execa" : "vscode"
+	const terminalProvider = terminalShellIntegrationDisabled || sandbox ? "execa" : "vscode"
 	const provider = await task.providerRef.deref()
 
 	let accumulatedOutput = ""
@@ -268,7 +328,7 @@ export async function executeCommandInTerminal(
 		workingDir = terminal.getCurrentWorkingDirectory()
 	}
 
-	const process = terminal.runCommand(command, callbacks)
+	const process = terminal.runCommand(command, callbacks, { sandbox, workspace: task.cwd })
 	task.terminalProcess = process
 
 	// Implement command execution timeout (skip if timeout is 0).
@@ -347,7 +407,9 @@ export async function executeCommandInTerminal(
 		let exitStatus: string = ""
 
 		if (exitDetails !== undefined) {
-			if (exitDetails.signalName) {
+			if (exitDetails.limitExceeded) {
+				exitStatus = `Process was stopped because it exceeded the ${exitDetails.limitExceeded} limit of its sandbox. Do not re-run the command unchanged.`
+			} else if (exitDetails.signalName) {
 				exitStatus = `Process terminated by signal ${exitDetails.signalName}`
 
 				if (exitDetails.coreDumpPossible) {
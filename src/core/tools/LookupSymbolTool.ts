@@ -0,0 +1,182 @@
+import * as path from "path"
+import * as vscode from "vscode"
+
+import { Task } from "../task/Task"
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import { formatResponse } from "../prompts/responses"
+import { getReadablePath } from "../../utils/path"
+import { isPathOutsideWorkspace } from "../../utils/pathUtils"
+import {
+	SymbolLocation,
+	SymbolLookup,
+	SymbolNotFoundError,
+	findDefinitions,
+	findReferences,
+	getHoverText,
+	resolveSymbolPosition,
+	symbolLookups,
+} from "../../integrations/editor/languageServices"
+import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import type { ToolUse } from "../../shared/tools"
+
+const MAX_SYMBOL_LOCATIONS = 100
+
+interface LookupSymbolParams {
+	action: string
+	path: string
+	line: number
+	symbol: string
+}
+
+export class LookupSymbolTool extends BaseTool<"lookup_symbol"> {
+	readonly name = "lookup_symbol" as const
+
+	parseLegacy(params: Partial<Record<string, string>>): LookupSymbolParams {
+		return {
+			action: params.action || "",
+			path: params.path || "",
+			// Zero is reported as a missing line.
+			line: parseInt(params.line || "", 10) || 0,
+			symbol: params.symbol || "",
+		}
+	}
+
+	async execute(params: LookupSymbolParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { action, path: relPath, line, symbol } = params
+		const { askApproval, handleError, pushToolResult, toolProtocol } = callbacks
+
+		try {
+			for (const [name, value] of Object.entries({ action, path: relPath, line, symbol })) {
+				if (!value) {
+					this.recordMistake(task)
+					pushToolResult(await task.sayAndCreateMissingParamError("lookup_symbol", name))
+					return
+				}
+			}
+
+			if (!symbolLookups.includes(action as SymbolLookup)) {
+				this.recordMistake(task)
+				pushToolResult(
+					formatResponse.toolError(`Unknown action "${action}". Use one of: ${symbolLookups.join(", ")}.`),
+				)
+				return
+			}
+
+			if (!task.rooIgnoreController?.validateAccess(relPath)) {
+				await task.say("rooignore_error", relPath)
+				pushToolResult(formatResponse.rooIgnoreError(relPath, toolProtocol))
+				return
+			}
+
+			const absolutePath = path.resolve(task.cwd, relPath)
+			let result: string
+
+			try {
+				const { document, position } = await resolveSymbolPosition(vscode.Uri.file(absolutePath), line, symbol)
+				result = await this.lookup(action as SymbolLookup, document.uri, position, symbol, task)
+			} catch (error) {
+				if (!(error instanceof SymbolNotFoundError)) {
+					throw error
+				}
+
+				this.recordMistake(task)
+				await task.say("error", error.message)
+				pushToolResult(formatResponse.toolError(error.message))
+				return
+			}
+
+			task.consecutiveMistakeCount = 0
+
+			const completeMessage = JSON.stringify({
+				tool: "lookupSymbol",
+				path: getReadablePath(task.cwd, relPath),
+				lineNumber: line,
+				symbol,
+				lookup: action as SymbolLookup,
+				isOutsideWorkspace: isPathOutsideWorkspace(absolutePath),
+				content: result,
+			} satisfies ClineSayTool)
+
+			const didApprove = await askApproval("tool", completeMessage)
+
+			if (!didApprove) {
+				return
+			}
+
+			await task.fileContextTracker.trackFileContext(relPath, "read_tool" as RecordSource)
+			pushToolResult(result)
+		} catch (error) {
+			await handleError("looking up symbol", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"lookup_symbol">): Promise<void> {
+		const relPath = block.params.path
+		const absolutePath = relPath ? path.resolve(task.cwd, relPath) : task.cwd
+
+		const partialMessage = JSON.stringify({
+			tool: "lookupSymbol",
+			path: getReadablePath(task.cwd, relPath || ""),
+			symbol: block.params.symbol,
+			lookup: symbolLookups.find((lookup) => lookup === block.params.action),
+			isOutsideWorkspace: isPathOutsideWorkspace(absolutePath),
+			content: "",
+		} satisfies ClineSayTool)
+
+		await task.ask("tool", partialMessage, block.partial).catch(() => {})
+	}
+
+	private async lookup(
+		action: SymbolLookup,
+		uri: vscode.Uri,
+		position: vscode.Position,
+		symbol: string,
+		task: Task,
+	): Promise<string> {
+		const noResults = `The language extension may still be loading, or none is installed for this file type; fall back to search_files.`
+
+		if (action === "hover") {
+			const hover = await getHoverText(uri, position)
+			return hover ? hover : `No hover information for "${symbol}". ${noResults}`
+		}
+
+		if (action === "definition") {
+			const definitions = this.filterIgnored(await findDefinitions(uri, position, MAX_SYMBOL_LOCATIONS), task)
+
+			return definitions.length > 0
+				? `Definitions of "${symbol}":\n${this.formatLocations(definitions, task)}`
+				: `No definition found for "${symbol}". ${noResults}`
+		}
+
+		const { locations, total } = await findReferences(uri, position, MAX_SYMBOL_LOCATIONS)
+		const references = this.filterIgnored(locations, task)
+
+		if (references.length === 0) {
+			return `No references found for "${symbol}". ${noResults}`
+		}
+
+		const truncated = total > MAX_SYMBOL_LOCATIONS ? ` (showing the first ${MAX_SYMBOL_LOCATIONS})` : ""
+		return `${total} references to "${symbol}"${truncated}:\n${this.formatLocations(references, task)}`
+	}
+
+	private filterIgnored(locations: SymbolLocation[], task: Task): SymbolLocation[] {
+		return locations.filter(({ uri }) => task.rooIgnoreController?.validateAccess(uri.fsPath))
+	}
+
+	private formatLocations(locations: SymbolLocation[], task: Task): string {
+		return locations
+			.map(
+				({ uri, line, column, text }) => `${getReadablePath(task.cwd, uri.fsPath)}:${line}:${column} | ${text}`,
+			)
+			.join("\n")
+	}
+
+	private recordMistake(task: Task) {
+		task.consecutiveMistakeCount++
+		task.recordToolError("lookup_symbol")
+		task.didToolFailInCurrentTurn = true
+	}
+}
+
+export const lookupSymbolTool = new LookupSymbolTool()
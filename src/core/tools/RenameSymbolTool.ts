@@ -0,0 +1,233 @@
+import * as path from "path"
+import * as vscode from "vscode"
+import delay from "delay"
+
+import { DEFAULT_WRITE_DELAY_MS } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import { formatResponse } from "../prompts/responses"
+import { getReadablePath } from "../../utils/path"
+import { isPathOutsideWorkspace } from "../../utils/pathUtils"
+import {
+	SymbolNotFoundError,
+	getEditedDocuments,
+	getRenameEdit,
+	getTextEdit,
+	resolveSymbolPosition,
+} from "../../integrations/editor/languageServices"
+import { diagnosticsToProblemsString, getNewDiagnostics } from "../../integrations/diagnostics"
+import { sanitizeUnifiedDiff, computeDiffStats } from "../diff/stats"
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+import type { ToolUse } from "../../shared/tools"
+
+interface RenameSymbolParams {
+	path: string
+	line: number
+	symbol: string
+	new_name: string
+}
+
+export class RenameSymbolTool extends BaseTool<"rename_symbol"> {
+	readonly name = "rename_symbol" as const
+
+	parseLegacy(params: Partial<Record<string, string>>): RenameSymbolParams {
+		return {
+			path: params.path || "",
+			// Zero is reported as a missing line.
+			line: parseInt(params.line || "", 10) || 0,
+			symbol: params.symbol || "",
+			new_name: params.new_name || "",
+		}
+	}
+
+	async execute(params: RenameSymbolParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { path: relPath, line, symbol, new_name: newName } = params
+		const { askApproval, handleError, pushToolResult, toolProtocol } = callbacks
+
+		try {
+			for (const [name, value] of Object.entries({ path: relPath, line, symbol, new_name: newName })) {
+				if (!value) {
+					this.recordMistake(task)
+					pushToolResult(await task.sayAndCreateMissingParamError("rename_symbol", name))
+					return
+				}
+			}
+
+			if (!task.rooIgnoreController?.validateAccess(relPath)) {
+				await task.say("rooignore_error", relPath)
+				pushToolResult(formatResponse.rooIgnoreError(relPath, toolProtocol))
+				return
+			}
+
+			const absolutePath = path.resolve(task.cwd, relPath)
+			let edit: vscode.WorkspaceEdit | undefined
+
+			try {
+				const { document, position } = await resolveSymbolPosition(vscode.Uri.file(absolutePath), line, symbol)
+				edit = await getRenameEdit(document.uri, position, newName)
+			} catch (error) {
+				// The language extension rejected the rename, e.g. for a keyword
+				// or an invalid name.
+				const message =
+					error instanceof SymbolNotFoundError
+						? error.message
+						: `Cannot rename "${symbol}": ${error instanceof Error ? error.message : error}`
+
+				this.recordMistake(task)
+				await task.say("error", message)
+				pushToolResult(formatResponse.toolError(message))
+				return
+			}
+
+			const documents = edit ? await getEditedDocuments(edit) : []
+
+			if (!edit || documents.length === 0) {
+				this.recordMistake(task)
+				pushToolResult(
+					formatResponse.toolError(
+						`No language extension could rename "${symbol}". It may still be loading, or none is installed for this file type.`,
+					),
+				)
+				return
+			}
+
+			const files = documents.map((document) => ({
+				...document,
+				relPath: path.relative(task.cwd, document.uri.fsPath),
+			}))
+
+			const ignored = files.find((file) => !task.rooIgnoreController?.validateAccess(file.relPath))
+
+			if (ignored) {
+				await task.say("rooignore_error", ignored.relPath)
+				pushToolResult(formatResponse.rooIgnoreError(ignored.relPath, toolProtocol))
+				return
+			}
+
+			task.consecutiveMistakeCount = 0
+
+			const isProtected = files.some((file) => task.rooProtectedController?.isWriteProtected(file.relPath))
+
+			const batchDiffs = files.map(({ relPath, originalContent, newContent, changeCount }) => {
+				const readablePath = getReadablePath(task.cwd, relPath)
+				const diff = sanitizeUnifiedDiff(formatResponse.createPrettyPatch(relPath, originalContent, newContent))
+
+				return {
+					path: readablePath,
+					changeCount,
+					key: `${readablePath} (${changeCount === 1 ? "1 change" : `${changeCount} changes`})`,
+					content: diff,
+					diffStats: computeDiffStats(diff) || undefined,
+				}
+			})
+
+			const completeMessage = JSON.stringify({
+				tool: "renameSymbol",
+				path: getReadablePath(task.cwd, relPath),
+				lineNumber: line,
+				symbol,
+				newName,
+				batchDiffs,
+				isOutsideWorkspace: files.some((file) => isPathOutsideWorkspace(file.uri.fsPath)),
+				isProtected,
+			} satisfies ClineSayTool)
+
+			const didApprove = await askApproval("tool", completeMessage, undefined, isProtected)
+
+			if (!didApprove) {
+				return
+			}
+
+			const preDiagnostics = vscode.languages.getDiagnostics()
+
+			// Only the reviewed text edits are applied.
+			if (!(await vscode.workspace.applyEdit(getTextEdit(edit)))) {
+				pushToolResult(
+					formatResponse.toolError(
+						`The rename of "${symbol}" could not be applied. Read the files and retry.`,
+					),
+				)
+				return
+			}
+
+			// Documents with unsaved changes of the user are left unsaved.
+			for (const file of files) {
+				if (!file.isDirty) {
+					const document = await vscode.workspace.openTextDocument(file.uri)
+					await document.save()
+				}
+
+				await task.fileContextTracker.trackFileContext(file.relPath, "roo_edited")
+			}
+
+			task.didEditFile = true
+
+			const changeCount = files.reduce((sum, file) => sum + file.changeCount, 0)
+			let result =
+				`Renamed "${symbol}" to "${newName}" with ${changeCount} changes in ${files.length === 1 ? "1 file" : `${files.length} files`}:\n` +
+				batchDiffs.map((diff) => `- ${diff.key}`).join("\n")
+
+			const unsaved = files.filter((file) => file.isDirty)
+
+			if (unsaved.length > 0) {
+				result += `\n\nThese files had unsaved changes and were left unsaved: ${unsaved.map((file) => file.relPath).join(", ")}`
+			}
+
+			const hooksReport = await task.postEditHookRunner.runAfterEdit(files.map((file) => file.relPath))
+
+			if (hooksReport) {
+				result += `\n\nPost-edit hooks:\n${hooksReport}`
+			}
+
+			const state = await task.providerRef.deref()?.getState()
+
+			if (state?.diagnosticsEnabled ?? true) {
+				// Give the language servers time to process the edits.
+				await delay(Math.max(0, state?.writeDelayMs ?? DEFAULT_WRITE_DELAY_MS))
+
+				const newProblems = await diagnosticsToProblemsString(
+					getNewDiagnostics(preDiagnostics, vscode.languages.getDiagnostics()),
+					[vscode.DiagnosticSeverity.Error],
+					task.cwd,
+					state?.includeDiagnosticMessages ?? true,
+					state?.maxDiagnosticMessages ?? 50,
+				)
+
+				if (newProblems) {
+					result += `\n\nNew problems detected after the rename:\n${newProblems}`
+				}
+			}
+
+			pushToolResult(result)
+
+			// Process any queued messages after file edit completes
+			task.processQueuedMessages()
+		} catch (error) {
+			await handleError("renaming symbol", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"rename_symbol">): Promise<void> {
+		const relPath = block.params.path
+		const absolutePath = relPath ? path.resolve(task.cwd, relPath) : task.cwd
+
+		const partialMessage = JSON.stringify({
+			tool: "renameSymbol",
+			path: getReadablePath(task.cwd, relPath || ""),
+			symbol: block.params.symbol,
+			newName: block.params.new_name,
+			isOutsideWorkspace: isPathOutsideWorkspace(absolutePath),
+		} satisfies ClineSayTool)
+
+		await task.ask("tool", partialMessage, block.partial).catch(() => {})
+	}
+
+	private recordMistake(task: Task) {
+		task.consecutiveMistakeCount++
+		task.recordToolError("rename_symbol")
+		task.didToolFailInCurrentTurn = true
+	}
+}
+
+export const renameSymbolTool = new RenameSymbolTool()
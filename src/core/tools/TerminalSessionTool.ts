@@ -0,0 +1,339 @@
+import fs from "fs/promises"
+import * as path from "path"
+
+import { DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+
+import { ToolUse } from "../../shared/tools"
+import { formatResponse } from "../prompts/responses"
+import { unescapeHtmlEntities } from "../../utils/text-normalization"
+import {
+	RooTerminalSession,
+	TerminalSessionKey,
+	TerminalSessionOutput,
+	terminalSessionKeys,
+} from "../../integrations/terminal/types"
+import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
+import { Terminal } from "../../integrations/terminal/Terminal"
+import { getSandboxProfileForTask } from "../sandbox/sandboxProfile"
+import { BaseTool, ToolCallbacks } from "./BaseTool"
+
+const terminalSessionActions = ["start", "send", "read", "list", "kill"] as const
+
+type TerminalSessionAction = (typeof terminalSessionActions)[number]
+
+interface TerminalSessionParams {
+	action: string
+	session?: string
+	command?: string
+	cwd?: string
+	input?: string
+	key?: string
+	cursor?: number
+}
+
+interface OutputLimits {
+	terminalOutputLineLimit: number
+	terminalOutputCharacterLimit: number
+}
+
+export class TerminalSessionTool extends BaseTool<"terminal_session"> {
+	readonly name = "terminal_session" as const
+
+	parseLegacy(params: Partial<Record<string, string>>): TerminalSessionParams {
+		const cursor = params.cursor ? parseInt(params.cursor, 10) : undefined
+
+		return {
+			action: params.action || "",
+			session: params.session,
+			command: params.command,
+			cwd: params.cwd,
+			input: params.input,
+			key: params.key,
+			cursor: Number.isNaN(cursor) ? undefined : cursor,
+		}
+	}
+
+	async execute(params: TerminalSessionParams, task: Task, callbacks: ToolCallbacks): Promise<void> {
+		const { action, session: name } = params
+		const { handleError, pushToolResult } = callbacks
+
+		try {
+			if (!action) {
+				task.consecutiveMistakeCount++
+				task.recordToolError("terminal_session")
+				pushToolResult(await task.sayAndCreateMissingParamError("terminal_session", "action"))
+				return
+			}
+
+			if (!terminalSessionActions.includes(action as TerminalSessionAction)) {
+				this.recordMistake(task)
+				pushToolResult(
+					formatResponse.toolError(
+						`Unknown action "${action}". Use one of: ${terminalSessionActions.join(", ")}.`,
+					),
+				)
+				return
+			}
+
+			if (action === "list") {
+				task.consecutiveMistakeCount = 0
+				pushToolResult(this.describeSessions(TerminalRegistry.getSessions(task.taskId)))
+				return
+			}
+
+			if (!name) {
+				task.consecutiveMistakeCount++
+				task.recordToolError("terminal_session")
+				pushToolResult(await task.sayAndCreateMissingParamError("terminal_session", "session"))
+				return
+			}
+
+			const provider = await task.providerRef.deref()
+			const {
+				terminalOutputLineLimit = 500,
+				terminalOutputCharacterLimit = DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT,
+				terminalShellIntegrationDisabled = true,
+			} = (await provider?.getState()) ?? {}
+			const limits = { terminalOutputLineLimit, terminalOutputCharacterLimit }
+
+			if (action === "start") {
+				await this.start(params, name, task, callbacks, limits, terminalShellIntegrationDisabled)
+				return
+			}
+
+			const session = TerminalRegistry.getSession(name, task.taskId)
+
+			if (!session) {
+				this.recordMistake(task)
+				pushToolResult(
+					formatResponse.toolError(
+						`There is no session named "${name}". Use the "list" action to see the sessions of this task.`,
+					),
+				)
+				return
+			}
+
+			task.consecutiveMistakeCount = 0
+
+			switch (action) {
+				case "send":
+					await this.send(params, session, task, callbacks, limits)
+					break
+				case "read":
+					pushToolResult(await this.showOutput(task, session, session.read(params.cursor), limits))
+					break
+				case "kill":
+					session.kill()
+					pushToolResult(`Session "${session.name}" was killed.`)
+					break
+			}
+		} catch (error) {
+			await handleError("using terminal session", error as Error)
+		}
+	}
+
+	override async handlePartial(task: Task, block: ToolUse<"terminal_session">): Promise<void> {
+		const { action, command, input } = block.params
+
+		// Only the actions that need approval are shown while streaming.
+		if (action === "start" || action === "send") {
+			const text = action === "start" ? command : input
+			await task
+				.ask(
+					"command",
+					this.removeClosingTag(action === "start" ? "command" : "input", text, block.partial),
+					block.partial,
+				)
+				.catch(() => {})
+		}
+	}
+
+	private async start(
+		{ command, cwd: customCwd }: TerminalSessionParams,
+		name: string,
+		task: Task,
+		{ askApproval, pushToolResult, toolProtocol }: ToolCallbacks,
+		limits: OutputLimits,
+		terminalShellIntegrationDisabled: boolean,
+	): Promise<void> {
+		if (!command) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("terminal_session")
+			pushToolResult(await task.sayAndCreateMissingParamError("terminal_session", "command"))
+			return
+		}
+
+		if (TerminalRegistry.getSession(name, task.taskId)?.isRunning()) {
+			this.recordMistake(task)
+			pushToolResult(
+				formatResponse.toolError(
+					`A session named "${name}" is already running. Send input to it, or kill it before starting a new one.`,
+				),
+			)
+			return
+		}
+
+		const unescapedCommand = unescapeHtmlEntities(command)
+
+		if (!(await this.approveCommand(unescapedCommand, task, askApproval, pushToolResult, toolProtocol))) {
+			return
+		}
+
+		task.consecutiveMistakeCount = 0
+
+		const workingDir = !customCwd
+			? task.cwd
+			: path.isAbsolute(customCwd)
+				? customCwd
+				: path.resolve(task.cwd, customCwd)
+
+		try {
+			await fs.access(workingDir)
+		} catch {
+			pushToolResult(`Working directory '${workingDir}' does not exist.`)
+			return
+		}
+
+		let session: RooTerminalSession
+
+		try {
+			// Sandboxes are only supported by the execa provider.
+			const sandbox = await getSandboxProfileForTask(task)
+
+			session = await TerminalRegistry.startSession({
+				name,
+				command: unescapedCommand,
+				cwd: workingDir,
+				taskId: task.taskId,
+				provider: terminalShellIntegrationDisabled || sandbox ? "execa" : "vscode",
+				sandbox,
+				workspace: task.cwd,
+			})
+		} catch (error) {
+			pushToolResult(formatResponse.toolError(error instanceof Error ? error.message : String(error)))
+			return
+		}
+
+		await session.waitForOutput()
+		pushToolResult(await this.showOutput(task, session, session.read(), limits))
+	}
+
+	private async send(
+		{ input, key }: TerminalSessionParams,
+		session: RooTerminalSession,
+		task: Task,
+		{ askApproval, pushToolResult, toolProtocol }: ToolCallbacks,
+		limits: OutputLimits,
+	): Promise<void> {
+		if (input === undefined && !key) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("terminal_session")
+			pushToolResult(await task.sayAndCreateMissingParamError("terminal_session", "input"))
+			return
+		}
+
+		if (key && !terminalSessionKeys.includes(key as TerminalSessionKey)) {
+			this.recordMistake(task)
+			pushToolResult(
+				formatResponse.toolError(`Unknown key "${key}". Use one of: ${terminalSessionKeys.join(", ")}.`),
+			)
+			return
+		}
+
+		// Every line is a command for the program in the session, so each one
+		// is approved like a command run with execute_command.
+		const lines = input === undefined ? [] : unescapeHtmlEntities(input).split(/\r?\n/)
+
+		for (const line of lines) {
+			if (!(await this.approveCommand(line, task, askApproval, pushToolResult, toolProtocol))) {
+				return
+			}
+		}
+
+		try {
+			for (const line of lines) {
+				session.sendLine(line)
+			}
+
+			// Keys can only interrupt or navigate the running program, so they
+			// don't need approval.
+			if (key) {
+				session.sendKey(key as TerminalSessionKey)
+			}
+		} catch (error) {
+			pushToolResult(formatResponse.toolError(error instanceof Error ? error.message : String(error)))
+			return
+		}
+
+		await session.waitForOutput()
+		pushToolResult(await this.showOutput(task, session, session.read(), limits))
+	}
+
+	private async approveCommand(
+		command: string,
+		task: Task,
+		askApproval: ToolCallbacks["askApproval"],
+		pushToolResult: ToolCallbacks["pushToolResult"],
+		toolProtocol: ToolCallbacks["toolProtocol"],
+	): Promise<boolean> {
+		const ignoredFileAttemptedToAccess = task.rooIgnoreController?.validateCommand(command)
+
+		if (ignoredFileAttemptedToAccess) {
+			await task.say("rooignore_error", ignoredFileAttemptedToAccess)
+			pushToolResult(formatResponse.rooIgnoreError(ignoredFileAttemptedToAccess, toolProtocol))
+			return false
+		}
+
+		return askApproval("command", command)
+	}
+
+	private async showOutput(
+		task: Task,
+		session: RooTerminalSession,
+		{ output, cursor, truncated }: TerminalSessionOutput,
+		{ terminalOutputLineLimit, terminalOutputCharacterLimit }: OutputLimits,
+	): Promise<string> {
+		const result = Terminal.compressTerminalOutput(output, terminalOutputLineLimit, terminalOutputCharacterLimit)
+
+		if (result) {
+			await task.say("command_output", result)
+		}
+
+		return [
+			this.describeSession(session),
+			truncated ? "Older output was discarded; the output starts at the oldest output still available." : "",
+			result ? `Output:\n${result}` : "No new output.",
+			`Next cursor: ${cursor}`,
+		]
+			.filter(Boolean)
+			.join("\n")
+	}
+
+	private describeSession(session: RooTerminalSession): string {
+		const status = session.isRunning()
+			? "is running"
+			: session.exitCode !== undefined
+				? `exited with code ${session.exitCode}`
+				: "has exited"
+
+		return `Session "${session.name}" (${session.command}) ${status} in '${session.terminal.getCurrentWorkingDirectory().toPosix()}'.`
+	}
+
+	private describeSessions(sessions: RooTerminalSession[]): string {
+		if (sessions.length === 0) {
+			return "There are no sessions for this task."
+		}
+
+		return sessions.map((session) => this.describeSession(session)).join("\n")
+	}
+
+	private recordMistake(task: Task) {
+		task.consecutiveMistakeCount++
+		task.recordToolError("terminal_session")
+		task.didToolFailInCurrentTurn = true
+	}
+}
+
+export const terminalSessionTool = new TerminalSessionTool()
@@ -61,6 +61,7 @@ describe("attemptCompletionTool", () => {
 		mockTask = {
 			consecutiveMistakeCount: 0,
 			recordToolError: vi.fn(),
+			runLifecycleHooks: vi.fn().mockResolvedValue({}),
 			todoList: undefined,
 		}
 	})
@@ -473,4 +474,40 @@ describe("attemptCompletionTool", () => {
 			})
 		})
 	})
+
+	describe("preCompletion hooks", () => {
+		it("should reject the completion with the feedback of a blocking hook", async () => {
+			const block: AttemptCompletionToolUse = {
+				type: "tool_use",
+				name: "attempt_completion",
+				params: { result: "Task completed successfully" },
+				partial: false,
+			}
+
+			mockTask.runLifecycleHooks = vi.fn().mockResolvedValue({ blockReason: "2 tests are failing" })
+			mockTask.say = vi.fn()
+			mockTask.emit = vi.fn()
+
+			const callbacks: AttemptCompletionCallbacks = {
+				askApproval: mockAskApproval,
+				handleError: mockHandleError,
+				pushToolResult: mockPushToolResult,
+				removeClosingTag: mockRemoveClosingTag,
+				askFinishSubTaskApproval: mockAskFinishSubTaskApproval,
+				toolDescription: mockToolDescription,
+				toolProtocol: "xml",
+			}
+
+			await attemptCompletionTool.handle(mockTask as Task, block, callbacks)
+
+			expect(mockTask.runLifecycleHooks).toHaveBeenCalledWith("preCompletion", {
+				result: "Task completed successfully",
+			})
+			expect(mockTask.say).not.toHaveBeenCalledWith("completion_result", expect.anything(), undefined, false)
+			expect(mockTask.emit).not.toHaveBeenCalled()
+			expect(mockPushToolResult).toHaveBeenCalledWith(
+				expect.stringContaining("<feedback>\n2 tests are failing\n</feedback>"),
+			)
+		})
+	})
 })
@@ -17,6 +17,10 @@ vitest.mock("vscode", () => ({
 vitest.mock("fs/promises")
 vitest.mock("../../../integrations/terminal/TerminalRegistry")
 vitest.mock("../../task/Task")
+vitest.mock("../../sandbox/sandboxProfile", () => ({
+	getSandboxProfileForTask: vitest.fn().mockResolvedValue(undefined),
+	SandboxProfileError: class extends Error {},
+}))
 vitest.mock("../../prompts/responses", () => ({
 	formatResponse: {
 		toolError: vitest.fn((msg) => `Tool Error: ${msg}`),
@@ -93,7 +97,7 @@ describe("Command Execution Timeout Integration", () => {
 		await executeCommandInTerminal(mockTask as Task, options)
 
 		// Verify that the terminal was called with the command
-		expect(mockTerminal.runCommand).toHaveBeenCalledWith("echo test", expect.any(Object))
+		expect(mockTerminal.runCommand).toHaveBeenCalledWith("echo test", expect.any(Object), { sandbox: undefined })
 	})
 
 	it("should handle timeout scenario", async () => {
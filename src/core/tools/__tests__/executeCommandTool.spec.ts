@@ -7,6 +7,8 @@ import { Task } from "../../task/Task"
 import { formatResponse } from "../../prompts/responses"
 import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../../shared/tools"
 import { unescapeHtmlEntities } from "../../../utils/text-normalization"
+import { TerminalRegistry } from "../../../integrations/terminal/TerminalRegistry"
+import { getSandboxProfileForTask, SandboxProfileError } from "../../sandbox/sandboxProfile"
 
 // Mock dependencies
 vitest.mock("execa", () => ({
@@ -34,6 +36,11 @@ vitest.mock("../../../integrations/terminal/TerminalRegistry", () => ({
 	},
 }))
 
+vitest.mock("../../sandbox/sandboxProfile", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../../sandbox/sandboxProfile")>()),
+	getSandboxProfileForTask: vitest.fn().mockResolvedValue(undefined),
+}))
+
 vitest.mock("../../task/Task")
 vitest.mock("../../prompts/responses")
 
@@ -179,6 +186,88 @@ describe("executeCommandTool", () => {
 			const result = mockPushToolResult.mock.calls[0][0]
 			expect(result).toContain("/custom/path")
 		})
+
+		it("should start the command as a background job when requested", async () => {
+			mockToolUse.params.command = "npm test"
+			mockToolUse.params.background = "true"
+			mockCline.backgroundJobService = {
+				start: vitest.fn().mockReturnValue({ id: 7, command: "npm test", status: "running" }),
+			}
+
+			await executeCommandTool.handle(mockCline as unknown as Task, mockToolUse, {
+				askApproval: mockAskApproval as unknown as AskApproval,
+				handleError: mockHandleError as unknown as HandleError,
+				pushToolResult: mockPushToolResult as unknown as PushToolResult,
+				removeClosingTag: mockRemoveClosingTag as unknown as RemoveClosingTag,
+				toolProtocol: "xml",
+			})
+
+			expect(mockAskApproval).toHaveBeenCalledWith("command", "npm test")
+			expect(mockCline.backgroundJobService.start).toHaveBeenCalledWith("npm test", "/test/workspace", {
+				sandbox: undefined,
+				workspace: "/test/workspace",
+			})
+			expect(executeCommandModule.executeCommandInTerminal).not.toHaveBeenCalled()
+			expect(mockPushToolResult.mock.calls[0][0]).toContain("background job 7")
+		})
+
+		it("should run the command in the sandbox profile of the mode", async () => {
+			const sandbox = { backend: "bubblewrap" as const, network: false }
+			vitest.mocked(getSandboxProfileForTask).mockResolvedValueOnce(sandbox)
+
+			await executeCommandTool.handle(mockCline as unknown as Task, mockToolUse, {
+				askApproval: mockAskApproval as unknown as AskApproval,
+				handleError: mockHandleError as unknown as HandleError,
+				pushToolResult: mockPushToolResult as unknown as PushToolResult,
+				removeClosingTag: mockRemoveClosingTag as unknown as RemoveClosingTag,
+				toolProtocol: "xml",
+			})
+
+			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith("/test/workspace", undefined, "execa")
+			const terminal = await vitest.mocked(TerminalRegistry.getOrCreateTerminal).mock.results[0].value
+			expect(terminal.runCommand).toHaveBeenCalledWith("echo test", expect.any(Object), {
+				sandbox,
+				workspace: "/test/workspace",
+			})
+		})
+
+		it("should not run sandboxed commands outside the workspace", async () => {
+			vitest.mocked(getSandboxProfileForTask).mockResolvedValueOnce({ backend: "bubblewrap" })
+			;(formatResponse.toolError as any).mockImplementation((error: string) => `Error: ${error}`)
+			mockToolUse.params.cwd = "/"
+
+			await executeCommandTool.handle(mockCline as unknown as Task, mockToolUse, {
+				askApproval: mockAskApproval as unknown as AskApproval,
+				handleError: mockHandleError as unknown as HandleError,
+				pushToolResult: mockPushToolResult as unknown as PushToolResult,
+				removeClosingTag: mockRemoveClosingTag as unknown as RemoveClosingTag,
+				toolProtocol: "xml",
+			})
+
+			expect(executeCommandModule.executeCommandInTerminal).not.toHaveBeenCalled()
+			expect(mockPushToolResult).toHaveBeenCalledWith(
+				"Error: Sandboxed commands must run inside the workspace (/test/workspace), not in /.",
+			)
+		})
+
+		it("should not run the command when its sandbox profile cannot be used", async () => {
+			vitest
+				.mocked(getSandboxProfileForTask)
+				.mockRejectedValueOnce(new SandboxProfileError('The sandbox profile "strict" is not defined.'))
+			;(formatResponse.toolError as any).mockImplementation((error: string) => `Error: ${error}`)
+
+			await executeCommandTool.handle(mockCline as unknown as Task, mockToolUse, {
+				askApproval: mockAskApproval as unknown as AskApproval,
+				handleError: mockHandleError as unknown as HandleError,
+				pushToolResult: mockPushToolResult as unknown as PushToolResult,
+				removeClosingTag: mockRemoveClosingTag as unknown as RemoveClosingTag,
+				toolProtocol: "xml",
+			})
+
+			expect(executeCommandModule.executeCommandInTerminal).not.toHaveBeenCalled()
+			expect(mockCline.recordToolError).toHaveBeenCalledWith("execute_command")
+			expect(mockPushToolResult).toHaveBeenCalledWith('Error: The sandbox profile "strict" is not defined.')
+		})
 	})
 
 	describe("Error handling", () => {
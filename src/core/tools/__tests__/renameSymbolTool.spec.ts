@@ -0,0 +1,162 @@
+// npx vitest run core/tools/__tests__/renameSymbolTool.spec.ts
+
+import * as vscode from "vscode"
+
+import { renameSymbolTool } from "../RenameSymbolTool"
+import { Task } from "../../task/Task"
+import { ToolUse } from "../../../shared/tools"
+import * as languageServices from "../../../integrations/editor/languageServices"
+
+const save = vi.fn()
+
+vi.mock("vscode", () => ({
+	Uri: { file: (fsPath: string) => ({ fsPath }) },
+	DiagnosticSeverity: { Error: 0 },
+	languages: { getDiagnostics: vi.fn(() => []) },
+	workspace: {
+		applyEdit: vi.fn(),
+		openTextDocument: vi.fn(async (uri) => ({ uri, save: () => save(uri.fsPath) })),
+	},
+}))
+
+vi.mock("delay", () => ({ default: vi.fn() }))
+
+vi.mock("../../../integrations/editor/languageServices", async (importOriginal) => ({
+	...(await importOriginal<typeof languageServices>()),
+	resolveSymbolPosition: vi.fn(),
+	getRenameEdit: vi.fn(),
+	getEditedDocuments: vi.fn(),
+	getTextEdit: vi.fn((edit) => edit),
+}))
+
+describe("renameSymbolTool", () => {
+	let mockTask: any
+	let askApproval: any
+	let pushToolResult: any
+
+	const block: ToolUse<"rename_symbol"> = {
+		type: "tool_use",
+		name: "rename_symbol",
+		params: { path: "src/a.ts", line: "1", symbol: "format", new_name: "formatText" },
+		partial: false,
+	}
+
+	const rename = () =>
+		renameSymbolTool.handle(mockTask as Task, block, {
+			askApproval,
+			handleError: vi.fn(),
+			pushToolResult,
+			removeClosingTag: vi.fn(),
+			toolProtocol: "xml",
+		})
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+
+		mockTask = {
+			cwd: "/repo",
+			consecutiveMistakeCount: 0,
+			recordToolError: vi.fn(),
+			say: vi.fn(),
+			sayAndCreateMissingParamError: vi.fn(),
+			processQueuedMessages: vi.fn(),
+			fileContextTracker: { trackFileContext: vi.fn() },
+			postEditHookRunner: { runAfterEdit: vi.fn() },
+			providerRef: { deref: () => ({ getState: async () => ({ diagnosticsEnabled: false }) }) },
+			rooIgnoreController: { validateAccess: vi.fn((path: string) => !path.includes("secret")) },
+			rooProtectedController: { isWriteProtected: vi.fn(() => false) },
+		}
+
+		askApproval = vi.fn(async () => true)
+		pushToolResult = vi.fn()
+
+		vi.mocked(languageServices.resolveSymbolPosition).mockResolvedValue({
+			document: { uri: vscode.Uri.file("/repo/src/a.ts") },
+		} as any)
+		vi.mocked(languageServices.getRenameEdit).mockResolvedValue({} as vscode.WorkspaceEdit)
+		vi.mocked(languageServices.getEditedDocuments).mockResolvedValue([
+			{
+				uri: vscode.Uri.file("/repo/src/a.ts"),
+				originalContent: "export function format() {}\n",
+				newContent: "export function formatText() {}\n",
+				changeCount: 1,
+				isDirty: false,
+			},
+			{
+				uri: vscode.Uri.file("/repo/src/b.ts"),
+				originalContent: "format()\nformat()\n",
+				newContent: "formatText()\nformatText()\n",
+				changeCount: 2,
+				isDirty: false,
+			},
+		])
+		vi.mocked(vscode.workspace.applyEdit).mockResolvedValue(true)
+	})
+
+	it("applies the rename once the changes to every file are approved", async () => {
+		await rename()
+
+		const message = JSON.parse(askApproval.mock.calls[0][1])
+		expect(message).toMatchObject({ tool: "renameSymbol", symbol: "format", newName: "formatText" })
+		expect(message.batchDiffs.map((diff: any) => diff.key)).toEqual(["src/a.ts (1 change)", "src/b.ts (2 changes)"])
+
+		expect(vscode.workspace.applyEdit).toHaveBeenCalled()
+		expect(save.mock.calls).toEqual([["/repo/src/a.ts"], ["/repo/src/b.ts"]])
+		expect(mockTask.fileContextTracker.trackFileContext).toHaveBeenCalledWith("src/b.ts", "roo_edited")
+		expect(mockTask.didEditFile).toBe(true)
+		expect(pushToolResult).toHaveBeenCalledWith(
+			'Renamed "format" to "formatText" with 3 changes in 2 files:\n- src/a.ts (1 change)\n- src/b.ts (2 changes)',
+		)
+	})
+
+	it("leaves documents with unsaved changes unsaved", async () => {
+		const [a, b] = await languageServices.getEditedDocuments({} as vscode.WorkspaceEdit)
+		vi.mocked(languageServices.getEditedDocuments).mockResolvedValue([a, { ...b, isDirty: true }])
+
+		await rename()
+
+		expect(save.mock.calls).toEqual([["/repo/src/a.ts"]])
+		expect(mockTask.fileContextTracker.trackFileContext).toHaveBeenCalledWith("src/b.ts", "roo_edited")
+		expect(pushToolResult).toHaveBeenCalledWith(
+			expect.stringContaining("These files had unsaved changes and were left unsaved: src/b.ts"),
+		)
+	})
+
+	it("doesn't apply a rejected rename", async () => {
+		askApproval.mockResolvedValue(false)
+
+		await rename()
+
+		expect(vscode.workspace.applyEdit).not.toHaveBeenCalled()
+		expect(mockTask.didEditFile).toBeUndefined()
+	})
+
+	it("refuses renames that touch ignored files", async () => {
+		vi.mocked(languageServices.getEditedDocuments).mockResolvedValue([
+			{
+				uri: vscode.Uri.file("/repo/secret/config.ts"),
+				originalContent: "format",
+				newContent: "formatText",
+				changeCount: 1,
+				isDirty: false,
+			},
+		])
+
+		await rename()
+
+		expect(mockTask.say).toHaveBeenCalledWith("rooignore_error", "secret/config.ts")
+		expect(askApproval).not.toHaveBeenCalled()
+		expect(vscode.workspace.applyEdit).not.toHaveBeenCalled()
+	})
+
+	it("reports renames rejected by the language extension as mistakes", async () => {
+		vi.mocked(languageServices.getRenameEdit).mockRejectedValue(new Error("You cannot rename this element."))
+
+		await rename()
+
+		expect(mockTask.consecutiveMistakeCount).toBe(1)
+		expect(pushToolResult).toHaveBeenCalledWith(
+			expect.stringContaining('Cannot rename "format": You cannot rename this element.'),
+		)
+	})
+})
@@ -29,10 +29,13 @@ import {
 	type TerminalActionId,
 	type TerminalActionPromptType,
 	type HistoryItem,
+	type TaskSearchFilters,
 	type CloudUserInfo,
 	type CloudOrganizationMembership,
 	type CreateTaskOptions,
 	type TokenUsage,
+	type TaskBudgetStatus,
+	type LifecycleHookEvent,
 	RooCodeEventName,
 	requestyDefaultModelId,
 	openRouterDefaultModelId,
@@ -89,11 +92,12 @@ import { ContextProxy } from "../config/ContextProxy"
 import { ProviderSettingsManager } from "../config/ProviderSettingsManager"
 import { CustomModesManager } from "../config/CustomModesManager"
 import { Task } from "../task/Task"
+import { applyCheckpointRetention, getCheckpointUsage, purgeCheckpoints } from "../checkpoints/retention"
 import { getSystemPromptFilePath } from "../prompts/sections/custom-system-prompt"
 
 import { webviewMessageHandler } from "./webviewMessageHandler"
 import type { ClineMessage, TodoItem } from "@roo-code/types"
-import { readApiMessages, saveApiMessages, saveTaskMessages } from "../task-persistence"
+import { readApiMessages, saveApiMessages, saveTaskMessages, searchTaskHistory } from "../task-persistence"
 import { readTaskMessages } from "../task-persistence/taskMessages"
 import { getNonce } from "./getNonce"
 import { getUri } from "./getUri"
@@ -248,6 +252,12 @@ export class ClineProvider
 			const onTaskUserMessage = (taskId: string) => this.emit(RooCodeEventName.TaskUserMessage, taskId)
 			const onTaskTokenUsageUpdated = (taskId: string, tokenUsage: TokenUsage) =>
 				this.emit(RooCodeEventName.TaskTokenUsageUpdated, taskId, tokenUsage)
+			const onTaskBudgetUpdated = (taskId: string, status: TaskBudgetStatus) =>
+				this.emit(RooCodeEventName.TaskBudgetUpdated, taskId, status)
+			const onTaskBudgetExceeded = (taskId: string, status: TaskBudgetStatus) =>
+				this.emit(RooCodeEventName.TaskBudgetExceeded, taskId, status)
+			const onTaskHookBlocked = (taskId: string, event: LifecycleHookEvent, reason: string) =>
+				this.emit(RooCodeEventName.TaskHookBlocked, taskId, event, reason)
 
 			// Attach the listeners.
 			instance.on(RooCodeEventName.TaskStarted, onTaskStarted)
@@ -264,6 +274,9 @@ export class ClineProvider
 			instance.on(RooCodeEventName.TaskSpawned, onTaskSpawned)
 			instance.on(RooCodeEventName.TaskUserMessage, onTaskUserMessage)
 			instance.on(RooCodeEventName.TaskTokenUsageUpdated, onTaskTokenUsageUpdated)
+			instance.on(RooCodeEventName.TaskBudgetUpdated, onTaskBudgetUpdated)
+			instance.on(RooCodeEventName.TaskBudgetExceeded, onTaskBudgetExceeded)
+			instance.on(RooCodeEventName.TaskHookBlocked, onTaskHookBlocked)
 
 			// Store the cleanup functions for later removal.
 			this.taskEventListeners.set(instance, [
@@ -281,6 +294,9 @@ export class ClineProvider
 				() => instance.off(RooCodeEventName.TaskUnpaused, onTaskUnpaused),
 				() => instance.off(RooCodeEventName.TaskSpawned, onTaskSpawned),
 				() => instance.off(RooCodeEventName.TaskTokenUsageUpdated, onTaskTokenUsageUpdated),
+				() => instance.off(RooCodeEventName.TaskBudgetUpdated, onTaskBudgetUpdated),
+				() => instance.off(RooCodeEventName.TaskBudgetExceeded, onTaskBudgetExceeded),
+				() => instance.off(RooCodeEventName.TaskHookBlocked, onTaskHookBlocked),
 			])
 		}
 
@@ -1621,7 +1637,7 @@ export class ClineProvider
 		throw new Error("Task not found")
 	}
 
-	async showTaskWithId(id: string) {
+	async showTaskWithId(id: string, messageTs?: number) {
 		if (id !== this.getCurrentTask()?.taskId) {
 			// Non-current task.
 			const { historyItem } = await this.getTaskWithId(id)
@@ -1629,6 +1645,10 @@ export class ClineProvider
 		}
 
 		await this.postMessageToWebview({ type: "action", action: "chatButtonClicked" })
+
+		if (messageTs !== undefined) {
+			await this.postMessageToWebview({ type: "scrollToMessage", text: id, messageTs })
+		}
 	}
 
 	async exportTaskWithId(id: string) {
@@ -1707,6 +1727,53 @@ export class ClineProvider
 		await this.postStateToWebview()
 	}
 
+	// Checkpoint retention
+
+	private getCheckpointRetentionOptions() {
+		// Tasks open in any provider (sidebar or editor tabs) are left alone.
+		const activeTaskIds = Array.from(ClineProvider.activeInstances).flatMap((instance) =>
+			instance.clineStack.map((task) => task.taskId),
+		)
+
+		return {
+			globalStorageDir: this.contextProxy.globalStorageUri.fsPath,
+			taskHistory: this.getGlobalState("taskHistory") ?? [],
+			activeTaskIds,
+			log: (message: string) => this.log(message),
+		}
+	}
+
+	async postCheckpointUsageToWebview() {
+		const checkpointUsage = await getCheckpointUsage(this.getCheckpointRetentionOptions())
+		await this.postMessageToWebview({ type: "checkpointUsage", checkpointUsage })
+	}
+
+	async postTaskSearchResultsToWebview(query: string, filters: TaskSearchFilters, requestId?: string) {
+		const taskSearchResults = await searchTaskHistory({
+			query,
+			filters,
+			taskHistory: this.getGlobalState("taskHistory") ?? [],
+			globalStoragePath: this.contextProxy.globalStorageUri.fsPath,
+		})
+
+		await this.postMessageToWebview({ type: "taskSearchResults", taskSearchResults, requestId })
+	}
+
+	async applyCheckpointRetention() {
+		const retention = this.getGlobalState("checkpointRetention")
+		const result = await applyCheckpointRetention({ ...this.getCheckpointRetentionOptions(), retention })
+
+		this.log(
+			`[applyCheckpointRetention] deleted ${result.deletedTaskIds.length} and trimmed ${result.trimmedTaskIds.length} shadow repos, reclaimed ${result.reclaimedBytes} bytes`,
+		)
+
+		return result
+	}
+
+	async purgeCheckpoints(taskIds?: string[]) {
+		return purgeCheckpoints({ ...this.getCheckpointRetentionOptions(), taskIds })
+	}
+
 	async refreshWorkspace() {
 		this.currentWorkspacePath = getWorkspacePath()
 		await this.postStateToWebview()
@@ -1860,6 +1927,7 @@ export class ClineProvider
 			diffEnabled,
 			enableCheckpoints,
 			checkpointTimeout,
+			checkpointRetention,
 			taskHistory,
 			soundVolume,
 			browserViewportSize,
@@ -1924,6 +1992,7 @@ export class ClineProvider
 			includeCurrentTime,
 			includeCurrentCost,
 			maxGitStatusFiles,
+			condensingMode,
 			taskSyncEnabled,
 			remoteControlEnabled,
 			imageGenerationProvider,
@@ -1993,6 +2062,7 @@ export class ClineProvider
 			clineMessages: this.getCurrentTask()?.clineMessages || [],
 			currentTaskTodos: this.getCurrentTask()?.todoList || [],
 			messageQueue: this.getCurrentTask()?.messageQueueService?.messages,
+			backgroundJobs: this.getCurrentTask()?.backgroundJobService?.jobs,
 			taskHistory: (taskHistory || [])
 				.filter((item: HistoryItem) => item.ts && item.task)
 				.sort((a: HistoryItem, b: HistoryItem) => b.ts - a.ts),
@@ -2002,6 +2072,7 @@ export class ClineProvider
 			diffEnabled: diffEnabled ?? true,
 			enableCheckpoints: enableCheckpoints ?? true,
 			checkpointTimeout: checkpointTimeout ?? DEFAULT_CHECKPOINT_TIMEOUT_SECONDS,
+			checkpointRetention,
 			shouldShowAnnouncement:
 				telemetrySetting !== "unset" && lastShownAnnouncementId !== this.latestAnnouncementId,
 			allowedCommands: mergedAllowedCommands,
@@ -2069,6 +2140,7 @@ export class ClineProvider
 			codebaseIndexModels: codebaseIndexModels ?? EMBEDDING_MODEL_PROFILES,
 			codebaseIndexConfig: {
 				codebaseIndexEnabled: codebaseIndexConfig?.codebaseIndexEnabled ?? false,
+				codebaseIndexVectorStoreProvider: codebaseIndexConfig?.codebaseIndexVectorStoreProvider ?? "qdrant",
 				codebaseIndexQdrantUrl: codebaseIndexConfig?.codebaseIndexQdrantUrl ?? "http://localhost:6333",
 				codebaseIndexEmbedderProvider: codebaseIndexConfig?.codebaseIndexEmbedderProvider ?? "openai",
 				codebaseIndexEmbedderBaseUrl: codebaseIndexConfig?.codebaseIndexEmbedderBaseUrl ?? "",
@@ -2077,6 +2149,7 @@ export class ClineProvider
 				codebaseIndexOpenAiCompatibleBaseUrl: codebaseIndexConfig?.codebaseIndexOpenAiCompatibleBaseUrl,
 				codebaseIndexSearchMaxResults: codebaseIndexConfig?.codebaseIndexSearchMaxResults,
 				codebaseIndexSearchMinScore: codebaseIndexConfig?.codebaseIndexSearchMinScore,
+				codebaseIndexSearchMode: codebaseIndexConfig?.codebaseIndexSearchMode,
 				codebaseIndexBedrockRegion: codebaseIndexConfig?.codebaseIndexBedrockRegion,
 				codebaseIndexBedrockProfile: codebaseIndexConfig?.codebaseIndexBedrockProfile,
 				codebaseIndexOpenRouterSpecificProvider: codebaseIndexConfig?.codebaseIndexOpenRouterSpecificProvider,
@@ -2095,6 +2168,7 @@ export class ClineProvider
 			includeCurrentTime: includeCurrentTime ?? true,
 			includeCurrentCost: includeCurrentCost ?? true,
 			maxGitStatusFiles: maxGitStatusFiles ?? 0,
+			condensingMode: condensingMode ?? "summary",
 			taskSyncEnabled,
 			remoteControlEnabled,
 			imageGenerationProvider,
@@ -2226,6 +2300,9 @@ export class ClineProvider
 			diagnosticsEnabled: stateValues.diagnosticsEnabled ?? true,
 			allowedMaxRequests: stateValues.allowedMaxRequests,
 			allowedMaxCost: stateValues.allowedMaxCost,
+			taskBudget: stateValues.taskBudget,
+			modeTaskBudgets: stateValues.modeTaskBudgets,
+			profileTaskBudgets: stateValues.profileTaskBudgets,
 			autoCondenseContext: stateValues.autoCondenseContext ?? true,
 			autoCondenseContextPercent: stateValues.autoCondenseContextPercent ?? 100,
 			taskHistory: stateValues.taskHistory ?? [],
@@ -2237,6 +2314,7 @@ export class ClineProvider
 			diffEnabled: stateValues.diffEnabled ?? true,
 			enableCheckpoints: stateValues.enableCheckpoints ?? true,
 			checkpointTimeout: stateValues.checkpointTimeout ?? DEFAULT_CHECKPOINT_TIMEOUT_SECONDS,
+			checkpointRetention: stateValues.checkpointRetention,
 			soundVolume: stateValues.soundVolume,
 			browserViewportSize: stateValues.browserViewportSize ?? "900x600",
 			screenshotQuality: stateValues.screenshotQuality ?? 75,
@@ -2297,6 +2375,8 @@ export class ClineProvider
 			codebaseIndexModels: stateValues.codebaseIndexModels ?? EMBEDDING_MODEL_PROFILES,
 			codebaseIndexConfig: {
 				codebaseIndexEnabled: stateValues.codebaseIndexConfig?.codebaseIndexEnabled ?? false,
+				codebaseIndexVectorStoreProvider:
+					stateValues.codebaseIndexConfig?.codebaseIndexVectorStoreProvider ?? "qdrant",
 				codebaseIndexQdrantUrl:
 					stateValues.codebaseIndexConfig?.codebaseIndexQdrantUrl ?? "http://localhost:6333",
 				codebaseIndexEmbedderProvider:
@@ -2309,6 +2389,7 @@ export class ClineProvider
 					stateValues.codebaseIndexConfig?.codebaseIndexOpenAiCompatibleBaseUrl,
 				codebaseIndexSearchMaxResults: stateValues.codebaseIndexConfig?.codebaseIndexSearchMaxResults,
 				codebaseIndexSearchMinScore: stateValues.codebaseIndexConfig?.codebaseIndexSearchMinScore,
+				codebaseIndexSearchMode: stateValues.codebaseIndexConfig?.codebaseIndexSearchMode,
 				codebaseIndexBedrockRegion: stateValues.codebaseIndexConfig?.codebaseIndexBedrockRegion,
 				codebaseIndexBedrockProfile: stateValues.codebaseIndexConfig?.codebaseIndexBedrockProfile,
 				codebaseIndexOpenRouterSpecificProvider:
@@ -2321,6 +2402,7 @@ export class ClineProvider
 			includeCurrentTime: stateValues.includeCurrentTime ?? true,
 			includeCurrentCost: stateValues.includeCurrentCost ?? true,
 			maxGitStatusFiles: stateValues.maxGitStatusFiles ?? 0,
+			condensingMode: stateValues.condensingMode ?? "summary",
 			taskSyncEnabled,
 			remoteControlEnabled: (() => {
 				try {
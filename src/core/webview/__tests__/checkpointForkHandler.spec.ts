@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import * as fs from "fs/promises"
+
+import { forkTaskFromCheckpoint } from "../checkpointForkHandler"
+import { saveApiMessages, saveTaskMessages, taskMetadata } from "../../task-persistence"
+import { ShadowCheckpointService } from "../../../services/checkpoints/ShadowCheckpointService"
+
+vi.mock("fs/promises", () => ({
+	rm: vi.fn(),
+}))
+vi.mock("../../task-persistence", () => ({
+	saveTaskMessages: vi.fn(),
+	saveApiMessages: vi.fn(),
+	taskMetadata: vi.fn(async ({ taskId, taskNumber, workspace, mode }) => ({
+		historyItem: { id: taskId, number: taskNumber, ts: 200, task: "Fix the bug", workspace, mode },
+	})),
+}))
+vi.mock("../../../services/checkpoints/ShadowCheckpointService", () => ({
+	ShadowCheckpointService: { forkTask: vi.fn(), deleteTaskRepo: vi.fn() },
+}))
+vi.mock("../../../utils/storage", () => ({
+	getTaskDirectoryPath: vi.fn(async (_globalStoragePath: string, taskId: string) => `/custom/tasks/${taskId}`),
+}))
+
+describe("checkpointForkHandler", () => {
+	let mockProvider: any
+	let mockTask: any
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+
+		mockTask = {
+			taskId: "task-1",
+			cwd: "/workspace",
+			clineMessages: [
+				{ ts: 100, type: "say", say: "text", text: "Fix the bug" },
+				{ ts: 200, type: "say", say: "checkpoint_saved", text: "commit-1" },
+				{ ts: 300, type: "say", say: "text", text: "Done" },
+			],
+			apiConversationHistory: [
+				{ ts: 100, role: "user", content: "Fix the bug" },
+				{ ts: 250, role: "assistant", content: "Done" },
+			],
+			checkpointSave: vi.fn(),
+		}
+
+		mockProvider = {
+			contextProxy: { globalStorageUri: { fsPath: "/storage" } },
+			getTaskWithId: vi.fn().mockResolvedValue({
+				historyItem: { id: "task-1", number: 3, workspace: "/workspace", mode: "code" },
+			}),
+			removeClineFromStack: vi.fn(),
+			updateTaskHistory: vi.fn(),
+			createTaskWithHistoryItem: vi.fn(),
+		}
+	})
+
+	it("creates a task truncated at the checkpoint and opens it", async () => {
+		const forkItem = await forkTaskFromCheckpoint({
+			provider: mockProvider,
+			task: mockTask,
+			ts: 200,
+			commitHash: "commit-1",
+		})
+
+		expect(forkItem.id).not.toBe("task-1")
+		expect(forkItem).toMatchObject({
+			number: 1,
+			workspace: "/workspace",
+			mode: "code",
+			forkedFrom: { taskId: "task-1", ts: 200, commitHash: "commit-1" },
+		})
+
+		// The original task's workspace state is saved before the fork resets it.
+		expect(mockTask.checkpointSave).toHaveBeenCalledWith(true, true)
+		expect(ShadowCheckpointService.forkTask).toHaveBeenCalledWith({
+			taskId: "task-1",
+			forkTaskId: forkItem.id,
+			globalStorageDir: "/storage",
+			commitHash: "commit-1",
+		})
+
+		expect(saveTaskMessages).toHaveBeenCalledWith({
+			messages: mockTask.clineMessages.slice(0, 2),
+			taskId: forkItem.id,
+			globalStoragePath: "/storage",
+		})
+		expect(saveApiMessages).toHaveBeenCalledWith({
+			messages: mockTask.apiConversationHistory.slice(0, 1),
+			taskId: forkItem.id,
+			globalStoragePath: "/storage",
+		})
+
+		expect(mockProvider.updateTaskHistory).toHaveBeenCalledWith(forkItem)
+		expect(mockProvider.createTaskWithHistoryItem).toHaveBeenCalledWith(forkItem)
+
+		// The original task is only replaced once the fork is persisted.
+		expect(vi.mocked(mockProvider.updateTaskHistory).mock.invocationCallOrder[0]).toBeLessThan(
+			vi.mocked(mockProvider.createTaskWithHistoryItem).mock.invocationCallOrder[0],
+		)
+		expect(mockProvider.removeClineFromStack).not.toHaveBeenCalled()
+	})
+
+	it("rejects timestamps that are not checkpoints", async () => {
+		await expect(
+			forkTaskFromCheckpoint({ provider: mockProvider, task: mockTask, ts: 300, commitHash: "commit-1" }),
+		).rejects.toThrow("Checkpoint commit-1 not found in task task-1")
+
+		expect(mockProvider.removeClineFromStack).not.toHaveBeenCalled()
+		expect(ShadowCheckpointService.forkTask).not.toHaveBeenCalled()
+	})
+
+	it("removes the fork's files if the fork fails", async () => {
+		vi.mocked(ShadowCheckpointService.forkTask).mockRejectedValueOnce(new Error("git failed"))
+
+		await expect(
+			forkTaskFromCheckpoint({ provider: mockProvider, task: mockTask, ts: 200, commitHash: "commit-1" }),
+		).rejects.toThrow("git failed")
+
+		const forkTaskId = vi.mocked(ShadowCheckpointService.forkTask).mock.calls[0][0].forkTaskId
+
+		// The shadow repo is removed from global storage, not the task storage directory.
+		expect(ShadowCheckpointService.deleteTaskRepo).toHaveBeenCalledWith({
+			taskId: forkTaskId,
+			globalStorageDir: "/storage",
+		})
+		expect(fs.rm).toHaveBeenCalledWith(`/custom/tasks/${forkTaskId}`, {
+			recursive: true,
+			force: true,
+		})
+		expect(taskMetadata).not.toHaveBeenCalled()
+		expect(mockProvider.updateTaskHistory).not.toHaveBeenCalled()
+		expect(mockProvider.createTaskWithHistoryItem).not.toHaveBeenCalled()
+	})
+})
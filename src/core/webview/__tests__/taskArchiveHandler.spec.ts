@@ -0,0 +1,71 @@
+// npx vitest core/webview/__tests__/taskArchiveHandler.spec.ts
+
+import * as os from "os"
+import * as path from "path"
+import * as fs from "fs/promises"
+
+import type { HistoryItem } from "@roo-code/types"
+
+import type { ClineProvider } from "../ClineProvider"
+import { importTaskArchive } from "../taskArchiveHandler"
+
+vi.mock("../ClineProvider", () => ({ ClineProvider: vi.fn() }))
+
+vi.mock("../../../services/checkpoints/ShadowCheckpointService", () => ({
+	ShadowCheckpointService: { bundleTaskRepo: vi.fn(), restoreTaskRepo: vi.fn() },
+}))
+
+describe("importTaskArchive", () => {
+	let tmpDir: string
+	let globalStoragePath: string
+	let provider: {
+		cwd: string
+		contextProxy: { globalStorageUri: { fsPath: string } }
+		updateTaskHistory: ReturnType<typeof vi.fn>
+		postStateToWebview: ReturnType<typeof vi.fn>
+	}
+
+	const writeArchive = async (id: string) => {
+		const historyItem: HistoryItem = {
+			id,
+			number: 1,
+			ts: 1_000,
+			task: "Imported task",
+			tokensIn: 0,
+			tokensOut: 0,
+			totalCost: 0,
+		}
+		const filePath = path.join(tmpDir, "task.json")
+		await fs.writeFile(
+			filePath,
+			JSON.stringify({ version: 1, exportedAt: 2_000, historyItem, uiMessages: [], apiMessages: [] }),
+		)
+		return filePath
+	}
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "roo-import-"))
+		globalStoragePath = path.join(tmpDir, "storage")
+		provider = {
+			cwd: "/workspace",
+			contextProxy: { globalStorageUri: { fsPath: globalStoragePath } },
+			updateTaskHistory: vi.fn(),
+			postStateToWebview: vi.fn(),
+		}
+	})
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true })
+	})
+
+	it("stores the task under a new id inside the task storage", async () => {
+		const filePath = await writeArchive("../../escaped")
+
+		const historyItem = await importTaskArchive({ provider: provider as unknown as ClineProvider, filePath })
+
+		expect(historyItem.id).toMatch(/^[0-9a-f-]{36}$/)
+		expect(provider.updateTaskHistory).toHaveBeenCalledWith(historyItem)
+		expect(await fs.readdir(path.join(globalStoragePath, "tasks"))).toEqual([historyItem.id])
+		await expect(fs.access(path.join(tmpDir, "escaped"))).rejects.toThrow()
+	})
+})
@@ -0,0 +1,86 @@
+import * as fs from "fs/promises"
+import crypto from "crypto"
+
+import type { HistoryItem } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { ClineProvider } from "./ClineProvider"
+import { saveApiMessages, saveTaskMessages, taskMetadata } from "../task-persistence"
+import { ShadowCheckpointService } from "../../services/checkpoints/ShadowCheckpointService"
+import { getTaskDirectoryPath } from "../../utils/storage"
+
+export interface CheckpointForkConfig {
+	provider: ClineProvider
+	task: Task
+	ts: number
+	commitHash: string
+}
+
+/**
+ * Creates a new task from a checkpoint of `task` and opens it. The fork's
+ * messages are truncated at the checkpoint, its shadow repo (and therefore the
+ * workspace) starts from the checkpoint's commit, and its history item records
+ * where it was forked from. The original task is left intact.
+ */
+export async function forkTaskFromCheckpoint({
+	provider,
+	task,
+	ts,
+	commitHash,
+}: CheckpointForkConfig): Promise<HistoryItem> {
+	const index = task.clineMessages.findIndex((m) => m.ts === ts)
+	const checkpointMessage = task.clineMessages[index]
+
+	if (!checkpointMessage || checkpointMessage.say !== "checkpoint_saved" || checkpointMessage.text !== commitHash) {
+		throw new Error(`Checkpoint ${commitHash} not found in task ${task.taskId}`)
+	}
+
+	const globalStoragePath = provider.contextProxy.globalStorageUri.fsPath
+	const { historyItem: sourceItem } = await provider.getTaskWithId(task.taskId)
+	const messages = task.clineMessages.slice(0, index + 1)
+	const apiMessages = task.apiConversationHistory.filter((m) => !m.ts || m.ts < ts)
+
+	// Capture the current workspace in the original task so that switching
+	// back to it can restore what the fork is about to overwrite.
+	await task.checkpointSave(true, true)
+
+	const forkTaskId = crypto.randomUUID()
+	let forkItem: HistoryItem
+
+	try {
+		await ShadowCheckpointService.forkTask({
+			taskId: task.taskId,
+			forkTaskId,
+			globalStorageDir: globalStoragePath,
+			commitHash,
+		})
+
+		await saveTaskMessages({ messages, taskId: forkTaskId, globalStoragePath })
+		await saveApiMessages({ messages: apiMessages, taskId: forkTaskId, globalStoragePath })
+
+		// The fork has no parent, so it is numbered like a task started from scratch.
+		const { historyItem } = await taskMetadata({
+			taskId: forkTaskId,
+			taskNumber: 1,
+			messages,
+			globalStoragePath,
+			workspace: sourceItem.workspace ?? task.cwd,
+			mode: sourceItem.mode,
+		})
+
+		forkItem = { ...historyItem, forkedFrom: { taskId: task.taskId, ts, commitHash } }
+		await provider.updateTaskHistory(forkItem)
+	} catch (error) {
+		// The shadow repo lives in global storage, which may differ from the
+		// (configurable) task storage directory, so both are removed.
+		await ShadowCheckpointService.deleteTaskRepo({ taskId: forkTaskId, globalStorageDir: globalStoragePath })
+		await fs.rm(await getTaskDirectoryPath(globalStoragePath, forkTaskId), { recursive: true, force: true })
+		throw error
+	}
+
+	// Only replace the original task once the fork is persisted; opening the
+	// fork removes the original from the stack.
+	await provider.createTaskWithHistoryItem(forkItem)
+
+	return forkItem
+}
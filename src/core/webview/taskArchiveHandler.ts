@@ -0,0 +1,68 @@
+import * as fs from "fs/promises"
+import crypto from "crypto"
+
+import type { HistoryItem } from "@roo-code/types"
+
+import { ClineProvider } from "./ClineProvider"
+import { createTaskArchive, parseTaskArchive, restoreTaskArchive } from "../task-persistence"
+import { safeWriteJson } from "../../utils/safeWriteJson"
+
+export interface ExportTaskArchiveOptions {
+	provider: ClineProvider
+	taskId: string
+	filePath: string
+	includeCheckpoints?: boolean
+}
+
+/**
+ * Writes a portable archive of a task from the history to `filePath`.
+ */
+export async function exportTaskArchive({
+	provider,
+	taskId,
+	filePath,
+	includeCheckpoints,
+}: ExportTaskArchiveOptions): Promise<void> {
+	const { historyItem } = await provider.getTaskWithId(taskId)
+
+	const archive = await createTaskArchive({
+		historyItem,
+		globalStoragePath: provider.contextProxy.globalStorageUri.fsPath,
+		includeCheckpoints,
+	})
+
+	await safeWriteJson(filePath, archive)
+}
+
+export interface ImportTaskArchiveOptions {
+	provider: ClineProvider
+	filePath: string
+	// Defaults to the provider's workspace.
+	workspace?: string
+}
+
+/**
+ * Adds the task in the archive at `filePath` to the history, remapping the
+ * paths of its original workspace to `workspace`. The task gets a new id,
+ * since the id in the archive can't be trusted to be unique or to be a safe
+ * name for its directory.
+ */
+export async function importTaskArchive({
+	provider,
+	filePath,
+	workspace = provider.cwd,
+}: ImportTaskArchiveOptions): Promise<HistoryItem> {
+	const archive = parseTaskArchive(await fs.readFile(filePath, "utf8"))
+
+	const historyItem = await restoreTaskArchive({
+		archive,
+		taskId: crypto.randomUUID(),
+		globalStoragePath: provider.contextProxy.globalStorageUri.fsPath,
+		workspace,
+	})
+
+	await provider.updateTaskHistory(historyItem)
+	await provider.postStateToWebview()
+
+	return historyItem
+}
@@ -15,6 +15,7 @@ import {
 	RooCodeSettings,
 	Experiments,
 	ExperimentId,
+	taskSearchFiltersSchema,
 } from "@roo-code/types"
 import { CloudService } from "@roo-code/cloud"
 import { TelemetryService } from "@roo-code/telemetry"
@@ -26,9 +27,12 @@ import { cleanupAfterTruncation } from "../condense"
 import { ClineProvider } from "./ClineProvider"
 import { BrowserSessionPanelManager } from "./BrowserSessionPanelManager"
 import { handleCheckpointRestoreOperation } from "./checkpointRestoreHandler"
+import { forkTaskFromCheckpoint } from "./checkpointForkHandler"
+import { exportTaskArchive, importTaskArchive } from "./taskArchiveHandler"
 import { changeLanguage, t } from "../../i18n"
 import { Package } from "../../shared/package"
 import { type RouterName, type ModelRecord, toRouterName } from "../../shared/api"
+import type { Command } from "../../shared/ExtensionMessage"
 import { MessageEnhancer } from "./messageEnhancer"
 
 import {
@@ -36,6 +40,7 @@ import {
 	type EditQueuedMessagePayload,
 	checkoutDiffPayloadSchema,
 	checkoutRestorePayloadSchema,
+	checkpointForkPayloadSchema,
 } from "../../shared/WebviewMessage"
 import { checkExistKey } from "../../shared/checkExistApiConfig"
 import { experimentDefault } from "../../shared/experiments"
@@ -46,6 +51,7 @@ import { selectImages } from "../../integrations/misc/process-images"
 import { getTheme } from "../../integrations/theme/getTheme"
 import { discoverChromeHostUrl, tryChromeHostUrl } from "../../services/browser/browserDiscovery"
 import { searchWorkspaceFiles } from "../../services/search/file-search"
+import { ShadowCheckpointService } from "../../services/checkpoints/ShadowCheckpointService"
 import { fileExistsAtPath } from "../../utils/fs"
 import { playTts, setTtsEnabled, setTtsSpeed, stopTts } from "../../utils/tts"
 import { searchCommits } from "../../utils/git"
@@ -777,7 +783,7 @@ export const webviewMessageHandler = async (
 			}
 			break
 		case "showTaskWithId":
-			provider.showTaskWithId(message.text!)
+			provider.showTaskWithId(message.text!, message.messageTs)
 			break
 		case "condenseTaskContextRequest":
 			provider.condenseTaskContext(message.text!)
@@ -832,6 +838,65 @@ export const webviewMessageHandler = async (
 		case "exportTaskWithId":
 			provider.exportTaskWithId(message.text!)
 			break
+		case "exportTaskArchive": {
+			const taskId = message.text!
+			const globalStorageDir = provider.contextProxy.globalStorageUri.fsPath
+			let includeCheckpoints = false
+
+			if ((await ShadowCheckpointService.listTaskRepos(globalStorageDir)).includes(taskId)) {
+				const answer = await vscode.window.showInformationMessage(
+					t("common:confirmation.include_checkpoints_in_archive"),
+					{ modal: true },
+					t("common:answers.yes"),
+					t("common:answers.no"),
+				)
+
+				if (!answer) {
+					break
+				}
+
+				includeCheckpoints = answer === t("common:answers.yes")
+			}
+
+			const saveUri = await vscode.window.showSaveDialog({
+				defaultUri: vscode.Uri.file(path.join(os.homedir(), "Downloads", `roo-task-${taskId}.json`)),
+				filters: { JSON: ["json"] },
+			})
+
+			if (saveUri) {
+				try {
+					await exportTaskArchive({ provider, taskId, filePath: saveUri.fsPath, includeCheckpoints })
+					vscode.window.showInformationMessage(t("common:info.task_archive_exported"))
+				} catch (error) {
+					const errorMessage = error instanceof Error ? error.message : String(error)
+					provider.log(`Failed to export task archive: ${errorMessage}`)
+					vscode.window.showErrorMessage(
+						t("common:errors.task_archive_export_failed", { error: errorMessage }),
+					)
+				}
+			}
+
+			break
+		}
+		case "importTaskArchive": {
+			const uris = await vscode.window.showOpenDialog({ filters: { JSON: ["json"] }, canSelectMany: false })
+
+			if (uris?.[0]) {
+				try {
+					const historyItem = await importTaskArchive({ provider, filePath: uris[0].fsPath })
+					vscode.window.showInformationMessage(t("common:info.task_archive_imported"))
+					await provider.showTaskWithId(historyItem.id)
+				} catch (error) {
+					const errorMessage = error instanceof Error ? error.message : String(error)
+					provider.log(`Failed to import task archive: ${errorMessage}`)
+					vscode.window.showErrorMessage(
+						t("common:errors.task_archive_import_failed", { error: errorMessage }),
+					)
+				}
+			}
+
+			break
+		}
 		case "importSettings": {
 			await importSettingsWithFeedback({
 				providerSettingsManager: provider.providerSettingsManager,
@@ -1183,6 +1248,59 @@ export const webviewMessageHandler = async (
 
 			break
 		}
+		case "checkpointFork": {
+			const result = checkpointForkPayloadSchema.safeParse(message.payload)
+			const task = provider.getCurrentTask()
+
+			if (result.success && task) {
+				try {
+					await forkTaskFromCheckpoint({ provider, task, ...result.data })
+				} catch (error) {
+					provider.log(
+						`[checkpointFork] failed to fork task ${task.taskId}: ${error instanceof Error ? error.message : String(error)}`,
+					)
+					vscode.window.showErrorMessage(t("common:errors.checkpoint_fork_failed"))
+
+					// Reopen the original task if the fork could not be opened.
+					if (!provider.getCurrentTask()) {
+						await provider.showTaskWithId(task.taskId)
+					}
+				}
+			}
+
+			break
+		}
+		case "requestCheckpointUsage":
+			await provider.postCheckpointUsageToWebview()
+			break
+		case "searchTaskHistory": {
+			const result = taskSearchFiltersSchema.safeParse(message.values ?? {})
+
+			if (!result.success) {
+				provider.log(`Invalid task search filters: ${JSON.stringify(result.error.issues)}`)
+				break
+			}
+
+			await provider.postTaskSearchResultsToWebview(message.query ?? "", result.data, message.requestId)
+			break
+		}
+		case "purgeCheckpoints":
+		case "applyCheckpointRetention":
+			try {
+				if (message.type === "purgeCheckpoints") {
+					await provider.purgeCheckpoints(message.ids)
+				} else {
+					await provider.applyCheckpointRetention()
+				}
+			} catch (error) {
+				provider.log(
+					`[${message.type}] failed to clean up checkpoints: ${error instanceof Error ? error.message : String(error)}`,
+				)
+				vscode.window.showErrorMessage(t("common:errors.checkpoint_cleanup_failed"))
+			}
+
+			await provider.postCheckpointUsageToWebview()
+			break
 		case "cancelTask":
 			await provider.cancelTask()
 			break
@@ -1195,6 +1313,37 @@ export const webviewMessageHandler = async (
 				}
 			}
 			break
+		case "exportBrowserHar":
+			{
+				const har = provider.getCurrentTask()?.browserSession.exportHar()
+
+				if (!har) {
+					vscode.window.showInformationMessage(t("common:info.browser_har_empty"))
+					break
+				}
+
+				const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
+				const saveUri = await vscode.window.showSaveDialog({
+					defaultUri: vscode.Uri.file(
+						path.join(os.homedir(), "Downloads", `roo-browser-session-${timestamp}.har`),
+					),
+					filters: { HAR: ["har"] },
+				})
+
+				if (saveUri) {
+					try {
+						await fs.writeFile(saveUri.fsPath, JSON.stringify(har, null, 2), "utf-8")
+						vscode.window.showInformationMessage(t("common:info.browser_har_exported"))
+					} catch (error) {
+						const errorMessage = error instanceof Error ? error.message : String(error)
+						provider.log(`Failed to export browser session: ${errorMessage}`)
+						vscode.window.showErrorMessage(
+							t("common:errors.browser_har_export_failed", { error: errorMessage }),
+						)
+					}
+				}
+			}
+			break
 		case "openBrowserSessionPanel":
 			{
 				// Toggle the Browser Session panel (open if closed, close if open)
@@ -2435,6 +2584,7 @@ export const webviewMessageHandler = async (
 				const globalStateConfig = {
 					...currentConfig,
 					codebaseIndexEnabled: settings.codebaseIndexEnabled,
+					codebaseIndexVectorStoreProvider: settings.codebaseIndexVectorStoreProvider,
 					codebaseIndexQdrantUrl: settings.codebaseIndexQdrantUrl,
 					codebaseIndexEmbedderProvider: settings.codebaseIndexEmbedderProvider,
 					codebaseIndexEmbedderBaseUrl: settings.codebaseIndexEmbedderBaseUrl,
@@ -2445,6 +2595,7 @@ export const webviewMessageHandler = async (
 					codebaseIndexBedrockProfile: settings.codebaseIndexBedrockProfile,
 					codebaseIndexSearchMaxResults: settings.codebaseIndexSearchMaxResults,
 					codebaseIndexSearchMinScore: settings.codebaseIndexSearchMinScore,
+					codebaseIndexSearchMode: settings.codebaseIndexSearchMode,
 					codebaseIndexOpenRouterSpecificProvider: settings.codebaseIndexOpenRouterSpecificProvider,
 				}
 
@@ -2859,10 +3010,11 @@ export const webviewMessageHandler = async (
 		case "requestCommands": {
 			try {
 				const { getCommands } = await import("../../services/command/commands")
+				const { getMcpPromptCommands } = await import("../../services/command/mcp-prompts")
 				const commands = await getCommands(getCurrentCwd())
 
 				// Convert to the format expected by the frontend
-				const commandList = commands.map((command) => ({
+				const commandList: Command[] = commands.map((command) => ({
 					name: command.name,
 					source: command.source,
 					filePath: command.filePath,
@@ -2870,6 +3022,24 @@ export const webviewMessageHandler = async (
 					argumentHint: command.argumentHint,
 				}))
 
+				// MCP prompts are listed after file-based commands and never override them.
+				for (const prompt of getMcpPromptCommands(provider.getMcpHub())) {
+					if (!commandList.some((command) => command.name === prompt.name)) {
+						commandList.push({
+							name: prompt.name,
+							source: "mcp",
+							description: prompt.description,
+							argumentHint: prompt.arguments?.map((argument) => argument.name).join(" "),
+							mcpPrompt: {
+								serverName: prompt.serverName,
+								serverSource: prompt.serverSource,
+								promptName: prompt.promptName,
+								arguments: prompt.arguments,
+							},
+						})
+					}
+				}
+
 				await provider.postMessageToWebview({
 					type: "commands",
 					commands: commandList,
@@ -3055,6 +3225,37 @@ export const webviewMessageHandler = async (
 			}
 			break
 		}
+		case "getMcpPrompt": {
+			if (!message.serverName || !message.promptName) {
+				break
+			}
+
+			try {
+				const { renderMcpPrompt } = await import("../../services/command/mcp-prompts")
+				const mcpHub = provider.getMcpHub()
+
+				if (!mcpHub) {
+					throw new Error("MCP hub not available")
+				}
+
+				const response = await mcpHub.getPrompt(
+					message.serverName,
+					message.promptName,
+					message.values as Record<string, string> | undefined,
+					message.source,
+				)
+
+				await provider.postMessageToWebview({ type: "mcpPrompt", text: renderMcpPrompt(response) })
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error)
+				provider.log(`Error getting MCP prompt ${message.promptName}: ${errorMessage}`)
+				vscode.window.showErrorMessage(
+					t("mcp:errors.prompt_failed", { promptName: message.promptName, error: errorMessage }),
+				)
+				await provider.postMessageToWebview({ type: "mcpPrompt" })
+			}
+			break
+		}
 		case "showMdmAuthRequiredNotification": {
 			// Show notification that organization requires authentication
 			vscode.window.showWarningMessage(t("common:mdm.info.organization_requires_auth"))
@@ -3073,6 +3274,12 @@ export const webviewMessageHandler = async (
 			provider.getCurrentTask()?.messageQueueService.removeMessage(message.text ?? "")
 			break
 		}
+		case "killBackgroundJob": {
+			if (message.value !== undefined) {
+				provider.getCurrentTask()?.backgroundJobService.kill(message.value)
+			}
+			break
+		}
 		case "editQueuedMessage": {
 			if (message.payload) {
 				const { id, text, images } = message.payload as EditQueuedMessagePayload
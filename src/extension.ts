@@ -273,6 +273,16 @@ export async function activate(context: vscode.ExtensionContext) {
 		)
 	}
 
+	// Enforce checkpoint retention limits in the background so that pruning
+	// large shadow repos doesn't delay activation.
+	if (provider.contextProxy.getValue("checkpointRetention")) {
+		provider.applyCheckpointRetention().catch((error) => {
+			outputChannel.appendLine(
+				`[CheckpointRetention] Error applying checkpoint retention: ${error instanceof Error ? error.message : String(error)}`,
+			)
+		})
+	}
+
 	registerCommands({ context, outputChannel, provider })
 
 	/**
@@ -0,0 +1,194 @@
+// npx vitest run src/extension/__tests__/api-task-commands.spec.ts
+
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import * as vscode from "vscode"
+
+import type { ClineMessage, HistoryItem } from "@roo-code/types"
+
+import { API } from "../api"
+import { ClineProvider } from "../../core/webview/ClineProvider"
+import { readTaskMessages } from "../../core/task-persistence"
+import { exportTaskArchive, importTaskArchive } from "../../core/webview/taskArchiveHandler"
+
+vi.mock("vscode")
+vi.mock("../../core/webview/ClineProvider")
+vi.mock("../../core/task-persistence", () => ({
+	readTaskMessages: vi.fn(),
+}))
+vi.mock("../../core/webview/taskArchiveHandler", () => ({
+	exportTaskArchive: vi.fn(),
+	importTaskArchive: vi.fn(),
+}))
+
+const askMessage: ClineMessage = { ts: 2000, type: "ask", ask: "command", text: "npm test" }
+
+const createHistoryItem = (id: string, ts: number, workspace = "/workspace"): HistoryItem => ({
+	id,
+	number: 1,
+	ts,
+	task: `Task ${id}`,
+	tokensIn: 0,
+	tokensOut: 0,
+	totalCost: 0,
+	workspace,
+})
+
+describe("API - task commands", () => {
+	let api: API
+	let mockProvider: ClineProvider
+	let mockTask: {
+		taskId: string
+		clineMessages: ClineMessage[]
+		lastMessageTs?: number
+		approveAsk: ReturnType<typeof vi.fn>
+		denyAsk: ReturnType<typeof vi.fn>
+	}
+	let taskHistory: HistoryItem[]
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+
+		mockTask = {
+			taskId: "task-1",
+			clineMessages: [{ ts: 1000, type: "say", say: "text", text: "hello" }, askMessage],
+			lastMessageTs: askMessage.ts,
+			approveAsk: vi.fn(),
+			denyAsk: vi.fn(),
+		}
+
+		taskHistory = [
+			createHistoryItem("task-1", 1000),
+			createHistoryItem("task-2", 3000),
+			createHistoryItem("task-3", 2000, "/other"),
+		]
+
+		mockProvider = {
+			context: { globalStorageUri: { fsPath: "/storage" } } as unknown as vscode.ExtensionContext,
+			on: vi.fn(),
+			getCurrentTask: vi.fn(() => mockTask),
+			getValue: vi.fn((key: string) => (key === "taskHistory" ? taskHistory : undefined)),
+			getTaskWithId: vi.fn(async (id: string) => {
+				const historyItem = taskHistory.find((item) => item.id === id)
+
+				if (!historyItem) {
+					throw new Error("Task not found")
+				}
+
+				return { historyItem }
+			}),
+			deleteTaskWithId: vi.fn(),
+			postStateToWebview: vi.fn(),
+			handleModeSwitch: vi.fn(),
+			customModesManager: { getCustomModes: vi.fn().mockResolvedValue([]) },
+		} as unknown as ClineProvider
+
+		api = new API({ appendLine: vi.fn() } as unknown as vscode.OutputChannel, mockProvider)
+	})
+
+	describe("approveAsk / rejectAsk", () => {
+		it("approves the pending ask with feedback", async () => {
+			await api.approveAsk({ taskId: "task-1", askTs: askMessage.ts, text: "go ahead" })
+			expect(mockTask.approveAsk).toHaveBeenCalledWith({ text: "go ahead", images: undefined })
+		})
+
+		it("rejects the pending ask", async () => {
+			await api.rejectAsk({ taskId: "task-1", askTs: askMessage.ts })
+			expect(mockTask.denyAsk).toHaveBeenCalledWith({ text: undefined, images: undefined })
+		})
+
+		it("refuses to answer an ask that is no longer pending", async () => {
+			mockTask.lastMessageTs = 3000
+
+			await expect(api.approveAsk({ taskId: "task-1", askTs: askMessage.ts })).rejects.toThrow(
+				"Ask 2000 is not pending for task task-1",
+			)
+			expect(mockTask.approveAsk).not.toHaveBeenCalled()
+		})
+
+		it("refuses to answer a message that is not an ask", async () => {
+			await expect(api.approveAsk({ taskId: "task-1", askTs: 1000 })).rejects.toThrow("is not pending")
+		})
+
+		it("throws if the task is not running", async () => {
+			await expect(api.rejectAsk({ taskId: "task-2", askTs: askMessage.ts })).rejects.toThrow(
+				"Task task-2 is not running",
+			)
+		})
+	})
+
+	describe("switchMode", () => {
+		it("switches to an existing mode", async () => {
+			await api.switchMode("architect")
+			expect(mockProvider.handleModeSwitch).toHaveBeenCalledWith("architect")
+		})
+
+		it("rejects unknown modes", async () => {
+			await expect(api.switchMode("does-not-exist")).rejects.toThrow('Mode "does-not-exist" does not exist')
+			expect(mockProvider.handleModeSwitch).not.toHaveBeenCalled()
+		})
+	})
+
+	describe("getTaskMessages", () => {
+		it("returns the live messages of a running task", async () => {
+			expect(await api.getTaskMessages("task-1")).toBe(mockTask.clineMessages)
+			expect(readTaskMessages).not.toHaveBeenCalled()
+		})
+
+		it("reads the messages of a task from history", async () => {
+			const messages: ClineMessage[] = [{ ts: 3000, type: "say", say: "text", text: "done" }]
+			vi.mocked(readTaskMessages).mockResolvedValue(messages)
+
+			expect(await api.getTaskMessages("task-2")).toBe(messages)
+			expect(readTaskMessages).toHaveBeenCalledWith({ taskId: "task-2", globalStoragePath: "/storage" })
+		})
+
+		it("throws for unknown tasks", async () => {
+			await expect(api.getTaskMessages("missing")).rejects.toThrow("Task not found")
+		})
+	})
+
+	describe("listHistory", () => {
+		it("returns the most recent tasks first", () => {
+			expect(api.listHistory().map(({ id }) => id)).toEqual(["task-2", "task-3", "task-1"])
+		})
+
+		it("filters by workspace and limits the results", () => {
+			expect(api.listHistory({ workspace: "/workspace", limit: 1 }).map(({ id }) => id)).toEqual(["task-2"])
+		})
+	})
+
+	describe("deleteTask", () => {
+		it("deletes a task from history", async () => {
+			await api.deleteTask("task-2")
+			expect(mockProvider.deleteTaskWithId).toHaveBeenCalledWith("task-2")
+		})
+
+		it("throws for unknown tasks", async () => {
+			await expect(api.deleteTask("missing")).rejects.toThrow("Task missing not found")
+			expect(mockProvider.deleteTaskWithId).not.toHaveBeenCalled()
+		})
+	})
+	describe("exportTask / importTask", () => {
+		it("exports a task archive", async () => {
+			await api.exportTask({ taskId: "task-2", filePath: "/tmp/task.json", includeCheckpoints: true })
+
+			expect(exportTaskArchive).toHaveBeenCalledWith({
+				provider: mockProvider,
+				taskId: "task-2",
+				filePath: "/tmp/task.json",
+				includeCheckpoints: true,
+			})
+		})
+
+		it("returns the id of the imported task", async () => {
+			vi.mocked(importTaskArchive).mockResolvedValue(createHistoryItem("task-4", 4000))
+
+			expect(await api.importTask({ filePath: "/tmp/task.json", workspace: "/other" })).toBe("task-4")
+			expect(importTaskArchive).toHaveBeenCalledWith({
+				provider: mockProvider,
+				filePath: "/tmp/task.json",
+				workspace: "/other",
+			})
+		})
+	})
+})
@@ -13,6 +13,10 @@ import {
 	type ProviderSettingsEntry,
 	type TaskEvent,
 	type CreateTaskOptions,
+	type AskResponseData,
+	type ClineMessage,
+	type HistoryItem,
+	type TaskCommand,
 	RooCodeEventName,
 	TaskCommandName,
 	isSecretStateKey,
@@ -22,7 +26,11 @@ import {
 import { IpcServer } from "@roo-code/ipc"
 
 import { Package } from "../shared/package"
+import { getModeBySlug } from "../shared/modes"
 import { ClineProvider } from "../core/webview/ClineProvider"
+import type { Task } from "../core/task/Task"
+import { readTaskMessages } from "../core/task-persistence"
+import { exportTaskArchive, importTaskArchive } from "../core/webview/taskArchiveHandler"
 import { openClineInNewTab } from "../activate/registerCommands"
 
 export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
@@ -65,41 +73,85 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 			ipc.listen()
 			this.log(`[API] ipc server started: socketPath=${socketPath}, pid=${process.pid}, ppid=${process.ppid}`)
 
-			ipc.on(IpcMessageType.TaskCommand, async (_clientId, { commandName, data }) => {
-				switch (commandName) {
-					case TaskCommandName.StartNewTask:
-						this.log(`[API] StartNewTask -> ${data.text}, ${JSON.stringify(data.configuration)}`)
-						await this.startNewTask(data)
-						break
-					case TaskCommandName.CancelTask:
-						this.log(`[API] CancelTask -> ${data}`)
-						await this.cancelTask(data)
-						break
-					case TaskCommandName.CloseTask:
-						this.log(`[API] CloseTask -> ${data}`)
-						await vscode.commands.executeCommand("workbench.action.files.saveFiles")
-						await vscode.commands.executeCommand("workbench.action.closeWindow")
-						break
-					case TaskCommandName.ResumeTask:
-						this.log(`[API] ResumeTask -> ${data}`)
-						try {
-							await this.resumeTask(data)
-						} catch (error) {
-							const errorMessage = error instanceof Error ? error.message : String(error)
-							this.log(`[API] ResumeTask failed for taskId ${data}: ${errorMessage}`)
-							// Don't rethrow - we want to prevent IPC server crashes
-							// The error is logged for debugging purposes
-						}
-						break
-					case TaskCommandName.SendMessage:
-						this.log(`[API] SendMessage -> ${data.text}`)
-						await this.sendMessage(data.text, data.images)
-						break
+			ipc.on(IpcMessageType.TaskCommand, async (clientId, command, requestId) => {
+				try {
+					const result = await this.handleTaskCommand(command)
+
+					if (requestId) {
+						ipc.sendResponse(clientId, {
+							requestId,
+							commandName: command.commandName,
+							success: true,
+							result,
+						})
+					}
+				} catch (error) {
+					// Don't rethrow - we want to prevent IPC server crashes.
+					const errorMessage = error instanceof Error ? error.message : String(error)
+					this.log(`[API] ${command.commandName} failed: ${errorMessage}`)
+
+					if (requestId) {
+						ipc.sendResponse(clientId, {
+							requestId,
+							commandName: command.commandName,
+							success: false,
+							error: errorMessage,
+						})
+					}
 				}
 			})
 		}
 	}
 
+	private async handleTaskCommand(command: TaskCommand): Promise<unknown> {
+		switch (command.commandName) {
+			case TaskCommandName.StartNewTask:
+				this.log(`[API] StartNewTask -> ${command.data.text}, ${JSON.stringify(command.data.configuration)}`)
+				return this.startNewTask(command.data)
+			case TaskCommandName.CancelTask:
+				this.log(`[API] CancelTask -> ${command.data}`)
+				return this.cancelTask(command.data)
+			case TaskCommandName.CloseTask:
+				this.log(`[API] CloseTask -> ${command.data}`)
+				await vscode.commands.executeCommand("workbench.action.files.saveFiles")
+				await vscode.commands.executeCommand("workbench.action.closeWindow")
+				return
+			case TaskCommandName.ResumeTask:
+				this.log(`[API] ResumeTask -> ${command.data}`)
+				return this.resumeTask(command.data)
+			case TaskCommandName.SendMessage:
+				this.log(`[API] SendMessage -> ${command.data.text}`)
+				return this.sendMessage(command.data.text, command.data.images)
+			case TaskCommandName.ApproveAsk:
+				this.log(`[API] ApproveAsk -> ${command.data.taskId}, ${command.data.askTs}`)
+				return this.approveAsk(command.data)
+			case TaskCommandName.RejectAsk:
+				this.log(`[API] RejectAsk -> ${command.data.taskId}, ${command.data.askTs}`)
+				return this.rejectAsk(command.data)
+			case TaskCommandName.SwitchMode:
+				this.log(`[API] SwitchMode -> ${command.data.mode}`)
+				return this.switchMode(command.data.mode)
+			case TaskCommandName.GetTaskMessages:
+				this.log(`[API] GetTaskMessages -> ${command.data}`)
+				return this.getTaskMessages(command.data)
+			case TaskCommandName.ListHistory:
+				this.log(`[API] ListHistory -> ${JSON.stringify(command.data ?? {})}`)
+				return this.listHistory(command.data)
+			case TaskCommandName.DeleteTask:
+				this.log(`[API] DeleteTask -> ${command.data}`)
+				return this.deleteTask(command.data)
+			case TaskCommandName.GetSettings:
+				this.log(`[API] GetSettings`)
+				return this.getConfiguration()
+			case TaskCommandName.ExportTask:
+				this.log(`[API] ExportTask -> ${command.data.taskId}, ${command.data.filePath}`)
+				return this.exportTask(command.data)
+			case TaskCommandName.ImportTask:
+				this.log(`[API] ImportTask -> ${command.data.filePath}`)
+				return this.importTask(command.data)
+		}
+	}
+
 	public override emit<K extends keyof RooCodeEvents>(
 		eventName: K,
 		...args: K extends keyof RooCodeEvents ? RooCodeEvents[K] : never
@@ -194,6 +246,90 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 		await this.sidebarProvider.postMessageToWebview({ type: "invoke", invoke: "sendMessage", text, images })
 	}
 
+	public async approveAsk({ taskId, askTs, text, images }: AskResponseData) {
+		this.getTaskWithPendingAsk(taskId, askTs).approveAsk({ text, images })
+	}
+
+	public async rejectAsk({ taskId, askTs, text, images }: AskResponseData) {
+		this.getTaskWithPendingAsk(taskId, askTs).denyAsk({ text, images })
+	}
+
+	public async switchMode(mode: string) {
+		const customModes = await this.sidebarProvider.customModesManager.getCustomModes()
+
+		if (!getModeBySlug(mode, customModes)) {
+			throw new Error(`Mode "${mode}" does not exist`)
+		}
+
+		await this.sidebarProvider.handleModeSwitch(mode)
+	}
+
+	public async getTaskMessages(taskId: string): Promise<ClineMessage[]> {
+		const task = this.findRunningTask(taskId)
+
+		if (task) {
+			return task.clineMessages
+		}
+
+		// Throws if the task is not in the task history.
+		await this.sidebarProvider.getTaskWithId(taskId)
+		return readTaskMessages({ taskId, globalStoragePath: this.context.globalStorageUri.fsPath })
+	}
+
+	public listHistory({ workspace, limit }: { workspace?: string; limit?: number } = {}): HistoryItem[] {
+		const history = (this.sidebarProvider.getValue("taskHistory") ?? [])
+			.filter((item) => item.ts && item.task && (!workspace || item.workspace === workspace))
+			.sort((a, b) => b.ts - a.ts)
+
+		return limit ? history.slice(0, limit) : history
+	}
+
+	public async deleteTask(taskId: string) {
+		if (!(await this.isTaskInHistory(taskId))) {
+			throw new Error(`Task ${taskId} not found`)
+		}
+
+		await this.sidebarProvider.deleteTaskWithId(taskId)
+		await this.sidebarProvider.postStateToWebview()
+	}
+
+	public async exportTask(options: { taskId: string; filePath: string; includeCheckpoints?: boolean }) {
+		await exportTaskArchive({ provider: this.sidebarProvider, ...options })
+	}
+
+	public async importTask(options: { filePath: string; workspace?: string }): Promise<string> {
+		const { id } = await importTaskArchive({ provider: this.sidebarProvider, ...options })
+		return id
+	}
+
+	private findRunningTask(taskId: string): Task | undefined {
+		for (const provider of [this.taskMap.get(taskId), this.sidebarProvider]) {
+			const task = provider?.getCurrentTask()
+
+			if (task?.taskId === taskId) {
+				return task
+			}
+		}
+
+		return undefined
+	}
+
+	private getTaskWithPendingAsk(taskId: string, askTs: number): Task {
+		const task = this.findRunningTask(taskId)
+
+		if (!task) {
+			throw new Error(`Task ${taskId} is not running`)
+		}
+
+		const message = task.clineMessages.find(({ ts }) => ts === askTs)
+
+		if (!message || message.type !== "ask" || message.partial || task.lastMessageTs !== askTs) {
+			throw new Error(`Ask ${askTs} is not pending for task ${taskId}`)
+		}
+
+		return task
+	}
+
 	public async pressPrimaryButton() {
 		await this.sidebarProvider.postMessageToWebview({ type: "invoke", invoke: "primaryButtonClick" })
 	}
@@ -311,6 +447,18 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 				this.emit(RooCodeEventName.TaskTokenUsageUpdated, task.taskId, usage)
 			})
 
+			task.on(RooCodeEventName.TaskBudgetUpdated, (_, status) => {
+				this.emit(RooCodeEventName.TaskBudgetUpdated, task.taskId, status)
+			})
+
+			task.on(RooCodeEventName.TaskBudgetExceeded, (_, status) => {
+				this.emit(RooCodeEventName.TaskBudgetExceeded, task.taskId, status)
+			})
+
+			task.on(RooCodeEventName.TaskHookBlocked, (_, event, reason) => {
+				this.emit(RooCodeEventName.TaskHookBlocked, task.taskId, event, reason)
+			})
+
 			// Let's go!
 
 			this.emit(RooCodeEventName.TaskCreated, task.taskId)
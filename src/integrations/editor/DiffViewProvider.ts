@@ -326,6 +326,9 @@ export class DiffViewProvider {
 			await task.say("user_feedback_diff", JSON.stringify(say))
 		}
 
+		// Formatters, linters and type-checkers configured in .roo/hooks.json.
+		const hooksReport = await task.postEditHookRunner.runAfterEdit([this.relPath])
+
 		// Check which protocol we're using
 		const toolProtocol = resolveToolProtocol(task.apiConfiguration, task.api.getModel().info)
 		const useNative = isNativeProtocol(toolProtocol)
@@ -357,6 +360,10 @@ export class DiffViewProvider {
 				result.problems = this.newProblemsMessage
 			}
 
+			if (hooksReport) {
+				result.post_edit_hooks = hooksReport
+			}
+
 			return JSON.stringify(result)
 		} else {
 			// Build XML response for legacy protocol
@@ -366,6 +373,7 @@ export class DiffViewProvider {
 					operation: isNewFile ? "created" : "modified",
 					user_edits: this.userEdits ? this.userEdits : undefined,
 					problems: this.newProblemsMessage || undefined,
+					post_edit_hooks: hooksReport,
 					notice: {
 						i: notices,
 					},
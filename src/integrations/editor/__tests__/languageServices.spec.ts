@@ -0,0 +1,155 @@
+// npx vitest run integrations/editor/__tests__/languageServices.spec.ts
+
+import * as vscode from "vscode"
+
+import {
+	SymbolNotFoundError,
+	findReferences,
+	getEditedDocuments,
+	getHoverText,
+	getTextEdit,
+	resolveSymbolPosition,
+} from "../languageServices"
+
+vi.mock("vscode", () => {
+	class Position {
+		constructor(
+			public line: number,
+			public character: number,
+		) {}
+	}
+
+	class Range {
+		constructor(
+			public start: Position,
+			public end: Position,
+		) {}
+	}
+
+	class WorkspaceEdit {
+		private edits: Array<[unknown, unknown[]]> = []
+
+		set(uri: unknown, edits: unknown[]) {
+			this.edits.push([uri, edits])
+		}
+
+		entries() {
+			return this.edits
+		}
+	}
+
+	return {
+		Position,
+		Range,
+		WorkspaceEdit,
+		Uri: { file: (fsPath: string) => ({ fsPath, toString: () => `file://${fsPath}` }) },
+		workspace: { openTextDocument: vi.fn() },
+		commands: { executeCommand: vi.fn() },
+	}
+})
+
+const createDocument = (content: string) => {
+	const lines = content.split("\n")
+	const offsetAt = ({ line, character }: vscode.Position) =>
+		lines.slice(0, line).reduce((offset, text) => offset + text.length + 1, 0) + character
+
+	return {
+		lineCount: lines.length,
+		lineAt: (line: number) => ({ text: lines[line] }),
+		getText: () => content,
+		isDirty: content.includes("\n\n"),
+		offsetAt,
+	} as unknown as vscode.TextDocument
+}
+
+const range = (line: number, start: number, end: number) =>
+	new vscode.Range(new vscode.Position(line, start), new vscode.Position(line, end))
+
+const files: Record<string, string> = {
+	"/repo/a.ts": "export function format(value: string) {\n\treturn formatValue(value)\n}",
+	"/repo/b.ts": 'import { format } from "./a"\n\nformat("x")',
+}
+
+describe("languageServices", () => {
+	beforeEach(() => {
+		vi.mocked(vscode.workspace.openTextDocument).mockImplementation(
+			async (uri: any) => createDocument(files[uri.fsPath]) as any,
+		)
+	})
+
+	describe("resolveSymbolPosition", () => {
+		it("locates a symbol by name on a 1-based line, preferring whole words", async () => {
+			const { position } = await resolveSymbolPosition(vscode.Uri.file("/repo/a.ts"), 2, "format")
+			expect(position).toEqual(new vscode.Position(1, 8))
+
+			const { position: declaration } = await resolveSymbolPosition(vscode.Uri.file("/repo/a.ts"), 1, "value")
+			expect(declaration).toEqual(new vscode.Position(0, 23))
+		})
+
+		it("reports symbols that aren't on the line and lines out of range", async () => {
+			await expect(resolveSymbolPosition(vscode.Uri.file("/repo/a.ts"), 3, "format")).rejects.toThrow(
+				SymbolNotFoundError,
+			)
+			await expect(resolveSymbolPosition(vscode.Uri.file("/repo/a.ts"), 4, "format")).rejects.toThrow(
+				"Line 4 is out of range, the file has 3 lines.",
+			)
+		})
+	})
+
+	it("returns the references with their source lines, up to a limit", async () => {
+		vi.mocked(vscode.commands.executeCommand).mockResolvedValue([
+			{ uri: vscode.Uri.file("/repo/a.ts"), range: range(0, 16, 22) },
+			{ uri: vscode.Uri.file("/repo/b.ts"), range: range(0, 9, 15) },
+			{ uri: vscode.Uri.file("/repo/b.ts"), range: range(2, 0, 6) },
+		])
+
+		const { locations, total } = await findReferences(vscode.Uri.file("/repo/a.ts"), range(0, 16, 22).start, 2)
+
+		expect(total).toBe(3)
+		expect(locations.map(({ uri, line, column, text }) => [uri.fsPath, line, column, text])).toEqual([
+			["/repo/a.ts", 1, 17, "export function format(value: string) {"],
+			["/repo/b.ts", 1, 10, 'import { format } from "./a"'],
+		])
+	})
+
+	it("joins the hover contents as markdown", async () => {
+		vi.mocked(vscode.commands.executeCommand).mockResolvedValue([
+			{ contents: [{ language: "typescript", value: "function format(value: string): string" }] },
+			{ contents: [{ value: "Formats a value." }, ""] },
+		])
+
+		expect(await getHoverText(vscode.Uri.file("/repo/a.ts"), new vscode.Position(0, 16))).toBe(
+			"```typescript\nfunction format(value: string): string\n```\n\nFormats a value.",
+		)
+	})
+
+	it("applies the text edits of a workspace edit to the document contents", async () => {
+		const edit = {
+			entries: () => [
+				[vscode.Uri.file("/repo/a.ts"), [{ range: range(0, 16, 22), newText: "formatText" }]],
+				[
+					vscode.Uri.file("/repo/b.ts"),
+					[
+						{ range: range(2, 0, 6), newText: "formatText" },
+						{ range: range(0, 9, 15), newText: "formatText" },
+					],
+				],
+			],
+		} as unknown as vscode.WorkspaceEdit
+
+		const documents = await getEditedDocuments(edit)
+
+		expect(documents.map(({ newContent, changeCount, isDirty }) => [newContent, changeCount, isDirty])).toEqual([
+			["export function formatText(value: string) {\n\treturn formatValue(value)\n}", 1, false],
+			['import { formatText } from "./a"\n\nformatText("x")', 2, true],
+		])
+	})
+
+	it("copies only the text edits of a workspace edit", () => {
+		const uri = vscode.Uri.file("/repo/a.ts")
+		const textEdits = [{ range: range(0, 16, 22), newText: "formatText" }]
+		const edit = { entries: () => [[uri, textEdits]], renameFile: vi.fn() } as unknown as vscode.WorkspaceEdit
+
+		expect(getTextEdit(edit).entries()).toEqual([[uri, textEdits]])
+	})
+})
@@ -0,0 +1,216 @@
+import * as vscode from "vscode"
+
+export const symbolLookups = ["definition", "references", "hover"] as const
+
+export type SymbolLookup = (typeof symbolLookups)[number]
+
+export class SymbolNotFoundError extends Error {}
+
+export interface SymbolLocation {
+	uri: vscode.Uri
+	// 1-based, like the line numbers models see in read_file results.
+	line: number
+	column: number
+	text: string
+}
+
+export interface EditedDocument {
+	uri: vscode.Uri
+	originalContent: string
+	newContent: string
+	changeCount: number
+	// Whether the document had unsaved changes before the edit.
+	isDirty: boolean
+}
+
+const escapeRegExp = (input: string) => input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/**
+ * Opens a document and returns the position of `symbol` on the 1-based
+ * `line`. Models are much better at quoting a line and an identifier than at
+ * counting columns, so the symbol is located by name, preferring a whole-word
+ * match.
+ */
+export async function resolveSymbolPosition(
+	uri: vscode.Uri,
+	line: number,
+	symbol: string,
+): Promise<{ document: vscode.TextDocument; position: vscode.Position }> {
+	const document = await vscode.workspace.openTextDocument(uri)
+
+	if (!Number.isInteger(line) || line < 1 || line > document.lineCount) {
+		throw new SymbolNotFoundError(`Line ${line} is out of range, the file has ${document.lineCount} lines.`)
+	}
+
+	const { text } = document.lineAt(line - 1)
+	const wholeWord = new RegExp(`(?<![\\w$])${escapeRegExp(symbol)}(?![\\w$])`).exec(text)
+	const column = wholeWord ? wholeWord.index : text.indexOf(symbol)
+
+	if (!symbol || column === -1) {
+		throw new SymbolNotFoundError(`"${symbol}" was not found on line ${line}: ${text.trim()}`)
+	}
+
+	return { document, position: new vscode.Position(line - 1, column) }
+}
+
+async function toSymbolLocations(
+	locations: Array<vscode.Location | vscode.LocationLink>,
+	limit: number,
+): Promise<SymbolLocation[]> {
+	const documents = new Map<string, vscode.TextDocument>()
+	const results: SymbolLocation[] = []
+
+	for (const location of locations.slice(0, limit)) {
+		const [uri, range] =
+			"targetUri" in location
+				? [location.targetUri, location.targetSelectionRange ?? location.targetRange]
+				: [location.uri, location.range]
+
+		let document = documents.get(uri.toString())
+
+		if (!document) {
+			document = await vscode.workspace.openTextDocument(uri)
+			documents.set(uri.toString(), document)
+		}
+
+		results.push({
+			uri,
+			line: range.start.line + 1,
+			column: range.start.character + 1,
+			text: document.lineAt(range.start.line).text.trim(),
+		})
+	}
+
+	return results
+}
+
+/**
+ * Returns the definitions of the symbol at a position, as reported by the
+ * language extensions installed in VS Code.
+ */
+export async function findDefinitions(
+	uri: vscode.Uri,
+	position: vscode.Position,
+	limit: number,
+): Promise<SymbolLocation[]> {
+	const locations = await vscode.commands.executeCommand<Array<vscode.Location | vscode.LocationLink> | undefined>(
+		"vscode.executeDefinitionProvider",
+		uri,
+		position,
+	)
+
+	return toSymbolLocations(locations ?? [], limit)
+}
+
+/**
+ * Returns the references to the symbol at a position, including its
+ * declaration, along with the total number of references.
+ */
+export async function findReferences(
+	uri: vscode.Uri,
+	position: vscode.Position,
+	limit: number,
+): Promise<{ locations: SymbolLocation[]; total: number }> {
+	const locations =
+		(await vscode.commands.executeCommand<vscode.Location[] | undefined>(
+			"vscode.executeReferenceProvider",
+			uri,
+			position,
+		)) ?? []
+
+	return { locations: await toSymbolLocations(locations, limit), total: locations.length }
+}
+
+/**
+ * Returns the hover information, such as the type and documentation, of the
+ * symbol at a position as markdown.
+ */
+export async function getHoverText(uri: vscode.Uri, position: vscode.Position): Promise<string> {
+	const hovers =
+		(await vscode.commands.executeCommand<vscode.Hover[] | undefined>(
+			"vscode.executeHoverProvider",
+			uri,
+			position,
+		)) ?? []
+
+	return hovers
+		.flatMap((hover) => hover.contents)
+		.map((content) => {
+			if (typeof content === "string") {
+				return content
+			}
+
+			// MarkedString code blocks have a language, MarkdownStrings don't.
+			return "language" in content ? `\`\`\`${content.language}\n${content.value}\n\`\`\`` : content.value
+		})
+		.filter((text) => text.trim().length > 0)
+		.join("\n\n")
+}
+
+/**
+ * Computes the edits of renaming the symbol at a position, without applying
+ * them. Throws if the language extension rejects the rename, e.g. for a
+ * keyword.
+ */
+export async function getRenameEdit(
+	uri: vscode.Uri,
+	position: vscode.Position,
+	newName: string,
+): Promise<vscode.WorkspaceEdit | undefined> {
+	return vscode.commands.executeCommand<vscode.WorkspaceEdit | undefined>(
+		"vscode.executeDocumentRenameProvider",
+		uri,
+		position,
+		newName,
+	)
+}
+
+/**
+ * Returns the contents of the documents changed by the text edits of a
+ * workspace edit before and after applying them, so they can be reviewed.
+ * The file operations of the edit aren't included; see `getTextEdit`.
+ */
+export async function getEditedDocuments(edit: vscode.WorkspaceEdit): Promise<EditedDocument[]> {
+	const documents: EditedDocument[] = []
+
+	for (const [uri, textEdits] of edit.entries()) {
+		if (textEdits.length === 0) {
+			continue
+		}
+
+		const document = await vscode.workspace.openTextDocument(uri)
+		const originalContent = document.getText()
+		let newContent = originalContent
+
+		// Applied from the end so the offsets of the remaining edits stay valid.
+		const sorted = [...textEdits].sort(
+			(a, b) => document.offsetAt(b.range.start) - document.offsetAt(a.range.start),
+		)
+
+		for (const { range, newText } of sorted) {
+			newContent =
+				newContent.slice(0, document.offsetAt(range.start)) +
+				newText +
+				newContent.slice(document.offsetAt(range.end))
+		}
+
+		documents.push({ uri, originalContent, newContent, changeCount: textEdits.length, isDirty: document.isDirty })
+	}
+
+	return documents
+}
+
+/**
+ * Copies the text edits of a workspace edit. The API doesn't list the file
+ * operations of an edit (creating, renaming or deleting files, e.g. the file
+ * of a renamed class), so they can't be reviewed and are left out of the copy.
+ */
+export function getTextEdit(edit: vscode.WorkspaceEdit): vscode.WorkspaceEdit {
+	const textEdit = new vscode.WorkspaceEdit()
+
+	for (const [uri, textEdits] of edit.entries()) {
+		textEdit.set(uri, textEdits)
+	}
+
+	return textEdit
+}
@@ -7,6 +7,8 @@ import type {
 	RooTerminalCallbacks,
 	RooTerminalProcess,
 	RooTerminalProcessResultPromise,
+	RooTerminalSession,
+	RooTerminalRunOptions,
 	ExitCodeDetails,
 } from "./types"
 
@@ -38,7 +40,17 @@ export abstract class BaseTerminal implements RooTerminal {
 
 	abstract isClosed(): boolean
 
-	abstract runCommand(command: string, callbacks: RooTerminalCallbacks): RooTerminalProcessResultPromise
+	abstract runCommand(
+		command: string,
+		callbacks: RooTerminalCallbacks,
+		options?: RooTerminalRunOptions,
+	): RooTerminalProcessResultPromise
+
+	/**
+	 * Starts a long-lived process that is driven through its stdin. The
+	 * terminal stays busy until the session exits.
+	 */
+	abstract startSession(name: string, command: string, options?: RooTerminalRunOptions): Promise<RooTerminalSession>
 
 	/**
 	 * Sets the active stream for this terminal and notifies the process
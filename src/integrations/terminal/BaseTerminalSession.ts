@@ -0,0 +1,104 @@
+import stripAnsi from "strip-ansi"
+import pWaitFor from "p-wait-for"
+
+import type { RooTerminal, RooTerminalSession, TerminalSessionKey, TerminalSessionOutput } from "./types"
+
+// Bytes sent for each control key by a terminal.
+export const TERMINAL_SESSION_KEY_SEQUENCES: Record<TerminalSessionKey, string> = {
+	"ctrl+c": "\x03",
+	"ctrl+d": "\x04",
+	"ctrl+z": "\x1a",
+	"ctrl+\\": "\x1c",
+	escape: "\x1b",
+	tab: "\t",
+	enter: "\r",
+	up: "\x1b[A",
+	down: "\x1b[B",
+	right: "\x1b[C",
+	left: "\x1b[D",
+}
+
+export abstract class BaseTerminalSession implements RooTerminalSession {
+	// Sessions can run for a long time, so only the most recent output is kept.
+	public static maxBufferedOutput = 1_000_000
+
+	public readonly startedAt = Date.now()
+	public taskId?: string
+	public exitCode?: number
+
+	protected running = true
+	private output = ""
+	// Number of characters dropped from the start of the buffer; cursors are
+	// offsets into the full output, so they stay valid when the buffer is trimmed.
+	private droppedOutput = 0
+	private lastReadCursor = 0
+	private lastActivity = Date.now()
+
+	constructor(
+		public readonly name: string,
+		public readonly command: string,
+		public readonly terminal: RooTerminal,
+	) {}
+
+	abstract sendLine(line: string): void
+
+	abstract sendKey(key: TerminalSessionKey): void
+
+	abstract kill(): void
+
+	public isRunning(): boolean {
+		return this.running
+	}
+
+	/**
+	 * Returns the output since the cursor, or since the previous read if no
+	 * cursor is given.
+	 */
+	public read(cursor = this.lastReadCursor): TerminalSessionOutput {
+		const end = this.droppedOutput + this.output.length
+		const start = Math.min(Math.max(cursor, this.droppedOutput), end)
+
+		this.lastReadCursor = end
+
+		return {
+			output: this.output.slice(start - this.droppedOutput),
+			cursor: end,
+			truncated: cursor < this.droppedOutput,
+		}
+	}
+
+	/**
+	 * Waits until the process exits or stops printing for `idleMs`, e.g. after
+	 * input was sent, but no longer than `timeoutMs`.
+	 */
+	public async waitForOutput({ idleMs = 1_000, timeoutMs = 10_000 } = {}): Promise<void> {
+		this.lastActivity = Date.now()
+
+		await pWaitFor(() => !this.running || Date.now() - this.lastActivity >= idleMs, {
+			interval: 100,
+			timeout: timeoutMs,
+		}).catch(() => {})
+	}
+
+	protected appendOutput(data: string) {
+		this.output += stripAnsi(data)
+		this.lastActivity = Date.now()
+
+		const excess = this.output.length - BaseTerminalSession.maxBufferedOutput
+
+		if (excess > 0) {
+			this.output = this.output.slice(excess)
+			this.droppedOutput += excess
+		}
+	}
+
+	protected exited(exitCode: number | undefined) {
+		if (!this.running) {
+			return
+		}
+
+		this.running = false
+		this.exitCode = exitCode
+		this.terminal.busy = false
+	}
+}
@@ -1,6 +1,7 @@
-import type { RooTerminalCallbacks, RooTerminalProcessResultPromise } from "./types"
+import type { RooTerminalCallbacks, RooTerminalProcessResultPromise, RooTerminalRunOptions } from "./types"
 import { BaseTerminal } from "./BaseTerminal"
 import { ExecaTerminalProcess } from "./ExecaTerminalProcess"
+import { ExecaTerminalSession } from "./ExecaTerminalSession"
 import { mergePromise } from "./mergePromise"
 
 export class ExecaTerminal extends BaseTerminal {
@@ -15,10 +16,14 @@ export class ExecaTerminal extends BaseTerminal {
 		return false
 	}
 
-	public override runCommand(command: string, callbacks: RooTerminalCallbacks): RooTerminalProcessResultPromise {
+	public override runCommand(
+		command: string,
+		callbacks: RooTerminalCallbacks,
+		options: RooTerminalRunOptions = {},
+	): RooTerminalProcessResultPromise {
 		this.busy = true
 
-		const process = new ExecaTerminalProcess(this)
+		const process = new ExecaTerminalProcess(this, options)
 		process.command = command
 		this.process = process
 
@@ -35,4 +40,14 @@ export class ExecaTerminal extends BaseTerminal {
 
 		return mergePromise(process, promise)
 	}
+
+	public override async startSession(
+		name: string,
+		command: string,
+		options: RooTerminalRunOptions = {},
+	): Promise<ExecaTerminalSession> {
+		const session = new ExecaTerminalSession(name, command, this, options)
+		session.start()
+		return session
+	}
 }
@@ -2,8 +2,15 @@ import { execa, ExecaError } from "execa"
 import psTree from "ps-tree"
 import process from "process"
 
-import type { RooTerminal } from "./types"
+import type { ExitCodeDetails, RooTerminal, RooTerminalRunOptions } from "./types"
 import { BaseTerminalProcess } from "./BaseTerminalProcess"
+import {
+	SandboxInvocation,
+	SandboxUnavailableError,
+	buildSandboxInvocation,
+	getExceededSandboxLimit,
+	removeSandboxContainer,
+} from "./sandbox"
 
 export class ExecaTerminalProcess extends BaseTerminalProcess {
 	private terminalRef: WeakRef<RooTerminal>
@@ -11,8 +18,12 @@ export class ExecaTerminalProcess extends BaseTerminalProcess {
 	private pid?: number
 	private subprocess?: ReturnType<typeof execa>
 	private pidUpdatePromise?: Promise<void>
+	private sandboxInvocation?: SandboxInvocation
 
-	constructor(terminal: RooTerminal) {
+	constructor(
+		terminal: RooTerminal,
+		private readonly options: RooTerminalRunOptions = {},
+	) {
 		super()
 
 		this.terminalRef = new WeakRef(terminal)
@@ -38,17 +49,26 @@ export class ExecaTerminalProcess extends BaseTerminalProcess {
 		try {
 			this.isHot = true
 
-			this.subprocess = execa({
-				shell: true,
-				cwd: this.terminal.getCurrentWorkingDirectory(),
-				all: true,
-				env: {
-					...process.env,
-					// Ensure UTF-8 encoding for Ruby, CocoaPods, etc.
-					LANG: "en_US.UTF-8",
-					LC_ALL: "en_US.UTF-8",
-				},
-			})`${command}`
+			const cwd = this.terminal.getCurrentWorkingDirectory()
+			const env = {
+				...process.env,
+				// Ensure UTF-8 encoding for Ruby, CocoaPods, etc.
+				LANG: "en_US.UTF-8",
+				LC_ALL: "en_US.UTF-8",
+			}
+
+			if (this.options.sandbox) {
+				this.sandboxInvocation = buildSandboxInvocation(
+					command,
+					{ cwd, workspace: this.options.workspace ?? cwd },
+					this.options.sandbox,
+					env,
+				)
+				const { file, args, timeoutMs } = this.sandboxInvocation
+				this.subprocess = execa(file, args, { cwd, all: true, env, timeout: timeoutMs })
+			} else {
+				this.subprocess = execa({ shell: true, cwd, all: true, env })`${command}`
+			}
 
 			this.pid = this.subprocess.pid
 
@@ -127,11 +147,27 @@ export class ExecaTerminalProcess extends BaseTerminalProcess {
 				}
 			}
 
+			await this.removeSandboxContainer()
 			this.emit("shell_execution_complete", { exitCode: 0 })
 		} catch (error) {
 			if (error instanceof ExecaError) {
 				console.error(`[ExecaTerminalProcess#run] shell execution error: ${error.message}`)
-				this.emit("shell_execution_complete", { exitCode: error.exitCode ?? 0, signalName: error.signal })
+				const details: ExitCodeDetails = { exitCode: error.exitCode ?? 0, signalName: error.signal }
+				const oomKilled = await this.removeSandboxContainer()
+
+				if (this.options.sandbox && !this.aborted) {
+					details.limitExceeded = getExceededSandboxLimit(this.options.sandbox, {
+						timedOut: error.timedOut,
+						signalName: error.signal,
+						exitCode: error.exitCode,
+						oomKilled,
+					})
+				}
+
+				this.emit("shell_execution_complete", details)
+			} else if (error instanceof SandboxUnavailableError) {
+				this.fullOutput += `${error.message}\n`
+				this.emit("shell_execution_complete", { exitCode: 1 })
 			} else {
 				console.error(
 					`[ExecaTerminalProcess#run] shell execution error: ${error instanceof Error ? error.message : String(error)}`,
@@ -150,6 +186,11 @@ export class ExecaTerminalProcess extends BaseTerminalProcess {
 		this.subprocess = undefined
 	}
 
+	// Containers of sandboxed commands are kept until they exited; see `removeSandboxContainer`.
+	private async removeSandboxContainer(): Promise<boolean> {
+		return this.sandboxInvocation ? removeSandboxContainer(this.sandboxInvocation) : false
+	}
+
 	public override continue() {
 		this.isListening = false
 		this.removeAllListeners("line")
@@ -159,6 +200,11 @@ export class ExecaTerminalProcess extends BaseTerminalProcess {
 	public override abort() {
 		this.aborted = true
 
+		// Killing the client of a container runtime leaves the container running.
+		if (this.sandboxInvocation?.containerName) {
+			execa(this.sandboxInvocation.file, ["kill", this.sandboxInvocation.containerName], { reject: false })
+		}
+
 		// Function to perform the kill operations
 		const performKill = () => {
 			// Try to kill using the subprocess object
@@ -0,0 +1,154 @@
+import { execa } from "execa"
+import psTree from "ps-tree"
+import process from "process"
+
+import type { RooTerminal, RooTerminalRunOptions, TerminalSessionKey } from "./types"
+import { BaseTerminalSession, TERMINAL_SESSION_KEY_SEQUENCES } from "./BaseTerminalSession"
+import { SandboxInvocation, buildSandboxInvocation, removeSandboxContainer } from "./sandbox"
+
+/**
+ * Runs a session as a child process with piped stdio. There is no
+ * pseudo-terminal, so signals stand in for the control keys and programs may
+ * need a flag to stay interactive (e.g. `python -i`).
+ */
+export class ExecaTerminalSession extends BaseTerminalSession {
+	private subprocess?: ReturnType<typeof execa>
+	private sandboxInvocation?: SandboxInvocation
+
+	constructor(
+		name: string,
+		command: string,
+		terminal: RooTerminal,
+		private readonly options: RooTerminalRunOptions = {},
+	) {
+		super(name, command, terminal)
+	}
+
+	/**
+	 * @throws SandboxUnavailableError if the sandbox profile cannot be used
+	 */
+	public start() {
+		const cwd = this.terminal.getCurrentWorkingDirectory()
+		const env = {
+			...process.env,
+			// Ensure UTF-8 encoding for Ruby, CocoaPods, etc.
+			LANG: "en_US.UTF-8",
+			LC_ALL: "en_US.UTF-8",
+		}
+		const options = { cwd, all: true, buffer: false, reject: false, env } as const
+
+		if (this.options.sandbox) {
+			this.sandboxInvocation = buildSandboxInvocation(
+				this.command,
+				{ cwd, workspace: this.options.workspace ?? cwd },
+				this.options.sandbox,
+				env,
+			)
+			const { file, args, timeoutMs } = this.sandboxInvocation
+			this.subprocess = execa(file, args, { ...options, timeout: timeoutMs })
+		} else {
+			this.subprocess = execa({ ...options, shell: true })`${this.command}`
+		}
+
+		this.terminal.busy = true
+
+		this.subprocess.all?.on("data", (chunk: Buffer | string) => this.appendOutput(chunk.toString()))
+		this.subprocess.stdin?.on("error", (error) =>
+			console.warn(`[ExecaTerminalSession] stdin error: ${error.message}`),
+		)
+
+		this.subprocess.then(
+			(result) => this.exited(result.exitCode),
+			() => this.exited(undefined),
+		)
+
+		// Containers of sandboxed sessions are kept until they exited; see `removeSandboxContainer`.
+		const invocation = this.sandboxInvocation
+
+		if (invocation?.containerName) {
+			const remove = () => void removeSandboxContainer(invocation)
+			this.subprocess.then(remove, remove)
+		}
+	}
+
+	public override sendLine(line: string) {
+		this.write(`${line}\n`)
+	}
+
+	public override sendKey(key: TerminalSessionKey) {
+		switch (key) {
+			case "ctrl+c":
+				this.signal("SIGINT")
+				break
+			case "ctrl+\\":
+				this.signal("SIGQUIT")
+				break
+			case "ctrl+d":
+				this.assertRunning()
+				this.subprocess?.stdin?.end()
+				break
+			case "ctrl+z":
+				throw new Error("ctrl+z is not supported because the session does not run in a terminal")
+			case "enter":
+				this.write("\n")
+				break
+			default:
+				this.write(TERMINAL_SESSION_KEY_SEQUENCES[key])
+		}
+	}
+
+	public override kill() {
+		if (!this.running) {
+			return
+		}
+
+		// Killing the client of a container runtime leaves the container running.
+		if (this.sandboxInvocation?.containerName) {
+			execa(this.sandboxInvocation.file, ["kill", this.sandboxInvocation.containerName], { reject: false })
+		}
+
+		this.signal("SIGKILL")
+	}
+
+	private write(data: string) {
+		this.assertRunning()
+
+		if (!this.subprocess?.stdin?.writable) {
+			throw new Error(`The input of session "${this.name}" was closed`)
+		}
+
+		this.subprocess.stdin.write(data)
+	}
+
+	private assertRunning() {
+		if (!this.running) {
+			throw new Error(`Session "${this.name}" has exited`)
+		}
+	}
+
+	/**
+	 * Signals the shell and the processes it started, since the shell does not
+	 * forward signals to its children.
+	 */
+	private signal(signal: NodeJS.Signals) {
+		this.assertRunning()
+
+		const pid = this.subprocess?.pid
+
+		if (!pid) {
+			return
+		}
+
+		psTree(pid, (err, children) => {
+			const pids = err ? [] : children.map((child) => parseInt(child.PID))
+
+			for (const target of [...pids, pid]) {
+				try {
+					process.kill(target, signal)
+				} catch (e) {
+					// The process may have exited in the meantime.
+				}
+			}
+		})
+	}
+}
@@ -4,6 +4,7 @@ import pWaitFor from "p-wait-for"
 import type { RooTerminalCallbacks, RooTerminalProcessResultPromise } from "./types"
 import { BaseTerminal } from "./BaseTerminal"
 import { TerminalProcess } from "./TerminalProcess"
+import { TerminalSession } from "./TerminalSession"
 import { ShellIntegrationManager } from "./ShellIntegrationManager"
 import { mergePromise } from "./mergePromise"
 
@@ -94,6 +95,12 @@ export class Terminal extends BaseTerminal {
 		return mergePromise(process, promise)
 	}
 
+	public override async startSession(name: string, command: string): Promise<TerminalSession> {
+		const session = new TerminalSession(name, command, this)
+		await session.start()
+		return session
+	}
+
 	/**
 	 * Gets the terminal contents based on the number of commands to include
 	 * @param commands Number of previous commands to include (-1 for all)
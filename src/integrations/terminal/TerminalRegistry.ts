@@ -1,8 +1,10 @@
 import * as vscode from "vscode"
 
+import type { SandboxProfile } from "@roo-code/types"
+
 import { arePathsEqual } from "../../utils/path"
 
-import { RooTerminal, RooTerminalProvider } from "./types"
+import { RooTerminal, RooTerminalProvider, RooTerminalSession } from "./types"
 import { TerminalProcess } from "./TerminalProcess"
 import { Terminal } from "./Terminal"
 import { ExecaTerminal } from "./ExecaTerminal"
@@ -19,6 +21,7 @@ import { ShellIntegrationManager } from "./ShellIntegrationManager"
 
 export class TerminalRegistry {
 	private static terminals: RooTerminal[] = []
+	private static sessions: RooTerminalSession[] = []
 	private static nextTerminalId = 1
 	private static disposables: vscode.Disposable[] = []
 	private static isInitialized = false
@@ -57,6 +60,11 @@ export class TerminalRegistry {
 						terminalId: terminal?.id,
 					})
 
+					// Sessions read the output of their own shell execution.
+					if (terminal && this.isSessionTerminal(terminal)) {
+						return
+					}
+
 					if (terminal) {
 						terminal.setActiveStream(stream)
 						terminal.busy = true // Mark terminal as busy when shell execution starts
@@ -85,6 +93,10 @@ export class TerminalRegistry {
 						...exitDetails,
 					})
 
+					if (terminal && this.isSessionTerminal(terminal)) {
+						return
+					}
+
 					if (!terminal) {
 						console.error(
 							"[onDidEndTerminalShellExecution] Shell execution ended, but not from a Roo-registered terminal:",
@@ -269,6 +281,73 @@ export class TerminalRegistry {
 		})
 	}
 
+	/**
+	 * Starts a named session in a new terminal. Session names are unique per
+	 * task; an exited session is replaced by a new one with the same name.
+	 *
+	 * @throws Error if a session with the same name is still running
+	 */
+	public static async startSession({
+		name,
+		command,
+		cwd,
+		taskId,
+		provider = "vscode",
+		sandbox,
+		workspace,
+	}: {
+		name: string
+		command: string
+		cwd: string
+		taskId?: string
+		provider?: RooTerminalProvider
+		sandbox?: SandboxProfile
+		workspace?: string
+	}): Promise<RooTerminalSession> {
+		const existing = this.getSession(name, taskId)
+
+		if (existing?.isRunning()) {
+			throw new Error(`A session named "${name}" is already running`)
+		}
+
+		this.sessions = this.sessions.filter((session) => session !== existing)
+
+		const terminal = this.createTerminal(cwd, provider)
+		terminal.taskId = taskId
+
+		const session = await terminal.startSession(name, command, { sandbox, workspace })
+		session.taskId = taskId
+		this.sessions.push(session)
+
+		return session
+	}
+
+	public static getSession(name: string, taskId?: string): RooTerminalSession | undefined {
+		return this.sessions.find((session) => session.name === name && session.taskId === taskId)
+	}
+
+	public static getSessions(taskId?: string): RooTerminalSession[] {
+		return this.sessions.filter((session) => session.taskId === taskId)
+	}
+
+	/**
+	 * Kills and forgets the sessions of a task, since they can no longer be
+	 * reached once the task is gone.
+	 *
+	 * @param taskId The task ID
+	 */
+	public static killSessionsForTask(taskId: string): void {
+		for (const session of this.getSessions(taskId)) {
+			try {
+				session.kill()
+			} catch (error) {
+				console.error(`[TerminalRegistry] failed to kill session "${session.name}":`, error)
+			}
+		}
+
+		this.sessions = this.sessions.filter((session) => session.taskId !== taskId)
+	}
+
 	public static cleanup() {
 		// Clean up all temporary directories.
 		ShellIntegrationManager.clear()
@@ -289,6 +368,10 @@ export class TerminalRegistry {
 		})
 	}
 
+	private static isSessionTerminal(terminal: RooTerminal): boolean {
+		return this.sessions.some((session) => session.terminal === terminal && session.isRunning())
+	}
+
 	private static getAllTerminals(): RooTerminal[] {
 		this.terminals = this.terminals.filter((t) => !t.isClosed())
 		return this.terminals
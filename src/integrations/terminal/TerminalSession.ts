@@ -0,0 +1,85 @@
+import * as vscode from "vscode"
+import pWaitFor from "p-wait-for"
+
+import type { TerminalSessionKey } from "./types"
+import { BaseTerminalSession, TERMINAL_SESSION_KEY_SEQUENCES } from "./BaseTerminalSession"
+import { Terminal } from "./Terminal"
+
+/**
+ * Runs a session in a dedicated VSCode terminal. Input is typed into the
+ * terminal and the output is read from the shell integration stream of the
+ * session's command.
+ */
+export class TerminalSession extends BaseTerminalSession {
+	private endListener?: vscode.Disposable
+
+	constructor(
+		name: string,
+		command: string,
+		public override readonly terminal: Terminal,
+	) {
+		super(name, command, terminal)
+	}
+
+	public async start() {
+		this.terminal.busy = true
+
+		try {
+			await pWaitFor(() => this.terminal.terminal.shellIntegration !== undefined, {
+				timeout: Terminal.getShellIntegrationTimeout(),
+			})
+		} catch {
+			this.exited(undefined)
+			throw new Error(
+				`Shell integration is not available for the terminal of session "${this.name}". Disable shell integration in the terminal settings to run sessions without it.`,
+			)
+		}
+
+		this.terminal.terminal.show(true)
+
+		const execution = this.terminal.terminal.shellIntegration!.executeCommand(this.command)
+
+		this.endListener = vscode.window.onDidEndTerminalShellExecution?.((e) => {
+			if (e.execution === execution) {
+				this.exited(e.exitCode)
+			}
+		})
+
+		void (async () => {
+			try {
+				for await (const data of execution.read()) {
+					this.appendOutput(data)
+				}
+			} catch (error) {
+				console.error(`[TerminalSession] failed to read output of session "${this.name}":`, error)
+			}
+		})()
+	}
+
+	public override sendLine(line: string) {
+		this.assertRunning()
+		this.terminal.terminal.sendText(line, true)
+	}
+
+	public override sendKey(key: TerminalSessionKey) {
+		this.assertRunning()
+		this.terminal.terminal.sendText(TERMINAL_SESSION_KEY_SEQUENCES[key], false)
+	}
+
+	public override kill() {
+		this.terminal.terminal.dispose()
+		this.exited(undefined)
+	}
+
+	protected override exited(exitCode: number | undefined) {
+		super.exited(exitCode)
+		this.endListener?.dispose()
+		this.endListener = undefined
+	}
+
+	private assertRunning() {
+		if (!this.isRunning()) {
+			throw new Error(`Session "${this.name}" has exited`)
+		}
+	}
+}
@@ -0,0 +1,78 @@
+// npx vitest run src/integrations/terminal/__tests__/ExecaTerminalSession.spec.ts
+
+import { ExecaTerminal } from "../ExecaTerminal"
+import { TerminalRegistry } from "../TerminalRegistry"
+
+describe("ExecaTerminalSession", () => {
+	// TODO: Run the equivalent tests for Windows.
+	const itOnPosix = process.platform === "win32" ? it.skip : it
+
+	itOnPosix("sends input lines and reads the output incrementally", async () => {
+		const terminal = new ExecaTerminal(1, "/tmp")
+		const session = await terminal.startSession("cat", "cat")
+
+		expect(terminal.busy).toBe(true)
+
+		session.sendLine("hello")
+		await session.waitForOutput({ idleMs: 200 })
+
+		const first = session.read()
+		expect(first.output).toBe("hello\n")
+
+		session.sendLine("world")
+		await session.waitForOutput({ idleMs: 200 })
+
+		// Reads continue where the previous read ended, unless a cursor is given.
+		expect(session.read().output).toBe("world\n")
+		expect(session.read().output).toBe("")
+		expect(session.read(first.cursor).output).toBe("world\n")
+		expect(session.read(0).output).toBe("hello\nworld\n")
+
+		session.sendKey("ctrl+d")
+		await session.waitForOutput()
+
+		expect(session.isRunning()).toBe(false)
+		expect(session.exitCode).toBe(0)
+		expect(terminal.busy).toBe(false)
+		expect(() => session.sendLine("again")).toThrow('Session "cat" has exited')
+	})
+
+	itOnPosix("interrupts the program with ctrl+c", async () => {
+		const terminal = new ExecaTerminal(1, "/tmp")
+		const session = await terminal.startSession("sleep", "sleep 30")
+
+		session.sendKey("ctrl+c")
+		await session.waitForOutput({ timeoutMs: 5_000 })
+
+		expect(session.isRunning()).toBe(false)
+	})
+
+	itOnPosix("keeps session names unique per task", async () => {
+		const session = await TerminalRegistry.startSession({
+			name: "repl",
+			command: "cat",
+			cwd: "/tmp",
+			taskId: "task-1",
+			provider: "execa",
+		})
+
+		await expect(
+			TerminalRegistry.startSession({
+				name: "repl",
+				command: "cat",
+				cwd: "/tmp",
+				taskId: "task-1",
+				provider: "execa",
+			}),
+		).rejects.toThrow('A session named "repl" is already running')
+
+		expect(TerminalRegistry.getSession("repl", "task-1")).toBe(session)
+		expect(TerminalRegistry.getSession("repl", "task-2")).toBeUndefined()
+
+		TerminalRegistry.killSessionsForTask("task-1")
+		await session.waitForOutput({ timeoutMs: 5_000 })
+
+		expect(session.isRunning()).toBe(false)
+		expect(TerminalRegistry.getSessions("task-1")).toEqual([])
+	})
+})
@@ -0,0 +1,163 @@
+// npx vitest run integrations/terminal/__tests__/sandbox.spec.ts
+
+import fs from "fs"
+import * as path from "path"
+
+import { execa } from "execa"
+
+import {
+	buildSandboxInvocation,
+	filterSandboxEnv,
+	getExceededSandboxLimit,
+	removeSandboxContainer,
+	resolveSandboxRuntime,
+	SandboxUnavailableError,
+	validateSandboxProfile,
+} from "../sandbox"
+
+vi.mock("fs", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("fs")>()
+	return { ...actual, default: { ...actual, accessSync: vi.fn() } }
+})
+
+vi.mock("execa", () => ({ execa: vi.fn() }))
+
+vi.mock("os", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("os")>()
+	return { ...actual, default: { ...actual, platform: () => "linux", homedir: () => "/home/user" } }
+})
+
+const installRuntimes = (...executables: string[]) => {
+	vi.mocked(fs.accessSync).mockImplementation((file) => {
+		if (!executables.includes(path.basename(String(file)))) {
+			throw new Error("ENOENT")
+		}
+	})
+}
+
+describe("sandbox", () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+		installRuntimes("bwrap", "docker")
+	})
+
+	describe("resolveSandboxRuntime", () => {
+		it("prefers bubblewrap on Linux", () => {
+			expect(resolveSandboxRuntime("auto")).toBe("bubblewrap")
+		})
+
+		it("falls back to a container runtime", () => {
+			installRuntimes("podman")
+			expect(resolveSandboxRuntime()).toBe("podman")
+		})
+
+		it("throws when the requested backend is not installed", () => {
+			expect(() => resolveSandboxRuntime("podman")).toThrow(SandboxUnavailableError)
+		})
+	})
+
+	it("requires an image for container runtimes", () => {
+		expect(() => validateSandboxProfile({ backend: "docker" })).toThrow(/needs an `image`/)
+		expect(validateSandboxProfile({ backend: "docker", image: "node:22" })).toBe("docker")
+	})
+
+	it("filters the environment with the allowlist", () => {
+		const env = { PATH: "/usr/bin", HOME: "/home/user", NPM_TOKEN: "secret", GITHUB_TOKEN: "secret", CI: "1" }
+
+		expect(filterSandboxEnv(env, ["CI", "NPM_*"])).toEqual({
+			PATH: "/usr/bin",
+			HOME: "/home/user",
+			NPM_TOKEN: "secret",
+			CI: "1",
+		})
+	})
+
+	describe("buildSandboxInvocation", () => {
+		it("isolates the command with bubblewrap", () => {
+			const invocation = buildSandboxInvocation(
+				"npm test",
+				{ cwd: "/workspace/app", workspace: "/workspace" },
+				{
+					readOnlyPaths: ["~/.npmrc"],
+					writablePaths: ["../cache"],
+					limits: { cpuSeconds: 60, memoryMb: 512, timeoutSeconds: 120 },
+				},
+				{ PATH: "/usr/bin", SECRET: "secret" },
+			)
+
+			expect(invocation.file).toBe("bwrap")
+			expect(invocation.timeoutMs).toBe(120_000)
+			expect(invocation.containerName).toBeUndefined()
+			expect(invocation.args).toContain("--unshare-all")
+			expect(invocation.args).not.toContain("--share-net")
+			expect(invocation.args.join(" ")).toContain("--ro-bind-try /home/user/.npmrc /home/user/.npmrc")
+			expect(invocation.args.join(" ")).toContain("--bind /workspace /workspace")
+			expect(invocation.args.join(" ")).toContain("--bind-try /cache /cache")
+			expect(invocation.args.join(" ")).toContain("--chdir /workspace/app")
+			expect(invocation.args.join(" ")).toContain("--setenv PATH /usr/bin")
+			expect(invocation.args).not.toContain("SECRET")
+			expect(invocation.args.slice(-3)).toEqual(["/bin/sh", "-c", "ulimit -t 60 && ulimit -v 524288 && npm test"])
+		})
+
+		it("shares the network when the profile allows it", () => {
+			const { args } = buildSandboxInvocation(
+				"curl example.com",
+				{ cwd: "/workspace", workspace: "/workspace" },
+				{ network: true },
+				{},
+			)
+			expect(args).toContain("--share-net")
+		})
+
+		it("runs the command in a container", () => {
+			const invocation = buildSandboxInvocation(
+				"npm test",
+				{ cwd: "/workspace", workspace: "/workspace" },
+				{ backend: "docker", image: "node:22", limits: { memoryMb: 512 } },
+				{ LANG: "C.UTF-8", PATH: "/usr/bin" },
+			)
+
+			expect(invocation.file).toBe("docker")
+			expect(invocation.containerName).toMatch(/^roo-sandbox-/)
+			expect(invocation.args.join(" ")).toContain("--volume /workspace:/workspace")
+			expect(invocation.args.join(" ")).toContain("--network none")
+			expect(invocation.args.join(" ")).toContain("--memory 512m")
+			expect(invocation.args.join(" ")).toContain("--env LANG=C.UTF-8")
+			expect(invocation.args.join(" ")).not.toContain("PATH=")
+			expect(invocation.args).not.toContain("--rm")
+			expect(invocation.args.slice(-4)).toEqual(["node:22", "/bin/sh", "-c", "npm test"])
+		})
+
+		it("only runs commands inside the workspace", () => {
+			for (const cwd of ["/", "/workspace-other", "/workspace/../etc"]) {
+				expect(() => buildSandboxInvocation("touch x", { cwd, workspace: "/workspace" }, {}, {})).toThrow(
+					SandboxUnavailableError,
+				)
+			}
+		})
+	})
+
+	it("removes containers and reports whether they ran out of memory", async () => {
+		vi.mocked(execa).mockResolvedValue({ stdout: "true" } as never)
+
+		expect(await removeSandboxContainer({ file: "docker", args: [], containerName: "roo-sandbox-1" })).toBe(true)
+		expect(execa).toHaveBeenCalledWith("docker", ["rm", "--force", "roo-sandbox-1"], { reject: false })
+		expect(await removeSandboxContainer({ file: "bwrap", args: [] })).toBe(false)
+	})
+
+	describe("getExceededSandboxLimit", () => {
+		const profile = { limits: { cpuSeconds: 10, memoryMb: 256, timeoutSeconds: 60 } }
+
+		it("detects the exceeded limit", () => {
+			expect(getExceededSandboxLimit(profile, { timedOut: true })).toBe("time")
+			expect(getExceededSandboxLimit(profile, { signalName: "SIGXCPU" })).toBe("cpu")
+			expect(getExceededSandboxLimit(profile, { exitCode: 137, oomKilled: true })).toBe("memory")
+		})
+
+		it("ignores failures that are not caused by a limit", () => {
+			expect(getExceededSandboxLimit(profile, { exitCode: 1 })).toBeUndefined()
+			expect(getExceededSandboxLimit(profile, { exitCode: 137, signalName: "SIGKILL" })).toBeUndefined()
+			expect(getExceededSandboxLimit({}, { exitCode: 137, oomKilled: true })).toBeUndefined()
+		})
+	})
+})
@@ -0,0 +1,315 @@
+import fs from "fs"
+import os from "os"
+import * as path from "path"
+import { execa } from "execa"
+
+import type { SandboxBackend, SandboxLimit, SandboxProfile } from "@roo-code/types"
+
+export type SandboxRuntime = Exclude<SandboxBackend, "auto">
+
+export interface SandboxInvocation {
+	file: string
+	args: string[]
+	// Passed to execa as `timeout`.
+	timeoutMs?: number
+	// Set for the container runtimes, whose containers outlive a killed client.
+	containerName?: string
+}
+
+export class SandboxUnavailableError extends Error {}
+
+const RUNTIME_EXECUTABLES: Record<SandboxRuntime, string> = {
+	bubblewrap: "bwrap",
+	docker: "docker",
+	podman: "podman",
+}
+
+// Variables that commands need to work at all.
+const ALWAYS_PASSED_ENV = ["PATH", "HOME", "LANG", "LC_ALL", "TERM"]
+
+// Mounted read-only by bubblewrap so that the tools of the host can run.
+const SYSTEM_READ_ONLY_PATHS = ["/usr", "/bin", "/sbin", "/lib", "/lib32", "/lib64", "/etc", "/opt"]
+
+// Exit code of a shell whose child was killed by SIGXCPU (128 + 24).
+const SIGXCPU_EXIT_CODE = 152
+
+const isOnPath = (executable: string) =>
+	(process.env.PATH ?? "").split(path.delimiter).some((dir) => {
+		try {
+			fs.accessSync(path.join(dir, executable), fs.constants.X_OK)
+			return true
+		} catch {
+			return false
+		}
+	})
+
+/**
+ * Picks the runtime for a backend, checking that it is installed.
+ *
+ * @throws SandboxUnavailableError if no suitable runtime is installed
+ */
+export function resolveSandboxRuntime(backend: SandboxBackend = "auto"): SandboxRuntime {
+	if (backend !== "auto") {
+		if (!isOnPath(RUNTIME_EXECUTABLES[backend])) {
+			throw new SandboxUnavailableError(
+				`The sandbox backend "${backend}" is not available: \`${RUNTIME_EXECUTABLES[backend]}\` was not found on the PATH.`,
+			)
+		}
+
+		return backend
+	}
+
+	const candidates: SandboxRuntime[] =
+		os.platform() === "linux" ? ["bubblewrap", "docker", "podman"] : ["docker", "podman"]
+	const runtime = candidates.find((candidate) => isOnPath(RUNTIME_EXECUTABLES[candidate]))
+
+	if (!runtime) {
+		throw new SandboxUnavailableError(
+			`No sandbox backend is available. Install one of: ${candidates.map((candidate) => RUNTIME_EXECUTABLES[candidate]).join(", ")}.`,
+		)
+	}
+
+	return runtime
+}
+
+/**
+ * Checks that commands can run with the profile.
+ *
+ * @returns The runtime that runs the commands
+ * @throws SandboxUnavailableError if the profile cannot be used on this machine
+ */
+export function validateSandboxProfile(profile: SandboxProfile): SandboxRuntime {
+	const runtime = resolveSandboxRuntime(profile.backend)
+
+	if (runtime !== "bubblewrap" && !profile.image) {
+		throw new SandboxUnavailableError(`The sandbox backend "${runtime}" needs an \`image\` in the sandbox profile.`)
+	}
+
+	return runtime
+}
+
+function isAllowedEnv(name: string, allowlist: readonly string[]) {
+	return allowlist.some((entry) => (entry.endsWith("*") ? name.startsWith(entry.slice(0, -1)) : name === entry))
+}
+
+export function filterSandboxEnv(
+	env: NodeJS.ProcessEnv,
+	allowlist: readonly string[] = [],
+	alwaysPassed: readonly string[] = ALWAYS_PASSED_ENV,
+): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(env).filter(
+			(entry): entry is [string, string] =>
+				entry[1] !== undefined && isAllowedEnv(entry[0], [...alwaysPassed, ...allowlist]),
+		),
+	)
+}
+
+export interface SandboxDirectories {
+	// The working directory of the command, which must be inside the workspace.
+	cwd: string
+	// The directory the command can write to, i.e. the workspace of the task.
+	workspace: string
+}
+
+function resolvePaths(paths: readonly string[] = [], base: string) {
+	return paths.map((p) => path.resolve(base, p.startsWith("~") ? path.join(os.homedir(), p.slice(1)) : p))
+}
+
+/**
+ * Checks that a sandboxed command runs inside its workspace, since its
+ * sandbox would otherwise have to make the working directory writable.
+ *
+ * @throws SandboxUnavailableError if the working directory is outside the workspace
+ */
+export function assertInsideSandboxWorkspace({ cwd, workspace }: SandboxDirectories): void {
+	const relative = path.relative(path.resolve(workspace), path.resolve(cwd))
+
+	if (relative.startsWith("..") || path.isAbsolute(relative)) {
+		throw new SandboxUnavailableError(
+			`Sandboxed commands must run inside the workspace (${workspace}), not in ${cwd}.`,
+		)
+	}
+}
+
+/**
+ * Prefixes the command with `ulimit`s for the CPU time and the address space
+ * of its processes.
+ */
+function withResourceLimits(command: string, profile: SandboxProfile) {
+	const limits = [
+		profile.limits?.cpuSeconds ? `ulimit -t ${profile.limits.cpuSeconds}` : undefined,
+		profile.limits?.memoryMb ? `ulimit -v ${profile.limits.memoryMb * 1024}` : undefined,
+	].filter(Boolean)
+
+	return limits.length > 0 ? `${limits.join(" && ")} && ${command}` : command
+}
+
+function buildBubblewrapArgs(
+	command: string,
+	{ cwd, workspace }: SandboxDirectories,
+	profile: SandboxProfile,
+	env: NodeJS.ProcessEnv,
+) {
+	const args = ["--die-with-parent", "--new-session", "--unshare-all"]
+
+	if (profile.network) {
+		args.push("--share-net")
+	}
+
+	args.push("--proc", "/proc", "--dev", "/dev", "--tmpfs", "/tmp")
+
+	for (const p of [...SYSTEM_READ_ONLY_PATHS, ...resolvePaths(profile.readOnlyPaths, workspace)]) {
+		args.push("--ro-bind-try", p, p)
+	}
+
+	args.push("--bind", workspace, workspace)
+
+	for (const p of resolvePaths(profile.writablePaths, workspace)) {
+		args.push("--bind-try", p, p)
+	}
+
+	args.push("--chdir", cwd, "--clearenv")
+
+	for (const [name, value] of Object.entries(filterSandboxEnv(env, profile.envAllowlist))) {
+		args.push("--setenv", name, value)
+	}
+
+	return [...args, "/bin/sh", "-c", withResourceLimits(command, profile)]
+}
+
+// Containers are not started with `--rm` so that whether the runtime killed
+// them for running out of memory can still be checked once they exited; see
+// `removeSandboxContainer`.
+function buildContainerArgs(
+	command: string,
+	{ cwd, workspace }: SandboxDirectories,
+	profile: SandboxProfile,
+	env: NodeJS.ProcessEnv,
+	containerName: string,
+) {
+	const args = [
+		"run",
+		"-i",
+		"--init",
+		"--name",
+		containerName,
+		"--workdir",
+		cwd,
+		"--volume",
+		`${workspace}:${workspace}`,
+	]
+
+	for (const p of resolvePaths(profile.readOnlyPaths, workspace)) {
+		args.push("--volume", `${p}:${p}:ro`)
+	}
+
+	for (const p of resolvePaths(profile.writablePaths, workspace)) {
+		args.push("--volume", `${p}:${p}`)
+	}
+
+	if (!profile.network) {
+		args.push("--network", "none")
+	}
+
+	if (profile.limits?.memoryMb) {
+		args.push("--memory", `${profile.limits.memoryMb}m`, "--memory-swap", `${profile.limits.memoryMb}m`)
+	}
+
+	if (profile.limits?.cpuSeconds) {
+		args.push("--ulimit", `cpu=${profile.limits.cpuSeconds}:${profile.limits.cpuSeconds}`)
+	}
+
+	// The image provides its own PATH and HOME.
+	for (const [name, value] of Object.entries(
+		filterSandboxEnv(env, profile.envAllowlist, ["LANG", "LC_ALL", "TERM"]),
+	)) {
+		args.push("--env", `${name}=${value}`)
+	}
+
+	return [...args, profile.image!, "/bin/sh", "-c", command]
+}
+
+/**
+ * Builds the process to spawn to run a shell command inside the sandbox of a
+ * profile. Only the workspace (and the writable paths of the profile) can be
+ * written to, so the working directory must be inside the workspace.
+ *
+ * @throws SandboxUnavailableError if the profile cannot be used on this machine
+ * or the working directory is outside the workspace
+ */
+export function buildSandboxInvocation(
+	command: string,
+	directories: SandboxDirectories,
+	profile: SandboxProfile,
+	env: NodeJS.ProcessEnv = process.env,
+): SandboxInvocation {
+	const runtime = validateSandboxProfile(profile)
+	assertInsideSandboxWorkspace(directories)
+	const timeoutMs = profile.limits?.timeoutSeconds ? profile.limits.timeoutSeconds * 1000 : undefined
+
+	if (runtime === "bubblewrap") {
+		return {
+			file: RUNTIME_EXECUTABLES.bubblewrap,
+			args: buildBubblewrapArgs(command, directories, profile, env),
+			timeoutMs,
+		}
+	}
+
+	const containerName = `roo-sandbox-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+	return {
+		file: RUNTIME_EXECUTABLES[runtime],
+		args: buildContainerArgs(command, directories, profile, env, containerName),
+		timeoutMs,
+		containerName,
+	}
+}
+
+/**
+ * Removes the container of a sandboxed command once it exited.
+ *
+ * @returns Whether the runtime killed the container for exceeding its memory limit
+ */
+export async function removeSandboxContainer({ file, containerName }: SandboxInvocation): Promise<boolean> {
+	if (!containerName) {
+		return false
+	}
+
+	const inspection = await execa(file, ["inspect", "--format", "{{.State.OOMKilled}}", containerName], {
+		reject: false,
+	})
+	await execa(file, ["rm", "--force", containerName], { reject: false })
+
+	return String(inspection.stdout).trim() === "true"
+}
+
+/**
+ * Works out which limit of the profile stopped a sandboxed command, if any.
+ * The CPU limit sends SIGXCPU, while the memory limit is only reported for
+ * containers that their runtime killed for running out of memory; a SIGKILL
+ * alone may as well come from the user or another process.
+ */
+export function getExceededSandboxLimit(
+	profile: SandboxProfile,
+	{
+		timedOut,
+		signalName,
+		exitCode,
+		oomKilled,
+	}: { timedOut?: boolean; signalName?: string; exitCode?: number; oomKilled?: boolean },
+): SandboxLimit | undefined {
+	if (timedOut) {
+		return "time"
+	}
+
+	if (profile.limits?.cpuSeconds && (signalName === "SIGXCPU" || exitCode === SIGXCPU_EXIT_CODE)) {
+		return "cpu"
+	}
+
+	if (profile.limits?.memoryMb && oomKilled) {
+		return "memory"
+	}
+
+	return undefined
+}
@@ -1,5 +1,7 @@
 import EventEmitter from "events"
 
+import type { SandboxLimit, SandboxProfile } from "@roo-code/types"
+
 export type RooTerminalProvider = "vscode" | "execa"
 
 export interface RooTerminal {
@@ -11,13 +13,28 @@ export interface RooTerminal {
 	process?: RooTerminalProcess
 	getCurrentWorkingDirectory(): string
 	isClosed: () => boolean
-	runCommand: (command: string, callbacks: RooTerminalCallbacks) => RooTerminalProcessResultPromise
+	runCommand: (
+		command: string,
+		callbacks: RooTerminalCallbacks,
+		options?: RooTerminalRunOptions,
+	) => RooTerminalProcessResultPromise
 	setActiveStream(stream: AsyncIterable<string> | undefined, pid?: number): void
 	shellExecutionComplete(exitDetails: ExitCodeDetails): void
 	getProcessesWithOutput(): RooTerminalProcess[]
 	getUnretrievedOutput(): string
 	getLastCommand(): string
 	cleanCompletedProcessQueue(): void
+	startSession(name: string, command: string, options?: RooTerminalRunOptions): Promise<RooTerminalSession>
+}
+
+export interface RooTerminalRunOptions {
+	// Only the execa provider can run commands in a sandbox; callers must not
+	// pass a profile to a VSCode terminal.
+	sandbox?: SandboxProfile
+	// The only directory that sandboxed commands can write to besides the
+	// writable paths of the profile; the working directory must be inside it.
+	// Defaults to the working directory.
+	workspace?: string
 }
 
 export interface RooTerminalCallbacks {
@@ -56,4 +73,49 @@ export interface ExitCodeDetails {
 	signal?: number | undefined
 	signalName?: string
 	coreDumpPossible?: boolean
+	// Set when a limit of the sandbox profile stopped the process.
+	limitExceeded?: SandboxLimit
+}
+
+/**
+ * A long-lived process that is driven through its stdin, e.g. a REPL, `psql`
+ * or an interactive `git rebase`.
+ */
+export interface RooTerminalSession {
+	name: string
+	command: string
+	terminal: RooTerminal
+	taskId?: string
+	startedAt: number
+	isRunning: () => boolean
+	exitCode?: number
+	sendLine: (line: string) => void
+	sendKey: (key: TerminalSessionKey) => void
+	read: (cursor?: number) => TerminalSessionOutput
+	waitForOutput: (options?: { idleMs?: number; timeoutMs?: number }) => Promise<void>
+	kill: () => void
+}
+
+export const terminalSessionKeys = [
+	"ctrl+c",
+	"ctrl+d",
+	"ctrl+z",
+	"ctrl+\\",
+	"escape",
+	"tab",
+	"enter",
+	"up",
+	"down",
+	"left",
+	"right",
+] as const
+
+export type TerminalSessionKey = (typeof terminalSessionKeys)[number]
+
+export interface TerminalSessionOutput {
+	output: string
+	// Pass to the next read to only get the output that follows.
+	cursor: number
+	// Set when output before the requested cursor was dropped from the buffer.
+	truncated: boolean
 }
@@ -0,0 +1,462 @@
+import type { ConsoleMessage, HTTPRequest, Page } from "puppeteer-core"
+
+// Each page keeps a rolling log so that long sessions don't grow without bound.
+export const MAX_ENTRIES_PER_PAGE = 500
+
+// Only the bodies of XHR/fetch responses are captured, and only up to this size.
+const MAX_CAPTURED_BODY_LENGTH = 10_000
+
+// Caps the body excerpts included in the network log returned to the model.
+const MAX_FORMATTED_BODY_LENGTH = 500
+
+const TEXT_MIME_TYPE = /^(text\/|application\/([\w.+-]*\+)?(json|xml|javascript|x-www-form-urlencoded))/i
+
+// Credentials are redacted when requests are recorded, so that they reach
+// neither the model nor exported HAR files.
+export const REDACTED = "[REDACTED]"
+
+const SENSITIVE_HEADER =
+	/^(authorization|proxy-authorization|cookie|set-cookie)$|api[-_]?key|token|secret|session|auth/i
+
+const SENSITIVE_FIELD =
+	/pass(word|wd|phrase)?$|^pwd$|secret|token|api[-_]?key|^(auth|authorization)$|credentials?$|session[-_]?id|^(otp|pin)$/i
+
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(headers).map(([name, value]) => [name, SENSITIVE_HEADER.test(name) ? REDACTED : value]),
+	)
+}
+
+function redactFormBody(body: string): string {
+	return body
+		.split("&")
+		.map((pair) => {
+			const [name] = pair.split("=", 1)
+			let decoded = name
+
+			try {
+				decoded = decodeURIComponent(name.replace(/\+/g, " "))
+			} catch {
+				// Keep the raw name of malformed pairs.
+			}
+
+			return pair.includes("=") && SENSITIVE_FIELD.test(decoded) ? `${name}=${REDACTED}` : pair
+		})
+		.join("&")
+}
+
+// Redacts the query string and fragment parameters of a URL, e.g. `?access_token=`.
+function redactUrl(url: string): string {
+	return url.replace(/([?#])([^#]*)/g, (match, separator: string, params: string) =>
+		params.includes("=") ? `${separator}${redactFormBody(params)}` : match,
+	)
+}
+
+// Works on the text rather than a parsed object since captured bodies may be truncated.
+function redactJsonBody(body: string): string {
+	return body.replace(
+		/"((?:[^"\\]|\\.)*)"(\s*:\s*)("(?:[^"\\]|\\.)*"?|-?\d[\d.eE+-]*)/g,
+		(match, name: string, separator: string) =>
+			SENSITIVE_FIELD.test(name) ? `"${name}"${separator}"${REDACTED}"` : match,
+	)
+}
+
+/**
+ * Redacts the values of fields that look like credentials, e.g. the password
+ * of a login form or the token of an authentication response, in form and
+ * JSON bodies.
+ */
+export function redactBody(body: string, mimeType = ""): string {
+	if (/x-www-form-urlencoded/i.test(mimeType)) {
+		return redactFormBody(body)
+	}
+
+	if (/json/i.test(mimeType) || /^\s*[[{]/.test(body)) {
+		return redactJsonBody(body)
+	}
+
+	return body
+}
+
+export interface NetworkLogEntry {
+	id: number
+	pageId: string
+	method: string
+	url: string
+	resourceType: string
+	requestHeaders: Record<string, string>
+	requestBody?: string
+	status?: number
+	statusText?: string
+	responseHeaders?: Record<string, string>
+	responseBody?: string
+	mimeType?: string
+	fromCache?: boolean
+	// Set when the request failed without a response, e.g. `net::ERR_CONNECTION_REFUSED`.
+	failure?: string
+	startedAt: number
+	durationMs?: number
+}
+
+export interface ConsoleLogEntry {
+	pageId: string
+	level: string
+	text: string
+	timestamp: number
+}
+
+interface RecordedPage {
+	id: string
+	url: string
+	startedAt: number
+	network: NetworkLogEntry[]
+	console: ConsoleLogEntry[]
+}
+
+export interface NetworkLogFilter {
+	// A substring of the URL, or a glob such as `*/api/*` matched against the whole URL.
+	url?: string
+	// A status code (`404`), a status class (`4xx`), `failed` or `error` (failed or 4xx/5xx).
+	status?: string
+}
+
+export function isNetworkError(entry: NetworkLogEntry): boolean {
+	return entry.failure !== undefined || (entry.status ?? 0) >= 400
+}
+
+function matchesUrl(entry: NetworkLogEntry, pattern: string): boolean {
+	if (!pattern.includes("*")) {
+		return entry.url.includes(pattern)
+	}
+
+	const source = pattern
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*")
+
+	return new RegExp(`^${source}$`, "i").test(entry.url)
+}
+
+export function isValidStatusFilter(status: string): boolean {
+	return /^(\d{3}|[1-5]xx|failed|error)$/i.test(status.trim())
+}
+
+function matchesStatus(entry: NetworkLogEntry, status: string): boolean {
+	const normalized = status.trim().toLowerCase()
+
+	if (normalized === "failed") {
+		return entry.failure !== undefined
+	}
+
+	if (normalized === "error") {
+		return isNetworkError(entry)
+	}
+
+	if (/^[1-5]xx$/.test(normalized)) {
+		return entry.status !== undefined && Math.floor(entry.status / 100) === Number(normalized[0])
+	}
+
+	if (/^\d{3}$/.test(normalized)) {
+		return entry.status === Number(normalized)
+	}
+
+	throw new Error(
+		`Invalid status filter "${status}". Use a status code (e.g. 404), a status class (e.g. 4xx), "failed" or "error".`,
+	)
+}
+
+export function filterNetworkLog(
+	entries: readonly NetworkLogEntry[],
+	filter: NetworkLogFilter = {},
+): NetworkLogEntry[] {
+	return entries.filter(
+		(entry) =>
+			(!filter.url || matchesUrl(entry, filter.url)) && (!filter.status || matchesStatus(entry, filter.status)),
+	)
+}
+
+function truncate(text: string, maxLength: number): string {
+	return text.length > maxLength ? `${text.slice(0, maxLength)}… (${text.length} characters)` : text
+}
+
+/**
+ * Describes a request on one line, e.g. `[12] GET 404 https://example.com/api (fetch, 35 ms)`.
+ */
+export function describeNetworkEntry(entry: NetworkLogEntry): string {
+	const outcome = entry.failure
+		? `failed (${entry.failure})`
+		: entry.status !== undefined
+			? `${entry.status}${entry.fromCache ? " (cached)" : ""}`
+			: "pending"
+	const details = [entry.resourceType, entry.durationMs !== undefined ? `${entry.durationMs} ms` : undefined]
+		.filter(Boolean)
+		.join(", ")
+
+	return `[${entry.id}] ${entry.method} ${outcome} ${entry.url} (${details})`
+}
+
+/**
+ * Formats the most recent entries of a network log for the model, including
+ * excerpts of the request and response bodies of XHR/fetch calls.
+ */
+export function formatNetworkLog(entries: readonly NetworkLogEntry[], maxEntries = 50): string {
+	if (entries.length === 0) {
+		return "(No matching network requests)"
+	}
+
+	const lines: string[] = []
+
+	if (entries.length > maxEntries) {
+		lines.push(`(Showing the last ${maxEntries} of ${entries.length} matching requests)`)
+	}
+
+	for (const entry of entries.slice(-maxEntries)) {
+		lines.push(describeNetworkEntry(entry))
+
+		if (entry.requestBody) {
+			lines.push(`  Request body: ${truncate(entry.requestBody, MAX_FORMATTED_BODY_LENGTH)}`)
+		}
+
+		if (entry.responseBody) {
+			lines.push(`  Response body: ${truncate(entry.responseBody, MAX_FORMATTED_BODY_LENGTH)}`)
+		}
+	}
+
+	return lines.join("\n")
+}
+
+function toHarHeaders(headers: Record<string, string> = {}) {
+	return Object.entries(headers).map(([name, value]) => ({ name, value }))
+}
+
+function toHarQueryString(url: string) {
+	try {
+		return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }))
+	} catch {
+		return []
+	}
+}
+
+/**
+ * Records the network requests and console messages of the pages of a browser
+ * session. The log outlives the browser so that a session can still be
+ * exported after it was closed; it is cleared when a new browser is launched.
+ */
+export class BrowserActivityRecorder {
+	private pages: RecordedPage[] = []
+	private attachedPages = new WeakMap<Page, RecordedPage>()
+	private pendingRequests = new WeakMap<HTTPRequest, NetworkLogEntry>()
+	private nextEntryId = 1
+
+	/**
+	 * Starts recording a page. Pages that are already recorded are ignored.
+	 */
+	attach(page: Page): void {
+		if (this.attachedPages.has(page)) {
+			return
+		}
+
+		const recorded: RecordedPage = {
+			id: `page_${this.pages.length + 1}`,
+			url: redactUrl(page.url()),
+			startedAt: Date.now(),
+			network: [],
+			console: [],
+		}
+
+		this.pages.push(recorded)
+		this.attachedPages.set(page, recorded)
+
+		page.on("request", (request: HTTPRequest) => this.onRequest(recorded, request))
+		page.on("requestfinished", (request: HTTPRequest) => void this.onRequestFinished(request))
+		page.on("requestfailed", (request: HTTPRequest) => this.onRequestFailed(request))
+		page.on("console", (message: ConsoleMessage) =>
+			this.onConsole(recorded, { level: message.type(), text: message.text() }),
+		)
+		page.on("pageerror", (error: Error) => this.onConsole(recorded, { level: "error", text: error.toString() }))
+	}
+
+	clear(): void {
+		this.pages = []
+		this.attachedPages = new WeakMap()
+		this.pendingRequests = new WeakMap()
+		this.nextEntryId = 1
+	}
+
+	/**
+	 * The id the next recorded request will get; pass it to `getNetworkLog` to
+	 * only get the requests that were made after this point.
+	 */
+	get checkpoint(): number {
+		return this.nextEntryId
+	}
+
+	getNetworkLog(filter: NetworkLogFilter = {}, since = 0): NetworkLogEntry[] {
+		const entries = this.pages
+			.flatMap((page) => page.network)
+			.filter((entry) => entry.id >= since)
+			.sort((a, b) => a.id - b.id)
+
+		return filterNetworkLog(entries, filter)
+	}
+
+	getConsoleLog(level?: string): ConsoleLogEntry[] {
+		return this.pages
+			.flatMap((page) => page.console)
+			.filter((entry) => !level || entry.level === level)
+			.sort((a, b) => a.timestamp - b.timestamp)
+	}
+
+	hasActivity(): boolean {
+		return this.pages.some((page) => page.network.length > 0 || page.console.length > 0)
+	}
+
+	/**
+	 * Exports the recorded session in the HAR 1.2 format. Console messages are
+	 * added to each page as the custom `_console` field, and failed requests get
+	 * status 0 with the failure in `_error`, like browsers export them.
+	 */
+	toHar(creator: { name: string; version: string }) {
+		return {
+			log: {
+				version: "1.2",
+				creator,
+				pages: this.pages.map((page) => ({
+					startedDateTime: new Date(page.startedAt).toISOString(),
+					id: page.id,
+					title: page.url,
+					pageTimings: {},
+					_console: page.console.map((entry) => ({
+						level: entry.level,
+						text: entry.text,
+						timestamp: new Date(entry.timestamp).toISOString(),
+					})),
+				})),
+				entries: this.getNetworkLog().map((entry) => ({
+					pageref: entry.pageId,
+					startedDateTime: new Date(entry.startedAt).toISOString(),
+					time: entry.durationMs ?? 0,
+					request: {
+						method: entry.method,
+						url: entry.url,
+						httpVersion: "HTTP/1.1",
+						cookies: [],
+						headers: toHarHeaders(entry.requestHeaders),
+						queryString: toHarQueryString(entry.url),
+						...(entry.requestBody !== undefined && {
+							postData: {
+								mimeType: entry.requestHeaders["content-type"] ?? "",
+								text: entry.requestBody,
+							},
+						}),
+						headersSize: -1,
+						bodySize: entry.requestBody?.length ?? 0,
+					},
+					response: {
+						status: entry.status ?? 0,
+						statusText: entry.statusText ?? "",
+						httpVersion: "HTTP/1.1",
+						cookies: [],
+						headers: toHarHeaders(entry.responseHeaders),
+						content: {
+							size: entry.responseBody?.length ?? 0,
+							mimeType: entry.mimeType ?? "",
+							...(entry.responseBody !== undefined && { text: entry.responseBody }),
+						},
+						redirectURL: entry.responseHeaders?.location ?? "",
+						headersSize: -1,
+						bodySize: -1,
+						...(entry.failure !== undefined && { _error: entry.failure }),
+					},
+					cache: {},
+					timings: { send: 0, wait: entry.durationMs ?? 0, receive: 0 },
+					_resourceType: entry.resourceType,
+				})),
+			},
+		}
+	}
+
+	private onRequest(page: RecordedPage, request: HTTPRequest): void {
+		if (request.isNavigationRequest() && !request.frame()?.parentFrame()) {
+			page.url = redactUrl(request.url())
+		}
+
+		const requestHeaders = request.headers()
+		const requestBody = request.postData()
+
+		const entry: NetworkLogEntry = {
+			id: this.nextEntryId++,
+			pageId: page.id,
+			method: request.method(),
+			url: redactUrl(request.url()),
+			resourceType: request.resourceType(),
+			requestHeaders: redactHeaders(requestHeaders),
+			requestBody:
+				requestBody === undefined ? undefined : redactBody(requestBody, requestHeaders["content-type"]),
+			startedAt: Date.now(),
+		}
+
+		page.network.push(entry)
+
+		if (page.network.length > MAX_ENTRIES_PER_PAGE) {
+			page.network.shift()
+		}
+
+		this.pendingRequests.set(request, entry)
+	}
+
+	private async onRequestFinished(request: HTTPRequest): Promise<void> {
+		const entry = this.pendingRequests.get(request)
+		const response = request.response()
+
+		if (!entry || !response) {
+			return
+		}
+
+		this.pendingRequests.delete(request)
+
+		const responseHeaders = response.headers()
+		entry.status = response.status()
+		entry.statusText = response.statusText()
+		entry.responseHeaders = redactHeaders(responseHeaders)
+		entry.mimeType = responseHeaders["content-type"]
+		entry.fromCache = response.fromCache()
+		entry.durationMs = Date.now() - entry.startedAt
+
+		if (
+			(entry.resourceType === "xhr" || entry.resourceType === "fetch") &&
+			entry.mimeType &&
+			TEXT_MIME_TYPE.test(entry.mimeType)
+		) {
+			try {
+				const body = await response.text()
+				entry.responseBody = redactBody(
+					body.length > MAX_CAPTURED_BODY_LENGTH ? body.slice(0, MAX_CAPTURED_BODY_LENGTH) : body,
+					entry.mimeType,
+				)
+			} catch {
+				// The body is not available for some responses, e.g. redirects.
+			}
+		}
+	}
+
+	private onRequestFailed(request: HTTPRequest): void {
+		const entry = this.pendingRequests.get(request)
+
+		if (!entry) {
+			return
+		}
+
+		this.pendingRequests.delete(request)
+		entry.failure = request.failure()?.errorText ?? "Request failed"
+		entry.durationMs = Date.now() - entry.startedAt
+	}
+
+	private onConsole(page: RecordedPage, { level, text }: { level: string; text: string }): void {
+		page.console.push({ pageId: page.id, level, text, timestamp: Date.now() })
+
+		if (page.console.length > MAX_ENTRIES_PER_PAGE) {
+			page.console.shift()
+		}
+	}
+}
@@ -1,7 +1,17 @@
 import * as vscode from "vscode"
 import * as fs from "fs/promises"
 import * as path from "path"
-import { Browser, Page, ScreenshotOptions, TimeoutError, launch, connect, KeyInput } from "puppeteer-core"
+import {
+	Browser,
+	ElementHandle,
+	Page,
+	ScreenshotOptions,
+	SerializedAXNode,
+	TimeoutError,
+	launch,
+	connect,
+	KeyInput,
+} from "puppeteer-core"
 // @ts-ignore
 import PCR from "puppeteer-chromium-resolver"
 import pWaitFor from "p-wait-for"
@@ -9,9 +19,21 @@ import delay from "delay"
 import { fileExistsAtPath } from "../../utils/fs"
 import { BrowserActionResult } from "../../shared/ExtensionMessage"
 import { discoverChromeHostUrl, tryChromeHostUrl } from "./browserDiscovery"
+import { Package } from "../../shared/package"
+import { describeAccessibilityNode, formatAccessibilitySnapshot } from "./accessibilitySnapshot"
+import {
+	BrowserActivityRecorder,
+	type NetworkLogFilter,
+	describeNetworkEntry,
+	formatNetworkLog,
+} from "./BrowserActivityRecorder"
 
 // Timeout constants
 const BROWSER_NAVIGATION_TIMEOUT = 15_000 // 15 seconds
+const BROWSER_WAIT_FOR_TIMEOUT = 10_000 // 10 seconds
+
+// Limits the size of values returned by `evaluate`.
+const MAX_EVALUATE_RESULT_LENGTH = 10_000
 
 interface PCRStats {
 	puppeteer: { launch: typeof launch }
@@ -31,6 +53,12 @@ export class BrowserSession {
 	private lastViewportWidth?: number
 	private lastViewportHeight?: number
 
+	// Elements of the last accessibility snapshot, by their numbered reference
+	private elementRefs = new Map<number, SerializedAXNode>()
+
+	// Network requests and console messages of the session's pages.
+	private activity = new BrowserActivityRecorder()
+
 	constructor(context: vscode.ExtensionContext, onStateChange?: (isActive: boolean) => void) {
 		this.context = context
 		this.onStateChange = onStateChange
@@ -171,6 +199,10 @@ export class BrowserSession {
 	async launchBrowser(): Promise<void> {
 		console.log("launch browser called")
 
+		// A new browser starts a new recording; the previous one is kept until
+		// now so that it can be exported after the browser was closed.
+		this.activity.clear()
+
 		// Check if remote browser connection is enabled
 		const remoteBrowserEnabled = this.context.globalState.get("remoteBrowserEnabled") as boolean | undefined
 
@@ -234,15 +266,27 @@ export class BrowserSession {
 		this.isUsingRemoteBrowser = false
 		this.lastViewportWidth = undefined
 		this.lastViewportHeight = undefined
+		this.elementRefs.clear()
 	}
 
-	async doAction(action: (page: Page) => Promise<void>): Promise<BrowserActionResult> {
+	/**
+	 * Runs an action on the active page and collects the console output it
+	 * produced. Actions may return text (e.g. a snapshot) to include in the
+	 * result; the screenshot can be skipped for actions that only read the page.
+	 */
+	async doAction(
+		action: (page: Page) => Promise<string | void>,
+		{ screenshot: takeScreenshot = true }: { screenshot?: boolean } = {},
+	): Promise<BrowserActionResult> {
 		if (!this.page) {
 			throw new Error(
 				"Cannot perform browser action: no active browser session. The browser must be launched first using the 'launch' action before other browser actions can be performed.",
 			)
 		}
 
+		this.activity.attach(this.page)
+		const activityCheckpoint = this.activity.checkpoint
+
 		const logs: string[] = []
 		let lastLogTs = Date.now()
 
@@ -264,8 +308,10 @@ export class BrowserSession {
 		this.page.on("console", consoleListener)
 		this.page.on("pageerror", errorListener)
 
+		let content: string | undefined
+
 		try {
-			await action(this.page)
+			content = (await action(this.page)) ?? undefined
 		} catch (err) {
 			if (!(err instanceof TimeoutError)) {
 				logs.push(`[Error] ${err.toString()}`)
@@ -278,6 +324,25 @@ export class BrowserSession {
 			interval: 100,
 		}).catch(() => {})
 
+		// Surface failed requests so that the model notices broken API calls
+		// without having to ask for the network log.
+		const networkErrors = this.activity
+			.getNetworkLog({ status: "error" }, activityCheckpoint)
+			.map(describeNetworkEntry)
+			.join("\n")
+
+		if (!takeScreenshot) {
+			this.page.off("console", consoleListener)
+			this.page.off("pageerror", errorListener)
+
+			return {
+				content,
+				logs: logs.join("\n"),
+				...(networkErrors && { networkErrors }),
+				currentUrl: this.page.url(),
+			}
+		}
+
 		// Draw cursor indicator if we have a cursor position
 		if (this.currentMousePosition) {
 			await this.drawCursorIndicator(this.page, this.currentMousePosition)
@@ -332,7 +397,9 @@ export class BrowserSession {
 
 		return {
 			screenshot,
+			content,
 			logs: logs.join("\n"),
+			...(networkErrors && { networkErrors }),
 			currentUrl: this.page.url(),
 			currentMousePosition: this.currentMousePosition,
 			viewportWidth: viewport?.width,
@@ -558,6 +625,17 @@ export class BrowserSession {
 	): Promise<void> {
 		const [x, y] = coordinate.split(",").map(Number)
 
+		await this.waitForActionNavigation(page, async () => {
+			await action(x, y)
+			this.currentMousePosition = coordinate
+		})
+	}
+
+	/**
+	 * Performs an action that may trigger navigation, waiting for the page to
+	 * load if the action caused network activity.
+	 */
+	private async waitForActionNavigation(page: Page, action: () => Promise<void>): Promise<void> {
 		// Force any new-tab behavior (target="_blank", window.open) to stay in the same tab
 		await this.forceLinksToSameTab(page)
 
@@ -568,9 +646,7 @@ export class BrowserSession {
 		}
 		page.on("request", requestListener)
 
-		// Perform the mouse action
-		await action(x, y)
-		this.currentMousePosition = coordinate
+		await action()
 
 		// Small delay to check if action triggered any network activity
 		await delay(100)
@@ -756,6 +832,240 @@ export class BrowserSession {
 		})
 	}
 
+	/**
+	 * Returns the page's accessibility tree with numbered element references
+	 * that can be passed to the element actions. Each snapshot replaces the
+	 * references of the previous one.
+	 */
+	async snapshot(): Promise<BrowserActionResult> {
+		return this.doAction(
+			async (page) => {
+				const { text, refs } = formatAccessibilitySnapshot(
+					await page.accessibility.snapshot({ interestingOnly: true }),
+				)
+
+				this.elementRefs = refs
+				return text
+			},
+			{ screenshot: false },
+		)
+	}
+
+	/**
+	 * Describes a referenced element of the last snapshot, e.g. `button "Save"`.
+	 */
+	describeElement(ref: number): string | undefined {
+		const node = this.elementRefs.get(ref)
+		return node ? describeAccessibilityNode(node) : undefined
+	}
+
+	private async getElement(ref: number): Promise<ElementHandle> {
+		const node = this.elementRefs.get(ref)
+
+		if (!node) {
+			throw new Error(
+				`Unknown element reference [${ref}]. Take a new snapshot to get current element references.`,
+			)
+		}
+
+		const element = await node.elementHandle()
+
+		if (!element) {
+			throw new Error(
+				`Element [${ref}] is no longer on the page. Take a new snapshot to get current element references.`,
+			)
+		}
+
+		return element
+	}
+
+	async clickElement(ref: number): Promise<BrowserActionResult> {
+		return this.doAction(async (page) => {
+			const element = await this.getElement(ref)
+
+			await this.waitForActionNavigation(page, async () => {
+				await element.scrollIntoView()
+				const box = await element.boundingBox()
+				await element.click()
+
+				if (box) {
+					this.currentMousePosition = `${Math.round(box.x + box.width / 2)},${Math.round(box.y + box.height / 2)}`
+				}
+			})
+		})
+	}
+
+	/**
+	 * Replaces the value of a text field or contenteditable element.
+	 */
+	async fill(ref: number, text: string): Promise<BrowserActionResult> {
+		return this.doAction(async () => {
+			const element = await this.getElement(ref)
+
+			await element.scrollIntoView()
+			await element.evaluate((el) => {
+				if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+					el.value = ""
+				} else if (el instanceof HTMLElement && el.isContentEditable) {
+					el.textContent = ""
+				} else {
+					throw new Error("Element is not a text field")
+				}
+			})
+			await element.type(text)
+		})
+	}
+
+	/**
+	 * Selects the option of a `<select>` element by its value or label.
+	 */
+	async selectOption(ref: number, option: string): Promise<BrowserActionResult> {
+		return this.doAction(async () => {
+			const element = await this.getElement(ref)
+
+			const value = await element.evaluate((el, wanted) => {
+				if (!(el instanceof HTMLSelectElement)) {
+					throw new Error("Element is not a select element")
+				}
+
+				const match = Array.from(el.options).find(
+					(candidate) =>
+						candidate.value === wanted || candidate.label === wanted || candidate.text.trim() === wanted,
+				)
+
+				if (!match) {
+					throw new Error(`No option "${wanted}" in select element`)
+				}
+
+				return match.value
+			}, option)
+
+			await element.select(value)
+		})
+	}
+
+	/**
+	 * Waits until an element matching a CSS selector is visible, or until the
+	 * page contains the given text.
+	 */
+	async waitFor({ selector, text }: { selector?: string; text?: string }): Promise<BrowserActionResult> {
+		return this.doAction(async (page) => {
+			try {
+				if (selector) {
+					await page.waitForSelector(selector, { visible: true, timeout: BROWSER_WAIT_FOR_TIMEOUT })
+				} else {
+					await page.waitForFunction(
+						(wanted: string) => document.body?.innerText.includes(wanted) ?? false,
+						{ timeout: BROWSER_WAIT_FOR_TIMEOUT },
+						text ?? "",
+					)
+				}
+			} catch (error) {
+				// Timeouts are otherwise not reported, but here they are the answer.
+				if (error instanceof TimeoutError) {
+					const target = selector ? `selector "${selector}"` : `text "${text}"`
+					throw new Error(`Timed out after ${BROWSER_WAIT_FOR_TIMEOUT / 1000}s waiting for ${target}`)
+				}
+
+				throw error
+			}
+		})
+	}
+
+	/**
+	 * Evaluates a JavaScript expression in the page and returns its value as
+	 * JSON. The expression is evaluated by DevTools without side effects, so
+	 * expressions that would change the page fail and the model has to use the
+	 * interactive actions instead.
+	 */
+	async evaluate(expression: string): Promise<BrowserActionResult> {
+		return this.doAction(
+			async (page) => {
+				const session = await page.createCDPSession()
+
+				try {
+					const { result, exceptionDetails } = await session.send("Runtime.evaluate", {
+						expression: `(() => {
+							const result = (${expression}
+							)
+
+							if (result === undefined) {
+								return "undefined"
+							} else if (result instanceof Element) {
+								return result.outerHTML
+							}
+
+							try {
+								return JSON.stringify(result, null, 2) ?? String(result)
+							} catch {
+								return String(result)
+							}
+						})()`,
+						returnByValue: true,
+						throwOnSideEffect: true,
+					})
+
+					if (exceptionDetails) {
+						const message = exceptionDetails.exception?.description ?? exceptionDetails.text
+
+						if (message.includes("Possible side-effect")) {
+							throw new Error(
+								"The expression would modify the page. evaluate is read-only; use the other browser actions to interact with the page.",
+							)
+						}
+
+						throw new Error(message)
+					}
+
+					const value = String(result.value)
+
+					return value.length > MAX_EVALUATE_RESULT_LENGTH
+						? `${value.slice(0, MAX_EVALUATE_RESULT_LENGTH)}\n(Result truncated after ${MAX_EVALUATE_RESULT_LENGTH} characters)`
+						: value
+				} finally {
+					await session.detach().catch(() => {})
+				}
+			},
+			{ screenshot: false },
+		)
+	}
+
+	async navigateBack(): Promise<BrowserActionResult> {
+		return this.doAction(async (page) => {
+			const previousUrl = page.url()
+			const response = await page.goBack({
+				timeout: BROWSER_NAVIGATION_TIMEOUT,
+				waitUntil: ["domcontentloaded", "networkidle2"],
+			})
+
+			// goBack resolves to null both without history and for same-document
+			// navigations; only the latter changes the URL.
+			if (!response && page.url() === previousUrl) {
+				throw new Error("There is no previous page in the browser history")
+			}
+
+			await this.waitTillHTMLStable(page)
+		})
+	}
+
+	/**
+	 * Returns the requests recorded during the session, optionally filtered by
+	 * URL pattern and status.
+	 */
+	async getNetworkLog(filter: NetworkLogFilter = {}): Promise<BrowserActionResult> {
+		return this.doAction(async () => formatNetworkLog(this.activity.getNetworkLog(filter)), { screenshot: false })
+	}
+
+	/**
+	 * Exports the recorded network requests and console messages as a HAR
+	 * file, or returns undefined if nothing was recorded.
+	 */
+	exportHar() {
+		return this.activity.hasActivity()
+			? this.activity.toHar({ name: "Roo Code", version: Package.version })
+			: undefined
+	}
+
 	/**
 	 * Draws a cursor indicator on the page at the specified position
 	 */
@@ -0,0 +1,277 @@
+// npx vitest services/browser/__tests__/BrowserActivityRecorder.spec.ts
+
+import { EventEmitter } from "events"
+
+import {
+	BrowserActivityRecorder,
+	filterNetworkLog,
+	formatNetworkLog,
+	MAX_ENTRIES_PER_PAGE,
+	REDACTED,
+} from "../BrowserActivityRecorder"
+
+const createPage = () => {
+	const page = new EventEmitter() as EventEmitter & { url: () => string }
+	page.url = () => "about:blank"
+	return page
+}
+
+const createRequest = ({
+	url,
+	method = "GET",
+	resourceType = "fetch",
+	postData,
+	status,
+	contentType = "application/json",
+	body = "",
+	failure,
+	headers = {},
+	responseHeaders = {},
+}: {
+	url: string
+	method?: string
+	resourceType?: string
+	postData?: string
+	status?: number
+	contentType?: string
+	body?: string
+	failure?: string
+	headers?: Record<string, string>
+	responseHeaders?: Record<string, string>
+}) => ({
+	url: () => url,
+	method: () => method,
+	resourceType: () => resourceType,
+	headers: () => ({ accept: "*/*", ...headers }),
+	postData: () => postData,
+	isNavigationRequest: () => resourceType === "document",
+	frame: () => ({ parentFrame: () => null }),
+	failure: () => (failure ? { errorText: failure } : null),
+	response: () =>
+		status === undefined
+			? null
+			: {
+					status: () => status,
+					statusText: () => (status < 400 ? "OK" : "Not Found"),
+					headers: () => ({ "content-type": contentType, ...responseHeaders }),
+					fromCache: () => false,
+					text: vi.fn().mockResolvedValue(body),
+				},
+})
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve))
+
+describe("BrowserActivityRecorder", () => {
+	let recorder: BrowserActivityRecorder
+	let page: ReturnType<typeof createPage>
+
+	const send = async (request: ReturnType<typeof createRequest>) => {
+		page.emit("request", request)
+		page.emit(request.failure() ? "requestfailed" : "requestfinished", request)
+		await flushPromises()
+	}
+
+	beforeEach(() => {
+		recorder = new BrowserActivityRecorder()
+		page = createPage()
+		recorder.attach(page as any)
+		// Attaching twice must not record events twice.
+		recorder.attach(page as any)
+	})
+
+	it("records requests, responses and failures", async () => {
+		await send(createRequest({ url: "https://example.com/", resourceType: "document", status: 200 }))
+		await send(
+			createRequest({
+				url: "https://example.com/api/users?page=2",
+				method: "POST",
+				postData: '{"name":"Jane"}',
+				status: 404,
+				body: '{"error":"Not found"}',
+			}),
+		)
+		await send(createRequest({ url: "https://cdn.example.com/app.js", failure: "net::ERR_CONNECTION_REFUSED" }))
+
+		const [document, api, script] = recorder.getNetworkLog()
+
+		// Only the bodies of XHR/fetch responses are captured.
+		expect(document).toMatchObject({ id: 1, status: 200 })
+		expect(document.responseBody).toBeUndefined()
+		expect(api).toMatchObject({
+			method: "POST",
+			status: 404,
+			requestBody: '{"name":"Jane"}',
+			responseBody: '{"error":"Not found"}',
+		})
+		expect(script.failure).toBe("net::ERR_CONNECTION_REFUSED")
+
+		// Requests can be filtered to those made after a checkpoint.
+		expect(recorder.getNetworkLog({}, 3)).toEqual([script])
+	})
+
+	it("filters by URL pattern and status", async () => {
+		await send(createRequest({ url: "https://example.com/api/users", status: 200 }))
+		await send(createRequest({ url: "https://example.com/api/orders", status: 500 }))
+		await send(createRequest({ url: "https://example.com/logo.png", resourceType: "image", status: 404 }))
+		await send(createRequest({ url: "https://example.com/api/stream", failure: "net::ERR_FAILED" }))
+
+		const urls = (filter: Parameters<typeof filterNetworkLog>[1]) =>
+			recorder.getNetworkLog(filter).map((entry) => entry.url.replace("https://example.com", ""))
+
+		expect(urls({ url: "/api/" })).toEqual(["/api/users", "/api/orders", "/api/stream"])
+		expect(urls({ url: "*example.com/api/*s" })).toEqual(["/api/users", "/api/orders"])
+		expect(urls({ status: "404" })).toEqual(["/logo.png"])
+		expect(urls({ status: "5xx" })).toEqual(["/api/orders"])
+		expect(urls({ status: "failed" })).toEqual(["/api/stream"])
+		expect(urls({ url: "/api/", status: "error" })).toEqual(["/api/orders", "/api/stream"])
+		expect(() => urls({ status: "bad" })).toThrow('Invalid status filter "bad"')
+	})
+
+	it("formats the log with body excerpts", async () => {
+		await send(createRequest({ url: "https://example.com/api", status: 200, body: "x".repeat(600) }))
+		await send(createRequest({ url: "https://example.com/missing", failure: "net::ERR_NAME_NOT_RESOLVED" }))
+
+		const lines = formatNetworkLog(recorder.getNetworkLog()).split("\n")
+
+		expect(lines[0]).toMatch(/^\[1\] GET 200 https:\/\/example\.com\/api \(fetch, \d+ ms\)$/)
+		expect(lines[1]).toBe(`  Response body: ${"x".repeat(500)}… (600 characters)`)
+		expect(lines[2]).toMatch(/^\[2\] GET failed \(net::ERR_NAME_NOT_RESOLVED\) https:\/\/example\.com\/missing/)
+		expect(formatNetworkLog([])).toBe("(No matching network requests)")
+		expect(formatNetworkLog(recorder.getNetworkLog(), 1)).toContain("(Showing the last 1 of 2 matching requests)")
+	})
+
+	it("redacts credentials in headers and bodies", async () => {
+		await send(
+			createRequest({
+				url: "https://example.com/login",
+				method: "POST",
+				headers: {
+					authorization: "Bearer abc",
+					cookie: "sid=1",
+					"x-api-key": "key",
+					"content-type": "application/x-www-form-urlencoded",
+				},
+				postData: "user=jane&password=hunter2&remember=1",
+				status: 200,
+				responseHeaders: { "set-cookie": "sid=2" },
+				body: '{"access_token":"abc","user":{"name":"Jane","author":"x"},"expires_in":3600}',
+			}),
+		)
+		await send(
+			createRequest({
+				url: "https://example.com/api",
+				method: "POST",
+				postData: '{"apiKey": 42, "query": "token"}',
+				status: 200,
+			}),
+		)
+
+		const [login, api] = recorder.getNetworkLog()
+
+		expect(login.requestHeaders).toEqual({
+			accept: "*/*",
+			authorization: REDACTED,
+			cookie: REDACTED,
+			"x-api-key": REDACTED,
+			"content-type": "application/x-www-form-urlencoded",
+		})
+		expect(login.requestBody).toBe(`user=jane&password=${REDACTED}&remember=1`)
+		expect(login.responseHeaders?.["set-cookie"]).toBe(REDACTED)
+		expect(login.responseBody).toBe(
+			`{"access_token":"${REDACTED}","user":{"name":"Jane","author":"x"},"expires_in":3600}`,
+		)
+		expect(api.requestBody).toBe(`{"apiKey": "${REDACTED}", "query": "token"}`)
+
+		const { log } = recorder.toHar({ name: "Roo Code", version: "1.0.0" })
+		expect(JSON.stringify(log)).not.toMatch(/hunter2|Bearer abc|sid=/)
+	})
+
+	it("redacts credentials in query strings", async () => {
+		await send(
+			createRequest({
+				url: "https://example.com/callback?code=1&access_token=abc&api_key=key#token=xyz",
+				resourceType: "document",
+				status: 200,
+			}),
+		)
+
+		const [entry] = recorder.getNetworkLog()
+		const redactedUrl = `https://example.com/callback?code=1&access_token=${REDACTED}&api_key=${REDACTED}#token=${REDACTED}`
+
+		expect(entry.url).toBe(redactedUrl)
+		expect(formatNetworkLog([entry])).toContain(redactedUrl)
+
+		const { log } = recorder.toHar({ name: "Roo Code", version: "1.0.0" })
+		expect(log.pages[0].title).toBe(redactedUrl)
+		expect(log.entries[0].request.queryString).toEqual([
+			{ name: "code", value: "1" },
+			{ name: "access_token", value: REDACTED },
+			{ name: "api_key", value: REDACTED },
+		])
+		expect(JSON.stringify(log)).not.toMatch(/abc|=key|xyz/)
+	})
+
+	it("keeps a rolling log per page", async () => {
+		for (let i = 0; i < MAX_ENTRIES_PER_PAGE + 5; i++) {
+			page.emit("request", createRequest({ url: `https://example.com/${i}` }))
+		}
+
+		const log = recorder.getNetworkLog()
+
+		expect(log).toHaveLength(MAX_ENTRIES_PER_PAGE)
+		expect(log[0].url).toBe("https://example.com/5")
+	})
+
+	it("exports the session as HAR", async () => {
+		await send(createRequest({ url: "https://example.com/", resourceType: "document", status: 200 }))
+		await send(
+			createRequest({
+				url: "https://example.com/api?q=1",
+				method: "POST",
+				postData: "a=1",
+				status: 200,
+				body: "[]",
+			}),
+		)
+		await send(createRequest({ url: "https://example.com/ws", failure: "net::ERR_ABORTED" }))
+		page.emit("console", { type: () => "warning", text: () => "Deprecated API" })
+		page.emit("pageerror", new Error("Boom"))
+
+		const { log } = recorder.toHar({ name: "Roo Code", version: "1.0.0" })
+
+		expect(log.version).toBe("1.2")
+		expect(log.creator).toEqual({ name: "Roo Code", version: "1.0.0" })
+		expect(log.pages).toEqual([
+			expect.objectContaining({
+				id: "page_1",
+				title: "https://example.com/",
+				_console: [
+					expect.objectContaining({ level: "warning", text: "Deprecated API" }),
+					expect.objectContaining({ level: "error", text: "Error: Boom" }),
+				],
+			}),
+		])
+		expect(log.entries).toHaveLength(3)
+		expect(log.entries[1]).toMatchObject({
+			pageref: "page_1",
+			request: {
+				method: "POST",
+				queryString: [{ name: "q", value: "1" }],
+				postData: { mimeType: "", text: "a=1" },
+			},
+			response: { status: 200, content: { mimeType: "application/json", text: "[]", size: 2 } },
+		})
+		expect(log.entries[2].response).toMatchObject({ status: 0, _error: "net::ERR_ABORTED" })
+		expect(recorder.getConsoleLog("error")).toHaveLength(1)
+	})
+
+	it("starts over when cleared", async () => {
+		await send(createRequest({ url: "https://example.com/", status: 200 }))
+		expect(recorder.hasActivity()).toBe(true)
+
+		recorder.clear()
+
+		expect(recorder.hasActivity()).toBe(false)
+		expect(recorder.getNetworkLog()).toEqual([])
+	})
+})
@@ -452,3 +452,125 @@ describe("cursor visualization", () => {
 		})
 	})
 })
+
+describe("element actions", () => {
+	let session: BrowserSession
+	let page: any
+	let button: any
+
+	beforeEach(() => {
+		button = {
+			scrollIntoView: vi.fn().mockResolvedValue(undefined),
+			boundingBox: vi.fn().mockResolvedValue({ x: 10, y: 20, width: 100, height: 40 }),
+			click: vi.fn().mockResolvedValue(undefined),
+		}
+		page = {
+			on: vi.fn(),
+			off: vi.fn(),
+			screenshot: vi.fn().mockResolvedValue("mockScreenshotBase64"),
+			url: vi.fn().mockReturnValue("https://example.com"),
+			viewport: vi.fn().mockReturnValue({ width: 900, height: 600 }),
+			waitForNavigation: vi.fn().mockResolvedValue(undefined),
+			evaluate: vi.fn().mockResolvedValue(undefined),
+			accessibility: {
+				snapshot: vi.fn().mockResolvedValue({
+					role: "RootWebArea",
+					name: "Example",
+					children: [{ role: "button", name: "Save", elementHandle: vi.fn().mockResolvedValue(button) }],
+				}),
+			},
+		}
+
+		session = new BrowserSession({
+			globalState: { get: vi.fn(), update: vi.fn() },
+			globalStorageUri: { fsPath: "/mock/global/storage/path" },
+		} as any)
+		;(session as any).page = page
+	})
+
+	it("returns a snapshot without a screenshot", async () => {
+		const result = await session.snapshot()
+
+		expect(result).toEqual({
+			content: 'Page: "Example"\n[1] button "Save"',
+			logs: "",
+			currentUrl: "https://example.com",
+		})
+		expect(page.screenshot).not.toHaveBeenCalled()
+		expect(session.describeElement(1)).toBe('button "Save"')
+	})
+
+	it("clicks an element by its snapshot reference", async () => {
+		await session.snapshot()
+		const result = await session.clickElement(1)
+
+		expect(button.click).toHaveBeenCalled()
+		expect(result.currentMousePosition).toBe("60,40")
+	})
+
+	it("reports unknown element references", async () => {
+		const result = await session.clickElement(5)
+
+		expect(result.logs).toContain("Unknown element reference [5]")
+	})
+
+	it("evaluates expressions without side effects and rejects those that modify the page", async () => {
+		const cdpSession = { send: vi.fn(), detach: vi.fn().mockResolvedValue(undefined) }
+		page.createCDPSession = vi.fn().mockResolvedValue(cdpSession)
+
+		cdpSession.send.mockResolvedValueOnce({ result: { type: "string", value: '"Example"' } })
+		const result = await session.evaluate("document.title")
+
+		expect(result.content).toBe('"Example"')
+		expect(page.screenshot).not.toHaveBeenCalled()
+		expect(cdpSession.send).toHaveBeenCalledWith(
+			"Runtime.evaluate",
+			expect.objectContaining({ expression: expect.stringContaining("document.title"), throwOnSideEffect: true }),
+		)
+
+		cdpSession.send.mockResolvedValueOnce({
+			result: { type: "object", subtype: "error" },
+			exceptionDetails: {
+				text: "Uncaught",
+				exception: { description: "EvalError: Possible side-effect in debug-evaluate" },
+			},
+		})
+		const rejected = await session.evaluate("document.body.remove()")
+
+		expect(rejected.content).toBeUndefined()
+		expect(rejected.logs).toContain("The expression would modify the page")
+		expect(cdpSession.detach).toHaveBeenCalledTimes(2)
+	})
+
+	it("reports failed requests made during an action", async () => {
+		const emit = (event: string, ...args: unknown[]) =>
+			page.on.mock.calls
+				.filter(([name]: [string]) => name === event)
+				.forEach(([, listener]: any) => listener(...args))
+		const request = {
+			url: () => "https://example.com/api/save",
+			method: () => "POST",
+			resourceType: () => "fetch",
+			headers: () => ({}),
+			postData: () => undefined,
+			isNavigationRequest: () => false,
+			frame: () => null,
+			failure: () => ({ errorText: "net::ERR_CONNECTION_REFUSED" }),
+		}
+
+		await session.snapshot()
+		const result = await session.doAction(
+			async () => {
+				emit("request", request)
+				emit("requestfailed", request)
+			},
+			{ screenshot: false },
+		)
+
+		expect(result.networkErrors).toMatch(
+			/^\[1\] POST failed \(net::ERR_CONNECTION_REFUSED\) https:\/\/example\.com\/api\/save/,
+		)
+		expect((await session.getNetworkLog({ status: "failed" })).content).toBe(result.networkErrors)
+		expect(session.exportHar()?.log.entries).toHaveLength(1)
+	})
+})
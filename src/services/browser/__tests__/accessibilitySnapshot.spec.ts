@@ -0,0 +1,63 @@
+// npx vitest services/browser/__tests__/accessibilitySnapshot.spec.ts
+
+import type { SerializedAXNode } from "puppeteer-core"
+
+import { formatAccessibilitySnapshot } from "../accessibilitySnapshot"
+
+const node = (values: Partial<SerializedAXNode>): SerializedAXNode =>
+	({ role: "generic", elementHandle: vi.fn(), ...values }) as SerializedAXNode
+
+describe("formatAccessibilitySnapshot", () => {
+	it("numbers elements and flattens unnamed containers", () => {
+		const email = node({ role: "textbox", name: "Email", value: "jane@example.com", required: true })
+		const root = node({
+			role: "RootWebArea",
+			name: "Sign in",
+			children: [
+				node({ role: "heading", name: "Welcome", level: 1 }),
+				node({
+					role: "generic",
+					children: [
+						node({ role: "StaticText", name: "Enter your details" }),
+						email,
+						node({ role: "checkbox", name: "Remember me", checked: false }),
+						node({ role: "button", name: "Sign in", disabled: true }),
+					],
+				}),
+				node({ role: "navigation", name: "Footer", children: [node({ role: "link", name: "Help" })] }),
+			],
+		})
+
+		const { text, refs } = formatAccessibilitySnapshot(root)
+
+		expect(text).toBe(
+			[
+				'Page: "Sign in"',
+				'[1] heading "Welcome" level=1',
+				'- text "Enter your details"',
+				'[2] textbox "Email" value="jane@example.com" required',
+				'[3] checkbox "Remember me" checked=false',
+				'[4] button "Sign in" disabled',
+				'[5] navigation "Footer"',
+				'  [6] link "Help"',
+			].join("\n"),
+		)
+		expect(refs.get(2)).toBe(email)
+	})
+
+	it("truncates large trees", () => {
+		const root = node({
+			role: "RootWebArea",
+			children: Array.from({ length: 5 }, (_, i) => node({ role: "link", name: `Link ${i}` })),
+		})
+
+		const { text, refs } = formatAccessibilitySnapshot(root, 2)
+
+		expect(refs.size).toBe(2)
+		expect(text).toContain("(Snapshot truncated after 2 elements)")
+	})
+
+	it("handles pages without accessible elements", () => {
+		expect(formatAccessibilitySnapshot(null).text).toBe("(No accessible elements found)")
+	})
+})
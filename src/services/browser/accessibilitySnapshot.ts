@@ -0,0 +1,120 @@
+import type { SerializedAXNode } from "puppeteer-core"
+
+// Caps the snapshot so that very large pages don't flood the context window.
+export const MAX_SNAPSHOT_ELEMENTS = 500
+
+// Roles that only group other nodes; they are omitted unless they are named.
+const STRUCTURAL_ROLES = new Set(["generic", "none", "presentation", "LineBreak"])
+
+// Text roles are shown for context but can't be targeted by actions.
+const TEXT_ROLES = new Set(["StaticText", "text", "InlineTextBox"])
+
+export interface AccessibilitySnapshot {
+	text: string
+	refs: Map<number, SerializedAXNode>
+}
+
+function quote(value: string): string {
+	const singleLine = value.replace(/\s+/g, " ").trim()
+	return JSON.stringify(singleLine.length > 200 ? `${singleLine.slice(0, 200)}…` : singleLine)
+}
+
+/**
+ * Describes a node on one line, e.g. `textbox "Email" value="a@b.c" required`.
+ */
+export function describeAccessibilityNode(node: SerializedAXNode): string {
+	const parts = [node.role]
+
+	if (node.name) {
+		parts.push(quote(node.name))
+	}
+
+	if (node.value !== undefined && node.value !== "") {
+		parts.push(`value=${quote(String(node.value))}`)
+	}
+
+	if (node.level !== undefined) {
+		parts.push(`level=${node.level}`)
+	}
+
+	if (node.checked !== undefined) {
+		parts.push(`checked=${node.checked}`)
+	}
+
+	if (node.pressed !== undefined) {
+		parts.push(`pressed=${node.pressed}`)
+	}
+
+	if (node.expanded !== undefined) {
+		parts.push(`expanded=${node.expanded}`)
+	}
+
+	for (const flag of ["selected", "disabled", "focused", "required", "readonly"] as const) {
+		if (node[flag]) {
+			parts.push(flag)
+		}
+	}
+
+	return parts.join(" ")
+}
+
+/**
+ * Serializes an accessibility tree into an indented outline in which every
+ * element that can be targeted by a browser action is prefixed with a numbered
+ * reference, e.g. `[3] button "Sign in"`.
+ */
+export function formatAccessibilitySnapshot(
+	root: SerializedAXNode | null,
+	maxElements = MAX_SNAPSHOT_ELEMENTS,
+): AccessibilitySnapshot {
+	const refs = new Map<number, SerializedAXNode>()
+	const lines: string[] = []
+	let truncated = false
+
+	const visit = (node: SerializedAXNode, depth: number) => {
+		if (truncated) {
+			return
+		}
+
+		let childDepth = depth
+
+		if (TEXT_ROLES.has(node.role)) {
+			if (node.name?.trim()) {
+				lines.push(`${"  ".repeat(depth)}- text ${quote(node.name)}`)
+			}
+		} else if (!STRUCTURAL_ROLES.has(node.role) || node.name) {
+			if (refs.size >= maxElements) {
+				truncated = true
+				return
+			}
+
+			const ref = refs.size + 1
+			refs.set(ref, node)
+			lines.push(`${"  ".repeat(depth)}[${ref}] ${describeAccessibilityNode(node)}`)
+			childDepth++
+		}
+
+		for (const child of node.children ?? []) {
+			visit(child, childDepth)
+		}
+	}
+
+	if (root) {
+		// The root is the document itself; its name is the page title.
+		lines.push(`Page: ${quote(root.name ?? "")}`)
+
+		for (const child of root.children ?? []) {
+			visit(child, 0)
+		}
+	}
+
+	if (refs.size === 0) {
+		lines.push("(No accessible elements found)")
+	}
+
+	if (truncated) {
+		lines.push(`(Snapshot truncated after ${maxElements} elements)`)
+	}
+
+	return { text: lines.join("\n"), refs }
+}
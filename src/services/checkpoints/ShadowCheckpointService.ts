@@ -6,13 +6,14 @@ import EventEmitter from "events"
 
 import simpleGit, { SimpleGit, SimpleGitOptions } from "simple-git"
 import pWaitFor from "p-wait-for"
+import getFolderSize from "get-folder-size"
 import * as vscode from "vscode"
 
 import { fileExistsAtPath } from "../../utils/fs"
 import { executeRipgrep } from "../../services/search/file-search"
 import { t } from "../../i18n"
 
-import { CheckpointDiff, CheckpointResult, CheckpointEventMap } from "./types"
+import { CheckpointDiff, CheckpointResult, CheckpointEventMap, CheckpointRepoStats } from "./types"
 import { getExcludePatterns } from "./excludes"
 
 /**
@@ -74,6 +75,16 @@ function createSanitizedGit(baseDir: string): SimpleGit {
 	return git
 }
 
+// Refs that keep checkpoints alive while a shadow repo is bundled for a task archive.
+const ARCHIVE_REF_PREFIX = "refs/roo-archive/"
+
+// Refs that keep checkpoints that are not reachable from HEAD (e.g. after
+// restoring an earlier checkpoint) alive through garbage collection.
+const CHECKPOINT_REF_PREFIX = "refs/roo-checkpoints/"
+
+// Revisions that make up a task's checkpoint history.
+const CHECKPOINT_REVISIONS = ["HEAD", `--glob=${CHECKPOINT_REF_PREFIX}*`]
+
 export abstract class ShadowCheckpointService extends EventEmitter {
 	public readonly taskId: string
 	public readonly checkpointsDir: string
@@ -165,11 +176,7 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 			this.baseHash = await git.revparse(["HEAD"])
 		} else {
 			this.log(`[${this.constructor.name}#initShadowGit] creating shadow git repo at ${this.checkpointsDir}`)
-			await git.init()
-			await git.addConfig("core.worktree", this.workspaceDir) // Sets the working tree to the current workspace.
-			await git.addConfig("commit.gpgSign", "false") // Disable commit signing for shadow repo.
-			await git.addConfig("user.name", "Roo Code")
-			await git.addConfig("user.email", "noreply@example.com")
+			await ShadowCheckpointService.initRepo(git, this.workspaceDir)
 			await this.writeExcludeFile()
 			await this.stageAll(git)
 			const { commit } = await git.commit("initial commit", { "--allow-empty": null })
@@ -439,6 +446,341 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		return path.join(globalStorageDir, "checkpoints", this.hashWorkspaceDir(workspaceDir))
 	}
 
+	/**
+	 * Seeds the shadow repo of `forkTaskId` with a copy of the shadow repo of
+	 * `taskId`, reset to `commitHash`. The workspace is restored to that
+	 * commit and the forked task's checkpoints continue from it, while the
+	 * original repo and its checkpoints are left untouched.
+	 */
+	public static async forkTask({
+		taskId,
+		forkTaskId,
+		globalStorageDir,
+		commitHash,
+	}: {
+		taskId: string
+		forkTaskId: string
+		globalStorageDir: string
+		commitHash: string
+	}) {
+		const sourceDotGitDir = path.join(this.taskRepoDir({ taskId, globalStorageDir }), ".git")
+		const forkRepoDir = this.taskRepoDir({ taskId: forkTaskId, globalStorageDir })
+
+		if (!(await fileExistsAtPath(sourceDotGitDir))) {
+			throw new Error(`Shadow git repo not found for task ${taskId}`)
+		}
+
+		if (await fileExistsAtPath(path.join(forkRepoDir, ".git"))) {
+			throw new Error(`Shadow git repo already exists for task ${forkTaskId}`)
+		}
+
+		await fs.mkdir(forkRepoDir, { recursive: true })
+		await fs.cp(sourceDotGitDir, path.join(forkRepoDir, ".git"), { recursive: true })
+
+		const git = createSanitizedGit(forkRepoDir)
+		await git.clean("f", ["-d", "-f"])
+		await git.reset(["--hard", commitHash])
+
+		console.log(`[${this.name}#forkTask.${taskId}] forked shadow repo at ${commitHash} for task ${forkTaskId}`)
+	}
+
+	private static async initRepo(git: SimpleGit, workspaceDir: string) {
+		await git.init()
+		await git.addConfig("core.worktree", workspaceDir) // Sets the working tree to the current workspace.
+		await git.addConfig("commit.gpgSign", "false") // Disable commit signing for shadow repo.
+		await git.addConfig("user.name", "Roo Code")
+		await git.addConfig("user.email", "noreply@example.com")
+	}
+
+	/**
+	 * Bundles the history of a task's shadow repo. Checkpoints that are no
+	 * longer reachable from HEAD (e.g. after restoring an earlier checkpoint)
+	 * are included if they are listed in `commitHashes`.
+	 *
+	 * @returns The git bundle, or undefined if the task has no shadow repo
+	 */
+	public static async bundleTaskRepo({
+		taskId,
+		globalStorageDir,
+		commitHashes = [],
+	}: {
+		taskId: string
+		globalStorageDir: string
+		commitHashes?: string[]
+	}): Promise<Buffer | undefined> {
+		const repoDir = this.taskRepoDir({ taskId, globalStorageDir })
+
+		if (!(await fileExistsAtPath(path.join(repoDir, ".git")))) {
+			return undefined
+		}
+
+		const git = createSanitizedGit(repoDir)
+		const bundlePath = path.join(os.tmpdir(), `roo-${taskId}-${Date.now()}.bundle`)
+		const refs: string[] = []
+
+		try {
+			for (const commitHash of new Set(commitHashes)) {
+				// Checkpoints dropped by the retention policy no longer exist.
+				const exists = await git.raw(["cat-file", "-e", `${commitHash}^{commit}`]).then(
+					() => true,
+					() => false,
+				)
+
+				if (exists) {
+					refs.push(`${ARCHIVE_REF_PREFIX}${commitHash}`)
+					await git.raw(["update-ref", refs[refs.length - 1], commitHash])
+				}
+			}
+
+			await git.raw(["bundle", "create", bundlePath, "HEAD", ...refs])
+			return await fs.readFile(bundlePath)
+		} finally {
+			for (const ref of refs) {
+				await git.raw(["update-ref", "-d", ref]).catch(() => {})
+			}
+
+			await fs.rm(bundlePath, { force: true })
+		}
+	}
+
+	/**
+	 * Creates the shadow repo of a task from a bundle created by
+	 * `bundleTaskRepo`, with `workspaceDir` as its working tree. The workspace
+	 * itself is left untouched until a checkpoint is restored.
+	 */
+	public static async restoreTaskRepo({
+		taskId,
+		globalStorageDir,
+		workspaceDir,
+		bundle,
+	}: {
+		taskId: string
+		globalStorageDir: string
+		workspaceDir: string
+		bundle: Buffer
+	}) {
+		const repoDir = this.taskRepoDir({ taskId, globalStorageDir })
+
+		if (await fileExistsAtPath(path.join(repoDir, ".git"))) {
+			throw new Error(`Shadow git repo already exists for task ${taskId}`)
+		}
+
+		const bundlePath = path.join(os.tmpdir(), `roo-${taskId}-${Date.now()}.bundle`)
+		await fs.writeFile(bundlePath, bundle)
+		await fs.mkdir(repoDir, { recursive: true })
+
+		try {
+			const git = createSanitizedGit(repoDir)
+			await this.initRepo(git, workspaceDir)
+
+			// The bundled checkpoints are pinned, since those that are not
+			// reachable from HEAD would otherwise be lost to garbage collection.
+			const headRef = `${ARCHIVE_REF_PREFIX}HEAD`
+			await git.raw([
+				"fetch",
+				"--quiet",
+				bundlePath,
+				`+HEAD:${headRef}`,
+				`+${ARCHIVE_REF_PREFIX}*:${CHECKPOINT_REF_PREFIX}*`,
+			])
+			await git.raw(["update-ref", "HEAD", (await git.revparse([headRef])).trim()])
+			await git.raw(["update-ref", "-d", headRef])
+		} catch (error) {
+			await fs.rm(repoDir, { recursive: true, force: true })
+			throw error
+		} finally {
+			await fs.rm(bundlePath, { force: true })
+		}
+
+		console.log(`[${this.name}#restoreTaskRepo.${taskId}] restored shadow repo for ${workspaceDir}`)
+	}
+
+	/**
+	 * Returns the ids of all tasks that have a shadow repo in global storage.
+	 */
+	public static async listTaskRepos(globalStorageDir: string): Promise<string[]> {
+		const tasksDir = path.join(globalStorageDir, "tasks")
+		let taskIds: string[]
+
+		try {
+			taskIds = await fs.readdir(tasksDir)
+		} catch (error) {
+			return []
+		}
+
+		const hasRepo = await Promise.all(
+			taskIds.map((taskId) =>
+				fileExistsAtPath(path.join(this.taskRepoDir({ taskId, globalStorageDir }), ".git")),
+			),
+		)
+
+		return taskIds.filter((_, index) => hasRepo[index])
+	}
+
+	public static async getTaskRepoStats({
+		taskId,
+		globalStorageDir,
+	}: {
+		taskId: string
+		globalStorageDir: string
+	}): Promise<CheckpointRepoStats> {
+		const repoDir = this.taskRepoDir({ taskId, globalStorageDir })
+		const git = createSanitizedGit(repoDir)
+		const sizeBytes = await getFolderSize.loose(repoDir)
+
+		// The first commit is the initial snapshot of the workspace, not a checkpoint.
+		const commitCount = parseInt((await git.raw(["rev-list", "--count", ...CHECKPOINT_REVISIONS])).trim(), 10) || 0
+		const lastCommitAt =
+			parseInt((await git.raw(["log", "-1", "--format=%ct", ...CHECKPOINT_REVISIONS])).trim(), 10) * 1000 || 0
+
+		return { taskId, sizeBytes, checkpointCount: Math.max(commitCount - 1, 0), lastCommitAt }
+	}
+
+	/**
+	 * Keeps the given checkpoints of a task's shadow repo through garbage
+	 * collection, and releases the ones kept before that are no longer listed.
+	 * Hashes that don't exist in the repo are ignored.
+	 */
+	public static async pinCheckpoints({
+		taskId,
+		globalStorageDir,
+		commitHashes,
+	}: {
+		taskId: string
+		globalStorageDir: string
+		commitHashes: string[]
+	}) {
+		const git = createSanitizedGit(this.taskRepoDir({ taskId, globalStorageDir }))
+		const pinned = await this.listPinnedCheckpoints(git)
+		// Checkpoints left behind by a restore are only reachable through the reflog.
+		const existing = new Set((await git.raw(["rev-list", "--all", "--reflog"])).split("\n").filter(Boolean))
+		const wanted = new Set(commitHashes.filter((commitHash) => existing.has(commitHash)))
+
+		for (const commitHash of wanted) {
+			if (!pinned.includes(commitHash)) {
+				await git.raw(["update-ref", `${CHECKPOINT_REF_PREFIX}${commitHash}`, commitHash])
+			}
+		}
+
+		for (const commitHash of pinned) {
+			if (!wanted.has(commitHash)) {
+				await git.raw(["update-ref", "-d", `${CHECKPOINT_REF_PREFIX}${commitHash}`])
+			}
+		}
+	}
+
+	private static async listPinnedCheckpoints(git: SimpleGit): Promise<string[]> {
+		return (await git.raw(["for-each-ref", "--format=%(objectname)", CHECKPOINT_REF_PREFIX]))
+			.split("\n")
+			.filter(Boolean)
+	}
+
+	/**
+	 * Drops all but the most recent `maxCheckpoints` checkpoints from a task's
+	 * shadow repo, including the pinned ones that are not reachable from HEAD.
+	 * The kept checkpoints are recreated, with their original dates, on top of
+	 * the nearest kept checkpoint they descend from, so their hashes change;
+	 * the returned map translates old hashes to new ones. Returns undefined if
+	 * nothing needed to be dropped.
+	 *
+	 * Call `gcTaskRepo` afterwards to actually reclaim the disk space.
+	 */
+	public static async trimTaskRepo({
+		taskId,
+		globalStorageDir,
+		maxCheckpoints,
+	}: {
+		taskId: string
+		globalStorageDir: string
+		maxCheckpoints: number
+	}): Promise<Map<string, string> | undefined> {
+		const git = createSanitizedGit(this.taskRepoDir({ taskId, globalStorageDir }))
+
+		// Parents come before their children.
+		const commits = (
+			await git.raw(["log", "--topo-order", "--reverse", "--format=%H %ct %P", ...CHECKPOINT_REVISIONS])
+		)
+			.split("\n")
+			.filter(Boolean)
+			.map((line, index) => {
+				const [hash, committedAt, parent] = line.split(" ")
+				return { hash, committedAt: parseInt(committedAt, 10), parent, index }
+			})
+
+		const head = (await git.revparse(["HEAD"])).trim()
+
+		// Keep the most recent checkpoints plus the commit the oldest of them
+		// is diffed against, and always the commit the workspace is at.
+		const keep = new Set(
+			[...commits]
+				.sort((a, b) => b.committedAt - a.committedAt || b.index - a.index)
+				.slice(0, maxCheckpoints + 1)
+				.map(({ hash }) => hash),
+		)
+		keep.add(head)
+
+		if (keep.size === commits.length) {
+			return undefined
+		}
+
+		const parents = new Map(commits.map(({ hash, parent }) => [hash, parent]))
+		const hashes = new Map<string, string>()
+
+		for (const { hash } of commits) {
+			if (!keep.has(hash)) {
+				continue
+			}
+
+			let parent = parents.get(hash)
+
+			while (parent && !hashes.has(parent)) {
+				parent = parents.get(parent)
+			}
+
+			const [tree, authorDate, committerDate, message] = (
+				await git.raw(["show", "-s", "--date=raw", "--format=%T%x00%ad%x00%cd%x00%B", hash])
+			).split("\0")
+
+			git.env("GIT_AUTHOR_DATE", authorDate).env("GIT_COMMITTER_DATE", committerDate)
+			const args = [
+				"commit-tree",
+				tree,
+				...(parent ? ["-p", hashes.get(parent)!] : []),
+				"-m",
+				message.trim() || hash,
+			]
+			hashes.set(hash, (await git.raw(args)).trim())
+		}
+
+		for (const commitHash of await this.listPinnedCheckpoints(git)) {
+			await git.raw(["update-ref", "-d", `${CHECKPOINT_REF_PREFIX}${commitHash}`])
+
+			if (hashes.has(commitHash)) {
+				const newHash = hashes.get(commitHash)!
+				await git.raw(["update-ref", `${CHECKPOINT_REF_PREFIX}${newHash}`, newHash])
+			}
+		}
+
+		await git.raw(["update-ref", "HEAD", hashes.get(head)!])
+
+		return hashes
+	}
+
+	/**
+	 * Expires reflogs and prunes unreachable objects from a task's shadow repo.
+	 * Checkpoints that are not reachable from HEAD survive only if they were
+	 * pinned with `pinCheckpoints`.
+	 */
+	public static async gcTaskRepo({ taskId, globalStorageDir }: { taskId: string; globalStorageDir: string }) {
+		const git = createSanitizedGit(this.taskRepoDir({ taskId, globalStorageDir }))
+		await git.raw(["reflog", "expire", "--expire=now", "--all"])
+		await git.raw(["gc", "--prune=now", "--quiet"])
+	}
+
+	public static async deleteTaskRepo({ taskId, globalStorageDir }: { taskId: string; globalStorageDir: string }) {
+		await fs.rm(this.taskRepoDir({ taskId, globalStorageDir }), { recursive: true, force: true })
+	}
+
 	public static async deleteTask({
 		taskId,
 		globalStorageDir,
@@ -448,6 +790,10 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		globalStorageDir: string
 		workspaceDir: string
 	}) {
+		// Shadow repos live in global storage, which may differ from the
+		// (configurable) task storage directory removed along with the task.
+		await this.deleteTaskRepo({ taskId, globalStorageDir })
+
 		const workspaceRepoDir = this.workspaceRepoDir({ globalStorageDir, workspaceDir })
 		const branchName = `roo-${taskId}`
 		const git = createSanitizedGit(workspaceRepoDir)
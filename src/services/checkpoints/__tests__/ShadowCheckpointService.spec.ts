@@ -378,6 +378,243 @@ describe.each([[RepoPerTaskCheckpointService, "RepoPerTaskCheckpointService"]])(
 			})
 		})
 
+		describe(`${klass.name}#forkTask`, () => {
+			it("starts the forked task's shadow repo from the selected checkpoint", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "../../..")
+				const forkTaskId = "forked-task"
+
+				await fs.writeFile(testFile, "Ahoy, world!")
+				const commit1 = await service.saveCheckpoint("First checkpoint")
+				await fs.writeFile(testFile, "Hola, world!")
+				const commit2 = await service.saveCheckpoint("Second checkpoint")
+
+				await klass.forkTask({ taskId, forkTaskId, globalStorageDir, commitHash: commit1!.commit })
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Ahoy, world!")
+
+				const forkService = klass.create({
+					taskId: forkTaskId,
+					shadowDir: globalStorageDir,
+					workspaceDir: service.workspaceDir,
+					log: () => {},
+				})
+
+				const { created } = await forkService.initShadowGit()
+				expect(created).toBe(false)
+				expect(forkService.baseHash).toBe(commit1!.commit)
+
+				// The forked task checkpoints independently of the original task.
+				await fs.writeFile(testFile, "Bonjour, world!")
+				const forkCommit = await forkService.saveCheckpoint("Forked checkpoint")
+				expect(forkCommit?.commit).toBeTruthy()
+				expect(service.getCheckpoints()).toEqual([commit1!.commit, commit2!.commit])
+
+				// The original task can still return to its own latest checkpoint.
+				await service.restoreCheckpoint(commit2!.commit)
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Hola, world!")
+			})
+
+			it("refuses to overwrite an existing shadow repo", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "../../..")
+
+				await expect(
+					klass.forkTask({ taskId, forkTaskId: taskId, globalStorageDir, commitHash: service.baseHash! }),
+				).rejects.toThrow(`Shadow git repo already exists for task ${taskId}`)
+			})
+		})
+
+		describe(`${klass.name}#bundleTaskRepo`, () => {
+			it("restores the checkpoints of a bundled task into a new shadow repo", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "../../..")
+				const importedTaskId = "imported-task"
+
+				await fs.writeFile(testFile, "Ahoy, world!")
+				const commit1 = await service.saveCheckpoint("First checkpoint")
+				await fs.writeFile(testFile, "Hola, world!")
+				const commit2 = await service.saveCheckpoint("Second checkpoint")
+				await service.restoreCheckpoint(commit1!.commit)
+
+				const bundle = await klass.bundleTaskRepo({
+					taskId,
+					globalStorageDir,
+					commitHashes: [commit1!.commit, commit2!.commit, "0".repeat(40)],
+				})
+
+				await klass.restoreTaskRepo({
+					taskId: importedTaskId,
+					globalStorageDir,
+					workspaceDir: service.workspaceDir,
+					bundle: bundle!,
+				})
+
+				const importedService = klass.create({
+					taskId: importedTaskId,
+					shadowDir: globalStorageDir,
+					workspaceDir: service.workspaceDir,
+					log: () => {},
+				})
+
+				const { created } = await importedService.initShadowGit()
+				expect(created).toBe(false)
+
+				// Checkpoints that are not reachable from HEAD survive garbage collection.
+				await klass.gcTaskRepo({ taskId: importedTaskId, globalStorageDir })
+				await importedService.restoreCheckpoint(commit2!.commit)
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Hola, world!")
+
+				// The temporary refs used for the transfer are removed on both sides.
+				for (const dir of [service.checkpointsDir, importedService.checkpointsDir]) {
+					expect(await simpleGit(dir).raw(["for-each-ref", "refs/roo-archive/"])).toBe("")
+				}
+			})
+
+			it("returns undefined if the task has no shadow repo", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "../../..")
+
+				expect(await klass.bundleTaskRepo({ taskId: "missing", globalStorageDir })).toBeUndefined()
+			})
+
+			it("refuses to overwrite an existing shadow repo", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "../../..")
+				const bundle = await klass.bundleTaskRepo({ taskId, globalStorageDir })
+
+				await expect(
+					klass.restoreTaskRepo({
+						taskId,
+						globalStorageDir,
+						workspaceDir: service.workspaceDir,
+						bundle: bundle!,
+					}),
+				).rejects.toThrow(`Shadow git repo already exists for task ${taskId}`)
+			})
+		})
+
+		describe(`${klass.name}#retention`, () => {
+			it("reports the checkpoint count and size of each task's shadow repo", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "../../..")
+
+				await fs.writeFile(testFile, "Ahoy, world!")
+				await service.saveCheckpoint("First checkpoint")
+				await fs.writeFile(testFile, "Hola, world!")
+				await service.saveCheckpoint("Second checkpoint")
+
+				expect(await klass.listTaskRepos(globalStorageDir)).toEqual([taskId])
+
+				const stats = await klass.getTaskRepoStats({ taskId, globalStorageDir })
+				expect(stats.taskId).toBe(taskId)
+				expect(stats.checkpointCount).toBe(2)
+				expect(stats.sizeBytes).toBeGreaterThan(0)
+				expect(stats.lastCommitAt).toBeGreaterThan(0)
+			})
+
+			it("trims old checkpoints and keeps the recent ones restorable", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "../../..")
+				const commits: string[] = []
+
+				for (const greeting of ["Ahoy", "Hola", "Bonjour"]) {
+					await fs.writeFile(testFile, `${greeting}, world!`)
+					commits.push((await service.saveCheckpoint(`${greeting} checkpoint`))!.commit)
+				}
+
+				const hashes = await klass.trimTaskRepo({ taskId, globalStorageDir, maxCheckpoints: 1 })
+				expect(Array.from(hashes!.keys())).toEqual(commits.slice(1))
+
+				await klass.gcTaskRepo({ taskId, globalStorageDir })
+
+				const stats = await klass.getTaskRepoStats({ taskId, globalStorageDir })
+				expect(stats.checkpointCount).toBe(1)
+
+				// The dropped checkpoint is gone, the kept ones are available under their new hashes.
+				await expect(simpleGit(service.checkpointsDir).raw(["cat-file", "-t", commits[0]])).rejects.toThrow()
+
+				await fs.writeFile(testFile, "Changed, world!")
+				const restoreService = klass.create({
+					taskId,
+					shadowDir: globalStorageDir,
+					workspaceDir: service.workspaceDir,
+					log: () => {},
+				})
+				await restoreService.initShadowGit()
+				await restoreService.restoreCheckpoint(hashes!.get(commits[1])!)
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Hola, world!")
+			})
+
+			it("keeps pinned checkpoints that are no longer reachable from HEAD through garbage collection", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "../../..")
+
+				await fs.writeFile(testFile, "Ahoy, world!")
+				const commit1 = await service.saveCheckpoint("First checkpoint")
+				await fs.writeFile(testFile, "Hola, world!")
+				const commit2 = await service.saveCheckpoint("Second checkpoint")
+				await service.restoreCheckpoint(commit1!.commit)
+
+				await klass.pinCheckpoints({
+					taskId,
+					globalStorageDir,
+					commitHashes: [commit1!.commit, commit2!.commit, "0".repeat(40)],
+				})
+				await klass.gcTaskRepo({ taskId, globalStorageDir })
+
+				expect((await klass.getTaskRepoStats({ taskId, globalStorageDir })).checkpointCount).toBe(2)
+				await service.restoreCheckpoint(commit2!.commit)
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Hola, world!")
+
+				// Checkpoints that are no longer pinned are released.
+				await klass.pinCheckpoints({ taskId, globalStorageDir, commitHashes: [] })
+				expect(await simpleGit(service.checkpointsDir).raw(["for-each-ref", "refs/roo-checkpoints/"])).toBe("")
+			})
+
+			it("trims pinned checkpoints off HEAD and keeps the dates of the kept ones", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "../../..")
+				const git = simpleGit(service.checkpointsDir)
+				const getDates = (commit: string) => git.raw(["show", "-s", "--format=%at %ct", commit])
+
+				await fs.writeFile(testFile, "Ahoy, world!")
+				const commit1 = (await service.saveCheckpoint("First checkpoint"))!.commit
+				await fs.writeFile(testFile, "Hola, world!")
+				const commit2 = (await service.saveCheckpoint("Second checkpoint"))!.commit
+				await service.restoreCheckpoint(commit1)
+				await fs.writeFile(testFile, "Bonjour, world!")
+				const commit3 = (await service.saveCheckpoint("Third checkpoint"))!.commit
+
+				await klass.pinCheckpoints({ taskId, globalStorageDir, commitHashes: [commit1, commit2, commit3] })
+				const dates = await getDates(commit1)
+				const hashes = await klass.trimTaskRepo({ taskId, globalStorageDir, maxCheckpoints: 2 })
+				expect(new Set(hashes!.keys())).toEqual(new Set([commit1, commit2, commit3]))
+
+				await klass.gcTaskRepo({ taskId, globalStorageDir })
+
+				expect(await getDates(hashes!.get(commit1)!)).toBe(dates)
+				expect((await klass.getTaskRepoStats({ taskId, globalStorageDir })).checkpointCount).toBe(2)
+
+				const restoreService = klass.create({
+					taskId,
+					shadowDir: globalStorageDir,
+					workspaceDir: service.workspaceDir,
+					log: () => {},
+				})
+				await restoreService.initShadowGit()
+				await restoreService.restoreCheckpoint(hashes!.get(commit2)!)
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Hola, world!")
+			})
+
+			it("does nothing if the task has no more than the maximum number of checkpoints", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "../../..")
+
+				await fs.writeFile(testFile, "Ahoy, world!")
+				await service.saveCheckpoint("First checkpoint")
+
+				expect(await klass.trimTaskRepo({ taskId, globalStorageDir, maxCheckpoints: 1 })).toBeUndefined()
+			})
+
+			it("deletes a task's shadow repo", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "../../..")
+
+				await klass.deleteTaskRepo({ taskId, globalStorageDir })
+
+				expect(await klass.listTaskRepos(globalStorageDir)).toEqual([])
+			})
+		})
+
 		describe(`${klass.name}#hasNestedGitRepositories`, () => {
 			it("throws error when nested git repositories are detected during initialization", async () => {
 				// Create a new temporary workspace and service for this test.
@@ -13,6 +13,13 @@ export type CheckpointDiff = {
 	}
 }
 
+export type CheckpointRepoStats = {
+	taskId: string
+	sizeBytes: number
+	checkpointCount: number
+	lastCommitAt: number
+}
+
 export interface CheckpointServiceOptions {
 	taskId: string
 	workspaceDir: string
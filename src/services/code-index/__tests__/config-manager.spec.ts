@@ -105,6 +105,7 @@ describe("CodeIndexConfigManager", () => {
 				openAiOptions: { openAiNativeApiKey: "" },
 				ollamaOptions: { ollamaBaseUrl: "" },
 				bedrockOptions: { region: "us-east-1", profile: undefined },
+				vectorStoreProvider: "qdrant",
 				qdrantUrl: "http://localhost:6333",
 				qdrantApiKey: "",
 				searchMinScore: 0.4,
@@ -459,6 +460,54 @@ describe("CodeIndexConfigManager", () => {
 				expect(result.requiresRestart).toBe(true)
 			})
 
+			it("should detect restart requirement when the vector store backend changes", async () => {
+				mockContextProxy.getGlobalState.mockReturnValue({
+					codebaseIndexEnabled: true,
+					codebaseIndexQdrantUrl: "http://qdrant.local",
+					codebaseIndexEmbedderProvider: "openai",
+					codebaseIndexEmbedderModelId: "text-embedding-3-small",
+				})
+				setupSecretMocks({ codeIndexOpenAiKey: "test-key" })
+
+				await configManager.loadConfiguration()
+
+				mockContextProxy.getGlobalState.mockReturnValue({
+					codebaseIndexEnabled: true,
+					codebaseIndexVectorStoreProvider: "local",
+					codebaseIndexQdrantUrl: "http://qdrant.local",
+					codebaseIndexEmbedderProvider: "openai",
+					codebaseIndexEmbedderModelId: "text-embedding-3-small",
+				})
+
+				const result = await configManager.loadConfiguration()
+				expect(result.requiresRestart).toBe(true)
+				expect(configManager.currentVectorStoreProvider).toBe("local")
+			})
+
+			it("should not require restart for Qdrant URL changes when using the local vector store", async () => {
+				mockContextProxy.getGlobalState.mockReturnValue({
+					codebaseIndexEnabled: true,
+					codebaseIndexVectorStoreProvider: "local",
+					codebaseIndexQdrantUrl: "http://old-qdrant.local",
+					codebaseIndexEmbedderProvider: "openai",
+					codebaseIndexEmbedderModelId: "text-embedding-3-small",
+				})
+				setupSecretMocks({ codeIndexOpenAiKey: "test-key" })
+
+				await configManager.loadConfiguration()
+
+				mockContextProxy.getGlobalState.mockReturnValue({
+					codebaseIndexEnabled: true,
+					codebaseIndexVectorStoreProvider: "local",
+					codebaseIndexQdrantUrl: "http://new-qdrant.local",
+					codebaseIndexEmbedderProvider: "openai",
+					codebaseIndexEmbedderModelId: "text-embedding-3-small",
+				})
+
+				const result = await configManager.loadConfiguration()
+				expect(result.requiresRestart).toBe(false)
+			})
+
 			it("should handle unknown model dimensions safely", async () => {
 				// Initial state with known model
 				mockContextProxy.getGlobalState.mockReturnValue({
@@ -1018,6 +1067,33 @@ describe("CodeIndexConfigManager", () => {
 					expect(maxManager.currentSearchMaxResults).toBe(200)
 				})
 			})
+
+			describe("currentSearchMode", () => {
+				it("should default to semantic and apply hybrid without requiring a restart", async () => {
+					mockContextProxy.getGlobalState.mockReturnValue({
+						codebaseIndexEnabled: true,
+						codebaseIndexQdrantUrl: "http://qdrant.local",
+						codebaseIndexEmbedderProvider: "openai",
+						codebaseIndexEmbedderModelId: "text-embedding-3-small",
+					})
+					setupSecretMocks({ codeIndexOpenAiKey: "test-key" })
+
+					await configManager.loadConfiguration()
+					expect(configManager.currentSearchMode).toBe("semantic")
+
+					mockContextProxy.getGlobalState.mockReturnValue({
+						codebaseIndexEnabled: true,
+						codebaseIndexQdrantUrl: "http://qdrant.local",
+						codebaseIndexEmbedderProvider: "openai",
+						codebaseIndexEmbedderModelId: "text-embedding-3-small",
+						codebaseIndexSearchMode: "hybrid",
+					})
+
+					const result = await configManager.loadConfiguration()
+					expect(result.requiresRestart).toBe(false)
+					expect(configManager.currentSearchMode).toBe("hybrid")
+				})
+			})
 		})
 
 		describe("empty/missing API key handling", () => {
@@ -1145,6 +1221,22 @@ describe("CodeIndexConfigManager", () => {
 			expect(configManager.isFeatureConfigured).toBe(true)
 		})
 
+		it("should not require a Qdrant URL when using the local vector store", async () => {
+			mockContextProxy.getGlobalState.mockReturnValue({
+				codebaseIndexEnabled: true,
+				codebaseIndexVectorStoreProvider: "local",
+				codebaseIndexQdrantUrl: "",
+				codebaseIndexEmbedderProvider: "openai",
+			})
+			setupSecretMocks({
+				codeIndexOpenAiKey: "test-key",
+			})
+
+			await configManager.loadConfiguration()
+			expect(configManager.isFeatureConfigured).toBe(true)
+			expect(configManager.getConfig().vectorStoreProvider).toBe("local")
+		})
+
 		it("should validate Ollama configuration correctly", async () => {
 			mockContextProxy.getGlobalState.mockReturnValue({
 				codebaseIndexEnabled: true,
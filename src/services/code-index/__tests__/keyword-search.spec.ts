@@ -0,0 +1,117 @@
+// npx vitest services/code-index/__tests__/keyword-search.spec.ts
+
+import { extractQueryTerms, rankKeywordBlocks, RipgrepKeywordSearcher } from "../keyword-search"
+import { searchLiteralTerms } from "../../ripgrep"
+
+vitest.mock("../../ripgrep", () => ({
+	searchLiteralTerms: vitest.fn(),
+}))
+
+describe("extractQueryTerms", () => {
+	it("should keep identifiers and drop stop words and short tokens", () => {
+		expect(extractQueryTerms("where is the parseConfig function defined")).toEqual(["parseConfig"])
+	})
+
+	it("should keep backtick-quoted segments verbatim", () => {
+		expect(extractQueryTerms("how is `getState()` used in ClineProvider")).toEqual(["getState()", "ClineProvider"])
+	})
+
+	it("should deduplicate terms case-insensitively", () => {
+		expect(extractQueryTerms("Token token TOKEN")).toEqual(["Token"])
+	})
+
+	it("should return no terms for a purely conversational query", () => {
+		expect(extractQueryTerms("how does it work")).toEqual(["work"])
+		expect(extractQueryTerms("what is it")).toEqual([])
+	})
+})
+
+describe("rankKeywordBlocks", () => {
+	const block = (filePath: string, codeChunk: string) => ({ filePath, startLine: 1, endLine: 3, codeChunk })
+
+	it("should rank blocks matching rarer and more terms higher", () => {
+		const results = rankKeywordBlocks(
+			[
+				block("a.ts", "const value = 1"),
+				block("b.ts", "function parseConfig(value) { return value }"),
+				block("c.ts", "const other = value"),
+			],
+			["parseConfig", "value"],
+		)
+
+		expect(results.map((r) => r.filePath)).toEqual(["b.ts", "a.ts", "c.ts"])
+		expect(results[0].matchedTerms).toEqual(["parseConfig", "value"])
+	})
+
+	it("should drop blocks that match no terms", () => {
+		const results = rankKeywordBlocks([block("a.ts", "nothing here")], ["parseConfig"])
+		expect(results).toEqual([])
+	})
+})
+
+describe("RipgrepKeywordSearcher", () => {
+	const workspacePath = "/test/workspace"
+
+	beforeEach(() => {
+		vitest.clearAllMocks()
+	})
+
+	it("should group matched lines into blocks with workspace-relative paths", async () => {
+		vitest.mocked(searchLiteralTerms).mockResolvedValue([
+			{ filePath: "/test/workspace/src/config.ts", line: 9, text: "// helpers", isMatch: false },
+			{
+				filePath: "/test/workspace/src/config.ts",
+				line: 10,
+				text: "export function parseConfig() {",
+				isMatch: true,
+			},
+			{ filePath: "/test/workspace/src/config.ts", line: 11, text: "}", isMatch: false },
+			{ filePath: "/test/workspace/src/other.ts", line: 40, text: "parseConfig()", isMatch: true },
+		])
+
+		const searcher = new RipgrepKeywordSearcher(workspacePath)
+		const results = await searcher.search("where is `parseConfig` defined")
+
+		expect(searchLiteralTerms).toHaveBeenCalledWith(
+			workspacePath,
+			["parseConfig"],
+			expect.objectContaining({ ignoreCase: true, contextLines: 2 }),
+		)
+		expect(results).toHaveLength(2)
+		expect(results.find((r) => r.filePath === "src/config.ts")).toMatchObject({
+			startLine: 9,
+			endLine: 11,
+			codeChunk: "// helpers\nexport function parseConfig() {\n}",
+		})
+	})
+
+	it("should search within the directory prefix and respect .rooignore", async () => {
+		vitest.mocked(searchLiteralTerms).mockResolvedValue([
+			{ filePath: "/test/workspace/src/a.ts", line: 1, text: "parseConfig", isMatch: true },
+			{ filePath: "/test/workspace/src/secret.ts", line: 1, text: "parseConfig", isMatch: true },
+		])
+		const rooIgnoreController = {
+			validateAccess: vitest.fn((filePath: string) => !filePath.includes("secret")),
+		}
+
+		const searcher = new RipgrepKeywordSearcher(workspacePath, rooIgnoreController as any)
+		const results = await searcher.search("parseConfig", "src")
+
+		expect(vitest.mocked(searchLiteralTerms).mock.calls[0][0]).toBe("/test/workspace/src")
+		expect(results.map((r) => r.filePath)).toEqual(["src/a.ts"])
+	})
+
+	it("should reject a directory prefix outside the workspace", async () => {
+		const searcher = new RipgrepKeywordSearcher(workspacePath)
+
+		await expect(searcher.search("parseConfig", "../..")).rejects.toThrow("outside the workspace")
+		await expect(searcher.search("parseConfig", "/etc")).rejects.toThrow("outside the workspace")
+		expect(searchLiteralTerms).not.toHaveBeenCalled()
+	})
+
+	it("should not run ripgrep when the query has no usable terms", async () => {
+		const searcher = new RipgrepKeywordSearcher(workspacePath)
+		expect(await searcher.search("what is it")).toEqual([])
+		expect(searchLiteralTerms).not.toHaveBeenCalled()
+	})
+})
@@ -1,6 +1,7 @@
 import { ApiHandlerOptions } from "../../shared/api"
 import { ContextProxy } from "../../core/config/ContextProxy"
-import { EmbedderProvider } from "./interfaces/manager"
+import { EmbedderProvider, VectorStoreProvider } from "./interfaces/manager"
+import { SearchMode } from "./interfaces/search"
 import { CodeIndexConfig, PreviousConfigSnapshot } from "./interfaces/config"
 import { DEFAULT_SEARCH_MIN_SCORE, DEFAULT_MAX_SEARCH_RESULTS } from "./constants"
 import { getDefaultModelId, getModelDimension, getModelScoreThreshold } from "../../shared/embeddingModels"
@@ -22,10 +23,12 @@ export class CodeIndexConfigManager {
 	private vercelAiGatewayOptions?: { apiKey: string }
 	private bedrockOptions?: { region: string; profile?: string }
 	private openRouterOptions?: { apiKey: string; specificProvider?: string }
+	private vectorStoreProvider: VectorStoreProvider = "qdrant"
 	private qdrantUrl?: string = "http://localhost:6333"
 	private qdrantApiKey?: string
 	private searchMinScore?: number
 	private searchMaxResults?: number
+	private searchMode: SearchMode = "semantic"
 
 	constructor(private readonly contextProxy: ContextProxy) {
 		// Initialize with current configuration to avoid false restart triggers
@@ -47,6 +50,7 @@ export class CodeIndexConfigManager {
 		// Load configuration from storage
 		const codebaseIndexConfig = this.contextProxy?.getGlobalState("codebaseIndexConfig") ?? {
 			codebaseIndexEnabled: false,
+			codebaseIndexVectorStoreProvider: "qdrant",
 			codebaseIndexQdrantUrl: "http://localhost:6333",
 			codebaseIndexEmbedderProvider: "openai",
 			codebaseIndexEmbedderBaseUrl: "",
@@ -59,12 +63,14 @@ export class CodeIndexConfigManager {
 
 		const {
 			codebaseIndexEnabled,
+			codebaseIndexVectorStoreProvider,
 			codebaseIndexQdrantUrl,
 			codebaseIndexEmbedderProvider,
 			codebaseIndexEmbedderBaseUrl,
 			codebaseIndexEmbedderModelId,
 			codebaseIndexSearchMinScore,
 			codebaseIndexSearchMaxResults,
+			codebaseIndexSearchMode,
 		} = codebaseIndexConfig
 
 		const openAiKey = this.contextProxy?.getSecret("codeIndexOpenAiKey") ?? ""
@@ -82,10 +88,12 @@ export class CodeIndexConfigManager {
 
 		// Update instance variables with configuration
 		this.codebaseIndexEnabled = codebaseIndexEnabled ?? false
+		this.vectorStoreProvider = codebaseIndexVectorStoreProvider === "local" ? "local" : "qdrant"
 		this.qdrantUrl = codebaseIndexQdrantUrl
 		this.qdrantApiKey = qdrantApiKey ?? ""
 		this.searchMinScore = codebaseIndexSearchMinScore
 		this.searchMaxResults = codebaseIndexSearchMaxResults
+		this.searchMode = codebaseIndexSearchMode === "hybrid" ? "hybrid" : "semantic"
 
 		// Validate and set model dimension
 		const rawDimension = codebaseIndexConfig.codebaseIndexEmbedderModelDimension
@@ -168,6 +176,7 @@ export class CodeIndexConfigManager {
 			vercelAiGatewayOptions?: { apiKey: string }
 			bedrockOptions?: { region: string; profile?: string }
 			openRouterOptions?: { apiKey: string }
+			vectorStoreProvider: VectorStoreProvider
 			qdrantUrl?: string
 			qdrantApiKey?: string
 			searchMinScore?: number
@@ -192,6 +201,7 @@ export class CodeIndexConfigManager {
 			bedrockProfile: this.bedrockOptions?.profile ?? "",
 			openRouterApiKey: this.openRouterOptions?.apiKey ?? "",
 			openRouterSpecificProvider: this.openRouterOptions?.specificProvider ?? "",
+			vectorStoreProvider: this.vectorStoreProvider,
 			qdrantUrl: this.qdrantUrl ?? "",
 			qdrantApiKey: this.qdrantApiKey ?? "",
 		}
@@ -219,6 +229,7 @@ export class CodeIndexConfigManager {
 				vercelAiGatewayOptions: this.vercelAiGatewayOptions,
 				bedrockOptions: this.bedrockOptions,
 				openRouterOptions: this.openRouterOptions,
+				vectorStoreProvider: this.vectorStoreProvider,
 				qdrantUrl: this.qdrantUrl,
 				qdrantApiKey: this.qdrantApiKey,
 				searchMinScore: this.currentSearchMinScore,
@@ -227,50 +238,61 @@ export class CodeIndexConfigManager {
 		}
 	}
 
+	/**
+	 * Checks if the selected vector store has the settings it needs.
+	 * The local store persists to extension storage and needs no configuration.
+	 */
+	private isVectorStoreConfigured(): boolean {
+		if (this.vectorStoreProvider === "local") {
+			return true
+		}
+		return !!this.qdrantUrl
+	}
+
 	/**
 	 * Checks if the service is properly configured based on the embedder type.
 	 */
 	public isConfigured(): boolean {
 		if (this.embedderProvider === "openai") {
 			const openAiKey = this.openAiOptions?.openAiNativeApiKey
-			const qdrantUrl = this.qdrantUrl
-			return !!(openAiKey && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			return !!(openAiKey && vectorStoreConfigured)
 		} else if (this.embedderProvider === "ollama") {
 			// Ollama model ID has a default, so only base URL is strictly required for config
 			const ollamaBaseUrl = this.ollamaOptions?.ollamaBaseUrl
-			const qdrantUrl = this.qdrantUrl
-			return !!(ollamaBaseUrl && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			return !!(ollamaBaseUrl && vectorStoreConfigured)
 		} else if (this.embedderProvider === "openai-compatible") {
 			const baseUrl = this.openAiCompatibleOptions?.baseUrl
 			const apiKey = this.openAiCompatibleOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(baseUrl && apiKey && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			const isConfigured = !!(baseUrl && apiKey && vectorStoreConfigured)
 			return isConfigured
 		} else if (this.embedderProvider === "gemini") {
 			const apiKey = this.geminiOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			const isConfigured = !!(apiKey && vectorStoreConfigured)
 			return isConfigured
 		} else if (this.embedderProvider === "mistral") {
 			const apiKey = this.mistralOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			const isConfigured = !!(apiKey && vectorStoreConfigured)
 			return isConfigured
 		} else if (this.embedderProvider === "vercel-ai-gateway") {
 			const apiKey = this.vercelAiGatewayOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			const isConfigured = !!(apiKey && vectorStoreConfigured)
 			return isConfigured
 		} else if (this.embedderProvider === "bedrock") {
 			// Only region is required for Bedrock (profile is optional)
 			const region = this.bedrockOptions?.region
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(region && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			const isConfigured = !!(region && vectorStoreConfigured)
 			return isConfigured
 		} else if (this.embedderProvider === "openrouter") {
 			const apiKey = this.openRouterOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const vectorStoreConfigured = this.isVectorStoreConfigured()
+			const isConfigured = !!(apiKey && vectorStoreConfigured)
 			return isConfigured
 		}
 		return false // Should not happen if embedderProvider is always set correctly
@@ -284,11 +306,13 @@ export class CodeIndexConfigManager {
 	 * - Provider changes (openai -> ollama, etc.)
 	 * - Authentication changes (API keys, base URLs)
 	 * - Vector dimension changes (model changes that affect embedding size)
+	 * - Vector store backend changes (Qdrant <-> local)
 	 * - Qdrant connection changes (URL, API key)
 	 * - Feature enable/disable transitions
 	 *
 	 * MINOR CHANGES (no restart needed):
 	 * - Search minimum score adjustments
+	 * - Search mode (semantic/hybrid) changes
 	 * - UI-only settings
 	 * - Non-functional configuration tweaks
 	 */
@@ -311,6 +335,7 @@ export class CodeIndexConfigManager {
 		const prevBedrockProfile = prev?.bedrockProfile ?? ""
 		const prevOpenRouterApiKey = prev?.openRouterApiKey ?? ""
 		const prevOpenRouterSpecificProvider = prev?.openRouterSpecificProvider ?? ""
+		const prevVectorStoreProvider = prev?.vectorStoreProvider ?? "qdrant"
 		const prevQdrantUrl = prev?.qdrantUrl ?? ""
 		const prevQdrantApiKey = prev?.qdrantApiKey ?? ""
 
@@ -340,6 +365,11 @@ export class CodeIndexConfigManager {
 			return true
 		}
 
+		// Vector store backend change
+		if (prevVectorStoreProvider !== this.vectorStoreProvider) {
+			return true
+		}
+
 		// Authentication changes (API keys)
 		const currentOpenAiKey = this.openAiOptions?.openAiNativeApiKey ?? ""
 		const currentOllamaBaseUrl = this.ollamaOptions?.ollamaBaseUrl ?? ""
@@ -401,7 +431,11 @@ export class CodeIndexConfigManager {
 			return true
 		}
 
-		if (prevQdrantUrl !== currentQdrantUrl || prevQdrantApiKey !== currentQdrantApiKey) {
+		// Qdrant connection details are irrelevant when the local store is in use
+		if (
+			this.vectorStoreProvider === "qdrant" &&
+			(prevQdrantUrl !== currentQdrantUrl || prevQdrantApiKey !== currentQdrantApiKey)
+		) {
 			return true
 		}
 
@@ -456,10 +490,12 @@ export class CodeIndexConfigManager {
 			vercelAiGatewayOptions: this.vercelAiGatewayOptions,
 			bedrockOptions: this.bedrockOptions,
 			openRouterOptions: this.openRouterOptions,
+			vectorStoreProvider: this.vectorStoreProvider,
 			qdrantUrl: this.qdrantUrl,
 			qdrantApiKey: this.qdrantApiKey,
 			searchMinScore: this.currentSearchMinScore,
 			searchMaxResults: this.currentSearchMaxResults,
+			searchMode: this.searchMode,
 		}
 	}
 
@@ -484,6 +520,13 @@ export class CodeIndexConfigManager {
 		return this.embedderProvider
 	}
 
+	/**
+	 * Gets the current vector store backend
+	 */
+	public get currentVectorStoreProvider(): VectorStoreProvider {
+		return this.vectorStoreProvider
+	}
+
 	/**
 	 * Gets the current Qdrant configuration
 	 */
@@ -541,4 +584,11 @@ export class CodeIndexConfigManager {
 	public get currentSearchMaxResults(): number {
 		return this.searchMaxResults ?? DEFAULT_MAX_SEARCH_RESULTS
 	}
+
+	/**
+	 * Gets the configured search mode. Defaults to pure semantic search.
+	 */
+	public get currentSearchMode(): SearchMode {
+		return this.searchMode
+	}
 }
@@ -1,5 +1,6 @@
 import { ApiHandlerOptions } from "../../../shared/api" // Adjust path if needed
-import { EmbedderProvider } from "./manager"
+import { EmbedderProvider, VectorStoreProvider } from "./manager"
+import { SearchMode } from "./search"
 
 /**
  * Configuration state for the code indexing feature
@@ -17,10 +18,12 @@ export interface CodeIndexConfig {
 	vercelAiGatewayOptions?: { apiKey: string }
 	bedrockOptions?: { region: string; profile?: string }
 	openRouterOptions?: { apiKey: string; specificProvider?: string }
+	vectorStoreProvider: VectorStoreProvider
 	qdrantUrl?: string
 	qdrantApiKey?: string
 	searchMinScore?: number
 	searchMaxResults?: number
+	searchMode?: SearchMode
 }
 
 /**
@@ -43,6 +46,7 @@ export type PreviousConfigSnapshot = {
 	bedrockProfile?: string
 	openRouterApiKey?: string
 	openRouterSpecificProvider?: string
+	vectorStoreProvider?: VectorStoreProvider
 	qdrantUrl?: string
 	qdrantApiKey?: string
 }
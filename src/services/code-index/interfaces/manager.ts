@@ -80,6 +80,8 @@ export type EmbedderProvider =
 	| "bedrock"
 	| "openrouter"
 
+export type VectorStoreProvider = "qdrant" | "local"
+
 export interface IndexProgressUpdate {
 	systemStatus: IndexingState
 	message?: string
@@ -0,0 +1,46 @@
+import { VectorStoreSearchResult } from "./vector-store"
+
+/**
+ * Retrieval strategy used by the code index search service
+ */
+export type SearchMode = "semantic" | "hybrid"
+
+/**
+ * Which retrieval signal produced a search result
+ */
+export type SearchResultSource = "semantic" | "keyword" | "both"
+
+/**
+ * A ranked block of lines produced by lexical (keyword) search
+ */
+export interface KeywordSearchResult {
+	filePath: string
+	startLine: number
+	endLine: number
+	codeChunk: string
+	score: number
+	matchedTerms: string[]
+}
+
+/**
+ * Interface for lexical search backends used in hybrid retrieval
+ */
+export interface IKeywordSearcher {
+	/**
+	 * Searches the workspace for literal occurrences of the query's terms
+	 * @param query The natural language or identifier query
+	 * @param directoryPrefix Optional workspace-relative directory to restrict the search to
+	 * @param maxResults Optional maximum number of results to return
+	 * @returns Promise resolving to results ordered by descending relevance
+	 */
+	search(query: string, directoryPrefix?: string, maxResults?: number): Promise<KeywordSearchResult[]>
+}
+
+/**
+ * A search result returned by the code index, annotated with the signal(s) that produced it
+ */
+export interface CodeIndexSearchResult extends VectorStoreSearchResult {
+	source: SearchResultSource
+	semanticScore?: number
+	keywordScore?: number
+}
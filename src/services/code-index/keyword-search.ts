@@ -0,0 +1,214 @@
+import * as path from "path"
+import { IKeywordSearcher, KeywordSearchResult } from "./interfaces/search"
+import { RipgrepLine, searchLiteralTerms } from "../ripgrep"
+import { RooIgnoreController } from "../../core/ignore/RooIgnoreController"
+import { scannerExtensions } from "./shared/supported-extensions"
+import { DEFAULT_MAX_SEARCH_RESULTS } from "./constants"
+
+const MAX_QUERY_TERMS = 8
+const MIN_TERM_LENGTH = 3
+const CONTEXT_LINES = 2
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+/**
+ * Words that carry no lexical signal in typical code search queries.
+ */
+const STOP_WORDS = new Set([
+	"about",
+	"and",
+	"are",
+	"call",
+	"called",
+	"calls",
+	"can",
+	"code",
+	"defined",
+	"does",
+	"file",
+	"files",
+	"find",
+	"for",
+	"from",
+	"function",
+	"functions",
+	"how",
+	"implementation",
+	"implemented",
+	"into",
+	"invoked",
+	"method",
+	"not",
+	"that",
+	"the",
+	"there",
+	"this",
+	"used",
+	"uses",
+	"using",
+	"what",
+	"when",
+	"where",
+	"which",
+	"who",
+	"why",
+	"with",
+])
+
+/**
+ * Extracts the literal terms worth searching for from a query.
+ * Backtick-quoted segments are kept verbatim; otherwise identifier-like tokens are used,
+ * skipping short tokens and common query words.
+ */
+export function extractQueryTerms(query: string): string[] {
+	const terms: string[] = []
+	const seen = new Set<string>()
+
+	const addTerm = (term: string) => {
+		const key = term.toLowerCase()
+		if (!seen.has(key)) {
+			seen.add(key)
+			terms.push(term)
+		}
+	}
+
+	for (const match of query.matchAll(/`([^`]+)`/g)) {
+		const term = match[1].trim()
+		if (term) {
+			addTerm(term)
+		}
+	}
+
+	const unquoted = query.replace(/`[^`]*`/g, " ")
+	for (const match of unquoted.matchAll(/[A-Za-z_$][\w$]*/g)) {
+		const token = match[0]
+		if (token.length >= MIN_TERM_LENGTH && !STOP_WORDS.has(token.toLowerCase())) {
+			addTerm(token)
+		}
+	}
+
+	return terms.slice(0, MAX_QUERY_TERMS)
+}
+
+/**
+ * Groups ripgrep lines into contiguous blocks per file. Each block contains at least one match.
+ */
+function groupIntoBlocks(lines: RipgrepLine[]): Array<{ filePath: string; lines: RipgrepLine[] }> {
+	const blocks: Array<{ filePath: string; lines: RipgrepLine[] }> = []
+
+	for (const line of lines) {
+		const last = blocks[blocks.length - 1]
+		const lastLine = last?.lines[last.lines.length - 1]
+
+		if (last && last.filePath === line.filePath && lastLine && line.line <= lastLine.line + 1) {
+			last.lines.push(line)
+		} else {
+			blocks.push({ filePath: line.filePath, lines: [line] })
+		}
+	}
+
+	return blocks.filter((block) => block.lines.some((line) => line.isMatch))
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+	if (!needle) {
+		return 0
+	}
+	let count = 0
+	let index = haystack.indexOf(needle)
+	while (index !== -1) {
+		count++
+		index = haystack.indexOf(needle, index + needle.length)
+	}
+	return count
+}
+
+/**
+ * Ranks blocks of matched lines with Okapi BM25, treating each block as a document and the
+ * set of candidate blocks as the corpus.
+ */
+export function rankKeywordBlocks(
+	blocks: Array<{ filePath: string; startLine: number; endLine: number; codeChunk: string }>,
+	terms: string[],
+): KeywordSearchResult[] {
+	if (blocks.length === 0 || terms.length === 0) {
+		return []
+	}
+
+	const lowerTerms = terms.map((term) => term.toLowerCase())
+	const docs = blocks.map((block) => {
+		const lowerText = block.codeChunk.toLowerCase()
+		const length = Math.max(1, block.codeChunk.split(/\W+/).filter(Boolean).length)
+		const termFrequencies = lowerTerms.map((term) => countOccurrences(lowerText, term))
+		return { block, length, termFrequencies }
+	})
+
+	const averageLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length
+	const documentFrequencies = lowerTerms.map((_, termIndex) =>
+		docs.reduce((count, doc) => count + (doc.termFrequencies[termIndex] > 0 ? 1 : 0), 0),
+	)
+
+	const results = docs.map((doc) => {
+		let score = 0
+		const matchedTerms: string[] = []
+
+		doc.termFrequencies.forEach((tf, termIndex) => {
+			if (tf === 0) {
+				return
+			}
+			matchedTerms.push(terms[termIndex])
+			const df = documentFrequencies[termIndex]
+			const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))
+			const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / averageLength)
+			score += idf * ((tf * (BM25_K1 + 1)) / norm)
+		})
+
+		return { ...doc.block, score, matchedTerms }
+	})
+
+	return results.filter((result) => result.score > 0).sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Keyword searcher backed by ripgrep. Respects .gitignore (via ripgrep) and .rooignore, and only
+ * searches file types that the code index itself would index.
+ */
+export class RipgrepKeywordSearcher implements IKeywordSearcher {
+	constructor(
+		private readonly workspacePath: string,
+		private readonly rooIgnoreController?: RooIgnoreController,
+	) {}
+
+	public async search(query: string, directoryPrefix?: string, maxResults?: number): Promise<KeywordSearchResult[]> {
+		const terms = extractQueryTerms(query)
+		if (terms.length === 0) {
+			return []
+		}
+
+		const searchPath = directoryPrefix ? path.resolve(this.workspacePath, directoryPrefix) : this.workspacePath
+		const relativeSearchPath = path.relative(this.workspacePath, searchPath)
+
+		if (relativeSearchPath.startsWith("..") || path.isAbsolute(relativeSearchPath)) {
+			throw new Error(`Directory prefix "${directoryPrefix}" is outside the workspace`)
+		}
+
+		const lines = await searchLiteralTerms(searchPath, terms, {
+			globs: scannerExtensions.map((ext) => `*${ext}`),
+			ignoreCase: true,
+			contextLines: CONTEXT_LINES,
+		})
+
+		const allowedLines = this.rooIgnoreController
+			? lines.filter((line) => this.rooIgnoreController!.validateAccess(line.filePath))
+			: lines
+
+		const blocks = groupIntoBlocks(allowedLines).map((block) => ({
+			filePath: path.relative(this.workspacePath, path.resolve(searchPath, block.filePath)).toPosix(),
+			startLine: block.lines[0].line,
+			endLine: block.lines[block.lines.length - 1].line,
+			codeChunk: block.lines.map((line) => line.text).join("\n"),
+		}))
+
+		return rankKeywordBlocks(blocks, terms).slice(0, maxResults ?? DEFAULT_MAX_SEARCH_RESULTS)
+	}
+}
@@ -1,11 +1,12 @@
 import * as vscode from "vscode"
 import { ContextProxy } from "../../core/config/ContextProxy"
-import { VectorStoreSearchResult } from "./interfaces"
+import { CodeIndexSearchResult } from "./interfaces"
 import { IndexingState } from "./interfaces/manager"
 import { CodeIndexConfigManager } from "./config-manager"
 import { CodeIndexStateManager } from "./state-manager"
 import { CodeIndexServiceFactory } from "./service-factory"
 import { CodeIndexSearchService } from "./search-service"
+import { RipgrepKeywordSearcher } from "./keyword-search"
 import { CodeIndexOrchestrator } from "./orchestrator"
 import { CacheManager } from "./cache-manager"
 import { RooIgnoreController } from "../../core/ignore/RooIgnoreController"
@@ -276,7 +277,7 @@ export class CodeIndexManager {
 		}
 	}
 
-	public async searchIndex(query: string, directoryPrefix?: string): Promise<VectorStoreSearchResult[]> {
+	public async searchIndex(query: string, directoryPrefix?: string): Promise<CodeIndexSearchResult[]> {
 		if (!this.isFeatureEnabled) {
 			return []
 		}
@@ -302,6 +303,7 @@ export class CodeIndexManager {
 			this._configManager!,
 			this.workspacePath,
 			this._cacheManager!,
+			this.context.globalStorageUri.fsPath,
 		)
 
 		const ignoreInstance = ignore()
@@ -365,6 +367,7 @@ export class CodeIndexManager {
 			this._stateManager,
 			embedder,
 			vectorStore,
+			new RipgrepKeywordSearcher(workspacePath, rooIgnoreController),
 		)
 
 		// Clear any error state after successful recreation
@@ -1,7 +1,9 @@
 import * as path from "path"
-import { VectorStoreSearchResult } from "./interfaces"
+import { CodeIndexSearchResult, KeywordSearchResult } from "./interfaces"
 import { IEmbedder } from "./interfaces/embedder"
 import { IVectorStore } from "./interfaces/vector-store"
+import { IKeywordSearcher } from "./interfaces/search"
+import { fuseSearchResults } from "./shared/rank-fusion"
 import { CodeIndexConfigManager } from "./config-manager"
 import { CodeIndexStateManager } from "./state-manager"
 import { TelemetryService } from "@roo-code/telemetry"
@@ -16,17 +18,19 @@ export class CodeIndexSearchService {
 		private readonly stateManager: CodeIndexStateManager,
 		private readonly embedder: IEmbedder,
 		private readonly vectorStore: IVectorStore,
+		private readonly keywordSearcher?: IKeywordSearcher,
 	) {}
 
 	/**
 	 * Searches the code index for relevant content.
+	 * In hybrid mode, vector hits are fused with keyword hits using reciprocal rank fusion.
 	 * @param query The search query
 	 * @param limit Maximum number of results to return
 	 * @param directoryPrefix Optional directory path to filter results by
 	 * @returns Array of search results
 	 * @throws Error if the service is not properly configured or ready
 	 */
-	public async searchIndex(query: string, directoryPrefix?: string): Promise<VectorStoreSearchResult[]> {
+	public async searchIndex(query: string, directoryPrefix?: string): Promise<CodeIndexSearchResult[]> {
 		if (!this.configManager.isFeatureEnabled || !this.configManager.isFeatureConfigured) {
 			throw new Error("Code index feature is disabled or not configured.")
 		}
@@ -54,9 +58,23 @@ export class CodeIndexSearchService {
 				normalizedPrefix = path.normalize(directoryPrefix)
 			}
 
+			const useHybrid = this.configManager.currentSearchMode === "hybrid" && !!this.keywordSearcher
+
 			// Perform search
-			const results = await this.vectorStore.search(vector, normalizedPrefix, minScore, maxResults)
-			return results
+			const [semanticResults, keywordResults] = await Promise.all([
+				this.vectorStore.search(vector, normalizedPrefix, minScore, maxResults),
+				useHybrid ? this.searchKeywords(query, normalizedPrefix, maxResults) : Promise.resolve([]),
+			])
+
+			if (!useHybrid) {
+				return semanticResults.map((result) => ({
+					...result,
+					source: "semantic" as const,
+					semanticScore: result.score,
+				}))
+			}
+
+			return fuseSearchResults(semanticResults, keywordResults, maxResults)
 		} catch (error) {
 			console.error("[CodeIndexSearchService] Error during search:", error)
 			this.stateManager.setSystemState("Error", `Search failed: ${(error as Error).message}`)
@@ -71,4 +89,26 @@ export class CodeIndexSearchService {
 			throw error // Re-throw the error after setting state
 		}
 	}
+
+	/**
+	 * Runs the keyword half of a hybrid search. Failures are logged and treated as "no keyword hits"
+	 * so that a missing ripgrep binary never breaks semantic search.
+	 */
+	private async searchKeywords(
+		query: string,
+		directoryPrefix: string | undefined,
+		maxResults: number,
+	): Promise<KeywordSearchResult[]> {
+		try {
+			return await this.keywordSearcher!.search(query, directoryPrefix, maxResults)
+		} catch (error) {
+			console.warn("[CodeIndexSearchService] Keyword search failed, using semantic results only:", error)
+			TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+				error: (error as Error).message,
+				stack: (error as Error).stack,
+				location: "searchKeywords",
+			})
+			return []
+		}
+	}
 }
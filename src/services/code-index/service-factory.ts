@@ -9,6 +9,7 @@ import { BedrockEmbedder } from "./embedders/bedrock"
 import { OpenRouterEmbedder } from "./embedders/openrouter"
 import { EmbedderProvider, getDefaultModelId, getModelDimension } from "../../shared/embeddingModels"
 import { QdrantVectorStore } from "./vector-store/qdrant-client"
+import { LocalVectorStore } from "./vector-store/local-vector-store"
 import { codeParser, DirectoryScanner, FileWatcher } from "./processors"
 import { ICodeParser, IEmbedder, IFileWatcher, IVectorStore } from "./interfaces"
 import { CodeIndexConfigManager } from "./config-manager"
@@ -29,6 +30,7 @@ export class CodeIndexServiceFactory {
 		private readonly configManager: CodeIndexConfigManager,
 		private readonly workspacePath: string,
 		private readonly cacheManager: CacheManager,
+		private readonly globalStoragePath?: string,
 	) {}
 
 	/**
@@ -159,6 +161,13 @@ export class CodeIndexServiceFactory {
 			}
 		}
 
+		if (config.vectorStoreProvider === "local") {
+			if (!this.globalStoragePath) {
+				throw new Error(t("embeddings:serviceFactory.localStoragePathMissing"))
+			}
+			return new LocalVectorStore(this.workspacePath, this.globalStoragePath, vectorSize)
+		}
+
 		if (!config.qdrantUrl) {
 			throw new Error(t("embeddings:serviceFactory.qdrantUrlMissing"))
 		}
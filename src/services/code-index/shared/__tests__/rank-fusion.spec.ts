@@ -0,0 +1,74 @@
+// npx vitest services/code-index/shared/__tests__/rank-fusion.spec.ts
+
+import { fuseSearchResults, RRF_K } from "../rank-fusion"
+
+const semantic = (id: string, filePath: string, startLine: number, endLine: number, score = 0.8) => ({
+	id,
+	score,
+	payload: { filePath, codeChunk: `chunk ${id}`, startLine, endLine },
+})
+
+const keyword = (filePath: string, startLine: number, endLine: number, score = 5) => ({
+	filePath,
+	startLine,
+	endLine,
+	codeChunk: `keyword ${filePath}:${startLine}`,
+	score,
+	matchedTerms: ["term"],
+})
+
+describe("fuseSearchResults", () => {
+	it("should boost semantic chunks that overlap a keyword hit", () => {
+		const results = fuseSearchResults(
+			[semantic("a", "src/a.ts", 1, 20), semantic("b", "src/b.ts", 1, 20)],
+			[keyword("src/b.ts", 5, 7)],
+			10,
+		)
+
+		expect(results.map((r) => r.id)).toEqual(["b", "a"])
+		expect(results[0]).toMatchObject({ source: "both", semanticScore: 0.8, keywordScore: 5 })
+		expect(results[1].source).toBe("semantic")
+	})
+
+	it("should score a result ranked first by both signals as 1", () => {
+		const results = fuseSearchResults([semantic("a", "src/a.ts", 1, 20)], [keyword("src/a.ts", 3, 4)], 10)
+		expect(results[0].score).toBeCloseTo(1)
+	})
+
+	it("should add keyword-only results with synthetic ids", () => {
+		const results = fuseSearchResults([semantic("a", "src/a.ts", 1, 20)], [keyword("src/c.ts", 3, 4)], 10)
+
+		expect(results).toHaveLength(2)
+		expect(results[1]).toMatchObject({
+			id: "keyword:src/c.ts:3-4",
+			source: "keyword",
+			payload: { filePath: "src/c.ts", startLine: 3, endLine: 4 },
+		})
+		expect(results[1].score).toBeCloseTo(1 / (RRF_K + 1) / (2 / (RRF_K + 1)))
+	})
+
+	it("should deduplicate overlapping results from the same signal", () => {
+		const results = fuseSearchResults(
+			[semantic("a", "src/a.ts", 1, 20), semantic("a2", "src/a.ts", 10, 30)],
+			[keyword("src/c.ts", 1, 3), keyword("src/c.ts", 2, 5)],
+			10,
+		)
+
+		expect(results.map((r) => r.id)).toEqual(["a", "keyword:src/c.ts:1-3"])
+	})
+
+	it("should treat paths with a leading ./ as the same file", () => {
+		const results = fuseSearchResults([semantic("a", "./src/a.ts", 1, 20)], [keyword("src/a.ts", 3, 4)], 10)
+		expect(results).toHaveLength(1)
+		expect(results[0].source).toBe("both")
+	})
+
+	it("should limit the number of fused results", () => {
+		const results = fuseSearchResults(
+			[semantic("a", "src/a.ts", 1, 20), semantic("b", "src/b.ts", 1, 20)],
+			[keyword("src/c.ts", 1, 3)],
+			2,
+		)
+		expect(results).toHaveLength(2)
+	})
+})
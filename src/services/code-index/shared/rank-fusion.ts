@@ -0,0 +1,110 @@
+import { CodeIndexSearchResult, KeywordSearchResult, VectorStoreSearchResult } from "../interfaces"
+
+/**
+ * Rank constant for reciprocal rank fusion. 60 is the value from the original RRF paper and
+ * dampens the advantage of the very top ranks so that agreement between signals matters more.
+ */
+export const RRF_K = 60
+
+interface FusedCandidate {
+	result: CodeIndexSearchResult
+	filePath: string
+	startLine: number
+	endLine: number
+	fusedScore: number
+}
+
+function normalizePath(filePath: string): string {
+	return filePath.replace(/\\/g, "/").replace(/^\.\//, "")
+}
+
+function overlaps(candidate: FusedCandidate, filePath: string, startLine: number, endLine: number): boolean {
+	return candidate.filePath === filePath && candidate.startLine <= endLine && startLine <= candidate.endLine
+}
+
+/**
+ * Fuses semantic (vector) and keyword results with reciprocal rank fusion.
+ *
+ * Results whose line ranges overlap within the same file are merged: a keyword hit that overlaps a
+ * semantic chunk boosts that chunk and marks it as found by "both" signals, while overlapping hits
+ * from the same signal are treated as duplicates and only the better-ranked one is kept.
+ *
+ * Scores are rescaled so that a result ranked first by both signals scores 1.
+ */
+export function fuseSearchResults(
+	semanticResults: VectorStoreSearchResult[],
+	keywordResults: KeywordSearchResult[],
+	maxResults: number,
+	k: number = RRF_K,
+): CodeIndexSearchResult[] {
+	const candidates: FusedCandidate[] = []
+
+	let semanticRank = 0
+	for (const result of semanticResults) {
+		if (!result.payload) {
+			continue
+		}
+
+		const filePath = normalizePath(result.payload.filePath)
+		const { startLine, endLine } = result.payload
+
+		if (candidates.some((candidate) => overlaps(candidate, filePath, startLine, endLine))) {
+			continue
+		}
+
+		semanticRank++
+		candidates.push({
+			result: { ...result, source: "semantic", semanticScore: result.score },
+			filePath,
+			startLine,
+			endLine,
+			fusedScore: 1 / (k + semanticRank),
+		})
+	}
+
+	let keywordRank = 0
+	for (const result of keywordResults) {
+		const filePath = normalizePath(result.filePath)
+		const existing = candidates.find((candidate) =>
+			overlaps(candidate, filePath, result.startLine, result.endLine),
+		)
+
+		if (existing) {
+			// Only the first (best-ranked) keyword hit contributes to a semantic chunk
+			if (existing.result.source === "semantic") {
+				keywordRank++
+				existing.fusedScore += 1 / (k + keywordRank)
+				existing.result.source = "both"
+				existing.result.keywordScore = result.score
+			}
+			continue
+		}
+
+		keywordRank++
+		candidates.push({
+			result: {
+				id: `keyword:${filePath}:${result.startLine}-${result.endLine}`,
+				score: 0,
+				payload: {
+					filePath: result.filePath,
+					codeChunk: result.codeChunk,
+					startLine: result.startLine,
+					endLine: result.endLine,
+				},
+				source: "keyword",
+				keywordScore: result.score,
+			},
+			filePath,
+			startLine: result.startLine,
+			endLine: result.endLine,
+			fusedScore: 1 / (k + keywordRank),
+		})
+	}
+
+	const maxFusedScore = 2 / (k + 1)
+
+	return candidates
+		.sort((a, b) => b.fusedScore - a.fusedScore)
+		.slice(0, maxResults)
+		.map((candidate) => ({ ...candidate.result, score: candidate.fusedScore / maxFusedScore }))
+}
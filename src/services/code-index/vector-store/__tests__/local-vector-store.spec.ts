@@ -0,0 +1,173 @@
+// npx vitest services/code-index/vector-store/__tests__/local-vector-store.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { LocalVectorStore } from "../local-vector-store"
+
+vitest.mock("../../../../utils/storage", () => ({
+	getStorageBasePath: vitest.fn().mockImplementation(async (defaultPath: string) => defaultPath),
+}))
+
+vitest.mock("../../../../i18n", () => ({
+	t: (key: string) => key,
+}))
+
+const makePoint = (id: string, vector: number[], filePath: string, startLine = 1) => ({
+	id,
+	vector,
+	payload: { filePath, codeChunk: `chunk ${id}`, startLine, endLine: startLine + 5 },
+})
+
+describe("LocalVectorStore", () => {
+	const workspacePath = "/test/workspace"
+	let storagePath: string
+	let store: LocalVectorStore
+
+	beforeEach(async () => {
+		storagePath = await fs.mkdtemp(path.join(os.tmpdir(), "roo-local-vector-store-"))
+		store = new LocalVectorStore(workspacePath, storagePath, 3)
+	})
+
+	afterEach(async () => {
+		// Cancels any pending deferred write before the directory goes away
+		await store.deleteCollection()
+		await fs.rm(storagePath, { recursive: true, force: true })
+	})
+
+	describe("initialize", () => {
+		it("should create a new index when none exists", async () => {
+			expect(await store.collectionExists()).toBe(false)
+			expect(await store.initialize()).toBe(true)
+			expect(await store.collectionExists()).toBe(true)
+		})
+
+		it("should reuse an existing index with the same vector size", async () => {
+			await store.initialize()
+			await store.upsertPoints([makePoint("a", [1, 0, 0], "src/a.ts")])
+			await store.markIndexingComplete()
+
+			const reopened = new LocalVectorStore(workspacePath, storagePath, 3)
+			expect(await reopened.initialize()).toBe(false)
+			expect(await reopened.hasIndexedData()).toBe(true)
+
+			const results = await reopened.search([1, 0, 0])
+			expect(results.map((r) => r.id)).toEqual(["a"])
+		})
+
+		it("should recreate the index when the vector size changes", async () => {
+			await store.initialize()
+			await store.upsertPoints([makePoint("a", [1, 0, 0], "src/a.ts")])
+			await store.markIndexingComplete()
+
+			const resized = new LocalVectorStore(workspacePath, storagePath, 4)
+			expect(await resized.initialize()).toBe(true)
+			expect(await resized.hasIndexedData()).toBe(false)
+		})
+	})
+
+	describe("search", () => {
+		beforeEach(async () => {
+			await store.initialize()
+			await store.upsertPoints([
+				makePoint("exact", [1, 0, 0], "src/services/a.ts"),
+				makePoint("close", [0.9, 0.1, 0], "src/utils/b.ts"),
+				makePoint("orthogonal", [0, 1, 0], "src/services/c.ts"),
+			])
+		})
+
+		it("should rank results by cosine similarity and apply the score threshold", async () => {
+			const results = await store.search([1, 0, 0], undefined, 0.5)
+
+			expect(results.map((r) => r.id)).toEqual(["exact", "close"])
+			expect(results[0].score).toBeCloseTo(1)
+			expect(results[0].payload).toEqual({
+				filePath: "src/services/a.ts",
+				codeChunk: "chunk exact",
+				startLine: 1,
+				endLine: 6,
+			})
+		})
+
+		it("should limit the number of results", async () => {
+			const results = await store.search([1, 0, 0], undefined, 0, 1)
+			expect(results.map((r) => r.id)).toEqual(["exact"])
+		})
+
+		it("should filter by directory prefix", async () => {
+			const results = await store.search([1, 0, 0], "./src/services", 0)
+			expect(results.map((r) => r.id)).toEqual(["exact", "orthogonal"])
+		})
+
+		it("should treat the current directory prefix as the whole workspace", async () => {
+			const results = await store.search([1, 0, 0], ".", 0)
+			expect(results).toHaveLength(3)
+		})
+
+		it("should not match partial directory names", async () => {
+			const results = await store.search([1, 0, 0], "src/serv", 0)
+			expect(results).toHaveLength(0)
+		})
+	})
+
+	describe("deletePointsByMultipleFilePaths", () => {
+		it("should delete points for relative and absolute file paths", async () => {
+			await store.initialize()
+			await store.upsertPoints([
+				makePoint("a1", [1, 0, 0], "src/a.ts", 1),
+				makePoint("a2", [1, 0, 0], "src/a.ts", 10),
+				makePoint("b", [1, 0, 0], "src/b.ts"),
+				makePoint("c", [1, 0, 0], "src/c.ts"),
+			])
+
+			await store.deletePointsByMultipleFilePaths(["src/a.ts", path.join(workspacePath, "src/b.ts")])
+
+			const results = await store.search([1, 0, 0], undefined, 0)
+			expect(results.map((r) => r.id)).toEqual(["c"])
+		})
+
+		it("should do nothing when the index does not exist", async () => {
+			await expect(store.deletePointsByFilePath("src/a.ts")).resolves.toBeUndefined()
+			expect(await store.collectionExists()).toBe(false)
+		})
+	})
+
+	describe("indexing metadata", () => {
+		it("should only report indexed data once indexing is marked complete", async () => {
+			await store.initialize()
+			await store.markIndexingIncomplete()
+			await store.upsertPoints([makePoint("a", [1, 0, 0], "src/a.ts")])
+
+			expect(await store.hasIndexedData()).toBe(false)
+
+			await store.markIndexingComplete()
+			expect(await store.hasIndexedData()).toBe(true)
+		})
+
+		it("should report no data after clearing the collection", async () => {
+			await store.initialize()
+			await store.upsertPoints([makePoint("a", [1, 0, 0], "src/a.ts")])
+			await store.markIndexingComplete()
+
+			await store.clearCollection()
+
+			expect(await store.hasIndexedData()).toBe(false)
+			expect(await store.search([1, 0, 0], undefined, 0)).toEqual([])
+		})
+	})
+
+	describe("deleteCollection", () => {
+		it("should remove the index from disk", async () => {
+			await store.initialize()
+			await store.upsertPoints([makePoint("a", [1, 0, 0], "src/a.ts")])
+			await store.markIndexingComplete()
+
+			await store.deleteCollection()
+
+			expect(await store.collectionExists()).toBe(false)
+			const reopened = new LocalVectorStore(workspacePath, storagePath, 3)
+			expect(await reopened.collectionExists()).toBe(false)
+		})
+	})
+})
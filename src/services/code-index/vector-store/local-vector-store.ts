@@ -0,0 +1,524 @@
+import { createHash } from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+import { IVectorStore, PointStruct } from "../interfaces/vector-store"
+import { Payload, VectorStoreSearchResult } from "../interfaces"
+import { DEFAULT_MAX_SEARCH_RESULTS, DEFAULT_SEARCH_MIN_SCORE } from "../constants"
+import { getStorageBasePath } from "../../../utils/storage"
+import { safeWriteJson } from "../../../utils/safeWriteJson"
+import { t } from "../../../i18n"
+
+/**
+ * On-disk format version. Bump when the layout of the index files changes.
+ */
+const LOCAL_INDEX_FORMAT_VERSION = 1
+
+/**
+ * Delay used to coalesce index writes while a scan is upserting batches.
+ */
+const PERSIST_DEBOUNCE_MS = 1500
+
+/**
+ * Metadata persisted next to the raw vector data.
+ */
+interface LocalIndexManifest {
+	version: number
+	vectorSize: number
+	workspacePath: string
+	indexingComplete: boolean
+	updatedAt: number
+	ids: string[]
+	payloads: Record<string, any>[]
+}
+
+interface LocalPoint {
+	vector: Float32Array
+	norm: number
+	payload: Record<string, any>
+}
+
+/**
+ * Embedded vector store that keeps all points in memory and persists them as a flat index
+ * under the extension's global storage. Search is an exact (brute-force) cosine similarity scan,
+ * which is fast enough for single-workspace indexes and requires no external service.
+ */
+export class LocalVectorStore implements IVectorStore {
+	private readonly vectorSize: number
+	private readonly workspacePath: string
+	private readonly globalStoragePath: string
+	private readonly collectionName: string
+
+	private storageDir?: string
+	private points = new Map<string, LocalPoint>()
+	private loadedVectorSize?: number
+	private indexingComplete: boolean | undefined = undefined
+	private exists = false
+	private loadPromise?: Promise<void>
+	private writeQueue: Promise<void> = Promise.resolve()
+	private persistTimer?: NodeJS.Timeout
+
+	/**
+	 * Creates a new local vector store
+	 * @param workspacePath Path to the workspace
+	 * @param globalStoragePath Extension global storage path used as the default index location
+	 * @param vectorSize Dimension of the stored vectors
+	 */
+	constructor(workspacePath: string, globalStoragePath: string, vectorSize: number) {
+		this.workspacePath = workspacePath
+		this.globalStoragePath = globalStoragePath
+		this.vectorSize = vectorSize
+
+		const hash = createHash("sha256").update(workspacePath).digest("hex")
+		this.collectionName = `ws-${hash.substring(0, 16)}`
+	}
+
+	private get manifestPath(): string {
+		return path.join(this.storageDir!, "manifest.json")
+	}
+
+	private get vectorsPath(): string {
+		return path.join(this.storageDir!, "vectors.bin")
+	}
+
+	/**
+	 * Resolves the storage directory and loads any persisted index exactly once.
+	 */
+	private ensureLoaded(): Promise<void> {
+		if (!this.loadPromise) {
+			this.loadPromise = this.load().catch((error) => {
+				// Allow a later call to retry loading
+				this.loadPromise = undefined
+				throw error
+			})
+		}
+		return this.loadPromise
+	}
+
+	private async load(): Promise<void> {
+		const basePath = await getStorageBasePath(this.globalStoragePath)
+		this.storageDir = path.join(basePath, "vector-stores", this.collectionName)
+
+		let manifest: LocalIndexManifest
+		let buffer: Buffer
+
+		try {
+			manifest = JSON.parse(await fs.readFile(this.manifestPath, "utf8"))
+			buffer = await fs.readFile(this.vectorsPath)
+		} catch (error: any) {
+			if (error?.code === "ENOENT") {
+				this.exists = false
+				return
+			}
+			throw error
+		}
+
+		// Copy into a fresh, aligned ArrayBuffer since Node may hand back a pooled slice
+		const bytes = new Uint8Array(buffer)
+		const vectors = new Float32Array(bytes.buffer, 0, Math.floor(bytes.byteLength / 4))
+
+		if (
+			manifest.version !== LOCAL_INDEX_FORMAT_VERSION ||
+			bytes.byteLength % 4 !== 0 ||
+			!Array.isArray(manifest.ids) ||
+			manifest.ids.length * manifest.vectorSize !== vectors.length
+		) {
+			console.warn(
+				`[LocalVectorStore] Ignoring incompatible or corrupted index at ${this.storageDir}. It will be rebuilt.`,
+			)
+			this.exists = false
+			return
+		}
+
+		this.points.clear()
+		manifest.ids.forEach((id, index) => {
+			// Copy out of the shared buffer so individual points can be replaced independently
+			const vector = vectors.slice(index * manifest.vectorSize, (index + 1) * manifest.vectorSize)
+			this.points.set(id, { vector, norm: vectorNorm(vector), payload: manifest.payloads[index] ?? {} })
+		})
+
+		this.exists = true
+		this.indexingComplete = manifest.indexingComplete
+		this.loadedVectorSize = manifest.vectorSize
+	}
+
+	/**
+	 * Schedules a deferred write so that bursts of upserts/deletes during a scan are
+	 * coalesced into a single rewrite of the index files.
+	 */
+	private schedulePersist(): void {
+		if (this.persistTimer) {
+			clearTimeout(this.persistTimer)
+		}
+		this.persistTimer = setTimeout(() => {
+			this.persistTimer = undefined
+			this.persist().catch((error) => console.error("[LocalVectorStore] Failed to persist index:", error))
+		}, PERSIST_DEBOUNCE_MS)
+	}
+
+	/**
+	 * Writes the current in-memory index to disk immediately. Writes are serialized so
+	 * that a slow write can never overwrite the result of a newer one.
+	 */
+	private persist(): Promise<void> {
+		if (this.persistTimer) {
+			clearTimeout(this.persistTimer)
+			this.persistTimer = undefined
+		}
+
+		const write = async () => {
+			await fs.mkdir(this.storageDir!, { recursive: true })
+
+			const ids: string[] = []
+			const payloads: Record<string, any>[] = []
+			const vectors = new Float32Array(this.points.size * this.vectorSize)
+
+			let index = 0
+			for (const [id, point] of this.points) {
+				ids.push(id)
+				payloads.push(point.payload)
+				vectors.set(point.vector, index * this.vectorSize)
+				index++
+			}
+
+			// Write vectors first so a crash between the two writes leaves a manifest that
+			// fails the size check rather than one that silently points at stale data.
+			const tmpVectorsPath = `${this.vectorsPath}.tmp`
+			await fs.writeFile(tmpVectorsPath, Buffer.from(vectors.buffer, vectors.byteOffset, vectors.byteLength))
+			await fs.rename(tmpVectorsPath, this.vectorsPath)
+
+			const manifest: LocalIndexManifest = {
+				version: LOCAL_INDEX_FORMAT_VERSION,
+				vectorSize: this.vectorSize,
+				workspacePath: this.workspacePath,
+				indexingComplete: this.indexingComplete ?? false,
+				updatedAt: Date.now(),
+				ids,
+				payloads,
+			}
+			await safeWriteJson(this.manifestPath, manifest)
+		}
+
+		this.writeQueue = this.writeQueue.then(write, write)
+		return this.writeQueue
+	}
+
+	/**
+	 * Initializes the vector store
+	 * @returns Promise resolving to boolean indicating if a new collection was created
+	 */
+	async initialize(): Promise<boolean> {
+		try {
+			await this.ensureLoaded()
+
+			if (this.exists && this.loadedVectorSize === this.vectorSize) {
+				return false
+			}
+
+			if (this.exists) {
+				console.warn(
+					`[LocalVectorStore] Index ${this.collectionName} has vector size ${this.loadedVectorSize}, but expected ${this.vectorSize}. Recreating index.`,
+				)
+			}
+
+			this.points.clear()
+			this.indexingComplete = undefined
+			this.loadedVectorSize = this.vectorSize
+			await this.persist()
+			this.exists = true
+			return true
+		} catch (error: any) {
+			const errorMessage = error?.message || String(error)
+			console.error(`[LocalVectorStore] Failed to initialize local index "${this.collectionName}":`, errorMessage)
+			throw new Error(
+				t("embeddings:vectorStore.localStoreFailed", {
+					storagePath: this.storageDir ?? this.globalStoragePath,
+					errorMessage,
+				}),
+			)
+		}
+	}
+
+	/**
+	 * Upserts points into the vector store
+	 * @param points Array of points to upsert
+	 */
+	async upsertPoints(points: PointStruct[]): Promise<void> {
+		await this.ensureLoaded()
+
+		for (const point of points) {
+			if (point.vector.length !== this.vectorSize) {
+				throw new Error(
+					`[LocalVectorStore] Vector for point ${point.id} has dimension ${point.vector.length}, expected ${this.vectorSize}`,
+				)
+			}
+			const vector = Float32Array.from(point.vector)
+			this.points.set(point.id, { vector, norm: vectorNorm(vector), payload: point.payload })
+		}
+
+		this.schedulePersist()
+	}
+
+	/**
+	 * Checks if a payload is valid
+	 * @param payload Payload to check
+	 * @returns Boolean indicating if the payload is valid
+	 */
+	private isPayloadValid(payload: Record<string, unknown> | null | undefined): payload is Payload {
+		if (!payload) {
+			return false
+		}
+		const validKeys = ["filePath", "codeChunk", "startLine", "endLine"]
+		return validKeys.every((key) => key in payload)
+	}
+
+	/**
+	 * Searches for similar vectors
+	 * @param queryVector Vector to search for
+	 * @param directoryPrefix Optional directory prefix to filter results
+	 * @param minScore Optional minimum score threshold
+	 * @param maxResults Optional maximum number of results to return
+	 * @returns Promise resolving to search results
+	 */
+	async search(
+		queryVector: number[],
+		directoryPrefix?: string,
+		minScore?: number,
+		maxResults?: number,
+	): Promise<VectorStoreSearchResult[]> {
+		await this.ensureLoaded()
+
+		const prefixSegments = toPrefixSegments(directoryPrefix)
+		const threshold = minScore ?? DEFAULT_SEARCH_MIN_SCORE
+		const limit = maxResults ?? DEFAULT_MAX_SEARCH_RESULTS
+
+		const query = Float32Array.from(queryVector)
+		const queryNorm = vectorNorm(query)
+		if (queryNorm === 0) {
+			return []
+		}
+
+		const results: VectorStoreSearchResult[] = []
+
+		for (const [id, point] of this.points) {
+			if (!this.isPayloadValid(point.payload)) {
+				continue
+			}
+			if (prefixSegments && !matchesPrefix(point.payload.filePath, prefixSegments)) {
+				continue
+			}
+			if (point.norm === 0) {
+				continue
+			}
+
+			const score = dot(query, point.vector) / (queryNorm * point.norm)
+			if (score < threshold) {
+				continue
+			}
+
+			results.push({
+				id,
+				score,
+				payload: {
+					filePath: point.payload.filePath,
+					codeChunk: point.payload.codeChunk,
+					startLine: point.payload.startLine,
+					endLine: point.payload.endLine,
+				},
+			})
+		}
+
+		return results.sort((a, b) => b.score - a.score).slice(0, limit)
+	}
+
+	/**
+	 * Deletes points by file path
+	 * @param filePath Path of the file to delete points for
+	 */
+	async deletePointsByFilePath(filePath: string): Promise<void> {
+		return this.deletePointsByMultipleFilePaths([filePath])
+	}
+
+	async deletePointsByMultipleFilePaths(filePaths: string[]): Promise<void> {
+		if (filePaths.length === 0) {
+			return
+		}
+
+		try {
+			await this.ensureLoaded()
+
+			if (!this.exists) {
+				console.warn(`[LocalVectorStore] Skipping deletion - index "${this.collectionName}" does not exist`)
+				return
+			}
+
+			// Stored payloads use workspace-relative paths, so normalize the inputs the same way
+			const targets = new Set(
+				filePaths.map((filePath) => {
+					const relativePath = path.isAbsolute(filePath)
+						? path.relative(this.workspacePath, filePath)
+						: filePath
+					return normalizeFilePath(relativePath)
+				}),
+			)
+
+			let removed = 0
+			for (const [id, point] of this.points) {
+				const storedPath = point.payload?.filePath
+				if (typeof storedPath === "string" && targets.has(normalizeFilePath(storedPath))) {
+					this.points.delete(id)
+					removed++
+				}
+			}
+
+			if (removed > 0) {
+				this.schedulePersist()
+			}
+		} catch (error: any) {
+			console.error(`[LocalVectorStore] Failed to delete points by file paths:`, {
+				error: error?.message || String(error),
+				collection: this.collectionName,
+				fileCount: filePaths.length,
+				samplePaths: filePaths.slice(0, 3),
+			})
+		}
+	}
+
+	/**
+	 * Clears all points from the collection
+	 */
+	async clearCollection(): Promise<void> {
+		try {
+			await this.ensureLoaded()
+			this.points.clear()
+			this.indexingComplete = undefined
+			await this.persist()
+		} catch (error) {
+			console.error("[LocalVectorStore] Failed to clear collection:", error)
+			throw error
+		}
+	}
+
+	/**
+	 * Deletes the entire collection.
+	 */
+	async deleteCollection(): Promise<void> {
+		try {
+			await this.ensureLoaded()
+			if (this.persistTimer) {
+				clearTimeout(this.persistTimer)
+				this.persistTimer = undefined
+			}
+			// Let pending writes finish so they don't recreate the files after removal
+			await this.writeQueue.catch(() => {})
+			await fs.rm(this.storageDir!, { recursive: true, force: true })
+			this.points.clear()
+			this.indexingComplete = undefined
+			this.exists = false
+		} catch (error) {
+			console.error(`[LocalVectorStore] Failed to delete collection ${this.collectionName}:`, error)
+			throw error
+		}
+	}
+
+	/**
+	 * Checks if the collection exists
+	 * @returns Promise resolving to boolean indicating if the collection exists
+	 */
+	async collectionExists(): Promise<boolean> {
+		try {
+			await this.ensureLoaded()
+			return this.exists
+		} catch (error) {
+			console.warn("[LocalVectorStore] Failed to check if collection exists:", error)
+			return false
+		}
+	}
+
+	/**
+	 * Checks if the collection exists and has indexed points
+	 * @returns Promise resolving to boolean indicating if the collection exists and has points
+	 */
+	async hasIndexedData(): Promise<boolean> {
+		try {
+			await this.ensureLoaded()
+			if (!this.exists || this.points.size === 0) {
+				return false
+			}
+			return this.indexingComplete === true
+		} catch (error) {
+			console.warn("[LocalVectorStore] Failed to check if collection has data:", error)
+			return false
+		}
+	}
+
+	/**
+	 * Marks the indexing process as complete by storing metadata
+	 * Should be called after a successful full workspace scan or incremental scan
+	 */
+	async markIndexingComplete(): Promise<void> {
+		try {
+			await this.ensureLoaded()
+			this.indexingComplete = true
+			await this.persist()
+			console.log("[LocalVectorStore] Marked indexing as complete")
+		} catch (error) {
+			console.error("[LocalVectorStore] Failed to mark indexing as complete:", error)
+			throw error
+		}
+	}
+
+	/**
+	 * Marks the indexing process as incomplete by storing metadata
+	 * Should be called at the start of indexing to indicate work in progress
+	 */
+	async markIndexingIncomplete(): Promise<void> {
+		try {
+			await this.ensureLoaded()
+			this.indexingComplete = false
+			await this.persist()
+			console.log("[LocalVectorStore] Marked indexing as incomplete (in progress)")
+		} catch (error) {
+			console.error("[LocalVectorStore] Failed to mark indexing as incomplete:", error)
+			throw error
+		}
+	}
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+	let sum = 0
+	for (let i = 0; i < a.length; i++) {
+		sum += a[i] * b[i]
+	}
+	return sum
+}
+
+function vectorNorm(vector: Float32Array): number {
+	return Math.sqrt(dot(vector, vector))
+}
+
+function normalizeFilePath(filePath: string): string {
+	return path.posix.normalize(filePath.replace(/\\/g, "/")).replace(/^\.\//, "")
+}
+
+/**
+ * Converts a directory prefix into path segments, mirroring the Qdrant `pathSegments` filter.
+ * Returns undefined when the prefix refers to the whole workspace.
+ */
+function toPrefixSegments(directoryPrefix?: string): string[] | undefined {
+	if (!directoryPrefix) {
+		return undefined
+	}
+
+	const normalizedPrefix = path.posix.normalize(directoryPrefix.replace(/\\/g, "/"))
+	if (normalizedPrefix === "." || normalizedPrefix === "./") {
+		return undefined
+	}
+
+	const segments = normalizeFilePath(normalizedPrefix).split("/").filter(Boolean)
+	return segments.length > 0 ? segments : undefined
+}
+
+function matchesPrefix(filePath: string, prefixSegments: string[]): boolean {
+	const segments = normalizeFilePath(filePath).split("/").filter(Boolean)
+	return prefixSegments.every((segment, index) => segments[index] === segment)
+}
@@ -0,0 +1,67 @@
+import { getMcpPromptCommand, getMcpPromptCommands, renderMcpPrompt } from "../mcp-prompts"
+
+describe("MCP prompt commands", () => {
+	const mcpHub = {
+		getServers: () => [
+			{
+				name: "my server",
+				config: "{}",
+				status: "connected",
+				source: "global",
+				prompts: [{ name: "summarize", description: "Global summary" }],
+			},
+			{
+				name: "my server",
+				config: "{}",
+				status: "connected",
+				source: "project",
+				prompts: [{ name: "summarize", description: "Project summary", arguments: [{ name: "topic" }] }],
+			},
+			{
+				name: "offline",
+				config: "{}",
+				status: "disconnected",
+				prompts: [{ name: "ignored" }],
+			},
+		],
+	} as any
+
+	it("exposes the prompts of connected servers, preferring project servers", () => {
+		expect(getMcpPromptCommands(mcpHub)).toEqual([
+			{
+				name: "mcp.my_server.summarize",
+				serverName: "my server",
+				serverSource: "project",
+				promptName: "summarize",
+				description: "Project summary",
+				arguments: [{ name: "topic" }],
+			},
+		])
+		expect(getMcpPromptCommands(undefined)).toEqual([])
+	})
+
+	it("looks up prompt commands by name", () => {
+		expect(getMcpPromptCommand(mcpHub, "mcp.my_server.summarize")?.promptName).toBe("summarize")
+		expect(getMcpPromptCommand(mcpHub, "mcp.offline.ignored")).toBeUndefined()
+		expect(getMcpPromptCommand(mcpHub, "summarize")).toBeUndefined()
+	})
+
+	it("renders prompt messages as text", () => {
+		expect(
+			renderMcpPrompt({ messages: [{ role: "user", content: { type: "text", text: "Summarize the repo" } }] }),
+		).toBe("Summarize the repo")
+
+		expect(
+			renderMcpPrompt({
+				messages: [
+					{ role: "user", content: { type: "text", text: "Hi" } },
+					{
+						role: "assistant",
+						content: { type: "resource", resource: { uri: "file:///a.txt", text: "File contents" } },
+					},
+					{ role: "user", content: { type: "image", data: "abc", mimeType: "image/png" } },
+				],
+			}),
+		).toBe("User: Hi\n\nAssistant: File contents\n\nUser: [Image: image/png]")
+	})
+})
@@ -0,0 +1,82 @@
+import type { McpHub } from "../mcp/McpHub"
+import {
+	MCP_PROMPT_COMMAND_PREFIX,
+	getMcpPromptCommandName,
+	type McpPromptArgument,
+	type McpPromptResponse,
+} from "../../shared/mcp"
+
+export interface McpPromptCommand {
+	name: string
+	serverName: string
+	serverSource?: "global" | "project"
+	promptName: string
+	description?: string
+	arguments?: McpPromptArgument[]
+}
+
+/**
+ * Get the prompts of all connected MCP servers as slash commands named
+ * `mcp.<server>.<prompt>`. Project servers take priority over global servers
+ * with the same name.
+ */
+export function getMcpPromptCommands(mcpHub?: McpHub): McpPromptCommand[] {
+	const commands = new Map<string, McpPromptCommand>()
+	const servers = (mcpHub?.getServers() ?? []).filter((server) => server.status === "connected")
+
+	// Global servers first so that project servers override them.
+	servers.sort((a, b) => Number(a.source === "project") - Number(b.source === "project"))
+
+	for (const server of servers) {
+		for (const prompt of server.prompts ?? []) {
+			const name = getMcpPromptCommandName(server.name, prompt.name)
+
+			commands.set(name, {
+				name,
+				serverName: server.name,
+				serverSource: server.source,
+				promptName: prompt.name,
+				description: prompt.description,
+				arguments: prompt.arguments,
+			})
+		}
+	}
+
+	return Array.from(commands.values())
+}
+
+export function getMcpPromptCommand(mcpHub: McpHub | undefined, name: string): McpPromptCommand | undefined {
+	if (!name.startsWith(MCP_PROMPT_COMMAND_PREFIX)) {
+		return undefined
+	}
+
+	return getMcpPromptCommands(mcpHub).find((command) => command.name === name)
+}
+
+/**
+ * Render the messages of a `prompts/get` result as text that can be sent as a
+ * user message. Role labels are only added when the prompt contains more than
+ * just user messages.
+ */
+export function renderMcpPrompt(response: McpPromptResponse): string {
+	const labelRoles = response.messages.some((message) => message.role !== "user")
+
+	return response.messages
+		.map(({ role, content }) => {
+			let text: string
+
+			switch (content.type) {
+				case "text":
+					text = content.text
+					break
+				case "resource":
+					text = content.resource.text ?? `[Resource: ${content.resource.uri}]`
+					break
+				default:
+					text = `[${content.type === "image" ? "Image" : "Audio"}: ${content.mimeType}]`
+			}
+
+			return labelRoles ? `${role === "user" ? "User" : "Assistant"}: ${text}` : text
+		})
+		.join("\n\n")
+}
@@ -2,9 +2,13 @@ import { Client } from "@modelcontextprotocol/sdk/client/index.js"
 import { StdioClientTransport, getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js"
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js"
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import { WebSocketClientTransport } from "@modelcontextprotocol/sdk/client/websocket.js"
+import { UnauthorizedError } from "@modelcontextprotocol/sdk/client/auth.js"
 import ReconnectingEventSource from "reconnecting-eventsource"
 import {
 	CallToolResultSchema,
+	GetPromptResultSchema,
+	ListPromptsResultSchema,
 	ListResourcesResultSchema,
 	ListResourceTemplatesResultSchema,
 	ListToolsResultSchema,
@@ -22,6 +26,8 @@ import { t } from "../../i18n"
 import { ClineProvider } from "../../core/webview/ClineProvider"
 import { GlobalFileNames } from "../../shared/globalFileNames"
 import {
+	McpPrompt,
+	McpPromptResponse,
 	McpResource,
 	McpResourceResponse,
 	McpResourceTemplate,
@@ -33,13 +39,14 @@ import { fileExistsAtPath } from "../../utils/fs"
 import { arePathsEqual, getWorkspacePath } from "../../utils/path"
 import { injectVariables } from "../../utils/config"
 import { safeWriteJson } from "../../utils/safeWriteJson"
+import { McpOAuthClientProvider, type McpOAuthConfig } from "./McpOAuthClientProvider"
 
 // Discriminated union for connection states
 export type ConnectedMcpConnection = {
 	type: "connected"
 	server: McpServer
 	client: Client
-	transport: StdioClientTransport | SSEClientTransport | StreamableHTTPClientTransport
+	transport: StdioClientTransport | SSEClientTransport | StreamableHTTPClientTransport | WebSocketClientTransport
 }
 
 export type DisconnectedMcpConnection = {
@@ -66,18 +73,35 @@ const BaseConfigSchema = z.object({
 	disabledTools: z.array(z.string()).default([]),
 })
 
+// OAuth settings for remote servers. `true` uses dynamic client registration;
+// an object can provide a pre-registered client and the requested scope.
+const OAuthConfigSchema = z
+	.union([
+		z.boolean(),
+		z.object({
+			clientId: z.string().optional(),
+			clientSecret: z.string().optional(),
+			scope: z.string().optional(),
+		}),
+	])
+	.optional()
+
+// How long an OAuth authorization waits for the browser redirect.
+const OAUTH_AUTHORIZATION_TTL_MS = 10 * 60 * 1000
+
 // Custom error messages for better user feedback
-const typeErrorMessage = "Server type must be 'stdio', 'sse', or 'streamable-http'"
+const typeErrorMessage = "Server type must be 'stdio', 'sse', 'streamable-http', or 'websocket'"
 const stdioFieldsErrorMessage =
 	"For 'stdio' type servers, you must provide a 'command' field and can optionally include 'args' and 'env'"
 const sseFieldsErrorMessage =
 	"For 'sse' type servers, you must provide a 'url' field and can optionally include 'headers'"
 const streamableHttpFieldsErrorMessage =
 	"For 'streamable-http' type servers, you must provide a 'url' field and can optionally include 'headers'"
+const websocketFieldsErrorMessage = "For 'websocket' type servers, you must provide a 'url' field"
 const mixedFieldsErrorMessage =
-	"Cannot mix 'stdio' and ('sse' or 'streamable-http') fields. For 'stdio' use 'command', 'args', and 'env'. For 'sse'/'streamable-http' use 'url' and 'headers'"
+	"Cannot mix 'stdio' and ('sse', 'streamable-http' or 'websocket') fields. For 'stdio' use 'command', 'args', and 'env'. For 'sse'/'streamable-http' use 'url' and 'headers'"
 const missingFieldsErrorMessage =
-	"Server configuration must include either 'command' (for stdio) or 'url' (for sse/streamable-http) and a corresponding 'type' if 'url' is used."
+	"Server configuration must include either 'command' (for stdio) or 'url' (for sse/streamable-http/websocket) and a corresponding 'type' if 'url' is used."
 
 // Helper function to create a refined schema with better error messages
 const createServerTypeSchema = () => {
@@ -103,6 +127,7 @@ const createServerTypeSchema = () => {
 			type: z.enum(["sse"]).optional(),
 			url: z.string().url("URL must be a valid URL format"),
 			headers: z.record(z.string()).optional(),
+			oauth: OAuthConfigSchema,
 			// Ensure no stdio fields are present
 			command: z.undefined().optional(),
 			args: z.undefined().optional(),
@@ -118,6 +143,7 @@ const createServerTypeSchema = () => {
 			type: z.enum(["streamable-http"]).optional(),
 			url: z.string().url("URL must be a valid URL format"),
 			headers: z.record(z.string()).optional(),
+			oauth: OAuthConfigSchema,
 			// Ensure no stdio fields are present
 			command: z.undefined().optional(),
 			args: z.undefined().optional(),
@@ -130,6 +156,27 @@ const createServerTypeSchema = () => {
 			.refine((data) => data.type === undefined || data.type === "streamable-http", {
 				message: typeErrorMessage,
 			}),
+		// WebSocket config (has url field). Browser-style WebSockets can't send
+		// custom headers, so neither `headers` nor `oauth` are supported.
+		BaseConfigSchema.extend({
+			type: z.enum(["websocket"]).optional(),
+			url: z
+				.string()
+				.url("URL must be a valid URL format")
+				.refine((url) => /^wss?:\/\//i.test(url), "WebSocket URL must start with ws:// or wss://"),
+			// Ensure no stdio fields are present
+			command: z.undefined().optional(),
+			args: z.undefined().optional(),
+			env: z.undefined().optional(),
+			headers: z.undefined().optional(),
+		})
+			.transform((data) => ({
+				...data,
+				type: "websocket" as const,
+			}))
+			.refine((data) => data.type === undefined || data.type === "websocket", {
+				message: typeErrorMessage,
+			}),
 	])
 }
 
@@ -154,6 +201,16 @@ export class McpHub {
 	private configChangeDebounceTimers: Map<string, NodeJS.Timeout> = new Map()
 	private isProgrammaticUpdate: boolean = false
 	private flagResetTimer?: NodeJS.Timeout
+	// OAuth authorizations waiting for the browser redirect, keyed by OAuth state.
+	private pendingAuthorizations: Map<
+		string,
+		{
+			serverName: string
+			source: "global" | "project"
+			transport: SSEClientTransport | StreamableHTTPClientTransport
+			expiresAt: number
+		}
+	> = new Map()
 
 	constructor(provider: ClineProvider) {
 		this.providerRef = new WeakRef(provider)
@@ -211,11 +268,13 @@ export class McpHub {
 
 		// For url-based configs, type must be provided by the user
 		if (hasUrlFields && !config.type) {
-			throw new Error("Configuration with 'url' must explicitly specify 'type' as 'sse' or 'streamable-http'.")
+			throw new Error(
+				"Configuration with 'url' must explicitly specify 'type' as 'sse', 'streamable-http', or 'websocket'.",
+			)
 		}
 
 		// Validate type if provided
-		if (config.type && !["stdio", "sse", "streamable-http"].includes(config.type)) {
+		if (config.type && !["stdio", "sse", "streamable-http", "websocket"].includes(config.type)) {
 			throw new Error(typeErrorMessage)
 		}
 
@@ -229,6 +288,9 @@ export class McpHub {
 		if (config.type === "streamable-http" && !hasUrlFields) {
 			throw new Error(streamableHttpFieldsErrorMessage)
 		}
+		if (config.type === "websocket" && !hasUrlFields) {
+			throw new Error(websocketFieldsErrorMessage)
+		}
 
 		// If neither command nor url is present (type alone is not enough)
 		if (!hasStdioFields && !hasUrlFields) {
@@ -658,7 +720,11 @@ export class McpHub {
 				},
 			)
 
-			let transport: StdioClientTransport | SSEClientTransport | StreamableHTTPClientTransport
+			let transport:
+				| StdioClientTransport
+				| SSEClientTransport
+				| StreamableHTTPClientTransport
+				| WebSocketClientTransport
 
 			// Inject variables to the config (environment, magic variables,...)
 			const configInjected = (await injectVariables(config, {
@@ -743,11 +809,21 @@ export class McpHub {
 				}
 			} else if (configInjected.type === "streamable-http") {
 				// Streamable HTTP connection
-				transport = new StreamableHTTPClientTransport(new URL(configInjected.url), {
-					requestInit: {
-						headers: configInjected.headers,
+				const streamableHttpTransport: StreamableHTTPClientTransport = new StreamableHTTPClientTransport(
+					new URL(configInjected.url),
+					{
+						requestInit: {
+							headers: configInjected.headers,
+						},
+						authProvider: this.createOAuthProvider(
+							name,
+							configInjected,
+							source,
+							() => streamableHttpTransport,
+						),
 					},
-				})
+				)
+				transport = streamableHttpTransport
 
 				// Set up Streamable HTTP specific error handling
 				transport.onerror = async (error) => {
@@ -769,17 +845,25 @@ export class McpHub {
 				}
 			} else if (configInjected.type === "sse") {
 				// SSE connection
+				const authProvider = this.createOAuthProvider(name, configInjected, source, () => sseTransport)
 				const sseOptions = {
 					requestInit: {
 						headers: configInjected.headers,
 					},
+					authProvider,
 				}
 				// Configure ReconnectingEventSource options
 				const reconnectingEventSourceOptions = {
 					max_retry_time: 5000, // Maximum retry time in milliseconds
-					withCredentials: configInjected.headers?.["Authorization"] ? true : false, // Enable credentials if Authorization header exists
-					fetch: (url: string | URL, init: RequestInit) => {
-						const headers = new Headers({ ...(init?.headers || {}), ...(configInjected.headers || {}) })
+					withCredentials: configInjected.headers?.["Authorization"] || authProvider ? true : false, // Enable credentials if Authorization header exists
+					fetch: async (url: string | URL, init: RequestInit) => {
+						// The event source bypasses the transport's own auth headers, so add the OAuth token here.
+						const tokens = await authProvider?.tokens()
+						const headers = new Headers({
+							...(init?.headers || {}),
+							...(configInjected.headers || {}),
+							...(tokens && { Authorization: `Bearer ${tokens.access_token}` }),
+						})
 						return fetch(url, {
 							...init,
 							headers,
@@ -787,10 +871,11 @@ export class McpHub {
 					},
 				}
 				global.EventSource = ReconnectingEventSource
-				transport = new SSEClientTransport(new URL(configInjected.url), {
+				const sseTransport = new SSEClientTransport(new URL(configInjected.url), {
 					...sseOptions,
 					eventSourceInit: reconnectingEventSourceOptions,
 				})
+				transport = sseTransport
 
 				// Set up SSE specific error handling
 				transport.onerror = async (error) => {
@@ -803,6 +888,34 @@ export class McpHub {
 					await this.notifyWebviewOfServerChanges()
 				}
 
+				transport.onclose = async () => {
+					const connection = this.findConnection(name, source)
+					if (connection) {
+						connection.server.status = "disconnected"
+					}
+					await this.notifyWebviewOfServerChanges()
+				}
+			} else if (configInjected.type === "websocket") {
+				// WebSocket connection
+				if (typeof WebSocket === "undefined") {
+					throw new Error(
+						"The WebSocket transport requires a VS Code version with built-in WebSocket support",
+					)
+				}
+
+				transport = new WebSocketClientTransport(new URL(configInjected.url))
+
+				// Set up WebSocket specific error handling
+				transport.onerror = async (error) => {
+					console.error(`Transport error for "${name}" (websocket):`, error)
+					const connection = this.findConnection(name, source)
+					if (connection) {
+						connection.server.status = "disconnected"
+						this.appendErrorMessage(connection, error instanceof Error ? error.message : `${error}`)
+					}
+					await this.notifyWebviewOfServerChanges()
+				}
+
 				transport.onclose = async () => {
 					const connection = this.findConnection(name, source)
 					if (connection) {
@@ -847,6 +960,7 @@ export class McpHub {
 			connection.server.tools = await this.fetchToolsList(name, source)
 			connection.server.resources = await this.fetchResourcesList(name, source)
 			connection.server.resourceTemplates = await this.fetchResourceTemplatesList(name, source)
+			connection.server.prompts = await this.fetchPromptsList(name, source)
 		} catch (error) {
 			// Update status with error
 			const connection = this.findConnection(name, source)
@@ -854,10 +968,95 @@ export class McpHub {
 				connection.server.status = "disconnected"
 				this.appendErrorMessage(connection, error instanceof Error ? error.message : `${error}`)
 			}
+
+			// The user has been prompted to sign in; the server reconnects once
+			// the OAuth callback completes.
+			if (error instanceof UnauthorizedError) {
+				if (connection) {
+					connection.server.error = t("mcp:oauth.authorization_pending")
+				}
+				return
+			}
+
 			throw error
 		}
 	}
 
+	private createOAuthProvider(
+		name: string,
+		config: { url: string; oauth?: boolean | McpOAuthConfig },
+		source: "global" | "project",
+		getTransport: () => SSEClientTransport | StreamableHTTPClientTransport,
+	): McpOAuthClientProvider | undefined {
+		const secrets = this.providerRef.deref()?.context.secrets
+
+		if (!config.oauth || !secrets) {
+			return undefined
+		}
+
+		return new McpOAuthClientProvider({
+			serverName: name,
+			source,
+			serverUrl: config.url,
+			config: config.oauth === true ? {} : config.oauth,
+			secrets,
+			onAuthorizationRequired: (authorizationUrl, state) => {
+				// A new sign-in supersedes the abandoned ones of the same server.
+				this.clearPendingAuthorizations(
+					(pending) =>
+						(pending.serverName === name && pending.source === source) || pending.expiresAt <= Date.now(),
+				)
+
+				this.pendingAuthorizations.set(state, {
+					serverName: name,
+					source,
+					transport: getTransport(),
+					expiresAt: Date.now() + OAUTH_AUTHORIZATION_TTL_MS,
+				})
+
+				const signIn = t("mcp:oauth.sign_in")
+
+				vscode.window
+					.showInformationMessage(t("mcp:oauth.authorization_required", { serverName: name }), signIn)
+					.then((choice) => {
+						if (choice === signIn) {
+							vscode.env.openExternal(vscode.Uri.parse(authorizationUrl.toString()))
+						}
+					})
+			},
+		})
+	}
+
+	/**
+	 * Completes an OAuth authorization started by a remote server connection
+	 * and reconnects the server with the new tokens.
+	 * @param code The authorization code from the redirect
+	 * @param state The OAuth state from the redirect
+	 */
+	public async handleOAuthCallback(code: string, state: string): Promise<void> {
+		const pending = this.pendingAuthorizations.get(state)
+
+		// Each authorization request can only be completed once, even if it fails.
+		this.pendingAuthorizations.delete(state)
+
+		if (!pending || pending.expiresAt <= Date.now()) {
+			throw new Error("Unknown or expired MCP authorization request")
+		}
+
+		await pending.transport.finishAuth(code)
+		await this.restartConnection(pending.serverName, pending.source)
+	}
+
+	private clearPendingAuthorizations(
+		predicate: (pending: { serverName: string; source: "global" | "project"; expiresAt: number }) => boolean,
+	) {
+		for (const [state, pending] of this.pendingAuthorizations) {
+			if (predicate(pending)) {
+				this.pendingAuthorizations.delete(state)
+			}
+		}
+	}
+
 	private appendErrorMessage(connection: McpConnection, error: string, level: "error" | "warn" | "info" = "error") {
 		const MAX_ERROR_LENGTH = 1000
 		const truncatedError =
@@ -1001,10 +1200,29 @@ export class McpHub {
 		}
 	}
 
+	private async fetchPromptsList(serverName: string, source?: "global" | "project"): Promise<McpPrompt[]> {
+		try {
+			const connection = this.findConnection(serverName, source)
+			if (!connection || connection.type !== "connected") {
+				return []
+			}
+			const response = await connection.client.request({ method: "prompts/list" }, ListPromptsResultSchema)
+			return response?.prompts || []
+		} catch (error) {
+			// Servers without the prompts capability reject this request.
+			return []
+		}
+	}
+
 	async deleteConnection(name: string, source?: "global" | "project"): Promise<void> {
 		// Clean up file watchers for this server
 		this.removeFileWatchersForServer(name)
 
+		// Abandon the server's sign-ins in progress
+		this.clearPendingAuthorizations(
+			(pending) => pending.serverName === name && (!source || pending.source === source),
+		)
+
 		// If source is provided, only delete connections from that source
 		const connections = source
 			? this.connections.filter((conn) => conn.server.name === name && conn.server.source === source)
@@ -1203,7 +1421,10 @@ export class McpHub {
 
 					// Try to connect again using validated config
 					await this.connectToServer(serverName, validatedConfig, connection.server.source || "global")
-					vscode.window.showInformationMessage(t("mcp:info.server_connected", { serverName }))
+
+					if (this.findConnection(serverName, connection.server.source)?.server.status === "connected") {
+						vscode.window.showInformationMessage(t("mcp:info.server_connected", { serverName }))
+					}
 				} catch (validationError) {
 					this.showErrorMessage(`Invalid configuration for MCP server "${serverName}"`, validationError)
 				}
@@ -1395,6 +1616,7 @@ export class McpHub {
 							serverName,
 							serverSource,
 						)
+						connection.server.prompts = await this.fetchPromptsList(serverName, serverSource)
 					}
 				} catch (error) {
 					console.error(`Failed to refresh capabilities for ${serverName}:`, error)
@@ -1621,6 +1843,11 @@ export class McpHub {
 				// Update server connections with the correct source
 				await this.updateServerConnections(config.mcpServers, serverSource)
 
+				// Forget any OAuth client registration and tokens for the server
+				await this.providerRef
+					.deref()
+					?.context.secrets.delete(McpOAuthClientProvider.getSecretKey(serverName, serverSource))
+
 				vscode.window.showInformationMessage(t("mcp:info.server_deleted", { serverName }))
 			} else {
 				vscode.window.showWarningMessage(t("mcp:info.server_not_found", { serverName }))
@@ -1650,6 +1877,31 @@ export class McpHub {
 		)
 	}
 
+	async getPrompt(
+		serverName: string,
+		promptName: string,
+		promptArguments?: Record<string, string>,
+		source?: "global" | "project",
+	): Promise<McpPromptResponse> {
+		const connection = this.findConnection(serverName, source)
+		if (!connection || connection.type !== "connected") {
+			throw new Error(`No connection found for server: ${serverName}${source ? ` with source ${source}` : ""}`)
+		}
+		if (connection.server.disabled) {
+			throw new Error(`Server "${serverName}" is disabled`)
+		}
+		return await connection.client.request(
+			{
+				method: "prompts/get",
+				params: {
+					name: promptName,
+					arguments: promptArguments,
+				},
+			},
+			GetPromptResultSchema,
+		)
+	}
+
 	async callTool(
 		serverName: string,
 		toolName: string,
@@ -1900,6 +2152,7 @@ export class McpHub {
 			}
 		}
 		this.connections = []
+		this.pendingAuthorizations.clear()
 		if (this.settingsWatcher) {
 			this.settingsWatcher.dispose()
 			this.settingsWatcher = undefined
@@ -0,0 +1,137 @@
+import crypto from "crypto"
+import * as vscode from "vscode"
+import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js"
+import type {
+	OAuthClientInformation,
+	OAuthClientInformationFull,
+	OAuthClientMetadata,
+	OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js"
+
+import { Package } from "../../shared/package"
+
+export type McpOAuthConfig = {
+	clientId?: string
+	clientSecret?: string
+	scope?: string
+}
+
+// Everything persisted for one server. It is keyed by server name and source,
+// and discarded if the server's URL changes.
+type StoredOAuthState = {
+	serverUrl: string
+	clientInformation?: OAuthClientInformation
+	tokens?: OAuthTokens
+	codeVerifier?: string
+}
+
+export type McpOAuthClientProviderOptions = {
+	serverName: string
+	source: "global" | "project"
+	serverUrl: string
+	config: McpOAuthConfig
+	secrets: vscode.SecretStorage
+	// Called when the user needs to (re-)authorize in the browser.
+	onAuthorizationRequired: (authorizationUrl: URL, state: string) => void
+}
+
+export const MCP_OAUTH_CALLBACK_PATH = "/mcp/oauth/callback"
+
+/**
+ * Implements the MCP OAuth client flow (dynamic client registration, PKCE and
+ * token refresh are driven by the SDK transports) for one remote server,
+ * persisting client registrations and tokens in VS Code's SecretStorage.
+ */
+export class McpOAuthClientProvider implements OAuthClientProvider {
+	private cachedState?: StoredOAuthState
+
+	constructor(private readonly options: McpOAuthClientProviderOptions) {}
+
+	static getSecretKey(serverName: string, source: "global" | "project") {
+		return `mcpOAuth:${source}:${serverName}`
+	}
+
+	get redirectUrl(): string {
+		return `${vscode.env.uriScheme}://${Package.publisher}.${Package.name}${MCP_OAUTH_CALLBACK_PATH}`
+	}
+
+	get clientMetadata(): OAuthClientMetadata {
+		return {
+			client_name: "Roo Code",
+			redirect_uris: [this.redirectUrl],
+			grant_types: ["authorization_code", "refresh_token"],
+			response_types: ["code"],
+			token_endpoint_auth_method: this.options.config.clientSecret ? "client_secret_post" : "none",
+			scope: this.options.config.scope,
+		}
+	}
+
+	state(): string {
+		return crypto.randomBytes(16).toString("hex")
+	}
+
+	async clientInformation(): Promise<OAuthClientInformation | undefined> {
+		const { clientId, clientSecret } = this.options.config
+
+		if (clientId) {
+			return { client_id: clientId, client_secret: clientSecret }
+		}
+
+		return (await this.load()).clientInformation
+	}
+
+	async saveClientInformation(clientInformation: OAuthClientInformationFull): Promise<void> {
+		await this.update({ clientInformation })
+	}
+
+	async tokens(): Promise<OAuthTokens | undefined> {
+		return (await this.load()).tokens
+	}
+
+	async saveTokens(tokens: OAuthTokens): Promise<void> {
+		await this.update({ tokens, codeVerifier: undefined })
+	}
+
+	redirectToAuthorization(authorizationUrl: URL): void {
+		this.options.onAuthorizationRequired(authorizationUrl, authorizationUrl.searchParams.get("state") ?? "")
+	}
+
+	async saveCodeVerifier(codeVerifier: string): Promise<void> {
+		await this.update({ codeVerifier })
+	}
+
+	async codeVerifier(): Promise<string> {
+		const { codeVerifier } = await this.load()
+
+		if (!codeVerifier) {
+			throw new Error(`No pending OAuth authorization for MCP server "${this.options.serverName}"`)
+		}
+
+		return codeVerifier
+	}
+
+	private async load(): Promise<StoredOAuthState> {
+		if (this.cachedState) {
+			return this.cachedState
+		}
+
+		const { serverName, source, serverUrl, secrets } = this.options
+		const raw = await secrets.get(McpOAuthClientProvider.getSecretKey(serverName, source))
+		let stored: StoredOAuthState | undefined
+
+		try {
+			stored = raw ? JSON.parse(raw) : undefined
+		} catch (error) {
+			console.error(`Failed to parse stored OAuth state for MCP server "${serverName}":`, error)
+		}
+
+		this.cachedState = stored?.serverUrl === serverUrl ? stored : { serverUrl }
+		return this.cachedState
+	}
+
+	private async update(values: Partial<Omit<StoredOAuthState, "serverUrl">>): Promise<void> {
+		const { serverName, source, secrets } = this.options
+		this.cachedState = { ...(await this.load()), ...values }
+		await secrets.store(McpOAuthClientProvider.getSecretKey(serverName, source), JSON.stringify(this.cachedState))
+	}
+}
@@ -69,6 +69,13 @@ vi.mock("vscode", () => ({
 			dispose: vi.fn(),
 		}),
 	},
+	env: {
+		uriScheme: "vscode",
+		openExternal: vi.fn(),
+	},
+	Uri: {
+		parse: vi.fn((value: string) => value),
+	},
 	Disposable: {
 		from: vi.fn(),
 	},
@@ -86,6 +93,10 @@ vi.mock("@modelcontextprotocol/sdk/client/index.js", () => ({
 	Client: vi.fn(),
 }))
 
+vi.mock("@modelcontextprotocol/sdk/client/streamableHttp.js", () => ({
+	StreamableHTTPClientTransport: vi.fn(),
+}))
+
 // Mock chokidar
 vi.mock("chokidar", () => ({
 	default: {
@@ -1199,6 +1210,46 @@ describe("McpHub", () => {
 		})
 	})
 
+	describe("getPrompt", () => {
+		it("should get a prompt with its arguments", async () => {
+			const messages = [{ role: "user", content: { type: "text", text: "Review this code" } }]
+			const mockConnection: ConnectedMcpConnection = {
+				type: "connected",
+				server: {
+					name: "test-server",
+					config: JSON.stringify({}),
+					status: "connected" as const,
+				},
+				client: {
+					request: vi.fn().mockResolvedValue({ messages }),
+				} as any,
+				transport: {} as any,
+			}
+
+			mcpHub.connections = [mockConnection]
+
+			const response = await mcpHub.getPrompt("test-server", "review", { language: "ts" })
+
+			expect(response.messages).toEqual(messages)
+			expect(mockConnection.client!.request).toHaveBeenCalledWith(
+				{
+					method: "prompts/get",
+					params: {
+						name: "review",
+						arguments: { language: "ts" },
+					},
+				},
+				expect.any(Object),
+			)
+		})
+
+		it("should throw error if server not found", async () => {
+			await expect(mcpHub.getPrompt("non-existent-server", "review")).rejects.toThrow(
+				"No connection found for server: non-existent-server",
+			)
+		})
+	})
+
 	describe("callTool", () => {
 		it("should execute tool successfully", async () => {
 			// Mock the connection with a minimal client implementation
@@ -2147,4 +2198,130 @@ describe("McpHub", () => {
 			)
 		})
 	})
+
+	describe("remote server transports", () => {
+		it("should validate websocket and oauth configurations", () => {
+			expect(ServerConfigSchema.parse({ type: "websocket", url: "wss://mcp.example.com" })).toMatchObject({
+				type: "websocket",
+				url: "wss://mcp.example.com",
+			})
+			expect(
+				ServerConfigSchema.parse({
+					type: "streamable-http",
+					url: "https://mcp.example.com/mcp",
+					oauth: { clientId: "roo", scope: "tools" },
+				}),
+			).toMatchObject({ type: "streamable-http", oauth: { clientId: "roo", scope: "tools" } })
+			expect(
+				ServerConfigSchema.parse({ type: "sse", url: "https://mcp.example.com/sse", oauth: true }),
+			).toMatchObject({ type: "sse", oauth: true })
+
+			expect(() => ServerConfigSchema.parse({ type: "websocket", url: "https://mcp.example.com" })).toThrow()
+			expect(() =>
+				ServerConfigSchema.parse({
+					type: "websocket",
+					url: "wss://mcp.example.com",
+					headers: { Authorization: "Bearer token" },
+				}),
+			).toThrow()
+		})
+
+		it("should wait for the OAuth callback and reconnect with the new tokens", async () => {
+			const vscode = await import("vscode")
+			const { UnauthorizedError } = await import("@modelcontextprotocol/sdk/client/auth.js")
+			const streamableHttpModule = await import("@modelcontextprotocol/sdk/client/streamableHttp.js")
+			const clientModule = await import("@modelcontextprotocol/sdk/client/index.js")
+			const StreamableHTTPClientTransport = streamableHttpModule.StreamableHTTPClientTransport as Mock
+			const Client = clientModule.Client as Mock
+
+			const finishAuth = vi.fn().mockResolvedValue(undefined)
+			StreamableHTTPClientTransport.mockImplementation((_url: URL, options: any) => ({
+				options,
+				finishAuth,
+				close: vi.fn().mockResolvedValue(undefined),
+			}))
+
+			let authorized = false
+			Client.mockImplementation(() => ({
+				connect: vi.fn(async (transport: any) => {
+					if (!authorized) {
+						transport.options.authProvider.redirectToAuthorization(
+							new URL("https://auth.example.com/authorize?state=oauth-state"),
+						)
+						throw new UnauthorizedError()
+					}
+				}),
+				close: vi.fn().mockResolvedValue(undefined),
+				getInstructions: vi.fn(),
+				request: vi.fn().mockResolvedValue({ tools: [], resources: [], resourceTemplates: [] }),
+			}))
+
+			vi.mocked(vscode.window.showInformationMessage).mockResolvedValue(undefined)
+			mockProvider.context!.secrets.get = vi.fn().mockResolvedValue(undefined)
+
+			const serverConfig = { type: "streamable-http", url: "https://mcp.example.com/mcp", oauth: true }
+			vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ mcpServers: { remote: serverConfig } }))
+
+			const mcpHub = new McpHub(mockProvider as ClineProvider)
+			await mcpHub.updateServerConnections({ remote: serverConfig }, "global")
+
+			const connection = mcpHub.connections.find((conn) => conn.server.name === "remote")
+			expect(connection?.server.status).toBe("disconnected")
+			expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(expect.any(String), expect.any(String))
+
+			authorized = true
+			await mcpHub.handleOAuthCallback("auth-code", "oauth-state")
+
+			expect(finishAuth).toHaveBeenCalledWith("auth-code")
+			expect(mcpHub.connections.find((conn) => conn.server.name === "remote")?.server.status).toBe("connected")
+
+			// Each authorization request can only be completed once.
+			await expect(mcpHub.handleOAuthCallback("auth-code", "oauth-state")).rejects.toThrow(
+				"Unknown or expired MCP authorization request",
+			)
+		})
+
+		it("should expire OAuth authorizations that are never completed", async () => {
+			const vscode = await import("vscode")
+			const { UnauthorizedError } = await import("@modelcontextprotocol/sdk/client/auth.js")
+			const streamableHttpModule = await import("@modelcontextprotocol/sdk/client/streamableHttp.js")
+			const clientModule = await import("@modelcontextprotocol/sdk/client/index.js")
+			const StreamableHTTPClientTransport = streamableHttpModule.StreamableHTTPClientTransport as Mock
+			const Client = clientModule.Client as Mock
+
+			const finishAuth = vi.fn()
+			StreamableHTTPClientTransport.mockImplementation((_url: URL, options: any) => ({
+				options,
+				finishAuth,
+				close: vi.fn().mockResolvedValue(undefined),
+			}))
+			Client.mockImplementation(() => ({
+				connect: vi.fn(async (transport: any) => {
+					transport.options.authProvider.redirectToAuthorization(
+						new URL("https://auth.example.com/authorize?state=oauth-state"),
+					)
+					throw new UnauthorizedError()
+				}),
+				close: vi.fn().mockResolvedValue(undefined),
+			}))
+
+			vi.mocked(vscode.window.showInformationMessage).mockResolvedValue(undefined)
+			mockProvider.context!.secrets.get = vi.fn().mockResolvedValue(undefined)
+
+			const serverConfig = { type: "streamable-http", url: "https://mcp.example.com/mcp", oauth: true }
+			vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ mcpServers: { remote: serverConfig } }))
+
+			const mcpHub = new McpHub(mockProvider as ClineProvider)
+			await mcpHub.updateServerConnections({ remote: serverConfig }, "global")
+
+			const now = Date.now()
+			const dateNow = vi.spyOn(Date, "now").mockReturnValue(now + 11 * 60 * 1000)
+
+			await expect(mcpHub.handleOAuthCallback("auth-code", "oauth-state")).rejects.toThrow(
+				"Unknown or expired MCP authorization request",
+			)
+			expect(finishAuth).not.toHaveBeenCalled()
+			dateNow.mockRestore()
+		})
+	})
 })
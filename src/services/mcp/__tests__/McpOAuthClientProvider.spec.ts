@@ -0,0 +1,77 @@
+import { McpOAuthClientProvider } from "../McpOAuthClientProvider"
+
+vi.mock("vscode", () => ({
+	env: {
+		uriScheme: "vscode",
+	},
+}))
+
+describe("McpOAuthClientProvider", () => {
+	let storage: Map<string, string>
+	let secrets: any
+	let onAuthorizationRequired: ReturnType<typeof vi.fn>
+
+	const createProvider = (overrides: Partial<ConstructorParameters<typeof McpOAuthClientProvider>[0]> = {}) =>
+		new McpOAuthClientProvider({
+			serverName: "remote",
+			source: "global",
+			serverUrl: "https://mcp.example.com/mcp",
+			config: {},
+			secrets,
+			onAuthorizationRequired,
+			...overrides,
+		})
+
+	beforeEach(() => {
+		storage = new Map()
+		secrets = {
+			get: vi.fn(async (key: string) => storage.get(key)),
+			store: vi.fn(async (key: string, value: string) => void storage.set(key, value)),
+			delete: vi.fn(async (key: string) => void storage.delete(key)),
+		}
+		onAuthorizationRequired = vi.fn()
+	})
+
+	it("persists client registrations and tokens in secret storage", async () => {
+		const provider = createProvider()
+
+		await provider.saveClientInformation({ client_id: "registered", redirect_uris: [provider.redirectUrl] })
+		await provider.saveCodeVerifier("verifier")
+		expect(await provider.codeVerifier()).toBe("verifier")
+
+		await provider.saveTokens({ access_token: "access", token_type: "Bearer", refresh_token: "refresh" })
+
+		// A new provider (e.g. after a reload) reads the stored state back.
+		const reloaded = createProvider()
+		expect(await reloaded.clientInformation()).toMatchObject({ client_id: "registered" })
+		expect(await reloaded.tokens()).toMatchObject({ access_token: "access", refresh_token: "refresh" })
+		await expect(reloaded.codeVerifier()).rejects.toThrow('No pending OAuth authorization for MCP server "remote"')
+		expect(secrets.store).toHaveBeenCalledWith("mcpOAuth:global:remote", expect.any(String))
+	})
+
+	it("discards stored state when the server URL changes", async () => {
+		await createProvider().saveTokens({ access_token: "access", token_type: "Bearer" })
+
+		const provider = createProvider({ serverUrl: "https://other.example.com/mcp" })
+		expect(await provider.tokens()).toBeUndefined()
+	})
+
+	it("uses a pre-registered client when configured", async () => {
+		const provider = createProvider({ config: { clientId: "roo", clientSecret: "secret", scope: "tools" } })
+
+		expect(await provider.clientInformation()).toEqual({ client_id: "roo", client_secret: "secret" })
+		expect(provider.clientMetadata).toMatchObject({
+			redirect_uris: ["vscode://RooVeterinaryInc.roo-cline/mcp/oauth/callback"],
+			token_endpoint_auth_method: "client_secret_post",
+			scope: "tools",
+		})
+	})
+
+	it("hands the authorization URL and state to the caller", () => {
+		const authorizationUrl = new URL("https://auth.example.com/authorize?state=abc")
+
+		createProvider().redirectToAuthorization(authorizationUrl)
+
+		expect(onAuthorizationRequired).toHaveBeenCalledWith(authorizationUrl, "abc")
+	})
+})
@@ -3,18 +3,37 @@ import * as path from "path"
 import * as os from "os"
 import { z } from "zod"
 
+import { approvalPolicySchema, sandboxProfileSchema } from "@roo-code/types"
 import { CloudService, getClerkBaseUrl, PRODUCTION_CLERK_BASE_URL } from "@roo-code/cloud"
 
 import { t } from "../../i18n"
 
 // MDM Configuration Schema
+const mdmApprovalPolicySchema = approvalPolicySchema.extend({
+	// When set, project and global approval policy files are ignored.
+	exclusive: z.boolean().optional(),
+})
+
+// A sandbox profile that the commands of the listed modes (or of every mode)
+// must run in, regardless of the mode's own profile.
+const mdmSandboxPolicySchema = z.object({
+	profile: sandboxProfileSchema,
+	modes: z.array(z.string()).optional(),
+})
+
 const mdmConfigSchema = z.object({
 	requireCloudAuth: z.boolean(),
 	organizationId: z.string().optional(),
+	approvalPolicy: mdmApprovalPolicySchema.optional(),
+	sandbox: mdmSandboxPolicySchema.optional(),
 })
 
 export type MdmConfig = z.infer<typeof mdmConfigSchema>
 
+export type MdmApprovalPolicy = z.infer<typeof mdmApprovalPolicySchema>
+
+export type MdmSandboxPolicy = z.infer<typeof mdmSandboxPolicySchema>
+
 export type ComplianceResult = { compliant: true } | { compliant: false; reason: string }
 
 export class MdmService {
@@ -56,6 +75,20 @@ export class MdmService {
 		return this.mdmConfig?.organizationId
 	}
 
+	/**
+	 * Get the managed auto-approval policy, if any
+	 */
+	public getApprovalPolicy(): MdmApprovalPolicy | undefined {
+		return this.mdmConfig?.approvalPolicy
+	}
+
+	/**
+	 * Get the managed sandbox policy, if any
+	 */
+	public getSandboxPolicy(): MdmSandboxPolicy | undefined {
+		return this.mdmConfig?.sandbox
+	}
+
 	/**
 	 * Check if the current state is compliant with MDM policy
 	 */
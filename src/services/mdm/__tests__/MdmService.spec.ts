@@ -126,6 +126,40 @@ describe("MdmService", () => {
 			expect(service.getRequiredOrganizationId()).toBe("test-org-123")
 		})
 
+		it("should load a managed approval policy", async () => {
+			const mockConfig = {
+				requireCloudAuth: false,
+				approvalPolicy: {
+					exclusive: true,
+					rules: [{ id: "no-rm", decision: "deny", match: { commands: ["rm -rf"] } }],
+				},
+			}
+
+			mockFs.existsSync.mockReturnValue(true)
+			mockFs.readFileSync.mockReturnValue(JSON.stringify(mockConfig))
+
+			const service = await MdmService.createInstance()
+
+			expect(service.getApprovalPolicy()).toEqual(mockConfig.approvalPolicy)
+		})
+
+		it("should load a managed sandbox policy", async () => {
+			const mockConfig = {
+				requireCloudAuth: false,
+				sandbox: {
+					profile: { backend: "bubblewrap", network: false, limits: { memoryMb: 2048 } },
+					modes: ["code"],
+				},
+			}
+
+			mockFs.existsSync.mockReturnValue(true)
+			mockFs.readFileSync.mockReturnValue(JSON.stringify(mockConfig))
+
+			const service = await MdmService.createInstance()
+
+			expect(service.getSandboxPolicy()).toEqual(mockConfig.sandbox)
+		})
+
 		it("should handle missing MDM config file gracefully", async () => {
 			mockFs.existsSync.mockReturnValue(false)
 
@@ -228,6 +228,83 @@ export async function regexSearchFiles(
 	return formatResults(filteredResults, cwd)
 }
 
+/**
+ * A single line reported by ripgrep, either a match or surrounding context.
+ */
+export interface RipgrepLine {
+	filePath: string
+	line: number
+	text: string
+	isMatch: boolean
+}
+
+/**
+ * Searches for any of the given literal terms and returns the matching lines (plus context lines)
+ * in structured form instead of the formatted text produced by regexSearchFiles.
+ * Terms are matched as fixed strings, so identifiers containing regex metacharacters are safe.
+ */
+export async function searchLiteralTerms(
+	directoryPath: string,
+	terms: string[],
+	options: { globs?: string[]; ignoreCase?: boolean; contextLines?: number } = {},
+): Promise<RipgrepLine[]> {
+	if (terms.length === 0) {
+		return []
+	}
+
+	const rgPath = await getBinPath(vscode.env.appRoot)
+
+	if (!rgPath) {
+		throw new Error("Could not find ripgrep binary")
+	}
+
+	const args = ["--json", "--fixed-strings"]
+
+	if (options.ignoreCase) {
+		args.push("--ignore-case")
+	}
+
+	for (const term of terms) {
+		args.push("-e", term)
+	}
+
+	for (const glob of options.globs ?? []) {
+		args.push("--glob", glob)
+	}
+
+	args.push("--context", String(options.contextLines ?? 0), "--no-messages", directoryPath)
+
+	const output = await execRipgrep(rgPath, args)
+	const lines: RipgrepLine[] = []
+	let currentFile: string | undefined
+
+	for (const rawLine of output.split("\n")) {
+		if (!rawLine) {
+			continue
+		}
+
+		try {
+			const parsed = JSON.parse(rawLine)
+			if (parsed.type === "begin") {
+				currentFile = parsed.data.path.text.toString()
+			} else if (parsed.type === "end") {
+				currentFile = undefined
+			} else if ((parsed.type === "match" || parsed.type === "context") && currentFile) {
+				lines.push({
+					filePath: currentFile,
+					line: parsed.data.line_number,
+					text: truncateLine(parsed.data.lines.text.replace(/\r?\n$/, "")),
+					isMatch: parsed.type === "match",
+				})
+			}
+		} catch (error) {
+			console.error("Error parsing ripgrep output:", error)
+		}
+	}
+
+	return lines
+}
+
 function formatResults(fileResults: SearchFileResult[], cwd: string): string {
 	const groupedResults: { [key: string]: SearchResult[] } = {}
 
@@ -14,21 +14,31 @@ import type {
 	OrganizationAllowList,
 	ShareVisibility,
 	QueuedMessage,
+	CheckpointRetention,
+	BackgroundJob,
+	TaskSearchResult,
 } from "@roo-code/types"
 
 import { GitCommit } from "../utils/git"
 
-import { McpServer } from "./mcp"
+import { McpPromptArgument, McpServer } from "./mcp"
 import { Mode } from "./modes"
 import { ModelRecord, RouterModels } from "./api"
 
 // Command interface for frontend/backend communication
 export interface Command {
 	name: string
-	source: "global" | "project" | "built-in"
+	source: "global" | "project" | "built-in" | "mcp"
 	filePath?: string
 	description?: string
 	argumentHint?: string
+	// Set for prompts exposed by MCP servers (source "mcp").
+	mcpPrompt?: {
+		serverName: string
+		serverSource?: "global" | "project"
+		promptName: string
+		arguments?: McpPromptArgument[]
+	}
 }
 
 // Type for marketplace installed metadata
@@ -52,6 +62,16 @@ export interface IndexingStatusUpdateMessage {
 	values: IndexingStatus
 }
 
+// Disk usage of a task's checkpoint shadow repo
+export interface CheckpointUsageEntry {
+	taskId: string
+	task?: string
+	sizeBytes: number
+	checkpointCount: number
+	lastUsedAt: number
+	isActive?: boolean
+}
+
 export interface LanguageModelChatSelector {
 	vendor?: string
 	family?: string
@@ -131,6 +151,10 @@ export interface ExtensionMessage {
 		| "interactionRequired"
 		| "browserSessionUpdate"
 		| "browserSessionNavigate"
+		| "checkpointUsage"
+		| "mcpPrompt"
+		| "taskSearchResults"
+		| "scrollToMessage"
 	text?: string
 	payload?: any // Add a generic payload for now, can refine later
 	// Checkpoint warning message
@@ -216,6 +240,8 @@ export interface ExtensionMessage {
 	browserSessionMessages?: ClineMessage[] // For browser session panel updates
 	isBrowserSessionActive?: boolean // For browser session panel updates
 	stepIndex?: number // For browserSessionNavigate: the target step index to display
+	checkpointUsage?: CheckpointUsageEntry[]
+	taskSearchResults?: TaskSearchResult[]
 }
 
 export type ExtensionState = Pick<
@@ -244,6 +270,9 @@ export type ExtensionState = Pick<
 	| "deniedCommands"
 	| "allowedMaxRequests"
 	| "allowedMaxCost"
+	| "taskBudget"
+	| "modeTaskBudgets"
+	| "profileTaskBudgets"
 	| "browserToolEnabled"
 	| "browserViewportSize"
 	| "screenshotQuality"
@@ -276,6 +305,7 @@ export type ExtensionState = Pick<
 	| "enhancementApiConfigId"
 	| "condensingApiConfigId"
 	| "customCondensingPrompt"
+	| "condensingMode"
 	| "codebaseIndexConfig"
 	| "codebaseIndexModels"
 	| "profileThresholds"
@@ -304,6 +334,7 @@ export type ExtensionState = Pick<
 
 	enableCheckpoints: boolean
 	checkpointTimeout: number // Timeout for checkpoint initialization in seconds (default: 15)
+	checkpointRetention?: CheckpointRetention
 	maxOpenTabsContext: number // Maximum number of VSCode open tabs to include in context (0-500)
 	maxWorkspaceFiles: number // Maximum number of files to include in current working directory details (0-500)
 	showRooIgnoredFiles: boolean // Whether to show .rooignore'd files in listings
@@ -348,6 +379,7 @@ export type ExtensionState = Pick<
 	openRouterImageApiKey?: string
 	openRouterUseMiddleOutTransform?: boolean
 	messageQueue?: QueuedMessage[]
+	backgroundJobs?: BackgroundJob[]
 	lastShownAnnouncementId?: string
 	apiModelId?: string
 	mcpServers?: McpServer[]
@@ -378,6 +410,8 @@ export interface ClineSayTool {
 		| "imageGenerated"
 		| "runSlashCommand"
 		| "updateTodoList"
+		| "lookupSymbol"
+		| "renameSymbol"
 	path?: string
 	diff?: string
 	content?: string
@@ -392,6 +426,10 @@ export interface ClineSayTool {
 	additionalFileCount?: number // Number of additional files in the same read_file request
 	lineNumber?: number
 	query?: string
+	// Properties for the lookupSymbol and renameSymbol tools
+	symbol?: string
+	lookup?: "definition" | "references" | "hover"
+	newName?: string
 	batchFiles?: Array<{
 		path: string
 		lineSnippet: string
@@ -430,9 +468,20 @@ export const browserActions = [
 	"scroll_down",
 	"scroll_up",
 	"resize",
+	"snapshot",
+	"click_element",
+	"fill",
+	"select_option",
+	"wait_for",
+	"evaluate",
+	"navigate_back",
+	"get_network_log",
 	"close",
 ] as const
 
+// Browser actions that target an element of the last snapshot by its reference.
+export const browserElementActions = ["click_element", "fill", "select_option"] as const satisfies BrowserAction[]
+
 export type BrowserAction = (typeof browserActions)[number]
 
 export interface ClineSayBrowserAction {
@@ -441,11 +490,23 @@ export interface ClineSayBrowserAction {
 	size?: string
 	text?: string
 	executedCoordinate?: string
+	ref?: string
+	// Description of the referenced element, e.g. `button "Save"`
+	element?: string
+	selector?: string
+	expression?: string
+	// Filters of `get_network_log`
+	url?: string
+	status?: string
 }
 
 export type BrowserActionResult = {
 	screenshot?: string
+	// Text returned by actions that read the page, e.g. `snapshot` and `evaluate`
+	content?: string
 	logs?: string
+	// Requests made during the action that failed or returned a 4xx/5xx status
+	networkErrors?: string
 	currentUrl?: string
 	currentMousePosition?: string
 	viewportWidth?: number
@@ -471,6 +532,8 @@ export interface ClineApiReqInfo {
 	cancelReason?: ClineApiReqCancelReason
 	streamingFailedMessage?: string
 	apiProtocol?: "anthropic" | "openai"
+	// The profile of the failover chain that served the request.
+	servedBy?: { profileName: string; modelId: string; isFailover: boolean }
 }
 
 export type ClineApiReqCancelReason = "streaming_failed" | "user_cancelled"
@@ -51,6 +51,8 @@ export interface WebviewMessage {
 		| "showTaskWithId"
 		| "deleteTaskWithId"
 		| "exportTaskWithId"
+		| "exportTaskArchive"
+		| "importTaskArchive"
 		| "importSettings"
 		| "exportSettings"
 		| "resetState"
@@ -111,6 +113,11 @@ export interface WebviewMessage {
 		| "openCustomModesSettings"
 		| "checkpointDiff"
 		| "checkpointRestore"
+		| "checkpointFork"
+		| "requestCheckpointUsage"
+		| "purgeCheckpoints"
+		| "applyCheckpointRetention"
+		| "searchTaskHistory"
 		| "deleteMcpServer"
 		| "humanRelayResponse"
 		| "humanRelayCancel"
@@ -158,17 +165,20 @@ export interface WebviewMessage {
 		| "deleteCommand"
 		| "createCommand"
 		| "insertTextIntoTextarea"
+		| "getMcpPrompt"
 		| "showMdmAuthRequiredNotification"
 		| "imageGenerationSettings"
 		| "queueMessage"
 		| "removeQueuedMessage"
 		| "editQueuedMessage"
+		| "killBackgroundJob"
 		| "dismissUpsell"
 		| "getDismissedUpsells"
 		| "updateSettings"
 		| "allowedCommands"
 		| "deniedCommands"
 		| "killBrowserSession"
+		| "exportBrowserHar"
 		| "openBrowserSessionPanel"
 		| "showBrowserSessionPanelAtStep"
 		| "refreshBrowserSessionPanel"
@@ -193,6 +203,7 @@ export interface WebviewMessage {
 	audioType?: AudioType
 	serverName?: string
 	toolName?: string
+	promptName?: string
 	alwaysAllow?: boolean
 	isEnabled?: boolean
 	mode?: Mode
@@ -230,6 +241,7 @@ export interface WebviewMessage {
 	codeIndexSettings?: {
 		// Global state settings
 		codebaseIndexEnabled: boolean
+		codebaseIndexVectorStoreProvider?: "qdrant" | "local"
 		codebaseIndexQdrantUrl: string
 		codebaseIndexEmbedderProvider:
 			| "openai"
@@ -248,6 +260,7 @@ export interface WebviewMessage {
 		codebaseIndexBedrockProfile?: string
 		codebaseIndexSearchMaxResults?: number
 		codebaseIndexSearchMinScore?: number
+		codebaseIndexSearchMode?: "semantic" | "hybrid"
 		codebaseIndexOpenRouterSpecificProvider?: string // OpenRouter provider routing
 
 		// Secret settings
@@ -279,6 +292,13 @@ export const checkoutRestorePayloadSchema = z.object({
 
 export type CheckpointRestorePayload = z.infer<typeof checkoutRestorePayloadSchema>
 
+export const checkpointForkPayloadSchema = z.object({
+	ts: z.number(),
+	commitHash: z.string(),
+})
+
+export type CheckpointForkPayload = z.infer<typeof checkpointForkPayloadSchema>
+
 export interface IndexingStatusPayload {
 	state: "Standby" | "Indexing" | "Indexed" | "Error"
 	message: string
@@ -301,6 +321,7 @@ export type InstallMarketplaceItemWithParametersPayload = z.infer<
 export type WebViewMessagePayload =
 	| CheckpointDiffPayload
 	| CheckpointRestorePayload
+	| CheckpointForkPayload
 	| IndexingStatusPayload
 	| IndexClearedPayload
 	| InstallMarketplaceItemWithParametersPayload
@@ -1,4 +1,9 @@
-import { mentionRegex, mentionRegexGlobal } from "../context-mentions"
+import {
+	mentionRegex,
+	mentionRegexGlobal,
+	formatMcpResourceMention,
+	parseMcpResourceMention,
+} from "../context-mentions"
 
 describe("mentionRegex and mentionRegexGlobal", () => {
 	// Test cases for various mention types
@@ -147,3 +152,22 @@ After space @/should/match.txt`
 		})
 	})
 })
+
+describe("MCP resource mentions", () => {
+	it("round-trips server names and resource URIs", () => {
+		const mention = formatMcpResourceMention("my server", "repo://roo/issues?state=open")
+
+		expect(mention).toBe("mcp://my\\ server/repo://roo/issues?state=open")
+		expect(`@${mention}`.match(mentionRegex)?.[1]).toBe(mention)
+		expect(parseMcpResourceMention(mention)).toEqual({
+			serverName: "my server",
+			uri: "repo://roo/issues?state=open",
+		})
+	})
+
+	it("rejects mentions without a server or URI", () => {
+		expect(parseMcpResourceMention("https://example.com")).toBeUndefined()
+		expect(parseMcpResourceMention("mcp:///uri")).toBeUndefined()
+		expect(parseMcpResourceMention("mcp://server/")).toBeUndefined()
+	})
+})
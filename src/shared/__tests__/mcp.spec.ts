@@ -0,0 +1,31 @@
+import { expandUriTemplate, getMcpPromptCommandName, getUriTemplateVariables } from "../mcp"
+
+describe("getMcpPromptCommandName", () => {
+	it("produces names that are valid slash commands", () => {
+		expect(getMcpPromptCommandName("github", "review-pr")).toBe("mcp.github.review-pr")
+		expect(getMcpPromptCommandName("My Server", "sum up/all")).toBe("mcp.My_Server.sum_up_all")
+	})
+})
+
+describe("URI templates", () => {
+	it("lists template variables", () => {
+		expect(getUriTemplateVariables("repo://{owner}/{repo}/issues{?state,labels*}")).toEqual([
+			"owner",
+			"repo",
+			"state",
+			"labels",
+		])
+		expect(getUriTemplateVariables("file:///static.txt")).toEqual([])
+	})
+
+	it("expands simple, reserved and query expressions", () => {
+		expect(expandUriTemplate("repo://{owner}/{repo}", { owner: "roo code", repo: "roo" })).toBe(
+			"repo://roo%20code/roo",
+		)
+		expect(expandUriTemplate("file://{+path}", { path: "/src/index.ts" })).toBe("file:///src/index.ts")
+		expect(expandUriTemplate("repo://issues{?state,page}", { state: "open", page: "" })).toBe(
+			"repo://issues?state=open",
+		)
+		expect(expandUriTemplate("docs://{/section}", {})).toBe("docs://")
+	})
+})
@@ -0,0 +1,160 @@
+// npx vitest run shared/__tests__/modeInheritance.spec.ts
+
+import type { CustomModeDefinition, ModeConfig } from "@roo-code/types"
+
+import {
+	getInheritedModeConfig,
+	getModeOverrides,
+	getOwnCustomInstructions,
+	resolveModeInheritance,
+} from "../modeInheritance"
+
+const builtInModes: ModeConfig[] = [
+	{
+		slug: "code",
+		name: "Code",
+		roleDefinition: "Code role",
+		whenToUse: "Code things",
+		groups: ["read", "edit", "command"],
+	},
+	{
+		slug: "docs",
+		name: "Docs",
+		roleDefinition: "Docs role",
+		customInstructions: "Write clearly.",
+		groups: ["read", ["edit", { fileRegex: "\\.md$", description: "Markdown" }]],
+	},
+]
+
+describe("resolveModeInheritance", () => {
+	it("returns modes without bases unchanged", () => {
+		const mode: CustomModeDefinition = { slug: "plain", name: "Plain", roleDefinition: "Role", groups: ["read"] }
+
+		expect(resolveModeInheritance([mode], builtInModes)).toEqual({ modes: [mode], errors: [] })
+	})
+
+	it("inherits omitted fields and appends own instructions", () => {
+		const { modes } = resolveModeInheritance(
+			[{ slug: "tech-writer", name: "Tech Writer", extends: "docs", customInstructions: "Use US English." }],
+			builtInModes,
+		)
+
+		expect(modes[0]).toEqual({
+			slug: "tech-writer",
+			name: "Tech Writer",
+			extends: "docs",
+			roleDefinition: "Docs role",
+			whenToUse: undefined,
+			description: undefined,
+			groups: ["read", ["edit", { fileRegex: "\\.md$", description: "Markdown" }]],
+			customInstructions: "Write clearly.\n\nUse US English.",
+		})
+	})
+
+	it("merges multiple bases in order", () => {
+		const { modes } = resolveModeInheritance(
+			[
+				{
+					slug: "tests",
+					name: "Tests",
+					roleDefinition: "Tests role",
+					customInstructions: "Write clearly.",
+					groups: ["read", ["edit", { fileRegex: "\\.test\\.ts$", description: "Tests" }], "browser"],
+				},
+				{ slug: "mixed", name: "Mixed", extends: ["docs", "tests"] },
+				{ slug: "everything", name: "Everything", extends: ["mixed", "code"] },
+			],
+			builtInModes,
+		)
+
+		const mixed = modes.find((mode) => mode.slug === "mixed")!
+		// The last base wins for the role definition, restrictions are combined and
+		// duplicate instructions are only included once.
+		expect(mixed.roleDefinition).toBe("Tests role")
+		expect(mixed.customInstructions).toBe("Write clearly.")
+		expect(mixed.groups).toEqual([
+			"read",
+			["edit", { fileRegex: "(?:\\.md$)|(?:\\.test\\.ts$)", description: "Markdown, Tests" }],
+			"browser",
+		])
+
+		// An unrestricted group wins over a restricted one.
+		const everything = modes.find((mode) => mode.slug === "everything")!
+		expect(everything.groups).toEqual(["read", "edit", "browser", "command"])
+		expect(everything.whenToUse).toBe("Code things")
+	})
+
+	it("lets own groups replace the inherited groups", () => {
+		const { modes } = resolveModeInheritance(
+			[{ slug: "reader", name: "Reader", extends: "code", groups: ["read"] }],
+			builtInModes,
+		)
+
+		expect(modes[0].groups).toEqual(["read"])
+	})
+
+	it("resolves a mode extending its own slug to the built-in mode", () => {
+		const { modes, errors } = resolveModeInheritance(
+			[{ slug: "code", name: "My Code", extends: "code", customInstructions: "Be terse." }],
+			builtInModes,
+		)
+
+		expect(errors).toEqual([])
+		expect(modes[0]).toMatchObject({
+			name: "My Code",
+			roleDefinition: "Code role",
+			groups: ["read", "edit", "command"],
+		})
+	})
+
+	it("reports unknown bases and cycles", () => {
+		const { modes, errors } = resolveModeInheritance(
+			[
+				{ slug: "a", name: "A", extends: "b" },
+				{ slug: "b", name: "B", extends: ["code", "a"] },
+				{ slug: "c", name: "C", extends: "missing" },
+				{ slug: "d", name: "D", extends: "c" },
+				{ slug: "e", name: "E", extends: "code" },
+			],
+			builtInModes,
+		)
+
+		expect(modes.map((mode) => mode.slug)).toEqual(["e"])
+		expect(errors).toEqual([
+			{ slug: "a", message: "Circular mode inheritance: a -> b -> a" },
+			{ slug: "b", message: "Circular mode inheritance: a -> b -> a" },
+			{ slug: "c", message: 'Unknown base mode "missing"' },
+			{ slug: "d", message: 'Unknown base mode "missing"' },
+		])
+	})
+})
+
+describe("getModeOverrides", () => {
+	it("reverses resolution", () => {
+		const definition: CustomModeDefinition = {
+			slug: "tech-writer",
+			name: "Tech Writer",
+			extends: "docs",
+			whenToUse: "Writing docs",
+			customInstructions: "Use US English.",
+		}
+		const {
+			modes: [resolved],
+		} = resolveModeInheritance([definition], builtInModes)
+		const inherited = getInheritedModeConfig(resolved, [], builtInModes)!
+
+		expect(getModeOverrides(resolved, inherited)).toEqual(definition)
+		expect(getOwnCustomInstructions(resolved.customInstructions, inherited)).toBe("Use US English.")
+	})
+
+	it("keeps changed fields", () => {
+		const inherited = getInheritedModeConfig({ slug: "x", extends: "code" }, [], builtInModes)!
+
+		expect(
+			getModeOverrides(
+				{ slug: "x", name: "X", extends: "code", roleDefinition: "New role", groups: ["read"] },
+				inherited,
+			),
+		).toEqual({ slug: "x", name: "X", extends: "code", roleDefinition: "New role", groups: ["read"] })
+	})
+})
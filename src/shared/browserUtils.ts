@@ -1,3 +1,5 @@
+import type { ClineSayBrowserAction } from "./ExtensionMessage"
+
 /**
  * Parses coordinate string and scales from image dimensions to viewport dimensions
  * The LLM examines the screenshot it receives (which may be downscaled by the API)
@@ -93,3 +95,41 @@ export function getViewportCoordinate(
 		return simpleMatch ? `${simpleMatch[1]},${simpleMatch[2]}` : coord
 	}
 }
+
+/**
+ * Describes the DOM-aware browser actions (snapshot, element actions, waits,
+ * evaluation and the network log) for display. Returns undefined for the other
+ * actions.
+ */
+export function getDomActionText(
+	browserAction: Pick<
+		ClineSayBrowserAction,
+		"action" | "ref" | "element" | "text" | "selector" | "expression" | "url" | "status"
+	>,
+): string | undefined {
+	const { action, ref, element, text, selector, expression, url, status } = browserAction
+	const target = element ? `[${ref}] ${element}` : `[${ref}]`
+
+	switch (action) {
+		case "snapshot":
+			return "Took page snapshot"
+		case "click_element":
+			return `Clicked: ${target}`
+		case "fill":
+			return `Filled ${target}: ${text}`
+		case "select_option":
+			return `Selected "${text}" in ${target}`
+		case "wait_for":
+			return `Waited for: ${selector ?? `"${text}"`}`
+		case "evaluate":
+			return `Evaluated: ${expression}`
+		case "navigate_back":
+			return "Navigated back"
+		case "get_network_log": {
+			const filters = [url, status && `status ${status}`].filter(Boolean).join(", ")
+			return filters ? `Read network log: ${filters}` : "Read network log"
+		}
+		default:
+			return undefined
+	}
+}
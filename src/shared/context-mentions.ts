@@ -109,3 +109,26 @@ export function formatGitSuggestion(commit: {
 export function unescapeSpaces(path: string): string {
 	return path.replace(/\\ /g, " ")
 }
+
+export const MCP_RESOURCE_MENTION_PREFIX = "mcp://"
+
+// MCP resources are mentioned as `@mcp://<server>/<resource uri>`, with spaces
+// in the server name escaped like in file paths.
+export function formatMcpResourceMention(serverName: string, uri: string): string {
+	return `${MCP_RESOURCE_MENTION_PREFIX}${serverName.replace(/ /g, "\\ ")}/${uri}`
+}
+
+export function parseMcpResourceMention(mention: string): { serverName: string; uri: string } | undefined {
+	if (!mention.startsWith(MCP_RESOURCE_MENTION_PREFIX)) {
+		return undefined
+	}
+
+	const rest = mention.slice(MCP_RESOURCE_MENTION_PREFIX.length)
+	const separatorIndex = rest.indexOf("/")
+
+	if (separatorIndex <= 0 || separatorIndex === rest.length - 1) {
+		return undefined
+	}
+
+	return { serverName: unescapeSpaces(rest.slice(0, separatorIndex)), uri: rest.slice(separatorIndex + 1) }
+}
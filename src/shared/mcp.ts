@@ -13,6 +13,7 @@ export type McpServer = {
 	tools?: McpTool[]
 	resources?: McpResource[]
 	resourceTemplates?: McpResourceTemplate[]
+	prompts?: McpPrompt[]
 	disabled?: boolean
 	timeout?: number
 	source?: "global" | "project"
@@ -42,6 +43,27 @@ export type McpResourceTemplate = {
 	mimeType?: string
 }
 
+export type McpPromptArgument = {
+	name: string
+	description?: string
+	required?: boolean
+}
+
+export type McpPrompt = {
+	name: string
+	description?: string
+	arguments?: McpPromptArgument[]
+}
+
+export type McpPromptResponse = {
+	_meta?: Record<string, any>
+	description?: string
+	messages: Array<{
+		role: "user" | "assistant"
+		content: McpToolCallResponse["content"][number]
+	}>
+}
+
 export type McpResourceResponse = {
 	_meta?: Record<string, any>
 	contents: Array<{
@@ -81,3 +103,68 @@ export type McpToolCallResponse = {
 	>
 	isError?: boolean
 }
+
+export const MCP_PROMPT_COMMAND_PREFIX = "mcp."
+
+// Slash command names may only contain [a-zA-Z0-9_.-] (see commandRegexGlobal).
+function toCommandSegment(value: string): string {
+	return value.replace(/[^a-zA-Z0-9_-]/g, "_")
+}
+
+/**
+ * MCP prompts are exposed as slash commands named `mcp.<server>.<prompt>`.
+ */
+export function getMcpPromptCommandName(serverName: string, promptName: string): string {
+	return `${MCP_PROMPT_COMMAND_PREFIX}${toCommandSegment(serverName)}.${toCommandSegment(promptName)}`
+}
+
+const uriTemplateExpressionRegex = /\{([+#./;?&]?)([^}]+)\}/g
+
+/**
+ * Returns the variable names used in an RFC 6570 URI template, in order.
+ */
+export function getUriTemplateVariables(uriTemplate: string): string[] {
+	const variables = new Set<string>()
+
+	for (const [, , names] of uriTemplate.matchAll(uriTemplateExpressionRegex)) {
+		for (const name of names.split(",")) {
+			variables.add(name.trim().replace(/\*$|:\d+$/, ""))
+		}
+	}
+
+	return Array.from(variables)
+}
+
+/**
+ * Expands an RFC 6570 URI template. Only simple string values are supported,
+ * which covers the templates MCP servers use in practice.
+ */
+export function expandUriTemplate(uriTemplate: string, values: Record<string, string>): string {
+	return uriTemplate.replace(uriTemplateExpressionRegex, (_match, operator: string, names: string) => {
+		const reserved = operator === "+" || operator === "#"
+		const encode = (value: string) => (reserved ? encodeURI(value) : encodeURIComponent(value))
+		const defined = names
+			.split(",")
+			.map((name) => name.trim().replace(/\*$|:\d+$/, ""))
+			.filter((name) => values[name] !== undefined && values[name] !== "")
+
+		if (defined.length === 0) {
+			return ""
+		}
+
+		switch (operator) {
+			case "?":
+			case "&":
+				return operator + defined.map((name) => `${name}=${encode(values[name])}`).join("&")
+			case ";":
+				return defined.map((name) => `;${name}=${encode(values[name])}`).join("")
+			case "/":
+			case ".":
+				return defined.map((name) => operator + encode(values[name])).join("")
+			case "#":
+				return "#" + defined.map((name) => encode(values[name])).join(",")
+			default:
+				return defined.map((name) => encode(values[name])).join(",")
+		}
+	})
+}
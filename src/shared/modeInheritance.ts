@@ -0,0 +1,273 @@
+import {
+	type CustomModeDefinition,
+	type GroupEntry,
+	type GroupOptions,
+	type ModeConfig,
+	type ModeExtends,
+	type ToolGroup,
+	DEFAULT_MODES,
+} from "@roo-code/types"
+
+/**
+ * The configuration a mode inherits from its bases, before its own fields are
+ * applied.
+ */
+export type InheritedModeConfig = Pick<ModeConfig, "roleDefinition" | "groups"> &
+	Partial<Pick<ModeConfig, "whenToUse" | "description" | "customInstructions" | "sandboxProfile">>
+
+export type ModeInheritanceError = {
+	slug: string
+	message: string
+}
+
+export function getModeBases(mode: { extends?: ModeExtends }): string[] {
+	if (!mode.extends) {
+		return []
+	}
+
+	return Array.isArray(mode.extends) ? mode.extends : [mode.extends]
+}
+
+function joinInstructions(instructions: (string | undefined)[]): string | undefined {
+	// Values are kept as written so that editing them doesn't drop whitespace.
+	const unique = Array.from(new Set(instructions.filter((text): text is string => !!text?.trim())))
+	return unique.length > 0 ? unique.join("\n\n") : undefined
+}
+
+/**
+ * Merges the groups of several bases. A group granted by any base is granted;
+ * if any base grants it without a file restriction it stays unrestricted,
+ * otherwise the `fileRegex` restrictions are combined so that files allowed by
+ * any base are allowed.
+ */
+function mergeGroups(groupLists: readonly (readonly GroupEntry[])[]): GroupEntry[] {
+	// `null` marks an unrestricted group.
+	const merged = new Map<ToolGroup, GroupOptions | null>()
+
+	for (const groups of groupLists) {
+		for (const entry of groups) {
+			const [name, options] = Array.isArray(entry) ? entry : [entry, undefined]
+			const restriction = options?.fileRegex ? options : null
+
+			if (!merged.has(name)) {
+				merged.set(name, restriction)
+				continue
+			}
+
+			const existing = merged.get(name)
+
+			if (existing === null || existing === undefined || restriction === null) {
+				merged.set(name, null)
+			} else if (existing.fileRegex !== restriction.fileRegex) {
+				merged.set(name, {
+					fileRegex: `(?:${existing.fileRegex})|(?:${restriction.fileRegex})`,
+					description:
+						[existing.description, restriction.description].filter(Boolean).join(", ") || undefined,
+				})
+			}
+		}
+	}
+
+	return Array.from(merged, ([name, options]): GroupEntry => (options ? [name, options] : name))
+}
+
+/**
+ * Combines resolved bases, in order. Later bases override the role definition,
+ * `whenToUse`, description and sandbox profile of earlier ones; groups are merged and custom
+ * instructions are concatenated.
+ */
+function combineBases(bases: readonly ModeConfig[]): InheritedModeConfig {
+	const last = <K extends "whenToUse" | "description" | "sandboxProfile">(key: K) =>
+		bases.reduce<ModeConfig[K]>((value, base) => base[key] ?? value, undefined)
+
+	return {
+		roleDefinition: bases[bases.length - 1].roleDefinition,
+		whenToUse: last("whenToUse"),
+		description: last("description"),
+		sandboxProfile: last("sandboxProfile"),
+		customInstructions: joinInstructions(bases.map((base) => base.customInstructions)),
+		groups: mergeGroups(bases.map((base) => base.groups)),
+	}
+}
+
+/**
+ * Applies a mode's own fields on top of what it inherits: its role
+ * definition, `whenToUse`, description, sandbox profile and groups replace the
+ * inherited ones (so a mode can narrow the groups of its bases), while its
+ * custom instructions are appended to the inherited instructions.
+ */
+function applyDefinition(inherited: InheritedModeConfig, definition: CustomModeDefinition): ModeConfig {
+	return {
+		...definition,
+		roleDefinition: definition.roleDefinition ?? inherited.roleDefinition,
+		whenToUse: definition.whenToUse ?? inherited.whenToUse,
+		description: definition.description ?? inherited.description,
+		sandboxProfile: definition.sandboxProfile ?? inherited.sandboxProfile,
+		groups: definition.groups ?? inherited.groups,
+		customInstructions: joinInstructions([inherited.customInstructions, definition.customInstructions]),
+	}
+}
+
+function findBase(
+	baseSlug: string,
+	childSlug: string,
+	customModes: (slug: string) => ModeConfig | undefined,
+	builtInModes: readonly ModeConfig[],
+): ModeConfig {
+	// A mode that extends its own slug inherits from the built-in mode it overrides.
+	const base =
+		(baseSlug !== childSlug ? customModes(baseSlug) : undefined) ??
+		builtInModes.find((mode) => mode.slug === baseSlug)
+
+	if (!base) {
+		throw new Error(`Unknown base mode "${baseSlug}"`)
+	}
+
+	return base
+}
+
+/**
+ * Resolves `extends` for a set of custom mode definitions. Modes whose bases
+ * are unknown or that take part in an inheritance cycle are left out of the
+ * result and reported in `errors`.
+ */
+export function resolveModeInheritance(
+	definitions: readonly CustomModeDefinition[],
+	builtInModes: readonly ModeConfig[] = DEFAULT_MODES,
+): { modes: ModeConfig[]; errors: ModeInheritanceError[] } {
+	const definitionsBySlug = new Map(definitions.map((definition) => [definition.slug, definition]))
+	const resolved = new Map<string, ModeConfig>()
+	const failed = new Map<string, string>()
+	const resolving: string[] = []
+
+	const resolve = (slug: string): ModeConfig => {
+		const cached = resolved.get(slug)
+
+		if (cached) {
+			return cached
+		}
+
+		if (failed.has(slug)) {
+			throw new Error(failed.get(slug))
+		}
+
+		if (resolving.includes(slug)) {
+			throw new Error(
+				`Circular mode inheritance: ${[...resolving.slice(resolving.indexOf(slug)), slug].join(" -> ")}`,
+			)
+		}
+
+		resolving.push(slug)
+
+		try {
+			const definition = definitionsBySlug.get(slug)!
+			const bases = getModeBases(definition).map((base) =>
+				findBase(
+					base,
+					slug,
+					(baseSlug) => (definitionsBySlug.has(baseSlug) ? resolve(baseSlug) : undefined),
+					builtInModes,
+				),
+			)
+
+			// The schema guarantees that modes without bases define every required field.
+			const mode =
+				bases.length > 0 ? applyDefinition(combineBases(bases), definition) : (definition as ModeConfig)
+			resolved.set(slug, mode)
+			return mode
+		} catch (error) {
+			failed.set(slug, error instanceof Error ? error.message : String(error))
+			throw error
+		} finally {
+			resolving.pop()
+		}
+	}
+
+	const modes: ModeConfig[] = []
+	const errors: ModeInheritanceError[] = []
+
+	for (const { slug } of definitions) {
+		try {
+			modes.push(resolve(slug))
+		} catch (error) {
+			errors.push({ slug, message: failed.get(slug) ?? String(error) })
+		}
+	}
+
+	return { modes, errors }
+}
+
+/**
+ * Returns what a mode inherits from its bases, looking the bases up in the
+ * given resolved custom modes and the built-in modes. Returns undefined if the
+ * mode has no bases or a base cannot be found.
+ */
+export function getInheritedModeConfig(
+	mode: { slug: string; extends?: ModeExtends },
+	customModes: readonly ModeConfig[] = [],
+	builtInModes: readonly ModeConfig[] = DEFAULT_MODES,
+): InheritedModeConfig | undefined {
+	const bases = getModeBases(mode)
+
+	if (bases.length === 0) {
+		return undefined
+	}
+
+	try {
+		return combineBases(
+			bases.map((base) =>
+				findBase(base, mode.slug, (slug) => customModes.find((custom) => custom.slug === slug), builtInModes),
+			),
+		)
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Returns the own instructions of a mode, i.e. its resolved custom
+ * instructions without the inherited ones.
+ */
+export function getOwnCustomInstructions(
+	customInstructions: string | undefined,
+	inherited: InheritedModeConfig,
+): string | undefined {
+	if (!inherited.customInstructions || !customInstructions) {
+		return customInstructions
+	}
+
+	if (customInstructions === inherited.customInstructions) {
+		return undefined
+	}
+
+	const prefix = `${inherited.customInstructions}\n\n`
+	return customInstructions.startsWith(prefix) ? customInstructions.slice(prefix.length) : customInstructions
+}
+
+/**
+ * The inverse of resolving: reduces a resolved mode to the definition that
+ * should be stored, omitting every field that is inherited unchanged.
+ */
+export function getModeOverrides(mode: ModeConfig, inherited: InheritedModeConfig): CustomModeDefinition {
+	const overrides: CustomModeDefinition = { ...mode }
+
+	for (const key of ["roleDefinition", "whenToUse", "description", "sandboxProfile"] as const) {
+		if (overrides[key] === inherited[key]) {
+			delete overrides[key]
+		}
+	}
+
+	if (JSON.stringify(mode.groups) === JSON.stringify(inherited.groups)) {
+		delete overrides.groups
+	}
+
+	const customInstructions = getOwnCustomInstructions(mode.customInstructions, inherited)
+
+	if (customInstructions === undefined) {
+		delete overrides.customInstructions
+	} else {
+		overrides.customInstructions = customInstructions
+	}
+
+	return overrides
+}
@@ -72,6 +72,17 @@ export const toolParamNames = [
 	"files", // Native protocol parameter for read_file
 	"operations", // search_and_replace parameter for multiple operations
 	"patch", // apply_patch parameter
+	"ref", // browser_action element reference
+	"selector",
+	"expression",
+	"status", // browser_action get_network_log filter
+	"session", // terminal_session parameters
+	"input",
+	"key",
+	"cursor",
+	"background", // execute_command parameter
+	"symbol", // lookup_symbol and rename_symbol parameters
+	"new_name",
 ] as const
 
 export type ToolParamName = (typeof toolParamNames)[number]
@@ -86,7 +97,7 @@ export type NativeToolArgs = {
 	access_mcp_resource: { server_name: string; uri: string }
 	read_file: { files: FileEntry[] }
 	attempt_completion: { result: string }
-	execute_command: { command: string; cwd?: string }
+	execute_command: { command: string; cwd?: string; background?: boolean }
 	apply_diff: { path: string; diff: string }
 	search_and_replace: { path: string; operations: Array<{ search: string; replace: string }> }
 	apply_patch: { patch: string }
@@ -99,9 +110,20 @@ export type NativeToolArgs = {
 	fetch_instructions: { task: string }
 	generate_image: GenerateImageParams
 	list_code_definition_names: { path: string }
+	lookup_symbol: { action: string; path: string; line: number; symbol: string }
+	rename_symbol: { path: string; line: number; symbol: string; new_name: string }
 	run_slash_command: { command: string; args?: string }
 	search_files: { path: string; regex: string; file_pattern?: string | null }
 	switch_mode: { mode_slug: string; reason: string }
+	terminal_session: {
+		action: string
+		session?: string
+		command?: string
+		cwd?: string
+		input?: string
+		key?: string
+		cursor?: number
+	}
 	update_todo_list: { todos: string }
 	use_mcp_tool: { server_name: string; tool_name: string; arguments?: Record<string, unknown> }
 	write_to_file: { path: string; content: string }
@@ -187,7 +209,12 @@ export interface ListCodeDefinitionNamesToolUse extends ToolUse<"list_code_defin
 
 export interface BrowserActionToolUse extends ToolUse<"browser_action"> {
 	name: "browser_action"
-	params: Partial<Pick<Record<ToolParamName, string>, "action" | "url" | "coordinate" | "text" | "size">>
+	params: Partial<
+		Pick<
+			Record<ToolParamName, string>,
+			"action" | "url" | "coordinate" | "text" | "size" | "ref" | "selector" | "expression" | "status"
+		>
+	>
 }
 
 export interface UseMcpToolToolUse extends ToolUse<"use_mcp_tool"> {
@@ -259,6 +286,9 @@ export const TOOL_DISPLAY_NAMES: Record<ToolName, string> = {
 	update_todo_list: "update todo list",
 	run_slash_command: "run slash command",
 	generate_image: "generate images",
+	terminal_session: "use interactive terminal sessions",
+	lookup_symbol: "look up symbols",
+	rename_symbol: "rename symbols",
 } as const
 
 // Define available tool groups.
@@ -271,17 +301,18 @@ export const TOOL_GROUPS: Record<ToolGroup, ToolGroupConfig> = {
 			"list_files",
 			"list_code_definition_names",
 			"codebase_search",
+			"lookup_symbol",
 		],
 	},
 	edit: {
-		tools: ["apply_diff", "write_to_file", "generate_image"],
+		tools: ["apply_diff", "write_to_file", "generate_image", "rename_symbol"],
 		customTools: ["search_and_replace", "apply_patch"],
 	},
 	browser: {
 		tools: ["browser_action"],
 	},
 	command: {
-		tools: ["execute_command"],
+		tools: ["execute_command", "terminal_session"],
 	},
 	mcp: {
 		tools: ["use_mcp_tool", "access_mcp_resource"],
@@ -0,0 +1,44 @@
+import fs from "fs/promises"
+
+/**
+ * Creates a reader that parses a file once and reuses the result until the
+ * file's modification time or size changes, for config files consulted on
+ * every ask or tool use. Missing files read as undefined.
+ *
+ * @param parse - Parses the content of a file.
+ * @returns A function reading a file through the cache.
+ */
+export function createCachedFileReader<T>(
+	parse: (content: string, filePath: string) => T,
+): (filePath: string) => Promise<T | undefined> {
+	const cache = new Map<string, { mtimeMs: number; size: number; value: T }>()
+
+	return async (filePath: string) => {
+		let stats: Awaited<ReturnType<typeof fs.stat>>
+
+		try {
+			stats = await fs.stat(filePath)
+		} catch (error: any) {
+			if (error.code === "ENOENT" || error.code === "ENOTDIR") {
+				cache.delete(filePath)
+				return undefined
+			}
+
+			throw error
+		}
+
+		if (stats.isDirectory()) {
+			return undefined
+		}
+
+		const cached = cache.get(filePath)
+
+		if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+			return cached.value
+		}
+
+		const value = parse(await fs.readFile(filePath, "utf-8"), filePath)
+		cache.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, value })
+		return value
+	}
+}
@@ -1,9 +1,10 @@
 import React, { memo, useState } from "react"
-import { Trans } from "react-i18next"
+import { Trans, useTranslation } from "react-i18next"
 
-import type { ClineMessage } from "@roo-code/types"
+import type { ClineMessage, TaskBudgetDimension } from "@roo-code/types"
 
 import { vscode } from "@src/utils/vscode"
+import { formatLargeNumber } from "@src/utils/format"
 import { Button } from "@src/components/ui"
 
 type AutoApprovedRequestLimitWarningProps = {
@@ -11,23 +12,44 @@ type AutoApprovedRequestLimitWarningProps = {
 }
 
 export const AutoApprovedRequestLimitWarning = memo(({ message }: AutoApprovedRequestLimitWarningProps) => {
+	const { t } = useTranslation()
 	const [buttonClicked, setButtonClicked] = useState(false)
-	const { count, type = "requests" } = JSON.parse(message.text ?? "{}")
+	const { count, type = "requests", scope, dimension, limit, used } = JSON.parse(message.text ?? "{}")
 
 	if (buttonClicked) {
 		return null
 	}
 
+	const formatBudgetValue = (value: number) => {
+		switch (dimension as TaskBudgetDimension) {
+			case "cost":
+				return `$${value.toFixed(2)}`
+			case "durationMs":
+				return t("chat:ask.taskBudgetExhausted.minutes", { count: Math.round(value / 60_000) })
+			default:
+				return formatLargeNumber(value)
+		}
+	}
+
+	const isBudget = type === "budget"
 	const isCostLimit = type === "cost"
-	const titleKey = isCostLimit
-		? "ask.autoApprovedCostLimitReached.title"
-		: "ask.autoApprovedRequestLimitReached.title"
-	const descriptionKey = isCostLimit
-		? "ask.autoApprovedCostLimitReached.description"
-		: "ask.autoApprovedRequestLimitReached.description"
-	const buttonKey = isCostLimit
-		? "ask.autoApprovedCostLimitReached.button"
-		: "ask.autoApprovedRequestLimitReached.button"
+	const limitKey = isBudget
+		? "ask.taskBudgetExhausted"
+		: isCostLimit
+			? "ask.autoApprovedCostLimitReached"
+			: "ask.autoApprovedRequestLimitReached"
+	const titleKey = `${limitKey}.title`
+	const descriptionKey = isBudget
+		? `${limitKey}.description.${scope === "tree" ? "tree" : "task"}`
+		: `${limitKey}.description`
+	const buttonKey = `${limitKey}.button`
+	const descriptionValues = isBudget
+		? {
+				used: formatBudgetValue(used),
+				limit: formatBudgetValue(limit),
+				dimension: t(`chat:ask.taskBudgetExhausted.dimension.${dimension}`),
+			}
+		: { count }
 
 	return (
 		<>
@@ -48,7 +70,7 @@ export const AutoApprovedRequestLimitWarning = memo(({ message }: AutoApprovedRe
 					justifyContent: "center",
 				}}>
 				<div className="flex justify-between items-center">
-					<Trans i18nKey={descriptionKey} ns="chat" values={{ count }} />
+					<Trans i18nKey={descriptionKey} ns="chat" values={descriptionValues} />
 				</div>
 				<Button
 					style={{ width: "100%", padding: "6px", borderRadius: "4px" }}
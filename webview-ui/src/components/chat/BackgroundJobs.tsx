@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react"
+import { useTranslation } from "react-i18next"
+
+import type { BackgroundJob } from "@roo-code/types"
+
+import { cn } from "@src/lib/utils"
+import { Button, StandardTooltip } from "@src/components/ui"
+
+interface BackgroundJobsProps {
+	jobs: BackgroundJob[]
+	onKill: (id: number) => void
+}
+
+const statusClassNames: Record<BackgroundJob["status"], string> = {
+	running: "text-vscode-charts-yellow",
+	completed: "text-vscode-charts-green",
+	failed: "text-vscode-errorForeground",
+	killed: "text-vscode-descriptionForeground",
+}
+
+const formatDuration = (ms: number) => {
+	const seconds = Math.max(0, Math.round(ms / 1000))
+	const minutes = Math.floor(seconds / 60)
+	return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`
+}
+
+export const BackgroundJobs = ({ jobs, onKill }: BackgroundJobsProps) => {
+	const { t } = useTranslation("chat")
+	const [now, setNow] = useState(Date.now())
+	const hasRunningJobs = jobs.some((job) => job.status === "running")
+
+	// Keep the durations of running jobs current.
+	useEffect(() => {
+		if (!hasRunningJobs) {
+			return
+		}
+
+		const interval = setInterval(() => setNow(Date.now()), 1000)
+		return () => clearInterval(interval)
+	}, [hasRunningJobs])
+
+	if (jobs.length === 0) {
+		return null
+	}
+
+	return (
+		<div className="px-[15px] py-[10px] pr-[6px]" data-testid="background-jobs">
+			<div className="text-vscode-descriptionForeground text-md mb-2">{t("backgroundJobs.title")}</div>
+			<table className="w-full text-sm border-collapse">
+				<tbody>
+					{jobs.map((job) => (
+						<tr key={job.id} className="border-b border-vscode-panel-border last:border-b-0">
+							<td className="py-1 pr-2 text-vscode-descriptionForeground whitespace-nowrap">#{job.id}</td>
+							<td className="py-1 pr-2 font-mono truncate max-w-0 w-full" title={job.command}>
+								{job.command}
+							</td>
+							<td className={cn("py-1 pr-2 whitespace-nowrap", statusClassNames[job.status])}>
+								{job.status === "failed" && job.exitCode !== undefined
+									? t("backgroundJobs.exitCode", { code: job.exitCode })
+									: t(`backgroundJobs.status.${job.status}`)}
+							</td>
+							<td className="py-1 pr-2 text-vscode-descriptionForeground whitespace-nowrap">
+								{formatDuration((job.endedAt ?? now) - job.startedAt)}
+							</td>
+							<td className="py-1 w-6">
+								{job.status === "running" && (
+									<StandardTooltip content={t("backgroundJobs.kill")}>
+										<Button
+											variant="ghost"
+											size="icon"
+											aria-label={t("backgroundJobs.kill")}
+											onClick={() => onKill(job.id)}>
+											<span className="codicon codicon-debug-stop" />
+										</Button>
+									</StandardTooltip>
+								)}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	)
+}
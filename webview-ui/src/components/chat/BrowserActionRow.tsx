@@ -2,7 +2,7 @@ import { memo, useMemo, useEffect, useRef } from "react"
 import { ClineMessage } from "@roo-code/types"
 import { ClineSayBrowserAction } from "@roo/ExtensionMessage"
 import { vscode } from "@src/utils/vscode"
-import { getViewportCoordinate as getViewportCoordinateShared, prettyKey } from "@roo/browserUtils"
+import { getDomActionText, getViewportCoordinate as getViewportCoordinateShared, prettyKey } from "@roo/browserUtils"
 import {
 	MousePointer as MousePointerIcon,
 	Keyboard,
@@ -12,6 +12,11 @@ import {
 	Play,
 	Check,
 	Maximize2,
+	ListTree,
+	Clock,
+	Code,
+	Undo2,
+	Network,
 } from "lucide-react"
 import { useExtensionState } from "@src/context/ExtensionStateContext"
 import { useTranslation } from "react-i18next"
@@ -41,6 +46,21 @@ const getActionIcon = (action: string) => {
 			return <Check className="w-3.5 h-3.5 opacity-70" />
 		case "resize":
 			return <Maximize2 className="w-3.5 h-3.5 opacity-70" />
+		case "snapshot":
+			return <ListTree className="w-3.5 h-3.5 opacity-70" />
+		case "click_element":
+			return <MousePointerIcon className="w-3.5 h-3.5 opacity-70" />
+		case "fill":
+		case "select_option":
+			return <Keyboard className="w-3.5 h-3.5 opacity-70" />
+		case "wait_for":
+			return <Clock className="w-3.5 h-3.5 opacity-70" />
+		case "evaluate":
+			return <Code className="w-3.5 h-3.5 opacity-70" />
+		case "navigate_back":
+			return <Undo2 className="w-3.5 h-3.5 opacity-70" />
+		case "get_network_log":
+			return <Network className="w-3.5 h-3.5 opacity-70" />
 		case "hover":
 		default:
 			return <Pointer className="w-3.5 h-3.5 opacity-70" />
@@ -104,7 +124,7 @@ const BrowserActionRow = memo(({ message, nextMessage, actionIndex, totalActions
 			case "close":
 				return "Closed browser"
 			default:
-				return browserAction.action
+				return getDomActionText(browserAction) ?? browserAction.action
 		}
 	}, [browserAction, viewportDimensions])
 
@@ -11,7 +11,7 @@ import { useExtensionState } from "@src/context/ExtensionStateContext"
 import CodeBlock from "../common/CodeBlock"
 import { ProgressIndicator } from "./ProgressIndicator"
 import { Button, StandardTooltip } from "@src/components/ui"
-import { getViewportCoordinate as getViewportCoordinateShared, prettyKey } from "@roo/browserUtils"
+import { getDomActionText, getViewportCoordinate as getViewportCoordinateShared, prettyKey } from "@roo/browserUtils"
 import {
 	Globe,
 	Pointer,
@@ -30,6 +30,12 @@ import {
 	ChevronsRight,
 	ExternalLink,
 	Copy,
+	ListTree,
+	Clock,
+	Code,
+	Undo2,
+	Network,
+	Download,
 } from "lucide-react"
 
 const getBrowserActionText = (
@@ -40,6 +46,7 @@ const getBrowserActionText = (
 	size?: string,
 	viewportWidth?: number,
 	viewportHeight?: number,
+	browserAction?: ClineSayBrowserAction,
 ) => {
 	// Helper to scale coordinates from screenshot dimensions to viewport dimensions
 	// Matches the backend's scaleCoordinate function logic
@@ -66,7 +73,7 @@ const getBrowserActionText = (
 		case "close":
 			return "Closed browser"
 		default:
-			return action
+			return (browserAction && getDomActionText(browserAction)) ?? action
 	}
 }
 
@@ -87,6 +94,21 @@ const getActionIcon = (action: BrowserAction) => {
 			return <Check className="w-4 h-4 opacity-80" />
 		case "resize":
 			return <Maximize2 className="w-4 h-4 opacity-80" />
+		case "snapshot":
+			return <ListTree className="w-4 h-4 opacity-80" />
+		case "click_element":
+			return <MousePointerIcon className="w-4 h-4 opacity-80" />
+		case "fill":
+		case "select_option":
+			return <Keyboard className="w-4 h-4 opacity-80" />
+		case "wait_for":
+			return <Clock className="w-4 h-4 opacity-80" />
+		case "evaluate":
+			return <Code className="w-4 h-4 opacity-80" />
+		case "navigate_back":
+			return <Undo2 className="w-4 h-4 opacity-80" />
+		case "get_network_log":
+			return <Network className="w-4 h-4 opacity-80" />
 		case "hover":
 		default:
 			return <Pointer className="w-4 h-4 opacity-80" />
@@ -564,6 +586,7 @@ const BrowserSessionRow = memo((props: BrowserSessionRowProps) => {
 											pageSize,
 											pageViewportWidth,
 											pageViewportHeight,
+											action,
 										)}
 									</span>
 								</>
@@ -871,6 +894,31 @@ const BrowserSessionRow = memo((props: BrowserSessionRowProps) => {
 							<Copy className="w-4 h-4" />
 						</button>
 					</StandardTooltip>
+
+					{/* Export HAR (Browser Session panel only) */}
+					{fullScreen && (
+						<StandardTooltip content="Export network and console log as HAR">
+							<button
+								onClick={(e) => {
+									e.stopPropagation()
+									vscode.postMessage({ type: "exportBrowserHar" })
+								}}
+								style={{
+									background: "none",
+									border: "1px solid var(--vscode-panel-border)",
+									borderRadius: 4,
+									cursor: "pointer",
+									opacity: 0.85,
+									padding: "4px",
+									display: "flex",
+									alignItems: "center",
+									color: "var(--vscode-foreground)",
+								}}
+								aria-label="Export HAR">
+								<Download className="w-4 h-4" />
+							</button>
+						</StandardTooltip>
+					)}
 				</div>
 				{/* Screenshot Area */}
 				<div
@@ -61,6 +61,7 @@ import {
 	MessageCircle,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { StandardTooltip } from "@/components/ui"
 import { PathTooltip } from "../ui/PathTooltip"
 
 // Helper function to get previous todos before a specific message
@@ -224,13 +225,13 @@ export const ChatRowContent = ({
 		vscode.postMessage({ type: "selectImages", context: "edit", messageTs: message.ts })
 	}, [message.ts])
 
-	const [cost, apiReqCancelReason, apiReqStreamingFailedMessage] = useMemo(() => {
+	const [cost, apiReqCancelReason, apiReqStreamingFailedMessage, servedBy] = useMemo(() => {
 		if (message.text !== null && message.text !== undefined && message.say === "api_req_started") {
 			const info = safeJsonParse<ClineApiReqInfo>(message.text)
-			return [info?.cost, info?.cancelReason, info?.streamingFailedMessage]
+			return [info?.cost, info?.cancelReason, info?.streamingFailedMessage, info?.servedBy]
 		}
 
-		return [undefined, undefined, undefined]
+		return [undefined, undefined, undefined, undefined]
 	}, [message.text, message.say])
 
 	// When resuming task, last wont be api_req_failed but a resume_task
@@ -731,6 +732,57 @@ export const ChatRowContent = ({
 						</div>
 					</>
 				)
+			case "lookupSymbol": {
+				const lookup = tool.lookup ?? "definition"
+				const action = lookup === "definition" ? "Definition" : lookup === "references" ? "References" : "Hover"
+
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon(lookup === "references" ? "references" : "symbol-class")}
+							<span style={{ fontWeight: "bold" }}>
+								{t(
+									`chat:symbolOperations.${message.type === "ask" ? "wantsToFind" : "didFind"}${action}`,
+									{
+										symbol: tool.symbol,
+									},
+								)}
+							</span>
+						</div>
+						<div className="pl-6">
+							<CodeAccordian
+								path={tool.lineNumber ? `${tool.path}:${tool.lineNumber}` : tool.path}
+								code={tool.content}
+								language="markdown"
+								isExpanded={isExpanded}
+								onToggleExpand={handleToggleExpand}
+							/>
+						</div>
+					</>
+				)
+			}
+			case "renameSymbol":
+				return (
+					<>
+						<div style={headerStyle}>
+							{tool.isProtected ? (
+								<span
+									className="codicon codicon-lock"
+									style={{ color: "var(--vscode-editorWarning-foreground)", marginBottom: "-1.5px" }}
+								/>
+							) : (
+								toolIcon("symbol-key")
+							)}
+							<span style={{ fontWeight: "bold" }}>
+								{t(`chat:symbolOperations.${message.type === "ask" ? "wantsToRename" : "didRename"}`, {
+									symbol: tool.symbol,
+									newName: tool.newName,
+								})}
+							</span>
+						</div>
+						<BatchDiffApproval files={tool.batchDiffs ?? []} ts={message.ts} />
+					</>
+				)
 			case "searchFiles":
 				return (
 					<>
@@ -1088,6 +1140,25 @@ export const ChatRowContent = ({
 									{icon}
 									{title}
 								</div>
+								{servedBy && (
+									<StandardTooltip
+										content={t("chat:apiRequest.servedBy", {
+											profile: servedBy.profileName,
+											model: servedBy.modelId,
+										})}>
+										<div
+											className={cn(
+												"flex items-center gap-1 text-xs mr-1.5 truncate",
+												servedBy.isFailover
+													? "text-vscode-editorWarning-foreground"
+													: "text-vscode-descriptionForeground",
+											)}
+											data-testid="api-req-served-by">
+											{servedBy.isFailover && <span className="codicon codicon-arrow-swap" />}
+											<span className="truncate">{servedBy.profileName}</span>
+										</div>
+									</StandardTooltip>
+								)}
 								<div
 									className="text-xs text-vscode-dropdown-foreground border-vscode-dropdown-border/50 border px-1.5 py-0.5 rounded-lg"
 									style={{ opacity: cost !== null && cost !== undefined && cost > 0 ? 1 : 0 }}>
@@ -1269,6 +1340,7 @@ export const ChatRowContent = ({
 								startLine: number
 								endLine: number
 								codeChunk: string
+								source?: "semantic" | "keyword" | "both"
 							}>
 						}
 					} | null = null
@@ -3,10 +3,17 @@ import { useEvent } from "react-use"
 import DynamicTextArea from "react-textarea-autosize"
 import { VolumeX, Image, WandSparkles, SendHorizontal, MessageSquareX } from "lucide-react"
 
-import { mentionRegex, mentionRegexGlobal, commandRegexGlobal, unescapeSpaces } from "@roo/context-mentions"
+import {
+	mentionRegex,
+	mentionRegexGlobal,
+	commandRegexGlobal,
+	unescapeSpaces,
+	formatMcpResourceMention,
+} from "@roo/context-mentions"
 import { WebviewMessage } from "@roo/WebviewMessage"
 import { Mode, getAllModes } from "@roo/modes"
 import { ExtensionMessage } from "@roo/ExtensionMessage"
+import { expandUriTemplate, getUriTemplateVariables } from "@roo/mcp"
 
 import { vscode } from "@src/utils/vscode"
 import { useExtensionState } from "@src/context/ExtensionStateContext"
@@ -30,6 +37,7 @@ import { AutoApproveDropdown } from "./AutoApproveDropdown"
 import { MAX_IMAGES_PER_MESSAGE } from "./ChatView"
 import ContextMenu from "./ContextMenu"
 import { IndexingStatusBadge } from "./IndexingStatusBadge"
+import { McpArgumentsDialog, type McpArgumentField } from "./McpArgumentsDialog"
 import { usePromptHistory } from "./hooks/usePromptHistory"
 import { CloudAccountSwitcher } from "../cloud/CloudAccountSwitcher"
 
@@ -94,6 +102,7 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			clineMessages,
 			commands,
 			cloudUserInfo,
+			mcpServers,
 		} = useExtensionState()
 
 		// Find the ID and display text for the currently selected API configuration.
@@ -110,6 +119,12 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 		const [fileSearchResults, setFileSearchResults] = useState<SearchResult[]>([])
 		const [searchLoading, setSearchLoading] = useState(false)
 		const [searchRequestId, setSearchRequestId] = useState<string>("")
+		const [mcpArgumentsRequest, setMcpArgumentsRequest] = useState<{
+			title: string
+			description?: string
+			fields: McpArgumentField[]
+			onSubmit: (values: Record<string, string>) => void
+		} | null>(null)
 
 		// Close dropdown when clicking outside.
 		useEffect(() => {
@@ -181,6 +196,11 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 							}
 						}, 0)
 					}
+				} else if (message.type === "mcpPrompt") {
+					if (message.text) {
+						setInputValue(message.text)
+						setTimeout(() => textAreaRef.current?.focus(), 0)
+					}
 				} else if (message.type === "commitSearchResults") {
 					const commits = message.commits.map((commit: any) => ({
 						type: ContextMenuOptionType.Git,
@@ -275,8 +295,21 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 						type: path.endsWith("/") ? ContextMenuOptionType.Folder : ContextMenuOptionType.File,
 						value: path,
 					})),
+				...(mcpServers ?? [])
+					.filter((server) => server.status === "connected" && !server.disabled)
+					.flatMap((server) =>
+						[...(server.resourceTemplates || []), ...(server.resources || [])].map((item) => {
+							const uri = "uriTemplate" in item ? item.uriTemplate : item.uri
+							return {
+								type: ContextMenuOptionType.McpResource,
+								value: formatMcpResourceMention(server.name, uri),
+								label: item.name || uri,
+								description: `${server.name}: ${uri}`,
+							}
+						}),
+					),
 			]
-		}, [filePaths, gitCommits, openedTabs])
+		}, [filePaths, gitCommits, openedTabs, mcpServers])
 
 		useEffect(() => {
 			const handleClickOutside = (event: MouseEvent) => {
@@ -318,6 +351,33 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 					setInputValue("")
 					setShowContextMenu(false)
 
+					// MCP prompts are resolved by the server and replace the input.
+					const mcpPrompt = commands?.find((command) => command.name === value)?.mcpPrompt
+
+					if (mcpPrompt) {
+						const requestPrompt = (values: Record<string, string> = {}) =>
+							vscode.postMessage({
+								type: "getMcpPrompt",
+								serverName: mcpPrompt.serverName,
+								source: mcpPrompt.serverSource,
+								promptName: mcpPrompt.promptName,
+								values,
+							})
+
+						if (mcpPrompt.arguments?.length) {
+							setMcpArgumentsRequest({
+								title: `/${value}`,
+								description: commands?.find((command) => command.name === value)?.description,
+								fields: mcpPrompt.arguments,
+								onSubmit: requestPrompt,
+							})
+						} else {
+							requestPrompt()
+						}
+
+						return
+					}
+
 					// Insert the command mention into the textarea
 					const commandMention = `/${value}`
 					setInputValue(commandMention + " ")
@@ -336,7 +396,8 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				if (
 					type === ContextMenuOptionType.File ||
 					type === ContextMenuOptionType.Folder ||
-					type === ContextMenuOptionType.Git
+					type === ContextMenuOptionType.Git ||
+					type === ContextMenuOptionType.McpResource
 				) {
 					if (!value) {
 						setSelectedType(type)
@@ -349,6 +410,25 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				setShowContextMenu(false)
 				setSelectedType(null)
 
+				// Resource templates need their variables filled in before they can be mentioned.
+				if (type === ContextMenuOptionType.McpResource && value) {
+					const variables = getUriTemplateVariables(value)
+
+					if (variables.length > 0) {
+						const mentionPosition = cursorPosition
+						setMcpArgumentsRequest({
+							title: value,
+							fields: variables.map((name) => ({ name, required: true })),
+							onSubmit: (values) => {
+								const mention = expandUriTemplate(value, values)
+								const { newValue } = insertMention(inputValue, mentionPosition, mention)
+								setInputValue(newValue)
+							},
+						})
+						return
+					}
+				}
+
 				if (textAreaRef.current) {
 					let insertValue = value || ""
 
@@ -364,6 +444,8 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 						insertValue = value || ""
 					} else if (type === ContextMenuOptionType.Command) {
 						insertValue = value ? `/${value}` : ""
+					} else if (type === ContextMenuOptionType.McpResource) {
+						insertValue = value || ""
 					}
 
 					// Determine if this is a slash command selection
@@ -391,7 +473,7 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				}
 			},
 			// eslint-disable-next-line react-hooks/exhaustive-deps
-			[setInputValue, cursorPosition],
+			[setInputValue, cursorPosition, commands, inputValue],
 		)
 
 		const handleKeyDown = useCallback(
@@ -1274,6 +1356,16 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 						/>
 					</div>
 				</div>
+				{mcpArgumentsRequest && (
+					<McpArgumentsDialog
+						open={true}
+						onOpenChange={(open) => !open && setMcpArgumentsRequest(null)}
+						title={mcpArgumentsRequest.title}
+						description={mcpArgumentsRequest.description}
+						fields={mcpArgumentsRequest.fields}
+						onSubmit={mcpArgumentsRequest.onSubmit}
+					/>
+				)}
 			</div>
 		)
 	},
@@ -14,7 +14,7 @@ import { appendImages } from "@src/utils/imageUtils"
 import type { ClineAsk, ClineMessage } from "@roo-code/types"
 
 import { ClineSayTool, ExtensionMessage } from "@roo/ExtensionMessage"
-import { findLast } from "@roo/array"
+import { findLast, findLastIndex } from "@roo/array"
 import { SuggestionItem } from "@roo-code/types"
 import { combineApiRequests } from "@roo/combineApiRequests"
 import { combineCommandSequences } from "@roo/combineCommandSequences"
@@ -46,6 +46,7 @@ import SystemPromptWarning from "./SystemPromptWarning"
 import ProfileViolationWarning from "./ProfileViolationWarning"
 import { CheckpointWarning } from "./CheckpointWarning"
 import { QueuedMessages } from "./QueuedMessages"
+import { BackgroundJobs } from "./BackgroundJobs"
 import DismissibleUpsell from "../common/DismissibleUpsell"
 import { useCloudUpsell } from "@src/hooks/useCloudUpsell"
 import { Cloud } from "lucide-react"
@@ -96,6 +97,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 		soundVolume,
 		cloudIsAuthenticated,
 		messageQueue = [],
+		backgroundJobs = [],
 		isBrowserSessionActive,
 	} = useExtensionState()
 
@@ -151,6 +153,8 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 	const prevExpandedRowsRef = useRef<Record<number, boolean>>()
 	const scrollContainerRef = useRef<HTMLDivElement>(null)
 	const disableAutoScrollRef = useRef(false)
+	// Message to scroll to once its task is shown, e.g. when opening a search result.
+	const [scrollTarget, setScrollTarget] = useState<{ taskId: string; ts: number }>()
 	const [showScrollToBottom, setShowScrollToBottom] = useState(false)
 	const [isAtBottom, setIsAtBottom] = useState(false)
 	const lastTtsRef = useRef<string>("")
@@ -288,6 +292,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 								case "appliedDiff":
 								case "newFileCreated":
 								case "generateImage":
+								case "renameSymbol":
 									setPrimaryButtonText(t("chat:save.title"))
 									setSecondaryButtonText(t("chat:reject.title"))
 									break
@@ -839,6 +844,12 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 				case "interactionRequired":
 					playSound("notification")
 					break
+				case "scrollToMessage":
+					if (message.text && message.messageTs !== undefined) {
+						disableAutoScrollRef.current = true
+						setScrollTarget({ taskId: message.text, ts: message.messageTs })
+					}
+					break
 			}
 			// textAreaRef.current is not explicitly required here since React
 			// guarantees that ref will be stable across re-renders, and we're
@@ -1135,6 +1146,25 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 		}
 	}, [groupedMessages.length, scrollToBottomSmooth])
 
+	useEffect(() => {
+		if (!scrollTarget || scrollTarget.taskId !== currentTaskItem?.id || groupedMessages.length === 0) {
+			return
+		}
+
+		// Matches in the API history have no row of their own, so scroll to the
+		// last row at or before the matching message.
+		const index = findLastIndex(groupedMessages, (message) => message.ts <= scrollTarget.ts)
+
+		// Wait for the list of the newly shown task to mount.
+		const timer = setTimeout(() => {
+			disableAutoScrollRef.current = true
+			virtuosoRef.current?.scrollToIndex({ index: Math.max(index, 0), align: "center" })
+			setScrollTarget(undefined)
+		}, 100)
+
+		return () => clearTimeout(timer)
+	}, [scrollTarget, currentTaskItem?.id, groupedMessages])
+
 	const handleWheel = useCallback((event: Event) => {
 		const wheelEvent = event as WheelEvent
 
@@ -1548,6 +1578,10 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 				</>
 			)}
 
+			<BackgroundJobs
+				jobs={backgroundJobs}
+				onKill={(id) => vscode.postMessage({ type: "killBackgroundJob", value: id })}
+			/>
 			<QueuedMessages
 				queue={messageQueue}
 				onRemove={(index) => {
@@ -10,9 +10,10 @@ interface CodebaseSearchResultProps {
 	endLine: number
 	snippet: string
 	language: string
+	source?: "semantic" | "keyword" | "both"
 }
 
-const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({ filePath, score, startLine, endLine }) => {
+const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({ filePath, score, startLine, endLine, source }) => {
 	const { t } = useTranslation("chat")
 
 	const handleClick = () => {
@@ -27,7 +28,15 @@ const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({ filePath, s
 	}
 
 	return (
-		<StandardTooltip content={t("codebaseSearch.resultTooltip", { score: score.toFixed(3) })}>
+		<StandardTooltip
+			content={
+				source
+					? t("codebaseSearch.resultTooltipWithSource", {
+							score: score.toFixed(3),
+							source: t(`codebaseSearch.source.${source}`),
+						})
+					: t("codebaseSearch.resultTooltip", { score: score.toFixed(3) })
+			}>
 			<div
 				onClick={handleClick}
 				className="p-2 border border-[var(--vscode-editorGroup-border)] cursor-pointer hover:bg-secondary hover:text-white">
@@ -38,6 +47,11 @@ const CodebaseSearchResult: React.FC<CodebaseSearchResultProps> = ({ filePath, s
 					<span className="text-gray-500 truncate min-w-0 flex-1">
 						{filePath.split("/").slice(0, -1).join("/")}
 					</span>
+					{source && source !== "semantic" && (
+						<span className="text-xs text-vscode-descriptionForeground whitespace-nowrap">
+							{t(`codebaseSearch.source.${source}`)}
+						</span>
+					)}
 					<span className="text-xs text-vscode-descriptionForeground whitespace-nowrap ml-auto opacity-60">
 						{score.toFixed(3)}
 					</span>
@@ -9,6 +9,7 @@ interface CodebaseSearchResultsDisplayProps {
 		startLine: number
 		endLine: number
 		codeChunk: string
+		source?: "semantic" | "keyword" | "both"
 	}>
 }
 
@@ -41,6 +42,7 @@ const CodebaseSearchResultsDisplay: React.FC<CodebaseSearchResultsDisplayProps>
 							endLine={result.endLine}
 							language="plaintext"
 							snippet={result.codeChunk}
+							source={result.source}
 						/>
 					))}
 				</div>
@@ -2,12 +2,93 @@ import { useState } from "react"
 import { useTranslation } from "react-i18next"
 import { VSCodeBadge } from "@vscode/webview-ui-toolkit/react"
 
-import type { ContextCondense } from "@roo-code/types"
+import type { ContextCondense, StructuredSummary } from "@roo-code/types"
 
 import { Markdown } from "./Markdown"
 import { ProgressIndicator } from "./ProgressIndicator"
 
-export const ContextCondenseRow = ({ cost, prevContextTokens, newContextTokens, summary }: ContextCondense) => {
+const todoIcons: Record<StructuredSummary["todos"][number]["status"], string> = {
+	pending: "codicon-circle-large-outline",
+	in_progress: "codicon-circle-large-filled",
+	completed: "codicon-check",
+}
+
+const StructuredSummarySection = ({ title, children }: { title: string; children: React.ReactNode }) => (
+	<div className="flex flex-col gap-1">
+		<div className="font-bold">{title}</div>
+		{children}
+	</div>
+)
+
+const StructuredSummaryView = ({ goals, decisions, currentWork, files, todos, errors }: StructuredSummary) => {
+	const { t } = useTranslation()
+
+	const list = (items: string[]) => (
+		<ul className="m-0 pl-4">
+			{items.map((item, index) => (
+				<li key={index}>{item}</li>
+			))}
+		</ul>
+	)
+
+	return (
+		<div className="flex flex-col gap-3">
+			{goals.length > 0 && (
+				<StructuredSummarySection title={t("chat:contextCondense.structured.goals")}>
+					{list(goals)}
+				</StructuredSummarySection>
+			)}
+			{decisions.length > 0 && (
+				<StructuredSummarySection title={t("chat:contextCondense.structured.decisions")}>
+					{list(decisions)}
+				</StructuredSummarySection>
+			)}
+			{currentWork && (
+				<StructuredSummarySection title={t("chat:contextCondense.structured.currentWork")}>
+					<Markdown markdown={currentWork} />
+				</StructuredSummarySection>
+			)}
+			{files.length > 0 && (
+				<StructuredSummarySection title={t("chat:contextCondense.structured.files")}>
+					<ul className="m-0 pl-4">
+						{files.map(({ path, lastAction, notes }) => (
+							<li key={path}>
+								<code>{path}</code>{" "}
+								<span className="text-vscode-descriptionForeground">
+									({t(`chat:contextCondense.structured.lastAction.${lastAction}`)})
+								</span>
+								{notes && <>: {notes}</>}
+							</li>
+						))}
+					</ul>
+				</StructuredSummarySection>
+			)}
+			{todos.length > 0 && (
+				<StructuredSummarySection title={t("chat:contextCondense.structured.todos")}>
+					{todos.map(({ id, content, status }) => (
+						<div key={id} className="flex items-center gap-2">
+							<span className={`codicon ${todoIcons[status]}`} />
+							<span>{content}</span>
+						</div>
+					))}
+				</StructuredSummarySection>
+			)}
+			{errors.length > 0 && (
+				<StructuredSummarySection title={t("chat:contextCondense.structured.errors")}>
+					{list(errors)}
+				</StructuredSummarySection>
+			)}
+		</div>
+	)
+}
+
+export const ContextCondenseRow = ({
+	cost,
+	prevContextTokens,
+	newContextTokens,
+	summary,
+	structured,
+}: ContextCondense) => {
 	const { t } = useTranslation()
 	const [isExpanded, setIsExpanded] = useState(false)
 
@@ -49,7 +130,7 @@ export const ContextCondenseRow = ({ cost, prevContextTokens, newContextTokens,
 
 			{isExpanded && (
 				<div className="mt-2 ml-0 p-4 bg-vscode-editor-background rounded text-vscode-foreground text-sm">
-					<Markdown markdown={summary} />
+					{structured ? <StructuredSummaryView {...structured} /> : <Markdown markdown={summary} />}
 				</div>
 			)}
 		</div>
@@ -167,6 +167,27 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 				} else {
 					return <span>Git Commits</span>
 				}
+			case ContextMenuOptionType.McpResource:
+				if (option.value) {
+					return (
+						<div style={{ display: "flex", flexDirection: "column", gap: 0 }}>
+							<span style={{ lineHeight: "1.2" }}>{option.label}</span>
+							<span
+								style={{
+									fontSize: "0.85em",
+									opacity: 0.7,
+									whiteSpace: "nowrap",
+									overflow: "hidden",
+									textOverflow: "ellipsis",
+									lineHeight: "1.2",
+								}}>
+								{option.description}
+							</span>
+						</div>
+					)
+				} else {
+					return <span>{t("chat:contextMenu.mcpResources")}</span>
+				}
 			case ContextMenuOptionType.File:
 			case ContextMenuOptionType.OpenedFile:
 			case ContextMenuOptionType.Folder:
@@ -230,6 +251,8 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 				return "link"
 			case ContextMenuOptionType.Git:
 				return "git-commit"
+			case ContextMenuOptionType.McpResource:
+				return "server"
 			case ContextMenuOptionType.NoResults:
 				return "info"
 			default:
@@ -411,7 +434,8 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 							</div>
 							{(option.type === ContextMenuOptionType.File ||
 								option.type === ContextMenuOptionType.Folder ||
-								option.type === ContextMenuOptionType.Git) &&
+								option.type === ContextMenuOptionType.Git ||
+								option.type === ContextMenuOptionType.McpResource) &&
 								!option.value && (
 									<i
 										className="codicon codicon-chevron-right"
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from "react"
+
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+import {
+	Button,
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	Input,
+} from "@src/components/ui"
+
+export interface McpArgumentField {
+	name: string
+	description?: string
+	required?: boolean
+}
+
+interface McpArgumentsDialogProps {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	title: string
+	description?: string
+	fields: McpArgumentField[]
+	onSubmit: (values: Record<string, string>) => void
+}
+
+/**
+ * Collects the arguments of an MCP prompt or the variables of an MCP resource
+ * template before it is inserted into the chat.
+ */
+export const McpArgumentsDialog: React.FC<McpArgumentsDialogProps> = ({
+	open,
+	onOpenChange,
+	title,
+	description,
+	fields,
+	onSubmit,
+}) => {
+	const { t } = useAppTranslation()
+	const [values, setValues] = useState<Record<string, string>>({})
+
+	useEffect(() => {
+		if (open) {
+			setValues({})
+		}
+	}, [open])
+
+	const isValid = fields.every((field) => !field.required || values[field.name]?.trim())
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault()
+
+		if (!isValid) {
+			return
+		}
+
+		// Omit empty optional arguments instead of sending empty strings.
+		onSubmit(Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim())))
+		onOpenChange(false)
+	}
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[500px] overflow-y-auto max-h-[80vh]">
+				<form onSubmit={handleSubmit}>
+					<DialogHeader>
+						<DialogTitle>{title}</DialogTitle>
+						{description && <DialogDescription>{description}</DialogDescription>}
+					</DialogHeader>
+					<div className="flex flex-col gap-3 py-4">
+						{fields.map((field, index) => (
+							<label key={field.name} className="flex flex-col gap-1">
+								<span className="font-medium">
+									{field.name}
+									{field.required && <span className="text-vscode-errorForeground"> *</span>}
+								</span>
+								<Input
+									value={values[field.name] ?? ""}
+									onChange={(e) => setValues((prev) => ({ ...prev, [field.name]: e.target.value }))}
+									autoFocus={index === 0}
+									data-testid={`mcp-argument-${field.name}`}
+								/>
+								{field.description && (
+									<span className="text-sm text-vscode-descriptionForeground">
+										{field.description}
+									</span>
+								)}
+							</label>
+						))}
+					</div>
+					<DialogFooter>
+						<Button type="button" variant="secondary" onClick={() => onOpenChange(false)}>
+							{t("common:answers.cancel")}
+						</Button>
+						<Button type="submit" disabled={!isValid} data-testid="mcp-arguments-submit">
+							{t("chat:mcpArguments.insert")}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	)
+}
@@ -468,6 +468,9 @@ describe("ChatView - Focus Grabbing Tests", () => {
 			expect(getByTestId("chat-textarea")).toBeInTheDocument()
 		})
 
+		// Let the debounced initial focus run
+		await new Promise((resolve) => setTimeout(resolve, 100))
+
 		// Clear any initial calls after state has settled
 		mockFocus.mockClear()
 
@@ -0,0 +1,49 @@
+// npx vitest run src/components/chat/__tests__/McpArgumentsDialog.spec.tsx
+
+import { render, screen, fireEvent } from "@/utils/test-utils"
+
+import { McpArgumentsDialog } from "../McpArgumentsDialog"
+
+vi.mock("@src/i18n/TranslationContext", () => ({
+	useAppTranslation: () => ({
+		t: (key: string) => key,
+	}),
+}))
+
+describe("McpArgumentsDialog", () => {
+	const defaultProps = {
+		open: true,
+		onOpenChange: vi.fn(),
+		title: "/mcp.github.review",
+		fields: [
+			{ name: "pr", description: "Pull request number", required: true },
+			{ name: "focus", description: "What to focus on" },
+		],
+		onSubmit: vi.fn(),
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it("renders a field per argument", () => {
+		render(<McpArgumentsDialog {...defaultProps} />)
+
+		expect(screen.getByText("/mcp.github.review")).toBeInTheDocument()
+		expect(screen.getByTestId("mcp-argument-pr")).toBeInTheDocument()
+		expect(screen.getByTestId("mcp-argument-focus")).toBeInTheDocument()
+		expect(screen.getByText("Pull request number")).toBeInTheDocument()
+	})
+
+	it("requires required arguments and omits empty optional ones", () => {
+		render(<McpArgumentsDialog {...defaultProps} />)
+
+		expect(screen.getByTestId("mcp-arguments-submit")).toBeDisabled()
+
+		fireEvent.change(screen.getByTestId("mcp-argument-pr"), { target: { value: "42" } })
+		fireEvent.click(screen.getByTestId("mcp-arguments-submit"))
+
+		expect(defaultProps.onSubmit).toHaveBeenCalledWith({ pr: "42" })
+		expect(defaultProps.onOpenChange).toHaveBeenCalledWith(false)
+	})
+})
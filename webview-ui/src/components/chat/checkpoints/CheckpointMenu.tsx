@@ -73,6 +73,10 @@ export const CheckpointMenu = ({ ts, commitHash, checkpoint, onOpenChange }: Che
 		})
 	}, [ts, commitHash])
 
+	const onFork = useCallback(() => {
+		vscode.postMessage({ type: "checkpointFork", payload: { ts, commitHash } })
+	}, [ts, commitHash])
+
 	const onPreview = useCallback(() => {
 		vscode.postMessage({ type: "checkpointRestore", payload: { ts, commitHash, mode: "preview" } })
 		setRestoreOpen(false)
@@ -193,6 +197,16 @@ export const CheckpointMenu = ({ ts, commitHash, checkpoint, onOpenChange }: Che
 							<span className="codicon codicon-diff mr-2" />
 							{t("chat:checkpoint.menu.viewDiffWithCurrent")}
 						</Button>
+						<Button
+							variant="secondary"
+							onClick={() => {
+								onFork()
+								setMoreOpen(false)
+							}}
+							data-testid="fork-checkpoint-btn">
+							<span className="codicon codicon-repo-forked mr-2" />
+							{t("chat:checkpoint.menu.fork")}
+						</Button>
 					</div>
 				</PopoverContent>
 			</Popover>
@@ -0,0 +1,29 @@
+import { vscode } from "@/utils/vscode"
+import { Button, StandardTooltip } from "@/components/ui"
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { useCallback } from "react"
+
+export const ExportArchiveButton = ({ itemId }: { itemId: string }) => {
+	const { t } = useAppTranslation()
+
+	const handleExportClick = useCallback(
+		(e: React.MouseEvent) => {
+			e.stopPropagation()
+			vscode.postMessage({ type: "exportTaskArchive", text: itemId })
+		},
+		[itemId],
+	)
+
+	return (
+		<StandardTooltip content={t("history:exportTaskArchive")}>
+			<Button
+				data-testid="export-archive"
+				variant="ghost"
+				size="icon"
+				className="group-hover:opacity-100 opacity-50 transition-opacity"
+				onClick={handleExportClick}>
+				<span className="codicon codicon-package scale-80" />
+			</Button>
+		</StandardTooltip>
+	)
+}
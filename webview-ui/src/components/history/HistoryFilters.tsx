@@ -0,0 +1,135 @@
+import { getAllModes } from "@roo/modes"
+
+import { Input, Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui"
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { useExtensionState } from "@/context/ExtensionStateContext"
+
+import type { HistoryFilters as Filters } from "./useTaskSearch"
+
+const ALL = "all"
+
+const statuses = ["active", "completed", "delegated"] as const
+
+const pad = (value: number) => `${value}`.padStart(2, "0")
+
+// Date inputs use local "yyyy-mm-dd" strings; the filters use timestamps.
+const toDateValue = (ts?: number) => {
+	if (ts === undefined) {
+		return ""
+	}
+
+	const date = new Date(ts)
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+const fromDateValue = (value: string, time: string) => (value ? new Date(`${value}T${time}`).getTime() : undefined)
+
+const toNumber = (value: string) => (value.trim() === "" || isNaN(Number(value)) ? undefined : Number(value))
+
+type HistoryFiltersProps = {
+	filters: Filters
+	setFilters: (filters: Filters) => void
+}
+
+export const HistoryFilters = ({ filters, setFilters }: HistoryFiltersProps) => {
+	const { t } = useAppTranslation()
+	const { customModes } = useExtensionState()
+	const modes = getAllModes(customModes)
+
+	const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => setFilters({ ...filters, [key]: value })
+
+	return (
+		<div className="flex flex-col gap-2" data-testid="history-filters">
+			<div className="flex gap-2">
+				<Select
+					value={filters.mode ?? ALL}
+					onValueChange={(value) => setFilter("mode", value === ALL ? undefined : value)}>
+					<SelectTrigger className="flex-1" data-testid="history-filter-mode">
+						<SelectValue>
+							{t("history:filters.mode")}{" "}
+							{filters.mode
+								? (modes.find(({ slug }) => slug === filters.mode)?.name ?? filters.mode)
+								: t("history:filters.any")}
+						</SelectValue>
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={ALL}>{t("history:filters.any")}</SelectItem>
+						{modes.map(({ slug, name }) => (
+							<SelectItem key={slug} value={slug}>
+								{name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Select
+					value={filters.status ?? ALL}
+					onValueChange={(value) =>
+						setFilter("status", value === ALL ? undefined : (value as Filters["status"]))
+					}>
+					<SelectTrigger className="flex-1" data-testid="history-filter-status">
+						<SelectValue>
+							{t("history:filters.status")}{" "}
+							{t(filters.status ? `history:filters.statuses.${filters.status}` : "history:filters.any")}
+						</SelectValue>
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={ALL}>{t("history:filters.any")}</SelectItem>
+						{statuses.map((status) => (
+							<SelectItem key={status} value={status}>
+								{t(`history:filters.statuses.${status}`)}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+			<div className="flex items-center gap-2">
+				<span className="text-xs text-vscode-descriptionForeground w-16 shrink-0">
+					{t("history:filters.date")}
+				</span>
+				<Input
+					type="date"
+					className="flex-1"
+					aria-label={t("history:filters.from")}
+					value={toDateValue(filters.from)}
+					onChange={(e) => setFilter("from", fromDateValue(e.target.value, "00:00:00"))}
+				/>
+				<Input
+					type="date"
+					className="flex-1"
+					aria-label={t("history:filters.to")}
+					value={toDateValue(filters.to)}
+					onChange={(e) => setFilter("to", fromDateValue(e.target.value, "23:59:59.999"))}
+				/>
+			</div>
+			<div className="flex items-center gap-2">
+				<span className="text-xs text-vscode-descriptionForeground w-16 shrink-0">
+					{t("history:filters.cost")}
+				</span>
+				<Input
+					type="number"
+					min={0}
+					step="0.01"
+					className="flex-1"
+					placeholder={t("history:filters.minCost")}
+					value={filters.minCost ?? ""}
+					onChange={(e) => setFilter("minCost", toNumber(e.target.value))}
+				/>
+				<Input
+					type="number"
+					min={0}
+					step="0.01"
+					className="flex-1"
+					placeholder={t("history:filters.maxCost")}
+					value={filters.maxCost ?? ""}
+					onChange={(e) => setFilter("maxCost", toNumber(e.target.value))}
+				/>
+			</div>
+			<Input
+				placeholder={t("history:filters.file")}
+				value={filters.file ?? ""}
+				data-testid="history-filter-file"
+				onChange={(e) => setFilter("file", e.target.value || undefined)}
+			/>
+		</div>
+	)
+}
@@ -16,9 +16,11 @@ import {
 	StandardTooltip,
 } from "@/components/ui"
 import { useAppTranslation } from "@/i18n/TranslationContext"
+import { vscode } from "@/utils/vscode"
 
 import { Tab, TabContent, TabHeader } from "../common/Tab"
 import { useTaskSearch } from "./useTaskSearch"
+import { HistoryFilters } from "./HistoryFilters"
 import TaskItem from "./TaskItem"
 
 type HistoryViewProps = {
@@ -37,6 +39,10 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 		setLastNonRelevantSort,
 		showAllWorkspaces,
 		setShowAllWorkspaces,
+		fullTextSearch,
+		setFullTextSearch,
+		filters,
+		setFilters,
 	} = useTaskSearch()
 	const { t } = useAppTranslation()
 
@@ -44,6 +50,7 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 	const [isSelectionMode, setIsSelectionMode] = useState(false)
 	const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([])
 	const [showBatchDeleteDialog, setShowBatchDeleteDialog] = useState<boolean>(false)
+	const [showFilters, setShowFilters] = useState(false)
 
 	// Toggle selection mode
 	const toggleSelectionMode = () => {
@@ -84,6 +91,15 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 				<div className="flex justify-between items-center">
 					<h3 className="text-vscode-foreground m-0">{t("history:history")}</h3>
 					<div className="flex gap-2">
+						<StandardTooltip content={t("history:importTaskArchive")}>
+							<Button
+								variant="secondary"
+								onClick={() => vscode.postMessage({ type: "importTaskArchive" })}
+								aria-label={t("history:importTaskArchive")}
+								data-testid="import-task-archive-button">
+								<span className="codicon codicon-cloud-upload" />
+							</Button>
+						</StandardTooltip>
 						<StandardTooltip
 							content={
 								isSelectionMode
@@ -106,7 +122,9 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 				<div className="flex flex-col gap-2">
 					<VSCodeTextField
 						className="w-full"
-						placeholder={t("history:searchPlaceholder")}
+						placeholder={t(
+							fullTextSearch ? "history:fullTextSearchPlaceholder" : "history:searchPlaceholder",
+						)}
 						value={searchQuery}
 						data-testid="history-search-input"
 						onInput={(e) => {
@@ -118,15 +136,35 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 							}
 						}}>
 						<div slot="start" className="codicon codicon-search mt-0.5 opacity-80 text-sm!" />
-						{searchQuery && (
-							<div
-								className="input-icon-button codicon codicon-close flex justify-center items-center h-full"
-								aria-label="Clear search"
-								onClick={() => setSearchQuery("")}
-								slot="end"
-							/>
-						)}
+						<div slot="end" className="flex items-center h-full">
+							{searchQuery && (
+								<div
+									className="input-icon-button codicon codicon-close flex justify-center items-center h-full"
+									aria-label="Clear search"
+									onClick={() => setSearchQuery("")}
+								/>
+							)}
+							<StandardTooltip content={t("history:fullTextSearch")}>
+								<div
+									className={`input-icon-button codicon codicon-comment-discussion flex justify-center items-center h-full ${fullTextSearch ? "" : "opacity-50"}`}
+									aria-label={t("history:fullTextSearch")}
+									aria-pressed={fullTextSearch}
+									data-testid="full-text-search-toggle"
+									onClick={() => setFullTextSearch(!fullTextSearch)}
+								/>
+							</StandardTooltip>
+							<StandardTooltip content={t("history:filters.title")}>
+								<div
+									className={`input-icon-button codicon codicon-filter flex justify-center items-center h-full ${showFilters ? "" : "opacity-50"}`}
+									aria-label={t("history:filters.title")}
+									aria-pressed={showFilters}
+									data-testid="history-filters-toggle"
+									onClick={() => setShowFilters(!showFilters)}
+								/>
+							</StandardTooltip>
+						</div>
 					</VSCodeTextField>
+					{showFilters && <HistoryFilters filters={filters} setFilters={setFilters} />}
 					<div className="flex gap-2">
 						<Select
 							value={showAllWorkspaces ? "all" : "current"}
@@ -1,5 +1,5 @@
-import { memo } from "react"
-import type { HistoryItem } from "@roo-code/types"
+import { type ReactNode, memo } from "react"
+import type { HistoryItem, TaskSearchMatch } from "@roo-code/types"
 
 import { vscode } from "@/utils/vscode"
 import { cn } from "@/lib/utils"
@@ -9,6 +9,31 @@ import TaskItemFooter from "./TaskItemFooter"
 
 interface DisplayHistoryItem extends HistoryItem {
 	highlight?: string
+	forkDepth?: number
+	matches?: TaskSearchMatch[]
+}
+
+const MatchSnippet = ({ match }: { match: TaskSearchMatch }) => {
+	const parts: ReactNode[] = []
+	let lastIndex = 0
+
+	for (const [start, end] of match.highlights) {
+		if (start < lastIndex) {
+			continue
+		}
+
+		parts.push(match.snippet.slice(lastIndex, start))
+		parts.push(
+			<span key={start} className="history-item-highlight">
+				{match.snippet.slice(start, end)}
+			</span>,
+		)
+		lastIndex = end
+	}
+
+	parts.push(match.snippet.slice(lastIndex))
+
+	return <>{parts}</>
 }
 
 interface TaskItemProps {
@@ -51,6 +76,7 @@ const TaskItem = ({
 				"border-transparent",
 				className,
 			)}
+			style={item.forkDepth ? { marginLeft: `${item.forkDepth * 1.5}rem` } : undefined}
 			onClick={handleClick}>
 			<div className={(!isCompact && isSelectionMode ? "pl-3 pb-3" : "pl-4") + " flex gap-3 px-3 pt-3 pb-1"}>
 				{/* Selection checkbox - only in full variant */}
@@ -82,6 +108,29 @@ const TaskItem = ({
 						{item.highlight ? undefined : item.task}
 					</div>
 
+					{!isCompact && item.matches && item.matches.length > 0 && (
+						<div className="flex flex-col gap-1 mt-1" data-testid="task-matches">
+							{item.matches.map((match) => (
+								<div
+									key={match.ts}
+									className="text-xs text-vscode-descriptionForeground line-clamp-2 border-l-2 border-vscode-panel-border pl-2 hover:text-vscode-foreground"
+									data-testid={`task-match-${match.ts}`}
+									onClick={(e) => {
+										if (!isSelectionMode) {
+											e.stopPropagation()
+											vscode.postMessage({
+												type: "showTaskWithId",
+												text: item.id,
+												messageTs: match.ts,
+											})
+										}
+									}}>
+									<MatchSnippet match={match} />
+								</div>
+							))}
+						</div>
+					)}
+
 					<TaskItemFooter
 						item={item}
 						variant={variant}
@@ -1,8 +1,10 @@
 import React from "react"
 import type { HistoryItem } from "@roo-code/types"
 import { formatTimeAgo } from "@/utils/format"
+import { useAppTranslation } from "@/i18n/TranslationContext"
 import { CopyButton } from "./CopyButton"
 import { ExportButton } from "./ExportButton"
+import { ExportArchiveButton } from "./ExportArchiveButton"
 import { DeleteButton } from "./DeleteButton"
 import { StandardTooltip } from "../ui/standard-tooltip"
 
@@ -14,9 +16,16 @@ export interface TaskItemFooterProps {
 }
 
 const TaskItemFooter: React.FC<TaskItemFooterProps> = ({ item, variant, isSelectionMode = false, onDelete }) => {
+	const { t } = useAppTranslation()
+
 	return (
 		<div className="text-xs text-vscode-descriptionForeground flex justify-between items-center">
 			<div className="flex gap-1 items-center text-vscode-descriptionForeground/60">
+				{item.forkedFrom && (
+					<StandardTooltip content={t("history:forkedFrom")}>
+						<span className="codicon codicon-repo-forked scale-80" data-testid="fork-indicator" />
+					</StandardTooltip>
+				)}
 				{/* Datetime with time-ago format */}
 				<StandardTooltip content={new Date(item.ts).toLocaleString()}>
 					<span className="first-letter:uppercase">{formatTimeAgo(item.ts)}</span>
@@ -35,6 +44,7 @@ const TaskItemFooter: React.FC<TaskItemFooterProps> = ({ item, variant, isSelect
 				<div className="flex flex-row gap-0 -mx-2 items-center text-vscode-descriptionForeground/60 hover:text-vscode-descriptionForeground">
 					<CopyButton itemTask={item.task} />
 					{variant === "full" && <ExportButton itemId={item.id} />}
+					{variant === "full" && <ExportArchiveButton itemId={item.id} />}
 					{onDelete && <DeleteButton itemId={item.id} onDelete={onDelete} />}
 				</div>
 			)}
@@ -1,5 +1,7 @@
 import { render, screen, fireEvent } from "@/utils/test-utils"
 
+import { vscode } from "@src/utils/vscode"
+
 import TaskItem from "../TaskItem"
 
 vi.mock("@src/utils/vscode")
@@ -109,4 +111,21 @@ describe("TaskItem", () => {
 		const taskItem = screen.getByTestId("task-item-1")
 		expect(taskItem).toHaveClass("hover:bg-vscode-editor-foreground/10")
 	})
+
+	it("shows full-text matches that open the task at the matching message", () => {
+		render(
+			<TaskItem
+				item={{ ...mockTask, matches: [{ ts: 42, snippet: "…the Redis timeout…", highlights: [[5, 10]] }] }}
+				variant="full"
+			/>,
+		)
+
+		const match = screen.getByTestId("task-match-42")
+		expect(match).toHaveTextContent("…the Redis timeout…")
+		expect(screen.getByText("Redis")).toHaveClass("history-item-highlight")
+
+		fireEvent.click(match)
+		expect(vscode.postMessage).toHaveBeenCalledTimes(1)
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "showTaskWithId", text: "1", messageTs: 42 })
+	})
 })
@@ -82,4 +82,17 @@ describe("TaskItemFooter", () => {
 
 		expect(screen.queryByTestId("delete-task-button")).not.toBeInTheDocument()
 	})
+
+	it("marks tasks forked from a checkpoint", () => {
+		const { rerender } = render(<TaskItemFooter item={mockItem} variant="full" />)
+		expect(screen.queryByTestId("fork-indicator")).not.toBeInTheDocument()
+
+		rerender(
+			<TaskItemFooter
+				item={{ ...mockItem, forkedFrom: { taskId: "0", ts: 1, commitHash: "abc123" } }}
+				variant="full"
+			/>,
+		)
+		expect(screen.getByTestId("fork-indicator")).toBeInTheDocument()
+	})
 })
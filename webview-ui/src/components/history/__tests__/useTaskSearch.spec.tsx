@@ -1,18 +1,23 @@
-import { renderHook, act } from "@/utils/test-utils"
+import { renderHook, act, waitFor } from "@/utils/test-utils"
 
 import type { HistoryItem } from "@roo-code/types"
 
-import { useTaskSearch } from "../useTaskSearch"
+import { nestForks, useTaskSearch } from "../useTaskSearch"
 
 vi.mock("@/context/ExtensionStateContext", () => ({
 	useExtensionState: vi.fn(),
 }))
 
+vi.mock("@/utils/vscode", () => ({
+	vscode: { postMessage: vi.fn() },
+}))
+
 vi.mock("@/utils/highlight", () => ({
 	highlightFzfMatch: vi.fn((text) => `<mark>${text}</mark>`),
 }))
 
 import { useExtensionState } from "@/context/ExtensionStateContext"
+import { vscode } from "@/utils/vscode"
 
 const mockUseExtensionState = useExtensionState as ReturnType<typeof vi.fn>
 
@@ -284,4 +289,112 @@ describe("useTaskSearch", () => {
 		// When not searching, it should fall back to newest
 		expect(result.current.sortOption).toBe("mostRelevant")
 	})
+
+	it("shows forks below the task they were forked from", () => {
+		const fork: HistoryItem = {
+			...mockTaskHistory[0],
+			id: "task-1-fork",
+			ts: new Date("2022-02-18T12:00:00").getTime(),
+			forkedFrom: { taskId: "task-1", ts: 1, commitHash: "abc123" },
+		}
+
+		mockUseExtensionState.mockReturnValue({
+			taskHistory: [...mockTaskHistory, fork],
+			cwd: "/workspace/project1",
+		} as any)
+
+		const { result } = renderHook(() => useTaskSearch())
+
+		expect(result.current.tasks.map(({ id, forkDepth }) => [id, forkDepth])).toEqual([
+			["task-2", 0],
+			["task-1", 0],
+			["task-1-fork", 1],
+		])
+	})
+
+	it("searches conversations in the extension in full-text mode", async () => {
+		const { result } = renderHook(() => useTaskSearch())
+
+		act(() => {
+			result.current.setFullTextSearch(true)
+			result.current.setFilters({ minCost: 0.01 })
+			result.current.setSearchQuery("redis")
+		})
+
+		await waitFor(() => expect(vscode.postMessage).toHaveBeenCalled())
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "searchTaskHistory",
+			query: "redis",
+			values: { minCost: 0.01, workspace: "/workspace/project1" },
+			requestId: expect.any(String),
+		})
+
+		const { requestId } = vi.mocked(vscode.postMessage).mock.calls[0][0]
+		const matches = [{ ts: 1, snippet: "the Redis timeout", highlights: [[4, 9]] }]
+
+		act(() => {
+			window.dispatchEvent(
+				new MessageEvent("message", {
+					data: {
+						type: "taskSearchResults",
+						requestId,
+						taskSearchResults: [
+							{ taskId: "task-1", score: 2, matches },
+							{ taskId: "task-3", score: 1, matches: [] }, // Another workspace.
+						],
+					},
+				}),
+			)
+		})
+
+		expect(result.current.tasks).toEqual([expect.objectContaining({ id: "task-1", matches, forkDepth: 0 })])
+	})
+
+	it("only searches again when tasks are added or deleted", async () => {
+		const { result, rerender } = renderHook(() => useTaskSearch())
+
+		act(() => result.current.setFilters({ minCost: 0.01 }))
+		await waitFor(() => expect(vscode.postMessage).toHaveBeenCalledTimes(1))
+
+		// State updates re-post an equal history.
+		mockUseExtensionState.mockReturnValue({ taskHistory: [...mockTaskHistory], cwd: "/workspace/project1" })
+		rerender()
+		await new Promise((resolve) => setTimeout(resolve, 400))
+		expect(vscode.postMessage).toHaveBeenCalledTimes(1)
+
+		mockUseExtensionState.mockReturnValue({
+			taskHistory: [...mockTaskHistory, { ...mockTaskHistory[0], id: "task-4" }],
+			cwd: "/workspace/project1",
+		})
+		rerender()
+		await waitFor(() => expect(vscode.postMessage).toHaveBeenCalledTimes(2))
+	})
+})
+
+describe("nestForks", () => {
+	const item = (id: string, forkedFromTaskId?: string) =>
+		({
+			...mockTaskHistory[0],
+			id,
+			...(forkedFromTaskId && { forkedFrom: { taskId: forkedFromTaskId, ts: 1, commitHash: "abc123" } }),
+		}) as HistoryItem
+
+	it("nests forks of forks", () => {
+		const nested = nestForks([item("c", "b"), item("a"), item("b", "a"), item("d", "a")])
+		expect(nested.map(({ id, forkDepth }) => [id, forkDepth])).toEqual([
+			["a", 0],
+			["b", 1],
+			["c", 2],
+			["d", 1],
+		])
+	})
+
+	it("keeps forks whose parent is missing at the top level", () => {
+		expect(nestForks([item("b", "missing")]).map(({ forkDepth }) => forkDepth)).toEqual([0])
+	})
+
+	it("keeps tasks that form a fork cycle", () => {
+		expect(nestForks([item("a", "b"), item("b", "a")]).map(({ id }) => id)).toEqual(["a", "b"])
+	})
 })
@@ -1,17 +1,113 @@
-import { useState, useEffect, useMemo } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
+import { useDebounce, useEvent } from "react-use"
 import { Fzf } from "fzf"
 
+import type { HistoryItem, TaskSearchFilters, TaskSearchMatch, TaskSearchResult } from "@roo-code/types"
+
+import type { ExtensionMessage } from "@roo/ExtensionMessage"
+
+import { vscode } from "@/utils/vscode"
 import { highlightFzfMatch } from "@/utils/highlight"
 import { useExtensionState } from "@/context/ExtensionStateContext"
 
 type SortOption = "newest" | "oldest" | "mostExpensive" | "mostTokens" | "mostRelevant"
 
+// Filters applied by the extension; the workspace follows `showAllWorkspaces`.
+export type HistoryFilters = Omit<TaskSearchFilters, "workspace">
+
+const SEARCH_DEBOUNCE_MS = 300
+
+/**
+ * Moves forked tasks directly below the task they were forked from, keeping
+ * the existing order among siblings, and annotates each task with its depth
+ * in the fork tree. Forks whose parent is not in the list stay where they are.
+ */
+export const nestForks = <T extends HistoryItem>(items: T[]): Array<T & { forkDepth: number }> => {
+	const ids = new Set(items.map((item) => item.id))
+	const forksByParentId = new Map<string, T[]>()
+	const roots: T[] = []
+
+	for (const item of items) {
+		const parentId = item.forkedFrom?.taskId
+
+		if (parentId && parentId !== item.id && ids.has(parentId)) {
+			forksByParentId.set(parentId, [...(forksByParentId.get(parentId) ?? []), item])
+		} else {
+			roots.push(item)
+		}
+	}
+
+	const result: Array<T & { forkDepth: number }> = []
+	const visited = new Set<string>()
+
+	const visit = (item: T, forkDepth: number) => {
+		if (visited.has(item.id)) {
+			return
+		}
+
+		visited.add(item.id)
+		result.push({ ...item, forkDepth })
+		forksByParentId.get(item.id)?.forEach((fork) => visit(fork, forkDepth + 1))
+	}
+
+	roots.forEach((item) => visit(item, 0))
+
+	// Tasks caught in a fork cycle have no root; keep them visible.
+	items.forEach((item) => visit(item, 0))
+
+	return result
+}
+
 export const useTaskSearch = () => {
 	const { taskHistory, cwd } = useExtensionState()
 	const [searchQuery, setSearchQuery] = useState("")
 	const [sortOption, setSortOption] = useState<SortOption>("newest")
 	const [lastNonRelevantSort, setLastNonRelevantSort] = useState<SortOption | null>("newest")
 	const [showAllWorkspaces, setShowAllWorkspaces] = useState(false)
+	const [fullTextSearch, setFullTextSearch] = useState(false)
+	const [filters, setFilters] = useState<HistoryFilters>({})
+	const [searchResults, setSearchResults] = useState<TaskSearchResult[]>()
+	const requestIdRef = useRef<string>()
+
+	const hasFilters = Object.values(filters).some((value) => value !== undefined && value !== "")
+	const fullTextQuery = fullTextSearch ? searchQuery.trim() : ""
+
+	// Conversations and touched files are only known to the extension, so
+	// full-text searches and filters are resolved there.
+	const isRemoteSearch = !!fullTextQuery || hasFilters
+
+	useDebounce(
+		() => {
+			if (!isRemoteSearch) {
+				requestIdRef.current = undefined
+				setSearchResults(undefined)
+				return
+			}
+
+			const requestId = `task-search-${Date.now()}`
+			requestIdRef.current = requestId
+
+			vscode.postMessage({
+				type: "searchTaskHistory",
+				query: fullTextQuery,
+				values: { ...filters, workspace: showAllWorkspaces ? undefined : cwd },
+				requestId,
+			})
+		},
+		SEARCH_DEBOUNCE_MS,
+		// The history is re-posted with every state update, so only added or
+		// deleted tasks trigger a new search.
+		[isRemoteSearch, fullTextQuery, filters, showAllWorkspaces, cwd, taskHistory.length],
+	)
+
+	useEvent("message", (event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+
+		// Ignore the results of superseded searches.
+		if (message.type === "taskSearchResults" && message.requestId === requestIdRef.current) {
+			setSearchResults(message.taskSearchResults ?? [])
+		}
+	})
 
 	useEffect(() => {
 		if (searchQuery && sortOption !== "mostRelevant" && !lastNonRelevantSort) {
@@ -24,12 +120,22 @@ export const useTaskSearch = () => {
 	}, [searchQuery, sortOption, lastNonRelevantSort])
 
 	const presentableTasks = useMemo(() => {
-		let tasks = taskHistory.filter((item) => item.ts && item.task)
+		let tasks: Array<HistoryItem & { matches?: TaskSearchMatch[] }> = taskHistory.filter(
+			(item) => item.ts && item.task,
+		)
 		if (!showAllWorkspaces) {
 			tasks = tasks.filter((item) => item.workspace === cwd)
 		}
+		if (isRemoteSearch) {
+			// Keep the results of the previous search until the current one completes.
+			const tasksById = new Map(tasks.map((item) => [item.id, item]))
+			tasks = (searchResults ?? []).flatMap(({ taskId, matches }) => {
+				const item = tasksById.get(taskId)
+				return item ? [{ ...item, matches }] : []
+			})
+		}
 		return tasks
-	}, [taskHistory, showAllWorkspaces, cwd])
+	}, [taskHistory, showAllWorkspaces, cwd, isRemoteSearch, searchResults])
 
 	const fzf = useMemo(() => {
 		return new Fzf(presentableTasks, {
@@ -40,7 +146,7 @@ export const useTaskSearch = () => {
 	const tasks = useMemo(() => {
 		let results = presentableTasks
 
-		if (searchQuery) {
+		if (searchQuery && !fullTextSearch) {
 			const searchResults = fzf.find(searchQuery)
 			results = searchResults.map((result) => {
 				const positions = Array.from(result.positions)
@@ -58,7 +164,7 @@ export const useTaskSearch = () => {
 		}
 
 		// Then sort the results
-		return [...results].sort((a, b) => {
+		const sorted = [...results].sort((a, b) => {
 			switch (sortOption) {
 				case "oldest":
 					return (a.ts || 0) - (b.ts || 0)
@@ -69,14 +175,17 @@ export const useTaskSearch = () => {
 					const bTokens = (b.tokensIn || 0) + (b.tokensOut || 0) + (b.cacheWrites || 0) + (b.cacheReads || 0)
 					return bTokens - aTokens
 				case "mostRelevant":
-					// Keep fuse order if searching, otherwise sort by newest
+					// Keep fuse or full-text order if searching, otherwise sort by newest
 					return searchQuery ? 0 : (b.ts || 0) - (a.ts || 0)
 				case "newest":
 				default:
 					return (b.ts || 0) - (a.ts || 0)
 			}
 		})
-	}, [presentableTasks, searchQuery, fzf, sortOption])
+
+		// Search results keep their relevance order; otherwise show forks as a tree.
+		return searchQuery ? sorted.map((item) => ({ ...item, forkDepth: 0 })) : nestForks(sorted)
+	}, [presentableTasks, searchQuery, fullTextSearch, fzf, sortOption])
 
 	return {
 		tasks,
@@ -88,5 +197,9 @@ export const useTaskSearch = () => {
 		setLastNonRelevantSort,
 		showAllWorkspaces,
 		setShowAllWorkspaces,
+		fullTextSearch,
+		setFullTextSearch,
+		filters,
+		setFilters,
 	}
 }
@@ -0,0 +1,57 @@
+import { McpPrompt, getMcpPromptCommandName } from "@roo/mcp"
+
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+
+type McpPromptRowProps = {
+	serverName: string
+	prompt: McpPrompt
+}
+
+const McpPromptRow = ({ serverName, prompt }: McpPromptRowProps) => {
+	const { t } = useAppTranslation()
+
+	return (
+		<div style={{ padding: "3px 0" }}>
+			<div style={{ display: "flex", alignItems: "center", marginBottom: "4px" }}>
+				<span className="codicon codicon-comment-discussion" style={{ marginRight: "6px" }} />
+				<span style={{ fontWeight: 500, wordBreak: "break-all" }}>{prompt.name}</span>
+			</div>
+			{prompt.description && (
+				<div style={{ fontSize: "12px", opacity: 0.8, margin: "4px 0" }}>{prompt.description}</div>
+			)}
+			{prompt.arguments && prompt.arguments.length > 0 && (
+				<div style={{ fontSize: "12px", margin: "4px 0" }}>
+					<span style={{ opacity: 0.8 }}>{t("mcp:prompts.arguments")} </span>
+					{prompt.arguments.map((argument) => (
+						<code
+							key={argument.name}
+							title={argument.description}
+							style={{
+								color: "var(--vscode-textPreformat-foreground)",
+								background: "var(--vscode-textPreformat-background)",
+								padding: "1px 4px",
+								borderRadius: "3px",
+								marginRight: "4px",
+							}}>
+							{argument.required ? `${argument.name}*` : argument.name}
+						</code>
+					))}
+				</div>
+			)}
+			<div style={{ fontSize: "12px" }}>
+				<span style={{ opacity: 0.8 }}>{t("mcp:prompts.slashCommand")} </span>
+				<code
+					style={{
+						color: "var(--vscode-textPreformat-foreground)",
+						background: "var(--vscode-textPreformat-background)",
+						padding: "1px 4px",
+						borderRadius: "3px",
+					}}>
+					/{getMcpPromptCommandName(serverName, prompt.name)}
+				</code>
+			</div>
+		</div>
+	)
+}
+
+export default McpPromptRow
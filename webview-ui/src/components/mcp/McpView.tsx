@@ -31,6 +31,7 @@ import { SectionHeader } from "@src/components/settings/SectionHeader"
 
 import McpToolRow from "./McpToolRow"
 import McpResourceRow from "./McpResourceRow"
+import McpPromptRow from "./McpPromptRow"
 import McpEnabledToggle from "./McpEnabledToggle"
 import { McpErrorRow } from "./McpErrorRow"
 
@@ -366,6 +367,9 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 									{t("mcp:tabs.resources")} (
 									{[...(server.resourceTemplates || []), ...(server.resources || [])].length || 0})
 								</VSCodePanelTab>
+								<VSCodePanelTab id="prompts">
+									{t("mcp:tabs.prompts")} ({server.prompts?.length || 0})
+								</VSCodePanelTab>
 								{server.instructions && (
 									<VSCodePanelTab id="instructions">{t("mcp:instructions")}</VSCodePanelTab>
 								)}
@@ -427,6 +431,31 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 									)}
 								</VSCodePanelView>
 
+								<VSCodePanelView id="prompts-view">
+									{server.prompts && server.prompts.length > 0 ? (
+										<div
+											style={{
+												display: "flex",
+												flexDirection: "column",
+												gap: "8px",
+												width: "100%",
+											}}>
+											{server.prompts.map((prompt) => (
+												<McpPromptRow
+													key={prompt.name}
+													serverName={server.name}
+													prompt={prompt}
+												/>
+											))}
+										</div>
+									) : (
+										<div
+											style={{ padding: "10px 0", color: "var(--vscode-descriptionForeground)" }}>
+											{t("mcp:emptyState.noPrompts")}
+										</div>
+									)}
+								</VSCodePanelView>
+
 								{server.instructions && (
 									<VSCodePanelView id="instructions-view">
 										<div style={{ padding: "10px 0", fontSize: "12px" }}>
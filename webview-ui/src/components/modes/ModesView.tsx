@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from "react"
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import {
 	VSCodeCheckbox,
 	VSCodeRadioGroup,
@@ -22,6 +22,7 @@ import {
 	findModeBySlug as findCustomModeBySlug,
 	defaultModeSlug,
 } from "@roo/modes"
+import { getInheritedModeConfig, getModeBases, getOwnCustomInstructions } from "@roo/modeInheritance"
 import { TOOL_GROUPS } from "@roo/tools"
 
 import { vscode } from "@src/utils/vscode"
@@ -288,6 +289,14 @@ const ModesView = () => {
 		return customModes?.find(findMode) || modes.find(findMode)
 	}, [visualMode, customModes, modes])
 
+	// What the selected custom mode inherits from the modes it extends, if any.
+	const inheritedMode = useMemo(() => {
+		const customMode = findModeBySlug(visualMode, customModes)
+		return customMode ? getInheritedModeConfig(customMode, customModes) : undefined
+	}, [visualMode, customModes, findModeBySlug])
+
+	const inheritedInstructions = inheritedMode?.customInstructions
+
 	// Check if the current mode has rules to export
 	const checkRulesDirectory = useCallback((slug: string) => {
 		vscode.postMessage({
@@ -940,6 +949,28 @@ const ModesView = () => {
 					</div>
 				</div>
 
+				{/* Base modes of custom modes that extend other modes */}
+				{(() => {
+					const bases = getModeBases(findModeBySlug(visualMode, customModes) ?? {})
+
+					return (
+						bases.length > 0 && (
+							<div className="mb-4" data-testid="mode-extends">
+								<div className="font-bold mb-1">
+									{t("prompts:extends.title", {
+										modes: bases
+											.map((base) => findCustomModeBySlug(base, modes)?.name ?? base)
+											.join(", "),
+									})}
+								</div>
+								<div className="text-sm text-vscode-descriptionForeground">
+									{t("prompts:extends.description")}
+								</div>
+							</div>
+						)
+					)
+				})()}
+
 				{/* Role Definition section */}
 				<div className="mb-4">
 					<div className="flex justify-between items-center mb-1">
@@ -1221,11 +1252,25 @@ const ModesView = () => {
 							modeName: getCurrentMode()?.name || "Code",
 						})}
 					</div>
+					{inheritedInstructions && (
+						<div className="mb-2" data-testid="inherited-custom-instructions">
+							<div className="text-sm font-medium mb-1">{t("prompts:customInstructions.inherited")}</div>
+							<div className="text-sm whitespace-pre-wrap p-2 rounded bg-vscode-editor-background text-vscode-descriptionForeground max-h-40 overflow-y-auto">
+								{inheritedInstructions}
+							</div>
+						</div>
+					)}
 					<VSCodeTextArea
 						resize="vertical"
 						value={(() => {
 							const customMode = findModeBySlug(visualMode, customModes)
 							const prompt = customModePrompts?.[visualMode] as PromptComponent
+
+							// Modes that extend other modes only edit their own instructions.
+							if (customMode && inheritedMode) {
+								return getOwnCustomInstructions(customMode.customInstructions, inheritedMode) ?? ""
+							}
+
 							return (
 								customMode?.customInstructions ??
 								prompt?.customInstructions ??
@@ -1238,11 +1283,16 @@ const ModesView = () => {
 								((e as any).target as HTMLTextAreaElement).value
 							const customMode = findModeBySlug(visualMode, customModes)
 							if (customMode) {
-								// For custom modes, update the JSON file
+								// For custom modes, update the JSON file. The extension only
+								// stores the part that follows the inherited instructions.
 								updateCustomMode(visualMode, {
 									...customMode,
 									// Preserve empty string; only treat null/undefined as unset
-									customInstructions: value ?? undefined,
+									customInstructions: inheritedInstructions
+										? value?.trim()
+											? `${inheritedInstructions}\n\n${value}`
+											: inheritedInstructions
+										: (value ?? undefined),
 									source: customMode.source || "global",
 								})
 							} else {
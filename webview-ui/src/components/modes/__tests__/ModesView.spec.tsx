@@ -232,6 +232,35 @@ describe("PromptsView", () => {
 		})
 	})
 
+	it("shows inherited instructions separately for modes that extend other modes", () => {
+		const base = {
+			slug: "base",
+			name: "Base",
+			roleDefinition: "Base role",
+			customInstructions: "Base.",
+			groups: ["read"],
+			source: "global",
+		}
+		const child = { ...base, slug: "child", name: "Child", extends: "base", customInstructions: "Base.\n\nChild." }
+
+		renderPromptsView({ mode: "child", customModes: [base, child] })
+
+		expect(screen.getByTestId("mode-extends")).toHaveTextContent("prompts:extends.title")
+		expect(screen.getByTestId("inherited-custom-instructions")).toHaveTextContent("Base.")
+
+		const textarea = screen.getByTestId("child-custom-instructions-textarea")
+		expect(textarea).toHaveValue("Child.")
+
+		Object.defineProperty(textarea, "value", { writable: true, value: "Child, edited." })
+		fireEvent(textarea, new Event("change", { bubbles: true }))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "updateCustomMode",
+			slug: "child",
+			modeConfig: expect.objectContaining({ customInstructions: "Base.\n\nChild, edited." }),
+		})
+	})
+
 	it("closes the mode selection popover when ESC key is pressed", async () => {
 		renderPromptsView()
 		const selectTrigger = screen.getByTestId("mode-select-trigger")
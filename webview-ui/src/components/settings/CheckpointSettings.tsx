@@ -1,33 +1,68 @@
-import { HTMLAttributes } from "react"
+import { HTMLAttributes, useCallback, useState } from "react"
 import { useAppTranslation } from "@/i18n/TranslationContext"
 import { VSCodeCheckbox, VSCodeLink } from "@vscode/webview-ui-toolkit/react"
-import { GitBranch } from "lucide-react"
+import { GitBranch, Trash2 } from "lucide-react"
 import { Trans } from "react-i18next"
+import { useEvent, useMount } from "react-use"
+import prettyBytes from "pretty-bytes"
 import { buildDocLink } from "@src/utils/docLinks"
-import { Slider } from "@/components/ui"
+import { formatTimeAgo } from "@src/utils/format"
+import { vscode } from "@/utils/vscode"
+import { Button, Input, Slider } from "@/components/ui"
+
+import type { CheckpointUsageEntry, ExtensionMessage } from "@roo/ExtensionMessage"
 
 import { SetCachedStateField } from "./types"
 import { SectionHeader } from "./SectionHeader"
 import { Section } from "./Section"
 import {
+	type CheckpointRetention,
 	DEFAULT_CHECKPOINT_TIMEOUT_SECONDS,
 	MAX_CHECKPOINT_TIMEOUT_SECONDS,
 	MIN_CHECKPOINT_TIMEOUT_SECONDS,
 } from "@roo-code/types"
 
+const RETENTION_LIMITS = ["maxAgeDays", "maxTotalSizeMb", "maxCheckpointsPerTask"] as const
+
 type CheckpointSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	enableCheckpoints?: boolean
 	checkpointTimeout?: number
-	setCachedStateField: SetCachedStateField<"enableCheckpoints" | "checkpointTimeout">
+	checkpointRetention?: CheckpointRetention
+	setCachedStateField: SetCachedStateField<"enableCheckpoints" | "checkpointTimeout" | "checkpointRetention">
 }
 
 export const CheckpointSettings = ({
 	enableCheckpoints,
 	checkpointTimeout,
+	checkpointRetention,
 	setCachedStateField,
 	...props
 }: CheckpointSettingsProps) => {
 	const { t } = useAppTranslation()
+
+	const [usage, setUsage] = useState<CheckpointUsageEntry[]>()
+
+	useMount(() => vscode.postMessage({ type: "requestCheckpointUsage" }))
+
+	const onMessage = useCallback((event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+
+		if (message.type === "checkpointUsage") {
+			setUsage(message.checkpointUsage ?? [])
+		}
+	}, [])
+
+	useEvent("message", onMessage)
+
+	const setRetentionLimit = (key: (typeof RETENTION_LIMITS)[number], value: string) => {
+		const limit = parseInt(value, 10)
+		const { [key]: _, ...rest } = checkpointRetention ?? {}
+
+		// An empty or non-positive value removes the limit.
+		setCachedStateField("checkpointRetention", limit > 0 ? { ...rest, [key]: limit } : rest)
+	}
+
+	const totalBytes = usage?.reduce((total, entry) => total + entry.sizeBytes, 0) ?? 0
 	return (
 		<div {...props}>
 			<SectionHeader>
@@ -83,6 +118,90 @@ export const CheckpointSettings = ({
 						</div>
 					</div>
 				)}
+
+				<div className="mt-4 flex flex-col gap-3">
+					<div>
+						<label className="block font-medium mb-1">{t("settings:checkpoints.retention.label")}</label>
+						<div className="text-vscode-descriptionForeground text-sm">
+							{t("settings:checkpoints.retention.description")}
+						</div>
+					</div>
+					{RETENTION_LIMITS.map((key) => (
+						<div key={key} className="flex items-center gap-4">
+							<Input
+								type="number"
+								pattern="[0-9]*"
+								className="w-24 bg-vscode-input-background text-vscode-input-foreground border border-vscode-input-border px-2 py-1 rounded text-right [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+								value={checkpointRetention?.[key] ?? ""}
+								min={1}
+								placeholder={t("settings:checkpoints.retention.unlimited")}
+								onChange={(e) => setRetentionLimit(key, e.target.value)}
+								data-testid={`checkpoint-retention-${key}-input`}
+							/>
+							<span>{t(`settings:checkpoints.retention.${key}`)}</span>
+						</div>
+					))}
+				</div>
+
+				<div className="mt-4 flex flex-col gap-2" data-testid="checkpoint-usage">
+					<div className="flex items-center justify-between gap-2">
+						<label className="font-medium">
+							{t("settings:checkpoints.usage.label", { size: prettyBytes(totalBytes) })}
+						</label>
+						<div className="flex gap-2">
+							<Button
+								variant="secondary"
+								onClick={() => vscode.postMessage({ type: "applyCheckpointRetention" })}
+								data-testid="checkpoint-cleanup-button">
+								{t("settings:checkpoints.usage.cleanUp")}
+							</Button>
+							<Button
+								variant="secondary"
+								disabled={!usage?.some((entry) => !entry.isActive)}
+								onClick={() => vscode.postMessage({ type: "purgeCheckpoints" })}
+								data-testid="checkpoint-purge-all-button">
+								{t("settings:checkpoints.usage.purgeAll")}
+							</Button>
+						</div>
+					</div>
+					{usage?.length === 0 && (
+						<div className="text-vscode-descriptionForeground text-sm">
+							{t("settings:checkpoints.usage.empty")}
+						</div>
+					)}
+					{usage?.map((entry) => (
+						<div
+							key={entry.taskId}
+							className="flex items-center gap-2 text-sm"
+							data-testid={`checkpoint-usage-${entry.taskId}`}>
+							<div className="flex-1 min-w-0">
+								<div className="truncate" title={entry.task}>
+									{entry.task ?? entry.taskId}
+								</div>
+								<div className="text-vscode-descriptionForeground text-xs">
+									{t("settings:checkpoints.usage.details", {
+										checkpoints: entry.checkpointCount,
+										size: prettyBytes(entry.sizeBytes),
+										lastUsed: formatTimeAgo(entry.lastUsedAt),
+									})}
+								</div>
+							</div>
+							<Button
+								variant="ghost"
+								size="icon"
+								disabled={entry.isActive}
+								title={
+									entry.isActive
+										? t("settings:checkpoints.usage.active")
+										: t("settings:checkpoints.usage.purge")
+								}
+								onClick={() => vscode.postMessage({ type: "purgeCheckpoints", ids: [entry.taskId] })}
+								data-testid={`checkpoint-purge-${entry.taskId}`}>
+								<Trash2 className="w-4" />
+							</Button>
+						</div>
+					))}
+				</div>
 			</Section>
 		</div>
 	)
@@ -4,6 +4,8 @@ import { useAppTranslation } from "@/i18n/TranslationContext"
 import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
 import { Database, FoldVertical } from "lucide-react"
 
+import { type CondensingMode, condensingModes } from "@roo-code/types"
+
 import { cn } from "@/lib/utils"
 import { Input, Select, SelectContent, SelectItem, SelectTrigger, SelectValue, Slider, Button } from "@/components/ui"
 
@@ -30,6 +32,7 @@ type ContextManagementSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	includeCurrentTime?: boolean
 	includeCurrentCost?: boolean
 	maxGitStatusFiles?: number
+	condensingMode?: CondensingMode
 	setCachedStateField: SetCachedStateField<
 		| "autoCondenseContext"
 		| "autoCondenseContextPercent"
@@ -47,6 +50,7 @@ type ContextManagementSettingsProps = HTMLAttributes<HTMLDivElement> & {
 		| "includeCurrentTime"
 		| "includeCurrentCost"
 		| "maxGitStatusFiles"
+		| "condensingMode"
 	>
 }
 
@@ -69,6 +73,7 @@ export const ContextManagementSettings = ({
 	includeCurrentTime,
 	includeCurrentCost,
 	maxGitStatusFiles,
+	condensingMode,
 	className,
 	...props
 }: ContextManagementSettingsProps) => {
@@ -413,6 +418,29 @@ export const ContextManagementSettings = ({
 				</div>
 			</Section>
 			<Section className="pt-2">
+				<div>
+					<span className="block font-medium mb-1">
+						{t("settings:contextManagement.condensingMode.label")}
+					</span>
+					<Select
+						value={condensingMode ?? "summary"}
+						onValueChange={(value) => setCachedStateField("condensingMode", value as CondensingMode)}
+						data-testid="condensing-mode-select">
+						<SelectTrigger className="w-full">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{condensingModes.map((mode) => (
+								<SelectItem key={mode} value={mode}>
+									{t(`settings:contextManagement.condensingMode.${mode}`)}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("settings:contextManagement.condensingMode.description")}
+					</div>
+				</div>
 				<VSCodeCheckbox
 					checked={autoCondenseContext}
 					onChange={(e: any) => setCachedStateField("autoCondenseContext", e.target.checked)}
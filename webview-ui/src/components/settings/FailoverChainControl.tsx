@@ -0,0 +1,135 @@
+import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
+
+import {
+	type ProviderSettings,
+	DEFAULT_FAILOVER_COOLDOWN_SECONDS,
+	DEFAULT_FAILOVER_ERROR_CLASSES,
+	failoverErrorClasses,
+} from "@roo-code/types"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { useExtensionState } from "@/context/ExtensionStateContext"
+import { Button, Select, SelectContent, SelectItem, SelectTrigger, SelectValue, Slider } from "@/components/ui"
+
+type FailoverField = "failoverProfileIds" | "failoverErrorClasses" | "failoverCooldownSeconds"
+
+interface FailoverChainControlProps {
+	apiConfiguration: ProviderSettings
+	onChange: <K extends FailoverField>(field: K, value: ProviderSettings[K]) => void
+}
+
+export const FailoverChainControl = ({ apiConfiguration, onChange }: FailoverChainControlProps) => {
+	const { t } = useAppTranslation()
+	const { listApiConfigMeta = [], currentApiConfigName } = useExtensionState()
+
+	const profileIds = apiConfiguration.failoverProfileIds ?? []
+	const errorClasses = apiConfiguration.failoverErrorClasses ?? DEFAULT_FAILOVER_ERROR_CLASSES
+	const cooldown = apiConfiguration.failoverCooldownSeconds ?? DEFAULT_FAILOVER_COOLDOWN_SECONDS
+
+	const availableProfiles = listApiConfigMeta.filter(
+		({ id, name }) => name !== currentApiConfigName && !profileIds.includes(id),
+	)
+
+	const setProfileIds = (ids: string[]) => onChange("failoverProfileIds", ids.length > 0 ? ids : undefined)
+
+	const moveProfile = (index: number, offset: number) => {
+		const ids = [...profileIds]
+		;[ids[index], ids[index + offset]] = [ids[index + offset], ids[index]]
+		setProfileIds(ids)
+	}
+
+	return (
+		<div className="flex flex-col gap-1" data-testid="failover-chain-control">
+			<label className="block font-medium mb-1">{t("settings:providers.failover.label")}</label>
+			{profileIds.map((id, index) => (
+				<div key={id} className="flex items-center gap-1" data-testid="failover-profile">
+					<span className="w-5 text-vscode-descriptionForeground">{index + 1}.</span>
+					<span className="flex-1 truncate">
+						{listApiConfigMeta.find((profile) => profile.id === id)?.name ??
+							t("settings:providers.failover.missingProfile")}
+					</span>
+					<Button
+						variant="ghost"
+						size="icon"
+						disabled={index === 0}
+						aria-label={t("settings:providers.failover.moveUp")}
+						onClick={() => moveProfile(index, -1)}>
+						<span className="codicon codicon-arrow-up" />
+					</Button>
+					<Button
+						variant="ghost"
+						size="icon"
+						disabled={index === profileIds.length - 1}
+						aria-label={t("settings:providers.failover.moveDown")}
+						onClick={() => moveProfile(index, 1)}>
+						<span className="codicon codicon-arrow-down" />
+					</Button>
+					<Button
+						variant="ghost"
+						size="icon"
+						aria-label={t("settings:providers.failover.remove")}
+						onClick={() => setProfileIds(profileIds.filter((_, i) => i !== index))}>
+						<span className="codicon codicon-close" />
+					</Button>
+				</div>
+			))}
+			{availableProfiles.length > 0 && (
+				<Select value="" onValueChange={(id) => setProfileIds([...profileIds, id])}>
+					<SelectTrigger className="w-full" data-testid="failover-add-profile">
+						<SelectValue placeholder={t("settings:providers.failover.addProfile")} />
+					</SelectTrigger>
+					<SelectContent>
+						{availableProfiles.map(({ id, name }) => (
+							<SelectItem key={id} value={id}>
+								{name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			)}
+			<div className="text-sm text-vscode-descriptionForeground">
+				{t("settings:providers.failover.description")}
+			</div>
+			{profileIds.length > 0 && (
+				<>
+					<label className="block font-medium mt-2 mb-1">
+						{t("settings:providers.failover.errorClasses.label")}
+					</label>
+					{failoverErrorClasses.map((errorClass) => (
+						<VSCodeCheckbox
+							key={errorClass}
+							checked={errorClasses.includes(errorClass)}
+							onChange={(e: any) =>
+								onChange(
+									"failoverErrorClasses",
+									e.target.checked
+										? failoverErrorClasses.filter(
+												(c) => c === errorClass || errorClasses.includes(c),
+											)
+										: errorClasses.filter((c) => c !== errorClass),
+								)
+							}>
+							{t(`settings:providers.failover.errorClasses.${errorClass}`)}
+						</VSCodeCheckbox>
+					))}
+					<label className="block font-medium mt-2 mb-1">
+						{t("settings:providers.failover.cooldown.label")}
+					</label>
+					<div className="flex items-center gap-2">
+						<Slider
+							value={[cooldown]}
+							min={0}
+							max={600}
+							step={10}
+							onValueChange={(newValue) => onChange("failoverCooldownSeconds", newValue[0])}
+						/>
+						<span className="w-10">{cooldown}s</span>
+					</div>
+					<div className="text-sm text-vscode-descriptionForeground">
+						{t("settings:providers.failover.cooldown.description")}
+					</div>
+				</>
+			)}
+		</div>
+	)
+}
@@ -164,6 +164,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		browserViewportSize,
 		enableCheckpoints,
 		checkpointTimeout,
+		checkpointRetention,
 		diffEnabled,
 		experiments,
 		fuzzyMatchThreshold,
@@ -213,6 +214,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		includeCurrentTime,
 		includeCurrentCost,
 		maxGitStatusFiles,
+		condensingMode,
 	} = cachedState
 
 	const apiConfiguration = useMemo(() => cachedState.apiConfiguration ?? {}, [cachedState.apiConfiguration])
@@ -376,6 +378,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 					diffEnabled: diffEnabled ?? true,
 					enableCheckpoints: enableCheckpoints ?? false,
 					checkpointTimeout: checkpointTimeout ?? DEFAULT_CHECKPOINT_TIMEOUT_SECONDS,
+					checkpointRetention,
 					browserViewportSize: browserViewportSize ?? "900x600",
 					remoteBrowserHost: remoteBrowserEnabled ? remoteBrowserHost : undefined,
 					remoteBrowserEnabled: remoteBrowserEnabled ?? false,
@@ -416,6 +419,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 					includeCurrentTime: includeCurrentTime ?? true,
 					includeCurrentCost: includeCurrentCost ?? true,
 					maxGitStatusFiles: maxGitStatusFiles ?? 0,
+					condensingMode: condensingMode ?? "summary",
 					profileThresholds,
 					imageGenerationProvider,
 					openRouterImageApiKey,
@@ -754,6 +758,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 						<CheckpointSettings
 							enableCheckpoints={enableCheckpoints}
 							checkpointTimeout={checkpointTimeout}
+							checkpointRetention={checkpointRetention}
 							setCachedStateField={setCachedStateField}
 						/>
 					)}
@@ -789,6 +794,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 							includeCurrentTime={includeCurrentTime}
 							includeCurrentCost={includeCurrentCost}
 							maxGitStatusFiles={maxGitStatusFiles}
+							condensingMode={condensingMode}
 							setCachedStateField={setCachedStateField}
 						/>
 					)}
@@ -0,0 +1,100 @@
+// npx vitest src/components/settings/__tests__/CheckpointSettings.spec.tsx
+
+import { render, screen, fireEvent, act } from "@/utils/test-utils"
+
+import { vscode } from "@/utils/vscode"
+
+import { CheckpointSettings } from "../CheckpointSettings"
+
+vi.mock("@/i18n/TranslationContext", () => ({
+	useAppTranslation: () => ({
+		t: (key: string) => key,
+	}),
+}))
+
+vi.mock("@/utils/vscode", () => ({
+	vscode: {
+		postMessage: vi.fn(),
+	},
+}))
+
+vi.mock("@/components/ui", () => ({
+	Slider: ({ "data-testid": dataTestId }: any) => <input type="range" data-testid={dataTestId} />,
+	Input: ({ value, onChange, "data-testid": dataTestId, ...props }: any) => (
+		<input value={value} onChange={onChange} data-testid={dataTestId} {...props} />
+	),
+	Button: ({ children, onClick, ...props }: any) => (
+		<button onClick={onClick} {...props}>
+			{children}
+		</button>
+	),
+}))
+
+vi.mock("@vscode/webview-ui-toolkit/react", () => ({
+	VSCodeCheckbox: ({ children }: any) => <label>{children}</label>,
+	VSCodeLink: ({ children }: any) => <a>{children}</a>,
+}))
+
+const postUsage = (checkpointUsage: any[]) =>
+	act(() => {
+		window.dispatchEvent(new MessageEvent("message", { data: { type: "checkpointUsage", checkpointUsage } }))
+	})
+
+describe("CheckpointSettings", () => {
+	const setCachedStateField = vi.fn()
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it("requests checkpoint usage on mount and lists it", () => {
+		render(<CheckpointSettings enableCheckpoints={true} setCachedStateField={setCachedStateField} />)
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "requestCheckpointUsage" })
+
+		postUsage([
+			{ taskId: "task-1", task: "Fix the bug", sizeBytes: 2048, checkpointCount: 3, lastUsedAt: Date.now() },
+			{ taskId: "task-2", sizeBytes: 1024, checkpointCount: 1, lastUsedAt: Date.now(), isActive: true },
+		])
+
+		expect(screen.getByText("Fix the bug")).toBeInTheDocument()
+		expect(screen.getByText("task-2")).toBeInTheDocument()
+		expect(screen.getByTestId("checkpoint-purge-task-2")).toBeDisabled()
+	})
+
+	it("purges a single task or all tasks", () => {
+		render(<CheckpointSettings enableCheckpoints={true} setCachedStateField={setCachedStateField} />)
+
+		postUsage([{ taskId: "task-1", sizeBytes: 2048, checkpointCount: 3, lastUsedAt: Date.now() }])
+
+		fireEvent.click(screen.getByTestId("checkpoint-purge-task-1"))
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "purgeCheckpoints", ids: ["task-1"] })
+
+		fireEvent.click(screen.getByTestId("checkpoint-purge-all-button"))
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "purgeCheckpoints" })
+
+		fireEvent.click(screen.getByTestId("checkpoint-cleanup-button"))
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "applyCheckpointRetention" })
+	})
+
+	it("updates and clears retention limits", () => {
+		render(
+			<CheckpointSettings
+				enableCheckpoints={true}
+				checkpointRetention={{ maxAgeDays: 30 }}
+				setCachedStateField={setCachedStateField}
+			/>,
+		)
+
+		fireEvent.change(screen.getByTestId("checkpoint-retention-maxCheckpointsPerTask-input"), {
+			target: { value: "10" },
+		})
+		expect(setCachedStateField).toHaveBeenCalledWith("checkpointRetention", {
+			maxAgeDays: 30,
+			maxCheckpointsPerTask: 10,
+		})
+
+		fireEvent.change(screen.getByTestId("checkpoint-retention-maxAgeDays-input"), { target: { value: "" } })
+		expect(setCachedStateField).toHaveBeenCalledWith("checkpointRetention", {})
+	})
+})
@@ -379,9 +379,18 @@ describe("ContextManagementSettings", () => {
 		const slider = screen.getByTestId("condense-threshold-slider")
 		expect(slider).toBeInTheDocument()
 
-		// Should render the profile select dropdown
+		// Should render the condensing mode and profile select dropdowns
 		const selects = screen.getAllByRole("combobox")
-		expect(selects).toHaveLength(1)
+		expect(selects).toHaveLength(2)
+	})
+
+	it("renders the condensing mode select", () => {
+		render(<ContextManagementSettings {...defaultProps} condensingMode="structured" />)
+
+		const select = screen.getByTestId("condensing-mode-select")
+		expect(select).toHaveAttribute("value", "structured")
+		expect(screen.getByText("settings:contextManagement.condensingMode.summary")).toBeInTheDocument()
+		expect(screen.getByText("settings:contextManagement.condensingMode.structured")).toBeInTheDocument()
 	})
 
 	describe("Auto Condense Context functionality", () => {
@@ -414,8 +423,8 @@ describe("ContextManagementSettings", () => {
 
 			// Threshold settings should be visible
 			expect(screen.getByTestId("condense-threshold-slider")).toBeInTheDocument()
-			// One combobox for profile selection
-			expect(screen.getAllByRole("combobox")).toHaveLength(1)
+			// One combobox for the condensing mode and one for profile selection
+			expect(screen.getAllByRole("combobox")).toHaveLength(2)
 		})
 
 		it("updates auto condense context percent", () => {
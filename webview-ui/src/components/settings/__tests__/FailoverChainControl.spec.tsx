@@ -0,0 +1,88 @@
+import { render, screen, fireEvent } from "@testing-library/react"
+
+import { FailoverChainControl } from "../FailoverChainControl"
+
+vi.mock("@/i18n/TranslationContext", () => ({
+	useAppTranslation: () => ({ t: (key: string) => key }),
+}))
+
+vi.mock("@/context/ExtensionStateContext", () => ({
+	useExtensionState: () => ({
+		currentApiConfigName: "anthropic",
+		listApiConfigMeta: [
+			{ id: "anthropic-id", name: "anthropic" },
+			{ id: "bedrock-id", name: "bedrock" },
+			{ id: "openrouter-id", name: "openrouter" },
+		],
+	}),
+}))
+
+vi.mock("@vscode/webview-ui-toolkit/react", () => ({
+	VSCodeCheckbox: ({ children, onChange, checked }: any) => (
+		<label>
+			<input
+				type="checkbox"
+				checked={checked}
+				onChange={(e) => onChange({ target: { checked: e.target.checked } })}
+			/>
+			{children}
+		</label>
+	),
+}))
+
+describe("FailoverChainControl", () => {
+	it("only shows the error classes and cool-down once the chain has a profile", () => {
+		render(<FailoverChainControl apiConfiguration={{}} onChange={vi.fn()} />)
+
+		expect(screen.queryAllByTestId("failover-profile")).toHaveLength(0)
+		expect(screen.getByTestId("failover-add-profile")).toBeInTheDocument()
+		expect(screen.queryByRole("checkbox")).not.toBeInTheDocument()
+	})
+
+	it("reorders and removes the profiles of the chain", () => {
+		const onChange = vi.fn()
+
+		render(
+			<FailoverChainControl
+				apiConfiguration={{ failoverProfileIds: ["bedrock-id", "deleted-id"] }}
+				onChange={onChange}
+			/>,
+		)
+
+		const rows = screen.getAllByTestId("failover-profile")
+		expect(rows.map((row) => row.textContent)).toEqual([
+			"1.bedrock",
+			"2.settings:providers.failover.missingProfile",
+		])
+
+		fireEvent.click(screen.getAllByLabelText("settings:providers.failover.moveDown")[0])
+		expect(onChange).toHaveBeenCalledWith("failoverProfileIds", ["deleted-id", "bedrock-id"])
+
+		fireEvent.click(screen.getAllByLabelText("settings:providers.failover.remove")[1])
+		expect(onChange).toHaveBeenCalledWith("failoverProfileIds", ["bedrock-id"])
+	})
+
+	it("clears the chain when its last profile is removed", () => {
+		const onChange = vi.fn()
+
+		render(<FailoverChainControl apiConfiguration={{ failoverProfileIds: ["bedrock-id"] }} onChange={onChange} />)
+
+		fireEvent.click(screen.getByLabelText("settings:providers.failover.remove"))
+		expect(onChange).toHaveBeenCalledWith("failoverProfileIds", undefined)
+	})
+
+	it("toggles the error classes, defaulting to rate limits and server errors", () => {
+		const onChange = vi.fn()
+
+		render(<FailoverChainControl apiConfiguration={{ failoverProfileIds: ["bedrock-id"] }} onChange={onChange} />)
+
+		const checkboxes = screen.getAllByRole("checkbox")
+		expect(checkboxes.map((checkbox) => (checkbox as HTMLInputElement).checked)).toEqual([true, true, false, false])
+
+		fireEvent.click(checkboxes[2])
+		expect(onChange).toHaveBeenCalledWith("failoverErrorClasses", ["rate_limit", "server_error", "timeout"])
+
+		fireEvent.click(checkboxes[0])
+		expect(onChange).toHaveBeenCalledWith("failoverErrorClasses", ["server_error"])
+	})
+})
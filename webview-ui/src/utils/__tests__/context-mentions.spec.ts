@@ -546,6 +546,28 @@ describe("getContextMenuOptions", () => {
 		})
 	})
 
+	it("should offer MCP resources only when a server exposes them", () => {
+		const mcpResources: ContextMenuQueryItem[] = [
+			{
+				type: ContextMenuOptionType.McpResource,
+				value: "mcp://github/repo://{owner}/{repo}",
+				label: "Repository",
+				description: "github: repo://{owner}/{repo}",
+			},
+		]
+
+		expect(getContextMenuOptions("", null, mockQueryItems).map((item) => item.type)).not.toContain(
+			ContextMenuOptionType.McpResource,
+		)
+		expect(getContextMenuOptions("", null, mcpResources).at(-1)).toEqual({
+			type: ContextMenuOptionType.McpResource,
+		})
+		expect(getContextMenuOptions("", ContextMenuOptionType.McpResource, mcpResources)).toEqual(mcpResources)
+		expect(getContextMenuOptions("Reposit", null, [...mockQueryItems, ...mcpResources])).toContainEqual(
+			mcpResources[0],
+		)
+	})
+
 	// Add more tests for filtering, fuzzy search interaction if needed
 })
 
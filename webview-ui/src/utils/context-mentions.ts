@@ -108,6 +108,7 @@ export enum ContextMenuOptionType {
 	NoResults = "noResults",
 	Mode = "mode", // Add mode type
 	Command = "command", // Add command type
+	McpResource = "mcpResource",
 	SectionHeader = "sectionHeader", // Add section header type
 }
 
@@ -249,6 +250,11 @@ export function getContextMenuOptions(
 			return commits.length > 0 ? [workingChanges, ...commits] : [workingChanges]
 		}
 
+		if (selectedType === ContextMenuOptionType.McpResource) {
+			const resources = queryItems.filter((item) => item.type === ContextMenuOptionType.McpResource)
+			return resources.length > 0 ? resources : [{ type: ContextMenuOptionType.NoResults }]
+		}
+
 		return [
 			{ type: ContextMenuOptionType.Problems },
 			{ type: ContextMenuOptionType.Terminal },
@@ -256,6 +262,10 @@ export function getContextMenuOptions(
 			{ type: ContextMenuOptionType.Folder },
 			{ type: ContextMenuOptionType.File },
 			{ type: ContextMenuOptionType.Git },
+			// Only offered when a connected MCP server exposes resources.
+			...(queryItems.some((item) => item.type === ContextMenuOptionType.McpResource)
+				? [{ type: ContextMenuOptionType.McpResource }]
+				: []),
 		]
 	}
 
@@ -320,6 +330,8 @@ export function getContextMenuOptions(
 
 	const gitMatches = matchingItems.filter((item) => item.type === ContextMenuOptionType.Git)
 
+	const mcpResourceMatches = matchingItems.filter((item) => item.type === ContextMenuOptionType.McpResource)
+
 	// Convert search results to queryItems format
 	const searchResultItems = dynamicSearchResults.map((result) => {
 		// Ensure paths start with / for consistency
@@ -340,7 +352,7 @@ export function getContextMenuOptions(
 		}
 	})
 
-	const allItems = [...suggestions, ...openedFileMatches, ...searchResultItems, ...gitMatches]
+	const allItems = [...suggestions, ...openedFileMatches, ...searchResultItems, ...gitMatches, ...mcpResourceMatches]
 
 	// Remove duplicates - normalize paths by ensuring all have leading slashes
 	const seen = new Set()